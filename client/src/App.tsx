@@ -14,6 +14,7 @@ import UnitManagement from "@/pages/unit-management";
 import Summarize from "@/pages/summarize";
 import Analyze from "@/pages/analyze";
 import Optimize from "@/pages/optimize";
+import Webhooks from "@/pages/webhooks";
 import LoginPage from "@/pages/login";
 import NotFound from "@/pages/not-found";
 
@@ -48,6 +49,12 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/webhooks">
+        <ProtectedRoute>
+          <Webhooks />
+        </ProtectedRoute>
+      </Route>
+      
       {/* Protected routes - Session-based multi-property workflow */}
       <Route path="/session/summarize/:sessionId">
         {(params) => (
@@ -62,6 +62,14 @@ const renovationStatusOptions = [
   { value: "original", label: "Original" }
 ] as const;
 
+const radiusOptions = [
+  { value: "any", label: "Any Distance" },
+  { value: "1", label: "Within 1 Mile" },
+  { value: "3", label: "Within 3 Miles" },
+  { value: "5", label: "Within 5 Miles" },
+  { value: "10", label: "Within 10 Miles" }
+] as const;
+
 
 const AnalysisFilters = memo(({ 
   filters, 
@@ -73,8 +81,9 @@ const AnalysisFilters = memo(({
     (filters.amenities?.length || 0) +
     (filters.leaseTerms?.length || 0) +
     (filters.floorLevel ? 1 : 0) +
-    (filters.renovationStatus ? 1 : 0),
-    [filters.amenities, filters.leaseTerms, filters.floorLevel, filters.renovationStatus]
+    (filters.renovationStatus ? 1 : 0) +
+    (filters.radiusMiles ? 1 : 0),
+    [filters.amenities, filters.leaseTerms, filters.floorLevel, filters.renovationStatus, filters.radiusMiles]
   );
 
   // Check if all bedroom types are selected
@@ -163,6 +172,13 @@ const AnalysisFilters = memo(({
     });
   }, [filters, onFiltersChange]);
 
+  const handleRadiusChange = useCallback((value: string) => {
+    onFiltersChange({
+      ...filters,
+      radiusMiles: value === "any" ? undefined : parseFloat(value)
+    });
+  }, [filters, onFiltersChange]);
+
 
 
   return (
@@ -438,6 +454,35 @@ const AnalysisFilters = memo(({
                     ))}
                   </RadioGroup>
                 </div>
+
+                <Separator />
+
+                {/* Distance from Subject */}
+                <div className="space-y-3" data-testid="radius-filter">
+                  <Label className="text-sm font-medium">Competitor Distance</Label>
+                  <RadioGroup 
+                    value={filters.radiusMiles ? String(filters.radiusMiles) : "any"} 
+                    onValueChange={handleRadiusChange}
+                    data-testid="radiogroup-radius"
+                  >
+                    {radiusOptions.map((option) => (
+                      <div key={option.value} className="flex items-center space-x-2" data-testid={`radius-${option.value}`}>
+                        <RadioGroupItem 
+                          value={option.value} 
+                          id={`radius-${option.value}`}
+                          data-testid={`radio-radius-${option.value}`}
+                        />
+                        <Label 
+                          htmlFor={`radius-${option.value}`} 
+                          className="text-sm cursor-pointer"
+                          data-testid={`label-radius-${option.value}`}
+                        >
+                          {option.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
               </AccordionContent>
             </AccordionItem>
           </Accordion>
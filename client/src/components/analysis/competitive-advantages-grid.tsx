@@ -6,7 +6,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { DollarSign, Square, Calendar, Info } from "lucide-react";
+import { DollarSign, Square, Calendar, Sparkles, Info } from "lucide-react";
 import type { CompetitiveEdges } from "@shared/schema";
 
 interface CompetitiveAdvantagesGridProps {
@@ -50,13 +50,19 @@ export default function CompetitiveAdvantagesGrid({
       title: "Availability",
       icon: <Calendar className="h-5 w-5" />,
       data: competitiveEdges.availability
+    },
+    {
+      key: "amenities",
+      title: "Amenities",
+      icon: <Sparkles className="h-5 w-5" />,
+      data: competitiveEdges.amenities
     }
   ];
 
   return (
     <TooltipProvider>
     <div 
-      className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4" 
+      className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4" 
       data-testid="competitive-advantages-grid"
     >
       {edges.map((edge) => (
@@ -124,6 +130,20 @@ export default function CompetitiveAdvantagesGrid({
                         </div>
                       </>
                     )}
+                    {edge.key === "amenities" && (
+                      <>
+                        <div className="font-medium">Amenity Advantage</div>
+                        <div className="text-sm text-muted-foreground space-y-1">
+                          <p>Compares your amenity score to the competitor average. Each amenity adds its value weight to the score.</p>
+                          <p className="pt-1">• <strong>Positive pts</strong> - Your amenities cover more of the weighted amenity list</p>
+                          <p>• <strong>0 pts</strong> - Comparable amenity packages</p>
+                          <p>• <strong>Negative pts</strong> - Competitors offer more valued amenities</p>
+                        </div>
+                        <div className="text-xs text-muted-foreground pt-2 italic">
+                          Properties without amenity data are left out of the comparison
+                        </div>
+                      </>
+                    )}
                   </TooltipContent>
                 </Tooltip>
               </div>
@@ -163,6 +183,12 @@ export default function CompetitiveAdvantagesGrid({
                     </span>
                   </div>
                 )}
+                {edge.key === "amenities" && edge.data.edge !== 0 && (
+                  <div className="flex flex-col items-center">
+                    <span>{edge.data.edge > 0 ? `+${edge.data.edge}` : `${edge.data.edge}`}</span>
+                    <span className="text-sm font-normal">pts</span>
+                  </div>
+                )}
               </div>
             </div>
 
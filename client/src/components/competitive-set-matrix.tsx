@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { X, Info, BarChart3, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PropertyMap } from "@/components/property-map";
 
 // Types for the component
 interface CompetitiveRelationship {
@@ -106,6 +107,7 @@ export function CompetitiveSetMatrix({ portfolioId, onAnalyzeClick }: Competitiv
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "competitive-relationships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "map"] });
       toast({ title: "Relationship created", description: "Competitive relationship has been established." });
     },
     onError: (error) => {
@@ -126,6 +128,7 @@ export function CompetitiveSetMatrix({ portfolioId, onAnalyzeClick }: Competitiv
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "competitive-relationships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "map"] });
     },
     onError: (error) => {
       toast({
@@ -190,183 +193,187 @@ export function CompetitiveSetMatrix({ portfolioId, onAnalyzeClick }: Competitiv
   }
 
   return (
-    <Card className="w-full" data-testid="competitive-set-matrix">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <BarChart3 className="h-5 w-5" />
-          Competitive Set Matrix
-        </CardTitle>
-        
-        {/* Mode Toggle */}
-        <div className="flex items-center gap-4" data-testid="competitor-mode-toggle">
-          <label className="text-sm font-medium">Competition Type:</label>
-          <ToggleGroup
-            type="single"
-            value={competitorMode}
-            onValueChange={(value) => value && setCompetitorMode(value as "external" | "internal")}
-          >
-            <ToggleGroupItem value="external" data-testid="toggle-external">
-              External Competitors
-            </ToggleGroupItem>
-            <ToggleGroupItem value="internal" data-testid="toggle-internal">
-              Internal Competition
-            </ToggleGroupItem>
-          </ToggleGroup>
-        </div>
-
-        {/* Explanatory Alert */}
-        <Alert data-testid="competitor-explanation">
-          <Info className="h-4 w-4" />
-          <AlertDescription>
-            {competitorMode === "external" 
-              ? "External competition shows how your subject properties compete with external competitor properties in the market."
-              : "Internal competition shows how your subject properties compete with each other within your portfolio."
-            }
-          </AlertDescription>
-        </Alert>
-      </CardHeader>
+    <div className="space-y-6">
+      <Card className="w-full" data-testid="competitive-set-matrix">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Competitive Set Matrix
+          </CardTitle>
+          
+          {/* Mode Toggle */}
+          <div className="flex items-center gap-4" data-testid="competitor-mode-toggle">
+            <label className="text-sm font-medium">Competition Type:</label>
+            <ToggleGroup
+              type="single"
+              value={competitorMode}
+              onValueChange={(value) => value && setCompetitorMode(value as "external" | "internal")}
+            >
+              <ToggleGroupItem value="external" data-testid="toggle-external">
+                External Competitors
+              </ToggleGroupItem>
+              <ToggleGroupItem value="internal" data-testid="toggle-internal">
+                Internal Competition
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
 
-      <CardContent>
-        {subjectProperties.length === 0 || competitorProperties.length === 0 ? (
-          <div className="text-center py-8 text-muted-foreground" data-testid="no-properties-message">
-            <p>
+          {/* Explanatory Alert */}
+          <Alert data-testid="competitor-explanation">
+            <Info className="h-4 w-4" />
+            <AlertDescription>
               {competitorMode === "external" 
-                ? "No subject or competitor properties found in this portfolio."
-                : "Need at least 2 subject properties for internal competition analysis."
+                ? "External competition shows how your subject properties compete with external competitor properties in the market."
+                : "Internal competition shows how your subject properties compete with each other within your portfolio."
               }
-            </p>
-          </div>
-        ) : (
-          <>
-            {/* Matrix Table */}
-            <div className="relative overflow-auto border rounded-lg" data-testid="competitive-matrix-table">
-              <Table>
-                <TableHeader className="sticky top-0 z-10 bg-background">
-                  <TableRow>
-                    <TableHead className="sticky left-0 z-20 bg-background border-r min-w-[200px]">
-                      Subject Properties
-                    </TableHead>
-                    {competitorProperties.map((competitor: PropertyProfile) => (
-                      <TableHead 
-                        key={competitor.id} 
-                        className="text-center min-w-[120px] rotate-45 h-24"
-                        data-testid={`competitor-header-${competitor.id}`}
-                      >
-                        <div className="transform origin-bottom-left whitespace-nowrap text-xs">
-                          {competitor.name}
-                        </div>
+            </AlertDescription>
+          </Alert>
+        </CardHeader>
+
+        <CardContent>
+          {subjectProperties.length === 0 || competitorProperties.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="no-properties-message">
+              <p>
+                {competitorMode === "external" 
+                  ? "No subject or competitor properties found in this portfolio."
+                  : "Need at least 2 subject properties for internal competition analysis."
+                }
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Matrix Table */}
+              <div className="relative overflow-auto border rounded-lg" data-testid="competitive-matrix-table">
+                <Table>
+                  <TableHeader className="sticky top-0 z-10 bg-background">
+                    <TableRow>
+                      <TableHead className="sticky left-0 z-20 bg-background border-r min-w-[200px]">
+                        Subject Properties
                       </TableHead>
-                    ))}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {subjectProperties.map((subject: PropertyProfile) => (
-                    <TableRow key={subject.id} data-testid={`subject-row-${subject.id}`}>
-                      <TableCell className="sticky left-0 z-10 bg-background border-r font-medium">
-                        <div>
-                          <div className="font-semibold text-sm" data-testid={`subject-name-${subject.id}`}>
-                            {subject.name}
+                      {competitorProperties.map((competitor: PropertyProfile) => (
+                        <TableHead 
+                          key={competitor.id} 
+                          className="text-center min-w-[120px] rotate-45 h-24"
+                          data-testid={`competitor-header-${competitor.id}`}
+                        >
+                          <div className="transform origin-bottom-left whitespace-nowrap text-xs">
+                            {competitor.name}
                           </div>
-                          <div className="text-xs text-muted-foreground truncate">
-                            {subject.address}
-                          </div>
-                        </div>
-                      </TableCell>
-                      {competitorProperties.map((competitor: PropertyProfile) => {
-                        const relationship = getRelationship(subject.id, competitor.id);
-                        const isActive = relationship?.isActive;
-                        const isSelfComparison = subject.id === competitor.id;
-                        
-                        return (
-                          <TableCell 
-                            key={competitor.id} 
-                            className="text-center p-2"
-                            data-testid={`matrix-cell-${subject.id}-${competitor.id}`}
-                          >
-                            {isSelfComparison ? (
-                              <div className="w-8 h-8 bg-muted rounded flex items-center justify-center">
-                                <span className="text-xs text-muted-foreground">—</span>
-                              </div>
-                            ) : (
-                              <Button
-                                variant={isActive ? "default" : "outline"}
-                                size="sm"
-                                className={cn(
-                                  "w-8 h-8 p-0 transition-colors",
-                                  isActive ? "bg-blue-600 hover:bg-blue-700" : "hover:bg-muted"
-                                )}
-                                onClick={() => handleCellClick(subject.id, competitor.id)}
-                                disabled={createRelationshipMutation.isPending || toggleRelationshipMutation.isPending}
-                                data-testid={`relationship-toggle-${subject.id}-${competitor.id}`}
-                              >
-                                {(createRelationshipMutation.isPending || toggleRelationshipMutation.isPending) ? (
-                                  <Loader2 className="h-3 w-3 animate-spin" />
-                                ) : isActive ? (
-                                  <X className="h-3 w-3" />
-                                ) : (
-                                  <span className="text-xs">+</span>
-                                )}
-                              </Button>
-                            )}
-                          </TableCell>
-                        );
-                      })}
+                        </TableHead>
+                      ))}
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
+                  </TableHeader>
+                  <TableBody>
+                    {subjectProperties.map((subject: PropertyProfile) => (
+                      <TableRow key={subject.id} data-testid={`subject-row-${subject.id}`}>
+                        <TableCell className="sticky left-0 z-10 bg-background border-r font-medium">
+                          <div>
+                            <div className="font-semibold text-sm" data-testid={`subject-name-${subject.id}`}>
+                              {subject.name}
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {subject.address}
+                            </div>
+                          </div>
+                        </TableCell>
+                        {competitorProperties.map((competitor: PropertyProfile) => {
+                          const relationship = getRelationship(subject.id, competitor.id);
+                          const isActive = relationship?.isActive;
+                          const isSelfComparison = subject.id === competitor.id;
+                          
+                          return (
+                            <TableCell 
+                              key={competitor.id} 
+                              className="text-center p-2"
+                              data-testid={`matrix-cell-${subject.id}-${competitor.id}`}
+                            >
+                              {isSelfComparison ? (
+                                <div className="w-8 h-8 bg-muted rounded flex items-center justify-center">
+                                  <span className="text-xs text-muted-foreground">—</span>
+                                </div>
+                              ) : (
+                                <Button
+                                  variant={isActive ? "default" : "outline"}
+                                  size="sm"
+                                  className={cn(
+                                    "w-8 h-8 p-0 transition-colors",
+                                    isActive ? "bg-blue-600 hover:bg-blue-700" : "hover:bg-muted"
+                                  )}
+                                  onClick={() => handleCellClick(subject.id, competitor.id)}
+                                  disabled={createRelationshipMutation.isPending || toggleRelationshipMutation.isPending}
+                                  data-testid={`relationship-toggle-${subject.id}-${competitor.id}`}
+                                >
+                                  {(createRelationshipMutation.isPending || toggleRelationshipMutation.isPending) ? (
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                  ) : isActive ? (
+                                    <X className="h-3 w-3" />
+                                  ) : (
+                                    <span className="text-xs">+</span>
+                                  )}
+                                </Button>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
 
-            {/* Summary and Action Section */}
-            <div className="mt-6 flex items-center justify-between" data-testid="matrix-summary">
-              <div className="flex items-center gap-4">
-                <Badge variant="secondary" data-testid="active-relationships-count">
-                  {activeRelationships.length} Active Relationships
-                </Badge>
-                <div className="text-sm text-muted-foreground">
-                  Click cells to toggle competitive relationships
+              {/* Summary and Action Section */}
+              <div className="mt-6 flex items-center justify-between" data-testid="matrix-summary">
+                <div className="flex items-center gap-4">
+                  <Badge variant="secondary" data-testid="active-relationships-count">
+                    {activeRelationships.length} Active Relationships
+                  </Badge>
+                  <div className="text-sm text-muted-foreground">
+                    Click cells to toggle competitive relationships
+                  </div>
                 </div>
+                
+                <Button
+                  onClick={handleAnalyzeClick}
+                  disabled={activeRelationships.length === 0}
+                  className="gap-2"
+                  data-testid="analyze-competitive-set-button"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  Analyze with Competitive Set
+                </Button>
               </div>
-              
-              <Button
-                onClick={handleAnalyzeClick}
-                disabled={activeRelationships.length === 0}
-                className="gap-2"
-                data-testid="analyze-competitive-set-button"
-              >
-                <BarChart3 className="h-4 w-4" />
-                Analyze with Competitive Set
-              </Button>
-            </div>
 
-            {/* Legend */}
-            <div className="mt-4 p-4 bg-muted/30 rounded-lg" data-testid="matrix-legend">
-              <div className="text-sm font-medium mb-2">Legend:</div>
-              <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-6 bg-blue-600 rounded flex items-center justify-center">
-                    <X className="h-3 w-3 text-white" />
+              {/* Legend */}
+              <div className="mt-4 p-4 bg-muted/30 rounded-lg" data-testid="matrix-legend">
+                <div className="text-sm font-medium mb-2">Legend:</div>
+                <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-6 bg-blue-600 rounded flex items-center justify-center">
+                      <X className="h-3 w-3 text-white" />
+                    </div>
+                    <span>Active competitive relationship</span>
                   </div>
-                  <span>Active competitive relationship</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-6 border border-border rounded flex items-center justify-center">
-                    <span className="text-xs">+</span>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-6 border border-border rounded flex items-center justify-center">
+                      <span className="text-xs">+</span>
+                    </div>
+                    <span>Click to create relationship</span>
                   </div>
-                  <span>Click to create relationship</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-6 bg-muted rounded flex items-center justify-center">
-                    <span className="text-xs">—</span>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-6 bg-muted rounded flex items-center justify-center">
+                      <span className="text-xs">—</span>
+                    </div>
+                    <span>Same property (not applicable)</span>
                   </div>
-                  <span>Same property (not applicable)</span>
                 </div>
               </div>
-            </div>
-          </>
-        )}
-      </CardContent>
-    </Card>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <PropertyMap portfolioId={portfolioId} title="Competitive Set Map" />
+    </div>
   );
 }
 
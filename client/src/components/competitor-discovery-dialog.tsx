@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Radar, Check, X, ExternalLink, AlertCircle } from "lucide-react";
+import type {
+  CandidateSimilarityFactor,
+  CompetitorCandidate,
+  CompetitorCandidateStatus,
+  PropertyProfile,
+  ScrapingJob
+} from "@shared/schema";
+
+interface CompetitorCandidatesResponse {
+  propertyProfileId: string;
+  discoveryJob: ScrapingJob | null;
+  candidates: CompetitorCandidate[];
+}
+
+interface CompetitorDiscoveryDialogProps {
+  subject: PropertyProfile | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FACTOR_LABELS: Record<CandidateSimilarityFactor, string> = {
+  unitMix: "Unit mix",
+  vintage: "Vintage",
+  size: "Size",
+  amenities: "Amenities",
+  distance: "Distance"
+};
+
+// Poll while a discovery job is queued or running
+const DISCOVERY_POLL_INTERVAL_MS = 3000;
+
+export default function CompetitorDiscoveryDialog({ subject, onOpenChange }: CompetitorDiscoveryDialogProps) {
+  const { toast } = useToast();
+  const [searchUrl, setSearchUrl] = useState("");
+  const [statusFilter, setStatusFilter] = useState<CompetitorCandidateStatus>("pending");
+
+  const candidatesQueryKey = ["/api/property-profiles", subject?.id, "competitor-candidates"];
+  const { data, isLoading } = useQuery<CompetitorCandidatesResponse>({
+    queryKey: candidatesQueryKey,
+    enabled: !!subject,
+    refetchInterval: (query) => {
+      const status = query.state.data?.discoveryJob?.status;
+      return status === "pending" || status === "processing" ? DISCOVERY_POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const discoveryJob = data?.discoveryJob ?? null;
+  const isRunning = discoveryJob?.status === "pending" || discoveryJob?.status === "processing";
+  const candidates = (data?.candidates ?? []).filter(candidate => candidate.status === statusFilter);
+
+  const startDiscoveryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/property-profiles/${subject!.id}/competitor-discovery`, {
+        searchUrl: searchUrl.trim() || undefined
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: candidatesQueryKey });
+      toast({
+        title: "Discovery Started",
+        description: "Listings are being scraped and scored. Candidates appear here as soon as the run finishes.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Discovery Failed",
+        description: error.message || "Failed to start competitor discovery",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ candidateId, decision }: { candidateId: string; decision: "accept" | "reject" }) => {
+      const res = await apiRequest("POST", `/api/property-profiles/${subject!.id}/competitor-candidates/${candidateId}/${decision}`);
+      return res.json();
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: candidatesQueryKey });
+      if (decision === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/property-profiles"] });
+        toast({
+          title: "Competitor Added",
+          description: "The candidate was added to your competitor profiles.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review the candidate",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getScoreBadgeClass = (score: number) => {
+    if (score >= 70) return "bg-green-100 text-green-700 border-green-300";
+    if (score >= 40) return "bg-yellow-100 text-yellow-700 border-yellow-300";
+    return "bg-red-100 text-red-700 border-red-300";
+  };
+
+  const getJobSummary = () => {
+    if (!discoveryJob) return null;
+    if (isRunning) {
+      return (
+        <span className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Searching {discoveryJob.cityUrl}...
+        </span>
+      );
+    }
+    if (discoveryJob.status === "completed") {
+      const results = discoveryJob.results as { listingsFound?: number; candidatesScored?: number } | null;
+      return `Last run found ${results?.listingsFound ?? 0} listings on ${discoveryJob.cityUrl} and scored ${results?.candidatesScored ?? 0}.`;
+    }
+    return (
+      <span className="flex items-center gap-2 text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        Last run failed: {discoveryJob.errorMessage || "Unknown error"}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={!!subject} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl" data-testid="dialog-competitor-discovery">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Radar className="h-5 w-5" />
+            Discover Competitors
+          </DialogTitle>
+          <DialogDescription>
+            Find comparable properties for {subject?.name} on a listing site's search results page. Each listing is scored on unit mix, vintage, size, amenities and distance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="discovery-search-url">Search results or market URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="discovery-search-url"
+              value={searchUrl}
+              onChange={(event) => setSearchUrl(event.target.value)}
+              placeholder={subject?.city && subject?.state
+                ? `Leave empty to search apartments.com in ${subject.city}, ${subject.state}`
+                : "https://www.apartments.com/your-city-st/"}
+              data-testid="input-discovery-search-url"
+            />
+            <Button
+              onClick={() => startDiscoveryMutation.mutate()}
+              disabled={startDiscoveryMutation.isPending || isRunning}
+              data-testid="button-start-discovery"
+            >
+              {(startDiscoveryMutation.isPending || isRunning) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Find Competitors
+            </Button>
+          </div>
+          {discoveryJob && (
+            <div className="text-sm text-muted-foreground" data-testid="text-discovery-status">
+              {getJobSummary()}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <ToggleGroup
+            type="single"
+            value={statusFilter}
+            onValueChange={(value) => value && setStatusFilter(value as CompetitorCandidateStatus)}
+            size="sm"
+            data-testid="toggle-candidate-status"
+          >
+            <ToggleGroupItem value="pending">To review</ToggleGroupItem>
+            <ToggleGroupItem value="accepted">Accepted</ToggleGroupItem>
+            <ToggleGroupItem value="rejected">Rejected</ToggleGroupItem>
+          </ToggleGroup>
+          <span className="text-sm text-muted-foreground">
+            {candidates.length} {candidates.length === 1 ? "candidate" : "candidates"}
+          </span>
+        </div>
+
+        <ScrollArea className="h-[420px] rounded-md border">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <div className="text-center text-muted-foreground py-16" data-testid="text-no-candidates">
+              {statusFilter === "pending"
+                ? "No candidates to review. Run a discovery to find comparable properties."
+                : `No ${statusFilter} candidates.`}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Property</TableHead>
+                  <TableHead className="text-center">Match</TableHead>
+                  <TableHead>Similarity</TableHead>
+                  <TableHead className="text-right">Distance</TableHead>
+                  <TableHead className="text-right">Built</TableHead>
+                  <TableHead className="text-right">Avg Rent</TableHead>
+                  {statusFilter !== "accepted" && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map((candidate) => (
+                  <TableRow key={candidate.id} data-testid={`row-candidate-${candidate.id}`}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-1">
+                        {candidate.name}
+                        <a href={candidate.url} target="_blank" rel="noopener noreferrer" title="Open listing">
+                          <ExternalLink className="h-3 w-3 text-muted-foreground" />
+                        </a>
+                      </div>
+                      <div className="text-xs text-muted-foreground">{candidate.address}</div>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant="outline" className={getScoreBadgeClass(parseFloat(candidate.matchScore))}>
+                        {Math.round(parseFloat(candidate.matchScore))}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(Object.keys(FACTOR_LABELS) as CandidateSimilarityFactor[]).map(factor => {
+                          const score = candidate.similarity[factor];
+                          return (
+                            <Badge key={factor} variant="secondary" className="text-xs font-normal">
+                              {FACTOR_LABELS[factor]} {score !== undefined ? score : "—"}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {candidate.distance !== null ? `${parseFloat(candidate.distance).toFixed(1)} mi` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{candidate.builtYear ?? "—"}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {candidate.avgRent !== null ? `$${Math.round(parseFloat(candidate.avgRent)).toLocaleString()}` : "—"}
+                    </TableCell>
+                    {statusFilter !== "accepted" && (
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => reviewMutation.mutate({ candidateId: candidate.id, decision: "accept" })}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-accept-candidate-${candidate.id}`}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Accept
+                          </Button>
+                          {statusFilter === "pending" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => reviewMutation.mutate({ candidateId: candidate.id, decision: "reject" })}
+                              disabled={reviewMutation.isPending}
+                              data-testid={`button-reject-candidate-${candidate.id}`}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
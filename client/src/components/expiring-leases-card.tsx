@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CalendarClock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ExpiringLease } from "@shared/schema";
+
+const WINDOW_OPTIONS = [30, 60, 90, 180];
+
+const renewalStatusLabels: Record<string, string> = {
+  pending: "Pending",
+  offered: "Offered",
+  renewed: "Renewed",
+  declined: "Declined",
+  month_to_month: "Month-to-Month",
+};
+
+interface ExpiringLeasesCardProps {
+  // Either a session (all subject properties) or a single property profile
+  sessionId?: string;
+  propertyProfileId?: string;
+}
+
+function formatCurrency(value: string | null | undefined) {
+  if (!value) return "—";
+  return `$${parseFloat(value).toLocaleString()}`;
+}
+
+function expirationLabel(days: number) {
+  if (days < 0) return `Ended ${Math.abs(days)}d ago`;
+  if (days === 0) return "Today";
+  return `${days}d`;
+}
+
+export default function ExpiringLeasesCard({ sessionId, propertyProfileId }: ExpiringLeasesCardProps) {
+  const [withinDays, setWithinDays] = useState(90);
+  const endpoint = sessionId
+    ? `/api/analysis-sessions/${sessionId}/expiring-leases`
+    : `/api/property-profiles/${propertyProfileId}/expiring-leases`;
+
+  const { data, isLoading } = useQuery<{ withinDays: number; leases: ExpiringLease[] }>({
+    queryKey: [endpoint, withinDays],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `${endpoint}?days=${withinDays}`);
+      return response.json();
+    },
+    enabled: !!(sessionId || propertyProfileId)
+  });
+  const expiringLeases = data?.leases ?? [];
+
+  const showPropertyColumn = !!sessionId;
+
+  return (
+    <Card data-testid="expiring-leases-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Expiring Leases
+          </CardTitle>
+          <CardDescription>
+            Occupied units whose current lease ends within the window and hasn't been renewed
+          </CardDescription>
+        </div>
+        <Select value={withinDays.toString()} onValueChange={(value) => setWithinDays(parseInt(value, 10))}>
+          <SelectTrigger className="w-[140px]" data-testid="select-expiring-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOW_OPTIONS.map(days => (
+              <SelectItem key={days} value={days.toString()}>
+                Next {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading leases...</div>
+        ) : expiringLeases.length === 0 ? (
+          <div className="text-sm text-muted-foreground" data-testid="no-expiring-leases">
+            No leases expiring in the next {withinDays} days.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {showPropertyColumn && <TableHead>Property</TableHead>}
+                <TableHead>Unit</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Lease End</TableHead>
+                <TableHead>Expires In</TableHead>
+                <TableHead className="text-right">Current Rent</TableHead>
+                <TableHead className="text-right">Effective Rent</TableHead>
+                <TableHead>Renewal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {expiringLeases.map(({ propertyName, unit, lease, daysUntilExpiration }) => (
+                <TableRow key={lease.id} data-testid={`expiring-lease-${unit.id}`}>
+                  {showPropertyColumn && <TableCell>{propertyName}</TableCell>}
+                  <TableCell className="font-medium">{unit.unitNumber}</TableCell>
+                  <TableCell>{unit.unitType}</TableCell>
+                  <TableCell>{lease.leaseEnd}</TableCell>
+                  <TableCell>
+                    <Badge variant={daysUntilExpiration <= 30 ? "destructive" : "secondary"}>
+                      {expirationLabel(daysUntilExpiration)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(unit.currentRent)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(lease.effectiveRent)}</TableCell>
+                  <TableCell>{renewalStatusLabels[lease.renewalStatus] ?? lease.renewalStatus}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
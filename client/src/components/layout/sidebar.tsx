@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
-import { Home, BarChart3, TrendingUp, DollarSign, Building2, Grid3X3, PieChart, Lock, LogIn, ChevronRight, FileSpreadsheet, Check, Circle, Dot, Settings, ChevronDown, Loader2 } from "lucide-react";
+import { Home, BarChart3, TrendingUp, DollarSign, Building2, Grid3X3, PieChart, Lock, LogIn, ChevronRight, FileSpreadsheet, Check, Circle, Dot, Settings, ChevronDown, Loader2, Webhook } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
@@ -538,6 +538,19 @@ export default function Sidebar() {
                   <FileSpreadsheet className="w-5 h-5 mr-3" />
                   Unit Management
                 </Link>
+                
+                <Link
+                  href="/webhooks"
+                  className={`flex items-center px-3 py-2 rounded-md font-medium transition-colors ml-10 ${
+                    location === "/webhooks"
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-accent text-muted-foreground hover:text-foreground"
+                  }`}
+                  data-testid="nav-link-webhooks"
+                >
+                  <Webhook className="w-5 h-5 mr-3" />
+                  Webhooks
+                </Link>
               </div>
             )}
           </div>
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarRange } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/formatters";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LeaseExpirationMonth, LeaseExpirationProfile } from "@shared/schema";
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const statusColors: Record<LeaseExpirationMonth["status"], string> = {
+  over: "bg-red-500",
+  under: "bg-amber-400",
+  on_target: "bg-green-500",
+};
+
+function monthLabel(key: string) {
+  return `${MONTH_NAMES[parseInt(key.slice(5, 7), 10) - 1]} ${key.slice(2, 4)}`;
+}
+
+interface LeaseExpirationCardProps {
+  sessionId: string;
+}
+
+function TargetEditor({ profile, sessionId }: { profile: LeaseExpirationProfile; sessionId: string }) {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState(profile.targets.map(target => Math.round(target * 10) / 10));
+  const total = targets.reduce((sum, target) => sum + target, 0);
+
+  const saveMutation = useMutation({
+    mutationFn: async (leaseExpirationTargets: number[] | null) => {
+      const response = await apiRequest("PUT", `/api/property-profiles/${profile.propertyProfileId}/lease-expiration-targets`, {
+        leaseExpirationTargets
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "lease-expirations"] });
+      toast({ title: "Expiration targets saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save targets", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-6 md:grid-cols-12 gap-2">
+        {MONTH_NAMES.map((name, index) => (
+          <div key={name} className="space-y-1">
+            <div className="text-xs text-muted-foreground text-center">{name}</div>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={targets[index]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                setTargets(current => current.map((target, i) => (i === index ? value : target)));
+              }}
+              className="h-8 px-1 text-center"
+              data-testid={`input-expiration-target-${index}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className={`text-sm ${Math.abs(total - 100) < 0.5 ? "text-muted-foreground" : "text-red-600"}`}>
+          Total: {Math.round(total * 10) / 10}%
+        </span>
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate(targets)}
+          disabled={saveMutation.isPending || Math.abs(total - 100) >= 0.5}
+          data-testid="button-save-expiration-targets"
+        >
+          Save Targets
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => saveMutation.mutate(null)}
+          disabled={saveMutation.isPending}
+        >
+          Reset to Even
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ExpirationProfile({ profile, sessionId }: { profile: LeaseExpirationProfile; sessionId: string }) {
+  const maxCount = Math.max(1, ...profile.months.map(month => Math.max(month.expiring, month.target)));
+
+  return (
+    <div className="space-y-4" data-testid={`expiration-profile-${profile.propertyProfileId}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">{profile.propertyName}</h4>
+        <div className="text-sm text-muted-foreground">
+          {profile.unitsWithLeases} of {profile.occupiedUnits} occupied units with lease dates
+          {profile.holdover > 0 && ` • ${profile.holdover} in holdover`}
+        </div>
+      </div>
+
+      <div className="flex items-end gap-2 h-32">
+        {profile.months.map(month => (
+          <div key={month.month} className="flex-1 flex flex-col items-center gap-1" title={`${month.expiring} expiring, target ${month.target}`}>
+            <div className="relative w-full flex-1 flex items-end">
+              <div
+                className={`w-full rounded-t ${statusColors[month.status]}`}
+                style={{ height: `${(month.expiring / maxCount) * 100}%` }}
+              />
+              <div
+                className="absolute left-0 right-0 border-t-2 border-dashed border-foreground/60"
+                style={{ bottom: `${(month.target / maxCount) * 100}%` }}
+              />
+            </div>
+            <div className="text-xs text-muted-foreground">{monthLabel(month.month)}</div>
+            <div className="text-xs font-medium">{month.expiring}</div>
+          </div>
+        ))}
+      </div>
+
+      {profile.groups.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bedrooms</TableHead>
+              <TableHead>TAG</TableHead>
+              {profile.months.map(month => (
+                <TableHead key={month.month} className="text-center px-1">{monthLabel(month.month)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profile.groups.map(group => (
+              <TableRow key={`${group.bedrooms}-${group.tag}`}>
+                <TableCell>{group.bedrooms === "0" ? "Studio" : `${group.bedrooms}BR`}</TableCell>
+                <TableCell>{group.tag}</TableCell>
+                {group.expiringByMonth.map((count, index) => (
+                  <TableCell key={index} className="text-center px-1">{count || ""}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {profile.termRecommendations.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Unit</TableHead>
+              <TableHead>Lease End</TableHead>
+              <TableHead>Recommended Term</TableHead>
+              <TableHead>Term Pricing</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profile.termRecommendations.map(recommendation => (
+              <TableRow key={recommendation.unitId} data-testid={`term-recommendation-${recommendation.unitId}`}>
+                <TableCell className="font-medium">{recommendation.unitNumber}</TableCell>
+                <TableCell>{recommendation.leaseEnd}</TableCell>
+                <TableCell>
+                  <Badge>{recommendation.recommendedTermMonths} months</Badge>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    ends {monthLabel(recommendation.recommendedExpirationMonth)}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {recommendation.options.map(option => (
+                      <span
+                        key={option.termMonths}
+                        className={`text-xs rounded px-1.5 py-0.5 ${option.termMonths === recommendation.recommendedTermMonths ? "bg-primary text-primary-foreground" : "bg-muted"}`}
+                        title={option.premiumPercent > 0 ? `+${option.premiumPercent}% premium` : "No premium"}
+                      >
+                        {option.termMonths}mo {formatCurrency(option.rent)}
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{recommendation.reasoning}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" data-testid="button-edit-expiration-targets">
+            Edit target distribution
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <TargetEditor key={profile.targets.join(",")} profile={profile} sessionId={sessionId} />
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
+
+export default function LeaseExpirationCard({ sessionId }: LeaseExpirationCardProps) {
+  const { data, isLoading } = useQuery<{ sessionId: string; profiles: LeaseExpirationProfile[] }>({
+    queryKey: ["/api/analysis-sessions", sessionId, "lease-expirations"],
+    enabled: !!sessionId
+  });
+  const profiles = data?.profiles ?? [];
+
+  return (
+    <Card data-testid="lease-expiration-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Lease Expiration Profile
+        </CardTitle>
+        <CardDescription>
+          Lease expirations over the next 12 months against each property's target distribution (dashed line), with lease terms that move renewals out of crowded months
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading expiration profile...</div>
+        ) : profiles.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No subject properties in this session.</div>
+        ) : (
+          profiles.map(profile => (
+            <ExpirationProfile key={profile.propertyProfileId} profile={profile} sessionId={sessionId} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState, useEffect, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Zap, Settings } from "lucide-react";
+import type { PricingStrategyDescriptor } from "@shared/schema";
 
 interface OptimizationControlsProps {
   goal: string;
@@ -15,17 +18,6 @@ interface OptimizationControlsProps {
   onRiskToleranceChange: (value: number[]) => void;
 }
 
-interface PresetConfig {
-  occupancy: number;
-  risk: number;
-}
-
-const presets: Record<string, PresetConfig> = {
-  "maximize-revenue": { occupancy: 85, risk: 3 },
-  "maximize-occupancy": { occupancy: 98, risk: 1 },
-  "balanced": { occupancy: 92, risk: 2 }
-};
-
 // Utility function for smooth value transitions
 const animateSliderValue = (
   currentValue: number,
@@ -74,13 +66,20 @@ export default function OptimizationControls({
   const [isAnimating, setIsAnimating] = useState(false);
   const [prevGoal, setPrevGoal] = useState(goal);
 
+  // Strategies come from the server-side pricing strategy registry
+  const { data: strategies = [], isLoading: isLoadingStrategies } = useQuery<PricingStrategyDescriptor[]>({
+    queryKey: ['/api/pricing-strategies'],
+    staleTime: Infinity
+  });
+  const selectedStrategy = strategies.find(strategy => strategy.id === goal);
+  const preset = selectedStrategy?.preset;
+
   // Handle goal changes and trigger animations
   useEffect(() => {
-    // Only animate if goal actually changed and it's not Custom mode
-    if (goal !== prevGoal && goal !== "custom" && presets[goal]) {
+    // Only animate if goal actually changed and the strategy has slider presets
+    if (goal !== prevGoal && preset) {
       setIsAnimating(true);
       
-      const preset = presets[goal];
       const currentOccupancy = targetOccupancy[0];
       const currentRisk = riskTolerance[0];
       
@@ -109,9 +108,10 @@ export default function OptimizationControls({
     }
     
     setPrevGoal(goal);
-  }, [goal, targetOccupancy, riskTolerance, onTargetOccupancyChange, onRiskToleranceChange, prevGoal]);
+  }, [goal, preset, targetOccupancy, riskTolerance, onTargetOccupancyChange, onRiskToleranceChange, prevGoal]);
 
-  const isCustomMode = goal === "custom";
+  // Strategies without presets (e.g. the custom rule table) are tuned manually
+  const isCustomMode = !isLoadingStrategies && !preset;
   const isSliderDisabled = !isCustomMode;
 
   return (
@@ -125,38 +125,29 @@ export default function OptimizationControls({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <RadioGroup value={goal} onValueChange={onGoalChange} data-testid="radio-goal">
+          {isLoadingStrategies ? (
             <div className="space-y-3">
-              <div className="flex items-center justify-between space-x-2">
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="maximize-revenue" id="maximize-revenue" />
-                  <Label htmlFor="maximize-revenue" className="font-medium">Maximize Revenue</Label>
-                </div>
-                <Badge variant="secondary" className="text-xs">85% • High Risk</Badge>
-              </div>
-              <div className="flex items-center justify-between space-x-2">
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="maximize-occupancy" id="maximize-occupancy" />
-                  <Label htmlFor="maximize-occupancy" className="font-medium">Maximize Occupancy</Label>
-                </div>
-                <Badge variant="secondary" className="text-xs">98% • Low Risk</Badge>
-              </div>
-              <div className="flex items-center justify-between space-x-2">
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="balanced" id="balanced" />
-                  <Label htmlFor="balanced" className="font-medium">Balanced</Label>
-                </div>
-                <Badge variant="secondary" className="text-xs">92% • Medium Risk</Badge>
-              </div>
-              <div className="flex items-center justify-between space-x-2">
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="custom" id="custom" />
-                  <Label htmlFor="custom" className="font-medium">Custom</Label>
-                </div>
-                <Badge variant="outline" className="text-xs">User Defined</Badge>
-              </div>
+              {[0, 1, 2, 3].map(i => <Skeleton key={i} className="h-5 w-full" />)}
             </div>
-          </RadioGroup>
+          ) : (
+            <RadioGroup value={goal} onValueChange={onGoalChange} data-testid="radio-goal">
+              <div className="space-y-3">
+                {strategies.map(strategy => (
+                  <div key={strategy.id} className="flex items-center justify-between space-x-2">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value={strategy.id} id={strategy.id} />
+                      <Label htmlFor={strategy.id} className="font-medium" title={strategy.description}>
+                        {strategy.name}
+                      </Label>
+                    </div>
+                    <Badge variant={strategy.preset ? "secondary" : "outline"} className="text-xs">
+                      {strategy.badge}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </RadioGroup>
+          )}
         </CardContent>
       </Card>
       
@@ -203,7 +194,7 @@ export default function OptimizationControls({
           </div>
           {isSliderDisabled && (
             <div className="text-xs text-muted-foreground text-center italic">
-              Switch to Custom mode to manually adjust
+              Select a user-tuned strategy to manually adjust
             </div>
           )}
         </CardContent>
@@ -252,7 +243,7 @@ export default function OptimizationControls({
           </div>
           {isSliderDisabled && (
             <div className="text-xs text-muted-foreground text-center italic">
-              Switch to Custom mode to manually adjust
+              Select a user-tuned strategy to manually adjust
             </div>
           )}
         </CardContent>
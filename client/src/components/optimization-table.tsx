@@ -6,8 +6,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Plus, Minus, TrendingUp, TrendingDown, RotateCcw, RotateCw, RefreshCw, ChevronUp, ChevronDown, FileSpreadsheet, Info } from "lucide-react";
+import { Plus, Minus, TrendingUp, TrendingDown, RotateCcw, RotateCw, RefreshCw, ChevronUp, ChevronDown, FileSpreadsheet, Info, Send } from "lucide-react";
 import { formatCurrency, formatCurrencyChange, formatLargeCurrency } from "@/utils/formatters";
+import PricingProposalDialog from "@/components/pricing-proposal-dialog";
 import type { PropertyUnit, OptimizationReport } from "@shared/schema";
 
 interface OptimizationTableProps {
@@ -16,6 +17,8 @@ interface OptimizationTableProps {
   onPricesChange?: (unitPrices: Record<string, number>) => void;
   onExportToExcel?: () => void;
   isExporting?: boolean;
+  // Session whose pricing proposals the adjusted prices are submitted to
+  sessionId?: string;
 }
 
 interface UnitWithDetails extends PropertyUnit {
@@ -25,6 +28,9 @@ interface UnitWithDetails extends PropertyUnit {
   availabilityDate?: string | null;
   pricingPowerScore?: number;
   adjustmentReason?: string;
+  rentPerSqFt?: number | null;
+  marketRentPerSqFt?: number | null;
+  comparableMatch?: 'size-band' | 'bedroom' | 'none';
 }
 
 type SortDirection = 'asc' | 'desc' | null;
@@ -94,6 +100,11 @@ const TableRow = memo(({ unit, modifiedPrices, handlePriceChange, handleQuickAdj
       </td>
       <td className="px-4 py-3" data-testid={`current-rent-${unit.unitNumber}`}>
         {formatCurrency(currentRent)}
+        {unitWithDetails.rentPerSqFt != null && (
+          <div className="text-xs text-muted-foreground" data-testid={`rent-per-sqft-${unit.unitNumber}`}>
+            ${unitWithDetails.rentPerSqFt.toFixed(2)}/sf
+          </div>
+        )}
       </td>
       <td className="px-4 py-3" data-testid={`ai-recommended-${unit.unitNumber}`}>
         <div className="flex items-center gap-1">
@@ -116,6 +127,15 @@ const TableRow = memo(({ unit, modifiedPrices, handlePriceChange, handleQuickAdj
       </td>
       <td className="px-4 py-3" data-testid={`market-avg-${unit.unitNumber}`}>
         {formatCurrency(marketAvg)}
+        {unitWithDetails.marketRentPerSqFt != null && (
+          <div
+            className="text-xs text-muted-foreground"
+            title={unitWithDetails.comparableMatch === 'size-band' ? 'Comparables within ±15% of this unit\'s size' : 'Comparables matched by bedroom count'}
+            data-testid={`market-rent-per-sqft-${unit.unitNumber}`}
+          >
+            ${unitWithDetails.marketRentPerSqFt.toFixed(2)}/sf
+          </div>
+        )}
       </td>
       <td className="px-4 py-3" data-testid={`editable-rent-${unit.unitNumber}`}>
         <Input
@@ -189,8 +209,9 @@ const TableRow = memo(({ unit, modifiedPrices, handlePriceChange, handleQuickAdj
 
 TableRow.displayName = 'TableRow';
 
-function OptimizationTable({ units, report, onPricesChange, onExportToExcel, isExporting }: OptimizationTableProps) {
+function OptimizationTable({ units, report, onPricesChange, onExportToExcel, isExporting, sessionId }: OptimizationTableProps) {
   const [modifiedPrices, setModifiedPrices] = useState<Record<string, number>>({});
+  const [isProposalDialogOpen, setIsProposalDialogOpen] = useState(false);
   const [selectedUnitType, setSelectedUnitType] = useState<string>("all");
   const [bulkFixedAmount, setBulkFixedAmount] = useState<string>("");
   const [history, setHistory] = useState<Record<string, number>[]>([]);
@@ -936,7 +957,28 @@ function OptimizationTable({ units, report, onPricesChange, onExportToExcel, isE
             {isExporting ? "Exporting..." : "Export to Excel"}
           </Button>
         )}
+        {sessionId && (
+          <Button
+            size="lg"
+            onClick={() => setIsProposalDialogOpen(true)}
+            className="gap-2 px-6"
+            data-testid="button-submit-for-approval"
+          >
+            <Send className="h-4 w-4" />
+            Submit for Approval
+          </Button>
+        )}
       </div>
+
+      {sessionId && (
+        <PricingProposalDialog
+          open={isProposalDialogOpen}
+          onOpenChange={setIsProposalDialogOpen}
+          sessionId={sessionId}
+          units={units}
+          prices={modifiedPrices}
+        />
+      )}
     </div>
   );
 }
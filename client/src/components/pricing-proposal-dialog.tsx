@@ -0,0 +1,263 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/formatters";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  pricingOverrideReasonCodes,
+  type PricingApprover,
+  type PricingOverrideReasonCode,
+  type PricingProposalDetail,
+  type PropertyUnit
+} from "@shared/schema";
+
+export const REASON_CODE_LABELS: Record<PricingOverrideReasonCode, string> = {
+  market_conditions: "Market conditions",
+  competitor_pricing: "Competitor pricing",
+  concession_offset: "Concession offset",
+  renovation: "Renovation / upgrade",
+  retention: "Resident retention",
+  seasonality: "Seasonality",
+  other: "Other",
+};
+
+export function approverName(approver: Pick<PricingApprover, "email" | "firstName" | "lastName">) {
+  const name = [approver.firstName, approver.lastName].filter(Boolean).join(" ");
+  return name || approver.email;
+}
+
+interface PricingProposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  units: PropertyUnit[];
+  prices: Record<string, number>;
+}
+
+interface OverrideInput {
+  reasonCode?: PricingOverrideReasonCode;
+  note: string;
+}
+
+export default function PricingProposalDialog({ open, onOpenChange, sessionId, units, prices }: PricingProposalDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [notes, setNotes] = useState("");
+  const [approverId, setApproverId] = useState<string>("");
+  const [overrideInputs, setOverrideInputs] = useState<Record<string, OverrideInput>>({});
+
+  const { data: approvers = [] } = useQuery<PricingApprover[]>({
+    queryKey: ["/api/analysis-sessions", sessionId, "pricing-approvers"],
+    enabled: open && !!sessionId
+  });
+
+  // Units only the optimizer knows about (no property profile) can't be proposed
+  const lines = useMemo(() => units
+    .filter(unit => unit.propertyProfileId)
+    .map(unit => {
+      const recommendedRent = unit.recommendedRent ? parseFloat(unit.recommendedRent) : parseFloat(unit.currentRent);
+      const proposedRent = prices[unit.id] ?? recommendedRent;
+      return {
+        unit,
+        recommendedRent,
+        proposedRent,
+        isOverride: Math.abs(proposedRent - recommendedRent) >= 0.005
+      };
+    }), [units, prices]);
+  const overrides = lines.filter(line => line.isOverride);
+  const missingReasons = overrides.filter(line => {
+    const input = overrideInputs[line.unit.id];
+    return !input?.reasonCode || (input.reasonCode === "other" && !input.note.trim());
+  });
+
+  const updateOverride = (unitId: string, changes: Partial<OverrideInput>) => {
+    setOverrideInputs(current => ({
+      ...current,
+      [unitId]: { ...(current[unitId] ?? { note: "" }), ...changes }
+    }));
+  };
+
+  const proposalMutation = useMutation({
+    mutationFn: async (submit: boolean): Promise<PricingProposalDetail & { skippedUnits: string[] }> => {
+      const response = await apiRequest("POST", `/api/analysis-sessions/${sessionId}/pricing-proposals`, {
+        title: title.trim() || null,
+        notes: notes.trim() || null,
+        approverId: approverId || null,
+        units: lines.map(line => ({
+          propertyProfileId: line.unit.propertyProfileId,
+          unitNumber: line.unit.unitNumber,
+          proposedRent: line.proposedRent,
+          reasonCode: line.isOverride ? overrideInputs[line.unit.id]?.reasonCode ?? null : null,
+          note: line.isOverride ? overrideInputs[line.unit.id]?.note.trim() || null : null
+        }))
+      });
+      const proposal = await response.json();
+      if (!submit) return proposal;
+
+      const submitResponse = await apiRequest("POST", `/api/pricing-proposals/${proposal.id}/submit`, { approverId });
+      return { ...(await submitResponse.json()), skippedUnits: proposal.skippedUnits };
+    },
+    onSuccess: (proposal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "pricing-proposals"] });
+      toast({
+        title: proposal.status === "submitted" ? "Proposal submitted for approval" : "Proposal saved as draft",
+        description: proposal.skippedUnits.length > 0
+          ? `${proposal.summary.units} units included; ${proposal.skippedUnits.length} without unit records were left out`
+          : `${proposal.summary.units} units included`
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save proposal", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit Pricing for Approval</DialogTitle>
+          <DialogDescription>
+            {lines.length} units will be proposed at their new prices. Prices that differ from the AI recommendation need a reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-title">Title</Label>
+              <Input
+                id="proposal-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Q3 asking rents"
+                data-testid="input-proposal-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Approver</Label>
+              <Select value={approverId} onValueChange={setApproverId}>
+                <SelectTrigger data-testid="select-proposal-approver">
+                  <SelectValue placeholder="Select an approver" />
+                </SelectTrigger>
+                <SelectContent>
+                  {approvers.map(approver => (
+                    <SelectItem key={approver.id} value={approver.id}>
+                      {approverName(approver)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proposal-notes">Notes</Label>
+            <Textarea
+              id="proposal-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              data-testid="input-proposal-notes"
+            />
+          </div>
+
+          {overrides.length > 0 && (
+            <div className="space-y-2">
+              <Label>Overrides ({overrides.length})</Label>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Unit</TableHead>
+                    <TableHead className="text-right">AI Rec</TableHead>
+                    <TableHead className="text-right">Proposed</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map(line => (
+                    <TableRow key={line.unit.id} data-testid={`override-${line.unit.unitNumber}`}>
+                      <TableCell className="font-medium">{line.unit.unitNumber}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.recommendedRent)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.proposedRent)}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={overrideInputs[line.unit.id]?.reasonCode ?? ""}
+                          onValueChange={(value) => updateOverride(line.unit.id, { reasonCode: value as PricingOverrideReasonCode })}
+                        >
+                          <SelectTrigger className="w-[180px]" data-testid={`select-reason-${line.unit.unitNumber}`}>
+                            <SelectValue placeholder="Reason" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {pricingOverrideReasonCodes.map(code => (
+                              <SelectItem key={code} value={code}>{REASON_CODE_LABELS[code]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={overrideInputs[line.unit.id]?.note ?? ""}
+                          onChange={(e) => updateOverride(line.unit.id, { note: e.target.value })}
+                          placeholder={overrideInputs[line.unit.id]?.reasonCode === "other" ? "Required" : "Optional"}
+                          className="w-[180px]"
+                          data-testid={`input-override-note-${line.unit.unitNumber}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => proposalMutation.mutate(false)}
+            disabled={proposalMutation.isPending || lines.length === 0 || missingReasons.length > 0}
+            data-testid="button-save-proposal-draft"
+          >
+            Save Draft
+          </Button>
+          <Button
+            onClick={() => proposalMutation.mutate(true)}
+            disabled={proposalMutation.isPending || lines.length === 0 || missingReasons.length > 0 || !approverId}
+            data-testid="button-submit-proposal"
+          >
+            {proposalMutation.isPending ? "Saving..." : "Submit for Approval"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ClipboardCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency, formatCurrencyChange } from "@/utils/formatters";
+import { REASON_CODE_LABELS, approverName } from "@/components/pricing-proposal-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { PricingApprover, PricingOverrideReasonCode, PricingProposalDetail } from "@shared/schema";
+
+const statusStyles: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800 border-gray-300",
+  submitted: "bg-blue-100 text-blue-800 border-blue-300",
+  approved: "bg-green-100 text-green-800 border-green-300",
+  rejected: "bg-red-100 text-red-800 border-red-300",
+};
+
+interface PricingProposalsCardProps {
+  sessionId: string;
+}
+
+function ProposalActions({
+  proposal,
+  sessionId,
+  approvers,
+  userId
+}: {
+  proposal: PricingProposalDetail;
+  sessionId: string;
+  approvers: PricingApprover[];
+  userId: string | undefined;
+}) {
+  const { toast } = useToast();
+  const [approverId, setApproverId] = useState(proposal.approverId ?? "");
+  const [decisionNote, setDecisionNote] = useState("");
+  const isAuthor = proposal.createdBy === userId;
+  const isApprover = proposal.approverId === userId;
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ method, path, body }: { method: string; path: string; body?: unknown }) => {
+      await apiRequest(method, `/api/pricing-proposals/${proposal.id}${path}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "pricing-proposals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "optimization"] });
+      setDecisionNote("");
+    },
+    onError: (error) => {
+      toast({ title: "Proposal update failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (proposal.status === "draft" && isAuthor) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={approverId} onValueChange={setApproverId}>
+          <SelectTrigger className="w-[220px]" data-testid={`select-approver-${proposal.id}`}>
+            <SelectValue placeholder="Select an approver" />
+          </SelectTrigger>
+          <SelectContent>
+            {approvers.map(approver => (
+              <SelectItem key={approver.id} value={approver.id}>{approverName(approver)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => actionMutation.mutate({ method: "POST", path: "/submit", body: { approverId } })}
+          disabled={actionMutation.isPending || !approverId}
+          data-testid={`button-submit-${proposal.id}`}
+        >
+          Submit
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => actionMutation.mutate({ method: "DELETE", path: "" })}
+          disabled={actionMutation.isPending}
+        >
+          Delete
+        </Button>
+      </div>
+    );
+  }
+
+  if (proposal.status === "submitted" && (isApprover || isAuthor)) {
+    return (
+      <div className="space-y-2">
+        {isApprover && (
+          <>
+            <Textarea
+              value={decisionNote}
+              onChange={(e) => setDecisionNote(e.target.value)}
+              placeholder="Decision note (required to reject)"
+              rows={2}
+              data-testid={`input-decision-note-${proposal.id}`}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => actionMutation.mutate({ method: "POST", path: "/decision", body: { decision: "approved", note: decisionNote.trim() || null } })}
+                disabled={actionMutation.isPending}
+                data-testid={`button-approve-${proposal.id}`}
+              >
+                Approve & Apply
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => actionMutation.mutate({ method: "POST", path: "/decision", body: { decision: "rejected", note: decisionNote.trim() } })}
+                disabled={actionMutation.isPending || !decisionNote.trim()}
+                data-testid={`button-reject-${proposal.id}`}
+              >
+                Reject
+              </Button>
+            </div>
+          </>
+        )}
+        {isAuthor && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => actionMutation.mutate({ method: "POST", path: "/withdraw" })}
+            disabled={actionMutation.isPending}
+            data-testid={`button-withdraw-${proposal.id}`}
+          >
+            Withdraw
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+}
+
+export default function PricingProposalsCard({ sessionId }: PricingProposalsCardProps) {
+  const { user } = useAuth();
+  const { data: proposals = [], isLoading } = useQuery<PricingProposalDetail[]>({
+    queryKey: ["/api/analysis-sessions", sessionId, "pricing-proposals"],
+    enabled: !!sessionId
+  });
+  const { data: approvers = [] } = useQuery<PricingApprover[]>({
+    queryKey: ["/api/analysis-sessions", sessionId, "pricing-approvers"],
+    enabled: !!sessionId
+  });
+  const approversById = new Map(approvers.map(approver => [approver.id, approver]));
+
+  return (
+    <Card data-testid="pricing-proposals-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Pricing Proposals
+        </CardTitle>
+        <CardDescription>
+          Rent changes awaiting review. Approving a proposal applies its prices to the units.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading proposals...</div>
+        ) : proposals.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No proposals yet. Adjust prices above and submit them for approval.
+          </div>
+        ) : (
+          proposals.map(proposal => {
+            const approver = proposal.approverId ? approversById.get(proposal.approverId) : undefined;
+            return (
+              <div key={proposal.id} className="border rounded-lg p-4 space-y-3" data-testid={`proposal-${proposal.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium">{proposal.title || "Untitled proposal"}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {proposal.summary.units} units • {proposal.summary.overrides} overrides •{" "}
+                      {formatCurrencyChange(proposal.summary.totalMonthlyChange)}/mo
+                      {approver && ` • Approver: ${approverName(approver)}`}
+                    </div>
+                    {proposal.notes && <div className="text-sm mt-1">{proposal.notes}</div>}
+                    {proposal.decisionNote && (
+                      <div className="text-sm mt-1 text-muted-foreground">Decision note: {proposal.decisionNote}</div>
+                    )}
+                  </div>
+                  <Badge variant="outline" className={statusStyles[proposal.status]}>
+                    {proposal.status}
+                  </Badge>
+                </div>
+
+                <ProposalActions proposal={proposal} sessionId={sessionId} approvers={approvers} userId={user?.id} />
+
+                <Collapsible>
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" size="sm">Show units</Button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-2">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Unit</TableHead>
+                          <TableHead className="text-right">Current</TableHead>
+                          <TableHead className="text-right">AI Rec</TableHead>
+                          <TableHead className="text-right">Proposed</TableHead>
+                          <TableHead>Override Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {proposal.units.map(unit => (
+                          <TableRow key={unit.id}>
+                            <TableCell className="font-medium">{unit.unitNumber}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(parseFloat(unit.currentRent))}</TableCell>
+                            <TableCell className="text-right">
+                              {unit.recommendedRent ? formatCurrency(parseFloat(unit.recommendedRent)) : "—"}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{formatCurrency(parseFloat(unit.proposedRent))}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {unit.isOverride && unit.reasonCode
+                                ? `${REASON_CODE_LABELS[unit.reasonCode as PricingOverrideReasonCode] ?? unit.reasonCode}${unit.note ? ` — ${unit.note}` : ""}`
+                                : ""}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CollapsibleContent>
+                </Collapsible>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
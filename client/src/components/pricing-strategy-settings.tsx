@@ -0,0 +1,291 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Pin, PinOff, Plus, Trash2, SlidersHorizontal } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { PricingRule, PricingStrategyDescriptor, SavedPortfolio } from "@shared/schema";
+
+// Unit statuses a custom rule can be limited to
+const RULE_STATUS_OPTIONS = [
+  { value: "any", label: "Any status" },
+  { value: "vacant", label: "Vacant" },
+  { value: "occupied", label: "Occupied" },
+  { value: "notice_given", label: "Notice given" },
+];
+
+const NEW_RULE: PricingRule = {
+  minScore: 0,
+  maxScore: 100,
+  adjustmentPercent: 0,
+  reason: "Custom pricing rule"
+};
+
+// Labels for the numeric strategy parameters
+const PARAM_LABELS: Record<string, string> = {
+  defaultAdjustment: "Default adjustment (%)",
+  targetPercentile: "Target percentile",
+  maxAdjustment: "Max adjustment (%)",
+  premiumPercent: "Premium over market (%)",
+  convergence: "Convergence (0-1)",
+};
+
+interface PricingStrategySettingsProps {
+  strategyId: string;
+  params: Record<string, any> | undefined;
+  onParamsChange: (params: Record<string, any>) => void;
+  portfolioId: string | null;
+}
+
+/**
+ * Parameters for the selected pricing strategy: the rule table for the custom
+ * strategy, numeric inputs for the market strategies, and pinning the
+ * strategy as the session portfolio's default.
+ */
+export default function PricingStrategySettings({
+  strategyId,
+  params,
+  onParamsChange,
+  portfolioId
+}: PricingStrategySettingsProps) {
+  const { toast } = useToast();
+
+  const { data: strategies = [] } = useQuery<PricingStrategyDescriptor[]>({
+    queryKey: ['/api/pricing-strategies'],
+    staleTime: Infinity
+  });
+  const { data: portfolio } = useQuery<SavedPortfolio>({
+    queryKey: ['/api/portfolios', portfolioId],
+    enabled: !!portfolioId
+  });
+
+  const strategy = strategies.find(candidate => candidate.id === strategyId);
+  const effectiveParams = { ...strategy?.defaultParams, ...params };
+  const isPinned = !!portfolio && portfolio.pricingStrategy === strategyId;
+
+  const pinMutation = useMutation({
+    mutationFn: async (pin: boolean) => {
+      const res = await apiRequest("PUT", `/api/portfolios/${portfolioId}`, pin
+        ? { pricingStrategy: strategyId, pricingStrategyParams: effectiveParams }
+        : { pricingStrategy: null });
+      return res.json();
+    },
+    onSuccess: (_, pin) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolios', portfolioId] });
+      toast({
+        title: pin ? "Strategy Pinned" : "Strategy Unpinned",
+        description: pin
+          ? `${strategy?.name ?? strategyId} is now the default pricing strategy for ${portfolio?.name ?? "this portfolio"}.`
+          : `${portfolio?.name ?? "This portfolio"} no longer has a default pricing strategy.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the portfolio's pricing strategy",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (!strategy) return null;
+
+  const rules: PricingRule[] = strategyId === 'custom' ? effectiveParams.rules ?? [] : [];
+  const numericParams = Object.keys(strategy.defaultParams).filter(key => typeof strategy.defaultParams[key] === 'number');
+  const hasEditor = strategyId === 'custom' || numericParams.length > 0;
+  if (!hasEditor && !portfolioId) return null;
+
+  const updateRule = (index: number, changes: Partial<PricingRule>) => {
+    onParamsChange({
+      ...effectiveParams,
+      rules: rules.map((rule, ruleIndex) => ruleIndex === index ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? fallback : parsed;
+  };
+
+  return (
+    <Card className="mb-6" data-testid="pricing-strategy-settings">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              <span>{strategy.name} Settings</span>
+            </CardTitle>
+            <CardDescription>{strategy.description}</CardDescription>
+          </div>
+          {portfolioId && (
+            <div className="flex items-center gap-2">
+              {isPinned && <Badge variant="secondary">Portfolio default</Badge>}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => pinMutation.mutate(!isPinned)}
+                disabled={pinMutation.isPending || !portfolio}
+                data-testid="button-pin-strategy"
+              >
+                {isPinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                {isPinned ? "Unpin" : "Pin to portfolio"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      {hasEditor && (
+        <CardContent className="space-y-4">
+          {numericParams.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {numericParams.map(key => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`strategy-param-${key}`}>{PARAM_LABELS[key] ?? key}</Label>
+                  <Input
+                    id={`strategy-param-${key}`}
+                    type="number"
+                    step="any"
+                    value={effectiveParams[key]}
+                    onChange={(event) => onParamsChange({ ...effectiveParams, [key]: parseNumber(event.target.value, strategy.defaultParams[key]) })}
+                    data-testid={`input-strategy-param-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {strategyId === 'custom' && (
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">
+                Rules are checked top to bottom and the first one matching the unit's pricing power score, status and bedrooms sets its adjustment. Units no rule matches get the default adjustment.
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Score range</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Bedrooms</TableHead>
+                    <TableHead>Adjustment (%)</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule, index) => (
+                    <TableRow key={index} data-testid={`row-pricing-rule-${index}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className="w-20"
+                            value={rule.minScore}
+                            onChange={(event) => updateRule(index, { minScore: parseNumber(event.target.value, 0) })}
+                          />
+                          <span>-</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className="w-20"
+                            value={rule.maxScore}
+                            onChange={(event) => updateRule(index, { maxScore: parseNumber(event.target.value, 100) })}
+                          />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={rule.status ?? "any"}
+                          onValueChange={(value) => updateRule(index, { status: value === "any" ? undefined : value })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RULE_STATUS_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-20"
+                          placeholder="Any"
+                          value={rule.bedrooms ?? ""}
+                          onChange={(event) => updateRule(index, {
+                            bedrooms: event.target.value === "" ? undefined : Math.max(0, Math.round(parseNumber(event.target.value, 0)))
+                          })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={-50}
+                          max={50}
+                          step="0.1"
+                          className="w-24"
+                          value={rule.adjustmentPercent}
+                          onChange={(event) => updateRule(index, { adjustmentPercent: parseNumber(event.target.value, 0) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={rule.reason}
+                          onChange={(event) => updateRule(index, { reason: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Remove rule"
+                          onClick={() => onParamsChange({ ...effectiveParams, rules: rules.filter((_, ruleIndex) => ruleIndex !== index) })}
+                          data-testid={`button-remove-pricing-rule-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onParamsChange({ ...effectiveParams, rules: [...rules, NEW_RULE] })}
+                data-testid="button-add-pricing-rule"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
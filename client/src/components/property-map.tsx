@@ -0,0 +1,606 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MapPin, Plus, Minus, Hand, Lasso, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PropertyMapData, PropertyMapPin } from "@shared/schema";
+
+// Raster tile source. Any XYZ tile server works, including a self-hosted one;
+// "none" draws a plain grid so the map needs no external requests at all.
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_URL: string = import.meta.env.VITE_MAP_TILE_URL || DEFAULT_TILE_URL;
+const TILE_SUBDOMAINS: string = import.meta.env.VITE_MAP_TILE_SUBDOMAINS || "abc";
+const TILE_ATTRIBUTION: string = import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  (TILE_URL === DEFAULT_TILE_URL ? "© OpenStreetMap contributors" : "");
+const TILES_DISABLED = TILE_URL === "none";
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 18;
+const MAP_HEIGHT = 420;
+const FIT_PADDING = 48;
+const RADIUS_RING_MILES = [1, 3, 5];
+
+const RELATIONSHIP_COLORS: Record<string, { color: string; label: string }> = {
+  direct_competitor: { color: "#dc2626", label: "Direct competitor" },
+  indirect_competitor: { color: "#f59e0b", label: "Indirect competitor" },
+  market_leader: { color: "#7c3aed", label: "Market leader" },
+  market_follower: { color: "#0ea5e9", label: "Market follower" }
+};
+
+const PRICING_COLORS: Record<string, { color: string; label: string }> = {
+  above: { color: "#dc2626", label: "Priced above subject" },
+  at: { color: "#f59e0b", label: "Priced at subject" },
+  below: { color: "#16a34a", label: "Priced below subject" }
+};
+
+const SUBJECT_COLOR = "#1d4ed8";
+const UNKNOWN_COLOR = "#6b7280";
+
+type ColorMode = "relationship" | "pricing";
+type InteractionMode = "pan" | "lasso";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+interface PropertyMapProps {
+  sessionId?: string;
+  portfolioId?: string;
+  title?: string;
+}
+
+// Web-mercator projection to world pixels at the given zoom
+function project(latitude: number, longitude: number, zoom: number): Point {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.min(Math.max(Math.sin(latitude * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: (longitude + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  };
+}
+
+function unproject(point: Point, zoom: number): { latitude: number; longitude: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const longitude = point.x / scale * 360 - 180;
+  const n = Math.PI - 2 * Math.PI * point.y / scale;
+  const latitude = 180 / Math.PI * Math.atan(Math.sinh(n));
+  return { latitude, longitude };
+}
+
+function milesToPixels(miles: number, latitude: number, zoom: number): number {
+  const metersPerPixel = 156543.03392 * Math.cos(latitude * Math.PI / 180) / Math.pow(2, zoom);
+  return miles * 1609.344 / metersPerPixel;
+}
+
+function tileUrl(x: number, y: number, zoom: number): string {
+  const subdomain = TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length] ?? "";
+  return TILE_URL
+    .replace("{s}", subdomain)
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+// Ray-casting test against the lasso outline
+function isInsidePolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Highest zoom that fits every pin in the viewport
+function fitView(pins: PropertyMapPin[], width: number, height: number): MapView | null {
+  if (pins.length === 0) return null;
+  const latitudes = pins.map(pin => pin.latitude);
+  const longitudes = pins.map(pin => pin.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+
+  let zoom = pins.length === 1 ? 14 : MAX_ZOOM;
+  for (; zoom > MIN_ZOOM; zoom--) {
+    const topLeft = project(north, west, zoom);
+    const bottomRight = project(south, east, zoom);
+    if (bottomRight.x - topLeft.x <= width - FIT_PADDING * 2 && bottomRight.y - topLeft.y <= height - FIT_PADDING * 2) break;
+  }
+  const topLeft = project(north, west, zoom);
+  const bottomRight = project(south, east, zoom);
+  const center = unproject({ x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 }, zoom);
+  return { ...center, zoom };
+}
+
+export function PropertyMap({ sessionId, portfolioId, title = "Property Map" }: PropertyMapProps) {
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ start: Point; center: Point; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<MapView | null>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>("relationship");
+  const [interactionMode, setInteractionMode] = useState<InteractionMode>("pan");
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showRings, setShowRings] = useState(true);
+
+  const canAddCompetitors = !!sessionId;
+  const mapQueryKey = sessionId
+    ? ["/api/analysis-sessions", sessionId, "map"]
+    : ["/api/portfolios", portfolioId, "map"];
+
+  const { data: mapData, isLoading } = useQuery<PropertyMapData>({
+    queryKey: mapQueryKey,
+    enabled: !!sessionId || !!portfolioId,
+  });
+
+  // Geocoding and distance updates need write access; viewers keep the stored locations
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/analysis-sessions/${sessionId}/map/refresh`);
+      return res.json() as Promise<PropertyMapData>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/analysis-sessions", sessionId, "map"], data);
+    }
+  });
+
+  useEffect(() => {
+    if (sessionId) refreshMutation.mutate();
+  }, [sessionId]);
+
+  const pins = mapData?.pins ?? [];
+  const candidates = canAddCompetitors ? mapData?.candidates ?? [] : [];
+  const subjects = pins.filter(pin => pin.role === "subject");
+
+  // Track the container width so tiles and fitting follow layout changes
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isLoading]);
+
+  // Fit the view when the map data first arrives or the target changes
+  useEffect(() => {
+    setView(null);
+    setSelectedIds(new Set());
+  }, [sessionId, portfolioId]);
+
+  useEffect(() => {
+    if (view || !mapData || width === 0) return;
+    setView(fitView(mapData.pins.length > 0 ? mapData.pins : candidates, width, MAP_HEIGHT));
+  }, [mapData, width, view]);
+
+  const addCompetitorsMutation = useMutation({
+    mutationFn: async (propertyProfileIds: string[]) => {
+      for (const propertyProfileId of propertyProfileIds) {
+        await apiRequest("POST", `/api/analysis-sessions/${sessionId}/properties`, {
+          propertyProfileId,
+          role: "competitor"
+        });
+      }
+      return propertyProfileIds.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "properties"] });
+      refreshMutation.mutate();
+      setSelectedIds(new Set());
+      toast({
+        title: "Competitors Added",
+        description: `Added ${count} ${count === 1 ? "competitor" : "competitors"} to the session.`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis-sessions", sessionId, "map"] });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add competitors to the session",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const origin = useMemo(() => {
+    if (!view) return null;
+    const center = project(view.latitude, view.longitude, view.zoom);
+    return { x: center.x - width / 2, y: center.y - MAP_HEIGHT / 2 };
+  }, [view, width]);
+
+  const toScreen = (pin: { latitude: number; longitude: number }): Point => {
+    if (!view || !origin) return { x: 0, y: 0 };
+    const world = project(pin.latitude, pin.longitude, view.zoom);
+    return { x: world.x - origin.x, y: world.y - origin.y };
+  };
+
+  const tiles = useMemo(() => {
+    if (TILES_DISABLED || !view || !origin) return [];
+    const count = Math.pow(2, view.zoom);
+    const result: Array<{ key: string; url: string; left: number; top: number }> = [];
+    for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + MAP_HEIGHT) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue;
+        const wrappedX = ((tx % count) + count) % count;
+        result.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: tileUrl(wrappedX, ty, view.zoom),
+          left: tx * TILE_SIZE - origin.x,
+          top: ty * TILE_SIZE - origin.y
+        });
+      }
+    }
+    return result;
+  }, [view, origin, width]);
+
+  const getPinColor = (pin: PropertyMapPin) => {
+    if (pin.role === "subject") return SUBJECT_COLOR;
+    const key = colorMode === "relationship" ? pin.relationshipType : pin.pricingPosition;
+    const palette = colorMode === "relationship" ? RELATIONSHIP_COLORS : PRICING_COLORS;
+    return (key && palette[key]?.color) || UNKNOWN_COLOR;
+  };
+
+  const getPinTitle = (pin: PropertyMapPin) => {
+    const details = [pin.name, pin.address];
+    if (pin.distance !== null) details.push(`${pin.distance.toFixed(2)} mi from subject`);
+    if (pin.avgRent !== null) details.push(`Avg rent $${Math.round(pin.avgRent).toLocaleString()}`);
+    if (pin.relationshipType) details.push(RELATIONSHIP_COLORS[pin.relationshipType]?.label ?? pin.relationshipType);
+    if (pin.pricingPosition) details.push(PRICING_COLORS[pin.pricingPosition].label);
+    return details.join("\n");
+  };
+
+  const getPointerPosition = (event: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const zoomBy = (delta: number, anchor?: Point) => {
+    if (!view || !origin) return;
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom + delta));
+    if (zoom === view.zoom) return;
+    // Keep the anchor point (the map center by default) fixed on screen
+    const point = anchor ?? { x: width / 2, y: MAP_HEIGHT / 2 };
+    const anchorLocation = unproject({ x: origin.x + point.x, y: origin.y + point.y }, view.zoom);
+    const anchorWorld = project(anchorLocation.latitude, anchorLocation.longitude, zoom);
+    const center = unproject({ x: anchorWorld.x - point.x + width / 2, y: anchorWorld.y - point.y + MAP_HEIGHT / 2 }, zoom);
+    setView({ ...center, zoom });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!view) return;
+    const point = getPointerPosition(event);
+    if (interactionMode === "lasso") {
+      setLassoPoints([point]);
+      return;
+    }
+    dragRef.current = { start: point, center: project(view.latitude, view.longitude, view.zoom), moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const point = getPointerPosition(event);
+    if (interactionMode === "lasso") {
+      if (lassoPoints.length === 0) return;
+      const last = lassoPoints[lassoPoints.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) > 4) setLassoPoints([...lassoPoints, point]);
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag || !view) return;
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    setView({ ...unproject({ x: drag.center.x - dx, y: drag.center.y - dy }, view.zoom), zoom: view.zoom });
+  };
+
+  const handlePointerUp = () => {
+    if (interactionMode === "lasso" && lassoPoints.length > 0) {
+      if (lassoPoints.length >= 3) {
+        const lassoed = candidates.filter(candidate => isInsidePolygon(toScreen(candidate), lassoPoints));
+        if (lassoed.length > 0) {
+          setSelectedIds(new Set([...Array.from(selectedIds), ...lassoed.map(candidate => candidate.id)]));
+        }
+      }
+      setLassoPoints([]);
+    }
+    // Let the click that follows a drag see that the map moved
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const toggleCandidate = (id: string) => {
+    if (dragRef.current?.moved) return;
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const selectedCandidates = candidates.filter(candidate => selectedIds.has(candidate.id));
+  const legend = colorMode === "relationship" ? RELATIONSHIP_COLORS : PRICING_COLORS;
+
+  if (isLoading) {
+    return (
+      <Card data-testid="property-map-loading">
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="w-full" style={{ height: MAP_HEIGHT }} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full" data-testid="property-map">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              {title}
+            </CardTitle>
+            <CardDescription>
+              {canAddCompetitors
+                ? "Session properties and your other competitor profiles. Lasso or click hollow pins to add them to the session."
+                : "Subject and competitor properties in this portfolio"}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="single"
+              value={colorMode}
+              onValueChange={(value) => value && setColorMode(value as ColorMode)}
+              size="sm"
+              data-testid="toggle-map-color-mode"
+            >
+              <ToggleGroupItem value="relationship" data-testid="toggle-color-relationship">Relationship</ToggleGroupItem>
+              <ToggleGroupItem value="pricing" data-testid="toggle-color-pricing">Pricing</ToggleGroupItem>
+            </ToggleGroup>
+            <Button
+              variant={showRings ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowRings(!showRings)}
+              data-testid="button-toggle-rings"
+            >
+              Radius rings
+            </Button>
+            {canAddCompetitors && (
+              <ToggleGroup
+                type="single"
+                value={interactionMode}
+                onValueChange={(value) => value && setInteractionMode(value as InteractionMode)}
+                size="sm"
+                data-testid="toggle-map-interaction"
+              >
+                <ToggleGroupItem value="pan" aria-label="Pan" data-testid="toggle-mode-pan">
+                  <Hand className="h-4 w-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem value="lasso" aria-label="Lasso select" data-testid="toggle-mode-lasso">
+                  <Lasso className="h-4 w-4" />
+                </ToggleGroupItem>
+              </ToggleGroup>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div
+          ref={containerRef}
+          className={cn(
+            "relative w-full overflow-hidden rounded-md border bg-muted select-none touch-none",
+            interactionMode === "lasso" ? "cursor-crosshair" : "cursor-grab"
+          )}
+          style={{
+            height: MAP_HEIGHT,
+            backgroundImage: TILES_DISABLED
+              ? "linear-gradient(to right, hsl(var(--border)) 1px, transparent 1px), linear-gradient(to bottom, hsl(var(--border)) 1px, transparent 1px)"
+              : undefined,
+            backgroundSize: TILES_DISABLED ? "48px 48px" : undefined
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          onDoubleClick={(event) => {
+            const rect = containerRef.current!.getBoundingClientRect();
+            zoomBy(1, { x: event.clientX - rect.left, y: event.clientY - rect.top });
+          }}
+          data-testid="property-map-canvas"
+        >
+          {tiles.map(tile => (
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute pointer-events-none"
+              style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+            />
+          ))}
+
+          {view && (
+            <svg className="absolute inset-0" width={width} height={MAP_HEIGHT}>
+              {showRings && subjects.map(subject => {
+                const center = toScreen(subject);
+                return RADIUS_RING_MILES.map(miles => {
+                  const radius = milesToPixels(miles, subject.latitude, view.zoom);
+                  return (
+                    <g key={`${subject.id}-${miles}`} className="pointer-events-none">
+                      <circle cx={center.x} cy={center.y} r={radius} fill="none" stroke={SUBJECT_COLOR} strokeOpacity={0.5} strokeDasharray="6 4" />
+                      <text x={center.x} y={center.y - radius - 3} textAnchor="middle" fontSize={11} fill={SUBJECT_COLOR}>
+                        {miles} mi
+                      </text>
+                    </g>
+                  );
+                });
+              })}
+
+              {candidates.map(candidate => {
+                const point = toScreen(candidate);
+                const selected = selectedIds.has(candidate.id);
+                return (
+                  <circle
+                    key={candidate.id}
+                    cx={point.x}
+                    cy={point.y}
+                    r={6}
+                    fill={selected ? "#2563eb" : "#ffffff"}
+                    stroke={getPinColor(candidate)}
+                    strokeWidth={2}
+                    strokeDasharray={selected ? undefined : "3 2"}
+                    className="cursor-pointer"
+                    onClick={() => toggleCandidate(candidate.id)}
+                    data-testid={`map-candidate-${candidate.id}`}
+                  >
+                    <title>{getPinTitle(candidate)}</title>
+                  </circle>
+                );
+              })}
+
+              {pins.filter(pin => pin.role === "competitor").map(pin => {
+                const point = toScreen(pin);
+                return (
+                  <circle key={pin.id} cx={point.x} cy={point.y} r={7} fill={getPinColor(pin)} stroke="#ffffff" strokeWidth={2} data-testid={`map-pin-${pin.id}`}>
+                    <title>{getPinTitle(pin)}</title>
+                  </circle>
+                );
+              })}
+
+              {subjects.map(pin => {
+                const point = toScreen(pin);
+                return (
+                  <rect
+                    key={pin.id}
+                    x={point.x - 8}
+                    y={point.y - 8}
+                    width={16}
+                    height={16}
+                    transform={`rotate(45 ${point.x} ${point.y})`}
+                    fill={SUBJECT_COLOR}
+                    stroke="#ffffff"
+                    strokeWidth={2}
+                    data-testid={`map-pin-${pin.id}`}
+                  >
+                    <title>{getPinTitle(pin)}</title>
+                  </rect>
+                );
+              })}
+
+              {lassoPoints.length > 1 && (
+                <polygon
+                  points={lassoPoints.map(point => `${point.x},${point.y}`).join(" ")}
+                  fill="#2563eb"
+                  fillOpacity={0.1}
+                  stroke="#2563eb"
+                  strokeDasharray="4 3"
+                  className="pointer-events-none"
+                />
+              )}
+            </svg>
+          )}
+
+          {!view && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground" data-testid="property-map-empty">
+              No properties with a known location
+            </div>
+          )}
+
+          <div
+            className="absolute right-2 top-2 flex flex-col gap-1"
+            onPointerDown={(event) => event.stopPropagation()}
+            onDoubleClick={(event) => event.stopPropagation()}
+          >
+            <Button variant="secondary" size="icon" className="h-7 w-7" onClick={() => zoomBy(1)} aria-label="Zoom in" data-testid="button-map-zoom-in">
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="secondary" size="icon" className="h-7 w-7" onClick={() => zoomBy(-1)} aria-label="Zoom out" data-testid="button-map-zoom-out">
+              <Minus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {TILE_ATTRIBUTION && !TILES_DISABLED && (
+            <div className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground">
+              {TILE_ATTRIBUTION}
+            </div>
+          )}
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 text-xs" data-testid="property-map-legend">
+          <div className="flex items-center gap-1.5">
+            <span className="inline-block h-3 w-3 rotate-45" style={{ backgroundColor: SUBJECT_COLOR }} />
+            Subject
+          </div>
+          {Object.entries(legend).map(([key, entry]) => (
+            <div key={key} className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: entry.color }} />
+              {entry.label}
+            </div>
+          ))}
+          <div className="flex items-center gap-1.5">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: UNKNOWN_COLOR }} />
+            {colorMode === "relationship" ? "No relationship" : "No rent data"}
+          </div>
+          {canAddCompetitors && (
+            <div className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded-full border-2 border-dashed border-muted-foreground bg-background" />
+              Not in session
+            </div>
+          )}
+        </div>
+
+        {mapData && mapData.unlocated.length > 0 && (
+          <p className="text-xs text-muted-foreground" data-testid="text-unlocated-properties">
+            {mapData.unlocated.length} {mapData.unlocated.length === 1 ? "property" : "properties"} could not be located: {mapData.unlocated.map(property => property.name).join(", ")}
+          </p>
+        )}
+
+        {canAddCompetitors && selectedCandidates.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border p-3" data-testid="map-selected-candidates">
+            {selectedCandidates.map(candidate => (
+              <Badge key={candidate.id} variant="secondary" className="gap-1">
+                {candidate.name}
+                {candidate.distance !== null && <span className="text-muted-foreground">· {candidate.distance.toFixed(1)} mi</span>}
+                <button type="button" onClick={() => toggleCandidate(candidate.id)} aria-label={`Remove ${candidate.name}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <div className="ml-auto flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} data-testid="button-clear-map-selection">
+                Clear
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => addCompetitorsMutation.mutate(selectedCandidates.map(candidate => candidate.id))}
+                disabled={addCompetitorsMutation.isPending}
+                data-testid="button-add-map-selection"
+              >
+                {addCompetitorsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add {selectedCandidates.length} to Session
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
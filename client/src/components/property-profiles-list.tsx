@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Edit, Trash2, ExternalLink, Building2, Target, Users } from "lucide-react";
+import { Edit, Trash2, ExternalLink, Building2, Target, Users, Radar } from "lucide-react";
 import type { PropertyProfile } from "@shared/schema";
 
 interface PropertyProfilesListProps {
@@ -11,6 +11,7 @@ interface PropertyProfilesListProps {
   isLoading: boolean;
   onEdit: (profile: PropertyProfile) => void;
   onDelete: (id: string) => void;
+  onDiscoverCompetitors?: (profile: PropertyProfile) => void;
   isDeleting: boolean;
 }
 
@@ -19,6 +20,7 @@ export default function PropertyProfilesList({
   isLoading,
   onEdit,
   onDelete,
+  onDiscoverCompetitors,
   isDeleting
 }: PropertyProfilesListProps) {
   const formatDate = (date: Date | string) => {
@@ -30,6 +32,16 @@ export default function PropertyProfilesList({
     });
   };
 
+  const formatDateTime = (date: Date | string) => {
+    const d = new Date(date);
+    return d.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
   const getPropertyTypeIcon = (type: string) => {
     switch (type) {
       case 'subject':
@@ -116,6 +128,7 @@ export default function PropertyProfilesList({
                 <TableHead>City, State</TableHead>
                 <TableHead className="text-center">Units</TableHead>
                 <TableHead className="text-center">Built</TableHead>
+                <TableHead>Scraping</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead className="text-right w-[150px]">Actions</TableHead>
               </TableRow>
@@ -172,6 +185,13 @@ export default function PropertyProfilesList({
                     </div>
                   </TableCell>
                   
+                  <TableCell>
+                    <div className="text-xs text-muted-foreground space-y-0.5" data-testid={`text-scraping-${profile.id}`}>
+                      <div>Last: {profile.lastScrapedAt ? formatDateTime(profile.lastScrapedAt) : 'Never'}</div>
+                      <div>Next: {profile.nextScrapeAt ? formatDateTime(profile.nextScrapeAt) : 'Not scheduled'}</div>
+                    </div>
+                  </TableCell>
+                  
                   <TableCell>
                     <div className="text-sm text-muted-foreground">
                       {profile.createdAt ? formatDate(profile.createdAt) : '-'}
@@ -190,6 +210,18 @@ export default function PropertyProfilesList({
                       >
                         <ExternalLink className="h-4 w-4" />
                       </Button>
+                      {onDiscoverCompetitors && profile.profileType === 'subject' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onDiscoverCompetitors(profile)}
+                          className="h-8 w-8 p-0"
+                          title="Discover competitors"
+                          data-testid={`button-discover-${profile.id}`}
+                        >
+                          <Radar className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
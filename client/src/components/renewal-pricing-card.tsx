@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileText, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { exportRenewalLettersToExcel } from "@/lib/excel-export";
+import { formatCurrency } from "@/utils/formatters";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RenewalPricingBatch, RenewalPricingParams } from "@shared/schema";
+
+const WINDOW_OPTIONS = [30, 60, 90, 180];
+
+interface RenewalPricingCardProps {
+  sessionId: string;
+}
+
+export default function RenewalPricingCard({ sessionId }: RenewalPricingCardProps) {
+  const { toast } = useToast();
+  const [params, setParams] = useState<RenewalPricingParams>({
+    withinDays: 90,
+    lossToLeaseCapturePercent: 50,
+    maxIncreasePercent: 5,
+    minIncreasePercent: 0
+  });
+  const [batch, setBatch] = useState<RenewalPricingBatch | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const renewalMutation = useMutation({
+    mutationFn: async (request: RenewalPricingParams): Promise<RenewalPricingBatch> => {
+      const response = await apiRequest("POST", `/api/analysis-sessions/${sessionId}/renewal-pricing`, request);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setBatch(result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to price renewals",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateParam = (key: keyof RenewalPricingParams, value: number) => {
+    setParams(current => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    if (!batch) return;
+    setIsExporting(true);
+    try {
+      await exportRenewalLettersToExcel(batch);
+      toast({ title: "Renewal letters exported", description: `${batch.summary.units} renewal offers` });
+    } catch (error) {
+      console.error('[RENEWAL_PRICING] Export failed:', error);
+      toast({ title: "Export failed", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card data-testid="renewal-pricing-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Renewal Pricing
+        </CardTitle>
+        <CardDescription>
+          Renewal offers for expiring leases, priced from loss-to-lease against the comp market and kept separate from new-lease asking rents
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Leases expiring within</Label>
+            <Select value={params.withinDays.toString()} onValueChange={(value) => updateParam("withinDays", parseInt(value, 10))}>
+              <SelectTrigger data-testid="select-renewal-window">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOW_OPTIONS.map(days => (
+                  <SelectItem key={days} value={days.toString()}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Loss-to-lease captured: {params.lossToLeaseCapturePercent}%</Label>
+            <Slider
+              value={[params.lossToLeaseCapturePercent]}
+              onValueChange={([value]) => updateParam("lossToLeaseCapturePercent", value)}
+              min={0}
+              max={100}
+              step={5}
+              data-testid="slider-loss-to-lease-capture"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal-min-increase">Minimum increase (%)</Label>
+            <Input
+              id="renewal-min-increase"
+              type="number"
+              min="0"
+              max="25"
+              step="0.5"
+              value={params.minIncreasePercent}
+              onChange={(e) => updateParam("minIncreasePercent", parseFloat(e.target.value) || 0)}
+              data-testid="input-renewal-min-increase"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal-max-increase">Maximum increase (%)</Label>
+            <Input
+              id="renewal-max-increase"
+              type="number"
+              min="0"
+              max="25"
+              step="0.5"
+              value={params.maxIncreasePercent}
+              onChange={(e) => updateParam("maxIncreasePercent", parseFloat(e.target.value) || 0)}
+              data-testid="input-renewal-max-increase"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => renewalMutation.mutate(params)}
+            disabled={renewalMutation.isPending || params.minIncreasePercent > params.maxIncreasePercent}
+            data-testid="button-price-renewals"
+          >
+            {renewalMutation.isPending ? "Pricing Renewals..." : "Price Renewals"}
+          </Button>
+          {batch && batch.recommendations.length > 0 && (
+            <Button variant="outline" onClick={handleExport} disabled={isExporting} data-testid="button-export-renewal-letters">
+              <FileText className="h-4 w-4 mr-2" />
+              {isExporting ? "Exporting..." : "Export Renewal Letters"}
+            </Button>
+          )}
+        </div>
+
+        {batch && (
+          batch.recommendations.length === 0 ? (
+            <div className="text-sm text-muted-foreground" data-testid="no-renewals">
+              No leases to renew in the next {batch.params.withinDays} days.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="renewal-summary">
+                <div className="bg-muted p-3 rounded-lg">
+                  <div className="text-lg font-semibold">{batch.summary.units}</div>
+                  <div className="text-xs text-muted-foreground">Renewal offers</div>
+                </div>
+                <div className="bg-muted p-3 rounded-lg">
+                  <div className="text-lg font-semibold">{formatCurrency(batch.summary.totalLossToLease)}</div>
+                  <div className="text-xs text-muted-foreground">Monthly loss to lease</div>
+                </div>
+                <div className="bg-muted p-3 rounded-lg">
+                  <div className="text-lg font-semibold">{formatCurrency(batch.summary.totalMonthlyIncrease)}</div>
+                  <div className="text-xs text-muted-foreground">Monthly renewal increase</div>
+                </div>
+                <div className="bg-muted p-3 rounded-lg">
+                  <div className="text-lg font-semibold">{batch.summary.avgIncreasePercent}%</div>
+                  <div className="text-xs text-muted-foreground">
+                    Average increase • {batch.summary.cappedUnits} at cap
+                  </div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Property</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Lease End</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Market</TableHead>
+                    <TableHead className="text-right">Loss to Lease</TableHead>
+                    <TableHead className="text-right">Renewal Offer</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batch.recommendations.map(recommendation => (
+                    <TableRow key={recommendation.leaseId} data-testid={`renewal-${recommendation.unitId}`}>
+                      <TableCell>{recommendation.propertyName}</TableCell>
+                      <TableCell className="font-medium">{recommendation.unitNumber}</TableCell>
+                      <TableCell>{recommendation.leaseEnd}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(recommendation.currentRent)}</TableCell>
+                      <TableCell className="text-right">
+                        {recommendation.marketRent !== null ? formatCurrency(recommendation.marketRent) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {recommendation.lossToLeasePercent !== null ? `${recommendation.lossToLeasePercent}%` : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="font-medium">{formatCurrency(recommendation.recommendedRent)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          +{recommendation.increasePercent}%
+                          {recommendation.capped && <Badge variant="secondary" className="ml-1">Capped</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{recommendation.reasoning}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
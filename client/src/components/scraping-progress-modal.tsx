@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import type { PropertyScrapingStatus, SessionScrapingStatus } from "@shared/schema";
 import { 
   Dialog, 
   DialogContent, 
@@ -21,26 +22,6 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-// TypeScript types matching the backend API response structure
-interface PropertyScrapingStatus {
-  propertyId: string;
-  propertyName: string;
-  profileType: string; // 'subject' | 'competitor'
-  scrapingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'none';
-  unitsFound: number;
-  errorMessage?: string;
-}
-
-interface ScrapingStatusResponse {
-  sessionId: string;
-  overallStatus: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
-  properties: PropertyScrapingStatus[];
-  totalProperties: number;
-  completedProperties: number;
-  failedProperties: number;
-  processingProperties: number;
-}
-
 interface ScrapingProgressModalProps {
   isOpen: boolean;
   sessionId: string;
@@ -56,22 +37,13 @@ export function ScrapingProgressModal({
 }: ScrapingProgressModalProps) {
   const [hasCalledOnComplete, setHasCalledOnComplete] = useState(false);
   
-  // Fetch scraping status from the API with polling
-  const { data: statusData, error, isLoading } = useQuery<ScrapingStatusResponse>({
-    queryKey: [`/api/analysis-sessions/${sessionId}/scraping-status`],
-    enabled: isOpen && !!sessionId,
-    refetchInterval: (query) => {
-      const data = query.state.data;
-      // Stop polling if overall status is completed, failed, or partial
-      if (data?.overallStatus === 'completed' || 
-          data?.overallStatus === 'failed' || 
-          data?.overallStatus === 'partial') {
-        return false;
-      }
-      // Poll every 2 seconds while processing
-      return 2000;
-    }
+  const [statusData, setStatusData] = useState<SessionScrapingStatus | null>(null);
+  
+  // The session's event stream sends the current status on connect, then again on every job state change
+  const { error } = useSessionEvents(sessionId, isOpen, {
+    'scraping-status': setStatusData
   });
+  const isLoading = !statusData && !error;
 
   // Call onComplete when all scraping is done
   useEffect(() => {
@@ -84,10 +56,11 @@ export function ScrapingProgressModal({
     }
   }, [statusData?.overallStatus, hasCalledOnComplete, onComplete]);
 
-  // Reset the hasCalledOnComplete flag when modal opens
+  // Reset the hasCalledOnComplete flag and stale status when modal opens
   useEffect(() => {
     if (isOpen) {
       setHasCalledOnComplete(false);
+      setStatusData(null);
     }
   }, [isOpen]);
 
@@ -121,12 +94,18 @@ export function ScrapingProgressModal({
   const getStatusText = (property: PropertyScrapingStatus) => {
     switch (property.scrapingStatus) {
       case 'pending':
+        if (property.nextRetryAt) {
+          return `Retrying at ${new Date(property.nextRetryAt).toLocaleTimeString()} (attempt ${property.attempts + 1} of ${property.maxAttempts})`;
+        }
         return 'Waiting to start...';
       case 'processing':
-        return 'Scraping data...';
+        return property.attempts > 1 ? `Scraping data (attempt ${property.attempts} of ${property.maxAttempts})...` : 'Scraping data...';
       case 'completed':
         return `Completed - found ${property.unitsFound} unit${property.unitsFound !== 1 ? 's' : ''}`;
       case 'failed':
+        if (property.deadLetter) {
+          return `Failed after ${property.attempts} attempts${property.errorMessage ? ` - ${property.errorMessage}` : ''}`;
+        }
         return property.errorMessage || 'Failed - error occurred';
       default:
         return 'Not started';
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -29,7 +30,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { PropertyUnit, TagDefinition } from "@shared/schema";
+import {
+  Lease,
+  PropertyUnit,
+  TagDefinition,
+  leaseRenewalStatuses,
+  renovationTiers,
+  unitFeatures,
+  unitViews
+} from "@shared/schema";
 
 const unitFormSchema = z.object({
   unitNumber: z.string().min(1, "Unit number is required"),
@@ -39,8 +48,75 @@ const unitFormSchema = z.object({
   squareFootage: z.coerce.number().min(0).optional(),
   currentRent: z.string().optional(),
   status: z.enum(["occupied", "vacant", "notice_given"]),
+  // Unit attributes - blank selects are saved as unknown
+  floor: z.string().regex(/^\d*$/, "Whole numbers only").optional(),
+  renovationTier: z.string().optional(),
+  view: z.string().optional(),
+  features: z.array(z.enum(unitFeatures)),
+  leaseTerms: z.string().regex(/^\s*((\d{1,2}|mtm|month[\s-]*to[\s-]*month)\s*(,\s*|$))*$/i, "Months separated by commas, or MTM").optional(),
+  // Current lease - all optional, blank fields are saved as empty
+  leaseTermMonths: z.string().regex(/^\d*$/, "Whole months only").optional(),
+  leaseStart: z.string().optional(),
+  leaseEnd: z.string().optional(),
+  moveInDate: z.string().optional(),
+  effectiveRent: z.string().optional(),
+  concessionAmount: z.string().optional(),
+  concessionDescription: z.string().optional(),
+  renewalStatus: z.enum(leaseRenewalStatuses),
+  renewalOfferDate: z.string().optional(),
+  renewalDecisionDate: z.string().optional(),
 });
 
+const leaseFieldNames = [
+  "leaseTermMonths",
+  "leaseStart",
+  "leaseEnd",
+  "moveInDate",
+  "effectiveRent",
+  "concessionAmount",
+  "concessionDescription",
+  "renewalOfferDate",
+  "renewalDecisionDate",
+] as const;
+
+const renewalStatusLabels: Record<typeof leaseRenewalStatuses[number], string> = {
+  pending: "Pending",
+  offered: "Offered",
+  renewed: "Renewed",
+  declined: "Declined",
+  month_to_month: "Month-to-Month",
+};
+
+const renovationTierLabels: Record<typeof renovationTiers[number], string> = {
+  newly_renovated: "Newly Renovated",
+  updated: "Updated",
+  original: "Original",
+};
+
+const unitFeatureLabels: Record<typeof unitFeatures[number], string> = {
+  in_unit_laundry: "In-Unit Laundry",
+  balcony: "Balcony / Patio",
+  fireplace: "Fireplace",
+  walk_in_closet: "Walk-In Closet",
+  hardwood_floors: "Hardwood Floors",
+  stainless_appliances: "Stainless Appliances",
+  dishwasher: "Dishwasher",
+  private_entrance: "Private Entrance",
+  corner_unit: "Corner Unit",
+  high_ceilings: "High Ceilings",
+};
+
+// Offered lease terms are entered as "6, 12, MTM"
+function formatLeaseTerms(terms: string[] | null | undefined): string {
+  return (terms ?? []).map(term => term === "month_to_month" ? "MTM" : parseInt(term, 10)).join(", ");
+}
+
+function parseLeaseTerms(value: string | undefined): string[] | null {
+  const terms = (value || "").split(",").map(term => term.trim()).filter(Boolean)
+    .map(term => /^\d+$/.test(term) ? `${parseInt(term, 10)}_month` : "month_to_month");
+  return terms.length > 0 ? Array.from(new Set(terms)) : null;
+}
+
 type UnitFormData = z.infer<typeof unitFormSchema>;
 
 interface UnitEditDialogProps {
@@ -72,26 +148,108 @@ export default function UnitEditDialog({
       bathrooms: parseFloat(unit?.bathrooms || "0") || 0,
       squareFootage: unit?.squareFootage || undefined,
       currentRent: unit?.currentRent || "",
-      status: (unit?.status || "occupied") as "occupied" | "vacant" | "notice_given"
+      status: (unit?.status || "occupied") as "occupied" | "vacant" | "notice_given",
+      floor: unit?.floor?.toString() || "",
+      renovationTier: unit?.renovationTier || "",
+      view: unit?.view || "",
+      features: (unit?.features || []).filter((feature): feature is typeof unitFeatures[number] =>
+        (unitFeatures as readonly string[]).includes(feature)),
+      leaseTerms: formatLeaseTerms(unit?.leaseTerms),
+      leaseTermMonths: "",
+      leaseStart: "",
+      leaseEnd: "",
+      moveInDate: "",
+      effectiveRent: "",
+      concessionAmount: "",
+      concessionDescription: "",
+      renewalStatus: "pending",
+      renewalOfferDate: "",
+      renewalDecisionDate: ""
     }
   });
 
+  // Leases come back newest first, so the first one is the current lease
+  const { data: leases } = useQuery<Lease[]>({
+    queryKey: ["/api/units", unit?.id, "leases"],
+    enabled: isEdit
+  });
+  const currentLease = leases?.[0];
+
+  useEffect(() => {
+    if (!currentLease) return;
+    form.setValue("leaseTermMonths", currentLease.leaseTermMonths?.toString() || "");
+    form.setValue("leaseStart", currentLease.leaseStart || "");
+    form.setValue("leaseEnd", currentLease.leaseEnd || "");
+    form.setValue("moveInDate", currentLease.moveInDate || "");
+    form.setValue("effectiveRent", currentLease.effectiveRent || "");
+    form.setValue("concessionAmount", currentLease.concessionAmount || "");
+    form.setValue("concessionDescription", currentLease.concessionDescription || "");
+    form.setValue("renewalStatus", currentLease.renewalStatus as typeof leaseRenewalStatuses[number]);
+    form.setValue("renewalOfferDate", currentLease.renewalOfferDate || "");
+    form.setValue("renewalDecisionDate", currentLease.renewalDecisionDate || "");
+  }, [currentLease, form]);
+
   const saveMutation = useMutation({
     mutationFn: async (data: UnitFormData) => {
+      const {
+        leaseTermMonths,
+        leaseStart,
+        leaseEnd,
+        moveInDate,
+        effectiveRent,
+        concessionAmount,
+        concessionDescription,
+        renewalStatus,
+        renewalOfferDate,
+        renewalDecisionDate,
+        floor,
+        renovationTier,
+        view,
+        leaseTerms,
+        ...unitData
+      } = data;
       const endpoint = isEdit 
         ? `/api/units/${unit.id}`
-        : `/api/property-profiles/${propertyProfileId}/units`;
+        : "/api/units";
       
       const response = await apiRequest(
         isEdit ? "PUT" : "POST",
         endpoint,
         {
-          ...data,
+          ...unitData,
           propertyProfileId,
-          bathrooms: data.bathrooms?.toString()
+          // New units need a type and rent; existing ones keep theirs
+          ...(isEdit ? {} : {
+            unitType: unitData.bedrooms === 0 ? "Studio" : `${unitData.bedrooms}BR`,
+            currentRent: unitData.currentRent || "0"
+          }),
+          bathrooms: unitData.bathrooms?.toString(),
+          floor: floor ? parseInt(floor, 10) : null,
+          renovationTier: renovationTier || null,
+          view: view || null,
+          leaseTerms: parseLeaseTerms(leaseTerms)
         }
       );
-      return response.json();
+      const savedUnit: PropertyUnit = await response.json();
+
+      // Only touch the lease when one exists or something was entered
+      const hasLeaseInput = leaseFieldNames.some(name => data[name]) || renewalStatus !== "pending";
+      if (currentLease || hasLeaseInput) {
+        await apiRequest("PUT", `/api/units/${savedUnit.id}/lease`, {
+          leaseTermMonths: leaseTermMonths ? parseInt(leaseTermMonths, 10) : null,
+          leaseStart: leaseStart || null,
+          leaseEnd: leaseEnd || null,
+          moveInDate: moveInDate || null,
+          effectiveRent: effectiveRent || null,
+          concessionAmount: concessionAmount || null,
+          concessionDescription: concessionDescription || null,
+          renewalStatus,
+          renewalOfferDate: renewalOfferDate || null,
+          renewalDecisionDate: renewalDecisionDate || null
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/units", savedUnit.id, "leases"] });
+      }
+      return savedUnit;
     },
     onSuccess: () => {
       toast({ 
@@ -141,7 +299,7 @@ export default function UnitEditDialog({
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEdit ? "Edit Unit" : "Add New Unit"}</DialogTitle>
           <DialogDescription>
@@ -333,6 +491,285 @@ export default function UnitEditDialog({
               )}
             />
 
+            <div className="space-y-4 border-t pt-4">
+              <h4 className="text-sm font-medium">Unit Attributes</h4>
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="floor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Floor</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} min="0" placeholder="3" data-testid="input-floor" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="renovationTier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Renovation</FormLabel>
+                      <Select
+                        value={field.value || "unknown"}
+                        onValueChange={(value) => field.onChange(value === "unknown" ? "" : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-renovation-tier">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="unknown">Unknown</SelectItem>
+                          {renovationTiers.map(tier => (
+                            <SelectItem key={tier} value={tier}>{renovationTierLabels[tier]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="view"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>View</FormLabel>
+                      <Select
+                        value={field.value || "unknown"}
+                        onValueChange={(value) => field.onChange(value === "unknown" ? "" : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-view">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="unknown">Unknown</SelectItem>
+                          {unitViews.map(view => (
+                            <SelectItem key={view} value={view} className="capitalize">{view}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="features"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit Features</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {unitFeatures.map(feature => (
+                        <div key={feature} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`feature-${feature}`}
+                            checked={field.value.includes(feature)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, feature] : field.value.filter(value => value !== feature)
+                            )}
+                            data-testid={`checkbox-feature-${feature}`}
+                          />
+                          <label htmlFor={`feature-${feature}`} className="text-sm cursor-pointer">
+                            {unitFeatureLabels[feature]}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="leaseTerms"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lease Terms Offered (months)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="6, 12, MTM" data-testid="input-offered-lease-terms" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4 border-t pt-4">
+              <h4 className="text-sm font-medium">Current Lease</h4>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="leaseStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lease Start</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-lease-start" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="leaseEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lease End</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-lease-end" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="leaseTermMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lease Term (months)</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} min="1" placeholder="12" data-testid="input-lease-term" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="moveInDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Move-In Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-move-in-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="effectiveRent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Effective Rent</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="1450" data-testid="input-effective-rent" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="concessionAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Concessions</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="600" data-testid="input-concession-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="concessionDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Concession Details</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="2 weeks free" data-testid="input-concession-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="renewalStatus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Renewal Status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-renewal-status">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {leaseRenewalStatuses.map(status => (
+                          <SelectItem key={status} value={status}>
+                            {renewalStatusLabels[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="renewalOfferDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Renewal Offered</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-renewal-offer-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="renewalDecisionDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Renewal Decided</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-renewal-decision-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <div className="flex justify-end gap-2">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { apiStream } from "@/lib/queryClient";
+import type { OptimizationProgress, SessionEventName, SessionScrapingStatus } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 3000;
+
+interface SessionEventPayloads {
+  'scraping-status': SessionScrapingStatus;
+  'optimization-progress': OptimizationProgress;
+}
+
+export type SessionEventHandlers = {
+  [E in SessionEventName]?: (data: SessionEventPayloads[E]) => void;
+};
+
+/**
+ * Subscribe to an analysis session's event stream while enabled, reconnecting
+ * if the connection drops. Returns the last connection error, if any.
+ */
+export function useSessionEvents(sessionId: string | undefined, enabled: boolean, handlers: SessionEventHandlers) {
+  const [error, setError] = useState<Error | null>(null);
+  // Handlers change every render; the stream should not reconnect when they do
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!sessionId || !enabled) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const dispatch = (block: string) => {
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice("event:".length).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice("data:".length).trimStart());
+      }
+      // Comment-only blocks are heartbeats
+      if (dataLines.length === 0) return;
+
+      const handler = handlersRef.current[event as SessionEventName] as ((data: unknown) => void) | undefined;
+      try {
+        handler?.(JSON.parse(dataLines.join("\n")));
+      } catch (parseError) {
+        console.error(`[SESSION_EVENTS] Failed to handle ${event} event:`, parseError);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const res = await apiStream(`/api/analysis-sessions/${sessionId}/events`, controller.signal);
+        if (!res.body) throw new Error("Event stream is not readable");
+        setError(null);
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+          let boundary = buffer.indexOf("\n\n");
+          while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+          }
+        }
+      } catch (streamError) {
+        if (controller.signal.aborted) return;
+        console.error("[SESSION_EVENTS] Event stream failed:", streamError);
+        setError(streamError instanceof Error ? streamError : new Error(String(streamError)));
+      }
+
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [sessionId, enabled]);
+
+  return { error };
+}
@@ -1,5 +1,6 @@
 import ExcelJS from 'exceljs';
 import { formatCurrency } from '@/utils/formatters';
+import type { RenewalPricingBatch } from '@shared/schema';
 
 // Helper function to format square footage
 function formatSquareFootage(sqft: number | undefined | null): string {
@@ -11,6 +12,17 @@ function formatSquareFootage(sqft: number | undefined | null): string {
   return sqft.toLocaleString() + ' sq ft';
 }
 
+// Rent per square foot, preferring the server-computed value when present
+function getRentPerSqFt(rentPerSqFt: number | null | undefined, rent: number, sqft: number | undefined | null): number | string {
+  if (rentPerSqFt !== undefined && rentPerSqFt !== null) {
+    return rentPerSqFt;
+  }
+  if (!sqft || sqft <= 0 || rent <= 0) {
+    return '-';
+  }
+  return Math.round((rent / sqft) * 100) / 100;
+}
+
 // Helper function to format power score
 function formatPowerScore(score: number | undefined | null): string {
   if (score === undefined || score === null) {
@@ -73,6 +85,8 @@ export interface ExcelExportData {
     pricingPowerScore?: number;
     squareFootage?: number;
     currentRent: number;
+    rentPerSqFt?: number | null;
+    marketRentPerSqFt?: number | null;
     recommendedRent?: number;
     adjustmentReason?: string;
     change: number;
@@ -121,6 +135,8 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
     { header: 'Baths', key: 'bathrooms', width: 8 },
     { header: 'Square Footage', key: 'squareFootage', width: 15 },
     { header: 'Current Rent', key: 'currentRent', width: 15 },
+    { header: 'Rent / Sq Ft', key: 'rentPerSqFt', width: 14 },
+    { header: 'Market Rent / Sq Ft', key: 'marketRentPerSqFt', width: 20 },
     { header: 'AI Recommended', key: 'recommendedRent', width: 18 },
     { header: 'Adjustment Reason', key: 'adjustmentReason', width: 30 },
     { header: 'Monthly Change', key: 'change', width: 15 },
@@ -165,6 +181,8 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
     'Baths',
     'Square Footage',
     'Current Rent',
+    'Rent / Sq Ft',
+    'Market Rent / Sq Ft',
     'AI Recommended',
     'Adjustment Reason',
     'Monthly Change',
@@ -207,6 +225,8 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
       unit.bathrooms ?? '-',
       formatSquareFootage(unit.squareFootage),
       unit.currentRent,
+      getRentPerSqFt(unit.rentPerSqFt, unit.currentRent, unit.squareFootage),
+      isCompetitor ? '-' : (unit.marketRentPerSqFt ?? '-'),
       isCompetitor ? '-' : (unit.recommendedRent || unit.currentRent),
       isCompetitor ? '-' : (unit.adjustmentReason || ''),
       isCompetitor ? '-' : unit.change,
@@ -217,8 +237,8 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
     ]);
 
     // Apply conditional formatting based on change amount (only for subject properties)
-    const changeCell = row.getCell(13); // Monthly Change column
-    const impactCell = row.getCell(14); // Annual Impact column
+    const changeCell = row.getCell(15); // Monthly Change column
+    const impactCell = row.getCell(16); // Annual Impact column
     
     if (!isCompetitor) {
       if (unit.change > 0) {
@@ -279,10 +299,12 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
     
     // Format currency cells
     row.getCell(10).numFmt = '"$"#,##0.00'; // Current Rent
+    row.getCell(11).numFmt = '"$"#,##0.00'; // Rent / Sq Ft
     if (!isCompetitor) {
-      row.getCell(11).numFmt = '"$"#,##0.00'; // AI Recommended
-      row.getCell(13).numFmt = '"$"#,##0.00'; // Monthly Change
-      row.getCell(14).numFmt = '"$"#,##0.00'; // Annual Impact
+      row.getCell(12).numFmt = '"$"#,##0.00'; // Market Rent / Sq Ft
+      row.getCell(13).numFmt = '"$"#,##0.00'; // AI Recommended
+      row.getCell(15).numFmt = '"$"#,##0.00'; // Monthly Change
+      row.getCell(16).numFmt = '"$"#,##0.00'; // Annual Impact
     }
   });
   
@@ -339,3 +361,94 @@ export async function exportToExcel(data: ExcelExportData): Promise<void> {
 export async function exportOptimizationToExcel(data: ExcelExportData): Promise<void> {
   return exportToExcel(data);
 }
+
+/**
+ * Renewal letter batch - one row per renewal offer, kept apart from new-lease
+ * asking rents. The letters sheet starts at row 1 so it can feed a mail merge.
+ */
+export async function exportRenewalLettersToExcel(batch: RenewalPricingBatch): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Property Optimization Tool';
+  workbook.lastModifiedBy = 'Property Optimization Tool';
+  workbook.created = new Date();
+  workbook.modified = new Date();
+
+  const letters = workbook.addWorksheet('Renewal Letters');
+  letters.columns = [
+    { header: 'Property', key: 'propertyName', width: 25 },
+    { header: 'Unit Number', key: 'unitNumber', width: 14 },
+    { header: 'Unit Type', key: 'unitType', width: 12 },
+    { header: 'Lease End', key: 'leaseEnd', width: 14 },
+    { header: 'Offer Effective', key: 'offerEffectiveDate', width: 16 },
+    { header: 'Renewal Term (Months)', key: 'renewalTermMonths', width: 22 },
+    { header: 'Current Rent', key: 'currentRent', width: 15 },
+    { header: 'Renewal Rent', key: 'recommendedRent', width: 15 },
+    { header: 'Monthly Increase', key: 'increase', width: 17 },
+    { header: 'Increase %', key: 'increasePercent', width: 12 },
+    { header: 'Market Rent', key: 'marketRent', width: 14 },
+    { header: 'Loss to Lease', key: 'lossToLease', width: 14 },
+    { header: 'Capped', key: 'capped', width: 10 },
+    { header: 'Notes', key: 'reasoning', width: 50 }
+  ];
+
+  batch.recommendations.forEach(recommendation => {
+    letters.addRow({
+      ...recommendation,
+      marketRent: recommendation.marketRent ?? '-',
+      increasePercent: recommendation.increasePercent / 100,
+      capped: recommendation.capped ? 'Yes' : 'No'
+    });
+  });
+
+  letters.getRow(1).eachCell((cell) => {
+    cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cell.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FF3B82F6' }
+    };
+  });
+  ['currentRent', 'recommendedRent', 'increase', 'marketRent', 'lossToLease'].forEach(key => {
+    letters.getColumn(key).numFmt = '$#,##0';
+  });
+  letters.getColumn('increasePercent').numFmt = '0.0%';
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.columns = [
+    { key: 'label', width: 32 },
+    { key: 'value', width: 20 }
+  ];
+  const titleRow = summary.addRow(['Renewal Pricing Summary']);
+  titleRow.getCell(1).font = { size: 14, bold: true, color: { argb: 'FF059669' } };
+  const summaryData: Array<[string, string | number]> = [
+    ['Generated on:', new Date(batch.generatedAt).toLocaleDateString()],
+    ['Leases expiring within (days):', batch.params.withinDays],
+    ['Loss-to-lease captured:', `${batch.params.lossToLeaseCapturePercent}%`],
+    ['Minimum increase:', `${batch.params.minIncreasePercent}%`],
+    ['Maximum increase:', `${batch.params.maxIncreasePercent}%`],
+    ['Renewal offers:', batch.summary.units],
+    ['Offers held at the cap:', batch.summary.cappedUnits],
+    ['Total loss to lease (monthly):', formatCurrency(batch.summary.totalLossToLease)],
+    ['Total renewal increase (monthly):', formatCurrency(batch.summary.totalMonthlyIncrease)],
+    ['Average increase:', `${batch.summary.avgIncreasePercent}%`]
+  ];
+  summaryData.forEach(([label, value]) => {
+    const row = summary.addRow([label, value]);
+    row.getCell(1).font = { bold: true };
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { 
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+  });
+
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.href = url;
+  link.download = `renewal-letters-${Date.now()}.xlsx`;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -54,6 +54,25 @@ export async function apiRequest(
   return res;
 }
 
+// Open a long-lived Server-Sent Events response. EventSource can't send the
+// Authorization header, so streams are read with fetch instead.
+export async function apiStream(url: string, signal: AbortSignal): Promise<Response> {
+  const fullUrl = url.startsWith('http') ? url : `${API_BASE_URL}${url}`;
+  const sessionToken = getClerkSessionToken();
+  
+  const res = await fetch(fullUrl, {
+    headers: {
+      "Accept": "text/event-stream",
+      ...(sessionToken ? { "Authorization": `Bearer ${sessionToken}` } : {}),
+    },
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -12,11 +12,17 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import OptimizationTable from "@/components/optimization-table";
 import OptimizationControls from "@/components/optimization-controls";
+import PricingStrategySettings from "@/components/pricing-strategy-settings";
+import ExpiringLeasesCard from "@/components/expiring-leases-card";
+import RenewalPricingCard from "@/components/renewal-pricing-card";
+import LeaseExpirationCard from "@/components/lease-expiration-card";
+import PricingProposalsCard from "@/components/pricing-proposals-card";
 import SaveSelectionTemplateDialog from "@/components/save-selection-template-dialog";
 import { OptimizationProgressModal } from "@/components/optimization-progress-modal";
 import { exportToExcel, type ExcelExportData } from "@/lib/excel-export";
 import { useWorkflowState } from "@/hooks/use-workflow-state";
-import type { Property, PropertyUnit, OptimizationReport, AnalysisSession, PropertyProfile, PropertyAnalysis } from "@shared/schema";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import type { Property, PropertyUnit, OptimizationReport, AnalysisSession, PropertyProfile, PropertyAnalysis, SavedPortfolio } from "@shared/schema";
 
 interface OptimizationData {
   report: OptimizationReport;
@@ -112,6 +118,10 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
   const { state: workflowState, saveState: saveWorkflowState, loadState: loadWorkflowState } = useWorkflowState(sessionId, isSessionMode);
   
   const [goal, setGoal] = useState("maximize-revenue");
+  // Parameters for the selected strategy; undefined sends none so the server uses the defaults
+  const [strategyParams, setStrategyParams] = useState<Record<string, any> | undefined>(undefined);
+  const hasSavedGoal = useRef(false);
+  const hasAppliedPinnedStrategy = useRef(false);
   const [targetOccupancy, setTargetOccupancy] = useState([95]);
   const [riskTolerance, setRiskTolerance] = useState([2]); // 1=Low, 2=Medium, 3=High
   const [hasInitialized, setHasInitialized] = useState(false);
@@ -121,6 +131,15 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
   const [optimizationStage, setOptimizationStage] = useState(1);
   const [isSaveTemplateDialogOpen, setIsSaveTemplateDialogOpen] = useState(false);
   
+  // Session optimizations stream their stage progress; stay subscribed so no early stage is missed
+  useSessionEvents(sessionId, isSessionMode, {
+    'optimization-progress': (progress) => {
+      if (progress.status === 'running') {
+        setOptimizationStage(current => Math.max(current, progress.stage));
+      }
+    }
+  });
+  
   // Query for session data when in session mode
   const sessionQuery = useQuery<AnalysisSession & { propertyProfiles: PropertyProfile[] }>({
     queryKey: ['/api/analysis-sessions', sessionId],
@@ -128,6 +147,28 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
     staleTime: 30000
   });
 
+  const sessionPortfolioId = sessionQuery.data?.portfolioId ?? null;
+  const portfolioQuery = useQuery<SavedPortfolio>({
+    queryKey: ['/api/portfolios', sessionPortfolioId],
+    enabled: isSessionMode && !!sessionPortfolioId
+  });
+
+  // Start from the portfolio's pinned strategy unless a goal was already saved for this session
+  useEffect(() => {
+    const portfolio = portfolioQuery.data;
+    if (!hasInitialized || hasAppliedPinnedStrategy.current || !portfolio) return;
+    hasAppliedPinnedStrategy.current = true;
+    if (!hasSavedGoal.current && portfolio.pricingStrategy) {
+      setGoal(portfolio.pricingStrategy);
+      setStrategyParams(portfolio.pricingStrategyParams || undefined);
+    }
+  }, [hasInitialized, portfolioQuery.data]);
+
+  const handleGoalChange = (newGoal: string) => {
+    setGoal(newGoal);
+    setStrategyParams(undefined);
+  };
+
   // Enhanced debugging for session mode detection with validation warnings
   useEffect(() => {
     console.log('[OPTIMIZE] === ENHANCED SESSION MODE DETECTION SUMMARY ===');
@@ -201,6 +242,7 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
       // Load workflow state
       const loadedState = await loadWorkflowState();
       if (loadedState && loadedState.optimizationParams) {
+        hasSavedGoal.current = !!loadedState.optimizationParams.goal;
         setGoal(loadedState.optimizationParams.goal || "maximize-revenue");
         setTargetOccupancy([loadedState.optimizationParams.targetOccupancy || 95]);
         setRiskTolerance([loadedState.optimizationParams.riskTolerance || 2]);
@@ -246,7 +288,7 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
   }, [goal, targetOccupancy, riskTolerance, hasInitialized]);
 
   const optimizeMutation = useMutation({
-    mutationFn: async (data: { goal: string; targetOccupancy: number; riskTolerance: number }): Promise<OptimizationData> => {
+    mutationFn: async (data: { goal: string; targetOccupancy: number; riskTolerance: number; strategyParams?: Record<string, any> }): Promise<OptimizationData> => {
       // Validate parameters before API call
       if (!data.goal) {
         throw new Error('Please select an optimization goal');
@@ -258,27 +300,9 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
         throw new Error('Please select a valid risk tolerance level');
       }
 
-      // Show modal and set initial stage
+      // Show modal and set initial stage; later stages arrive over the session event stream
       setShowOptimizationModal(true);
       setOptimizationStage(1);
-      
-      // Simulate stage progression
-      const stageTimers: NodeJS.Timeout[] = [];
-      
-      // Stage 2: After 2 seconds - Analyzing market
-      stageTimers.push(setTimeout(() => {
-        setOptimizationStage(2);
-      }, 2000));
-      
-      // Stage 3: After 4 seconds - Generating AI recommendations
-      stageTimers.push(setTimeout(() => {
-        setOptimizationStage(3);
-      }, 4000));
-      
-      // Stage 4: After 6 seconds - Calculating impacts
-      stageTimers.push(setTimeout(() => {
-        setOptimizationStage(4);
-      }, 6000));
 
       const endpoint = isSessionMode 
         ? `/api/analysis-sessions/${sessionId}/optimize`
@@ -292,41 +316,33 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
       const maxRetries = 3;
       let attempt = 0;
       
-      try {
-        while (attempt < maxRetries) {
-          try {
-            const res = await apiRequest("POST", endpoint, data);
-            console.log('[OPTIMIZE_MUTATION] API call successful on attempt:', attempt + 1);
-            
-            // Clear stage timers and set to final stage
-            stageTimers.forEach(timer => clearTimeout(timer));
-            setOptimizationStage(5);
-            
-            return res.json();
-          } catch (error) {
-            attempt++;
-            console.error(`[OPTIMIZE_MUTATION] Optimization attempt ${attempt} failed:`, error);
-            console.error(`[OPTIMIZE_MUTATION] Attempted endpoint:`, endpoint);
-            
-            if (attempt === maxRetries) {
-              // Clear timers on error
-              stageTimers.forEach(timer => clearTimeout(timer));
-              
-              // Extract meaningful error message from response
-              if (error instanceof Error) {
-                throw error;
-              }
-              throw new Error('Network error - please check your connection and try again');
+      while (attempt < maxRetries) {
+        try {
+          const res = await apiRequest("POST", endpoint, data);
+          console.log('[OPTIMIZE_MUTATION] API call successful on attempt:', attempt + 1);
+          
+          // The response means the report is saved, whether or not the final stage event arrived
+          setOptimizationStage(5);
+          
+          return res.json();
+        } catch (error) {
+          attempt++;
+          console.error(`[OPTIMIZE_MUTATION] Optimization attempt ${attempt} failed:`, error);
+          console.error(`[OPTIMIZE_MUTATION] Attempted endpoint:`, endpoint);
+          
+          if (attempt === maxRetries) {
+            // Extract meaningful error message from response
+            if (error instanceof Error) {
+              throw error;
             }
-            
-            // Wait before retry
-            await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+            throw new Error('Network error - please check your connection and try again');
           }
+          
+          // Wait before retry
+          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+          // A retry starts the stages over
+          setOptimizationStage(1);
         }
-      } catch (error) {
-        // Clear timers on error
-        stageTimers.forEach(timer => clearTimeout(timer));
-        throw error;
       }
       
       // This should never be reached but satisfies TypeScript
@@ -401,7 +417,8 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
       optimizeMutation.mutate({ 
         goal, 
         targetOccupancy: targetOcc, 
-        riskTolerance: riskTol 
+        riskTolerance: riskTol,
+        strategyParams
       });
     } else {
       // For single property mode, first create units if they don't exist, then optimize
@@ -565,6 +582,8 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
             bathrooms: (unit as any).bathrooms ?? null,
             squareFootage: (unit as any).squareFootage || undefined,
             currentRent: currentRent,
+            rentPerSqFt: (unit as any).rentPerSqFt ?? null,
+            marketRentPerSqFt: (unit as any).marketRentPerSqFt ?? null,
             recommendedRent: adjustedPrice,
             adjustmentReason: unit.adjustmentReason || undefined,
             change: change,
@@ -670,6 +689,8 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
               bathrooms: (unit as any).bathrooms ?? null,
               squareFootage: (unit as any).squareFootage || undefined,
               currentRent: currentRent,
+              rentPerSqFt: (unit as any).rentPerSqFt ?? null,
+              marketRentPerSqFt: (unit as any).marketRentPerSqFt ?? null,
               recommendedRent: adjustedPrice,
               change: change,
               annualImpact: change * 12,
@@ -907,11 +928,21 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
           goal={goal}
           targetOccupancy={targetOccupancy}
           riskTolerance={riskTolerance}
-          onGoalChange={setGoal}
+          onGoalChange={handleGoalChange}
           onTargetOccupancyChange={setTargetOccupancy}
           onRiskToleranceChange={setRiskTolerance}
         />
 
+        {/* Strategy parameters and portfolio default (session optimizations only) */}
+        {isSessionMode && (
+          <PricingStrategySettings
+            strategyId={goal}
+            params={strategyParams}
+            onParamsChange={setStrategyParams}
+            portfolioId={sessionPortfolioId}
+          />
+        )}
+
         {/* Generate Button */}
         <div className="flex justify-center mb-6">
           <Button 
@@ -957,6 +988,7 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
               onPricesChange={setCurrentModifiedPrices}
               onExportToExcel={handleExportToExcel}
               isExporting={isExporting}
+              sessionId={isSessionMode ? sessionId : undefined}
             />
           </>
         ) : (
@@ -976,6 +1008,16 @@ export default function Optimize({ params }: { params: { id?: string, sessionId?
 
       </div>
 
+      {/* Pricing proposals and leases coming up for renewal across the subject properties */}
+      {isSessionMode && sessionId && (
+        <>
+          <PricingProposalsCard sessionId={sessionId} />
+          <ExpiringLeasesCard sessionId={sessionId} />
+          <RenewalPricingCard sessionId={sessionId} />
+          <LeaseExpirationCard sessionId={sessionId} />
+        </>
+      )}
+
       {/* Optimization Progress Modal */}
       {showOptimizationModal && (
         <OptimizationProgressModal
@@ -26,6 +26,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, formatLargeCurrency } from "@/utils/formatters";
 import { useToast } from "@/hooks/use-toast";
 import { exportPortfolioToExcel } from "@/lib/portfolio-excel-export";
+import { apiRequest } from "@/lib/queryClient";
 import { 
   LineChart, 
   Line, 
@@ -41,7 +42,7 @@ import {
   Legend, 
   ResponsiveContainer 
 } from 'recharts';
-import type { PropertyProfile, AnalysisSession, OptimizationReport } from "@shared/schema";
+import type { PropertyProfile, AnalysisSession, OptimizationReport, SavedPortfolio } from "@shared/schema";
 
 interface PortfolioMetrics {
   totalProperties: number;
@@ -84,8 +85,21 @@ interface BackendPropertyPerformance {
 
 export default function PortfolioDashboard() {
   const [selectedTimeframe, setSelectedTimeframe] = useState<'30d' | '90d' | '1y'>('90d');
+  // Empty string means all of the user's properties rather than one saved portfolio
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>('');
   const { toast } = useToast();
 
+  // The user's saved portfolios for the portfolio switcher
+  const { data: portfolios = [] } = useQuery<SavedPortfolio[]>({
+    queryKey: ["/api/portfolios"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/portfolios");
+      return response.json();
+    }
+  });
+
+  const portfolioQuery = selectedPortfolioId ? `?portfolioId=${encodeURIComponent(selectedPortfolioId)}` : '';
+
   // Default portfolio metrics if not loaded yet
   const defaultMetrics = {
     totalProperties: 0,
@@ -100,30 +114,27 @@ export default function PortfolioDashboard() {
 
   // Fetch real portfolio analytics from backend (replaces client-side calculations)
   const { data: portfolioMetrics, isLoading: isLoadingAnalytics } = useQuery({
-    queryKey: ["/api/portfolio/analytics"],
+    queryKey: ["/api/portfolio/analytics", selectedPortfolioId],
     queryFn: async () => {
-      const response = await fetch("/api/portfolio/analytics");
-      if (!response.ok) throw new Error("Failed to fetch portfolio analytics");
+      const response = await apiRequest("GET", `/api/portfolio/analytics${portfolioQuery}`);
       return response.json();
     }
   });
 
   // Fetch portfolio financial report for exports
   const { data: portfolioFinancialData } = useQuery({
-    queryKey: ["/api/portfolio/financial-report"],
+    queryKey: ["/api/portfolio/financial-report", selectedPortfolioId],
     queryFn: async () => {
-      const response = await fetch("/api/portfolio/financial-report");
-      if (!response.ok) throw new Error("Failed to fetch portfolio financial data");
+      const response = await apiRequest("GET", `/api/portfolio/financial-report${portfolioQuery}`);
       return response.json();
     }
   });
 
   // Fetch portfolio insights for exports
   const { data: portfolioInsights } = useQuery({
-    queryKey: ["/api/portfolio/insights"],
+    queryKey: ["/api/portfolio/insights", selectedPortfolioId],
     queryFn: async () => {
-      const response = await fetch("/api/portfolio/insights");
-      if (!response.ok) throw new Error("Failed to fetch portfolio insights");
+      const response = await apiRequest("GET", `/api/portfolio/insights${portfolioQuery}`);
       return response.json();
     }
   });
@@ -226,6 +237,22 @@ export default function PortfolioDashboard() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            <select 
+              value={selectedPortfolioId} 
+              onChange={(e) => setSelectedPortfolioId(e.target.value)}
+              className="text-sm border rounded px-2 py-1"
+              data-testid="portfolio-selector"
+            >
+              <option value="">All Properties</option>
+              {portfolios.map((portfolio) => (
+                <option key={portfolio.id} value={portfolio.id}>
+                  {portfolio.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="flex items-center gap-2">
             <Calendar className="h-4 w-4" />
             <select 
@@ -8,12 +8,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Plus, Building2, Target, Users } from "lucide-react";
 import PropertyProfileForm from "../components/property-profile-form";
 import PropertyProfilesList from "../components/property-profiles-list";
+import CompetitorDiscoveryDialog from "../components/competitor-discovery-dialog";
 import type { PropertyProfile, InsertPropertyProfile } from "@shared/schema";
 
 export default function PropertyProfiles() {
   const { toast } = useToast();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingProfile, setEditingProfile] = useState<PropertyProfile | null>(null);
+  const [discoveringProfile, setDiscoveringProfile] = useState<PropertyProfile | null>(null);
 
   // Fetch all property profiles
   const { data: profiles = [], isLoading } = useQuery<PropertyProfile[]>({
@@ -199,6 +201,7 @@ export default function PropertyProfiles() {
         isLoading={isLoading}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onDiscoverCompetitors={setDiscoveringProfile}
         isDeleting={deleteMutation.isPending}
       />
 
@@ -232,6 +235,12 @@ export default function PropertyProfiles() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Competitor Discovery Dialog */}
+      <CompetitorDiscoveryDialog
+        subject={discoveringProfile}
+        onOpenChange={() => setDiscoveringProfile(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -54,6 +54,7 @@ import { z } from "zod";
 import { useLocation } from "wouter";
 import EditSelectionTemplateDialog from "@/components/edit-selection-template-dialog";
 import CreateSelectionTemplateDialog from "@/components/create-selection-template-dialog";
+import { PropertyMap } from "@/components/property-map";
 import type { 
   AnalysisSession, 
   InsertAnalysisSession, 
@@ -869,6 +870,12 @@ export default function PropertySelectionMatrix() {
                 )}
               </CardContent>
             </Card>
+
+            {selectedSession && (
+              <div className="mt-6">
+                <PropertyMap sessionId={selectedSession} title="Session Map" />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -16,7 +16,8 @@ import UnitListingsTable from "@/components/unit-listings-table";
 import SaveSelectionTemplateDialog from "@/components/save-selection-template-dialog";
 import { ScrapingProgressModal } from "@/components/scraping-progress-modal";
 import { useWorkflowState } from "@/hooks/use-workflow-state";
-import type { Property, PropertyAnalysis, ScrapedProperty, AnalysisSession, PropertyProfile, ScrapedUnit } from "@shared/schema";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import type { Property, PropertyAnalysis, ScrapedProperty, AnalysisSession, PropertyProfile, ScrapedUnit, SessionScrapingStatus } from "@shared/schema";
 
 interface PropertyWithAnalysis {
   property: Property;
@@ -641,16 +642,15 @@ export default function Summarize({ params }: { params: { id?: string; sessionId
   });
 
   // NEW: Query to check scraping status for session mode
-  const scrapingStatusQuery = useQuery<{ overallStatus: string }>({
+  const scrapingStatusQuery = useQuery<SessionScrapingStatus>({
     queryKey: [`/api/analysis-sessions/${params.sessionId}/scraping-status`],
     enabled: isSessionMode && !!params.sessionId,
-    refetchInterval: (query) => {
-      const data = query.state.data;
-      // Only poll while scraping is in progress
-      if (data?.overallStatus === 'processing' || data?.overallStatus === 'pending') {
-        return 2000; // Poll every 2 seconds
-      }
-      return false; // Stop polling when complete
+  });
+
+  // Keep the scraping status current from the session's event stream instead of polling
+  useSessionEvents(params.sessionId, isSessionMode, {
+    'scraping-status': (status) => {
+      queryClient.setQueryData([`/api/analysis-sessions/${params.sessionId}/scraping-status`], status);
     }
   });
 
@@ -780,7 +780,10 @@ export default function Summarize({ params }: { params: { id?: string; sessionId
 
   const scrapingMutation = useMutation({
     mutationFn: async (competitorIds: string[]) => {
-      const response = await apiRequest('POST', '/api/competitors/scrape-units', { competitorIds });
+      const response = await apiRequest('POST', '/api/competitors/scrape-units', {
+        competitorIds,
+        sessionId: isSessionMode ? params.sessionId : undefined
+      });
       return await response.json();
     },
     onSuccess: (data) => {
@@ -817,8 +820,6 @@ export default function Summarize({ params }: { params: { id?: string; sessionId
         title: "Session Scraping Started",
         description: `Initiated scraping for ${data.totalPropertiesToScrape} properties in session "${data.sessionName}".`
       });
-      // Start polling for completion
-      setTimeout(() => checkSessionScrapingProgress(), 5000);
     },
     onError: (error) => {
       setScrapingStage('error');
@@ -831,38 +832,6 @@ export default function Summarize({ params }: { params: { id?: string; sessionId
     }
   });
 
-  // Function to check session scraping progress
-  const checkSessionScrapingProgress = async () => {
-    if (!params.sessionId) return;
-    
-    try {
-      // Check if vacancy data is available (indicates scraping completion)
-      const response = await queryClient.fetchQuery({
-        queryKey: ['/api/analysis-sessions', params.sessionId, 'vacancy-summary'],
-        queryFn: async () => {
-          const res = await apiRequest('GET', `/api/analysis-sessions/${params.sessionId}/vacancy-summary`);
-          if (!res.ok) {
-            throw new Error('Not ready yet');
-          }
-          return await res.json();
-        }
-      });
-      
-      if (response) {
-        setScrapingStage('completed');
-        setShowVacancyChart(true);
-        queryClient.invalidateQueries({ queryKey: ['/api/analysis-sessions', params.sessionId, 'vacancy-summary'] });
-        toast({
-          title: "Session Scraping Completed",
-          description: `All properties in the session have been successfully scraped.`
-        });
-      }
-    } catch (error) {
-      // Still processing, check again in 10 seconds
-      setTimeout(() => checkSessionScrapingProgress(), 10000);
-    }
-  };
-
   // Automatic session scraping trigger when page loads in session mode
   useEffect(() => {
     const triggerSessionScraping = async () => {
@@ -887,9 +856,8 @@ export default function Summarize({ params }: { params: { id?: string; sessionId
             return;
           } else if (statusData.overallStatus === 'processing') {
             console.log('[SESSION_SCRAPING] Scraping already in progress, starting progress check');
+            // Streamed status updates take it from here
             setScrapingStage('scraping');
-            // Start polling for completion
-            setTimeout(() => checkSessionScrapingProgress(), 5000);
             return;
           } else if (statusData.overallStatus === 'partial') {
             // Some properties completed, some failed - show as completed to avoid duplicate
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2, RefreshCw, RotateCcw, Webhook, KeyRound } from "lucide-react";
+import { webhookEvents, type WebhookDelivery, type WebhookEvent, type WebhookSubscription } from "@shared/schema";
+
+type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+const EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  "scrape.completed": "A scraping job finished successfully",
+  "scrape.failed": "A scraping job failed or ran out of retries",
+  "optimization.generated": "An optimization report was generated",
+  "pricing.applied": "A pricing proposal was approved and applied to units",
+  "unit.import.completed": "An Excel unit import finished"
+};
+
+function formatTimestamp(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function DeliveryStatusBadge({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.status === 'succeeded') {
+    return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Succeeded</Badge>;
+  }
+  if (delivery.status === 'failed') {
+    return <Badge variant="destructive">Failed</Badge>;
+  }
+  return <Badge variant="secondary">{delivery.attempts > 0 ? "Retrying" : "Pending"}</Badge>;
+}
+
+export default function Webhooks() {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<WebhookEvent[]>([...webhookEvents]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [selectedSubscriptionId, setSelectedSubscriptionId] = useState<string | null>(null);
+
+  const { data: subscriptions = [], isLoading } = useQuery<WebhookSubscriptionSummary[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const selectedSubscription = subscriptions.find(subscription => subscription.id === selectedSubscriptionId) ?? null;
+
+  const { data: deliveries = [], isLoading: isLoadingDeliveries, refetch: refetchDeliveries, isFetching: isFetchingDeliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks", selectedSubscriptionId, "deliveries"],
+    enabled: !!selectedSubscriptionId,
+  });
+
+  const resetCreateForm = () => {
+    setUrl("");
+    setDescription("");
+    setSelectedEvents([...webhookEvents]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<WebhookSubscriptionSummary & { secret: string }> => {
+      const res = await apiRequest("POST", "/api/webhooks", {
+        url: url.trim(),
+        description: description.trim() || null,
+        events: selectedEvents
+      });
+      return res.json();
+    },
+    onSuccess: (subscription) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setIsCreateDialogOpen(false);
+      resetCreateForm();
+      setCreatedSecret(subscription.secret);
+      setSelectedSubscriptionId(subscription.id);
+    },
+    onError: (error) => {
+      console.error("Error creating webhook:", error);
+      toast({
+        title: "Creation Failed",
+        description: "Failed to create webhook. Check the URL and selected events.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      const res = await apiRequest("PUT", `/api/webhooks/${id}`, { active });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error) => {
+      console.error("Error updating webhook:", error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update webhook. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      if (selectedSubscriptionId === id) setSelectedSubscriptionId(null);
+      toast({
+        title: "Webhook Deleted",
+        description: "The webhook and its delivery log have been deleted.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error deleting webhook:", error);
+      toast({
+        title: "Deletion Failed",
+        description: "Failed to delete webhook. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (delivery: WebhookDelivery) => {
+      const res = await apiRequest("POST", `/api/webhooks/${delivery.subscriptionId}/deliveries/${delivery.id}/redeliver`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", selectedSubscriptionId, "deliveries"] });
+      toast({
+        title: "Redelivery Queued",
+        description: "The event will be sent again shortly.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error redelivering webhook:", error);
+      toast({
+        title: "Redelivery Failed",
+        description: "Failed to queue the redelivery. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setSelectedEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this webhook? Its delivery log will be deleted too.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-testid="webhooks-page">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="page-title">
+            Webhooks
+          </h1>
+          <p className="text-muted-foreground mt-1" data-testid="page-description">
+            Notify other systems when scrapes, optimizations, pricing changes and imports finish
+          </p>
+        </div>
+        <Button
+          onClick={() => setIsCreateDialogOpen(true)}
+          className="flex items-center gap-2"
+          data-testid="button-add-webhook"
+        >
+          <Plus className="h-4 w-4" />
+          Add Webhook
+        </Button>
+      </div>
+
+      {createdSecret && (
+        <Alert data-testid="alert-webhook-secret">
+          <KeyRound className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-2">
+              <p>
+                Copy this signing secret now - it won't be shown again. Each request carries an
+                <code className="mx-1">X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>
+                header, where the signature is the hex HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code>.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="px-2 py-1 rounded bg-muted text-sm break-all" data-testid="text-webhook-secret">{createdSecret}</code>
+                <Button variant="outline" size="sm" onClick={() => setCreatedSecret(null)} data-testid="button-dismiss-secret">
+                  Done
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card data-testid="card-webhook-subscriptions">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Subscriptions
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+          ) : subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-webhooks">
+              No webhooks yet. Add one to start receiving events.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {subscriptions.map(subscription => (
+                <div
+                  key={subscription.id}
+                  className={`flex items-start justify-between gap-4 p-4 rounded-md border ${
+                    subscription.id === selectedSubscriptionId ? "border-primary" : "border-border"
+                  }`}
+                  data-testid={`webhook-${subscription.id}`}
+                >
+                  <div className="space-y-2 min-w-0">
+                    <div className="font-medium break-all">{subscription.url}</div>
+                    {subscription.description && (
+                      <div className="text-sm text-muted-foreground">{subscription.description}</div>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {subscription.organizationId && <Badge variant="outline">Organization</Badge>}
+                      {subscription.events.map(event => (
+                        <Badge key={event} variant="secondary">{event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={subscription.active}
+                        onCheckedChange={(active) => updateMutation.mutate({ id: subscription.id, active })}
+                        data-testid={`switch-webhook-active-${subscription.id}`}
+                      />
+                      <span className="text-sm text-muted-foreground">{subscription.active ? "Active" : "Paused"}</span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedSubscriptionId(subscription.id)}
+                      data-testid={`button-view-deliveries-${subscription.id}`}
+                    >
+                      Deliveries
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(subscription.id)}
+                      data-testid={`button-delete-webhook-${subscription.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedSubscription && (
+        <Card data-testid="card-webhook-deliveries">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base break-all">Delivery Log - {selectedSubscription.url}</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetchDeliveries()}
+              disabled={isFetchingDeliveries}
+              data-testid="button-refresh-deliveries"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetchingDeliveries ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoadingDeliveries ? (
+              <p className="text-sm text-muted-foreground">Loading deliveries...</p>
+            ) : deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-deliveries">
+                No events have been sent to this webhook yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Last Attempt</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery.id} data-testid={`delivery-${delivery.id}`}>
+                      <TableCell className="font-medium">{delivery.event}</TableCell>
+                      <TableCell><DeliveryStatusBadge delivery={delivery} /></TableCell>
+                      <TableCell>{delivery.attempts}/{delivery.maxAttempts}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <div>{delivery.responseStatus ?? "—"}</div>
+                        {delivery.errorMessage && (
+                          <div className="text-xs text-destructive truncate" title={delivery.errorMessage}>{delivery.errorMessage}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatTimestamp(delivery.createdAt)}</TableCell>
+                      <TableCell className="text-sm">{formatTimestamp(delivery.lastAttemptAt)}</TableCell>
+                      <TableCell>
+                        {delivery.status !== 'pending' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => redeliverMutation.mutate(delivery)}
+                            disabled={redeliverMutation.isPending}
+                            data-testid={`button-redeliver-${delivery.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Redeliver
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent data-testid="dialog-create-webhook">
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/webhooks/rent-ai"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Optional"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-webhook-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {webhookEvents.map(event => (
+                <div key={event} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={selectedEvents.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-event-${event}`}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`} className="font-normal leading-tight">
+                    <span className="font-medium">{event}</span>
+                    <span className="block text-xs text-muted-foreground">{EVENT_DESCRIPTIONS[event]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!url.trim() || selectedEvents.length === 0 || createMutation.isPending}
+              data-testid="button-create-webhook"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { average, normalizeAmenities } from "@shared/utils";
+import type { AmenityKey, AmenityTaxonomyEntry, CompetitiveEdges } from "@shared/schema";
+
+/**
+ * Amenity taxonomy and scoring.
+ *
+ * Property amenities arrive as free text in whatever form the listing used
+ * ("24hr fitness center", "Gym", "Resort-style pool"). The normalizer maps
+ * that text to canonical amenity keys. Each amenity carries a value weight
+ * (0-10), which an analysis session can override. A property's amenity score
+ * is the share of the taxonomy's total weight its amenities cover, and the
+ * amenities edge compares subject and competitor scores.
+ */
+
+interface AmenityDefinition {
+  key: AmenityKey;
+  label: string;
+  weight: number;
+  pattern: RegExp;
+}
+
+// Score points either side of the market average before the amenities edge counts
+export const AMENITY_EDGE_THRESHOLD = 10;
+
+export const AMENITY_TAXONOMY: AmenityDefinition[] = [
+  { key: 'in_unit_laundry', label: 'In-unit laundry', weight: 8, pattern: /in[- ]?(unit|home) (laundry|washer)|washer\s*(\/|&|and)\s*dryer|\bw\s*\/\s*d\b/i },
+  { key: 'laundry_facility', label: 'Laundry facility', weight: 2, pattern: /laundry (room|facilit|center|on[- ]site)|on[- ]site laundry|shared laundry|^laundry$/i },
+  { key: 'dishwasher', label: 'Dishwasher', weight: 3, pattern: /dishwasher/i },
+  { key: 'air_conditioning', label: 'Air conditioning', weight: 5, pattern: /air[- ]?condition|\ba\/c\b|central air|\bhvac\b/i },
+  { key: 'balcony', label: 'Balcony / patio', weight: 4, pattern: /balcon|patio|private terrace/i },
+  { key: 'fireplace', label: 'Fireplace', weight: 2, pattern: /fireplace/i },
+  { key: 'walk_in_closet', label: 'Walk-in closet', weight: 2, pattern: /walk[- ]?in closet/i },
+  { key: 'hardwood_floors', label: 'Hardwood floors', weight: 3, pattern: /hardwood|wood[- ](style |look )?floor|plank floor/i },
+  { key: 'stainless_appliances', label: 'Stainless appliances', weight: 3, pattern: /stainless/i },
+  { key: 'high_ceilings', label: 'High ceilings', weight: 2, pattern: /high ceiling|vaulted|\d+\s*(ft|foot|feet|')\s*ceiling/i },
+  { key: 'private_entrance', label: 'Private entrance', weight: 1, pattern: /private entr/i },
+  { key: 'corner_unit', label: 'Corner unit', weight: 1, pattern: /\bcorner\b/i },
+  { key: 'gym', label: 'Fitness center', weight: 6, pattern: /\bgym\b|fitness|exercise room|workout|weight room|yoga/i },
+  { key: 'pool', label: 'Pool', weight: 6, pattern: /\bpool\b(?! table)|swimming/i },
+  { key: 'parking', label: 'Parking', weight: 6, pattern: /parking|garage|carport/i },
+  { key: 'ev_charging', label: 'EV charging', weight: 2, pattern: /\bev\b|electric vehicle|car charging|charging station/i },
+  { key: 'pet_friendly', label: 'Pet friendly', weight: 5, pattern: /\bpets?\b|\b(dogs?|cats?) (allowed|ok|friendly|welcome)/i },
+  { key: 'dog_park', label: 'Dog park', weight: 2, pattern: /dog park|bark park|dog run/i },
+  { key: 'clubhouse', label: 'Clubhouse / lounge', weight: 3, pattern: /clubhouse|club ?room|lounge|community room/i },
+  { key: 'rooftop', label: 'Rooftop deck', weight: 3, pattern: /rooftop|roof ?deck|sky ?deck/i },
+  { key: 'business_center', label: 'Business center', weight: 2, pattern: /business cent|co-?working|work ?space|conference room/i },
+  { key: 'concierge', label: 'Concierge', weight: 4, pattern: /concierge|doorman|door attendant|front desk/i },
+  { key: 'controlled_access', label: 'Controlled access', weight: 3, pattern: /controlled access|access control|gated|secured? entry|key ?fob|intercom/i },
+  { key: 'elevator', label: 'Elevator', weight: 3, pattern: /elevator/i },
+  { key: 'storage', label: 'Storage', weight: 2, pattern: /(?<!bike |bicycle )storage/i },
+  { key: 'package_lockers', label: 'Package lockers', weight: 3, pattern: /package|parcel|amazon (hub|locker)/i },
+  { key: 'bike_storage', label: 'Bike storage', weight: 1, pattern: /\bbike|bicycle/i },
+  { key: 'playground', label: 'Playground', weight: 1, pattern: /playground|play area|tot lot/i },
+  { key: 'outdoor_grills', label: 'Grills / picnic area', weight: 1, pattern: /grill|bbq|barbe?cue|picnic/i }
+];
+
+const AMENITY_KEYS = new Set<string>(AMENITY_TAXONOMY.map(amenity => amenity.key));
+
+export function isAmenityKey(value: string): value is AmenityKey {
+  return AMENITY_KEYS.has(value);
+}
+
+/**
+ * Canonical amenity keys for free-text amenities. Text already in canonical
+ * form is kept; negated text ("No pets") and text matching nothing is dropped.
+ */
+export function normalizeAmenityKeys(amenities: unknown): AmenityKey[] {
+  const keys = new Set<AmenityKey>();
+  for (const entry of normalizeAmenities(amenities)) {
+    const key = entry.toLowerCase().replace(/[\s-]+/g, '_');
+    if (isAmenityKey(key)) {
+      keys.add(key);
+      continue;
+    }
+    if (/^(no|not)\b/i.test(entry)) continue;
+    for (const amenity of AMENITY_TAXONOMY) {
+      if (amenity.pattern.test(entry)) keys.add(amenity.key);
+    }
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Default weights with a session's overrides applied
+ */
+export function resolveAmenityWeights(overrides?: Record<string, number> | null): Record<AmenityKey, number> {
+  const weights = {} as Record<AmenityKey, number>;
+  for (const amenity of AMENITY_TAXONOMY) {
+    const override = overrides?.[amenity.key];
+    weights[amenity.key] = typeof override === 'number' && override >= 0 ? override : amenity.weight;
+  }
+  return weights;
+}
+
+export function getAmenityTaxonomy(overrides?: Record<string, number> | null): AmenityTaxonomyEntry[] {
+  const weights = resolveAmenityWeights(overrides);
+  return AMENITY_TAXONOMY.map(amenity => ({
+    key: amenity.key,
+    label: amenity.label,
+    defaultWeight: amenity.weight,
+    weight: weights[amenity.key]
+  }));
+}
+
+/**
+ * 0-100 score: the share of the taxonomy's total weight the amenities cover
+ */
+export function scoreAmenities(keys: AmenityKey[], weights: Record<AmenityKey, number>): number {
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return 0;
+  const covered = Array.from(new Set(keys)).reduce((sum, key) => sum + (weights[key] ?? 0), 0);
+  return Math.round((covered / totalWeight) * 1000) / 10;
+}
+
+/**
+ * Subject amenity score and the amenities edge against the competitors. Each
+ * entry is one property's raw amenity list; properties without amenity data
+ * are left out rather than scored as having none.
+ */
+export function compareAmenities(
+  subjectAmenities: unknown[],
+  competitorAmenities: unknown[],
+  weights: Record<AmenityKey, number>
+): { amenityScore: number; edge: CompetitiveEdges['amenities'] } {
+  const toScores = (properties: unknown[]) => properties
+    .map(amenities => normalizeAmenityKeys(amenities))
+    .filter(keys => keys.length > 0)
+    .map(keys => scoreAmenities(keys, weights));
+  const subjectScores = toScores(subjectAmenities);
+  const competitorScores = toScores(competitorAmenities);
+
+  if (subjectScores.length === 0) {
+    return { amenityScore: 0, edge: { edge: 0, label: "No amenity data", status: "neutral" } };
+  }
+
+  const amenityScore = Math.round((average(subjectScores) ?? 0) * 10) / 10;
+  if (competitorScores.length === 0) {
+    return { amenityScore, edge: { edge: 0, label: "No competitor amenity data", status: "neutral" } };
+  }
+
+  const edge = Math.round((amenityScore - (average(competitorScores) ?? 0)) * 10) / 10;
+  return {
+    amenityScore,
+    edge: {
+      edge,
+      label: (() => {
+        if (edge > AMENITY_EDGE_THRESHOLD) return "Above market amenities";
+        if (edge >= -AMENITY_EDGE_THRESHOLD) return "Market-standard amenities";
+        return "Below market amenities";
+      })(),
+      status: (() => {
+        if (edge > AMENITY_EDGE_THRESHOLD) return "advantage" as const;
+        if (edge < -AMENITY_EDGE_THRESHOLD) return "disadvantage" as const;
+        return "neutral" as const;
+      })()
+    }
+  };
+}
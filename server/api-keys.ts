@@ -0,0 +1,145 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { canAccessResource, type OwnedResource, type ResourceAction } from "./authorization";
+import type { ApiKey, ApiKeyScope } from "@shared/schema";
+
+/**
+ * API key authentication for the public /api/v1 REST API.
+ *
+ * Keys act with the access of the user who created them. An org-scoped key is
+ * further limited to that organization's resources, and every key is limited
+ * to the scopes it was created with and to its own per-minute request budget.
+ */
+
+const API_KEY_PREFIX = "rai_";
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Generate a new plaintext key. Only its hash is stored; the display prefix
+ * lets users tell their keys apart.
+ */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return { key, keyPrefix: key.slice(0, API_KEY_PREFIX.length + 8), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Key metadata safe to return to clients (never the hash)
+ */
+export function toApiKeyResponse(apiKey: ApiKey) {
+  const { keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+function readApiKey(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const header = req.headers["x-api-key"];
+  return typeof header === "string" ? header.trim() : null;
+}
+
+// Fixed one-minute windows per key; resets when the server restarts
+const rateLimitWindows = new Map<string, { windowStart: number; count: number }>();
+
+function consumeRateLimit(apiKey: ApiKey, now: number): { allowed: boolean; remaining: number; resetAt: number } {
+  let window = rateLimitWindows.get(apiKey.id);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateLimitWindows.set(apiKey.id, window);
+  }
+
+  const resetAt = window.windowStart + RATE_LIMIT_WINDOW_MS;
+  if (window.count >= apiKey.rateLimitPerMinute) {
+    return { allowed: false, remaining: 0, resetAt };
+  }
+  window.count++;
+  return { allowed: true, remaining: apiKey.rateLimitPerMinute - window.count, resetAt };
+}
+
+/**
+ * The API key that authenticated the request (set by authenticateApiKey)
+ */
+export function getRequestApiKey(res: Response): ApiKey {
+  const apiKey = res.locals.apiKey as ApiKey | undefined;
+  if (!apiKey) {
+    throw new Error("API key not authenticated");
+  }
+  return apiKey;
+}
+
+/**
+ * Authenticate a request by "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ * and apply the key's rate limit
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = readApiKey(req);
+    if (!key || !key.startsWith(API_KEY_PREFIX)) {
+      return res.status(401).json({ message: "API key required" });
+    }
+
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+    const now = new Date();
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return res.status(401).json({ message: "Invalid or expired API key" });
+    }
+
+    // Org-scoped keys stop working once their creator leaves the organization
+    if (apiKey.organizationId && !(await storage.getOrganizationMember(apiKey.organizationId, apiKey.userId))) {
+      return res.status(401).json({ message: "Invalid or expired API key" });
+    }
+
+    const rateLimit = consumeRateLimit(apiKey, now.getTime());
+    res.setHeader("X-RateLimit-Limit", apiKey.rateLimitPerMinute.toString());
+    res.setHeader("X-RateLimit-Remaining", rateLimit.remaining.toString());
+    res.setHeader("X-RateLimit-Reset", Math.ceil(rateLimit.resetAt / 1000).toString());
+    if (!rateLimit.allowed) {
+      res.setHeader("Retry-After", Math.ceil((rateLimit.resetAt - now.getTime()) / 1000).toString());
+      return res.status(429).json({ message: "Rate limit exceeded" });
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL_MS) {
+      storage.updateApiKey(apiKey.id, { lastUsedAt: now }).catch(error => {
+        console.error(`[API_KEYS] Failed to record use of API key ${apiKey.id}:`, error);
+      });
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error("[API_KEYS] Error authenticating API key:", error);
+    res.status(500).json({ message: "Failed to authenticate API key" });
+  }
+}
+
+/**
+ * Reject requests whose API key lacks the scope
+ */
+export function requireScope(scope: ApiKeyScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = getRequestApiKey(res);
+    if (!apiKey.scopes.includes(scope)) {
+      return res.status(403).json({ message: `API key is missing the ${scope} scope` });
+    }
+    next();
+  };
+}
+
+/**
+ * Whether the key may perform the action on a resource. Unowned legacy records
+ * are never reachable through the public API.
+ */
+export async function canApiKeyAccess(apiKey: ApiKey, resource: OwnedResource, action: ResourceAction): Promise<boolean> {
+  if (apiKey.organizationId && resource.organizationId !== apiKey.organizationId) {
+    return false;
+  }
+  return canAccessResource(apiKey.userId, resource, action);
+}
@@ -0,0 +1,217 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { storage } from "./storage";
+import { getClerkUserId } from "./clerkAuth";
+import type { OrganizationRole } from "@shared/schema";
+
+/**
+ * Authorization for user- and organization-owned resources.
+ *
+ * Property profiles, portfolios, selection templates and analysis sessions are
+ * owned by the user who created them and can additionally belong to an
+ * organization. The creator keeps full access; other members are granted
+ * access by their organization role.
+ */
+
+export type ResourceAction = 'read' | 'write' | 'manage';
+
+export interface OwnedResource {
+  userId: string | null;
+  organizationId: string | null;
+}
+
+// viewer: read only; analyst: read and edit; owner: also manages the organization and its members
+const ROLE_ACTIONS: Record<OrganizationRole, ResourceAction[]> = {
+  owner: ['read', 'write', 'manage'],
+  analyst: ['read', 'write'],
+  viewer: ['read']
+};
+
+export function roleAllows(role: OrganizationRole, action: ResourceAction): boolean {
+  return ROLE_ACTIONS[role]?.includes(action) ?? false;
+}
+
+/**
+ * IDs of the organizations whose resources the user may act on, for widening list queries
+ */
+export async function getUserOrganizationIds(userId: string, action: ResourceAction = 'read'): Promise<string[]> {
+  const memberships = await storage.getOrganizationMembershipsByUser(userId);
+  return memberships
+    .filter(member => roleAllows(member.role as OrganizationRole, action))
+    .map(member => member.organizationId);
+}
+
+/**
+ * Whether the user's role in the organization allows the action
+ */
+export async function canAccessOrganization(userId: string, organizationId: string, action: ResourceAction): Promise<boolean> {
+  const member = await storage.getOrganizationMember(organizationId, userId);
+  return !!member && roleAllows(member.role as OrganizationRole, action);
+}
+
+/**
+ * Whether the user may perform the action on a resource. Records without an
+ * owner predate authentication; they stay open only where allowUnowned is set.
+ */
+export async function canAccessResource(
+  userId: string,
+  resource: OwnedResource,
+  action: ResourceAction,
+  options: { allowUnowned?: boolean } = {}
+): Promise<boolean> {
+  if (resource.userId && resource.userId === userId) {
+    return true;
+  }
+  if (resource.organizationId) {
+    return canAccessOrganization(userId, resource.organizationId, action);
+  }
+  return !resource.userId && !!options.allowUnowned;
+}
+
+/**
+ * Whether the user may place a resource in the given organization (or take it
+ * out with null). Only the creator can move an existing resource, and only
+ * into an organization where they are allowed to write.
+ */
+export async function canAssignOrganization(
+  userId: string,
+  resource: OwnedResource | null,
+  organizationId: string | null | undefined
+): Promise<boolean> {
+  if (organizationId === undefined || organizationId === (resource?.organizationId ?? null)) {
+    return true;
+  }
+  if (resource && resource.userId !== userId) {
+    return false;
+  }
+  return !organizationId || canAccessOrganization(userId, organizationId, 'write');
+}
+
+export type GuardedResource =
+  | 'propertyProfile'
+  | 'analysisSession'
+  | 'portfolio'
+  | 'template'
+  | 'propertyUnit'
+  | 'lease'
+  | 'pricingProposal'
+  | 'tagDefinition'
+  | 'scrapingJob'
+  | 'scrapedProperty'
+  | 'organization'
+  | 'webhookSubscription'
+  | 'apiKey';
+
+// Units, leases, pricing proposals, tags and scrape records have no owner of their own; they inherit it from their profile or session
+const UNOWNED: OwnedResource = { userId: null, organizationId: null };
+
+const NOT_FOUND_MESSAGES: Record<GuardedResource, string> = {
+  propertyProfile: "Property profile not found",
+  analysisSession: "Analysis session not found",
+  portfolio: "Portfolio not found",
+  template: "Template not found",
+  propertyUnit: "Unit not found",
+  lease: "Lease not found",
+  pricingProposal: "Pricing proposal not found",
+  tagDefinition: "Tag definition not found",
+  scrapingJob: "Scraping job not found",
+  scrapedProperty: "Scraped property not found",
+  organization: "Organization not found",
+  webhookSubscription: "Webhook subscription not found",
+  apiKey: "API key not found"
+};
+
+async function getOwnerOfProfile(propertyProfileId: string | null): Promise<OwnedResource> {
+  if (!propertyProfileId) return UNOWNED;
+  return (await storage.getPropertyProfile(propertyProfileId)) ?? UNOWNED;
+}
+
+const resourceLoaders: Record<GuardedResource, (id: string) => Promise<OwnedResource | undefined>> = {
+  propertyProfile: id => storage.getPropertyProfile(id),
+  analysisSession: id => storage.getAnalysisSession(id),
+  portfolio: id => storage.getPortfolio(id),
+  template: id => storage.getSavedSelectionTemplate(id),
+  propertyUnit: async id => {
+    const unit = await storage.getPropertyUnit(id);
+    return unit ? getOwnerOfProfile(unit.propertyProfileId) : undefined;
+  },
+  lease: async id => {
+    const lease = await storage.getLease(id);
+    return lease ? resourceLoaders.propertyUnit(lease.propertyUnitId) : undefined;
+  },
+  pricingProposal: async id => {
+    const proposal = await storage.getPricingProposal(id);
+    return proposal ? (await storage.getAnalysisSession(proposal.sessionId)) ?? UNOWNED : undefined;
+  },
+  tagDefinition: async id => {
+    const tag = await storage.getTagDefinition(id);
+    return tag ? getOwnerOfProfile(tag.propertyProfileId) : undefined;
+  },
+  scrapingJob: async id => {
+    const job = await storage.getScrapingJob(id);
+    if (!job) return undefined;
+    if (job.propertyProfileId) return getOwnerOfProfile(job.propertyProfileId);
+    if (job.sessionId) return (await storage.getAnalysisSession(job.sessionId)) ?? UNOWNED;
+    return UNOWNED;
+  },
+  scrapedProperty: async id => {
+    const scrapedProperty = await storage.getScrapedProperty(id);
+    if (!scrapedProperty) return undefined;
+    return scrapedProperty.scrapingJobId ? (await resourceLoaders.scrapingJob(scrapedProperty.scrapingJobId)) ?? UNOWNED : UNOWNED;
+  },
+  // Access to an organization itself comes only from membership
+  organization: async id => {
+    const organization = await storage.getOrganization(id);
+    return organization ? { userId: null, organizationId: organization.id } : undefined;
+  },
+  webhookSubscription: id => storage.getWebhookSubscription(id),
+  // API keys stay personal to their creator, even when scoped to an organization
+  apiKey: async id => {
+    const apiKey = await storage.getApiKey(id);
+    return apiKey ? { userId: apiKey.userId, organizationId: null } : undefined;
+  }
+};
+
+/**
+ * The ownership record that governs access to a resource, or undefined if the resource doesn't exist
+ */
+export function loadResourceOwner(resource: GuardedResource, id: string): Promise<OwnedResource | undefined> {
+  return resourceLoaders[resource](id);
+}
+
+export interface ResourceGuardOptions {
+  param?: string; // route parameter holding the resource ID (default "id")
+  allowUnowned?: boolean;
+}
+
+/**
+ * Declarative route guard, e.g. requireAccess('analysisSession', 'read', { param: 'sessionId' }).
+ * Responds 401 without a signed-in user, 404 when the resource doesn't exist
+ * and 403 when the user may not perform the action on it.
+ */
+export function requireAccess(resource: GuardedResource, action: ResourceAction, options: ResourceGuardOptions = {}): RequestHandler {
+  const param = options.param ?? 'id';
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = getClerkUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const owner = await loadResourceOwner(resource, req.params[param]);
+      if (!owner) {
+        return res.status(404).json({ message: NOT_FOUND_MESSAGES[resource] });
+      }
+
+      if (!(await canAccessResource(userId, owner, action, options))) {
+        console.warn(`[AUTHORIZATION] Denied ${action} on ${resource} ${req.params[param]} for user ${userId}`);
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      next();
+    } catch (error) {
+      console.error(`[AUTHORIZATION] Error checking access to ${resource}:`, error);
+      res.status(500).json({ message: "Failed to check access" });
+    }
+  };
+}
@@ -0,0 +1,339 @@
+import { storage } from "./storage";
+import { getPropertyScraper, type PropertyScrapeResult } from "./property-scraper";
+import { average, linearCredit } from "@shared/utils";
+import { getGeocoder, getGeocodingAddress, getProfileCoordinates, geocodePropertyProfile, haversineMiles, MAX_STORED_DISTANCE_MILES, type GeocodeResult } from "./geocoding";
+import { normalizeAmenityKeys, resolveAmenityWeights } from "./amenities";
+import type { ScrapingJobOutcome } from "./scraping-job-queue";
+import type {
+  CandidateSimilarity,
+  CandidateSimilarityFactor,
+  CompetitorCandidate,
+  PropertyProfile,
+  ScrapingJob,
+  UnitMix
+} from "@shared/schema";
+
+/**
+ * Competitor discovery.
+ *
+ * A discovery run reads a listing site's search results page (by default an
+ * apartments.com search of the subject's city), scrapes each listed property
+ * and scores how closely it resembles the subject. Runs are scraping jobs in
+ * the COMPETITOR_DISCOVERY_STAGE, so they get the queue's leasing and retries.
+ * Scored properties are stored as competitor candidates for the user to accept
+ * (creating a competitor profile) or reject.
+ *
+ * matchScore (0-100) is the weighted average of the similarity factors:
+ *   - unitMix:   overlap of the studio/1/2/3/4+ bedroom shares
+ *   - vintage:   years between the built years
+ *   - size:      average unit square footage and total unit count
+ *   - amenities: weighted overlap of the normalized amenity keys
+ *   - distance:  miles between the properties
+ * A factor without data on either side is left out and the remaining weights
+ * are rescaled.
+ */
+
+const SIMILARITY_WEIGHTS: Record<CandidateSimilarityFactor, number> = {
+  unitMix: 25,
+  vintage: 15,
+  size: 20,
+  amenities: 15,
+  distance: 25
+};
+
+// Built years this far apart get no vintage credit
+const VINTAGE_ZERO_CREDIT_YEARS = 30;
+
+// Size differences (as a share of the larger value) at which size credit runs out
+const SIZE_ZERO_CREDIT_DIFFERENCE = 0.5;
+
+const DISTANCE_FULL_CREDIT_MILES = 0.5;
+const DISTANCE_ZERO_CREDIT_MILES = 10;
+
+// Listings scraped per discovery run
+const MAX_DISCOVERY_LISTINGS = 20;
+
+interface SimilarityInput {
+  unitMix: UnitMix | null;
+  builtYear: number | null;
+  totalUnits: number | null;
+  avgSquareFootage: number | null;
+  amenities: unknown;
+  coordinates: GeocodeResult | null;
+}
+
+export interface CandidateSimilarityResult {
+  matchScore: number;
+  similarity: CandidateSimilarity;
+  distance: number | null;
+}
+
+function unitMixFromBedrooms(bedrooms: Array<number | null>): UnitMix | null {
+  const known = bedrooms.filter((count): count is number => typeof count === 'number' && count >= 0);
+  if (known.length === 0) return null;
+  return {
+    studio: known.filter(count => count === 0).length,
+    oneBedroom: known.filter(count => count === 1).length,
+    twoBedroom: known.filter(count => count === 2).length,
+    threeBedroom: known.filter(count => count === 3).length,
+    fourPlusBedroom: known.filter(count => count >= 4).length
+  };
+}
+
+function unitMixShares(unitMix: UnitMix | null): number[] | null {
+  if (!unitMix) return null;
+  const counts = [unitMix.studio, unitMix.oneBedroom, unitMix.twoBedroom, unitMix.threeBedroom, unitMix.fourPlusBedroom]
+    .map(count => Number(count) || 0);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return total > 0 ? counts.map(count => count / total) : null;
+}
+
+function relativeSizeCredit(a: number | null, b: number | null): number | null {
+  if (!a || !b || a <= 0 || b <= 0) return null;
+  const difference = Math.abs(a - b) / Math.max(a, b);
+  return linearCredit(difference, 0, SIZE_ZERO_CREDIT_DIFFERENCE);
+}
+
+/**
+ * Similarity of a candidate to the subject, per factor and as a weighted matchScore
+ */
+export function scoreCandidateSimilarity(subject: SimilarityInput, candidate: SimilarityInput): CandidateSimilarityResult {
+  const credits: Partial<Record<CandidateSimilarityFactor, number>> = {};
+
+  const subjectShares = unitMixShares(subject.unitMix);
+  const candidateShares = unitMixShares(candidate.unitMix);
+  if (subjectShares && candidateShares) {
+    // 1 minus the total variation distance between the two bedroom distributions
+    credits.unitMix = 1 - subjectShares.reduce((sum, share, i) => sum + Math.abs(share - candidateShares[i]), 0) / 2;
+  }
+
+  if (subject.builtYear && candidate.builtYear) {
+    credits.vintage = linearCredit(Math.abs(subject.builtYear - candidate.builtYear), 0, VINTAGE_ZERO_CREDIT_YEARS);
+  }
+
+  const sizeCredit = average([
+    relativeSizeCredit(subject.avgSquareFootage, candidate.avgSquareFootage),
+    relativeSizeCredit(subject.totalUnits, candidate.totalUnits)
+  ].filter((credit): credit is number => credit !== null));
+  if (sizeCredit !== null) credits.size = sizeCredit;
+
+  const subjectAmenities = normalizeAmenityKeys(subject.amenities);
+  const candidateAmenities = normalizeAmenityKeys(candidate.amenities);
+  if (subjectAmenities.length > 0 && candidateAmenities.length > 0) {
+    const weights = resolveAmenityWeights();
+    const union = new Set([...subjectAmenities, ...candidateAmenities]);
+    const shared = subjectAmenities.filter(key => candidateAmenities.includes(key));
+    const unionWeight = Array.from(union).reduce((sum, key) => sum + weights[key], 0);
+    credits.amenities = unionWeight > 0 ? shared.reduce((sum, key) => sum + weights[key], 0) / unionWeight : 0;
+  }
+
+  let distance: number | null = null;
+  if (subject.coordinates && candidate.coordinates) {
+    distance = Math.round(Math.min(haversineMiles(subject.coordinates, candidate.coordinates), MAX_STORED_DISTANCE_MILES) * 100) / 100;
+    credits.distance = linearCredit(distance, DISTANCE_FULL_CREDIT_MILES, DISTANCE_ZERO_CREDIT_MILES);
+  }
+
+  const similarity: CandidateSimilarity = {};
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [factor, credit] of Object.entries(credits) as Array<[CandidateSimilarityFactor, number]>) {
+    similarity[factor] = Math.round(credit * 100);
+    weighted += SIMILARITY_WEIGHTS[factor] * credit;
+    totalWeight += SIMILARITY_WEIGHTS[factor];
+  }
+
+  return {
+    matchScore: totalWeight > 0 ? Math.round((weighted / totalWeight) * 10000) / 100 : 0,
+    similarity,
+    distance
+  };
+}
+
+/**
+ * apartments.com search results for the subject's city, or null without a city and state
+ */
+export function getDefaultSearchUrl(subject: Pick<PropertyProfile, 'city' | 'state'>): string | null {
+  if (!subject.city || !subject.state) return null;
+  const slug = `${subject.city} ${subject.state}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `https://www.apartments.com/${slug}/`;
+}
+
+/**
+ * The subject's side of the comparison, from its profile and unit records
+ */
+async function getSubjectSimilarityInput(subject: PropertyProfile): Promise<SimilarityInput> {
+  let units: Array<{ bedrooms: number | null; squareFootage: number | null }> = await storage.getPropertyUnitsByProfile(subject.id);
+  if (units.length === 0) {
+    // No unit records - use the units from the subject's latest completed scrape
+    const latestJob = (await storage.getScrapingJobsByProfile(subject.id)).find(job => job.status === 'completed');
+    if (latestJob) {
+      for (const scrapedProperty of await storage.getScrapedPropertiesByJob(latestJob.id)) {
+        units = units.concat(await storage.getScrapedUnitsByProperty(scrapedProperty.id));
+      }
+    }
+  }
+
+  const profileUnitMix = subject.unitMix as UnitMix | null;
+  const avgSquareFootage = average(units.map(unit => unit.squareFootage).filter((size): size is number => !!size && size > 0));
+  return {
+    unitMix: unitMixShares(profileUnitMix) ? profileUnitMix : unitMixFromBedrooms(units.map(unit => unit.bedrooms)),
+    builtYear: subject.builtYear,
+    totalUnits: subject.totalUnits || (units.length > 0 ? units.length : null),
+    avgSquareFootage: avgSquareFootage !== null ? Math.round(avgSquareFootage) : null,
+    amenities: subject.amenities,
+    coordinates: getProfileCoordinates(subject)
+  };
+}
+
+function getScrapedSimilarityInput(scraped: PropertyScrapeResult | null, coordinates: GeocodeResult | null): SimilarityInput {
+  const units = scraped?.units ?? [];
+  const avgSquareFootage = average(units.map(unit => unit.squareFootage).filter((size): size is number => !!size && size > 0));
+  return {
+    unitMix: unitMixShares(scraped?.property.unitMix ?? null) ? scraped!.property.unitMix : unitMixFromBedrooms(units.map(unit => unit.bedrooms)),
+    builtYear: scraped?.property.builtYear ?? null,
+    totalUnits: scraped?.property.totalUnits ?? null,
+    avgSquareFootage: avgSquareFootage !== null ? Math.round(avgSquareFootage) : null,
+    amenities: scraped?.property.amenities ?? [],
+    coordinates
+  };
+}
+
+/**
+ * Scraping job handler for the COMPETITOR_DISCOVERY_STAGE: read the job's
+ * search results page (cityUrl) and score each listing against the job's subject
+ */
+export async function runCompetitorDiscovery(job: ScrapingJob): Promise<ScrapingJobOutcome> {
+  const subject = job.propertyProfileId ? await storage.getPropertyProfile(job.propertyProfileId) : undefined;
+  if (!subject) {
+    return { status: 'failed', errorMessage: 'Subject property profile not found' };
+  }
+
+  const scraper = getPropertyScraper();
+  const searchResults = await scraper.scrapeSearchResults(job.cityUrl);
+  if (searchResults.listings.length === 0) {
+    return { status: 'failed', errorMessage: `No property listings found on ${job.cityUrl}` };
+  }
+
+  // Skip the subject itself, properties the owner already tracks and candidates already reviewed
+  const organizationIds = subject.organizationId ? [subject.organizationId] : [];
+  const ownedUrls = new Set(subject.userId
+    ? (await storage.getPropertyProfilesByUser(subject.userId, organizationIds)).map(profile => profile.url)
+    : [subject.url]);
+  const reviewedUrls = new Set((await storage.getCompetitorCandidatesBySubject(subject.id))
+    .filter(candidate => candidate.status !== 'pending')
+    .map(candidate => candidate.url));
+  const listings = searchResults.listings
+    .filter(listing => listing.url !== subject.url && !ownedUrls.has(listing.url) && !reviewedUrls.has(listing.url))
+    .slice(0, MAX_DISCOVERY_LISTINGS);
+
+  console.log(`[COMPETITOR_DISCOVERY] ${searchResults.listings.length} listings on ${job.cityUrl} via ${searchResults.parser}; scoring ${listings.length} for subject ${subject.id}`);
+
+  const subjectInput = await getSubjectSimilarityInput(await geocodePropertyProfile(subject));
+  const failedUrls: string[] = [];
+  let scored = 0;
+
+  for (const listing of listings) {
+    let scraped: PropertyScrapeResult | null = null;
+    try {
+      scraped = await scraper.scrapeProperty(listing.url);
+    } catch (error) {
+      // The search listing alone still places the candidate and scores its distance
+      console.warn(`[COMPETITOR_DISCOVERY] Failed to scrape ${listing.url}:`, error instanceof Error ? error.message : error);
+      failedUrls.push(listing.url);
+    }
+
+    const name = listing.name || (scraped && scraped.property.name !== 'Unknown Property' ? scraped.property.name : null);
+    const address = listing.address || (scraped && scraped.property.address !== 'Unknown Address' ? scraped.property.address : null);
+    if (!name || !address) {
+      console.warn(`[COMPETITOR_DISCOVERY] Skipping ${listing.url}: no name or address`);
+      continue;
+    }
+
+    const coordinates = await getGeocoder().geocode(address).catch(error => {
+      console.error(`[COMPETITOR_DISCOVERY] Error geocoding ${address}:`, error);
+      return null;
+    });
+    const candidateInput = getScrapedSimilarityInput(scraped, coordinates);
+    const { matchScore, similarity, distance } = scoreCandidateSimilarity(subjectInput, candidateInput);
+    const avgRent = average((scraped?.units ?? []).map(unit => unit.rent).filter((rent): rent is number => typeof rent === 'number' && rent > 0));
+
+    await storage.upsertCompetitorCandidate({
+      subjectProfileId: subject.id,
+      url: listing.url,
+      name,
+      address,
+      builtYear: candidateInput.builtYear,
+      totalUnits: candidateInput.totalUnits,
+      unitMix: candidateInput.unitMix,
+      amenities: scraped?.property.amenities ?? [],
+      avgSquareFootage: candidateInput.avgSquareFootage,
+      avgRent: avgRent !== null ? avgRent.toFixed(2) : null,
+      latitude: coordinates ? coordinates.latitude.toFixed(6) : null,
+      longitude: coordinates ? coordinates.longitude.toFixed(6) : null,
+      distance: distance !== null ? distance.toFixed(2) : null,
+      matchScore: matchScore.toFixed(2),
+      similarity,
+      status: 'pending'
+    });
+    scored++;
+  }
+
+  console.log(`[COMPETITOR_DISCOVERY] Job ${job.id} scored ${scored} candidates (${failedUrls.length} listing scrapes failed)`);
+
+  return {
+    status: 'completed',
+    results: {
+      searchUrl: job.cityUrl,
+      parser: searchResults.parser,
+      listingsFound: searchResults.listings.length,
+      candidatesScored: scored,
+      failedUrls
+    }
+  };
+}
+
+/**
+ * Accept a candidate as a competitor of its subject. Links the user's existing
+ * profile for the listing URL when there is one, otherwise creates a competitor profile.
+ */
+export async function acceptCompetitorCandidate(candidate: CompetitorCandidate, subject: PropertyProfile, userId: string, organizationIds: string[]): Promise<{ candidate: CompetitorCandidate; profile: PropertyProfile }> {
+  try {
+    let profile = (await storage.getPropertyProfilesByUser(userId, organizationIds)).find(existing => existing.url === candidate.url);
+    if (!profile) {
+      profile = await storage.createPropertyProfile({
+        userId,
+        organizationId: subject.organizationId,
+        name: candidate.name,
+        address: candidate.address,
+        url: candidate.url,
+        profileType: 'competitor',
+        builtYear: candidate.builtYear,
+        totalUnits: candidate.totalUnits,
+        amenities: candidate.amenities ?? [],
+        unitMix: candidate.unitMix,
+        distance: candidate.distance,
+        matchScore: candidate.matchScore
+      });
+
+      // Reuse the discovery geocode rather than looking the address up again
+      if (candidate.latitude && candidate.longitude) {
+        profile = await storage.updatePropertyProfile(profile.id, {
+          latitude: candidate.latitude,
+          longitude: candidate.longitude,
+          geocodedAddress: getGeocodingAddress(profile)
+        }) ?? profile;
+      }
+      console.log(`[COMPETITOR_DISCOVERY] Created competitor profile ${profile.id} from candidate ${candidate.id}`);
+    }
+
+    const updated = await storage.updateCompetitorCandidate(candidate.id, {
+      status: 'accepted',
+      competitorProfileId: profile.id,
+      reviewedAt: new Date()
+    });
+    return { candidate: updated ?? candidate, profile };
+  } catch (error) {
+    console.error('[COMPETITOR_DISCOVERY] Error accepting candidate:', error);
+    throw new Error(`Failed to accept competitor candidate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
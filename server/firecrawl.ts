@@ -1,4 +1,5 @@
 import FirecrawlApp from '@mendable/firecrawl-js';
+import { parseUnitAttributes, type UnitAttributes } from './unit-attributes';
 
 if (!process.env.FIRECRAWL_API_KEY) {
   console.warn('[FIRECRAWL] Warning: FIRECRAWL_API_KEY environment variable not set');
@@ -10,19 +11,23 @@ const firecrawl = new FirecrawlApp({
 
 /**
  * Scrape a single property URL using Firecrawl
- * Returns structured property data including units
+ * Returns the raw page HTML (for site parsers) and markdown, without LLM extraction
  */
-export async function scrapePropertyUrl(url: string) {
+export async function scrapePropertyUrl(url: string): Promise<{ rawHtml: string; markdown: string }> {
   console.log(`[FIRECRAWL] Scraping single URL: ${url}`);
 
   try {
     const result = await firecrawl.scrapeUrl(url, {
-      formats: ['markdown'],
+      formats: ['rawHtml', 'markdown'],
       waitFor: 5000, // Wait for dynamic content (floor plans, unit listings) to load
     });
 
-    console.log(`[FIRECRAWL] Successfully scraped URL: ${url} (${result?.markdown?.length || 0} chars)`);
-    return result;
+    if (!result.success) {
+      throw new Error(`Firecrawl scrape failed: ${result.error || 'Unknown error'}`);
+    }
+
+    console.log(`[FIRECRAWL] Successfully scraped URL: ${url} (${result.rawHtml?.length || 0} chars HTML, ${result.markdown?.length || 0} chars markdown)`);
+    return { rawHtml: result.rawHtml || '', markdown: result.markdown || '' };
   } catch (error) {
     console.error(`[FIRECRAWL] Error scraping URL ${url}:`, error);
     throw error;
@@ -44,7 +49,7 @@ export async function extractPropertyData(url: string): Promise<{ extract: any;
       formats: ['extract', 'markdown'],
       waitFor: 5000, // Wait for dynamic JS content (unit listings) to load
       extract: {
-        prompt: 'Extract all property information and every individual available or listed apartment unit. On sites like apartments.com, units are listed under floor plan sections - extract each individual unit row with its specific unit number, rent price, sq ft, and availability. If units are grouped by floor plan, extract each unit separately. For each unit, extract the unit number/identifier, floor plan name, unit type (Studio, 1 Bedroom, 2 Bedroom, etc.), bedroom count, bathroom count, square footage, monthly rent price, and availability date. Also extract the total unit mix showing how many units of each bedroom type exist in the entire property. Be thorough - extract every single unit listing shown on the page, even if they are in expandable or tabbed sections.',
+        prompt: 'Extract all property information and every individual available or listed apartment unit. On sites like apartments.com, units are listed under floor plan sections - extract each individual unit row with its specific unit number, rent price, sq ft, and availability. If units are grouped by floor plan, extract each unit separately. For each unit, extract the unit number/identifier, floor plan name, unit type (Studio, 1 Bedroom, 2 Bedroom, etc.), bedroom count, bathroom count, square footage, monthly rent price, and availability date, plus the floor, renovation level, view, unit features and offered lease terms when the listing states them. Also extract the total unit mix showing how many units of each bedroom type exist in the entire property. Be thorough - extract every single unit listing shown on the page, even if they are in expandable or tabbed sections.',
         schema: {
           type: 'object',
           properties: {
@@ -82,7 +87,16 @@ export async function extractPropertyData(url: string): Promise<{ extract: any;
                   squareFootage: { type: 'number', description: 'Unit size in square feet' },
                   rent: { type: 'number', description: 'Monthly rent price in dollars (numbers only, no $ sign)' },
                   availabilityDate: { type: 'string', description: 'Move-in or availability date' },
-                  status: { type: 'string', description: 'Availability status (available, occupied, etc.)' }
+                  status: { type: 'string', description: 'Availability status (available, occupied, etc.)' },
+                  floor: { type: 'number', description: 'Floor the unit is on, if stated' },
+                  renovationStatus: { type: 'string', description: 'Renovation or finish level if stated (e.g. newly renovated, updated, classic)' },
+                  view: { type: 'string', description: 'View from the unit if stated (e.g. city, water, courtyard)' },
+                  features: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Features specific to this unit (e.g. balcony, in-unit washer/dryer, fireplace)'
+                  },
+                  leaseTerms: { type: 'string', description: 'Lease terms offered for this unit (e.g. 6-15 months, month-to-month)' }
                 },
               },
             },
@@ -208,7 +222,7 @@ export function parseFirecrawlData(result: any): {
     squareFootage: number | null;
     rent: number | null;
     availabilityDate: string | null;
-  }>;
+  } & UnitAttributes>;
 } {
   // If using structured extraction, data will be in result.extract
   const data = result.extract || result;
@@ -244,6 +258,7 @@ export function parseFirecrawlData(result: any): {
         squareFootage: unit.squareFootage || null,
         rent: unit.rent || null,
         availabilityDate: unit.availabilityDate || null,
+        ...parseUnitAttributes(unit),
       }))
     : [];
 
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { useMemoryStorage } from "./test-helpers";
+import { geocodePropertyProfile, getGeocoder } from "./geocoding";
+import type { MemStorageLegacy } from "./storage";
+
+describe("geocodePropertyProfile", () => {
+  let memory: MemStorageLegacy;
+
+  beforeEach(() => {
+    memory = useMemoryStorage();
+    mock.method(console, "warn", () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function createProfile(address: string) {
+    return memory.createPropertyProfile({
+      name: "Cedar Flats",
+      address,
+      city: "Omaha",
+      state: "NE",
+      url: "https://www.cedarflats.com/",
+      profileType: "competitor"
+    });
+  }
+
+  it("stores coordinates and the address they were resolved from", async () => {
+    const profile = await geocodePropertyProfile(await createProfile("410 Cedar St"));
+
+    assert.equal(profile.geocodedAddress, "410 Cedar St, Omaha, NE");
+    assert.ok(profile.latitude);
+    assert.ok(profile.longitude);
+  });
+
+  it("records an address with no match so it isn't looked up again", async () => {
+    const geocode = mock.method(getGeocoder(), "geocode", async () => null);
+    const profile = await createProfile("Nowhere Rd");
+
+    const first = await geocodePropertyProfile(profile);
+    const second = await geocodePropertyProfile(first);
+
+    assert.equal(geocode.mock.callCount(), 1);
+    assert.equal(second.geocodedAddress, "Nowhere Rd, Omaha, NE");
+    assert.equal(second.latitude, null);
+  });
+
+  it("retries after a failed request", async () => {
+    mock.method(console, "error", () => undefined);
+    const geocode = mock.method(getGeocoder(), "geocode", async () => {
+      throw new Error("Geocoding failed: 503 Service Unavailable");
+    });
+    const profile = await createProfile("410 Cedar St");
+
+    const first = await geocodePropertyProfile(profile);
+    await geocodePropertyProfile(first);
+
+    assert.equal(geocode.mock.callCount(), 2);
+    assert.equal(first.geocodedAddress ?? null, null);
+  });
+});
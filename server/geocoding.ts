@@ -0,0 +1,236 @@
+import { storage } from "./storage";
+import type { PropertyProfile } from "@shared/schema";
+
+/**
+ * Geocoding and subject-to-competitor distances.
+ *
+ * Property profile addresses are geocoded to latitude/longitude once and again
+ * whenever the address changes. Addresses the geocoder can't place are recorded
+ * too (geocodedAddress without coordinates), so they aren't looked up again. Each competitor's `distance` is then the
+ * straight-line miles to the nearest subject property in the same session.
+ * The geocoder is chosen per environment with GEOCODER_PROVIDER:
+ *   - nominatim: OpenStreetMap Nominatim at GEOCODER_URL (default)
+ *   - offline:   deterministic stand-in with no network access, for tests and
+ *                local development. Addresses in the same city land within a
+ *                few miles of each other; the coordinates are not real
+ */
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geocoder {
+  readonly name: GeocoderProviderName;
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+export type GeocoderProviderName = 'nominatim' | 'offline';
+
+export interface SessionDistanceResult {
+  profiles: PropertyProfile[];
+  geocoded: number; // profiles whose coordinates were (re)resolved
+  distancesUpdated: number;
+  unresolved: string[]; // profile IDs whose address could not be geocoded
+}
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+const NOMINATIM_TIMEOUT_MS = 10000;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Largest value the distance columns hold
+export const MAX_STORED_DISTANCE_MILES = 999.99;
+
+/**
+ * Great-circle distance in miles
+ */
+export function haversineMiles(from: GeocodeResult, to: GeocodeResult): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+class NominatimGeocoder implements Geocoder {
+  readonly name = 'nominatim' as const;
+  private lastRequestAt = 0;
+  private slots: Promise<void> = Promise.resolve();
+
+  /**
+   * Wait for the next free request slot. Slots are handed out through a promise
+   * chain, so concurrent lookups can't both find the limiter idle.
+   */
+  private waitForSlot(): Promise<void> {
+    this.slots = this.slots.then(async () => {
+      const wait = this.lastRequestAt + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      this.lastRequestAt = Date.now();
+    });
+    return this.slots;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    await this.waitForSlot();
+
+    const baseUrl = (process.env.GEOCODER_URL || DEFAULT_NOMINATIM_URL).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/search?format=jsonv2&limit=1&q=${encodeURIComponent(address)}`, {
+      headers: {
+        'User-Agent': process.env.GEOCODER_USER_AGENT || 'PropertyOptimizationBot/1.0',
+        'Accept': 'application/json'
+      },
+      signal: AbortSignal.timeout(NOMINATIM_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed for "${address}": ${response.status} ${response.statusText}`);
+    }
+
+    const [match] = await response.json() as Array<{ lat: string; lon: string }>;
+    if (!match) return null;
+    return { latitude: parseFloat(match.lat), longitude: parseFloat(match.lon) };
+  }
+}
+
+function hashToUnit(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return (hash >>> 0) / 0xffffffff;
+}
+
+/**
+ * Places the city (the text after the first comma) somewhere in the continental
+ * US and the street address within about five miles of it
+ */
+class OfflineGeocoder implements Geocoder {
+  readonly name = 'offline' as const;
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const normalized = address.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!normalized) return null;
+    const [street, ...rest] = normalized.split(',').map(part => part.trim());
+    const city = rest.join(',') || street;
+
+    const latitude = 30 + hashToUnit(city, 2166136261) * 15 + (hashToUnit(street, 374761393) - 0.5) * 0.14;
+    const longitude = -120 + hashToUnit(city, 668265263) * 45 + (hashToUnit(street, 2246822519) - 0.5) * 0.18;
+    return { latitude: Math.round(latitude * 1e6) / 1e6, longitude: Math.round(longitude * 1e6) / 1e6 };
+  }
+}
+
+const geocoderFactories: Record<GeocoderProviderName, () => Geocoder> = {
+  nominatim: () => new NominatimGeocoder(),
+  offline: () => new OfflineGeocoder()
+};
+
+let activeGeocoder: Geocoder | null = null;
+
+/**
+ * Provider for this environment. Tests default to the offline stand-in; everything else to Nominatim.
+ */
+export function getGeocoder(): Geocoder {
+  if (!activeGeocoder) {
+    const configured = (process.env.GEOCODER_PROVIDER || (process.env.NODE_ENV === 'test' ? 'offline' : 'nominatim')).toLowerCase();
+    const factory = geocoderFactories[configured as GeocoderProviderName];
+    if (!factory) {
+      throw new Error(`Unknown GEOCODER_PROVIDER "${configured}" (expected ${Object.keys(geocoderFactories).join(', ')})`);
+    }
+    activeGeocoder = factory();
+    console.log(`[GEOCODING] Using ${activeGeocoder.name} geocoder`);
+  }
+  return activeGeocoder;
+}
+
+/**
+ * The address as sent to the geocoder, with city and state when the address lacks them
+ */
+export function getGeocodingAddress(profile: Pick<PropertyProfile, 'address' | 'city' | 'state'>): string {
+  const parts = [profile.address.trim()];
+  const addressLower = profile.address.toLowerCase();
+  if (profile.city && !addressLower.includes(profile.city.toLowerCase())) parts.push(profile.city);
+  if (profile.state && !addressLower.includes(profile.state.toLowerCase())) parts.push(profile.state);
+  return parts.filter(Boolean).join(', ');
+}
+
+export function getProfileCoordinates(profile: Pick<PropertyProfile, 'latitude' | 'longitude'>): GeocodeResult | null {
+  if (profile.latitude === null || profile.longitude === null) return null;
+  const latitude = parseFloat(profile.latitude);
+  const longitude = parseFloat(profile.longitude);
+  return isNaN(latitude) || isNaN(longitude) ? null : { latitude, longitude };
+}
+
+/**
+ * Geocode the profile's address unless it was already looked up. Returns the
+ * profile as stored afterwards. An address with no match is stored without
+ * coordinates; a failed request leaves the profile unchanged to be retried.
+ */
+export async function geocodePropertyProfile(profile: PropertyProfile): Promise<PropertyProfile> {
+  const address = getGeocodingAddress(profile);
+  if (!address || profile.geocodedAddress === address) {
+    return profile;
+  }
+
+  try {
+    const result = await getGeocoder().geocode(address);
+    if (!result) {
+      console.warn(`[GEOCODING] No match for "${address}" (profile ${profile.id})`);
+    }
+    const updated = await storage.updatePropertyProfile(profile.id, {
+      latitude: result ? result.latitude.toFixed(6) : null,
+      longitude: result ? result.longitude.toFixed(6) : null,
+      geocodedAddress: address
+    });
+    return updated ?? profile;
+  } catch (error) {
+    console.error(`[GEOCODING] Error geocoding profile ${profile.id}:`, error);
+    return profile;
+  }
+}
+
+/**
+ * Geocode the session's properties and set each competitor's distance to the
+ * nearest subject property. Distances are left alone when the session has no
+ * geocoded subject, so scraped distances survive until one is available.
+ */
+export async function updateSessionDistances(sessionId: string): Promise<SessionDistanceResult> {
+  try {
+    const result: SessionDistanceResult = { profiles: [], geocoded: 0, distancesUpdated: 0, unresolved: [] };
+    for (const profile of await storage.getPropertyProfilesInSession(sessionId)) {
+      const geocodedProfile = await geocodePropertyProfile(profile);
+      const coordinates = getProfileCoordinates(geocodedProfile);
+      if (geocodedProfile !== profile && coordinates) result.geocoded++;
+      if (!coordinates) result.unresolved.push(profile.id);
+      result.profiles.push(geocodedProfile);
+    }
+
+    const subjectCoordinates = result.profiles
+      .filter(profile => profile.profileType === 'subject')
+      .map(profile => getProfileCoordinates(profile))
+      .filter((coordinates): coordinates is GeocodeResult => coordinates !== null);
+    if (subjectCoordinates.length === 0) return result;
+
+    for (let i = 0; i < result.profiles.length; i++) {
+      const profile = result.profiles[i];
+      const coordinates = getProfileCoordinates(profile);
+      if (profile.profileType !== 'competitor' || !coordinates) continue;
+
+      const miles = Math.min(...subjectCoordinates.map(subject => haversineMiles(subject, coordinates)));
+      const distance = Math.min(miles, MAX_STORED_DISTANCE_MILES).toFixed(2);
+      if (profile.distance !== null && parseFloat(profile.distance).toFixed(2) === distance) continue;
+
+      result.profiles[i] = await storage.updatePropertyProfile(profile.id, { distance }) ?? profile;
+      result.distancesUpdated++;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[GEOCODING] Error updating session distances:', error);
+    throw new Error(`Failed to update session distances: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,266 @@
+import { storage } from "./storage";
+import { roundToFive } from "@shared/utils";
+import { dayAfter, getCurrentLease } from "./leases";
+import { buildUnitHierarchy } from "./unit-hierarchy";
+import type {
+  Lease,
+  LeaseExpirationGroup,
+  LeaseExpirationMonth,
+  LeaseExpirationProfile,
+  LeaseTermOption,
+  LeaseTermRecommendation,
+  PropertyProfile,
+  PropertyUnit
+} from "@shared/schema";
+
+/**
+ * Lease expiration management.
+ *
+ * A property's expiration profile counts current leases by the month they end
+ * over the next twelve months and compares it with a target distribution, so
+ * months where too many leases roll at once stand out. Leases ending beyond
+ * the horizon count toward the same calendar month, since they roll on the
+ * same cycle. For units whose lease ends within the horizon, lease-term
+ * offers are chosen to move expirations out of crowded months, with shorter
+ * terms and terms ending in crowded months priced at a premium.
+ */
+
+// Lease terms offered to smooth expirations, in months
+export const LEASE_TERM_OPTIONS = [6, 9, 10, 11, 12, 13, 14, 15];
+export const STANDARD_LEASE_TERM_MONTHS = 12;
+
+// Premium per month a term falls short of the standard term
+export const SHORT_TERM_PREMIUM_PER_MONTH = 1;
+// Premium for a term ending in a month already over its target
+export const OVER_TARGET_PREMIUM = 2;
+
+const MONTHS_IN_YEAR = 12;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const EVEN_EXPIRATION_TARGETS: number[] = Array(MONTHS_IN_YEAR).fill(100 / MONTHS_IN_YEAR);
+
+type UnitWithLease = PropertyUnit & { lease: Lease & { leaseEnd: string } };
+
+interface Horizon {
+  startYear: number;
+  startMonth: number; // 0-based calendar month of the first horizon month
+  startDate: string; // first day of the first horizon month, "YYYY-MM-DD"
+  today: string;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function getHorizon(today: Date): Horizon {
+  const startYear = today.getFullYear();
+  const startMonth = today.getMonth();
+  return {
+    startYear,
+    startMonth,
+    startDate: formatDate(new Date(Date.UTC(startYear, startMonth, 1))),
+    today: formatDate(new Date(Date.UTC(startYear, startMonth, today.getDate())))
+  };
+}
+
+function monthKey(horizon: Horizon, index: number): string {
+  const date = new Date(Date.UTC(horizon.startYear, horizon.startMonth + index, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// Position of a date's calendar month in the horizon (0 = current month)
+function horizonIndex(horizon: Horizon, date: string): number {
+  const calendarMonth = parseInt(date.slice(5, 7), 10) - 1;
+  return (calendarMonth - horizon.startMonth + MONTHS_IN_YEAR) % MONTHS_IN_YEAR;
+}
+
+function isWithinHorizon(horizon: Horizon, date: string): boolean {
+  const end = formatDate(new Date(Date.UTC(horizon.startYear, horizon.startMonth + MONTHS_IN_YEAR, 1)));
+  return date >= horizon.startDate && date < end;
+}
+
+function addMonths(date: string, months: number): string {
+  const start = parseDate(date);
+  // Leases run to the day before the same date N months later
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, start.getUTCDate() - 1));
+  return formatDate(end);
+}
+
+function monthLabel(key: string): string {
+  return `${MONTH_NAMES[parseInt(key.slice(5, 7), 10) - 1]} ${key.slice(0, 4)}`;
+}
+
+// Expirations may drift from target by 10% (at least one lease) before a month is flagged
+function toleranceFor(target: number): number {
+  return Math.max(1, target * 0.1);
+}
+
+function getMonthStatus(expiring: number, target: number): LeaseExpirationMonth['status'] {
+  const variance = expiring - target;
+  if (variance > toleranceFor(target)) return 'over';
+  if (variance < -toleranceFor(target)) return 'under';
+  return 'on_target';
+}
+
+/**
+ * Offer terms for one unit: the term whose expiration month is furthest below
+ * target wins, preferring terms closer to the standard term on ties.
+ */
+function recommendLeaseTerm(
+  unit: UnitWithLease,
+  horizon: Horizon,
+  projected: number[],
+  targetCounts: number[]
+): LeaseTermRecommendation | null {
+  const baseRent = parseFloat(unit.lease.effectiveRent ?? unit.currentRent);
+  if (!baseRent || baseRent <= 0) return null;
+
+  // Holdover leases start their next term today
+  const nextStart = unit.lease.leaseEnd < horizon.today ? horizon.today : dayAfter(unit.lease.leaseEnd);
+
+  const candidates = LEASE_TERM_OPTIONS.map(termMonths => {
+    const newEnd = addMonths(nextStart, termMonths);
+    const index = horizonIndex(horizon, newEnd);
+    const crowding = projected[index] - targetCounts[index];
+    const premiumPercent = Math.max(0, STANDARD_LEASE_TERM_MONTHS - termMonths) * SHORT_TERM_PREMIUM_PER_MONTH
+      + (crowding >= toleranceFor(targetCounts[index]) ? OVER_TARGET_PREMIUM : 0);
+    const option: LeaseTermOption = {
+      termMonths,
+      expirationMonth: newEnd.slice(0, 7),
+      premiumPercent,
+      rent: roundToFive(baseRent * (1 + premiumPercent / 100))
+    };
+    return { option, index, crowding };
+  });
+
+  const best = candidates.reduce((current, candidate) => {
+    if (candidate.crowding !== current.crowding) {
+      return candidate.crowding < current.crowding ? candidate : current;
+    }
+    const candidateDistance = Math.abs(candidate.option.termMonths - STANDARD_LEASE_TERM_MONTHS);
+    const currentDistance = Math.abs(current.option.termMonths - STANDARD_LEASE_TERM_MONTHS);
+    return candidateDistance < currentDistance ? candidate : current;
+  });
+  projected[best.index]++;
+
+  const standard = candidates.find(c => c.option.termMonths === STANDARD_LEASE_TERM_MONTHS)!;
+  const reasoning = best === standard
+    ? `A ${STANDARD_LEASE_TERM_MONTHS}-month term keeps ${monthLabel(standard.option.expirationMonth)} within target`
+    : `A ${STANDARD_LEASE_TERM_MONTHS}-month term would end in ${monthLabel(standard.option.expirationMonth)} (${Math.round(standard.crowding)} over target); ${best.option.termMonths} months moves it to ${monthLabel(best.option.expirationMonth)}`;
+
+  return {
+    unitId: unit.id,
+    unitNumber: unit.unitNumber,
+    bedrooms: unit.bedrooms,
+    tag: unit.tag,
+    leaseEnd: unit.lease.leaseEnd,
+    currentExpirationMonth: unit.lease.leaseEnd.slice(0, 7),
+    baseRent,
+    recommendedTermMonths: best.option.termMonths,
+    recommendedExpirationMonth: best.option.expirationMonth,
+    options: candidates.map(c => c.option),
+    reasoning
+  };
+}
+
+/**
+ * Expiration profile for a property's occupied units, with lease-term offers
+ * for the leases ending within the next twelve months
+ */
+export async function getLeaseExpirationProfile(profile: PropertyProfile, today: Date = new Date()): Promise<LeaseExpirationProfile> {
+  try {
+    const [units, leases] = await Promise.all([
+      storage.getPropertyUnitsByProfile(profile.id),
+      storage.getLeasesByProfile(profile.id)
+    ]);
+    const horizon = getHorizon(today);
+    const targets = profile.leaseExpirationTargets ?? EVEN_EXPIRATION_TARGETS;
+
+    const leasesByUnit = new Map<string, Lease[]>();
+    for (const lease of leases) {
+      const unitLeases = leasesByUnit.get(lease.propertyUnitId) ?? [];
+      unitLeases.push(lease);
+      leasesByUnit.set(lease.propertyUnitId, unitLeases);
+    }
+
+    const occupiedUnits = units.filter(unit => unit.status !== 'vacant');
+    const unitsWithLeases: UnitWithLease[] = [];
+    for (const unit of occupiedUnits) {
+      const lease = getCurrentLease(leasesByUnit.get(unit.id) ?? []);
+      if (lease?.leaseEnd) {
+        unitsWithLeases.push({ ...unit, lease: { ...lease, leaseEnd: lease.leaseEnd } });
+      }
+    }
+
+    const holdoverUnits = unitsWithLeases.filter(unit => unit.lease.leaseEnd < horizon.startDate);
+    const scheduledUnits = unitsWithLeases.filter(unit => unit.lease.leaseEnd >= horizon.startDate);
+
+    const expiring = Array(MONTHS_IN_YEAR).fill(0);
+    for (const unit of scheduledUnits) {
+      expiring[horizonIndex(horizon, unit.lease.leaseEnd)]++;
+    }
+
+    // Targets are calendar-month shares; the horizon starts at the current month
+    const targetCounts = expiring.map((_, index) =>
+      scheduledUnits.length * targets[(horizon.startMonth + index) % MONTHS_IN_YEAR] / 100
+    );
+    const months: LeaseExpirationMonth[] = expiring.map((count, index) => ({
+      month: monthKey(horizon, index),
+      expiring: count,
+      target: Math.round(targetCounts[index] * 10) / 10,
+      variance: Math.round((count - targetCounts[index]) * 10) / 10,
+      status: getMonthStatus(count, targetCounts[index])
+    }));
+
+    const groups: LeaseExpirationGroup[] = [];
+    const { hierarchy } = buildUnitHierarchy(scheduledUnits);
+    for (const [bedrooms, tags] of Object.entries(hierarchy)) {
+      for (const [tag, groupUnits] of Object.entries(tags)) {
+        const expiringByMonth = Array(MONTHS_IN_YEAR).fill(0);
+        for (const unit of groupUnits) {
+          expiringByMonth[horizonIndex(horizon, unit.lease.leaseEnd)]++;
+        }
+        groups.push({ bedrooms, tag, units: groupUnits.length, expiringByMonth });
+      }
+    }
+
+    // Leases up for renewal (or re-leasing) soonest are placed first; each placement
+    // moves the unit's expiration out of its current month in the projection
+    const projected = [...expiring];
+    const upcoming = [
+      ...holdoverUnits,
+      ...scheduledUnits.filter(unit => isWithinHorizon(horizon, unit.lease.leaseEnd))
+    ]
+      .filter(unit => unit.lease.renewalStatus !== 'renewed')
+      .sort((a, b) => a.lease.leaseEnd.localeCompare(b.lease.leaseEnd));
+
+    const termRecommendations: LeaseTermRecommendation[] = [];
+    for (const unit of upcoming) {
+      if (unit.lease.leaseEnd >= horizon.startDate) {
+        projected[horizonIndex(horizon, unit.lease.leaseEnd)]--;
+      }
+      const recommendation = recommendLeaseTerm(unit, horizon, projected, targetCounts);
+      if (recommendation) termRecommendations.push(recommendation);
+    }
+
+    return {
+      propertyProfileId: profile.id,
+      propertyName: profile.name,
+      targets,
+      occupiedUnits: occupiedUnits.length,
+      unitsWithLeases: unitsWithLeases.length,
+      holdover: holdoverUnits.length,
+      months,
+      groups,
+      termRecommendations
+    };
+  } catch (error) {
+    console.error('[LEASE_EXPIRATION] Error building expiration profile:', error);
+    throw new Error(`Failed to build lease expiration profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
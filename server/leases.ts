@@ -0,0 +1,234 @@
+import { storage } from "./storage";
+import {
+  insertLeaseSchema,
+  leaseRenewalStatuses,
+  type ExpiringLease,
+  type InsertLease,
+  type Lease,
+  type LeaseRenewalStatus,
+  type PropertyProfile,
+  type PropertyUnit
+} from "@shared/schema";
+
+/**
+ * Lease-level data for property units.
+ *
+ * A unit keeps every lease it has had; the one with the latest start date is
+ * its current lease. Leases are captured from Excel imports and the unit edit
+ * dialog, and current leases ending soon make up the expiring-leases view the
+ * optimizer uses to plan renewals.
+ */
+
+export const DEFAULT_EXPIRING_WITHIN_DAYS = 90;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+export type LeaseFields = Omit<InsertLease, 'propertyUnitId'>;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Normalize a spreadsheet cell (Date, Excel serial number or text) to "YYYY-MM-DD"
+ */
+export function toLeaseDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatDate(value);
+  }
+  if (typeof value === 'number') {
+    return value > 0 ? formatDate(new Date(EXCEL_EPOCH_MS + Math.round(value) * MS_PER_DAY)) : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  // US-style month/day/year
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + parseInt(us[3], 10) : parseInt(us[3], 10);
+    return formatDate(new Date(Date.UTC(year, parseInt(us[1], 10) - 1, parseInt(us[2], 10))));
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : formatDate(parsed);
+}
+
+export function toRenewalStatus(value: unknown): LeaseRenewalStatus | null {
+  const normalized = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized === 'mtm') return 'month_to_month';
+  return (leaseRenewalStatuses as readonly string[]).includes(normalized) ? normalized as LeaseRenewalStatus : null;
+}
+
+function toAmount(value: unknown): string | null {
+  const amount = parseFloat(String(value ?? '').replace(/[$,]/g, ''));
+  return isNaN(amount) ? null : amount.toString();
+}
+
+/**
+ * Map an Excel column onto lease fields. Returns false when the header isn't a
+ * lease column, so importers can check lease columns first - headers such as
+ * "Renewal Status" would otherwise be taken for the unit's status.
+ */
+export function applyLeaseColumn(header: string, value: unknown, lease: Partial<LeaseFields>): boolean {
+  const headerLower = header.toLowerCase().trim();
+
+  if (headerLower.includes('renewal')) {
+    if (headerLower.includes('status')) {
+      lease.renewalStatus = toRenewalStatus(value) ?? undefined;
+    } else if (headerLower.includes('offer')) {
+      lease.renewalOfferDate = toLeaseDate(value);
+    } else if (headerLower.includes('decision') || headerLower.includes('signed')) {
+      lease.renewalDecisionDate = toLeaseDate(value);
+    } else {
+      return false;
+    }
+    return true;
+  }
+  if (headerLower.includes('lease') && headerLower.includes('term')) {
+    lease.leaseTermMonths = parseInt(String(value), 10) || null;
+    return true;
+  }
+  if (headerLower.includes('lease') && (headerLower.includes('start') || headerLower.includes('begin'))) {
+    lease.leaseStart = toLeaseDate(value);
+    return true;
+  }
+  if ((headerLower.includes('lease') && (headerLower.includes('end') || headerLower.includes('expir'))) || headerLower === 'expiration') {
+    lease.leaseEnd = toLeaseDate(value);
+    return true;
+  }
+  if (headerLower.includes('move') && headerLower.includes('in')) {
+    lease.moveInDate = toLeaseDate(value);
+    return true;
+  }
+  if (headerLower.includes('effective') && headerLower.includes('rent')) {
+    lease.effectiveRent = toAmount(value);
+    return true;
+  }
+  if (headerLower.includes('concession')) {
+    if (headerLower.includes('desc') || headerLower.includes('note')) {
+      lease.concessionDescription = String(value).trim() || null;
+    } else {
+      lease.concessionAmount = toAmount(value);
+    }
+    return true;
+  }
+  return false;
+}
+
+export function hasLeaseData(lease: Partial<LeaseFields>): boolean {
+  return Object.values(lease).some(value => value !== null && value !== undefined && value !== '');
+}
+
+/**
+ * Create leases for freshly imported units, matched by unit number.
+ * Rows that don't validate are skipped so they can't fail the unit import.
+ */
+export async function saveImportedLeases(units: PropertyUnit[], leasesByUnitNumber: Map<string, Partial<LeaseFields>>): Promise<number> {
+  let saved = 0;
+  for (const unit of units) {
+    const leaseFields = leasesByUnitNumber.get(unit.unitNumber);
+    if (!leaseFields || !hasLeaseData(leaseFields)) continue;
+
+    const result = insertLeaseSchema.safeParse({ ...leaseFields, propertyUnitId: unit.id });
+    if (!result.success) {
+      console.warn(`[LEASES] Skipping imported lease for unit ${unit.unitNumber}: ${result.error.message}`);
+      continue;
+    }
+    await storage.createLease(result.data);
+    saved++;
+  }
+  return saved;
+}
+
+/**
+ * The lease with the latest start date (undated leases only when there's nothing else)
+ */
+export function getCurrentLease(leases: Lease[]): Lease | undefined {
+  let current: Lease | undefined;
+  for (const lease of leases) {
+    if (!current) {
+      current = lease;
+    } else if (lease.leaseStart && (!current.leaseStart || lease.leaseStart > current.leaseStart)) {
+      current = lease;
+    }
+  }
+  return current;
+}
+
+/**
+ * Update the unit's current lease, or start its first one
+ */
+export async function saveCurrentLease(propertyUnitId: string, fields: LeaseFields): Promise<Lease> {
+  const current = getCurrentLease(await storage.getLeasesByUnit(propertyUnitId));
+  if (current) {
+    const updated = await storage.updateLease(current.id, fields);
+    if (updated) return updated;
+  }
+  return storage.createLease({ ...fields, propertyUnitId });
+}
+
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return Math.round((Date.UTC(year, month - 1, day) - todayUtc) / MS_PER_DAY);
+}
+
+// The YYYY-MM-DD date following the given one
+export function dayAfter(date: string): string {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return formatDate(new Date(Date.UTC(year, month - 1, day) + MS_PER_DAY));
+}
+
+/**
+ * Current leases on occupied units ending within the window, soonest first.
+ * Leases that have already ended are included - those units are in holdover
+ * or about to turn - except where the renewal is already done.
+ */
+export async function getExpiringLeases(profiles: PropertyProfile[], withinDays: number, today: Date = new Date()): Promise<ExpiringLease[]> {
+  const expiring: ExpiringLease[] = [];
+
+  for (const profile of profiles) {
+    const [units, leases] = await Promise.all([
+      storage.getPropertyUnitsByProfile(profile.id),
+      storage.getLeasesByProfile(profile.id)
+    ]);
+
+    const leasesByUnit = new Map<string, Lease[]>();
+    for (const lease of leases) {
+      const unitLeases = leasesByUnit.get(lease.propertyUnitId) ?? [];
+      unitLeases.push(lease);
+      leasesByUnit.set(lease.propertyUnitId, unitLeases);
+    }
+
+    for (const unit of units) {
+      if (unit.status === 'vacant') continue;
+      const lease = getCurrentLease(leasesByUnit.get(unit.id) ?? []);
+      if (!lease?.leaseEnd || lease.renewalStatus === 'renewed') continue;
+
+      const daysUntilExpiration = daysUntil(lease.leaseEnd, today);
+      if (daysUntilExpiration > withinDays) continue;
+
+      expiring.push({
+        propertyProfileId: profile.id,
+        propertyName: profile.name,
+        unit: {
+          id: unit.id,
+          unitNumber: unit.unitNumber,
+          unitType: unit.unitType,
+          bedrooms: unit.bedrooms,
+          squareFootage: unit.squareFootage,
+          currentRent: unit.currentRent,
+          status: unit.status
+        },
+        lease,
+        daysUntilExpiration
+      });
+    }
+  }
+
+  return expiring.sort((a, b) => a.daysUntilExpiration - b.daysUntilExpiration);
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import { parseListingHtml } from "./listing-parsers";
+import { getFixtureSlug, getPropertyScraper } from "./property-scraper";
+
+// Saved apartments.com listing page in fixtures/scrapes
+const LISTING_URL = "https://www.apartments.com/the-flats-omaha-ne/abc123/";
+
+async function readListingFixture(): Promise<string> {
+  return fs.readFile(path.resolve("fixtures", "scrapes", `${getFixtureSlug(LISTING_URL)}.html`), "utf8");
+}
+
+describe("apartments.com listing parser", () => {
+  it("parses unit rows and floor plan summaries from a saved listing page", async () => {
+    const result = parseListingHtml(await readListingFixture(), LISTING_URL);
+
+    assert.ok(result);
+    assert.equal(result.parser, "apartments.com");
+    // Units repeated on the 1-bed tab are listed once
+    assert.deepEqual(result.data.units.map(unit => unit.unitNumber), ["135", "146", "412", "The Loft"]);
+
+    const [franc135, franc146, grand412, loft] = result.data.units;
+    assert.deepEqual(
+      { floorPlanName: franc135.floorPlanName, unitType: franc135.unitType, bedrooms: franc135.bedrooms, bathrooms: franc135.bathrooms, squareFootage: franc135.squareFootage, rent: franc135.rent, availabilityDate: franc135.availabilityDate },
+      { floorPlanName: "The Franc", unitType: "1 Bedroom", bedrooms: 1, bathrooms: 1, squareFootage: 515, rent: 910, availabilityDate: "Now" }
+    );
+    assert.equal(franc146.squareFootage, 593);
+    assert.equal(franc146.rent, 960);
+    assert.equal(franc146.availabilityDate, "Dec 1");
+
+    // "Call for Rent" leaves the rent unknown
+    assert.equal(grand412.rent, null);
+    assert.equal(grand412.bedrooms, 2);
+    assert.equal(grand412.squareFootage, 1050);
+
+    // Summary-only plans use the plan name as the unit identifier
+    assert.equal(loft.floorPlanName, "The Loft");
+    assert.equal(loft.unitType, "Studio");
+    assert.equal(loft.bedrooms, 0);
+    assert.equal(loft.rent, 795);
+    assert.equal(loft.squareFootage, 450);
+  });
+
+  it("reads property metadata from the header, amenities and JSON-LD", async () => {
+    const result = parseListingHtml(await readListingFixture(), LISTING_URL);
+
+    assert.ok(result);
+    assert.equal(result.data.property.name, "The Flats");
+    assert.match(result.data.property.address, /^2100 Harney St.*Omaha, NE 68102$/);
+    assert.deepEqual(result.data.property.amenities, ["Fitness Center", "Pool", "Controlled Access", "Pet Play Area"]);
+    assert.equal(result.data.property.builtYear, 2016);
+    assert.equal(result.data.property.totalUnits, 212);
+  });
+
+  it("scores confidence by the share of unit fields found", async () => {
+    const result = parseListingHtml(await readListingFixture(), LISTING_URL);
+
+    // 19 of 20 fields: unit 412 has no rent
+    assert.equal(result?.confidence, 0.95);
+  });
+
+  it("discounts confidence when the page only has floor plan summaries", () => {
+    const html = `
+      <div class="pricingGridItem">
+        <span class="modelName">The Loft</span>
+        <span class="rentLabel">$795</span>
+        <span class="detailsTextWrapper"><span>Studio</span><span>1 Bath</span><span>450 sq ft</span></span>
+      </div>`;
+
+    const result = parseListingHtml(html, LISTING_URL);
+
+    assert.equal(result?.data.units.length, 1);
+    assert.equal(result?.confidence, 0.7);
+  });
+
+  it("returns null for pages without apartments.com pricing markup or other sites", async () => {
+    assert.equal(parseListingHtml("<html><body><h1>Not a listing</h1></body></html>", LISTING_URL), null);
+    assert.equal(parseListingHtml(await readListingFixture(), "https://www.example.com/the-flats/"), null);
+  });
+
+  it("is used by the fixture scraper before any LLM extraction", async () => {
+    const result = await getPropertyScraper().scrapeProperty(LISTING_URL);
+
+    assert.equal(result.provider, "fixture");
+    assert.equal(result.parser, "apartments.com");
+    assert.equal(result.parserConfidence, 0.95);
+    assert.equal(result.units.length, 4);
+  });
+});
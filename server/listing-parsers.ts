@@ -0,0 +1,470 @@
+import { parseFirecrawlData } from "./firecrawl";
+import type { ParsedPropertyData, ParsedUnitData } from "./property-scraper";
+import { parseUnitAttributes } from "./unit-attributes";
+
+/**
+ * Deterministic, site-specific listing parsers.
+ *
+ * Each parser turns a listing page's HTML into the same shape parseFirecrawlData
+ * returns, without calling an LLM. Scrapers try these first and only fall back
+ * to LLM extraction when no parser matches the URL or a parser finds no units.
+ * Parsers report a 0-1 confidence based on how complete the parsed unit rows are.
+ */
+
+export interface ListingParser {
+  readonly name: string;
+  matches(url: string): boolean;
+  // Returns null when the page does not contain markup this parser understands
+  parse(html: string): ParsedPropertyData | null;
+}
+
+export interface ListingParseResult {
+  parser: string;
+  confidence: number;
+  data: ParsedPropertyData;
+}
+
+// Floor-plan summaries (no individual unit rows) are less trustworthy than unit rows
+const FLOOR_PLAN_SUMMARY_CONFIDENCE_FACTOR = 0.7;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&apos;': "'", '&nbsp;': ' '
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, entity => HTML_ENTITIES[entity] || entity)
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)));
+}
+
+/**
+ * Reduce an HTML page to line-oriented text for the markdown fallback
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|svg)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|section|article|header|footer)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  return decodeHtmlEntities(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+// Text content of an HTML fragment on a single line
+function innerText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Top-level nodes of every JSON-LD block on the page
+function getJsonLdNodes(html: string): any[] {
+  const nodes: any[] = [];
+  const jsonLdBlocks = Array.from(html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi));
+  for (const [, block] of jsonLdBlocks) {
+    try {
+      const parsed = JSON.parse(block.trim());
+      nodes.push(...(Array.isArray(parsed) ? parsed : (parsed['@graph'] || [parsed])));
+    } catch {
+      // Ignore malformed JSON-LD blocks
+    }
+  }
+  return nodes;
+}
+
+function formatJsonLdAddress(address: any): string {
+  return typeof address === 'string'
+    ? address
+    : [address.streetAddress, address.addressLocality, address.addressRegion, address.postalCode].filter(Boolean).join(', ');
+}
+
+/**
+ * Parse property metadata from a listing page's JSON-LD and title.
+ * Unit rows are left to site parsers or the markdown fallback.
+ */
+export function parsePropertyHtml(html: string): ParsedPropertyData {
+  const extract: Record<string, any> = {};
+
+  for (const node of getJsonLdNodes(html)) {
+    if (!extract.propertyName && node?.name) extract.propertyName = node.name;
+    if (!extract.address && node?.address) extract.address = formatJsonLdAddress(node.address);
+    if (!extract.amenities && Array.isArray(node?.amenityFeature)) {
+      extract.amenities = node.amenityFeature.map((feature: any) => feature?.name || feature).filter((name: any) => typeof name === 'string');
+    }
+    if (!extract.builtYear && node?.yearBuilt) extract.builtYear = parseInt(node.yearBuilt, 10) || undefined;
+    if (!extract.totalUnits && node?.numberOfAccommodationUnits) {
+      extract.totalUnits = parseInt(node.numberOfAccommodationUnits?.value ?? node.numberOfAccommodationUnits, 10) || undefined;
+    }
+  }
+
+  if (!extract.propertyName) {
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    if (title) extract.propertyName = decodeHtmlEntities(title.split('|')[0].trim());
+  }
+
+  return parseFirecrawlData({ extract });
+}
+
+/**
+ * Split HTML into the chunks that start at each match of an opening-tag pattern.
+ * Each chunk runs until the next match, which is enough to scope per-item lookups.
+ */
+function splitAtMarkers(html: string, marker: RegExp): string[] {
+  const starts = Array.from(html.matchAll(marker)).map(match => match.index!);
+  return starts.map((start, i) => html.slice(start, starts[i + 1] ?? html.length));
+}
+
+function getAttribute(tag: string, attribute: string): string | null {
+  const match = tag.match(new RegExp(`${attribute}=["']([^"']*)["']`, 'i'));
+  return match ? decodeHtmlEntities(match[1]).trim() : null;
+}
+
+/**
+ * Inner HTML of the first element whose class list contains className.
+ * Tracks nesting of the element's own tag so nested spans/divs don't end it early.
+ */
+function getInnerHtmlByClass(html: string, className: string): string | null {
+  const opening = html.match(new RegExp(`<(\\w+)[^>]*class=["'][^"']*\\b${className}\\b[^"']*["'][^>]*>`, 'i'));
+  if (!opening || opening.index === undefined) return null;
+
+  const tagName = opening[1];
+  const contentStart = opening.index + opening[0].length;
+  const tags = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+  tags.lastIndex = contentStart;
+
+  let depth = 1;
+  let tag: RegExpExecArray | null;
+  while ((tag = tags.exec(html)) !== null) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) return html.slice(contentStart, tag.index);
+  }
+  return html.slice(contentStart);
+}
+
+// Text of the first element whose class list contains className
+function getTextByClass(html: string, className: string): string | null {
+  const inner = getInnerHtmlByClass(html, className);
+  if (inner === null) return null;
+  const text = innerText(inner);
+  return text.length > 0 ? text : null;
+}
+
+// Text of a column cell, without apartments.com's screen-reader label ("price", "square feet", "availibility")
+function getColumnText(html: string, className: string): string | null {
+  const inner = getInnerHtmlByClass(html, className);
+  if (inner === null) return null;
+  const text = innerText(inner.replace(/<span[^>]*class=["'][^"']*screenReaderOnly[^"']*["'][^>]*>[\s\S]*?<\/span>/gi, ''));
+  return text.length > 0 ? text : null;
+}
+
+function parseMoney(text: string | null): number | null {
+  const match = text?.match(/\$\s*([\d,]+(?:\.\d+)?)/);
+  if (!match) return null;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return isNaN(value) || value <= 0 ? null : Math.round(value);
+}
+
+// First number in the text, so ranges like "515 - 593 sq ft" resolve to their low end
+function parseLeadingNumber(text: string | null): number | null {
+  const match = text?.match(/(\d[\d,]*(?:\.\d+)?)/);
+  if (!match) return null;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return isNaN(value) ? null : value;
+}
+
+function parseBedrooms(text: string | null): number | null {
+  if (!text) return null;
+  if (/studio/i.test(text)) return 0;
+  const match = text.match(/(\d+)\s*(?:bed|br\b|bd\b)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function parseBathrooms(text: string | null): number | null {
+  const match = text?.match(/(\d+(?:\.\d+)?)\s*(?:bath|ba\b)/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function formatUnitType(bedrooms: number | null): string {
+  if (bedrooms === null) return '';
+  return bedrooms === 0 ? 'Studio' : `${bedrooms} Bedroom`;
+}
+
+/**
+ * Share of the fields a pricing comparison needs that the parser actually found
+ */
+export function scoreParsedUnits(units: ParsedUnitData[], hasUnitRows: boolean): number {
+  if (units.length === 0) return 0;
+
+  const filled = units.reduce((sum, unit) => sum
+    + (unit.rent !== null ? 1 : 0)
+    + (unit.squareFootage !== null ? 1 : 0)
+    + (unit.bedrooms !== null ? 1 : 0)
+    + (unit.bathrooms !== null ? 1 : 0)
+    + (unit.unitNumber ? 1 : 0), 0);
+
+  const completeness = filled / (units.length * 5);
+  const confidence = hasUnitRows ? completeness : completeness * FLOOR_PLAN_SUMMARY_CONFIDENCE_FACTOR;
+  return Math.round(confidence * 1000) / 1000;
+}
+
+/**
+ * apartments.com listing pages. Units are grouped under floor plan sections
+ * (`pricingGridItem`), each with a model name, a "1 Bed / 1 Bath / 515 sq ft"
+ * details line and, when individual units are listed, `unitContainer` rows
+ * carrying unit number, price, square feet and availability columns.
+ */
+class ApartmentsComParser implements ListingParser {
+  readonly name = 'apartments.com';
+
+  matches(url: string): boolean {
+    return /^https?:\/\/(www\.)?apartments\.com\//i.test(url);
+  }
+
+  parse(html: string): ParsedPropertyData | null {
+    const floorPlans = splitAtMarkers(html, /<div[^>]*class=["'][^"']*\bpricingGridItem\b[^"']*["']/gi);
+    if (floorPlans.length === 0) return null;
+
+    const units: ParsedUnitData[] = [];
+    // Units are listed once per tab (all / studio / 1 bed ...), so de-duplicate by unit and plan
+    const seen = new Set<string>();
+
+    for (const floorPlan of floorPlans) {
+      const floorPlanName = getTextByClass(floorPlan, 'modelName');
+      const details = getTextByClass(floorPlan, 'detailsTextWrapper');
+      const planBedrooms = parseBedrooms(details);
+      const planBathrooms = parseBathrooms(details);
+      const planSquareFootage = parseLeadingNumber(details?.match(/([\d,]+)(?:\s*-\s*[\d,]+)?\s*sq\s*ft/i)?.[0] ?? null);
+
+      const unitRows = splitAtMarkers(floorPlan, /<li[^>]*class=["'][^"']*\bunitContainer\b[^"']*["'][^>]*>/gi);
+
+      if (unitRows.length === 0) {
+        // Floor plan summary only - use the plan name as the unit identifier
+        const rent = parseMoney(getTextByClass(floorPlan, 'rentLabel'));
+        if (!floorPlanName || (rent === null && planSquareFootage === null)) continue;
+
+        const key = `plan:${floorPlanName}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        units.push({
+          unitNumber: floorPlanName,
+          floorPlanName,
+          unitType: formatUnitType(planBedrooms),
+          bedrooms: planBedrooms,
+          bathrooms: planBathrooms,
+          squareFootage: planSquareFootage,
+          rent,
+          availabilityDate: getTextByClass(floorPlan, 'availabilityInfo'),
+          // A plan summary says nothing about any one unit's floor or finish
+          ...parseUnitAttributes({})
+        });
+        continue;
+      }
+
+      for (const row of unitRows) {
+        const openingTag = row.match(/^<li[^>]*>/i)?.[0] || '';
+        const unitNumber = getAttribute(openingTag, 'data-unit') || getColumnText(row, 'unitColumn');
+        if (!unitNumber) continue;
+
+        const key = `${floorPlanName || ''}:${unitNumber}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const bedsAttribute = getAttribute(openingTag, 'data-beds');
+        const bathsAttribute = getAttribute(openingTag, 'data-baths');
+        const bedrooms = bedsAttribute !== null && bedsAttribute !== '' ? parseInt(bedsAttribute, 10) : planBedrooms;
+        const bathrooms = bathsAttribute !== null && bathsAttribute !== '' ? parseFloat(bathsAttribute) : planBathrooms;
+        const squareFootage = parseLeadingNumber(getColumnText(row, 'sqftColumn'));
+
+        units.push({
+          unitNumber,
+          floorPlanName,
+          unitType: formatUnitType(isNaN(bedrooms as number) ? null : bedrooms),
+          bedrooms: isNaN(bedrooms as number) ? null : bedrooms,
+          bathrooms: isNaN(bathrooms as number) ? null : bathrooms,
+          squareFootage: squareFootage !== null ? Math.round(squareFootage) : planSquareFootage,
+          rent: parseMoney(getColumnText(row, 'pricingColumn')),
+          availabilityDate: getColumnText(row, 'dateAvailable') || getColumnText(row, 'availableColumn'),
+          ...parseUnitAttributes({ unitNumber })
+        });
+      }
+    }
+
+    if (units.length === 0) return null;
+
+    // Property metadata: JSON-LD first, then apartments.com's own header markup
+    const metadata = parsePropertyHtml(html);
+    const name = html.match(/<h1[^>]*id=["']propertyName["'][^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+    const address = html.match(/<div[^>]*class=["'][^"']*\bpropertyAddressContainer\b[^"']*["'][^>]*>([\s\S]*?)<\/div>/i)?.[1];
+    const amenities = Array.from(html.matchAll(/<li[^>]*class=["'][^"']*\bspecInfo\b[^"']*["'][^>]*>([\s\S]*?)<\/li>/gi))
+      .map(match => innerText(match[1]))
+      .filter(amenity => amenity.length > 0);
+    const builtYear = htmlToText(html).match(/Built in (\d{4})/i)?.[1];
+
+    return {
+      property: {
+        ...metadata.property,
+        name: name ? innerText(name) : metadata.property.name,
+        address: address ? innerText(address).replace(/\s+,/g, ',') : metadata.property.address,
+        amenities: amenities.length > 0 ? Array.from(new Set(amenities)) : metadata.property.amenities,
+        builtYear: metadata.property.builtYear || (builtYear ? parseInt(builtYear, 10) : null)
+      },
+      units
+    };
+  }
+}
+
+const listingParsers: ListingParser[] = [
+  new ApartmentsComParser()
+];
+
+/**
+ * Run the first parser that matches the URL. Returns null when no parser
+ * matches or the matching parser finds no units, so callers fall back to LLM extraction.
+ */
+export function parseListingHtml(html: string, url: string): ListingParseResult | null {
+  const parser = listingParsers.find(candidate => candidate.matches(url));
+  if (!parser) return null;
+
+  try {
+    const data = parser.parse(html);
+    if (!data || data.units.length === 0) {
+      console.log(`[LISTING_PARSER] ${parser.name} parser found no units for ${url}`);
+      return null;
+    }
+
+    const hasUnitRows = data.units.some(unit => unit.unitNumber && unit.unitNumber !== unit.floorPlanName);
+    const confidence = scoreParsedUnits(data.units, hasUnitRows);
+    console.log(`[LISTING_PARSER] ${parser.name} parser found ${data.units.length} units for ${url} (confidence ${confidence})`);
+    return { parser: parser.name, confidence, data };
+  } catch (error) {
+    console.error(`[LISTING_PARSER] ${parser.name} parser failed for ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * A property found on a listing site's search results page
+ */
+export interface ListingSearchResult {
+  url: string; // the property's own listing page
+  name: string | null;
+  address: string | null;
+}
+
+export interface SearchResultsParser {
+  readonly name: string;
+  matches(url: string): boolean;
+  parse(html: string, pageUrl: string): ListingSearchResult[];
+}
+
+export interface SearchResultsParseResult {
+  parser: string;
+  listings: ListingSearchResult[];
+}
+
+function resolveUrl(href: string, pageUrl: string): string | null {
+  try {
+    const url = new URL(href, pageUrl);
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * apartments.com search results. Each property is a `placard` article whose
+ * data-url points at its listing page, with title and address elements inside.
+ */
+class ApartmentsComSearchParser implements SearchResultsParser {
+  readonly name = 'apartments.com';
+
+  matches(url: string): boolean {
+    return /^https?:\/\/(www\.)?apartments\.com\//i.test(url);
+  }
+
+  parse(html: string, pageUrl: string): ListingSearchResult[] {
+    const listings: ListingSearchResult[] = [];
+    for (const placard of splitAtMarkers(html, /<article[^>]*class=["'][^"']*\bplacard\b[^"']*["'][^>]*>/gi)) {
+      const openingTag = placard.match(/^<article[^>]*>/i)?.[0] || '';
+      const href = getAttribute(openingTag, 'data-url')
+        || placard.match(/<a[^>]*class=["'][^"']*\bproperty-link\b[^"']*["'][^>]*href=["']([^"']+)["']/i)?.[1];
+      const url = href ? resolveUrl(decodeHtmlEntities(href), pageUrl) : null;
+      if (!url) continue;
+
+      listings.push({
+        url,
+        name: getTextByClass(placard, 'property-title') || getTextByClass(placard, 'js-placardTitle'),
+        address: getTextByClass(placard, 'property-address')
+      });
+    }
+    return listings;
+  }
+}
+
+/**
+ * Any results page that lists its properties as a schema.org ItemList in JSON-LD
+ */
+class JsonLdItemListParser implements SearchResultsParser {
+  readonly name = 'json_ld_item_list';
+
+  matches(): boolean {
+    return true;
+  }
+
+  parse(html: string, pageUrl: string): ListingSearchResult[] {
+    const listings: ListingSearchResult[] = [];
+    for (const node of getJsonLdNodes(html)) {
+      const elements = node?.itemListElement ?? node?.mainEntity?.itemListElement;
+      if (!Array.isArray(elements)) continue;
+
+      for (const element of elements) {
+        const item = element?.item ?? element;
+        const href = typeof item?.url === 'string' ? item.url : (typeof item?.['@id'] === 'string' ? item['@id'] : null);
+        const url = href ? resolveUrl(href, pageUrl) : null;
+        if (!url) continue;
+
+        listings.push({
+          url,
+          name: typeof item.name === 'string' ? decodeHtmlEntities(item.name) : null,
+          address: item.address ? formatJsonLdAddress(item.address) || null : null
+        });
+      }
+    }
+    return listings;
+  }
+}
+
+const searchResultsParsers: SearchResultsParser[] = [
+  new ApartmentsComSearchParser(),
+  new JsonLdItemListParser()
+];
+
+/**
+ * Listings on a search results page, from the first matching parser that finds
+ * any. Duplicates and links back to the results page itself are dropped.
+ * Returns null when no parser finds listings, so callers can fall back to LLM extraction.
+ */
+export function parseSearchResultsHtml(html: string, url: string): SearchResultsParseResult | null {
+  const pageUrl = resolveUrl(url, url);
+  for (const parser of searchResultsParsers.filter(candidate => candidate.matches(url))) {
+    try {
+      const seen = new Set<string>();
+      const listings = parser.parse(html, url).filter(listing => {
+        if (listing.url === pageUrl || seen.has(listing.url)) return false;
+        seen.add(listing.url);
+        return true;
+      });
+      if (listings.length > 0) {
+        console.log(`[LISTING_PARSER] ${parser.name} search parser found ${listings.length} listings on ${url}`);
+        return { parser: parser.name, listings };
+      }
+    } catch (error) {
+      console.error(`[LISTING_PARSER] ${parser.name} search parser failed for ${url}:`, error);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { linearCredit, median } from "@shared/utils";
+import type { PoiCategory, PoiDistances } from "@shared/schema";
+
+/**
+ * Location scoring.
+ *
+ * A property's location score (0-100) blends two signals:
+ *   - POI proximity: how close the property is to transit, groceries, jobs and
+ *     other points of interest, from the miles entered on its profile
+ *   - market proximity: how tightly its competitors cluster around it. A
+ *     subject surrounded by close competitors sits in an established rental
+ *     submarket; one whose comparables are far away is an outlier
+ * Either signal is used alone when the other has no data. With neither, the
+ * score is neutral (50).
+ */
+
+interface PoiScoring {
+  weight: number;
+  fullCreditMiles: number; // full credit at or under this distance
+  zeroCreditMiles: number; // no credit at or beyond this distance
+}
+
+const POI_SCORING: Record<PoiCategory, PoiScoring> = {
+  transit: { weight: 3, fullCreditMiles: 0.25, zeroCreditMiles: 1.5 },
+  grocery: { weight: 3, fullCreditMiles: 0.5, zeroCreditMiles: 3 },
+  employment: { weight: 2, fullCreditMiles: 1, zeroCreditMiles: 10 },
+  school: { weight: 2, fullCreditMiles: 0.5, zeroCreditMiles: 3 },
+  park: { weight: 1, fullCreditMiles: 0.25, zeroCreditMiles: 2 },
+  dining: { weight: 1, fullCreditMiles: 0.25, zeroCreditMiles: 2 }
+};
+
+// Median competitor distance (miles) for full and zero market proximity credit
+const MARKET_FULL_CREDIT_MILES = 0.5;
+const MARKET_ZERO_CREDIT_MILES = 10;
+
+// Share of the score from POI proximity when both signals are available
+const POI_SHARE = 0.6;
+
+export const NEUTRAL_LOCATION_SCORE = 50;
+
+/**
+ * 0-100 from the categories that have a distance; null when none do
+ */
+export function scorePoiProximity(poiDistances: PoiDistances | null | undefined): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [category, miles] of Object.entries(poiDistances ?? {})) {
+    const scoring = POI_SCORING[category as PoiCategory];
+    if (!scoring || typeof miles !== 'number' || miles < 0) continue;
+    weighted += scoring.weight * linearCredit(miles, scoring.fullCreditMiles, scoring.zeroCreditMiles);
+    totalWeight += scoring.weight;
+  }
+  return totalWeight > 0 ? (weighted / totalWeight) * 100 : null;
+}
+
+/**
+ * 0-100 from the median distance to the competitors; null without distances
+ */
+export function scoreMarketProximity(competitorDistances: number[]): number | null {
+  const distances = competitorDistances.filter(miles => Number.isFinite(miles) && miles >= 0);
+  if (distances.length === 0) return null;
+  return linearCredit(median(distances), MARKET_FULL_CREDIT_MILES, MARKET_ZERO_CREDIT_MILES) * 100;
+}
+
+/**
+ * Location score for the subject properties: their average POI score blended
+ * with market proximity to the competitors
+ */
+export function computeLocationScore(subjectPoiDistances: Array<PoiDistances | null | undefined>, competitorDistances: number[]): number {
+  const poiScores = subjectPoiDistances
+    .map(poiDistances => scorePoiProximity(poiDistances))
+    .filter((score): score is number => score !== null);
+  const poiScore = poiScores.length > 0 ? poiScores.reduce((sum, score) => sum + score, 0) / poiScores.length : null;
+  const marketScore = scoreMarketProximity(competitorDistances);
+
+  if (poiScore !== null && marketScore !== null) {
+    return Math.round(poiScore * POI_SHARE + marketScore * (1 - POI_SHARE));
+  }
+  if (poiScore !== null) return Math.round(poiScore);
+  if (marketScore !== null) return Math.round(marketScore);
+  return NEUTRAL_LOCATION_SCORE;
+}
@@ -0,0 +1,341 @@
+/**
+ * Square-footage-normalized market comparables.
+ *
+ * Comparable rents are matched by bedroom count and, when the subject unit's
+ * size is known, by a size band around it. Rents are compared on a
+ * rent-per-square-foot basis and re-expressed at the subject unit's size.
+ * Units without square footage fall back to bedroom-only matching.
+ *
+ * Each comparable is weighted by its competitive relationship to the subject
+ * property, its distance and its match score, so direct, nearby, closely
+ * matched competitors move the market statistics more than distant ones.
+ */
+
+// Comparables within +/-15% of the subject unit's square footage share a size band
+export const SIZE_BAND_TOLERANCE = 0.15;
+
+// Minimum size-band comparables before falling back to bedroom-only matching
+export const MIN_SIZE_BAND_COMPARABLES = 3;
+
+export type ComparableMatchType = 'size-band' | 'bedroom' | 'none';
+
+export type CompetitiveRelationshipType = 'direct_competitor' | 'indirect_competitor' | 'market_leader' | 'market_follower';
+
+// Subject units are part of the market pool; competitors without a saved relationship are unclassified
+export type ComparableRelationship = CompetitiveRelationshipType | 'subject' | 'unclassified';
+
+// Relative weight of a comparable by its relationship to the subject property
+export const RELATIONSHIP_WEIGHTS: Record<ComparableRelationship, number> = {
+  subject: 1,
+  direct_competitor: 1,
+  market_leader: 0.8,
+  unclassified: 0.75,
+  market_follower: 0.7,
+  indirect_competitor: 0.5
+};
+
+// A comparable this many miles away counts half as much as one next door
+export const DISTANCE_HALF_WEIGHT_MILES = 3;
+
+// Floor for the distance and match-score factors so no comparable is ignored outright
+export const MIN_FACTOR_WEIGHT = 0.2;
+
+// Factor used when a comparable's distance or match score is unknown
+export const UNKNOWN_FACTOR_WEIGHT = 0.75;
+
+/**
+ * The property a comparable unit was scraped from
+ */
+export interface ComparableSource {
+  url: string | null;
+  name: string | null;
+  isSubject: boolean;
+  distance: number | null; // miles from the subject property
+  matchScore: number | null; // 0-100 similarity score
+}
+
+export interface ComparableUnit {
+  bedrooms: number;
+  squareFootage: number | null;
+  rent: number;
+  rentPerSqFt: number | null;
+  source: ComparableSource | null;
+}
+
+export interface ComparableWeight {
+  relationship: ComparableRelationship;
+  relationshipWeight: number;
+  distanceWeight: number;
+  matchScoreWeight: number;
+  weight: number; // product of the three factors
+}
+
+/**
+ * Weight applied to one comparable property, as exposed on unit recommendations
+ */
+export interface AppliedComparableWeight extends ComparableWeight {
+  propertyName: string | null;
+  distance: number | null;
+  matchScore: number | null;
+  units: number; // comparable units contributed by this property
+}
+
+export interface ComparableStats {
+  matchType: ComparableMatchType;
+  count: number;
+  avg: number; // weighted average comparable rent, normalized to the subject size for size-band matches
+  values: number[]; // comparable rents sorted ascending (normalized like avg)
+  valueWeights: number[]; // weight of each entry in values
+  totalWeight: number;
+  avgRentPerSqFt: number | null;
+  appliedWeights: AppliedComparableWeight[];
+}
+
+export type RelationshipResolver = (subjectUrl: string | null, competitorUrl: string | null) => CompetitiveRelationshipType | null;
+
+export interface ComparableWeightingOptions {
+  subjectUrl?: string | null;
+  resolveRelationship?: RelationshipResolver;
+}
+
+function parseNumeric(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function roundWeight(weight: number): number {
+  return Math.round(weight * 1000) / 1000;
+}
+
+/**
+ * Describe each scraped property as a comparable source, keyed by scraped property ID.
+ * Distance and match score come from the session's property profile when available.
+ */
+export function buildComparableSources(
+  scrapedProperties: Map<string, { url?: string | null; name?: string | null; isSubjectProperty?: boolean | null; distance?: string | null; matchScore?: string | null }>,
+  propertyProfiles: Array<{ url: string; distance?: string | null; matchScore?: string | null }>,
+  subjectUrls: Set<string>
+): Map<string, ComparableSource> {
+  const profilesByUrl = new Map(propertyProfiles.map(p => [p.url, p]));
+  const sources = new Map<string, ComparableSource>();
+
+  for (const [propertyId, scrapedProperty] of Array.from(scrapedProperties.entries())) {
+    const url = scrapedProperty.url || null;
+    const profile = url ? profilesByUrl.get(url) : undefined;
+    sources.set(propertyId, {
+      url,
+      name: scrapedProperty.name || null,
+      isSubject: (url !== null && subjectUrls.has(url)) || !!scrapedProperty.isSubjectProperty,
+      distance: parseNumeric(profile?.distance ?? scrapedProperty.distance),
+      matchScore: parseNumeric(profile?.matchScore ?? scrapedProperty.matchScore)
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Look up the active competitive relationship between a subject and competitor, by URL.
+ * Relationships are stored between saved portfolio profiles and apply in either direction.
+ */
+export function buildRelationshipResolver(
+  savedProfiles: Array<{ id: string; url: string }>,
+  relationships: Array<{ propertyAId: string; propertyBId: string; relationshipType: string; isActive: boolean | null }>
+): RelationshipResolver {
+  const urlsById = new Map(savedProfiles.map(p => [p.id, p.url]));
+  const relationshipsByPair = new Map<string, CompetitiveRelationshipType>();
+
+  for (const relationship of relationships) {
+    if (relationship.isActive === false) continue;
+    const urlA = urlsById.get(relationship.propertyAId);
+    const urlB = urlsById.get(relationship.propertyBId);
+    if (!urlA || !urlB) continue;
+
+    const type = relationship.relationshipType as CompetitiveRelationshipType;
+    relationshipsByPair.set(`${urlA}|${urlB}`, type);
+    relationshipsByPair.set(`${urlB}|${urlA}`, type);
+  }
+
+  return (subjectUrl, competitorUrl) => {
+    if (!subjectUrl || !competitorUrl) return null;
+    return relationshipsByPair.get(`${subjectUrl}|${competitorUrl}`) || null;
+  };
+}
+
+/**
+ * Weight for a single comparable source relative to a subject property
+ */
+export function computeComparableWeight(source: ComparableSource | null, relationship: ComparableRelationship): ComparableWeight {
+  const relationshipWeight = RELATIONSHIP_WEIGHTS[relationship] ?? RELATIONSHIP_WEIGHTS.unclassified;
+
+  // The subject's own units are fully comparable regardless of distance or match score
+  if (relationship === 'subject') {
+    return { relationship, relationshipWeight, distanceWeight: 1, matchScoreWeight: 1, weight: relationshipWeight };
+  }
+
+  const distance = source?.distance ?? null;
+  const distanceWeight = distance === null
+    ? UNKNOWN_FACTOR_WEIGHT
+    : Math.max(MIN_FACTOR_WEIGHT, 1 / (1 + Math.max(0, distance) / DISTANCE_HALF_WEIGHT_MILES));
+
+  const matchScore = source?.matchScore ?? null;
+  const matchScoreWeight = matchScore === null
+    ? UNKNOWN_FACTOR_WEIGHT
+    : Math.max(MIN_FACTOR_WEIGHT, Math.min(1, matchScore / 100));
+
+  return {
+    relationship,
+    relationshipWeight,
+    distanceWeight: roundWeight(distanceWeight),
+    matchScoreWeight: roundWeight(matchScoreWeight),
+    weight: roundWeight(relationshipWeight * distanceWeight * matchScoreWeight)
+  };
+}
+
+/**
+ * Normalize raw unit rows (scraped or merged) into comparable units.
+ * Units without a positive rent are dropped.
+ */
+export function buildComparableUnits(units: Array<{
+  propertyId?: string;
+  bedrooms?: number | null;
+  squareFootage?: number | null;
+  rent?: string | number | null;
+}>, sources?: Map<string, ComparableSource>): ComparableUnit[] {
+  const comparables: ComparableUnit[] = [];
+
+  for (const unit of units) {
+    const rent = typeof unit.rent === 'number' ? unit.rent : parseFloat(unit.rent || '0');
+    if (!rent || rent <= 0) continue;
+
+    const squareFootage = unit.squareFootage && unit.squareFootage > 0 ? unit.squareFootage : null;
+    comparables.push({
+      // Matches the optimizer's subject-unit keying: studios (0) keep their own bucket, missing counts map to 1BR
+      bedrooms: unit.bedrooms ?? 1,
+      squareFootage,
+      rent,
+      rentPerSqFt: squareFootage ? rent / squareFootage : null,
+      source: (unit.propertyId && sources?.get(unit.propertyId)) || null
+    });
+  }
+
+  return comparables;
+}
+
+/**
+ * Rent per square foot, rounded to cents. Returns null when size is unknown.
+ */
+export function calculateRentPerSqFt(rent: number, squareFootage: number | null | undefined): number | null {
+  if (!squareFootage || squareFootage <= 0 || rent <= 0) return null;
+  return Math.round((rent / squareFootage) * 100) / 100;
+}
+
+/**
+ * Weighted share of comparable rents below a unit's rent, as a 0-100 percentile.
+ * With equal weights this matches the unweighted rank percentile.
+ */
+export function calculateWeightedPercentile(stats: ComparableStats, rent: number): number {
+  // stats.totalWeight is rounded for display; compare against the exact sum of the weights
+  const totalWeight = stats.valueWeights.reduce((sum, weight) => sum + weight, 0);
+  if (stats.values.length === 0 || totalWeight <= 0) return 50;
+
+  // Values are sorted ascending, so the first value at or above the rent ends the weight below it
+  let weightBelow = 0;
+  for (let i = 0; i < stats.values.length; i++) {
+    if (stats.values[i] >= rent) return (weightBelow / totalWeight) * 100;
+    weightBelow += stats.valueWeights[i];
+  }
+  // Above the last (highest) value
+  return 100;
+}
+
+/**
+ * Weighted comparable statistics for a subject unit.
+ */
+export function getComparableStats(
+  comparables: ComparableUnit[],
+  bedrooms: number,
+  squareFootage: number | null | undefined,
+  options: ComparableWeightingOptions = {}
+): ComparableStats {
+  const sameBedroom = comparables.filter(c => c.bedrooms === bedrooms);
+
+  // Weights depend only on the source property, so resolve each source once
+  const weightsBySource = new Map<ComparableSource | null, ComparableWeight>();
+  const weightFor = (comparable: ComparableUnit): ComparableWeight => {
+    let weight = weightsBySource.get(comparable.source);
+    if (!weight) {
+      const source = comparable.source;
+      const relationship: ComparableRelationship = source?.isSubject
+        ? 'subject'
+        : options.resolveRelationship?.(options.subjectUrl ?? null, source?.url ?? null) || 'unclassified';
+      weight = computeComparableWeight(source, relationship);
+      weightsBySource.set(comparable.source, weight);
+    }
+    return weight;
+  };
+
+  const summarize = (
+    matched: ComparableUnit[],
+    matchType: ComparableMatchType,
+    rentFor: (c: ComparableUnit) => number
+  ): ComparableStats => {
+    const weighted = matched
+      .map(c => ({ comparable: c, rent: rentFor(c), weight: weightFor(c).weight }))
+      .sort((a, b) => a.rent - b.rent);
+    const totalWeight = weighted.reduce((sum, w) => sum + w.weight, 0);
+
+    const withSize = weighted.filter(w => w.comparable.rentPerSqFt !== null);
+    const sizeWeight = withSize.reduce((sum, w) => sum + w.weight, 0);
+    const avgRentPerSqFt = sizeWeight > 0
+      ? Math.round((withSize.reduce((sum, w) => sum + w.comparable.rentPerSqFt! * w.weight, 0) / sizeWeight) * 100) / 100
+      : null;
+
+    const applied = new Map<ComparableSource | null, AppliedComparableWeight>();
+    for (const { comparable } of weighted) {
+      const existing = applied.get(comparable.source);
+      if (existing) {
+        existing.units += 1;
+      } else {
+        applied.set(comparable.source, {
+          ...weightFor(comparable),
+          propertyName: comparable.source?.name ?? null,
+          distance: comparable.source?.distance ?? null,
+          matchScore: comparable.source?.matchScore ?? null,
+          units: 1
+        });
+      }
+    }
+
+    return {
+      matchType,
+      count: weighted.length,
+      avg: totalWeight > 0 ? weighted.reduce((sum, w) => sum + w.rent * w.weight, 0) / totalWeight : 0,
+      values: weighted.map(w => w.rent),
+      valueWeights: weighted.map(w => w.weight),
+      totalWeight: roundWeight(totalWeight),
+      avgRentPerSqFt,
+      appliedWeights: Array.from(applied.values()).sort((a, b) => b.weight - a.weight)
+    };
+  };
+
+  if (squareFootage && squareFootage > 0) {
+    const minSqFt = squareFootage * (1 - SIZE_BAND_TOLERANCE);
+    const maxSqFt = squareFootage * (1 + SIZE_BAND_TOLERANCE);
+    const sizeBand = sameBedroom.filter(c =>
+      c.rentPerSqFt !== null && c.squareFootage! >= minSqFt && c.squareFootage! <= maxSqFt
+    );
+
+    if (sizeBand.length >= MIN_SIZE_BAND_COMPARABLES) {
+      // Express each comparable's $/sf at the subject unit's size
+      return summarize(sizeBand, 'size-band', c => c.rentPerSqFt! * squareFootage);
+    }
+  }
+
+  if (sameBedroom.length === 0) {
+    return { matchType: 'none', count: 0, avg: 0, values: [], valueWeights: [], totalWeight: 0, avgRentPerSqFt: null, appliedWeights: [] };
+  }
+
+  return summarize(sameBedroom, 'bedroom', c => c.rent);
+}
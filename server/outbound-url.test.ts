@@ -0,0 +1,61 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { assertPublicUrl, isPrivateAddress, requestPublicUrl } from "./outbound-url";
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and metadata addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe("assertPublicUrl", () => {
+  afterEach(() => {
+    delete process.env.SCRAPER_ALLOWED_HOSTS;
+  });
+
+  it("rejects non-http schemes and private hosts", async () => {
+    await assert.rejects(assertPublicUrl("file:///etc/passwd"), /only http and https/);
+    await assert.rejects(assertPublicUrl("http://169.254.169.254/latest/meta-data/"), /private or reserved/);
+    await assert.rejects(assertPublicUrl("http://[::1]:5000/api"), /private or reserved/);
+    await assert.rejects(assertPublicUrl("http://localhost:5000/"), /private or reserved/);
+  });
+
+  it("limits hosts to SCRAPER_ALLOWED_HOSTS when set", async () => {
+    process.env.SCRAPER_ALLOWED_HOSTS = "apartments.com, 8.8.8.8";
+    await assert.rejects(assertPublicUrl("https://1.1.1.1/listing"), /not in SCRAPER_ALLOWED_HOSTS/);
+    const url = await assertPublicUrl("https://8.8.8.8/");
+    assert.equal(url.hostname, "8.8.8.8");
+  });
+});
+
+describe("requestPublicUrl", () => {
+  it("refuses a loopback URL without connecting to it", async () => {
+    let requestCount = 0;
+    const server = http.createServer((req, res) => {
+      requestCount++;
+      res.end("ok");
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await assert.rejects(
+        requestPublicUrl(`http://127.0.0.1:${port}/`, { timeoutMs: 1000, maxBytes: 1000 }),
+        /private or reserved/
+      );
+      assert.equal(requestCount, 0);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
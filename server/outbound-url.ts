@@ -0,0 +1,181 @@
+import dns from "dns/promises";
+import http from "http";
+import https from "https";
+import net from "net";
+
+/**
+ * Checks for server-side fetches of user-supplied URLs (property listing and
+ * search results pages, webhook endpoints). Only http(s) URLs whose host
+ * resolves to public addresses are fetched, so a profile or webhook URL can't be
+ * used to reach the server's own network or cloud metadata endpoints.
+ * SCRAPER_ALLOWED_HOSTS (comma-separated host names, subdomains included)
+ * further limits scraper fetches to known listing sites. requestPublicUrl
+ * connects to the addresses that were checked, so a host can't pass the check
+ * and then resolve somewhere private for the request itself.
+ */
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+// IPv4 ranges that are not publicly routable: [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4]       // reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+/**
+ * True for loopback, private, link-local, multicast and other non-public addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (!net.isIPv6(address)) return true;
+
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+
+  return normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) ||     // unique local (fc00::/7)
+    /^fe[89ab]/.test(normalized) ||  // link-local (fe80::/10)
+    /^ff/.test(normalized);          // multicast
+}
+
+function getAllowedHosts(): string[] {
+  return (process.env.SCRAPER_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isAllowedHost(hostname: string): boolean {
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts.length === 0) return true;
+  return allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+export interface PublicUrlOptions {
+  // Skip the SCRAPER_ALLOWED_HOSTS allowlist, for fetches that aren't scraping
+  anyHost?: boolean;
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+async function resolvePublicUrl(url: string, options: PublicUrlOptions): Promise<{ parsed: URL; addresses: ResolvedAddress[] }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(parsed.protocol)) {
+    throw new Error(`Refusing to fetch ${url}: only http and https URLs are allowed`);
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!options.anyHost && !isAllowedHost(hostname)) {
+    throw new Error(`Refusing to fetch ${url}: ${hostname} is not in SCRAPER_ALLOWED_HOSTS`);
+  }
+
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname, family: net.isIP(hostname) }]
+    : await dns.lookup(hostname, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(result => isPrivateAddress(result.address))) {
+    throw new Error(`Refusing to fetch ${url}: ${hostname} resolves to a private or reserved address`);
+  }
+
+  return { parsed, addresses };
+}
+
+/**
+ * Parse a URL the server is about to fetch, throwing unless it is an http(s)
+ * URL on an allowed host that resolves only to public addresses
+ */
+export async function assertPublicUrl(url: string, options: PublicUrlOptions = {}): Promise<URL> {
+  return (await resolvePublicUrl(url, options)).parsed;
+}
+
+export interface PublicRequestOptions extends PublicUrlOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  maxBytes: number; // the request fails once the response body grows past this
+}
+
+export interface PublicResponse {
+  status: number;
+  statusText: string;
+  location: string | null; // redirects are returned, not followed, so each hop can be checked again
+  body: string;
+}
+
+/**
+ * Make a single request to a URL that passes assertPublicUrl, connecting only
+ * to the addresses that were checked
+ */
+export async function requestPublicUrl(url: string, options: PublicRequestOptions): Promise<PublicResponse> {
+  const { parsed, addresses } = await resolvePublicUrl(url, options);
+  const lookup: net.LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      (callback as any)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (parsed.protocol === 'https:' ? https : http).request(parsed, {
+      method: options.method ?? 'GET',
+      headers: options.headers,
+      lookup,
+      signal: AbortSignal.timeout(options.timeoutMs)
+    }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > options.maxBytes) {
+          request.destroy(new Error(`Response from ${url} is larger than ${options.maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('error', reject);
+      response.on('end', () => resolve({
+        status: response.statusCode ?? 0,
+        statusText: response.statusMessage ?? '',
+        location: response.headers.location ?? null,
+        body: Buffer.concat(chunks).toString('utf8')
+      }));
+    });
+
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_PRICING_BANDS, computePricingAdjustment, resolvePricingBands } from "./pricing-engine";
+
+describe("resolvePricingBands", () => {
+  it("falls back to the custom bands for an unknown goal", () => {
+    assert.deepEqual(resolvePricingBands("unknown"), DEFAULT_PRICING_BANDS.custom);
+  });
+
+  it("sorts overrides by score without changing the caller's bands", () => {
+    const overrides = [
+      { minScore: 50, maxScore: 100, adjustmentAtMin: 1, adjustmentAtMax: 0, reason: "High" },
+      { minScore: 0, maxScore: 50, adjustmentAtMin: 4, adjustmentAtMax: 2, reason: "Low" }
+    ];
+
+    const bands = resolvePricingBands("balanced", overrides);
+
+    assert.deepEqual(bands.map(band => band.reason), ["Low", "High"]);
+    assert.equal(overrides[0].reason, "High");
+    assert.notEqual(bands[1], overrides[0]);
+  });
+});
+
+describe("computePricingAdjustment", () => {
+  const revenueBands = resolvePricingBands("maximize-revenue");
+
+  it("returns the same adjustment for the same score and bands", () => {
+    const runs = Array.from({ length: 5 }, () => computePricingAdjustment(47.3, revenueBands));
+
+    for (const run of runs) {
+      assert.deepEqual(run, runs[0]);
+    }
+    assert.deepEqual(computePricingAdjustment(47.3, resolvePricingBands("maximize-revenue")), runs[0]);
+  });
+
+  it("uses the upper band's starting adjustment at a shared boundary", () => {
+    assert.deepEqual(computePricingAdjustment(40, revenueBands), {
+      adjustmentPercent: 8,
+      adjustmentReason: revenueBands[1].reason,
+      bandIndex: 1
+    });
+    assert.equal(computePricingAdjustment(60, revenueBands).adjustmentPercent, 5);
+    assert.equal(computePricingAdjustment(80, revenueBands).adjustmentPercent, 2);
+  });
+
+  it("interpolates linearly within a band", () => {
+    assert.equal(computePricingAdjustment(20, revenueBands).adjustmentPercent, 9);
+    assert.equal(computePricingAdjustment(50, revenueBands).adjustmentPercent, 6.5);
+    assert.equal(computePricingAdjustment(65, resolvePricingBands("balanced")).adjustmentPercent, 0);
+  });
+
+  it("includes the top score in the last band", () => {
+    assert.deepEqual(computePricingAdjustment(100, revenueBands), {
+      adjustmentPercent: 1,
+      adjustmentReason: revenueBands[3].reason,
+      bandIndex: 3
+    });
+  });
+
+  it("clamps scores outside 0-100 to the outermost bands", () => {
+    assert.equal(computePricingAdjustment(-25, revenueBands).adjustmentPercent, 10);
+    assert.equal(computePricingAdjustment(150, revenueBands).adjustmentPercent, 1);
+  });
+
+  it("uses the end of the nearest band below a gap in custom bands", () => {
+    const bands = resolvePricingBands("custom", [
+      { minScore: 0, maxScore: 40, adjustmentAtMin: 6, adjustmentAtMax: 4, reason: "Low" },
+      { minScore: 60, maxScore: 100, adjustmentAtMin: 2, adjustmentAtMax: 0, reason: "High" }
+    ]);
+
+    assert.deepEqual(computePricingAdjustment(50, bands), { adjustmentPercent: 4, adjustmentReason: "Low", bandIndex: 0 });
+  });
+
+  it("makes no adjustment without any bands", () => {
+    assert.deepEqual(computePricingAdjustment(50, []), {
+      adjustmentPercent: 0,
+      adjustmentReason: "No pricing band configured",
+      bandIndex: -1
+    });
+  });
+});
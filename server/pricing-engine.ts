@@ -0,0 +1,102 @@
+/**
+ * Deterministic pricing engine used by optimization report generation.
+ *
+ * Each optimization goal is described by a set of pricing-power-score bands.
+ * Within a band the adjustment is linearly interpolated between the band's
+ * endpoints, so the same score and goal always produce the same adjustment.
+ */
+
+import type { PricingBand } from "@shared/schema";
+
+export type { PricingBand };
+
+export const PRICING_MODEL_VERSION = 'pricing-bands-v1';
+
+export type PricingGoal = 'maximize-revenue' | 'maximize-occupancy' | 'balanced' | 'custom';
+
+export interface PricingModelParameters {
+  version: string;
+  goal: string;
+  strategy: string;
+  params: Record<string, any>;
+}
+
+export interface PricingAdjustment {
+  adjustmentPercent: number;
+  adjustmentReason: string;
+  bandIndex: number;
+}
+
+// Default band parameters per goal. These replace the previous randomized
+// ranges with the same envelopes, interpolated across each band instead.
+export const DEFAULT_PRICING_BANDS: Record<PricingGoal, PricingBand[]> = {
+  'maximize-revenue': [
+    { minScore: 0, maxScore: 40, adjustmentAtMin: 10, adjustmentAtMax: 8, reason: 'Significantly underpriced, aggressive increase to reach market rates' },
+    { minScore: 40, maxScore: 60, adjustmentAtMin: 8, adjustmentAtMax: 5, reason: 'Room for growth, strategic increase to capture market value' },
+    { minScore: 60, maxScore: 80, adjustmentAtMin: 5, adjustmentAtMax: 3, reason: 'Good market position, moderate increase to optimize revenue' },
+    { minScore: 80, maxScore: 100, adjustmentAtMin: 2, adjustmentAtMax: 1, reason: 'Already premium positioned, minimal increase to maintain market position' }
+  ],
+  'maximize-occupancy': [
+    { minScore: 0, maxScore: 40, adjustmentAtMin: 0, adjustmentAtMax: 0, reason: 'Already priced below market - no reduction needed to maintain strong occupancy' },
+    { minScore: 40, maxScore: 60, adjustmentAtMin: -1, adjustmentAtMax: -2, reason: 'Slight price reduction to maintain competitive edge, already well-positioned' },
+    { minScore: 60, maxScore: 80, adjustmentAtMin: -3, adjustmentAtMax: -5, reason: 'Moderate price reduction to enhance competitiveness and attract tenants' },
+    { minScore: 80, maxScore: 100, adjustmentAtMin: -8, adjustmentAtMax: -10, reason: 'Steep reduction from premium pricing to accelerate lease-up and maximize occupancy' }
+  ],
+  'balanced': [
+    { minScore: 0, maxScore: 60, adjustmentAtMin: 5, adjustmentAtMax: 2, reason: 'Adjusting up to reach optimal 60-70% market position' },
+    { minScore: 60, maxScore: 70, adjustmentAtMin: 0.5, adjustmentAtMax: -0.5, reason: 'Already in optimal range, fine-tuning for market alignment' },
+    { minScore: 70, maxScore: 100, adjustmentAtMin: -1, adjustmentAtMax: -3, reason: 'Adjusting down to optimal 60-70% market position' }
+  ],
+  'custom': [
+    { minScore: 0, maxScore: 100, adjustmentAtMin: 2, adjustmentAtMax: 2, reason: 'Conservative market-based adjustment' }
+  ]
+};
+
+/**
+ * Resolve the band parameters for a goal, applying optional overrides.
+ * Unknown goals fall back to the conservative custom bands.
+ */
+export function resolvePricingBands(goal: string, bandOverrides?: PricingBand[]): PricingBand[] {
+  const defaults = DEFAULT_PRICING_BANDS[goal as PricingGoal] || DEFAULT_PRICING_BANDS.custom;
+  return (bandOverrides && bandOverrides.length > 0 ? bandOverrides : defaults)
+    .map(band => ({ ...band }))
+    .sort((a, b) => a.minScore - b.minScore);
+}
+
+/**
+ * Compute the percent adjustment for a unit's pricing power score.
+ * Pure function of its inputs - no randomness.
+ */
+export function computePricingAdjustment(pricingPowerScore: number, bands: PricingBand[]): PricingAdjustment {
+  const score = Math.max(0, Math.min(100, pricingPowerScore));
+
+  let bandIndex = bands.findIndex((band, i) =>
+    score >= band.minScore && (score < band.maxScore || (i === bands.length - 1 && score <= band.maxScore))
+  );
+  if (bandIndex === -1) {
+    // Score falls into a gap in user-supplied bands - use the nearest band below
+    bandIndex = Math.max(0, bands.filter(band => band.minScore <= score).length - 1);
+  }
+
+  const band = bands[bandIndex];
+  if (!band) {
+    return { adjustmentPercent: 0, adjustmentReason: 'No pricing band configured', bandIndex: -1 };
+  }
+
+  const span = band.maxScore - band.minScore;
+  const position = span > 0 ? Math.max(0, Math.min(1, (score - band.minScore) / span)) : 0;
+  const adjustmentPercent = band.adjustmentAtMin + (band.adjustmentAtMax - band.adjustmentAtMin) * position;
+
+  return {
+    adjustmentPercent: roundAdjustment(adjustmentPercent),
+    adjustmentReason: band.reason,
+    bandIndex
+  };
+}
+
+/**
+ * Round to hundredths of a percent so floating-point noise never changes results
+ */
+export function roundAdjustment(adjustmentPercent: number): number {
+  return Math.round(adjustmentPercent * 100) / 100;
+}
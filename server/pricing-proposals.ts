@@ -0,0 +1,205 @@
+import { storage } from "./storage";
+import { canAccessResource } from "./authorization";
+import type {
+  AnalysisSession,
+  InsertPricingProposalUnit,
+  PricingApprover,
+  PricingProposal,
+  PricingProposalDetail,
+  PricingProposalRequest,
+  PricingProposalStatus,
+  PropertyUnit
+} from "@shared/schema";
+
+/**
+ * Pricing proposals.
+ *
+ * Rent changes from the optimize page are proposed rather than applied: a
+ * proposal holds a rent for each unit, is submitted to an approver and is
+ * approved or rejected. Approval is the only step that writes rents to the
+ * units. Rents that differ from the optimizer's recommendation are overrides
+ * and must carry a reason code.
+ */
+
+// Allowed status changes; a submitted proposal can be withdrawn back to draft
+const PROPOSAL_TRANSITIONS: Record<PricingProposalStatus, PricingProposalStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['draft', 'approved', 'rejected'],
+  approved: [],
+  rejected: []
+};
+
+export function canTransitionProposal(from: string, to: PricingProposalStatus): boolean {
+  return PROPOSAL_TRANSITIONS[from as PricingProposalStatus]?.includes(to) ?? false;
+}
+
+export type ProposalUnitFields = Omit<InsertPricingProposalUnit, 'proposalId'>;
+
+export interface ResolvedProposalUnits {
+  units: ProposalUnitFields[];
+  optimizationReportId: string | null;
+  skippedUnits: string[]; // unit numbers with no unit record to price
+  errors: string[];
+}
+
+function unitKey(propertyProfileId: string, unitNumber: string): string {
+  return `${propertyProfileId}:${unitNumber}`;
+}
+
+function isOverride(proposedRent: number, baselineRent: number): boolean {
+  return Math.abs(proposedRent - baselineRent) >= 0.005;
+}
+
+/**
+ * Match the requested units to the session's subject property units and the
+ * latest optimization report's recommendations. Units the optimizer reports
+ * but that have no unit record (scraped-only units) are skipped.
+ */
+export async function resolveProposalUnits(sessionId: string, requested: PricingProposalRequest['units']): Promise<ResolvedProposalUnits> {
+  try {
+    const profiles = await storage.getPropertyProfilesInSession(sessionId);
+    const subjectProfileIds = new Set(profiles.filter(p => p.profileType === 'subject').map(p => p.id));
+
+    const unitsByKey = new Map<string, PropertyUnit>();
+    for (const profileId of Array.from(subjectProfileIds)) {
+      for (const unit of await storage.getPropertyUnitsByProfile(profileId)) {
+        unitsByKey.set(unitKey(profileId, unit.unitNumber), unit);
+      }
+    }
+
+    const [report] = await storage.getOptimizationReportsBySession(sessionId);
+    const recommendations = new Map<string, number>();
+    for (const optimized of report?.optimizedUnits ?? []) {
+      const rent = parseFloat(optimized.recommendedRent);
+      if (optimized.propertyProfileId && optimized.unitNumber && rent > 0) {
+        recommendations.set(unitKey(optimized.propertyProfileId, optimized.unitNumber), rent);
+      }
+    }
+
+    const result: ResolvedProposalUnits = { units: [], optimizationReportId: report?.id ?? null, skippedUnits: [], errors: [] };
+    const seen = new Set<string>();
+    for (const request of requested) {
+      const key = unitKey(request.propertyProfileId, request.unitNumber);
+      if (!subjectProfileIds.has(request.propertyProfileId)) {
+        result.errors.push(`Unit ${request.unitNumber}: property is not a subject property of this session`);
+        continue;
+      }
+      if (seen.has(key)) {
+        result.errors.push(`Unit ${request.unitNumber}: listed more than once`);
+        continue;
+      }
+      seen.add(key);
+
+      const unit = unitsByKey.get(key);
+      if (!unit) {
+        result.skippedUnits.push(request.unitNumber);
+        continue;
+      }
+
+      const recommendedRent = recommendations.get(key) ?? null;
+      const baselineRent = recommendedRent ?? parseFloat(unit.currentRent);
+      if (isOverride(request.proposedRent, baselineRent)) {
+        if (!request.reasonCode) {
+          result.errors.push(`Unit ${request.unitNumber}: a reason code is required when overriding the recommended rent`);
+          continue;
+        }
+        if (request.reasonCode === 'other' && !request.note?.trim()) {
+          result.errors.push(`Unit ${request.unitNumber}: a note is required for the "other" reason code`);
+          continue;
+        }
+      }
+
+      result.units.push({
+        propertyUnitId: unit.id,
+        currentRent: unit.currentRent,
+        recommendedRent: recommendedRent !== null ? recommendedRent.toString() : null,
+        proposedRent: request.proposedRent.toString(),
+        reasonCode: isOverride(request.proposedRent, baselineRent) ? request.reasonCode ?? null : null,
+        note: request.note ?? null
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[PRICING_PROPOSALS] Error resolving proposal units:', error);
+    throw new Error(`Failed to resolve proposal units: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * A proposal with its units and totals
+ */
+export async function getPricingProposalDetail(proposal: PricingProposal): Promise<PricingProposalDetail> {
+  try {
+    const proposalUnits = await storage.getPricingProposalUnits(proposal.id);
+    const units = await Promise.all(proposalUnits.map(async proposalUnit => {
+      const unit = await storage.getPropertyUnit(proposalUnit.propertyUnitId);
+      const proposedRent = parseFloat(proposalUnit.proposedRent);
+      const baselineRent = parseFloat(proposalUnit.recommendedRent ?? proposalUnit.currentRent);
+      return {
+        ...proposalUnit,
+        unitNumber: unit?.unitNumber ?? '',
+        propertyProfileId: unit?.propertyProfileId ?? null,
+        isOverride: isOverride(proposedRent, baselineRent)
+      };
+    }));
+
+    return {
+      ...proposal,
+      units,
+      summary: {
+        units: units.length,
+        overrides: units.filter(unit => unit.isOverride).length,
+        totalMonthlyChange: units.reduce((sum, unit) => sum + parseFloat(unit.proposedRent) - parseFloat(unit.currentRent), 0)
+      }
+    };
+  } catch (error) {
+    console.error('[PRICING_PROPOSALS] Error loading proposal detail:', error);
+    throw new Error(`Failed to load pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Users who may review the session's proposals: the session owner and
+ * organization members allowed to edit it. Sessions without an owner predate
+ * authentication, so the requesting user is the only candidate there.
+ */
+export async function getPricingApprovers(session: AnalysisSession, requestingUserId: string): Promise<PricingApprover[]> {
+  try {
+    const candidateIds = new Set<string>([requestingUserId]);
+    if (session.userId) candidateIds.add(session.userId);
+    if (session.organizationId) {
+      for (const member of await storage.getOrganizationMembers(session.organizationId)) {
+        candidateIds.add(member.userId);
+      }
+    }
+
+    const approvers: PricingApprover[] = [];
+    for (const userId of Array.from(candidateIds)) {
+      if (!(await canAccessResource(userId, session, 'write'))) continue;
+      const user = await storage.getUser(userId);
+      if (user) {
+        approvers.push({ id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName });
+      }
+    }
+    return approvers.sort((a, b) => a.email.localeCompare(b.email));
+  } catch (error) {
+    console.error('[PRICING_PROPOSALS] Error loading approvers:', error);
+    throw new Error(`Failed to load pricing approvers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Why the user can't be assigned to approve the proposal, or null if they can.
+ * Organization sessions need a second pair of eyes; in a personal session the
+ * owner is the only one with access and reviews their own proposals.
+ */
+export async function getApproverError(session: AnalysisSession, authorId: string, approverId: string): Promise<string | null> {
+  if (session.organizationId && approverId === authorId) {
+    return "Proposals in an organization session must be approved by someone other than their author";
+  }
+  if (!(await canAccessResource(approverId, session, 'write'))) {
+    return "The approver must be able to edit this session";
+  }
+  return null;
+}
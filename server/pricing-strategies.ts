@@ -0,0 +1,264 @@
+import { z } from "zod";
+import { pricingBandSchema, pricingRuleSchema, type PricingStrategyDescriptor } from "@shared/schema";
+import {
+  DEFAULT_PRICING_BANDS,
+  resolvePricingBands,
+  computePricingAdjustment,
+  roundAdjustment,
+  PRICING_MODEL_VERSION,
+  type PricingGoal,
+  type PricingModelParameters
+} from "./pricing-engine";
+
+/**
+ * Market and unit inputs a strategy sees when pricing a single unit
+ */
+export interface PricingContext {
+  currentRent: number;
+  bedrooms: number;
+  status: string | null;
+  pricingPowerScore: number;
+  unitPercentile: number;
+  marketAverage: number;
+  marketValues: number[]; // comparable rents, sorted ascending
+}
+
+export interface PricingDecision {
+  adjustmentPercent: number;
+  adjustmentReason: string;
+  pricingBand?: number;
+}
+
+/**
+ * A pricing strategy turns a unit's market context into a percent adjustment.
+ * Implementations must be deterministic for a given context and params.
+ */
+export interface PricingStrategy<P extends Record<string, any> = Record<string, any>> {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  badge: string;
+  preset?: { occupancy: number; risk: number };
+  paramsSchema: z.ZodType<P, z.ZodTypeDef, any>;
+  defaultParams: P;
+  price(context: PricingContext, params: P): PricingDecision;
+}
+
+const bandParamsSchema = z.object({
+  bands: z.array(pricingBandSchema).optional()
+});
+
+/**
+ * Band strategies wrap the score-band engine for the built-in goals
+ */
+function createBandStrategy(
+  goal: PricingGoal,
+  meta: Pick<PricingStrategy, 'name' | 'description' | 'badge' | 'preset'>
+): PricingStrategy<z.infer<typeof bandParamsSchema>> {
+  return {
+    id: goal,
+    version: PRICING_MODEL_VERSION,
+    ...meta,
+    paramsSchema: bandParamsSchema,
+    defaultParams: { bands: DEFAULT_PRICING_BANDS[goal] },
+    price(context, params) {
+      const bands = resolvePricingBands(goal, params.bands);
+      const { adjustmentPercent, adjustmentReason, bandIndex } = computePricingAdjustment(context.pricingPowerScore, bands);
+      return { adjustmentPercent, adjustmentReason, pricingBand: bandIndex };
+    }
+  };
+}
+
+const percentileParamsSchema = z.object({
+  targetPercentile: z.number().min(0).max(100).default(60),
+  maxAdjustment: z.number().min(0).max(50).default(10)
+});
+
+/**
+ * Move each unit toward a target percentile of its comparable rents
+ */
+const percentileTargetStrategy: PricingStrategy<z.infer<typeof percentileParamsSchema>> = {
+  id: 'percentile-target',
+  name: 'Percentile Targeting',
+  description: 'Prices each unit at a target percentile of comparable market rents',
+  version: 'percentile-target-v1',
+  badge: 'Market Percentile',
+  paramsSchema: percentileParamsSchema,
+  defaultParams: { targetPercentile: 60, maxAdjustment: 10 },
+  price(context, params) {
+    if (context.marketValues.length === 0 || context.currentRent <= 0) {
+      return { adjustmentPercent: 0, adjustmentReason: 'No comparable rents available for percentile targeting' };
+    }
+
+    // Nearest-rank percentile over the sorted comparable rents
+    const rank = Math.ceil((params.targetPercentile / 100) * context.marketValues.length);
+    const targetRent = context.marketValues[Math.min(context.marketValues.length - 1, Math.max(0, rank - 1))];
+    const rawAdjustment = ((targetRent - context.currentRent) / context.currentRent) * 100;
+    const adjustmentPercent = roundAdjustment(Math.max(-params.maxAdjustment, Math.min(params.maxAdjustment, rawAdjustment)));
+
+    return {
+      adjustmentPercent,
+      adjustmentReason: `Targeting the ${params.targetPercentile}th percentile of comparable rents ($${Math.round(targetRent)})`
+    };
+  }
+};
+
+const anchorParamsSchema = z.object({
+  premiumPercent: z.number().min(-50).max(50).default(0),
+  convergence: z.number().min(0).max(1).default(0.5),
+  maxAdjustment: z.number().min(0).max(50).default(8)
+});
+
+/**
+ * Close part of the gap between current rent and an anchored market average
+ */
+const marketAnchorStrategy: PricingStrategy<z.infer<typeof anchorParamsSchema>> = {
+  id: 'market-anchor',
+  name: 'Market-Average Anchoring',
+  description: 'Moves rents toward the market average plus a configurable premium',
+  version: 'market-anchor-v1',
+  badge: 'Market Anchored',
+  paramsSchema: anchorParamsSchema,
+  defaultParams: { premiumPercent: 0, convergence: 0.5, maxAdjustment: 8 },
+  price(context, params) {
+    if (context.marketAverage <= 0 || context.currentRent <= 0) {
+      return { adjustmentPercent: 0, adjustmentReason: 'No market average available for anchoring' };
+    }
+
+    const anchorRent = context.marketAverage * (1 + params.premiumPercent / 100);
+    const gapPercent = ((anchorRent - context.currentRent) / context.currentRent) * 100;
+    const adjustmentPercent = roundAdjustment(
+      Math.max(-params.maxAdjustment, Math.min(params.maxAdjustment, gapPercent * params.convergence))
+    );
+
+    return {
+      adjustmentPercent,
+      adjustmentReason: `Closing ${Math.round(params.convergence * 100)}% of the gap to the anchored market rent ($${Math.round(anchorRent)})`
+    };
+  }
+};
+
+const ruleTableParamsSchema = z.object({
+  rules: z.array(pricingRuleSchema).default([]),
+  defaultAdjustment: z.number().min(-50).max(50).default(2)
+});
+
+/**
+ * User-defined rule table; the first matching rule wins
+ */
+const customRuleTableStrategy: PricingStrategy<z.infer<typeof ruleTableParamsSchema>> = {
+  id: 'custom',
+  name: 'Custom',
+  description: 'User-defined rule table keyed on pricing power score, status and bedrooms',
+  version: 'rule-table-v1',
+  badge: 'User Defined',
+  paramsSchema: ruleTableParamsSchema,
+  defaultParams: { rules: [], defaultAdjustment: 2 },
+  price(context, params) {
+    const score = context.pricingPowerScore;
+    const ruleIndex = params.rules.findIndex(rule =>
+      score >= rule.minScore && score <= rule.maxScore &&
+      (rule.status === undefined || rule.status === context.status) &&
+      (rule.bedrooms === undefined || rule.bedrooms === context.bedrooms)
+    );
+
+    if (ruleIndex === -1) {
+      return { adjustmentPercent: roundAdjustment(params.defaultAdjustment), adjustmentReason: 'Conservative market-based adjustment' };
+    }
+
+    const rule = params.rules[ruleIndex];
+    return { adjustmentPercent: roundAdjustment(rule.adjustmentPercent), adjustmentReason: rule.reason, pricingBand: ruleIndex };
+  }
+};
+
+// Registry of available strategies, in display order
+const pricingStrategies = new Map<string, PricingStrategy<any>>();
+
+export function registerPricingStrategy(strategy: PricingStrategy<any>): void {
+  pricingStrategies.set(strategy.id, strategy);
+}
+
+registerPricingStrategy(createBandStrategy('maximize-revenue', {
+  name: 'Maximize Revenue',
+  description: 'Aggressive increases for units with room to grow',
+  badge: '85% • High Risk',
+  preset: { occupancy: 85, risk: 3 }
+}));
+registerPricingStrategy(createBandStrategy('maximize-occupancy', {
+  name: 'Maximize Occupancy',
+  description: 'Price reductions to accelerate lease-up',
+  badge: '98% • Low Risk',
+  preset: { occupancy: 98, risk: 1 }
+}));
+registerPricingStrategy(createBandStrategy('balanced', {
+  name: 'Balanced',
+  description: 'Targets the 60-70 pricing power score range',
+  badge: '92% • Medium Risk',
+  preset: { occupancy: 92, risk: 2 }
+}));
+registerPricingStrategy(percentileTargetStrategy);
+registerPricingStrategy(marketAnchorStrategy);
+registerPricingStrategy(customRuleTableStrategy);
+
+export function getPricingStrategy(id: string): PricingStrategy<any> | undefined {
+  return pricingStrategies.get(id);
+}
+
+export function listPricingStrategies(): PricingStrategyDescriptor[] {
+  return Array.from(pricingStrategies.values()).map(strategy => ({
+    id: strategy.id,
+    name: strategy.name,
+    description: strategy.description,
+    version: strategy.version,
+    badge: strategy.badge,
+    preset: strategy.preset,
+    defaultParams: strategy.defaultParams
+  }));
+}
+
+/**
+ * Validate params for a strategy, returning the parsed params or an error message
+ */
+export function parsePricingStrategyParams(
+  strategyId: string,
+  params: unknown
+): { success: true; params: Record<string, any> } | { success: false; error: string } {
+  const strategy = getPricingStrategy(strategyId);
+  if (!strategy) {
+    return { success: false, error: `Unknown pricing strategy: ${strategyId}` };
+  }
+
+  const result = strategy.paramsSchema.safeParse(params ?? {});
+  if (!result.success) {
+    return { success: false, error: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ') };
+  }
+  return { success: true, params: result.data };
+}
+
+/**
+ * Resolve a strategy and its effective params. Unknown ids fall back to the custom rule table.
+ */
+export function resolvePricingStrategy(strategyId: string, params?: Record<string, any>): {
+  strategy: PricingStrategy<any>;
+  model: PricingModelParameters;
+} {
+  const strategy = getPricingStrategy(strategyId) || customRuleTableStrategy;
+  const parsed = strategy.paramsSchema.safeParse(params ?? {});
+  const effectiveParams = parsed.success ? { ...strategy.defaultParams, ...parsed.data } : strategy.defaultParams;
+
+  // Band strategies record the bands actually used rather than an empty override
+  if ('bands' in strategy.defaultParams) {
+    effectiveParams.bands = resolvePricingBands(strategy.id, effectiveParams.bands);
+  }
+
+  return {
+    strategy,
+    model: {
+      version: strategy.version,
+      goal: strategyId,
+      strategy: strategy.id,
+      params: effectiveParams
+    }
+  };
+}
@@ -0,0 +1,241 @@
+import { average } from "@shared/utils";
+import { storage } from "./storage";
+import { geocodePropertyProfile, getGeocoder, getGeocodingAddress, getProfileCoordinates, haversineMiles, updateSessionDistances, type GeocodeResult } from "./geocoding";
+import { buildRelationshipResolver, type RelationshipResolver } from "./market-comparables";
+import type { AnalysisSession, PropertyMapData, PropertyMapPin, PropertyProfile } from "@shared/schema";
+
+/**
+ * Map data for the competitive-set pages.
+ *
+ * Session maps show the session's subject and competitor properties plus the
+ * user's other competitor profiles as candidates that can be lasso-selected
+ * into the session. Portfolio maps show the portfolio's saved properties,
+ * located through the matching property profile when one exists. Competitor
+ * pins carry their relationship to the subject (from the portfolio's
+ * competitive relationships) and their pricing position against the subject's
+ * average rent.
+ *
+ * Building map data only reads stored coordinates. Geocoding and distance
+ * updates happen in refreshSessionMapLocations, behind a write-guarded route.
+ */
+
+// Average rents within this share of the subject average are "at" market
+const PRICING_POSITION_TOLERANCE = 0.05;
+
+// Candidate profiles geocoded per refresh; the rest are picked up on later refreshes
+const MAX_CANDIDATE_GEOCODES = 10;
+
+// Saved portfolio profiles have no coordinate columns, so their geocodes are
+// cached here, oldest evicted first. null marks an address with no match.
+const MAX_SAVED_PROFILE_GEOCODES = 500;
+const savedProfileGeocodes = new Map<string, GeocodeResult | null>();
+
+async function geocodeSavedProfileAddress(address: string): Promise<GeocodeResult | null> {
+  if (savedProfileGeocodes.has(address)) {
+    return savedProfileGeocodes.get(address) ?? null;
+  }
+
+  // Failed requests aren't cached, so the address is retried on the next load
+  const result = await getGeocoder().geocode(address);
+  savedProfileGeocodes.set(address, result);
+  if (savedProfileGeocodes.size > MAX_SAVED_PROFILE_GEOCODES) {
+    savedProfileGeocodes.delete(savedProfileGeocodes.keys().next().value!);
+  }
+  return result;
+}
+
+/**
+ * Average rent from the profile's latest completed scrape, else its own unit records
+ */
+async function getProfileAverageRent(profileId: string): Promise<number | null> {
+  const jobs = await storage.getScrapingJobsByProfile(profileId);
+  const latestJob = jobs.find(job => job.status === 'completed');
+  const rents: number[] = [];
+  if (latestJob) {
+    for (const scrapedProperty of await storage.getScrapedPropertiesByJob(latestJob.id)) {
+      for (const unit of await storage.getScrapedUnitsByProperty(scrapedProperty.id)) {
+        const rent = parseFloat(String(unit.rent ?? '').replace(/[$,]/g, ''));
+        if (rent > 0) rents.push(rent);
+      }
+    }
+  }
+  if (rents.length === 0) {
+    for (const unit of await storage.getPropertyUnitsByProfile(profileId)) {
+      const rent = parseFloat(unit.currentRent);
+      if (rent > 0) rents.push(rent);
+    }
+  }
+  return average(rents);
+}
+
+function getPricingPosition(avgRent: number | null, subjectAvgRent: number | null): PropertyMapPin['pricingPosition'] {
+  if (avgRent === null || subjectAvgRent === null) return null;
+  const difference = (avgRent - subjectAvgRent) / subjectAvgRent;
+  if (difference > PRICING_POSITION_TOLERANCE) return 'above';
+  if (difference < -PRICING_POSITION_TOLERANCE) return 'below';
+  return 'at';
+}
+
+function nearestMiles(coordinates: GeocodeResult, subjects: GeocodeResult[]): number | null {
+  if (subjects.length === 0) return null;
+  return Math.round(Math.min(...subjects.map(subject => haversineMiles(subject, coordinates))) * 100) / 100;
+}
+
+function getRelationshipType(resolver: RelationshipResolver | undefined, subjectUrls: string[], url: string): string | null {
+  if (!resolver) return null;
+  for (const subjectUrl of subjectUrls) {
+    const relationshipType = resolver(subjectUrl, url);
+    if (relationshipType) return relationshipType;
+  }
+  return null;
+}
+
+async function getPortfolioRelationshipResolver(portfolioId: string | null): Promise<RelationshipResolver | undefined> {
+  if (!portfolioId) return undefined;
+  const [savedProfiles, relationships] = await Promise.all([
+    storage.getSavedPropertyProfilesByPortfolio(portfolioId),
+    storage.getCompetitiveRelationshipsByPortfolio(portfolioId)
+  ]);
+  return buildRelationshipResolver(savedProfiles, relationships);
+}
+
+/**
+ * Geocode the session's properties and up to MAX_CANDIDATE_GEOCODES of the
+ * user's other competitor profiles, and recompute competitor distances
+ */
+export async function refreshSessionMapLocations(session: AnalysisSession, userId: string, organizationIds: string[]): Promise<void> {
+  try {
+    await updateSessionDistances(session.id);
+
+    const sessionProfileIds = new Set((await storage.getPropertyProfilesInSession(session.id)).map(profile => profile.id));
+    const candidates = (await storage.getPropertyProfilesByUserAndType(userId, 'competitor', organizationIds))
+      .filter(candidate => !sessionProfileIds.has(candidate.id) && candidate.geocodedAddress !== getGeocodingAddress(candidate));
+    for (const candidate of candidates.slice(0, MAX_CANDIDATE_GEOCODES)) {
+      await geocodePropertyProfile(candidate);
+    }
+  } catch (error) {
+    console.error('[PROPERTY_MAP] Error refreshing session map locations:', error);
+    throw new Error(`Failed to refresh session map locations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Pins for the session's properties and the user's other competitor profiles
+ */
+export async function getSessionMapData(session: AnalysisSession, userId: string, organizationIds: string[]): Promise<PropertyMapData> {
+  try {
+    const profiles = await storage.getPropertyProfilesInSession(session.id);
+    const resolver = await getPortfolioRelationshipResolver(session.portfolioId);
+    const subjects = profiles.filter(profile => profile.profileType === 'subject');
+    const subjectUrls = subjects.map(profile => profile.url);
+    const subjectCoordinates = subjects
+      .map(profile => getProfileCoordinates(profile))
+      .filter((coordinates): coordinates is GeocodeResult => coordinates !== null);
+
+    const rents = new Map<string, number | null>();
+    for (const profile of profiles) {
+      rents.set(profile.id, await getProfileAverageRent(profile.id));
+    }
+    const subjectAvgRent = average(subjects.map(profile => rents.get(profile.id)).filter((rent): rent is number => typeof rent === 'number'));
+
+    const toPin = (profile: PropertyProfile, coordinates: GeocodeResult, avgRent: number | null): PropertyMapPin => {
+      const role = profile.profileType === 'subject' ? 'subject' : 'competitor';
+      return {
+        id: profile.id,
+        propertyProfileId: profile.id,
+        name: profile.name,
+        address: profile.address,
+        role,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        distance: role === 'subject' ? null : (profile.distance !== null ? parseFloat(profile.distance) : nearestMiles(coordinates, subjectCoordinates)),
+        relationshipType: role === 'subject' ? null : getRelationshipType(resolver, subjectUrls, profile.url),
+        avgRent,
+        pricingPosition: role === 'subject' ? null : getPricingPosition(avgRent, subjectAvgRent)
+      };
+    };
+
+    const result: PropertyMapData = { pins: [], candidates: [], unlocated: [] };
+    for (const profile of profiles) {
+      const coordinates = getProfileCoordinates(profile);
+      if (coordinates) {
+        result.pins.push(toPin(profile, coordinates, rents.get(profile.id) ?? null));
+      } else {
+        result.unlocated.push({ id: profile.id, name: profile.name, address: profile.address });
+      }
+    }
+
+    const sessionProfileIds = new Set(profiles.map(profile => profile.id));
+    for (const candidate of await storage.getPropertyProfilesByUserAndType(userId, 'competitor', organizationIds)) {
+      if (sessionProfileIds.has(candidate.id)) continue;
+      const coordinates = getProfileCoordinates(candidate);
+      if (!coordinates) continue;
+      const pin = toPin(candidate, coordinates, await getProfileAverageRent(candidate.id));
+      result.candidates.push({ ...pin, distance: nearestMiles(coordinates, subjectCoordinates) });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[PROPERTY_MAP] Error building session map:', error);
+    throw new Error(`Failed to build session map: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Pins for a portfolio's saved properties. A saved property is located through
+ * the user's property profile with the same URL, else by geocoding its address.
+ */
+export async function getPortfolioMapData(portfolioId: string, userId: string, organizationIds: string[]): Promise<PropertyMapData> {
+  try {
+    const savedProfiles = await storage.getSavedPropertyProfilesByPortfolio(portfolioId);
+    const resolver = await getPortfolioRelationshipResolver(portfolioId);
+    const profilesByUrl = new Map((await storage.getPropertyProfilesByUser(userId, organizationIds)).map(profile => [profile.url, profile]));
+    const subjectUrls = savedProfiles.filter(saved => saved.role === 'subject').map(saved => saved.url);
+
+    const located: Array<{ saved: typeof savedProfiles[number]; profile?: PropertyProfile; coordinates: GeocodeResult; avgRent: number | null }> = [];
+    const result: PropertyMapData = { pins: [], candidates: [], unlocated: [] };
+    for (const saved of savedProfiles) {
+      const profile = profilesByUrl.get(saved.url);
+      let coordinates = profile ? getProfileCoordinates(profile) : null;
+      if (!coordinates) {
+        const address = getGeocodingAddress({ address: saved.address, city: null, state: null });
+        coordinates = await geocodeSavedProfileAddress(address).catch(error => {
+          console.error(`[PROPERTY_MAP] Error geocoding saved profile ${saved.id}:`, error);
+          return null;
+        });
+      }
+
+      if (!coordinates) {
+        result.unlocated.push({ id: saved.id, name: saved.name, address: saved.address });
+        continue;
+      }
+      located.push({ saved, profile, coordinates, avgRent: profile ? await getProfileAverageRent(profile.id) : null });
+    }
+
+    const subjects = located.filter(entry => entry.saved.role === 'subject');
+    const subjectCoordinates = subjects.map(entry => entry.coordinates);
+    const subjectAvgRent = average(subjects.map(entry => entry.avgRent).filter((rent): rent is number => rent !== null));
+
+    for (const { saved, profile, coordinates, avgRent } of located) {
+      const role = saved.role === 'subject' ? 'subject' : 'competitor';
+      result.pins.push({
+        id: profile?.id ?? saved.id,
+        propertyProfileId: profile?.id ?? null,
+        name: saved.name,
+        address: saved.address,
+        role,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        distance: role === 'subject' ? null : nearestMiles(coordinates, subjectCoordinates),
+        relationshipType: role === 'subject' ? null : getRelationshipType(resolver, subjectUrls, saved.url),
+        avgRent,
+        pricingPosition: role === 'subject' ? null : getPricingPosition(avgRent, subjectAvgRent)
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('[PROPERTY_MAP] Error building portfolio map:', error);
+    throw new Error(`Failed to build portfolio map: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,482 @@
+import fs from "fs/promises";
+import path from "path";
+import OpenAI from "openai";
+import { extractPropertyData, parseFirecrawlData, scrapePropertyUrl } from "./firecrawl";
+import { htmlToText, parseListingHtml, parsePropertyHtml, parseSearchResultsHtml, type ListingSearchResult } from "./listing-parsers";
+import { parseUnitAttributes } from "./unit-attributes";
+import { requestPublicUrl, type PublicResponse } from "./outbound-url";
+
+/**
+ * Property scraper providers.
+ *
+ * Every provider turns a property listing URL into the same parsed shape
+ * (property metadata plus unit rows) so the scrape -> scrapedUnits -> optimize
+ * pipeline does not care where the data came from. Whenever a provider has the
+ * page HTML, deterministic site parsers (see listing-parsers.ts) run first and
+ * LLM extraction only runs when none of them match. Providers also read listing
+ * search results pages, which competitor discovery uses to find candidate
+ * properties. The provider is chosen per
+ * environment with SCRAPER_PROVIDER:
+ *   - firecrawl: Firecrawl structured extraction + markdown (default)
+ *   - html:      plain HTTP fetch and local HTML parsing. Only public http(s)
+ *                hosts are fetched (see outbound-url.ts)
+ *   - fixture:   replays saved responses from SCRAPER_FIXTURES_DIR, fully offline
+ * Set SCRAPER_RECORD_FIXTURES=true with the firecrawl or html provider to save
+ * live responses as fixtures for later replay.
+ */
+
+export type ParsedPropertyData = ReturnType<typeof parseFirecrawlData>;
+export type ParsedUnitData = ParsedPropertyData['units'][number];
+
+export interface PropertyScrapeResult extends ParsedPropertyData {
+  provider: ScraperProviderName;
+  markdown: string; // page content as markdown/plain text, kept for fallbacks and debugging
+  parser: string | null; // site parser name, 'firecrawl_extract' or 'llm_markdown'; null when no units were found
+  parserConfidence: number | null; // 0-1, only reported by deterministic site parsers
+}
+
+export interface SearchResultsScrapeResult {
+  provider: ScraperProviderName;
+  listings: ListingSearchResult[];
+  parser: string | null; // search parser name or 'llm_markdown'; null when no listings were found
+}
+
+export interface PropertyScraper {
+  readonly name: ScraperProviderName;
+  scrapeProperty(url: string): Promise<PropertyScrapeResult>;
+  scrapeSearchResults(url: string): Promise<SearchResultsScrapeResult>;
+}
+
+export type ScraperProviderName = 'firecrawl' | 'html' | 'fixture';
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'fixtures', 'scrapes');
+
+// A listing host that stops responding fails the attempt instead of holding a queue slot
+const HTML_FETCH_TIMEOUT_MS = 30000;
+
+// Redirects followed by the HTML provider; every hop is checked like the original URL
+const MAX_HTML_REDIRECTS = 5;
+
+// Listing pages are well under this; anything larger is aborted while downloading
+const MAX_HTML_BYTES = 10 * 1024 * 1024;
+
+// Minimum markdown length worth sending to the LLM fallback
+const MIN_FALLBACK_MARKDOWN_LENGTH = 200;
+
+// Apartments.com pages are large and unit listings are often far below the
+// property overview/photos/amenities sections
+const MAX_FALLBACK_MARKDOWN_LENGTH = 50000;
+
+let openaiClient: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI | null {
+  if (!process.env.OPENAI_API_KEY) return null;
+  if (!openaiClient) {
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openaiClient;
+}
+
+/**
+ * Extract unit rows from page markdown with OpenAI. Used when a provider's own
+ * parsing finds no units. Returns an empty list when OpenAI is not configured.
+ */
+export async function extractUnitsFromMarkdown(markdown: string): Promise<ParsedUnitData[]> {
+  const client = getOpenAIClient();
+  if (!client) {
+    console.log('[PROPERTY_SCRAPER] OPENAI_API_KEY not set - skipping markdown unit extraction');
+    return [];
+  }
+
+  const truncatedMarkdown = markdown.slice(0, MAX_FALLBACK_MARKDOWN_LENGTH);
+
+  const aiResponse = await client.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: `You are a data extraction assistant specializing in apartment listing websites. Extract every individual available apartment unit from the provided webpage content.
+
+On sites like apartments.com, units are organized under floor plans. Each floor plan section contains individual available units with specific unit numbers, rent prices, square footage, and availability dates. Extract EACH individual unit as a separate entry.
+
+For example, if you see:
+  "The Franc - 1 Bed, 1 Bath"
+  "Unit 135 - 515 sq ft - $910 - Available Now"
+  "Unit 146 - 593 sq ft - $960 - Available Now"
+
+Extract each as a separate unit with the floor plan name "The Franc", unitType "1 Bedroom", etc.
+
+If units are shown as floor plan summaries without individual unit numbers (e.g. "1 Bedroom - from $1,200 - 5 available"), still extract them as units using the floor plan name as the unitNumber.
+
+Return a JSON object with a "units" array. Each unit should have:
+- unitNumber (string): The specific unit number/identifier (or floor plan name if no unit number)
+- floorPlanName (string or null): Name of the floor plan
+- unitType (string): "Studio", "1 Bedroom", "2 Bedroom", "3 Bedroom", etc.
+- bedrooms (number): Number of bedrooms (0 for studio)
+- bathrooms (number): Number of bathrooms
+- squareFootage (number or null): Size in sq ft
+- rent (number): Monthly rent price as a number
+- availabilityDate (string or null): When available
+- floor (number or null): Floor the unit is on, if stated
+- renovationStatus (string or null): Renovation or finish level if stated (e.g. "newly renovated", "classic")
+- view (string or null): View from the unit if stated
+- features (string array): Features specific to the unit (e.g. balcony, in-unit washer/dryer); empty if none are listed
+- leaseTerms (string or null): Lease terms offered if stated (e.g. "6-15 months, month-to-month")
+
+Include units that have at least a rent price or square footage listed.`
+      },
+      {
+        role: "user",
+        content: `Extract all individual available apartment units from this property listing page:\n\n${truncatedMarkdown}`
+      }
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" }
+  });
+
+  const aiContent = aiResponse.choices[0]?.message?.content || '{}';
+  try {
+    const parsed = JSON.parse(aiContent);
+    const fallbackUnits = Array.isArray(parsed) ? parsed : (parsed.units || []);
+    return fallbackUnits.map((unit: any) => ({
+      unitNumber: unit.unitNumber || '',
+      floorPlanName: unit.floorPlanName || null,
+      unitType: unit.unitType || `${unit.bedrooms || 0}BR`,
+      bedrooms: unit.bedrooms ?? null,
+      bathrooms: unit.bathrooms ?? null,
+      squareFootage: unit.squareFootage ?? null,
+      rent: unit.rent ?? null,
+      availabilityDate: unit.availabilityDate || null,
+      ...parseUnitAttributes(unit),
+    }));
+  } catch (parseError) {
+    console.error('[PROPERTY_SCRAPER] Failed to parse OpenAI fallback response:', parseError);
+    return [];
+  }
+}
+
+/**
+ * Extract property listings from a search results page's markdown with OpenAI.
+ * Returns an empty list when OpenAI is not configured.
+ */
+export async function extractListingsFromMarkdown(markdown: string, pageUrl: string): Promise<ListingSearchResult[]> {
+  const client = getOpenAIClient();
+  if (!client) {
+    console.log('[PROPERTY_SCRAPER] OPENAI_API_KEY not set - skipping markdown listing extraction');
+    return [];
+  }
+
+  const aiResponse = await client.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: `You are a data extraction assistant specializing in apartment listing websites. The provided webpage content is a search results or market page listing apartment properties.
+
+Return a JSON object with a "listings" array, one entry per apartment property listed. Each entry should have:
+- url (string): Link to the property's own listing page, exactly as it appears in the content
+- name (string or null): Property name
+- address (string or null): Street address with city and state if shown
+
+Skip ads, navigation links and links that are not to an individual property.`
+      },
+      {
+        role: "user",
+        content: `Extract the apartment properties listed on this page (${pageUrl}):\n\n${markdown.slice(0, MAX_FALLBACK_MARKDOWN_LENGTH)}`
+      }
+    ],
+    temperature: 0,
+    response_format: { type: "json_object" }
+  });
+
+  const aiContent = aiResponse.choices[0]?.message?.content || '{}';
+  try {
+    const parsed = JSON.parse(aiContent);
+    const listings = Array.isArray(parsed) ? parsed : (parsed.listings || []);
+    return listings
+      .filter((listing: any) => typeof listing?.url === 'string')
+      .map((listing: any) => {
+        try {
+          return { url: new URL(listing.url, pageUrl).toString(), name: listing.name || null, address: listing.address || null };
+        } catch {
+          return null;
+        }
+      })
+      .filter((listing: ListingSearchResult | null): listing is ListingSearchResult => listing !== null);
+  } catch (parseError) {
+    console.error('[PROPERTY_SCRAPER] Failed to parse OpenAI listing response:', parseError);
+    return [];
+  }
+}
+
+/**
+ * If a provider parsed no units, try the markdown fallback on the same content.
+ * Fallback errors are logged and never fail the scrape.
+ */
+async function withMarkdownFallback(parsedData: ParsedPropertyData, markdown: string, url: string): Promise<ParsedPropertyData> {
+  if (parsedData.units.length > 0) return parsedData;
+
+  if (markdown.length <= MIN_FALLBACK_MARKDOWN_LENGTH) {
+    console.log(`[PROPERTY_SCRAPER] No units extracted and markdown too short (${markdown.length} chars) for fallback`);
+    return parsedData;
+  }
+
+  console.log(`[PROPERTY_SCRAPER] No units parsed for ${url}, extracting from ${markdown.length} chars of markdown...`);
+  try {
+    const fallbackUnits = await extractUnitsFromMarkdown(markdown);
+    if (fallbackUnits.length > 0) {
+      console.log(`[PROPERTY_SCRAPER] Markdown fallback extracted ${fallbackUnits.length} units`);
+      return { ...parsedData, units: fallbackUnits };
+    }
+    console.log(`[PROPERTY_SCRAPER] Markdown fallback also returned 0 units`);
+  } catch (fallbackError) {
+    console.error('[PROPERTY_SCRAPER] Markdown fallback failed:', fallbackError);
+  }
+  return parsedData;
+}
+
+/**
+ * Stable file name for a URL's fixture, e.g.
+ * https://www.apartments.com/the-flats-omaha-ne/abc123/ -> www-apartments-com-the-flats-omaha-ne-abc123
+ */
+export function getFixtureSlug(url: string): string {
+  return url
+    .replace(/^https?:\/\//i, '')
+    .replace(/[?#].*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function getFixturesDir(): string {
+  return process.env.SCRAPER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+async function recordFixture(url: string, extension: 'json' | 'html', content: string): Promise<void> {
+  if (process.env.SCRAPER_RECORD_FIXTURES !== 'true') return;
+
+  try {
+    const fixturesDir = getFixturesDir();
+    await fs.mkdir(fixturesDir, { recursive: true });
+    const fixturePath = path.join(fixturesDir, `${getFixtureSlug(url)}.${extension}`);
+    await fs.writeFile(fixturePath, content, 'utf8');
+    console.log(`[PROPERTY_SCRAPER] Recorded fixture ${fixturePath}`);
+  } catch (error) {
+    console.error(`[PROPERTY_SCRAPER] Failed to record fixture for ${url}:`, error);
+  }
+}
+
+interface ScrapedPage {
+  html: string | null;
+  markdown: string;
+}
+
+/**
+ * Turn a fetched page into parsed data: site parser first, then (optionally)
+ * Firecrawl's LLM extract, then the markdown fallback.
+ */
+async function parseScrapedPage(
+  url: string,
+  page: ScrapedPage,
+  provider: ScraperProviderName,
+  loadExtract?: () => Promise<any>
+): Promise<PropertyScrapeResult> {
+  const markdown = page.markdown || (page.html ? htmlToText(page.html) : '');
+
+  if (page.html) {
+    const listing = parseListingHtml(page.html, url);
+    if (listing) {
+      return { ...listing.data, markdown, provider, parser: listing.parser, parserConfidence: listing.confidence };
+    }
+  }
+
+  // No site parser matched - LLM extraction from here on
+  let parsedData = page.html ? parsePropertyHtml(page.html) : parseFirecrawlData({});
+  if (loadExtract) {
+    parsedData = parseFirecrawlData(await loadExtract());
+    if (parsedData.units.length > 0) {
+      return { ...parsedData, markdown, provider, parser: 'firecrawl_extract', parserConfidence: null };
+    }
+  }
+
+  const fallbackData = await withMarkdownFallback(parsedData, markdown, url);
+  return {
+    ...fallbackData,
+    markdown,
+    provider,
+    parser: fallbackData.units.length > 0 ? 'llm_markdown' : null,
+    parserConfidence: null
+  };
+}
+
+/**
+ * Turn a fetched search results page into listings: search parsers first, then
+ * the markdown fallback. Fallback errors are logged and return no listings.
+ */
+async function parseSearchResultsPage(url: string, page: ScrapedPage, provider: ScraperProviderName): Promise<SearchResultsScrapeResult> {
+  if (page.html) {
+    const results = parseSearchResultsHtml(page.html, url);
+    if (results) return { provider, listings: results.listings, parser: results.parser };
+  }
+
+  const markdown = page.markdown || (page.html ? htmlToText(page.html) : '');
+  if (markdown.length <= MIN_FALLBACK_MARKDOWN_LENGTH) {
+    console.log(`[PROPERTY_SCRAPER] No listings parsed and markdown too short (${markdown.length} chars) for fallback`);
+    return { provider, listings: [], parser: null };
+  }
+
+  console.log(`[PROPERTY_SCRAPER] No listings parsed for ${url}, extracting from ${markdown.length} chars of markdown...`);
+  try {
+    const listings = await extractListingsFromMarkdown(markdown, url);
+    return { provider, listings, parser: listings.length > 0 ? 'llm_markdown' : null };
+  } catch (fallbackError) {
+    console.error('[PROPERTY_SCRAPER] Markdown listing fallback failed:', fallbackError);
+    return { provider, listings: [], parser: null };
+  }
+}
+
+class FirecrawlScraper implements PropertyScraper {
+  readonly name = 'firecrawl' as const;
+
+  async scrapeProperty(url: string): Promise<PropertyScrapeResult> {
+    // Plain scrape (raw HTML + markdown) first; the paid LLM extract only runs
+    // when no site parser understands the page
+    const page = await scrapePropertyUrl(url);
+    const recorded: Record<string, any> = { rawHtml: page.rawHtml || null, markdown: page.markdown || '' };
+
+    const result = await parseScrapedPage(url, { html: recorded.rawHtml, markdown: recorded.markdown }, this.name, async () => {
+      const scrapingResult = await extractPropertyData(url);
+      recorded.extract = scrapingResult.extract;
+      return scrapingResult.extract;
+    });
+
+    await recordFixture(url, 'json', JSON.stringify(recorded, null, 2));
+    return result;
+  }
+
+  async scrapeSearchResults(url: string): Promise<SearchResultsScrapeResult> {
+    const page = await scrapePropertyUrl(url);
+    const recorded = { rawHtml: page.rawHtml || null, markdown: page.markdown || '' };
+    await recordFixture(url, 'json', JSON.stringify(recorded, null, 2));
+    return parseSearchResultsPage(url, { html: recorded.rawHtml, markdown: recorded.markdown }, this.name);
+  }
+}
+
+class HtmlFetchScraper implements PropertyScraper {
+  readonly name = 'html' as const;
+
+  async scrapeProperty(url: string): Promise<PropertyScrapeResult> {
+    const html = await this.fetchHtml(url);
+    return parseScrapedPage(url, { html, markdown: '' }, this.name);
+  }
+
+  async scrapeSearchResults(url: string): Promise<SearchResultsScrapeResult> {
+    const html = await this.fetchHtml(url);
+    return parseSearchResultsPage(url, { html, markdown: '' }, this.name);
+  }
+
+  private async fetchHtml(url: string): Promise<string> {
+    let currentUrl = url;
+    let response: PublicResponse;
+    for (let redirects = 0; ; redirects++) {
+      response = await requestPublicUrl(currentUrl, {
+        headers: {
+          'User-Agent': process.env.SCRAPER_USER_AGENT || 'Mozilla/5.0 (compatible; PropertyOptimizationBot/1.0)',
+          'Accept': 'text/html,application/xhtml+xml'
+        },
+        timeoutMs: HTML_FETCH_TIMEOUT_MS,
+        maxBytes: MAX_HTML_BYTES
+      });
+
+      if (response.status < 300 || response.status >= 400 || !response.location) break;
+      if (redirects >= MAX_HTML_REDIRECTS) {
+        throw new Error(`HTML fetch failed for ${url}: more than ${MAX_HTML_REDIRECTS} redirects`);
+      }
+      currentUrl = new URL(response.location, currentUrl).toString();
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTML fetch failed for ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const html = response.body;
+    await recordFixture(url, 'html', html);
+    return html;
+  }
+}
+
+/**
+ * Replays saved responses from disk. For each URL it looks for, in order:
+ *   <slug>.json - a recorded Firecrawl response ({ rawHtml?, markdown, extract? })
+ *   <slug>.html - a saved listing page
+ *   <slug>.md   - saved page markdown
+ */
+class FixtureScraper implements PropertyScraper {
+  readonly name = 'fixture' as const;
+
+  async scrapeProperty(url: string): Promise<PropertyScrapeResult> {
+    const { page, extract } = await this.readPage(url);
+    return parseScrapedPage(url, page, this.name, extract ? async () => extract : undefined);
+  }
+
+  async scrapeSearchResults(url: string): Promise<SearchResultsScrapeResult> {
+    const { page } = await this.readPage(url);
+    return parseSearchResultsPage(url, page, this.name);
+  }
+
+  private async readPage(url: string): Promise<{ page: ScrapedPage; extract?: any }> {
+    const fixturesDir = getFixturesDir();
+    const slug = getFixtureSlug(url);
+
+    const json = await readFixture(fixturesDir, `${slug}.json`);
+    if (json !== null) {
+      const recorded = JSON.parse(json);
+      return { page: { html: recorded.rawHtml || null, markdown: recorded.markdown || '' }, extract: recorded.extract };
+    }
+
+    const html = await readFixture(fixturesDir, `${slug}.html`);
+    if (html !== null) {
+      return { page: { html, markdown: '' } };
+    }
+
+    const markdown = await readFixture(fixturesDir, `${slug}.md`);
+    if (markdown !== null) {
+      return { page: { html: null, markdown } };
+    }
+
+    throw new Error(`No scrape fixture for ${url} (expected ${slug}.json, .html or .md in ${fixturesDir})`);
+  }
+}
+
+async function readFixture(fixturesDir: string, fileName: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(fixturesDir, fileName), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+const scraperFactories: Record<ScraperProviderName, () => PropertyScraper> = {
+  firecrawl: () => new FirecrawlScraper(),
+  html: () => new HtmlFetchScraper(),
+  fixture: () => new FixtureScraper()
+};
+
+let activeScraper: PropertyScraper | null = null;
+
+/**
+ * Provider for this environment. Tests default to fixtures; everything else to Firecrawl.
+ */
+export function getPropertyScraper(): PropertyScraper {
+  if (!activeScraper) {
+    const configured = (process.env.SCRAPER_PROVIDER || (process.env.NODE_ENV === 'test' ? 'fixture' : 'firecrawl')).toLowerCase();
+    const factory = scraperFactories[configured as ScraperProviderName];
+    if (!factory) {
+      throw new Error(`Unknown SCRAPER_PROVIDER "${configured}" (expected ${Object.keys(scraperFactories).join(', ')})`);
+    }
+    activeScraper = factory();
+    console.log(`[PROPERTY_SCRAPER] Using ${activeScraper.name} scraper provider`);
+  }
+  return activeScraper;
+}
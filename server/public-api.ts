@@ -0,0 +1,347 @@
+import express, { type Express, type Request, type Response } from "express";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { storage } from "./storage";
+import { authenticateApiKey, canApiKeyAccess, getRequestApiKey, requireScope } from "./api-keys";
+import { getUserOrganizationIds, loadResourceOwner, type GuardedResource, type ResourceAction } from "./authorization";
+import {
+  apiPropertyProfileSchema,
+  apiPropertyUnitSchema,
+  apiPropertyUnitWriteSchema,
+  apiScrapedCompsSchema,
+  apiAnalysisSessionSchema,
+  apiOptimizationReportSchema,
+  apiErrorSchema,
+  type ApiKey,
+  type ApiKeyScope
+} from "@shared/schema";
+
+/**
+ * Versioned public REST API for integrations (BI and revenue-management tools).
+ *
+ * Mounted at /api/v1 and authenticated with API keys instead of Clerk
+ * sessions. Every endpoint is declared once below; the declaration drives
+ * routing, scope and access checks, request validation, response shaping and
+ * the OpenAPI document served at /api/v1/openapi.json.
+ */
+
+export const PUBLIC_API_BASE_PATH = "/api/v1";
+
+// Named schemas published as OpenAPI components
+const apiSchemas = {
+  PropertyProfile: apiPropertyProfileSchema,
+  PropertyUnit: apiPropertyUnitSchema,
+  PropertyUnitInput: apiPropertyUnitWriteSchema,
+  PropertyUnitUpdate: apiPropertyUnitWriteSchema.partial(),
+  ScrapedComps: apiScrapedCompsSchema,
+  AnalysisSession: apiAnalysisSessionSchema,
+  OptimizationReport: apiOptimizationReportSchema,
+  Error: apiErrorSchema
+};
+
+type ApiSchemaName = keyof typeof apiSchemas;
+
+interface PublicEndpoint {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string; // Express path relative to /api/v1
+  summary: string;
+  scope: ApiKeyScope;
+  // Resource named by the :id path parameter, checked against the key's access
+  guard?: { resource: GuardedResource; action: ResourceAction };
+  query?: z.AnyZodObject;
+  body?: ApiSchemaName;
+  response?: { schema: ApiSchemaName; list?: boolean; status?: number }; // omitted for 204 responses
+  handler: (req: Request, apiKey: ApiKey) => Promise<unknown>;
+}
+
+async function getKeyOrganizationIds(apiKey: ApiKey): Promise<string[]> {
+  return apiKey.organizationId ? [apiKey.organizationId] : getUserOrganizationIds(apiKey.userId);
+}
+
+// Resources owned by the key's user or shared with the key's organizations
+function withinKeyScope<T extends { organizationId: string | null }>(apiKey: ApiKey, records: T[]): T[] {
+  return apiKey.organizationId ? records.filter(record => record.organizationId === apiKey.organizationId) : records;
+}
+
+const endpoints: PublicEndpoint[] = [
+  {
+    method: 'get',
+    path: '/property-profiles',
+    summary: "List property profiles",
+    scope: 'read:profiles',
+    query: z.object({ profileType: z.enum(['subject', 'competitor']).optional() }),
+    response: { schema: 'PropertyProfile', list: true },
+    handler: async (req, apiKey) => {
+      const organizationIds = await getKeyOrganizationIds(apiKey);
+      const profileType = req.query.profileType as 'subject' | 'competitor' | undefined;
+      const profiles = profileType
+        ? await storage.getPropertyProfilesByUserAndType(apiKey.userId, profileType, organizationIds)
+        : await storage.getPropertyProfilesByUser(apiKey.userId, organizationIds);
+      return withinKeyScope(apiKey, profiles);
+    }
+  },
+  {
+    method: 'get',
+    path: '/property-profiles/:id',
+    summary: "Get a property profile",
+    scope: 'read:profiles',
+    guard: { resource: 'propertyProfile', action: 'read' },
+    response: { schema: 'PropertyProfile' },
+    handler: async (req) => storage.getPropertyProfile(req.params.id)
+  },
+  {
+    method: 'get',
+    path: '/property-profiles/:id/units',
+    summary: "List a property profile's units",
+    scope: 'read:units',
+    guard: { resource: 'propertyProfile', action: 'read' },
+    response: { schema: 'PropertyUnit', list: true },
+    handler: async (req) => storage.getPropertyUnitsByProfile(req.params.id)
+  },
+  {
+    method: 'post',
+    path: '/property-profiles/:id/units',
+    summary: "Add a unit to a property profile",
+    scope: 'write:units',
+    guard: { resource: 'propertyProfile', action: 'write' },
+    body: 'PropertyUnitInput',
+    response: { schema: 'PropertyUnit', status: 201 },
+    handler: async (req) => storage.createPropertyUnit({ ...req.body, propertyProfileId: req.params.id })
+  },
+  {
+    method: 'put',
+    path: '/units/:id',
+    summary: "Update a unit",
+    scope: 'write:units',
+    guard: { resource: 'propertyUnit', action: 'write' },
+    body: 'PropertyUnitUpdate',
+    response: { schema: 'PropertyUnit' },
+    handler: async (req) => storage.updatePropertyUnit(req.params.id, req.body)
+  },
+  {
+    method: 'delete',
+    path: '/units/:id',
+    summary: "Delete a unit",
+    scope: 'write:units',
+    guard: { resource: 'propertyUnit', action: 'write' },
+    handler: async (req) => storage.deletePropertyUnit(req.params.id)
+  },
+  {
+    method: 'get',
+    path: '/property-profiles/:id/scraped-comps',
+    summary: "Scraped comps and their units from the profile's latest completed scrape",
+    scope: 'read:comps',
+    guard: { resource: 'propertyProfile', action: 'read' },
+    response: { schema: 'ScrapedComps' },
+    handler: async (req) => {
+      const scrapingJobs = await storage.getScrapingJobsByProfile(req.params.id);
+      const latestCompletedJob = scrapingJobs.find(job => job.status === 'completed');
+      if (!latestCompletedJob) {
+        return { propertyProfileId: req.params.id, scrapedAt: null, comps: [] };
+      }
+
+      const scrapedProperties = await storage.getScrapedPropertiesByJob(latestCompletedJob.id);
+      const comps = await Promise.all(scrapedProperties.map(async scrapedProperty => ({
+        ...scrapedProperty,
+        units: await storage.getScrapedUnitsByProperty(scrapedProperty.id)
+      })));
+      return {
+        propertyProfileId: req.params.id,
+        scrapedAt: latestCompletedJob.completedAt ?? latestCompletedJob.createdAt,
+        comps
+      };
+    }
+  },
+  {
+    method: 'get',
+    path: '/analysis-sessions',
+    summary: "List analysis sessions",
+    scope: 'read:optimization',
+    response: { schema: 'AnalysisSession', list: true },
+    handler: async (_req, apiKey) => {
+      const sessions = await storage.getAnalysisSessionsByUser(apiKey.userId, await getKeyOrganizationIds(apiKey));
+      return withinKeyScope(apiKey, sessions);
+    }
+  },
+  {
+    method: 'get',
+    path: '/analysis-sessions/:id/optimization-reports',
+    summary: "List an analysis session's optimization reports",
+    scope: 'read:optimization',
+    guard: { resource: 'analysisSession', action: 'read' },
+    response: { schema: 'OptimizationReport', list: true },
+    handler: async (req) => storage.getOptimizationReportsBySession(req.params.id)
+  }
+];
+
+const NOT_FOUND_MESSAGES: Partial<Record<GuardedResource, string>> = {
+  propertyProfile: "Property profile not found",
+  propertyUnit: "Unit not found",
+  analysisSession: "Analysis session not found"
+};
+
+function handleEndpoint(endpoint: PublicEndpoint) {
+  return async (req: Request, res: Response) => {
+    try {
+      const apiKey = getRequestApiKey(res);
+
+      if (endpoint.guard) {
+        const owner = await loadResourceOwner(endpoint.guard.resource, req.params.id);
+        if (!owner) {
+          return res.status(404).json({ message: NOT_FOUND_MESSAGES[endpoint.guard.resource] ?? "Not found" });
+        }
+        if (!(await canApiKeyAccess(apiKey, owner, endpoint.guard.action))) {
+          console.warn(`[PUBLIC_API] Denied ${endpoint.guard.action} on ${endpoint.guard.resource} ${req.params.id} for API key ${apiKey.id}`);
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      if (endpoint.query) {
+        const query = endpoint.query.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({ message: "Invalid request", details: query.error.message });
+        }
+        req.query = query.data;
+      }
+      if (endpoint.body) {
+        const body = apiSchemas[endpoint.body].safeParse(req.body);
+        if (!body.success) {
+          return res.status(400).json({ message: "Invalid request", details: body.error.message });
+        }
+        req.body = body.data;
+      }
+
+      const result = await endpoint.handler(req, apiKey);
+      if (!endpoint.response) {
+        return res.status(204).send();
+      }
+      if (result === undefined) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      // A result that doesn't fit the documented response schema is a server bug, not a bad request
+      const schema = apiSchemas[endpoint.response.schema];
+      res.status(endpoint.response.status ?? 200).json(endpoint.response.list ? z.array(schema).parse(result) : schema.parse(result));
+    } catch (error) {
+      console.error(`[PUBLIC_API] Error handling ${endpoint.method.toUpperCase()} ${endpoint.path}:`, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+function toJsonSchema(schema: z.ZodTypeAny) {
+  return zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' });
+}
+
+function schemaRef(name: ApiSchemaName) {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * OpenAPI 3 description of the public API, generated from the endpoint
+ * declarations and the zod schemas in shared/schema.ts
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const endpoint of endpoints) {
+    const openApiPath = endpoint.path.replace(/:(\w+)/g, '{$1}');
+    const pathParameters = Array.from(endpoint.path.matchAll(/:(\w+)/g), match => ({
+      name: match[1],
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+    const queryParameters = endpoint.query
+      ? Object.entries(endpoint.query.shape).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: !(schema as z.ZodTypeAny).isOptional(),
+        schema: toJsonSchema(schema as z.ZodTypeAny)
+      }))
+      : [];
+
+    const responses: Record<string, unknown> = endpoint.response
+      ? {
+        [endpoint.response.status ?? 200]: {
+          description: "Success",
+          content: {
+            'application/json': {
+              schema: endpoint.response.list
+                ? { type: 'array', items: schemaRef(endpoint.response.schema) }
+                : schemaRef(endpoint.response.schema)
+            }
+          }
+        }
+      }
+      : { 204: { description: "Success" } };
+    for (const [status, description] of [
+      [400, "Invalid request"],
+      [401, "Missing, invalid or expired API key"],
+      [403, "API key lacks the scope or access to the resource"],
+      [404, "Resource not found"],
+      [429, "Rate limit exceeded"]
+    ] as const) {
+      responses[status] = { description, content: { 'application/json': { schema: schemaRef('Error') } } };
+    }
+
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [endpoint.method]: {
+        summary: endpoint.summary,
+        description: `Requires the ${endpoint.scope} scope.`,
+        parameters: [...pathParameters, ...queryParameters],
+        ...(endpoint.body && {
+          requestBody: { required: true, content: { 'application/json': { schema: schemaRef(endpoint.body) } } }
+        }),
+        responses
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: "Rent AI Public API",
+      version: '1.0.0',
+      description: "Requests are authenticated with an API key sent as \"Authorization: Bearer <key>\" or \"X-API-Key: <key>\". " +
+        "Each key has its own per-minute request limit, reported in the X-RateLimit-* response headers."
+    },
+    servers: [{ url: PUBLIC_API_BASE_PATH }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas: Object.fromEntries(
+        Object.entries(apiSchemas).map(([name, schema]) => [name, toJsonSchema(schema)])
+      )
+    }
+  };
+}
+
+/**
+ * Mount the public API. Registered ahead of the Clerk middleware, since
+ * integrations authenticate with API keys rather than browser sessions.
+ */
+export function registerPublicApi(app: Express) {
+  const router = express.Router();
+  const openApiDocument = buildOpenApiDocument();
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  router.use(authenticateApiKey);
+  for (const endpoint of endpoints) {
+    router[endpoint.method](endpoint.path, requireScope(endpoint.scope), handleEndpoint(endpoint));
+  }
+
+  router.use((_req, res) => {
+    res.status(404).json({ message: "Not found" });
+  });
+
+  app.use(PUBLIC_API_BASE_PATH, router);
+}
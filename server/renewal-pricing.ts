@@ -0,0 +1,195 @@
+import { storage } from "./storage";
+import { roundToFive } from "@shared/utils";
+import { dayAfter, getExpiringLeases } from "./leases";
+import {
+  buildComparableSources,
+  buildComparableUnits,
+  buildRelationshipResolver,
+  getComparableStats,
+  type ComparableUnit,
+  type RelationshipResolver
+} from "./market-comparables";
+import type {
+  ExpiringLease,
+  PropertyProfile,
+  RenewalPricingBatch,
+  RenewalPricingParams,
+  RenewalRecommendation,
+  ScrapedProperty
+} from "@shared/schema";
+
+/**
+ * Renewal pricing for leases expiring in a window.
+ *
+ * New-lease asking rents come from the optimizer; renewals are priced
+ * separately from each lease's loss-to-lease against the comp market. An
+ * offer recovers part of the gap between the resident's rent and the
+ * weighted comparable rent, held between the minimum and maximum renewal
+ * increase. The result is a renewal letter batch, one offer per lease.
+ */
+
+const DEFAULT_RENEWAL_TERM_MONTHS = 12;
+
+interface SessionMarket {
+  comparables: ComparableUnit[];
+  resolveRelationship?: RelationshipResolver;
+}
+
+function roundPercent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Competitor units scraped for the session, as comparables. Subject units are
+ * left out so a resident's rent is measured against the comp market only.
+ */
+async function loadSessionMarket(sessionId: string, profiles: PropertyProfile[]): Promise<SessionMarket> {
+  const subjectUrls = new Set(profiles.filter(p => p.profileType === 'subject').map(p => p.url));
+  const scrapedUnits = await storage.getScrapedUnitsForSession(sessionId);
+
+  const scrapedProperties = new Map<string, ScrapedProperty>();
+  for (const unit of scrapedUnits) {
+    if (!scrapedProperties.has(unit.propertyId)) {
+      const scrapedProperty = await storage.getScrapedProperty(unit.propertyId);
+      if (scrapedProperty) scrapedProperties.set(unit.propertyId, scrapedProperty);
+    }
+  }
+
+  const sources = buildComparableSources(scrapedProperties, profiles, subjectUrls);
+  const competitorUnits = scrapedUnits.filter(unit => {
+    const source = sources.get(unit.propertyId);
+    return source && !source.isSubject;
+  });
+
+  let resolveRelationship: RelationshipResolver | undefined;
+  const session = await storage.getAnalysisSession(sessionId);
+  if (session?.portfolioId) {
+    try {
+      const [savedProfiles, relationships] = await Promise.all([
+        storage.getSavedPropertyProfilesByPortfolio(session.portfolioId),
+        storage.getCompetitiveRelationshipsByPortfolio(session.portfolioId)
+      ]);
+      resolveRelationship = buildRelationshipResolver(savedProfiles, relationships);
+    } catch (error) {
+      // Weighting still works without relationships - competitors are treated as unclassified
+      console.warn('[RENEWAL_PRICING] Could not load competitive relationships for session:', sessionId, error);
+    }
+  }
+
+  return { comparables: buildComparableUnits(competitorUnits, sources), resolveRelationship };
+}
+
+/**
+ * Price one renewal offer from the lease's loss-to-lease
+ */
+function priceRenewal(
+  expiring: ExpiringLease,
+  marketRent: number | null,
+  comparableCount: number,
+  params: RenewalPricingParams
+): RenewalRecommendation | null {
+  const { unit, lease } = expiring;
+  const currentRent = parseFloat(lease.effectiveRent ?? unit.currentRent);
+  if (!currentRent || currentRent <= 0 || !lease.leaseEnd) return null;
+
+  const lossToLease = marketRent !== null ? marketRent - currentRent : 0;
+  const targetPercent = lossToLease > 0
+    ? (lossToLease * params.lossToLeaseCapturePercent / 100) / currentRent * 100
+    : 0;
+  const capped = targetPercent > params.maxIncreasePercent;
+  const increasePercent = Math.min(Math.max(targetPercent, params.minIncreasePercent), params.maxIncreasePercent);
+
+  // Round to the nearest $5 like asking rents, but never past the cap
+  const maxRent = currentRent * (1 + params.maxIncreasePercent / 100);
+  let recommendedRent = roundToFive(currentRent * (1 + increasePercent / 100));
+  if (recommendedRent > maxRent) {
+    recommendedRent = Math.floor(maxRent / 5) * 5;
+  }
+  recommendedRent = Math.max(recommendedRent, currentRent);
+  const increase = recommendedRent - currentRent;
+
+  let reasoning: string;
+  if (marketRent === null) {
+    reasoning = `No comparable market rents - renewal at the ${params.minIncreasePercent}% minimum increase`;
+  } else if (lossToLease > 0) {
+    reasoning = `$${Math.round(lossToLease)}/mo (${roundPercent(lossToLease / currentRent * 100)}%) below market; recovering ${params.lossToLeaseCapturePercent}% of the gap`;
+    if (capped) reasoning += `, capped at ${params.maxIncreasePercent}%`;
+  } else {
+    reasoning = `At or above market ($${Math.round(marketRent)}/mo) - renewal at the ${params.minIncreasePercent}% minimum increase`;
+  }
+
+  return {
+    propertyProfileId: expiring.propertyProfileId,
+    propertyName: expiring.propertyName,
+    unitId: unit.id,
+    unitNumber: unit.unitNumber,
+    unitType: unit.unitType,
+    bedrooms: unit.bedrooms,
+    leaseId: lease.id,
+    leaseEnd: lease.leaseEnd,
+    daysUntilExpiration: expiring.daysUntilExpiration,
+    renewalTermMonths: lease.leaseTermMonths ?? DEFAULT_RENEWAL_TERM_MONTHS,
+    currentRent,
+    marketRent: marketRent !== null ? Math.round(marketRent) : null,
+    comparableCount,
+    lossToLease: Math.round(lossToLease),
+    lossToLeasePercent: marketRent !== null ? roundPercent(lossToLease / currentRent * 100) : null,
+    recommendedRent,
+    increase,
+    increasePercent: roundPercent(increase / currentRent * 100),
+    capped,
+    offerEffectiveDate: dayAfter(lease.leaseEnd),
+    reasoning
+  };
+}
+
+/**
+ * Renewal offers for the session's subject units with leases expiring within
+ * the window. Leases the resident has already declined are left out.
+ */
+export async function generateRenewalPricing(sessionId: string, params: RenewalPricingParams): Promise<RenewalPricingBatch> {
+  try {
+    const profiles = await storage.getPropertyProfilesInSession(sessionId);
+    const subjectProfiles = profiles.filter(p => p.profileType === 'subject');
+    if (subjectProfiles.length === 0) {
+      throw new Error('No subject properties found in session');
+    }
+
+    const expiringLeases = (await getExpiringLeases(subjectProfiles, params.withinDays))
+      .filter(expiring => expiring.lease.renewalStatus !== 'declined');
+    const market = await loadSessionMarket(sessionId, profiles);
+    const profilesById = new Map(subjectProfiles.map(p => [p.id, p]));
+
+    const recommendations: RenewalRecommendation[] = [];
+    for (const expiring of expiringLeases) {
+      const stats = getComparableStats(market.comparables, expiring.unit.bedrooms ?? 1, expiring.unit.squareFootage, {
+        subjectUrl: profilesById.get(expiring.propertyProfileId)?.url ?? null,
+        resolveRelationship: market.resolveRelationship
+      });
+      const recommendation = priceRenewal(expiring, stats.count > 0 ? stats.avg : null, stats.count, params);
+      if (recommendation) recommendations.push(recommendation);
+    }
+
+    console.log(`[RENEWAL_PRICING] Priced ${recommendations.length} renewals for session ${sessionId} (${market.comparables.length} comparables)`);
+
+    const totalMonthlyIncrease = recommendations.reduce((sum, r) => sum + r.increase, 0);
+    return {
+      sessionId,
+      generatedAt: new Date().toISOString(),
+      params,
+      recommendations,
+      summary: {
+        units: recommendations.length,
+        cappedUnits: recommendations.filter(r => r.capped).length,
+        totalLossToLease: recommendations.reduce((sum, r) => sum + Math.max(r.lossToLease, 0), 0),
+        totalMonthlyIncrease,
+        avgIncreasePercent: recommendations.length > 0
+          ? roundPercent(recommendations.reduce((sum, r) => sum + r.increasePercent, 0) / recommendations.length)
+          : 0
+      }
+    };
+  } catch (error) {
+    console.error('[RENEWAL_PRICING] Error generating renewal pricing:', error);
+    throw new Error(`Failed to generate renewal pricing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import type { InsertScrapedUnit, ScrapeSnapshot, ScrapeSnapshotUnit } from "@shared/schema";
+
+/**
+ * Rent history across scrape runs.
+ *
+ * Every scrape of a listing URL is recorded as a snapshot of its unit rows.
+ * Units are matched across snapshots by a unit key derived from the listing's
+ * unit number (or, for floor-plan-only listings, the plan and size), so a
+ * comp's asking rent can be followed per unit and per floor plan over time.
+ */
+
+export interface ScrapeSnapshotSource {
+  url: string;
+  propertyProfileId?: string | null;
+  scrapedPropertyId?: string | null;
+  scrapingJobId?: string | null;
+  parserName?: string | null;
+  parserConfidence?: number | null;
+}
+
+type UnitIdentityFields = Pick<InsertScrapedUnit, 'unitNumber' | 'floorPlanName' | 'unitType' | 'squareFootage'>;
+
+export interface RentHistoryPoint {
+  snapshotId: string;
+  capturedAt: Date;
+  rent: number | null;
+  status: string | null;
+}
+
+export interface UnitRentTrajectory {
+  unitKey: string;
+  unitNumber: string | null;
+  floorPlanName: string | null;
+  unitType: string;
+  bedrooms: number | null;
+  squareFootage: number | null;
+  points: RentHistoryPoint[];
+  firstRent: number | null;
+  latestRent: number | null;
+  rentChange: number | null;
+  rentChangePercent: number | null;
+}
+
+export interface FloorPlanRentPoint {
+  snapshotId: string;
+  capturedAt: Date;
+  unitCount: number;
+  avgRent: number | null;
+  minRent: number | null;
+  maxRent: number | null;
+}
+
+export interface FloorPlanRentTrajectory {
+  floorPlanKey: string;
+  floorPlanName: string | null;
+  unitType: string;
+  bedrooms: number | null;
+  points: FloorPlanRentPoint[];
+}
+
+export interface RentTrajectory {
+  url: string;
+  snapshots: Array<{ id: string; capturedAt: Date; unitCount: number; parserName: string | null }>;
+  units: UnitRentTrajectory[];
+  floorPlans: FloorPlanRentTrajectory[];
+}
+
+function normalizeKeyPart(value: string | number | null | undefined): string {
+  return String(value ?? '').trim().toLowerCase().replace(/^(unit|apt\.?|apartment|#)\s*/i, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Stable identity for a unit across snapshots. Listings with real unit numbers
+ * are keyed by the number; floor-plan-only rows (unit number missing or equal
+ * to the plan name) are keyed by plan and size.
+ */
+export function getUnitKey(unit: UnitIdentityFields): string {
+  const unitNumber = normalizeKeyPart(unit.unitNumber);
+  const floorPlanName = normalizeKeyPart(unit.floorPlanName);
+
+  if (unitNumber && unitNumber !== floorPlanName) {
+    return `unit:${unitNumber}`;
+  }
+  return `plan:${floorPlanName || normalizeKeyPart(unit.unitType)}:${unit.squareFootage ?? ''}`;
+}
+
+function getFloorPlanKey(unit: Pick<ScrapeSnapshotUnit, 'floorPlanName' | 'unitType'>): string {
+  return normalizeKeyPart(unit.floorPlanName) || `type:${normalizeKeyPart(unit.unitType)}`;
+}
+
+function toRent(value: string | null): number | null {
+  if (value === null) return null;
+  const rent = parseFloat(value);
+  return isNaN(rent) || rent <= 0 ? null : rent;
+}
+
+/**
+ * Record a scrape run's units as a new snapshot. History is secondary to the
+ * scrape itself, so failures are logged rather than thrown.
+ */
+export async function recordScrapeSnapshot(source: ScrapeSnapshotSource, units: InsertScrapedUnit[]): Promise<ScrapeSnapshot | null> {
+  try {
+    return await storage.createScrapeSnapshot(
+      {
+        url: source.url,
+        propertyProfileId: source.propertyProfileId ?? null,
+        scrapedPropertyId: source.scrapedPropertyId ?? null,
+        scrapingJobId: source.scrapingJobId ?? null,
+        unitCount: units.length,
+        parserName: source.parserName ?? null,
+        parserConfidence: source.parserConfidence?.toString() ?? null
+      },
+      units.map(unit => ({
+        unitKey: getUnitKey(unit),
+        unitNumber: unit.unitNumber ?? null,
+        floorPlanName: unit.floorPlanName ?? null,
+        unitType: unit.unitType,
+        bedrooms: unit.bedrooms ?? null,
+        bathrooms: unit.bathrooms ?? null,
+        squareFootage: unit.squareFootage ?? null,
+        rent: unit.rent ?? null,
+        availabilityDate: unit.availabilityDate ?? null,
+        status: unit.status ?? null
+      }))
+    );
+  } catch (error) {
+    console.error(`[RENT_HISTORY] Failed to record scrape snapshot for ${source.url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build per-unit and per-floor-plan rent series from snapshots (oldest first)
+ */
+export function buildRentTrajectory(url: string, snapshots: ScrapeSnapshot[], snapshotUnits: ScrapeSnapshotUnit[]): RentTrajectory {
+  const snapshotById = new Map(snapshots.map(snapshot => [snapshot.id, snapshot]));
+  const unitsBySnapshot = new Map<string, ScrapeSnapshotUnit[]>();
+  for (const unit of snapshotUnits) {
+    if (!snapshotById.has(unit.snapshotId)) continue;
+    const list = unitsBySnapshot.get(unit.snapshotId) || [];
+    list.push(unit);
+    unitsBySnapshot.set(unit.snapshotId, list);
+  }
+
+  const unitTrajectories = new Map<string, UnitRentTrajectory>();
+  const floorPlanTrajectories = new Map<string, FloorPlanRentTrajectory>();
+
+  for (const snapshot of snapshots) {
+    const units = unitsBySnapshot.get(snapshot.id) || [];
+    const floorPlanRents = new Map<string, { count: number; rents: number[] }>();
+
+    for (const unit of units) {
+      const rent = toRent(unit.rent);
+
+      // Latest snapshot wins for descriptive fields, so a renamed plan shows its current name
+      const trajectory = unitTrajectories.get(unit.unitKey) || {
+        unitKey: unit.unitKey,
+        unitNumber: unit.unitNumber,
+        floorPlanName: unit.floorPlanName,
+        unitType: unit.unitType,
+        bedrooms: unit.bedrooms,
+        squareFootage: unit.squareFootage,
+        points: [],
+        firstRent: null,
+        latestRent: null,
+        rentChange: null,
+        rentChangePercent: null
+      };
+      trajectory.floorPlanName = unit.floorPlanName ?? trajectory.floorPlanName;
+      trajectory.points.push({ snapshotId: snapshot.id, capturedAt: snapshot.capturedAt, rent, status: unit.status });
+      unitTrajectories.set(unit.unitKey, trajectory);
+
+      const floorPlanKey = getFloorPlanKey(unit);
+      if (!floorPlanTrajectories.has(floorPlanKey)) {
+        floorPlanTrajectories.set(floorPlanKey, {
+          floorPlanKey,
+          floorPlanName: unit.floorPlanName,
+          unitType: unit.unitType,
+          bedrooms: unit.bedrooms,
+          points: []
+        });
+      }
+      const planRents = floorPlanRents.get(floorPlanKey) || { count: 0, rents: [] };
+      planRents.count++;
+      if (rent !== null) planRents.rents.push(rent);
+      floorPlanRents.set(floorPlanKey, planRents);
+    }
+
+    floorPlanRents.forEach(({ count, rents }, floorPlanKey) => {
+      floorPlanTrajectories.get(floorPlanKey)!.points.push({
+        snapshotId: snapshot.id,
+        capturedAt: snapshot.capturedAt,
+        unitCount: count,
+        avgRent: rents.length > 0 ? Math.round(rents.reduce((sum, rent) => sum + rent, 0) / rents.length) : null,
+        minRent: rents.length > 0 ? Math.min(...rents) : null,
+        maxRent: rents.length > 0 ? Math.max(...rents) : null
+      });
+    });
+  }
+
+  const units = Array.from(unitTrajectories.values()).map(trajectory => {
+    const rents = trajectory.points.map(point => point.rent).filter((rent): rent is number => rent !== null);
+    const firstRent = rents.length > 0 ? rents[0] : null;
+    const latestRent = rents.length > 0 ? rents[rents.length - 1] : null;
+    const rentChange = firstRent !== null && latestRent !== null ? latestRent - firstRent : null;
+    return {
+      ...trajectory,
+      firstRent,
+      latestRent,
+      rentChange,
+      rentChangePercent: rentChange !== null && firstRent ? Math.round((rentChange / firstRent) * 10000) / 100 : null
+    };
+  });
+
+  return {
+    url,
+    snapshots: snapshots.map(snapshot => ({
+      id: snapshot.id,
+      capturedAt: snapshot.capturedAt,
+      unitCount: snapshot.unitCount,
+      parserName: snapshot.parserName
+    })),
+    units: units.sort((a, b) => (a.bedrooms ?? 0) - (b.bedrooms ?? 0) || a.unitKey.localeCompare(b.unitKey)),
+    floorPlans: Array.from(floorPlanTrajectories.values())
+      .sort((a, b) => (a.bedrooms ?? 0) - (b.bedrooms ?? 0) || a.floorPlanKey.localeCompare(b.floorPlanKey))
+  };
+}
+
+/**
+ * Rent trajectory for a listing URL, optionally limited to snapshots since a date
+ */
+export async function getRentTrajectory(url: string, since?: Date): Promise<RentTrajectory> {
+  const snapshots = await storage.getScrapeSnapshotsByUrl(url, since);
+  const snapshotUnits = await storage.getScrapeSnapshotUnits(snapshots.map(snapshot => snapshot.id));
+  return buildRentTrajectory(url, snapshots, snapshotUnits);
+}
@@ -0,0 +1,384 @@
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import express, { type Express } from "express";
+import ExcelJS from "exceljs";
+import { useMemoryStorage } from "./test-helpers";
+import { ScrapingJobQueue } from "./scraping-job-queue";
+import { ScrapeScheduler } from "./scrape-scheduler";
+import { WebhookDispatcher } from "./webhooks";
+import { storage, type MemStorageLegacy } from "./storage";
+
+const OWNER_ID = "user-owner";
+const OTHER_USER_ID = "user-other";
+
+// Routes on the legacy `properties` table, which has no owner column, and retired endpoints that answer 410
+const UNGUARDED_ROUTE_PREFIXES = ["/api/properties/", "/api/workflow/"];
+const RETIRED_ROUTES = ["POST /api/analysis-sessions/:sessionId/apply-pricing"];
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  route: any;
+}
+
+interface RouteRequest {
+  body?: unknown;
+  query?: Record<string, string>;
+  file?: { buffer: Buffer };
+}
+
+interface RouteResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Every method and path registered on the app's router
+ */
+function getRegisteredRoutes(app: Express): RegisteredRoute[] {
+  const routes: RegisteredRoute[] = [];
+  for (const layer of (app as any)._router.stack) {
+    if (!layer.route) continue;
+    for (const method of Object.keys(layer.route.methods)) {
+      routes.push({ method: method.toUpperCase(), path: layer.route.path, route: layer.route });
+    }
+  }
+  return routes;
+}
+
+/**
+ * Run a route's middleware and handler as a signed-in user, resolving with the
+ * first response they send
+ */
+function callRoute(route: any, method: string, params: Record<string, string>, userId: string, request: RouteRequest = {}): Promise<RouteResponse> {
+  return new Promise((resolve, reject) => {
+    let status = 200;
+    const respond = (body?: unknown) => resolve({ status, body });
+    const req: any = {
+      method,
+      params,
+      query: request.query ?? {},
+      body: request.body ?? {},
+      file: request.file,
+      headers: {},
+      get: () => undefined,
+      header: () => undefined,
+      on: () => req,
+      auth: () => ({ userId, tokenType: "session_token" })
+    };
+    const res: any = {
+      locals: {},
+      headersSent: false,
+      status: (code: number) => { status = code; return res; },
+      sendStatus: (code: number) => { status = code; respond(); return res; },
+      json: respond,
+      send: respond,
+      end: respond,
+      set: () => res,
+      setHeader: () => res,
+      writeHead: (code: number) => { status = code; respond(); return res; },
+      flushHeaders: () => undefined,
+      write: () => true,
+      on: () => res
+    };
+    route.dispatch(req, res, (error?: unknown) => error ? reject(error) : resolve({ status: 404, body: null }));
+  });
+}
+
+describe("route authorization", () => {
+  let app: Express;
+  let memory: MemStorageLegacy;
+  let resourceIds: Record<string, string>;
+
+  before(async () => {
+    // routes.ts builds its OpenAI client and background workers on import
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || "test-key";
+    const { registerRoutes } = await import("./routes");
+    mock.method(ScrapingJobQueue.prototype, "start", async () => undefined);
+    mock.method(ScrapeScheduler.prototype, "start", () => undefined);
+    mock.method(WebhookDispatcher.prototype, "start", () => undefined);
+    app = express();
+    await registerRoutes(app);
+    mock.restoreAll();
+  });
+
+  beforeEach(async () => {
+    memory = useMemoryStorage();
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "warn", () => undefined);
+
+    const organization = await memory.createOrganization({ name: "Owner Co", createdBy: OWNER_ID });
+    await memory.addOrganizationMember({ organizationId: organization.id, userId: OWNER_ID, role: "owner" });
+
+    const profile = await memory.createPropertyProfile({
+      name: "Owner Apartments",
+      address: "1 Owner Way",
+      url: "https://owner.example.com/",
+      profileType: "subject",
+      userId: OWNER_ID
+    });
+    const session = await memory.createAnalysisSession({ name: "Owner Session", userId: OWNER_ID });
+    await memory.addPropertyProfileToSession({ sessionId: session.id, propertyProfileId: profile.id, role: "subject" });
+    const unit = await memory.createPropertyUnit({
+      propertyProfileId: profile.id,
+      unitNumber: "101",
+      unitType: "1BR/1BA",
+      currentRent: "1500"
+    });
+    const lease = await memory.createLease({ propertyUnitId: unit.id });
+    const proposal = await memory.createPricingProposal({ sessionId: session.id, createdBy: OWNER_ID }, [
+      { propertyUnitId: unit.id, currentRent: "1500", proposedRent: "1550" }
+    ]);
+    // The in-memory store has no tag definitions or selection templates
+    const tag = { id: "tag-owner", propertyProfileId: profile.id, tag: "Renovated" };
+    mock.method(storage, "getTagDefinition", async (id: string) => id === tag.id ? tag : undefined);
+    const scrapingJob = await memory.createScrapingJob({
+      propertyProfileId: profile.id,
+      stage: "session_direct_scraping",
+      cityUrl: profile.url,
+      status: "completed"
+    });
+    const scrapedProperty = await memory.createScrapedProperty({
+      scrapingJobId: scrapingJob.id,
+      name: "Scraped Apartments",
+      address: "4 Scraped Way",
+      url: "https://scraped.example.com/"
+    });
+    const candidate = await memory.upsertCompetitorCandidate({
+      subjectProfileId: profile.id,
+      url: "https://candidate.example.com/",
+      name: "Candidate Apartments",
+      address: "2 Candidate Way",
+      matchScore: "80",
+      similarity: {}
+    });
+    const portfolio = await memory.createPortfolio({ name: "Owner Portfolio", userId: OWNER_ID });
+    const savedProfile = await memory.createSavedPropertyProfile({
+      portfolioId: portfolio.id,
+      name: profile.name,
+      address: profile.address,
+      url: profile.url,
+      role: "subject"
+    });
+    const competitorProfile = await memory.createSavedPropertyProfile({
+      portfolioId: portfolio.id,
+      name: "Rival Apartments",
+      address: "3 Rival Way",
+      url: "https://rival.example.com/",
+      role: "competitor"
+    });
+    const relationship = await memory.createCompetitiveRelationship({
+      portfolioId: portfolio.id,
+      propertyAId: savedProfile.id,
+      propertyBId: competitorProfile.id,
+      relationshipType: "direct_competitor"
+    });
+    const template = { id: "template-owner", name: "Owner Template", userId: OWNER_ID, organizationId: null };
+    mock.method(storage, "getSavedSelectionTemplate", async (id: string) => id === template.id ? template : undefined);
+    const apiKey = await memory.createApiKey({ userId: OWNER_ID, name: "Owner Key", keyPrefix: "mk_owner", keyHash: "hash" });
+    const webhook = await memory.createWebhookSubscription({ userId: OWNER_ID, url: "https://hooks.example.com/", events: ["scrape.completed"], secret: "secret" });
+    const [delivery] = await memory.createWebhookDeliveries([
+      { subscriptionId: webhook.id, eventId: "event-1", event: "scrape.completed", payload: {} }
+    ]);
+
+    // Keyed by "<collection>/:<param>", the path segment a parameter follows
+    resourceIds = {
+      "analysis-sessions/:id": session.id,
+      "analysis-sessions/:sessionId": session.id,
+      "session/:sessionId": session.id,
+      "properties/:propertyProfileId": profile.id,
+      "property-profiles/:id": profile.id,
+      "property-profiles/:propertyId": profile.id,
+      "property-profiles/:profileId": savedProfile.id,
+      "export-excel/:propertyId": profile.id,
+      "competitor-candidates/:candidateId": candidate.id,
+      "units/:id": unit.id,
+      "leases/:id": lease.id,
+      "pricing-proposals/:id": proposal.id,
+      "tag-definitions/:id": tag.id,
+      "scraping/:jobId": scrapingJob.id,
+      "portfolios/:id": portfolio.id,
+      "portfolios/:portfolioId": portfolio.id,
+      "competitive-relationships/:relationshipId": relationship.id,
+      "saved-selection-templates/:id": template.id,
+      "organizations/:id": organization.id,
+      "members/:userId": OWNER_ID,
+      "api-keys/:id": apiKey.id,
+      "webhooks/:id": webhook.id,
+      "deliveries/:deliveryId": delivery.id,
+      "scraped-properties/:id": scrapedProperty.id
+    };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /**
+   * Route parameters filled with the owner's resources, or null when a
+   * parameter has no seeded resource
+   */
+  function resolveParams(path: string): Record<string, string> | null {
+    const segments = path.split("/");
+    const params: Record<string, string> = {};
+    for (let i = 1; i < segments.length; i++) {
+      if (!segments[i].startsWith(":")) continue;
+      const resourceId = resourceIds[`${segments[i - 1]}/${segments[i]}`];
+      if (!resourceId) return null;
+      params[segments[i].slice(1)] = resourceId;
+    }
+    return params;
+  }
+
+  it("denies every user-scoped route to a user who doesn't own the resource", async () => {
+    const guardedRoutes = getRegisteredRoutes(app).filter(({ method, path }) =>
+      path.includes("/:") &&
+      !UNGUARDED_ROUTE_PREFIXES.some(prefix => path.startsWith(prefix)) &&
+      !RETIRED_ROUTES.includes(`${method} ${path}`)
+    );
+    assert.ok(guardedRoutes.length > 50, "expected the app's routes to be registered");
+
+    const failures: string[] = [];
+    for (const { method, path, route } of guardedRoutes) {
+      const params = resolveParams(path);
+      if (!params) {
+        failures.push(`${method} ${path}: no seeded resource for its parameters`);
+        continue;
+      }
+      const response = await callRoute(route, method, params, OTHER_USER_ID);
+      if (response.status !== 403) {
+        failures.push(`${method} ${path}: ${response.status}`);
+      }
+    }
+
+    assert.deepEqual(failures, []);
+  });
+
+  it("lets the owner through the same guards", async () => {
+    const response = await callRoute(
+      getRegisteredRoutes(app).find(({ method, path }) => method === "GET" && path === "/api/analysis-sessions/:sessionId")!.route,
+      "GET",
+      resolveParams("/api/analysis-sessions/:sessionId")!,
+      OWNER_ID
+    );
+
+    assert.equal(response.status, 200);
+  });
+
+  it("denies routes that take the resource from the request body to a user who doesn't own it", async () => {
+    const routes = getRegisteredRoutes(app);
+    const findRoute = (method: string, path: string) => routes.find(candidate => candidate.method === method && candidate.path === path)!.route;
+    const profileId = resourceIds["property-profiles/:id"];
+    const unitId = resourceIds["units/:id"];
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet("Units").addRow(["Unit Number", "Unit Type", "Current Rent"]);
+    const file = { buffer: Buffer.from(await workbook.xlsx.writeBuffer()) };
+
+    const requests: Array<[string, string, RouteRequest]> = [
+      ["POST", "/api/units", { body: { propertyProfileId: profileId, unitNumber: "102", unitType: "2BR/2BA", currentRent: 1800 } }],
+      ["POST", "/api/units/bulk-update", { body: { updates: [{ id: unitId, updates: { status: "vacant" } }] } }],
+      ["POST", "/api/units/bulk-delete", { body: { ids: [unitId] } }],
+      ["GET", "/api/tag-definitions", { query: { propertyProfileId: profileId } }],
+      ["POST", "/api/tag-definitions", { body: { propertyProfileId: profileId, tag: "Corner" } }],
+      ["PUT", "/api/tag-definitions/reorder", { body: { propertyProfileId: profileId, tags: [{ id: "tag-owner", displayOrder: 1 }] } }],
+      ["POST", "/api/competitors/scrape-units", { body: { competitorIds: [resourceIds["scraped-properties/:id"]] } }],
+      ["POST", "/api/import-excel", { body: { propertyProfileId: profileId }, file }]
+    ];
+
+    const failures: string[] = [];
+    for (const [method, path, request] of requests) {
+      const response = await callRoute(findRoute(method, path), method, {}, OTHER_USER_ID, request);
+      if (response.status !== 403) {
+        failures.push(`${method} ${path}: ${response.status}`);
+      }
+    }
+
+    assert.deepEqual(failures, []);
+    assert.ok(await memory.getPropertyUnit(unitId));
+  });
+
+  it("lets an organization viewer read shared resources but not change them", async () => {
+    const routes = getRegisteredRoutes(app);
+    const findRoute = (method: string, path: string) => routes.find(candidate => candidate.method === method && candidate.path === path)!.route;
+    const organizationId = resourceIds["organizations/:id"];
+    await memory.addOrganizationMember({ organizationId, userId: OTHER_USER_ID, role: "viewer" });
+    const profile = await memory.createPropertyProfile({
+      name: "Shared Apartments",
+      address: "5 Shared Way",
+      url: "https://shared.example.com/",
+      profileType: "subject",
+      userId: OWNER_ID,
+      organizationId
+    });
+
+    const read = await callRoute(findRoute("GET", "/api/property-profiles/:id"), "GET", { id: profile.id }, OTHER_USER_ID);
+    const write = await callRoute(findRoute("PUT", "/api/property-profiles/:id"), "PUT", { id: profile.id }, OTHER_USER_ID, {
+      body: { name: "Renamed" }
+    });
+    const createUnit = await callRoute(findRoute("POST", "/api/units"), "POST", {}, OTHER_USER_ID, {
+      body: { propertyProfileId: profile.id, unitNumber: "101", unitType: "1BR/1BA", currentRent: 1500 }
+    });
+    const renameOrganization = await callRoute(findRoute("PUT", "/api/organizations/:id"), "PUT", { id: organizationId }, OTHER_USER_ID, {
+      body: { name: "Viewer Co" }
+    });
+
+    assert.equal(read.status, 200);
+    assert.equal(write.status, 403);
+    assert.equal(createUnit.status, 403);
+    assert.equal(renameOrganization.status, 403);
+    assert.equal((await memory.getPropertyProfile(profile.id))?.name, "Shared Apartments");
+  });
+
+  it("rejects webhook URLs that resolve to private or loopback addresses", async () => {
+    const routes = getRegisteredRoutes(app);
+    const findRoute = (method: string, path: string) => routes.find(candidate => candidate.method === method && candidate.path === path)!.route;
+
+    const created = await callRoute(findRoute("POST", "/api/webhooks"), "POST", {}, OWNER_ID, {
+      body: { url: "http://169.254.169.254/latest/meta-data/", events: ["scrape.completed"] }
+    });
+    assert.equal(created.status, 400);
+
+    const updated = await callRoute(findRoute("PUT", "/api/webhooks/:id"), "PUT", resolveParams("/api/webhooks/:id")!, OWNER_ID, {
+      body: { url: "http://127.0.0.1:5000/hooks" }
+    });
+    assert.equal(updated.status, 400);
+    const subscription = await memory.getWebhookSubscription(resourceIds["webhooks/:id"]);
+    assert.equal(subscription?.url, "https://hooks.example.com/");
+  });
+
+  it("ignores recommended rents in unit create and bulk update requests", async () => {
+    const routes = getRegisteredRoutes(app);
+    const findRoute = (path: string) => routes.find(candidate => candidate.method === "POST" && candidate.path === path)!.route;
+    const profileId = resourceIds["property-profiles/:id"];
+
+    const created = await callRoute(findRoute("/api/units"), "POST", {}, OWNER_ID, {
+      body: { propertyProfileId: profileId, unitNumber: "102", unitType: "2BR/2BA", currentRent: 1800, recommendedRent: 2400 }
+    });
+    assert.equal(created.status, 200);
+    assert.equal((created.body as any).recommendedRent ?? null, null);
+
+    const updated = await callRoute(findRoute("/api/units/bulk-update"), "POST", {}, OWNER_ID, {
+      body: { updates: [{ id: resourceIds["units/:id"], updates: { status: "vacant", recommendedRent: "2000" } }] }
+    });
+    assert.equal(updated.status, 200);
+    const unit = await memory.getPropertyUnit(resourceIds["units/:id"]);
+    assert.equal(unit?.status, "vacant");
+    assert.equal(unit?.recommendedRent ?? null, null);
+  });
+
+  it("ignores the recommended rent column in unit imports", async () => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Units");
+    worksheet.addRow(["Unit Number", "Unit Type", "Current Rent", "Recommended Rent"]);
+    worksheet.addRow(["101", "1BR/1BA", 1500, 2400]);
+    const file = { buffer: Buffer.from(await workbook.xlsx.writeBuffer()) };
+    const route = getRegisteredRoutes(app).find(({ method, path }) => method === "POST" && path === "/api/import-excel")!.route;
+
+    const response = await callRoute(route, "POST", {}, OWNER_ID, { body: { propertyProfileId: resourceIds["property-profiles/:id"] }, file });
+
+    assert.equal(response.status, 200);
+    const [unit] = await memory.getPropertyUnitsByProfile(resourceIds["property-profiles/:id"]);
+    assert.equal(unit.currentRent, "1500");
+    assert.equal(unit.recommendedRent ?? null, null);
+  });
+});
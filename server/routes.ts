@@ -1,12 +1,34 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPropertySchema, insertPropertyAnalysisSchema, insertOptimizationReportSchema, insertScrapingJobSchema, insertPropertyProfileSchema, insertAnalysisSessionSchema, insertSessionPropertyProfileSchema, filterCriteriaSchema, sessionFilteredAnalysisRequestSchema, insertSavedPortfolioSchema, insertSavedPropertyProfileSchema, insertCompetitiveRelationshipSchema, insertPropertyUnitSchema, insertTagDefinitionSchema, type PropertyUnit, type ScrapedUnit, type UnitMix } from "@shared/schema";
+import { insertPropertySchema, insertPropertyAnalysisSchema, insertOptimizationReportSchema, insertScrapingJobSchema, insertPropertyProfileSchema, insertAnalysisSessionSchema, insertSessionPropertyProfileSchema, filterCriteriaSchema, sessionFilteredAnalysisRequestSchema, insertSavedPortfolioSchema, insertSavedPropertyProfileSchema, insertCompetitiveRelationshipSchema, propertyUnitWriteSchema, propertyUnitBulkUpdateSchema, insertTagDefinitionSchema, scrapeScheduleUpdateSchema, insertOrganizationSchema, organizationMemberRequestSchema, organizationRoleUpdateSchema, apiKeyCreateRequestSchema, webhookSubscriptionRequestSchema, webhookSubscriptionUpdateSchema, leaseRequestSchema, renewalPricingRequestSchema, leaseExpirationTargetsUpdateSchema, pricingProposalRequestSchema, pricingProposalSubmitSchema, pricingProposalDecisionSchema, amenityWeightsUpdateSchema, poiDistancesSchema, competitorDiscoveryRequestSchema, COMPETITOR_DISCOVERY_STAGE, type OptimizationReport, type PropertyProfile, type PropertyUnit, type ScrapedProperty, type ScrapedUnit, type ScrapingJob, type UnitMix, type PropertyScrapingStatus, type SessionScrapingStatus, type OptimizationProgress } from "@shared/schema";
 import { normalizeAmenities } from "@shared/utils";
 import { clerkMiddleware } from './clerkAuth';
 import { isAuthenticated, getAuthenticatedUserId } from "./clerkAuth";
+import { canAccessOrganization, canAccessResource, canAssignOrganization, getUserOrganizationIds, loadResourceOwner, requireAccess } from "./authorization";
 import { getAuth } from '@clerk/express';
-import { extractPropertyData, parseFirecrawlData } from "./firecrawl";
+import { generateApiKey, toApiKeyResponse } from "./api-keys";
+import { registerPublicApi } from "./public-api";
+import { checkWebhookUrl, emitWebhookEvent, generateWebhookSecret, toWebhookSubscriptionResponse, webhookDispatcher } from "./webhooks";
+import { sessionEvents } from "./session-events";
+import { getPropertyScraper } from "./property-scraper";
+import { getRentTrajectory, recordScrapeSnapshot } from "./rent-history";
+import { applyUnitAttributeColumn, inferFloorFromUnitNumber } from "./unit-attributes";
+import { DEFAULT_EXPIRING_WITHIN_DAYS, applyLeaseColumn, getExpiringLeases, hasLeaseData, saveCurrentLease, saveImportedLeases, type LeaseFields } from "./leases";
+import { generateRenewalPricing } from "./renewal-pricing";
+import { buildUnitHierarchy } from "./unit-hierarchy";
+import { getLeaseExpirationProfile } from "./lease-expiration";
+import { getAmenityTaxonomy } from "./amenities";
+import { geocodePropertyProfile, updateSessionDistances } from "./geocoding";
+import { getPortfolioMapData, getSessionMapData, refreshSessionMapLocations } from "./property-map";
+import { acceptCompetitorCandidate, getDefaultSearchUrl, runCompetitorDiscovery } from "./competitor-discovery";
+import { canTransitionProposal, getApproverError, getPricingApprovers, getPricingProposalDetail, resolveProposalUnits } from "./pricing-proposals";
+import { ScrapeScheduler, isValidScrapeSchedule, resolveProfileScrapeSchedule } from "./scrape-scheduler";
+import { validateScrape } from "./scrape-validation";
+import { runPropertyScrape, toQuarantinedUnits } from "./scrape-job";
+import { ScrapingJobQueue, describeScrapingJobAttempts, type ScrapingJobOutcome } from "./scraping-job-queue";
+import { listPricingStrategies, parsePricingStrategyParams } from "./pricing-strategies";
+import { buildComparableUnits, getComparableStats, calculateRentPerSqFt } from "./market-comparables";
 import OpenAI from "openai";
 import { z } from "zod";
 import crypto from "crypto";
@@ -29,218 +51,15 @@ const scrapeAnalysisSessionSchema = z.object({
   // Can add additional options here if needed
 });
 
-// Background job processor for non-blocking scraping
+// Background job processor for non-blocking scraping. Jobs are leased, retried and
+// dead-lettered by the durable queue; this class only performs the scrape itself.
 class ScrapingJobProcessor {
-  private processingJobs = new Set<string>();
-
-  async processScrapingJob(jobId: string): Promise<void> {
-    if (this.processingJobs.has(jobId)) {
-      console.log(`[JOB_PROCESSOR] Job ${jobId} already being processed`);
-      return;
+  async executeScrapingJob(job: ScrapingJob): Promise<ScrapingJobOutcome> {
+    if (job.stage === COMPETITOR_DISCOVERY_STAGE) {
+      return runCompetitorDiscovery(job);
     }
 
-    this.processingJobs.add(jobId);
-    
-    try {
-      const job = await storage.getScrapingJob(jobId);
-      if (!job) {
-        console.error(`[JOB_PROCESSOR] Job ${jobId} not found`);
-        return;
-      }
-
-      if (job.status !== 'pending') {
-        console.log(`[JOB_PROCESSOR] Job ${jobId} already processed, status: ${job.status}`);
-        return;
-      }
-
-      console.log(`[JOB_PROCESSOR] Processing job ${jobId} for property profile ${job.propertyProfileId}`);
-
-      // Update job status to processing
-      await storage.updateScrapingJob(jobId, { status: 'processing' });
-
-      // Get property profile
-      const propertyProfile = await storage.getPropertyProfile(job.propertyProfileId!);
-      if (!propertyProfile || !propertyProfile.url) {
-        await storage.updateScrapingJob(jobId, {
-          status: 'failed',
-          errorMessage: 'Property profile not found or has no URL'
-        });
-        return;
-      }
-
-      try {
-        // Call Firecrawl API - gets BOTH structured extraction AND markdown in a single call
-        // This ensures we always have markdown content for the OpenAI fallback
-        const scrapingResult = await extractPropertyData(propertyProfile.url);
-
-        // Parse the structured extraction results
-        let parsedData = parseFirecrawlData(scrapingResult.extract);
-        const markdownContent = scrapingResult.markdown || '';
-
-        console.log(`[JOB_PROCESSOR] Firecrawl returned: ${parsedData.units.length} extracted units, ${markdownContent.length} chars markdown`);
-
-        // IMPORTANT: Update property profile METADATA (amenities, builtYear, totalUnits, unitMix)
-        // This updates property-level information but NOT individual units
-        // The unit-level data goes to scrapedUnits table only
-        await storage.updatePropertyProfile(job.propertyProfileId!, {
-          amenities: parsedData.property.amenities.length > 0 ? parsedData.property.amenities : propertyProfile.amenities,
-          builtYear: parsedData.property.builtYear || propertyProfile.builtYear,
-          totalUnits: parsedData.property.totalUnits || propertyProfile.totalUnits,
-          unitMix: parsedData.property.unitMix || (propertyProfile.unitMix as UnitMix) || undefined
-        });
-        console.log(`[JOB_PROCESSOR] Updated property profile metadata for ${job.propertyProfileId} (unitMix: ${JSON.stringify(parsedData.property.unitMix)})`);
-
-        // FALLBACK: If structured extraction returned 0 units, use the markdown from the SAME
-        // Firecrawl response (no second API call needed) and parse with OpenAI
-        if (parsedData.units.length === 0 && markdownContent.length > 200) {
-          console.log(`[JOB_PROCESSOR] Structured extraction returned 0 units for ${propertyProfile.url}, parsing ${markdownContent.length} chars of markdown with OpenAI...`);
-          try {
-            // Use up to 50000 chars - apartments.com pages are large and unit listings
-            // are often far below the property overview/photos/amenities sections
-            const truncatedMarkdown = markdownContent.slice(0, 50000);
-
-            const aiResponse = await openai.chat.completions.create({
-              model: "gpt-4o",
-              messages: [
-                {
-                  role: "system",
-                  content: `You are a data extraction assistant specializing in apartment listing websites. Extract every individual available apartment unit from the provided webpage content.
-
-On sites like apartments.com, units are organized under floor plans. Each floor plan section contains individual available units with specific unit numbers, rent prices, square footage, and availability dates. Extract EACH individual unit as a separate entry.
-
-For example, if you see:
-  "The Franc - 1 Bed, 1 Bath"
-  "Unit 135 - 515 sq ft - $910 - Available Now"
-  "Unit 146 - 593 sq ft - $960 - Available Now"
-
-Extract each as a separate unit with the floor plan name "The Franc", unitType "1 Bedroom", etc.
-
-If units are shown as floor plan summaries without individual unit numbers (e.g. "1 Bedroom - from $1,200 - 5 available"), still extract them as units using the floor plan name as the unitNumber.
-
-Return a JSON object with a "units" array. Each unit should have:
-- unitNumber (string): The specific unit number/identifier (or floor plan name if no unit number)
-- floorPlanName (string or null): Name of the floor plan
-- unitType (string): "Studio", "1 Bedroom", "2 Bedroom", "3 Bedroom", etc.
-- bedrooms (number): Number of bedrooms (0 for studio)
-- bathrooms (number): Number of bathrooms
-- squareFootage (number or null): Size in sq ft
-- rent (number): Monthly rent price as a number
-- availabilityDate (string or null): When available
-
-Include units that have at least a rent price or square footage listed.`
-                },
-                {
-                  role: "user",
-                  content: `Extract all individual available apartment units from this property listing page:\n\n${truncatedMarkdown}`
-                }
-              ],
-              temperature: 0,
-              response_format: { type: "json_object" }
-            });
-
-            const aiContent = aiResponse.choices[0]?.message?.content || '{}';
-            try {
-              const parsed = JSON.parse(aiContent);
-              const fallbackUnits = Array.isArray(parsed) ? parsed : (parsed.units || []);
-              if (fallbackUnits.length > 0) {
-                console.log(`[JOB_PROCESSOR] OpenAI fallback extracted ${fallbackUnits.length} units from markdown`);
-                parsedData = {
-                  ...parsedData,
-                  units: fallbackUnits.map((unit: any) => ({
-                    unitNumber: unit.unitNumber || '',
-                    floorPlanName: unit.floorPlanName || null,
-                    unitType: unit.unitType || `${unit.bedrooms || 0}BR`,
-                    bedrooms: unit.bedrooms ?? null,
-                    bathrooms: unit.bathrooms ?? null,
-                    squareFootage: unit.squareFootage ?? null,
-                    rent: unit.rent ?? null,
-                    availabilityDate: unit.availabilityDate || null,
-                  }))
-                };
-              } else {
-                console.log(`[JOB_PROCESSOR] OpenAI fallback also returned 0 units from ${markdownContent.length} chars of markdown`);
-              }
-            } catch (parseError) {
-              console.error(`[JOB_PROCESSOR] Failed to parse OpenAI fallback response:`, parseError);
-            }
-          } catch (fallbackError) {
-            console.error(`[JOB_PROCESSOR] OpenAI markdown fallback failed:`, fallbackError);
-            // Continue with empty units - don't fail the entire job
-          }
-        } else if (parsedData.units.length === 0) {
-          console.log(`[JOB_PROCESSOR] No units extracted and markdown too short (${markdownContent.length} chars) for fallback`);
-        }
-
-        // IMPORTANT: WE DO NOT UPDATE propertyUnits TABLE DURING SCRAPING
-        // The propertyUnits table contains user-managed internal data (TAGs, custom classifications)
-        // We only update the scrapedUnits table with external market data
-        console.log(`[JOB_PROCESSOR] Skipping propertyUnits update to preserve user's TAG data for profile ${job.propertyProfileId}`);
-
-        // Create scraped property record
-        const scrapedProperty = await storage.createScrapedProperty({
-          scrapingJobId: jobId,
-          name: parsedData.property.name,
-          url: propertyProfile.url,
-          address: parsedData.property.address,
-          isSubjectProperty: propertyProfile.profileType === 'subject'
-        });
-
-        // CRITICAL: Update scrapedUnits table with latest market data
-        // This replaces all scraped units for this property with fresh data from the scraping
-        // The scrapedUnits table contains external market data (prices, availability, etc.)
-        const unitsToInsert = parsedData.units
-          .filter(unitData => unitData.unitType)
-          .map(unitData => ({
-            propertyId: scrapedProperty.id,
-            unitNumber: unitData.unitNumber,
-            floorPlanName: unitData.floorPlanName,
-            unitType: unitData.unitType,
-            bedrooms: unitData.bedrooms,
-            bathrooms: unitData.bathrooms?.toString(),
-            squareFootage: unitData.squareFootage,
-            rent: unitData.rent?.toString(),
-            availabilityDate: unitData.availabilityDate
-          }));
-
-        await storage.replaceScrapedUnitsForProperty(scrapedProperty.id, unitsToInsert);
-        console.log(`[JOB_PROCESSOR] Updated scrapedUnits table with ${unitsToInsert.length} units for property ${scrapedProperty.id}`);
-
-        // Update job status to completed
-        await storage.updateScrapingJob(jobId, {
-          status: 'completed',
-          completedAt: new Date(),
-          results: {
-            propertyData: parsedData.property,
-            unitsCount: unitsToInsert.length,
-            scrapedPropertyId: scrapedProperty.id
-          }
-        });
-
-        console.log(`[JOB_PROCESSOR] Job ${jobId} completed successfully (${unitsToInsert.length} units saved)`);
-
-      } catch (scrapingError) {
-        console.error(`[JOB_PROCESSOR] Scraping failed for job ${jobId}:`, scrapingError);
-        
-        await storage.updateScrapingJob(jobId, {
-          status: 'failed',
-          errorMessage: scrapingError instanceof Error ? scrapingError.message : String(scrapingError)
-        });
-      }
-
-    } catch (error) {
-      console.error(`[JOB_PROCESSOR] Error processing job ${jobId}:`, error);
-      
-      try {
-        await storage.updateScrapingJob(jobId, {
-          status: 'failed',
-          errorMessage: error instanceof Error ? error.message : String(error)
-        });
-      } catch (updateError) {
-        console.error(`[JOB_PROCESSOR] Failed to update job ${jobId} status:`, updateError);
-      }
-    } finally {
-      this.processingJobs.delete(jobId);
-    }
+    return runPropertyScrape(job);
   }
 
   async processSessionScrapingJobs(sessionId: string): Promise<void> {
@@ -270,15 +89,11 @@ Include units that have at least a rent price or square footage listed.`
         jobs.push(scrapingJob);
       }
 
-      // Process all jobs in parallel (but don't wait for completion)
-      jobs.forEach(job => {
-        // Fire and forget - don't await
-        this.processScrapingJob(job.id).catch(error => {
-          console.error(`[JOB_PROCESSOR] Error processing job ${job.id}:`, error);
-        });
-      });
+      // Jobs are picked up by the durable queue, up to its concurrency limit
+      scrapingJobQueue.wake();
+      sessionEvents.publish(sessionId, 'scraping-status', await buildSessionScrapingStatus(sessionId));
 
-      console.log(`[JOB_PROCESSOR] Started processing ${jobs.length} jobs for session ${sessionId}`);
+      console.log(`[JOB_PROCESSOR] Queued ${jobs.length} jobs for session ${sessionId}`);
 
     } catch (error) {
       console.error(`[JOB_PROCESSOR] Error processing session ${sessionId}:`, error);
@@ -287,694 +102,174 @@ Include units that have at least a rent price or square footage listed.`
 }
 
 const scrapingJobProcessor = new ScrapingJobProcessor();
-
-// DEPRECATED: Old Scrapezy functions - replaced by Firecrawl
-// These functions are kept for reference but are no longer used
-// The application now uses extractPropertyData() and parseFirecrawlData() from firecrawl.ts
-
-async function callScrapezyScrapeDirectProperty(url: string): Promise<any> {
-  console.log(`🚀 [SCRAPEZY_DIRECT] Starting direct property scraping for URL: ${url}`);
-  console.log(`🚀 [SCRAPEZY_DIRECT] API Key configured: ${!!SCRAPEZY_API_KEY}`);
-  
-  if (!SCRAPEZY_API_KEY) {
-    console.error(`❌ [SCRAPEZY_DIRECT] API key not configured`);
-    throw new Error("Scrapezy API key not configured");
-  }
-
-  // Special handling for The Flats on Howard - use simpler prompt to avoid JSON parsing issues
-  let prompt;
-  if (url.includes('flats-on-howard') || url.includes('5q2rrcq')) {
-    console.log(`🎯 [SCRAPEZY_DIRECT] Using special simplified prompt for The Flats on Howard`);
-    prompt = `Extract apartment information from this property page including:
-    - Property name (should be "The Flats on Howard" or similar)
-    - Full street address in Omaha, NE
-    - All available apartments with: number of bedrooms, bathrooms, square feet, monthly rent price
-    - List of amenities if shown
-    - Year built and total units if available
-    Format the response as: 
-    Property: [name]
-    Address: [full address]
-    Amenities: [list amenities separated by commas]
-    Year Built: [year or "not available"]
-    Total Units: [number or "not available"]
-    
-    Available Units:
-    - Unit 1: [bedrooms] bed, [bathrooms] bath, [sqft] sq ft, $[rent]/month
-    - Unit 2: [bedrooms] bed, [bathrooms] bath, [sqft] sq ft, $[rent]/month
-    (continue for all available units)`;
-  } else {
-    // Use the original detailed prompt for all other properties
-    prompt = `Extract detailed apartment property information from this apartments.com property page. Extract: 1) Property name/title, 2) Full address, 3) All available unit types/floor plans with details including: unit number (if available), floor plan name, unit type (Studio, 1BR, 2BR, etc.), bedrooms count, bathrooms count, square footage, monthly rent price, availability date. 4) Property amenities list, 5) Property details like year built, total units, pet policy. Return as JSON with structure: {"property": {"name": "", "address": "", "amenities": [], "builtYear": null, "totalUnits": null, "petPolicy": ""}, "units": [{"unitNumber": "", "floorPlanName": "", "unitType": "", "bedrooms": 0, "bathrooms": 0, "squareFootage": 0, "rent": 0, "availabilityDate": ""}]}`;
-  }
-  
-  console.log(`🚀 [SCRAPEZY_DIRECT] Using ${url.includes('flats-on-howard') || url.includes('5q2rrcq') ? 'special' : 'direct'} property scraping prompt`);
-
-  // Create job
-  console.log(`🚀 [SCRAPEZY_DIRECT] Creating scraping job...`);
-  const requestBody = {
-    url,
-    prompt
-  };
-  console.log(`🚀 [SCRAPEZY_DIRECT] Request body:`, JSON.stringify(requestBody, null, 2));
-  
-  const jobResponse = await fetch(SCRAPEZY_BASE_URL, {
-    method: "POST",
-    headers: {
-      "x-api-key": SCRAPEZY_API_KEY,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(requestBody),
-    signal: AbortSignal.timeout(30000)
-  });
-
-  console.log(`🚀 [SCRAPEZY_DIRECT] Job creation response status: ${jobResponse.status} ${jobResponse.statusText}`);
-
-  if (!jobResponse.ok) {
-    const responseText = await jobResponse.text();
-    console.error(`❌ [SCRAPEZY_DIRECT] Job creation failed. Response body: ${responseText}`);
-    throw new Error(`Scrapezy API error: ${jobResponse.status} ${jobResponse.statusText}`);
+const scrapingJobQueue = new ScrapingJobQueue(job => scrapingJobProcessor.executeScrapingJob(job), {}, {
+  onSettled: job => {
+    emitScrapeSettledEvent(job).catch(error => {
+      console.error(`[WEBHOOKS] Failed to emit scrape event for job ${job.id}:`, error);
+    });
+  },
+  onTransition: job => {
+    publishScrapingStatus(job).catch(error => {
+      console.error(`[SESSION_EVENTS] Failed to publish scraping status for job ${job.id}:`, error);
+    });
   }
+});
+const scrapeScheduler = new ScrapeScheduler(() => scrapingJobQueue.wake());
+
+/**
+ * Notify webhook subscribers that a scraping job finished (dead-lettered jobs count as failed)
+ */
+async function emitScrapeSettledEvent(job: ScrapingJob): Promise<void> {
+  // Discovery runs don't scrape the profile itself
+  if (job.stage === COMPETITOR_DISCOVERY_STAGE) return;
+
+  const owner = await loadResourceOwner('scrapingJob', job.id);
+  if (!owner) return;
+
+  await emitWebhookEvent(job.status === 'completed' ? 'scrape.completed' : 'scrape.failed', owner, {
+    scrapingJobId: job.id,
+    status: job.status,
+    trigger: job.trigger,
+    propertyProfileId: job.propertyProfileId,
+    sessionId: job.sessionId,
+    url: job.cityUrl,
+    attempts: job.attempts,
+    errorMessage: job.errorMessage,
+    completedAt: job.completedAt
+  });
+}
 
-  const jobData = await jobResponse.json();
-  console.log(`🚀 [SCRAPEZY_DIRECT] Job creation response data:`, JSON.stringify(jobData, null, 2));
+/**
+ * Per-property scraping status for a session, based on each property's latest job
+ */
+async function buildSessionScrapingStatus(sessionId: string): Promise<SessionScrapingStatus> {
+  // Get all property profiles associated with this session
+  const propertyProfiles = await storage.getPropertyProfilesInSession(sessionId);
   
-  const jobId = jobData.id || jobData.jobId;
+  // Build properties array with detailed scraping status
+  const properties: PropertyScrapingStatus[] = [];
+  let completedProperties = 0;
+  let failedProperties = 0;
+  let processingProperties = 0;
+  let pendingProperties = 0;
   
-  if (!jobId) {
-    console.error(`❌ [SCRAPEZY_DIRECT] No job ID received from response`);
-    throw new Error('No job ID received from Scrapezy');
-  }
-
-  console.log(`🚀 [SCRAPEZY_DIRECT] Job created successfully with ID: ${jobId}`);
-
-  // Poll for results
-  let attempts = 0;
-  const maxAttempts = 15; // 2.5 minutes maximum
-  const POLL_INTERVAL = 10000; // 10 seconds
-  let finalResult = null;
-
-  console.log(`🚀 [SCRAPEZY_DIRECT] Starting polling for job ${jobId}`);
-
-  while (attempts < maxAttempts) {
-    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
-    attempts++;
+  for (const profile of propertyProfiles) {
+    // Get scraping jobs for this property profile
+    const scrapingJobs = await storage.getScrapingJobsByProfile(profile.id);
     
-    console.log(`🚀 [SCRAPEZY_DIRECT] Polling attempt ${attempts}/${maxAttempts} for job ${jobId}`);
+    // Determine property-level scraping status based on latest job
+    let scrapingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'none' = 'none';
+    let errorMessage: string | undefined = undefined;
+    let unitsFound = 0;
+    let attemptInfo: ReturnType<typeof describeScrapingJobAttempts> | undefined = undefined;
+    let deadLetter = false;
     
-    const resultResponse = await fetch(`${SCRAPEZY_BASE_URL}/${jobId}`, {
-      headers: {
-        "x-api-key": SCRAPEZY_API_KEY,
-        "Content-Type": "application/json"
-      },
-      signal: AbortSignal.timeout(30000)
-    });
-
-    console.log(`🚀 [SCRAPEZY_DIRECT] Polling response status: ${resultResponse.status} ${resultResponse.statusText}`);
-
-    if (!resultResponse.ok) {
-      const responseText = await resultResponse.text();
-      console.error(`❌ [SCRAPEZY_DIRECT] Polling failed. Response body: ${responseText}`);
-      throw new Error(`Scrapezy polling error: ${resultResponse.status} ${resultResponse.statusText}`);
+    if (scrapingJobs.length > 0) {
+      // Sort jobs by creation date to get the latest
+      const sortedJobs = scrapingJobs.sort((a, b) => {
+        const dateA = a.createdAt ? new Date(a.createdAt) : new Date(0);
+        const dateB = b.createdAt ? new Date(b.createdAt) : new Date(0);
+        return dateB.getTime() - dateA.getTime();
+      });
+      
+      const latestJob = sortedJobs[0];
+      attemptInfo = describeScrapingJobAttempts(latestJob);
+      // Dead-lettered jobs have exhausted their retries and count as failed
+      deadLetter = latestJob.status === 'dead_letter';
+      scrapingStatus = deadLetter ? 'failed' : (latestJob.status as 'pending' | 'processing' | 'completed' | 'failed') || 'pending';
+      
+      if ((scrapingStatus === 'failed' || attemptInfo.nextRetryAt) && latestJob.errorMessage) {
+        errorMessage = latestJob.errorMessage;
+      }
+      
+      // Get units count for completed jobs
+      if (latestJob.status === 'completed') {
+        const units = await storage.getPropertyUnitsByProfile(profile.id);
+        unitsFound = units.length;
+      }
     }
-
-    const resultData = await resultResponse.json();
-    console.log(`🚀 [SCRAPEZY_DIRECT] Polling response data:`, JSON.stringify(resultData, null, 2));
     
-    if (resultData.status === 'completed') {
-      console.log(`✅ [SCRAPEZY_DIRECT] Job ${jobId} completed successfully!`);
-      finalResult = resultData;
-      break;
-    } else if (resultData.status === 'failed') {
-      console.error(`❌ [SCRAPEZY_DIRECT] Job ${jobId} failed:`, resultData.error || 'Unknown error');
-      throw new Error(`Scrapezy job failed: ${resultData.error || 'Unknown error'}`);
-    } else {
-      console.log(`⏳ [SCRAPEZY_DIRECT] Job ${jobId} still processing, status: ${resultData.status}`);
-    }
-  }
-
-  if (!finalResult && attempts >= maxAttempts) {
-    console.error(`❌ [SCRAPEZY_DIRECT] Job ${jobId} timed out after ${maxAttempts} attempts`);
-    throw new Error('Scrapezy job timed out after 2.5 minutes');
-  }
-
-  console.log(`🎉 [SCRAPEZY_DIRECT] Returning final result for job ${jobId}`);
-  return finalResult;
-}
-
-// LEGACY: Scrapezy API integration functions (kept for backward compatibility)
-async function callScrapezyScraping(url: string, customPrompt?: string) {
-  console.log(`🚀 [SCRAPEZY] Starting scraping for URL: ${url}`);
-  console.log(`🚀 [SCRAPEZY] API Key configured: ${!!SCRAPEZY_API_KEY}`);
-  console.log(`🚀 [SCRAPEZY] Base URL: ${SCRAPEZY_BASE_URL}`);
-  
-  if (!SCRAPEZY_API_KEY) {
-    console.error(`❌ [SCRAPEZY] API key not configured`);
-    throw new Error("Scrapezy API key not configured");
-  }
-
-  const prompt = customPrompt || "Extract apartment listings from this apartments.com page. For each apartment property listing, extract: 1) The complete URL link to the individual apartment page (must start with https://www.apartments.com/), 2) The property/apartment name or title, 3) The address or location information. Return as JSON array with objects containing \"url\", \"name\", and \"address\" fields.";
-  
-  console.log(`🚀 [SCRAPEZY] Using prompt: ${prompt.substring(0, 100)}...`);
-
-  // Create job
-  console.log(`🚀 [SCRAPEZY] Creating scraping job...`);
-  const requestBody = {
-    url,
-    prompt
-  };
-  console.log(`🚀 [SCRAPEZY] Request body:`, JSON.stringify(requestBody, null, 2));
-  
-  const jobResponse = await fetch(SCRAPEZY_BASE_URL, {
-    method: "POST",
-    headers: {
-      "x-api-key": SCRAPEZY_API_KEY,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(requestBody),
-    signal: AbortSignal.timeout(30000)
-  });
-
-  console.log(`🚀 [SCRAPEZY] Job creation response status: ${jobResponse.status} ${jobResponse.statusText}`);
-  console.log(`🚀 [SCRAPEZY] Job creation response headers:`, Object.fromEntries(jobResponse.headers.entries()));
-
-  if (!jobResponse.ok) {
-    const responseText = await jobResponse.text();
-    console.error(`❌ [SCRAPEZY] Job creation failed. Response body: ${responseText}`);
-    throw new Error(`Scrapezy API error: ${jobResponse.status} ${jobResponse.statusText}`);
-  }
-
-  const jobData = await jobResponse.json();
-  console.log(`🚀 [SCRAPEZY] Job creation response data:`, JSON.stringify(jobData, null, 2));
-  
-  const jobId = jobData.id || jobData.jobId;
-  
-  if (!jobId) {
-    console.error(`❌ [SCRAPEZY] No job ID received from response`);
-    console.error(`❌ [SCRAPEZY] Full response data keys:`, Object.keys(jobData));
-    throw new Error('No job ID received from Scrapezy');
-  }
-
-  console.log(`🚀 [SCRAPEZY] Job created successfully with ID: ${jobId}`);
-
-  // Poll for results
-  let attempts = 0;
-  const maxAttempts = 15; // 2.5 minutes maximum
-  const POLL_INTERVAL = 10000; // 10 seconds
-  let finalResult = null;
-
-  console.log(`🚀 [SCRAPEZY] Starting polling for job ${jobId} (max ${maxAttempts} attempts, ${POLL_INTERVAL}ms interval)`);
-
-  while (attempts < maxAttempts) {
-    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
-    attempts++;
+    // Update counters
+    if (scrapingStatus === 'completed') completedProperties++;
+    else if (scrapingStatus === 'failed') failedProperties++;
+    else if (scrapingStatus === 'processing') processingProperties++;
+    else if (scrapingStatus === 'pending') pendingProperties++;
     
-    console.log(`🚀 [SCRAPEZY] Polling attempt ${attempts}/${maxAttempts} for job ${jobId}`);
+    // Build property entry
+    const propertyEntry: PropertyScrapingStatus = {
+      propertyId: profile.id,
+      propertyName: profile.name,
+      profileType: profile.profileType,
+      scrapingStatus,
+      unitsFound,
+      attempts: attemptInfo?.attempts ?? 0,
+      maxAttempts: attemptInfo?.maxAttempts ?? null,
+      nextRetryAt: attemptInfo?.nextRetryAt ?? null,
+      deadLetter
+    };
     
-    const resultResponse = await fetch(`${SCRAPEZY_BASE_URL}/${jobId}`, {
-      headers: {
-        "x-api-key": SCRAPEZY_API_KEY,
-        "Content-Type": "application/json"
-      },
-      signal: AbortSignal.timeout(30000)
-    });
-
-    console.log(`🚀 [SCRAPEZY] Polling response status: ${resultResponse.status} ${resultResponse.statusText}`);
-
-    if (!resultResponse.ok) {
-      const responseText = await resultResponse.text();
-      console.error(`❌ [SCRAPEZY] Polling failed. Response body: ${responseText}`);
-      throw new Error(`Scrapezy polling error: ${resultResponse.status} ${resultResponse.statusText}`);
+    if (errorMessage) {
+      propertyEntry.errorMessage = errorMessage;
     }
-
-    const resultData = await resultResponse.json();
-    console.log(`🚀 [SCRAPEZY] Polling response data:`, JSON.stringify(resultData, null, 2));
     
-    if (resultData.status === 'completed') {
-      console.log(`✅ [SCRAPEZY] Job ${jobId} completed successfully!`);
-      console.log(`✅ [SCRAPEZY] Final result structure:`, typeof resultData.result, Array.isArray(resultData.result) ? `Array[${resultData.result.length}]` : `Object with keys: ${Object.keys(resultData.result || {})}`);
-      finalResult = resultData;
-      break;
-    } else if (resultData.status === 'failed') {
-      console.error(`❌ [SCRAPEZY] Job ${jobId} failed:`, resultData.error || 'Unknown error');
-      throw new Error(`Scrapezy job failed: ${resultData.error || 'Unknown error'}`);
-    } else {
-      console.log(`⏳ [SCRAPEZY] Job ${jobId} still processing, status: ${resultData.status}`);
-    }
-    // Continue polling if status is pending
+    properties.push(propertyEntry);
   }
-
-  if (!finalResult && attempts >= maxAttempts) {
-    console.error(`❌ [SCRAPEZY] Job ${jobId} timed out after ${maxAttempts} attempts (${(maxAttempts * POLL_INTERVAL) / 1000} seconds)`);
-    throw new Error('Scrapezy job timed out after 2.5 minutes');
-  }
-
-  console.log(`🎉 [SCRAPEZY] Returning final result for job ${jobId}`);
-  return finalResult;
-}
-
-// Parse Scrapezy results to extract property URLs
-function parseUrls(scrapezyResult: any): Array<{url: string, name: string, address: string}> {
-  console.log(`🔍 [PARSE_URLS] Starting URL parsing...`);
-  console.log(`🔍 [PARSE_URLS] Input data type: ${typeof scrapezyResult}`);
-  console.log(`🔍 [PARSE_URLS] Input data keys:`, Object.keys(scrapezyResult || {}));
-  console.log(`🔍 [PARSE_URLS] Full input structure:`, JSON.stringify(scrapezyResult, null, 2));
   
-  let properties = [];
+  // Calculate overall status
+  const totalProperties = properties.length;
+  let overallStatus: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
   
-  try {
-    // Try to get the result from the response structure
-    const resultText = scrapezyResult.result || scrapezyResult.data || scrapezyResult;
-    console.log(`🔍 [PARSE_URLS] Extracted result text type: ${typeof resultText}`);
-    console.log(`🔍 [PARSE_URLS] Result text keys:`, typeof resultText === 'object' ? Object.keys(resultText) : 'N/A');
-    
-    if (typeof resultText === 'string') {
-      try {
-        const parsed = JSON.parse(resultText);
-        
-        // Check for apartment_listings or apartments key (Scrapezy format)
-        const apartmentData = parsed.apartment_listings || parsed.apartments;
-        if (apartmentData && Array.isArray(apartmentData)) {
-          properties = apartmentData.filter(item => 
-            item && 
-            typeof item === 'object' && 
-            item.url && 
-            typeof item.url === 'string' &&
-            item.url.includes('apartments.com') &&
-            item.url.startsWith('http')
-          );
-        }
-        // Also check if it's a direct array
-        else if (Array.isArray(parsed)) {
-          properties = parsed.filter(item => 
-            item && 
-            typeof item === 'object' && 
-            item.url && 
-            typeof item.url === 'string' &&
-            item.url.includes('apartments.com') &&
-            item.url.startsWith('http')
-          );
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse JSON result, trying fallback parsing');
-        // Fallback: try to extract URLs from text
-        const lines = resultText.split('\n');
-        for (const line of lines) {
-          if (line.includes('apartments.com') && line.startsWith('http')) {
-            properties.push({
-              url: line.trim(),
-              name: 'Property',
-              address: 'Address not available'
-            });
-          }
-        }
-      }
-    } else if (typeof resultText === 'object' && resultText !== null) {
-      // Handle object response (already parsed)
-      const apartmentDataObj = resultText.apartment_listings || resultText.apartments;
-      if (apartmentDataObj && Array.isArray(apartmentDataObj)) {
-        properties = apartmentDataObj.filter(item => 
-          item && 
-          typeof item === 'object' && 
-          item.url && 
-          typeof item.url === 'string' &&
-          item.url.includes('apartments.com')
-        );
-      } else if (Array.isArray(resultText)) {
-        properties = resultText.filter(item => 
-          item && 
-          typeof item === 'object' && 
-          item.url && 
-          typeof item.url === 'string' &&
-          item.url.includes('apartments.com')
-        );
-      }
-    }
-  } catch (error) {
-    console.error('Error parsing Scrapezy result:', error);
+  if (processingProperties > 0) {
+    // If any property is still being scraped
+    overallStatus = 'processing';
+  } else if (completedProperties === totalProperties && totalProperties > 0) {
+    // All properties scraped successfully
+    overallStatus = 'completed';
+  } else if (failedProperties === totalProperties && totalProperties > 0) {
+    // All properties failed
+    overallStatus = 'failed';
+  } else if (completedProperties > 0 && failedProperties > 0) {
+    // Some completed and some failed
+    overallStatus = 'partial';
+  } else if (pendingProperties === totalProperties && totalProperties > 0) {
+    // All are pending
+    overallStatus = 'pending';
+  } else {
+    // Default to pending if no properties or unclear state
+    overallStatus = 'pending';
   }
 
-  // Ensure all properties have required fields and deduplicate
-  const validProperties = properties
-    .map(prop => ({
-      url: prop.url?.trim() || '',
-      name: prop.name?.trim() || 'Property Name Not Available',
-      address: prop.address?.trim() || 'Address Not Available'
-    }))
-    .filter(prop => prop.url)
-    .filter((prop, index, arr) => arr.findIndex(p => p.url === prop.url) === index);
-
-  return validProperties;
-}
-
-// NEW: Parse direct property scraping results from Scrapezy
-function parseDirectPropertyData(scrapezyResult: any): {
-  property: {
-    name: string;
-    address: string;
-    amenities: string[];
-    builtYear?: number;
-    totalUnits?: number;
-    petPolicy?: string;
-  };
-  units: Array<{
-    unitNumber?: string;
-    floorPlanName?: string;
-    unitType: string;
-    bedrooms?: number;
-    bathrooms?: number;
-    squareFootage?: number;
-    rent?: number;
-    availabilityDate?: string;
-  }>;
-} {
-  console.log(`🔍 [PARSE_DIRECT_PROPERTY] Starting direct property data parsing...`);
-  console.log(`🔍 [PARSE_DIRECT_PROPERTY] Input data type: ${typeof scrapezyResult}`);
-  
-  let propertyData = {
-    property: {
-      name: 'Property Name Not Available',
-      address: 'Address Not Available',
-      amenities: [] as string[],
-      builtYear: undefined as number | undefined,
-      totalUnits: undefined as number | undefined,
-      petPolicy: undefined as string | undefined
-    },
-    units: [] as Array<{
-      unitNumber?: string;
-      floorPlanName?: string;
-      unitType: string;
-      bedrooms?: number;
-      bathrooms?: number;
-      squareFootage?: number;
-      rent?: number;
-      availabilityDate?: string;
-    }>
+  return {
+    sessionId,
+    overallStatus,
+    properties,
+    totalProperties,
+    completedProperties,
+    failedProperties,
+    processingProperties
   };
-  
-  try {
-    // Try to get the result from the response structure
-    const resultText = scrapezyResult.result || scrapezyResult.data || scrapezyResult;
-    console.log(`🔍 [PARSE_DIRECT_PROPERTY] Extracted result text type: ${typeof resultText}`);
-    
-    if (typeof resultText === 'string') {
-      try {
-        const parsed = JSON.parse(resultText);
-        
-        // Check if this is the flat format (The Flats on Howard format)
-        if (parsed.property_name || parsed.available_units) {
-          console.log('[PARSE_DIRECT_PROPERTY] Detected flat JSON format (property_name/available_units)');
-          
-          // Extract property information from flat format
-          propertyData.property = {
-            name: parsed.property_name || parsed.name || 'Property Name Not Available',
-            address: parsed.address || 'Address Not Available',
-            amenities: Array.isArray(parsed.amenities) ? parsed.amenities : [],
-            builtYear: parseNumber(parsed.year_built || parsed.built_year || parsed.yearBuilt),
-            totalUnits: parseNumber(parsed.total_units || parsed.totalUnits),
-            petPolicy: parsed.pet_policy || parsed.petPolicy || undefined
-          };
-          
-          // Extract units from available_units array
-          if (Array.isArray(parsed.available_units)) {
-            propertyData.units = parsed.available_units
-              .filter((unit: any) => unit && typeof unit === 'object')
-              .map((unit: any) => ({
-                unitNumber: unit.unit_number || unit.unitNumber || undefined,
-                floorPlanName: unit.floor_plan_name || unit.floorPlanName || undefined,
-                unitType: unit.unit_type || unit.unitType || `${unit.bedrooms || 0} Bedroom`,
-                bedrooms: parseNumber(unit.bedrooms || unit.beds),
-                bathrooms: normalizeBathrooms(unit.bathrooms || unit.baths),
-                squareFootage: normalizeSquareFootage(unit.square_feet || unit.squareFootage || unit.sqft),
-                rent: normalizeRent(unit.monthly_rent || unit.rent || unit.price),
-                availabilityDate: normalizeAvailability(unit.availability_date || unit.availabilityDate || 'Now')
-              }));
-          }
-        } 
-        // Standard nested format (property.name, units)
-        else if (parsed.property && typeof parsed.property === 'object') {
-          const prop = parsed.property;
-          propertyData.property = {
-            name: prop.name || prop.title || 'Property Name Not Available',
-            address: prop.address || 'Address Not Available',
-            amenities: Array.isArray(prop.amenities) ? prop.amenities : [],
-            builtYear: parseNumber(prop.builtYear || prop.built_year || prop.yearBuilt),
-            totalUnits: parseNumber(prop.totalUnits || prop.total_units || prop.unitCount),
-            petPolicy: prop.petPolicy || prop.pet_policy || undefined
-          };
-        }
-        
-        // Extract units information (standard format)
-        if (Array.isArray(parsed.units)) {
-          propertyData.units = parsed.units
-            .filter((unit: any) => unit && typeof unit === 'object' && (unit.unitType || unit.unit_type || unit.type))
-            .map((unit: any) => ({
-              unitNumber: unit.unitNumber || unit.unit_number || undefined,
-              floorPlanName: unit.floorPlanName || unit.floor_plan_name || unit.floorPlan || undefined,
-              unitType: unit.unitType || unit.unit_type || unit.type || 'Unknown',
-              bedrooms: parseNumber(unit.bedrooms || unit.beds),
-              bathrooms: normalizeBathrooms(unit.bathrooms || unit.baths),
-              squareFootage: normalizeSquareFootage(unit.squareFootage || unit.square_footage || unit.sqft),
-              rent: normalizeRent(unit.rent || unit.price || unit.monthlyRent),
-              availabilityDate: normalizeAvailability(unit.availabilityDate || unit.availability_date || unit.available)
-            }));
-        }
-        
-        // Fallback: if no structured units but we have root-level unit data
-        if (propertyData.units.length === 0 && parsed.unitType) {
-          propertyData.units.push({
-            unitType: parsed.unitType || parsed.unit_type || 'Unknown',
-            bedrooms: parseNumber(parsed.bedrooms || parsed.beds),
-            bathrooms: normalizeBathrooms(parsed.bathrooms || parsed.baths),
-            squareFootage: normalizeSquareFootage(parsed.squareFootage || parsed.square_footage || parsed.sqft),
-            rent: normalizeRent(parsed.rent || parsed.price || parsed.monthlyRent),
-            availabilityDate: normalizeAvailability(parsed.availabilityDate || parsed.availability_date)
-          });
-        }
-        
-      } catch (parseError) {
-        console.warn('[PARSE_DIRECT_PROPERTY] Failed to parse JSON result, trying fallback parsing');
-        
-        // Check if this is The Flats on Howard text format
-        if (resultText.includes('Property:') && resultText.includes('Available Units:')) {
-          console.log('[PARSE_DIRECT_PROPERTY] Detected Flats on Howard text format, parsing...');
-          
-          const lines = resultText.split('\n');
-          let currentSection = '';
-          
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-            
-            // Parse property name
-            if (trimmedLine.startsWith('Property:')) {
-              propertyData.property.name = trimmedLine.replace('Property:', '').trim() || 'The Flats on Howard';
-            }
-            // Parse address
-            else if (trimmedLine.startsWith('Address:')) {
-              propertyData.property.address = trimmedLine.replace('Address:', '').trim();
-            }
-            // Parse amenities
-            else if (trimmedLine.startsWith('Amenities:')) {
-              const amenitiesText = trimmedLine.replace('Amenities:', '').trim();
-              if (amenitiesText && amenitiesText.toLowerCase() !== 'not available') {
-                propertyData.property.amenities = amenitiesText.split(',').map(a => a.trim()).filter(a => a);
-              }
-            }
-            // Parse year built
-            else if (trimmedLine.startsWith('Year Built:')) {
-              const yearText = trimmedLine.replace('Year Built:', '').trim();
-              if (yearText && yearText.toLowerCase() !== 'not available') {
-                propertyData.property.builtYear = parseNumber(yearText);
-              }
-            }
-            // Parse total units
-            else if (trimmedLine.startsWith('Total Units:')) {
-              const unitsText = trimmedLine.replace('Total Units:', '').trim();
-              if (unitsText && unitsText.toLowerCase() !== 'not available') {
-                propertyData.property.totalUnits = parseNumber(unitsText);
-              }
-            }
-            // Section marker
-            else if (trimmedLine === 'Available Units:') {
-              currentSection = 'units';
-            }
-            // Parse unit lines (e.g., "- Unit 1: 2 bed, 1 bath, 950 sq ft, $1500/month")
-            else if (currentSection === 'units' && trimmedLine.startsWith('-')) {
-              const unitMatch = trimmedLine.match(/[-–]\s*(?:Unit\s*\d+:)?\s*(\d+)\s*bed(?:room)?s?\s*,?\s*(\d+(?:\.\d+)?)\s*bath(?:room)?s?\s*,?\s*(\d+)\s*sq\s*ft\s*,?\s*\$?([\d,]+)(?:\/month)?/i);
-              
-              if (unitMatch) {
-                const [, beds, baths, sqft, rent] = unitMatch;
-                propertyData.units.push({
-                  unitType: `${beds} Bedroom`,
-                  bedrooms: parseNumber(beds),
-                  bathrooms: normalizeBathrooms(baths),
-                  squareFootage: normalizeSquareFootage(sqft),
-                  rent: normalizeRent(rent.replace(/,/g, '')),
-                  availabilityDate: 'Now'
-                });
-              }
-            }
-          }
-          
-          // If we got the property name, we successfully parsed the text format
-          if (propertyData.property.name !== 'Property Name Not Available') {
-            console.log('[PARSE_DIRECT_PROPERTY] Successfully parsed Flats on Howard text format');
-          }
-        } else {
-          // Original fallback for other properties
-          const lines = resultText.split('\n');
-          for (const line of lines) {
-            if (line.includes('BR') || line.includes('Studio') || line.includes('bedroom')) {
-              propertyData.units.push({
-                unitType: line.trim(),
-                bedrooms: extractBedroomCount(line),
-                bathrooms: normalizeBathrooms(extractBathroomCount(line)),
-                rent: normalizeRent(extractRentPrice(line))
-              });
-            }
-          }
-        }
-      }
-    } else if (typeof resultText === 'object' && resultText !== null) {
-      // Handle object response (already parsed)
-      if (resultText.property && typeof resultText.property === 'object') {
-        const prop = resultText.property;
-        propertyData.property = {
-          name: prop.name || prop.title || 'Property Name Not Available',
-          address: prop.address || 'Address Not Available',
-          amenities: Array.isArray(prop.amenities) ? prop.amenities : [],
-          builtYear: parseNumber(prop.builtYear || prop.built_year || prop.yearBuilt),
-          totalUnits: parseNumber(prop.totalUnits || prop.total_units || prop.unitCount),
-          petPolicy: prop.petPolicy || prop.pet_policy || undefined
-        };
-      }
-      
-      if (Array.isArray(resultText.units)) {
-        propertyData.units = resultText.units
-          .filter((unit: any) => unit && typeof unit === 'object' && (unit.unitType || unit.unit_type || unit.type))
-          .map((unit: any) => ({
-            unitNumber: unit.unitNumber || unit.unit_number || undefined,
-            floorPlanName: unit.floorPlanName || unit.floor_plan_name || unit.floorPlan || undefined,
-            unitType: unit.unitType || unit.unit_type || unit.type || 'Unknown',
-            bedrooms: parseNumber(unit.bedrooms || unit.beds),
-            bathrooms: normalizeBathrooms(unit.bathrooms || unit.baths),
-            squareFootage: normalizeSquareFootage(unit.squareFootage || unit.square_footage || unit.sqft),
-            rent: normalizeRent(unit.rent || unit.price || unit.monthlyRent),
-            availabilityDate: normalizeAvailability(unit.availabilityDate || unit.availability_date || unit.available)
-          }));
-      }
-    }
-  } catch (error) {
-    console.error('[PARSE_DIRECT_PROPERTY] Error parsing Scrapezy result:', error);
-  }
-
-  console.log(`🔍 [PARSE_DIRECT_PROPERTY] Parsed property: ${propertyData.property.name}`);
-  console.log(`🔍 [PARSE_DIRECT_PROPERTY] Parsed ${propertyData.units.length} units`);
-  
-  return propertyData;
 }
 
-// LEGACY: Parse Scrapezy results to extract unit details (kept for backward compatibility)
-function parseUnitData(scrapezyResult: any): Array<{
-  unitNumber?: string;
-  floorPlanName?: string;
-  unitType: string;
-  bedrooms?: number;
-  bathrooms?: number;
-  squareFootage?: number;
-  rent?: number;
-  availabilityDate?: string;
-}> {
-  let units = [];
-  
-  try {
-    // Try to get the result from the response structure
-    const resultText = scrapezyResult.result || scrapezyResult.data || scrapezyResult;
-    console.log(`Parsing unit data. Result type: ${typeof resultText}, structure keys:`, typeof resultText === 'object' ? Object.keys(resultText) : 'N/A');
-    
-    if (typeof resultText === 'string') {
-      try {
-        const parsed = JSON.parse(resultText);
-        
-        // Check for different possible keys for unit data
-        // Handle nested "root" structure that Scrapezy uses
-        const rootData = parsed.root || parsed;
-        const unitData = rootData.units || rootData.availableUnits || rootData.apartment_units || rootData.listings || parsed.units || parsed.apartment_units || parsed.listings || parsed;
-        if (Array.isArray(unitData)) {
-          units = unitData.filter(item => 
-            item && 
-            typeof item === 'object' && 
-            (item.unitType || item.unit_type || item.type)
-          );
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse JSON result for units, trying fallback parsing');
-        // Fallback: try to extract basic unit info from text
-        const lines = resultText.split('\n');
-        for (const line of lines) {
-          if (line.includes('BR') || line.includes('Studio') || line.includes('bedroom')) {
-            units.push({
-              unitType: line.trim(),
-              bedrooms: extractBedroomCount(line),
-              bathrooms: normalizeBathrooms(extractBathroomCount(line)),
-              rent: normalizeRent(extractRentPrice(line))
-            });
-          }
-        }
-      }
-    } else if (typeof resultText === 'object' && resultText !== null) {
-      // Handle object response (already parsed)
-      // Handle nested "root" structure that Scrapezy uses
-      const rootData = resultText.root || resultText;
-      const unitDataObj = rootData.units || rootData.availableUnits || rootData.apartment_units || rootData.listings || resultText.units || resultText.apartment_units || resultText.listings;
-      if (Array.isArray(unitDataObj)) {
-        units = unitDataObj.filter(item => 
-          item && 
-          typeof item === 'object' && 
-          (item.unitType || item.unit_type || item.type)
-        );
-      } else if (Array.isArray(resultText)) {
-        units = resultText.filter(item => 
-          item && 
-          typeof item === 'object' && 
-          (item.unitType || item.unit_type || item.type)
-        );
-      }
+/**
+ * Stream fresh scraping status to sessions watching the job's property
+ */
+async function publishScrapingStatus(job: ScrapingJob): Promise<void> {
+  const sessionIds = new Set<string>();
+  for (const sessionId of sessionEvents.getSubscribedSessionIds()) {
+    if (sessionId === job.sessionId) {
+      sessionIds.add(sessionId);
+      continue;
+    }
+    // Scheduled and single-property scrapes aren't tied to a session but still change its status
+    const profiles = await storage.getPropertyProfilesInSession(sessionId);
+    if (profiles.some(profile => profile.id === job.propertyProfileId)) {
+      sessionIds.add(sessionId);
     }
-  } catch (error) {
-    console.error('Error parsing Scrapezy unit result:', error);
   }
 
-  // Normalize and validate unit data
-  const validUnits = units
-    .map(unit => ({
-      unitNumber: unit.unitNumber || unit.unit_number || null,
-      floorPlanName: unit.floorPlanName || unit.floor_plan_name || unit.planName || unit.plan_name || null,
-      unitType: unit.unitType || unit.unit_type || unit.type || 'Unknown',
-      bedrooms: parseNumber(unit.bedrooms || unit.bedroom_count),
-      bathrooms: normalizeBathrooms(unit.bathrooms || unit.bathroom_count),
-      squareFootage: normalizeSquareFootage(unit.squareFootage || unit.square_footage || unit.sqft),
-      rent: normalizeRent(unit.rent || unit.price || unit.monthlyRent),
-      availabilityDate: normalizeAvailability(unit.availabilityDate || unit.availability_date || unit.available)
-    }))
-    .filter(unit => unit.unitType && unit.unitType !== 'Unknown');
-
-  return validUnits;
-}
-
-// Helper functions for unit data parsing
-function extractBedroomCount(text: string): number | undefined {
-  const match = text.match(/(\d+)\s*BR|(\d+)\s*bedroom/i);
-  return match ? parseInt(match[1] || match[2]) : undefined;
-}
-
-function extractBathroomCount(text: string): number | undefined {
-  const match = text.match(/(\d+(?:\.\d+)?)\s*BA|(\d+(?:\.\d+)?)\s*bathroom/i);
-  return match ? parseFloat(match[1] || match[2]) : undefined;
-}
-
-function extractRentPrice(text: string): number | undefined {
-  const match = text.match(/\$(\d{1,3}(?:,\d{3})*)/);
-  return match ? parseInt(match[1].replace(/,/g, '')) : undefined;
+  for (const sessionId of Array.from(sessionIds)) {
+    sessionEvents.publish(sessionId, 'scraping-status', await buildSessionScrapingStatus(sessionId));
+  }
 }
 
 // Enhanced data normalization functions for proper numeric conversion
@@ -1082,34 +377,6 @@ function normalizeSquareFootage(value: any): number | undefined {
   return undefined;
 }
 
-function normalizeAvailability(value: any): string | undefined {
-  if (!value) return undefined;
-  if (typeof value === 'string') {
-    const cleanValue = value.trim().toLowerCase();
-    
-    // Standardize common availability patterns
-    if (cleanValue.includes('now') || cleanValue.includes('available') || cleanValue === 'immediate') {
-      return 'Available Now';
-    }
-    if (cleanValue.includes('call') || cleanValue.includes('contact')) {
-      return 'Call for Availability';
-    }
-    if (cleanValue.match(/\d{1,2}\/\d{1,2}\/\d{4}/)) {
-      // Already in date format MM/DD/YYYY
-      return value.trim();
-    }
-    if (cleanValue.match(/\d{4}-\d{2}-\d{2}/)) {
-      // Convert YYYY-MM-DD to MM/DD/YYYY
-      const [year, month, day] = cleanValue.split('-');
-      return `${month}/${day}/${year}`;
-    }
-    
-    // Return original value if no specific pattern matches
-    return value.trim();
-  }
-  return undefined;
-}
-
 // Helper function to determine if an availability date indicates current vacancy
 // Conservative approach: only return true if we're 100% certain the unit is vacant RIGHT NOW
 function isCurrentlyAvailable(availabilityDate: string | null | undefined): boolean {
@@ -1133,17 +400,115 @@ function isCurrentlyAvailable(availabilityDate: string | null | undefined): bool
   return false;
 }
 
-function parseNumber(value: any): number | undefined {
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') {
-    const num = parseFloat(value.replace(/[,$]/g, ''));
-    return isNaN(num) ? undefined : num;
+
+// Start date for a rent history query from an optional ?days=N parameter
+function parseRentHistorySince(days: unknown): Date | undefined {
+  const value = typeof days === 'string' ? parseInt(days, 10) : NaN;
+  if (isNaN(value) || value <= 0) return undefined;
+  return new Date(Date.now() - value * 24 * 60 * 60 * 1000);
+}
+
+// ?days=N window for expiring-lease views, defaulting to DEFAULT_EXPIRING_WITHIN_DAYS
+function parseExpiringWithinDays(days: unknown): number {
+  const value = typeof days === 'string' ? parseInt(days, 10) : NaN;
+  return isNaN(value) || value <= 0 ? DEFAULT_EXPIRING_WITHIN_DAYS : Math.min(value, 730);
+}
+
+// Whether removing or demoting this member would leave the organization without an owner
+async function isLastOrganizationOwner(organizationId: string, userId: string): Promise<boolean> {
+  const members = await storage.getOrganizationMembers(organizationId);
+  const owners = members.filter(member => member.role === 'owner');
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+interface PortfolioAnalyticsScope {
+  portfolioId: string | null;
+  subjectProperties: PropertyProfile[];
+  competitorProperties: PropertyProfile[];
+  optimizationReports: OptimizationReport[];
+}
+
+/**
+ * The user's own and organization-shared property profiles and optimization reports for portfolio
+ * analytics, optionally narrowed to one of their saved portfolios. Saved
+ * portfolios reference properties by listing URL, so profiles are matched on URL.
+ */
+async function getPortfolioAnalyticsScope(
+  userId: string,
+  portfolioId?: string
+): Promise<{ scope: PortfolioAnalyticsScope } | { status: number; message: string }> {
+  const organizationIds = await getUserOrganizationIds(userId);
+  let subjectProperties = await storage.getPropertyProfilesByUserAndType(userId, 'subject', organizationIds);
+  let competitorProperties = await storage.getPropertyProfilesByUserAndType(userId, 'competitor', organizationIds);
+
+  if (portfolioId) {
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio) {
+      return { status: 404, message: "Portfolio not found" };
+    }
+    if (!(await canAccessResource(userId, portfolio, 'read'))) {
+      return { status: 403, message: "Access denied" };
+    }
+
+    const savedProfiles = await storage.getSavedPropertyProfilesByPortfolio(portfolio.id);
+    const urls = new Set(savedProfiles.map(savedProfile => savedProfile.url));
+    subjectProperties = subjectProperties.filter(profile => urls.has(profile.url));
+    competitorProperties = competitorProperties.filter(profile => urls.has(profile.url));
   }
-  return undefined;
+
+  const optimizationReports = await storage.getOptimizationReportsByProfiles(subjectProperties.map(profile => profile.id));
+
+  return {
+    scope: {
+      portfolioId: portfolioId || null,
+      subjectProperties,
+      competitorProperties,
+      optimizationReports
+    }
+  };
 }
 
+/**
+ * The subject property to scrape alongside the selected competitors: the latest
+ * scrape of the session's subject profile when a session is given, otherwise the
+ * subject scraped in the same jobs as the competitors. Never another user's subject.
+ */
+async function resolveScrapeUnitsSubject(
+  userId: string,
+  competitors: ScrapedProperty[],
+  sessionId?: string
+): Promise<ScrapedProperty | null> {
+  const candidates: ScrapedProperty[] = [];
+
+  if (sessionId) {
+    const profiles = await storage.getPropertyProfilesInSession(sessionId);
+    for (const profile of profiles.filter(profile => profile.profileType === 'subject')) {
+      const latestJob = (await storage.getScrapingJobsByProfile(profile.id)).find(job => job.status === 'completed');
+      if (latestJob) {
+        candidates.push(...await storage.getScrapedPropertiesByJob(latestJob.id));
+      }
+    }
+  } else {
+    const jobIds = new Set(competitors.map(competitor => competitor.scrapingJobId));
+    for (const jobId of Array.from(jobIds)) {
+      candidates.push(...await storage.getScrapedPropertiesByJob(jobId));
+    }
+  }
+
+  for (const candidate of candidates.filter(property => property.isSubjectProperty)) {
+    // Legacy property-based scrapes have no owner, like the competitors they came with
+    const owner = await loadResourceOwner('scrapedProperty', candidate.id);
+    if (owner && await canAccessResource(userId, owner, 'write', { allowUnowned: true })) {
+      return candidate;
+    }
+  }
+  return null;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Public REST API for integrations - authenticated by API key, so it sits in front of Clerk
+  registerPublicApi(app);
+
   // Clerk middleware - MUST be first
   // @clerk/express auto-reads from CLERK_PUBLISHABLE_KEY and CLERK_SECRET_KEY env vars
   console.log('[CLERK] Initializing Clerk middleware...');
@@ -1255,7 +620,7 @@ Please provide your analysis in this exact JSON format:
   });
 
   // Get property with analysis and linked scraped data
-  app.get("/api/properties/:id", async (req, res) => {
+  app.get("/api/properties/:id", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       console.log('[GET_PROPERTY] Fetching property:', propertyId);
@@ -1347,7 +712,7 @@ Please provide your analysis in this exact JSON format:
   });
 
   // Get all competitor properties (using scraped data only)
-  app.get("/api/competitors", async (req, res) => {
+  app.get("/api/competitors", isAuthenticated, async (req: any, res) => {
     try {
       console.log('[GET_COMPETITORS] ===========================================');
       console.log('[GET_COMPETITORS] Fetching scraped competitors...');
@@ -1424,7 +789,7 @@ Please provide your analysis in this exact JSON format:
   });
 
   // Get selected competitor properties for comparison
-  app.post("/api/competitors/selected", async (req, res) => {
+  app.post("/api/competitors/selected", isAuthenticated, async (req: any, res) => {
     try {
       const { ids } = req.body;
       if (!Array.isArray(ids)) {
@@ -1455,7 +820,7 @@ Please provide your analysis in this exact JSON format:
 
 
   // Get property units
-  app.get("/api/properties/:id/units", async (req, res) => {
+  app.get("/api/properties/:id/units", isAuthenticated, async (req: any, res) => {
     try {
       const units = await storage.getPropertyUnits(req.params.id);
       res.json(units);
@@ -1505,6 +870,13 @@ Please provide your analysis in this exact JSON format:
         console.log('[SESSION_ANALYSIS] ℹ️ No competitor properties - proceeding with subject-only analysis');
       }
 
+      // Geocode the session's properties so competitor distances and the location score are current
+      try {
+        await updateSessionDistances(sessionId);
+      } catch (distanceError) {
+        console.warn('[SESSION_ANALYSIS] Failed to update competitor distances:', distanceError);
+      }
+
       // Generate multi-property analysis
       const analysis = await storage.generateMultiPropertyAnalysis(sessionId, filterCriteria);
 
@@ -1687,8 +1059,108 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     }
   });
 
+  // Amenity taxonomy with the session's effective value weights
+  app.get("/api/analysis-sessions/:sessionId/amenity-weights", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      res.json({ sessionId: session.id, amenities: getAmenityTaxonomy(session.amenityWeights) });
+    } catch (error) {
+      console.error("[AMENITIES] Error getting amenity weights:", error);
+      res.status(500).json({ message: "Failed to get amenity weights" });
+    }
+  });
+  
+  // Override amenity value weights for the session (null restores the defaults)
+  app.put("/api/analysis-sessions/:sessionId/amenity-weights", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const validationResult = amenityWeightsUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      
+      const updatedSession = await storage.updateAnalysisSession(session.id, validationResult.data);
+      res.json({ sessionId: session.id, amenities: getAmenityTaxonomy((updatedSession ?? session).amenityWeights) });
+    } catch (error) {
+      console.error("[AMENITIES] Error updating amenity weights:", error);
+      res.status(500).json({ message: "Failed to update amenity weights" });
+    }
+  });
+
+  // Geocode the session's properties and recompute competitor distances to the nearest subject
+  app.post("/api/analysis-sessions/:sessionId/distances", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const result = await updateSessionDistances(session.id);
+      res.json({
+        sessionId: session.id,
+        geocoded: result.geocoded,
+        distancesUpdated: result.distancesUpdated,
+        unresolved: result.unresolved,
+        properties: result.profiles.map(profile => ({
+          propertyProfileId: profile.id,
+          name: profile.name,
+          profileType: profile.profileType,
+          latitude: profile.latitude,
+          longitude: profile.longitude,
+          distance: profile.distance
+        }))
+      });
+    } catch (error) {
+      console.error("[GEOCODING] Error updating session distances:", error);
+      res.status(500).json({ message: "Failed to update distances" });
+    }
+  });
+
+  // Map pins for the session's properties, plus competitor profiles that can be added to it
+  app.get("/api/analysis-sessions/:sessionId/map", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      const mapData = await getSessionMapData(session, userId, await getUserOrganizationIds(userId));
+      res.json(mapData);
+    } catch (error) {
+      console.error("[PROPERTY_MAP] Error fetching session map:", error);
+      res.status(500).json({ message: "Failed to fetch session map" });
+    }
+  });
+
+  // Geocode the session's properties and candidate profiles, update distances and return the refreshed map
+  app.post("/api/analysis-sessions/:sessionId/map/refresh", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      const organizationIds = await getUserOrganizationIds(userId);
+      await refreshSessionMapLocations(session, userId, organizationIds);
+      res.json(await getSessionMapData(session, userId, organizationIds));
+    } catch (error) {
+      console.error("[PROPERTY_MAP] Error refreshing session map:", error);
+      res.status(500).json({ message: "Failed to refresh session map" });
+    }
+  });
+
   // Session-based filtered analysis (consistent API pattern)
-  app.post("/api/analysis-sessions/:sessionId/filtered-analysis", isAuthenticated, async (req: any, res) => {
+  app.post("/api/analysis-sessions/:sessionId/filtered-analysis", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
       console.log('[SESSION_FILTERED_ANALYSIS] ===========================================');
       console.log('[SESSION_FILTERED_ANALYSIS] Starting session-based filtered analysis');
@@ -1758,6 +1230,13 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         }
       }
 
+      // Geocode the session's properties so competitor distances and the location score are current
+      try {
+        await updateSessionDistances(sessionId);
+      } catch (distanceError) {
+        console.warn('[SESSION_FILTERED_ANALYSIS] Failed to update competitor distances:', distanceError);
+      }
+
       // Generate multi-property analysis with filter criteria and metadata
       const analysis = await storage.generateMultiPropertyAnalysis(
         sessionId, 
@@ -1957,17 +1436,15 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
 
       const optimizationData = JSON.parse(aiResponse.choices[0].message.content || "{}");
       
-      // Update units with recommendations
+      // Attach recommendations to the response only - recommended rents are saved through approved pricing proposals
       const updatedUnits = [];
       for (const recommendation of optimizationData.unitRecommendations) {
         const unit = units.find(u => u.unitNumber === recommendation.unitNumber);
         if (unit) {
-          const updatedUnit = await storage.updatePropertyUnit(unit.id, {
-            recommendedRent: recommendation.recommendedRent.toString()
-          });
           updatedUnits.push({
-            ...updatedUnit,
-            tag: updatedUnit?.tag || (unit as any).tag || null, // Include TAG field
+            ...unit,
+            recommendedRent: recommendation.recommendedRent.toString(),
+            tag: unit.tag || null, // Include TAG field
             squareFootage: (unit as any).squareFootage || undefined, // Include squareFootage from enriched unit
             availabilityDate: (unit as any).availabilityDate || undefined, // Include availabilityDate from enriched unit
             confidenceLevel: recommendation.confidenceLevel,
@@ -2031,123 +1508,368 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     }
   });
 
-  // Apply pricing changes
-  app.post("/api/properties/:id/apply-pricing", isAuthenticated, async (req: any, res) => {
+  // Pricing is changed through approved proposals; these direct-apply endpoints are retired
+  app.post("/api/properties/:id/apply-pricing", isAuthenticated, (req: any, res) => {
+    res.status(410).json({
+      message: "Applying pricing directly is no longer supported. Submit a pricing proposal for approval instead.",
+      endpoint: "/api/analysis-sessions/:sessionId/pricing-proposals"
+    });
+  });
+
+  app.post("/api/analysis-sessions/:sessionId/apply-pricing", isAuthenticated, (req: any, res) => {
+    res.status(410).json({
+      message: "Applying pricing directly is no longer supported. Submit a pricing proposal for approval instead.",
+      endpoint: `/api/analysis-sessions/${req.params.sessionId}/pricing-proposals`
+    });
+  });
+
+  // List the session's pricing proposals, newest first
+  app.get("/api/analysis-sessions/:sessionId/pricing-proposals", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
-      const propertyId = req.params.id;
-      const { unitPrices } = req.body; // { unitId: newPrice }
-      
-      if (!unitPrices || typeof unitPrices !== 'object') {
-        return res.status(400).json({ message: "unitPrices must be an object mapping unit IDs to prices" });
+      const proposals = await storage.getPricingProposalsBySession(req.params.sessionId);
+      res.json(await Promise.all(proposals.map(getPricingProposalDetail)));
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error listing proposals:", error);
+      res.status(500).json({ message: "Failed to fetch pricing proposals" });
+    }
+  });
+
+  // Users who can be assigned to approve the session's proposals
+  app.get("/api/analysis-sessions/:sessionId/pricing-approvers", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const updatedUnits = [];
-      let totalIncrease = 0;
-      let affectedUnits = 0;
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
 
-      for (const [unitId, newPrice] of Object.entries(unitPrices)) {
-        try {
-          const unit = await storage.updatePropertyUnit(unitId, {
-            recommendedRent: String(newPrice)
-          });
-          
-          if (unit) {
-            updatedUnits.push(unit);
-            const currentRent = parseFloat(unit.currentRent);
-            const appliedRent = parseFloat(String(newPrice));
-            
-            if (appliedRent !== currentRent) {
-              affectedUnits++;
-              totalIncrease += (appliedRent - currentRent) * 12; // Annual impact
-            }
-          }
-        } catch (unitError) {
-          console.error(`Failed to update unit ${unitId}:`, unitError);
+      res.json(await getPricingApprovers(session, userId));
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error listing approvers:", error);
+      res.status(500).json({ message: "Failed to fetch pricing approvers" });
+    }
+  });
+
+  // Draft a pricing proposal from the optimize page's rents
+  app.post("/api/analysis-sessions/:sessionId/pricing-proposals", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const validationResult = pricingProposalRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      const { units: requestedUnits, ...fields } = validationResult.data;
+      if (fields.approverId) {
+        const approverError = await getApproverError(session, userId, fields.approverId);
+        if (approverError) {
+          return res.status(400).json({ message: approverError });
         }
       }
 
-      res.json({
-        message: "Pricing changes applied successfully",
-        updatedUnits: updatedUnits.length,
-        affectedUnits,
-        totalAnnualImpact: totalIncrease
-      });
+      const resolved = await resolveProposalUnits(session.id, requestedUnits);
+      if (resolved.errors.length > 0) {
+        return res.status(400).json({ message: "Invalid proposal units", errors: resolved.errors });
+      }
+      if (resolved.units.length === 0) {
+        return res.status(400).json({ message: "None of the units have unit records to price", skippedUnits: resolved.skippedUnits });
+      }
+
+      const proposal = await storage.createPricingProposal({
+        ...fields,
+        sessionId: session.id,
+        optimizationReportId: resolved.optimizationReportId,
+        status: 'draft',
+        createdBy: userId
+      }, resolved.units);
+      console.log(`[PRICING_PROPOSALS] Drafted proposal ${proposal.id} with ${resolved.units.length} units for session ${session.id}`);
+
+      res.status(201).json({ ...(await getPricingProposalDetail(proposal)), skippedUnits: resolved.skippedUnits });
     } catch (error) {
-      console.error("Error applying pricing changes:", error);
-      res.status(500).json({ message: "Failed to apply pricing changes" });
+      console.error("[PRICING_PROPOSALS] Error creating proposal:", error);
+      res.status(500).json({ message: "Failed to create pricing proposal" });
     }
   });
 
-  // Session-based apply pricing changes (portfolio-aware)
-  app.post("/api/analysis-sessions/:sessionId/apply-pricing", isAuthenticated, async (req: any, res) => {
+  app.get("/api/pricing-proposals/:id", isAuthenticated, requireAccess('pricingProposal', 'read'), async (req: any, res) => {
     try {
-      const sessionId = req.params.sessionId;
-      const { unitPrices } = req.body; // { unitId: newPrice }
-      
-      if (!unitPrices || typeof unitPrices !== 'object') {
-        return res.status(400).json({ message: "unitPrices must be an object mapping unit IDs to prices" });
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
       }
+      res.json(await getPricingProposalDetail(proposal));
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error fetching proposal:", error);
+      res.status(500).json({ message: "Failed to fetch pricing proposal" });
+    }
+  });
 
-      // Get the analysis session
-      const session = await storage.getAnalysisSession(sessionId);
+  // Replace a draft's details and units; only its author can edit it
+  app.put("/api/pricing-proposals/:id", isAuthenticated, requireAccess('pricingProposal', 'write'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
+      }
+      if (proposal.createdBy !== userId) {
+        return res.status(403).json({ message: "Only the proposal's author can edit it" });
+      }
+      if (proposal.status !== 'draft') {
+        return res.status(409).json({ message: `A ${proposal.status} proposal can't be edited` });
+      }
+
+      const validationResult = pricingProposalRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+
+      const session = await storage.getAnalysisSession(proposal.sessionId);
       if (!session) {
         return res.status(404).json({ message: "Analysis session not found" });
       }
 
-      console.log('[SESSION_APPLY_PRICING] Applying pricing changes for session:', session.name);
-      console.log('[SESSION_APPLY_PRICING] Number of unit price changes:', Object.keys(unitPrices).length);
+      const { units: requestedUnits, ...fields } = validationResult.data;
+      if (fields.approverId) {
+        const approverError = await getApproverError(session, userId, fields.approverId);
+        if (approverError) {
+          return res.status(400).json({ message: approverError });
+        }
+      }
 
-      const updatedUnits = [];
-      let totalIncrease = 0;
-      let affectedUnits = 0;
+      const resolved = await resolveProposalUnits(session.id, requestedUnits);
+      if (resolved.errors.length > 0) {
+        return res.status(400).json({ message: "Invalid proposal units", errors: resolved.errors });
+      }
+      if (resolved.units.length === 0) {
+        return res.status(400).json({ message: "None of the units have unit records to price", skippedUnits: resolved.skippedUnits });
+      }
 
-      // Apply pricing changes to property profile units
-      for (const [unitId, newPrice] of Object.entries(unitPrices)) {
-        try {
-          const unit = await storage.updatePropertyUnit(unitId, {
-            recommendedRent: String(newPrice)
-          });
-          
-          if (unit) {
-            updatedUnits.push(unit);
-            const currentRent = parseFloat(unit.currentRent);
-            const appliedRent = parseFloat(String(newPrice));
-            
-            if (appliedRent !== currentRent) {
-              affectedUnits++;
-              totalIncrease += (appliedRent - currentRent) * 12; // Annual impact
-            }
-          }
-        } catch (unitError) {
-          console.error(`Failed to update unit ${unitId}:`, unitError);
-        }
+      const updated = await storage.updatePricingProposal(proposal.id, {
+        ...fields,
+        optimizationReportId: resolved.optimizationReportId
+      }, resolved.units);
+      res.json({ ...(await getPricingProposalDetail(updated ?? proposal)), skippedUnits: resolved.skippedUnits });
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error updating proposal:", error);
+      res.status(500).json({ message: "Failed to update pricing proposal" });
+    }
+  });
+
+  // Submit a draft to its approver
+  app.post("/api/pricing-proposals/:id/submit", isAuthenticated, requireAccess('pricingProposal', 'write'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
 
-      console.log('[SESSION_APPLY_PRICING] Successfully updated:', updatedUnits.length, 'units');
-      console.log('[SESSION_APPLY_PRICING] Total annual impact:', totalIncrease);
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
+      }
+      if (proposal.createdBy !== userId) {
+        return res.status(403).json({ message: "Only the proposal's author can submit it" });
+      }
+      if (!canTransitionProposal(proposal.status, 'submitted')) {
+        return res.status(409).json({ message: `A ${proposal.status} proposal can't be submitted` });
+      }
 
-      res.json({
-        message: "Session pricing changes applied successfully",
-        sessionId,
+      const validationResult = pricingProposalSubmitSchema.safeParse({ approverId: proposal.approverId, ...req.body });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "An approver is required to submit a proposal", errors: validationResult.error.issues });
+      }
+
+      const session = await storage.getAnalysisSession(proposal.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      const { approverId } = validationResult.data;
+      const approverError = await getApproverError(session, userId, approverId);
+      if (approverError) {
+        return res.status(400).json({ message: approverError });
+      }
+
+      const submitted = await storage.updatePricingProposal(proposal.id, { status: 'submitted', approverId, submittedAt: new Date() });
+      console.log(`[PRICING_PROPOSALS] Proposal ${proposal.id} submitted to ${approverId}`);
+      res.json(await getPricingProposalDetail(submitted ?? proposal));
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error submitting proposal:", error);
+      res.status(500).json({ message: "Failed to submit pricing proposal" });
+    }
+  });
+
+  // Withdraw a submitted proposal back to draft
+  app.post("/api/pricing-proposals/:id/withdraw", isAuthenticated, requireAccess('pricingProposal', 'write'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
+      }
+      if (proposal.createdBy !== userId) {
+        return res.status(403).json({ message: "Only the proposal's author can withdraw it" });
+      }
+      if (proposal.status !== 'submitted') {
+        return res.status(409).json({ message: `A ${proposal.status} proposal can't be withdrawn` });
+      }
+
+      const withdrawn = await storage.updatePricingProposal(proposal.id, { status: 'draft', submittedAt: null });
+      res.json(await getPricingProposalDetail(withdrawn ?? proposal));
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error withdrawing proposal:", error);
+      res.status(500).json({ message: "Failed to withdraw pricing proposal" });
+    }
+  });
+
+  // Approve or reject a submitted proposal; approval writes its rents to the units
+  app.post("/api/pricing-proposals/:id/decision", isAuthenticated, requireAccess('pricingProposal', 'write'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
+      }
+      if (proposal.approverId !== userId) {
+        return res.status(403).json({ message: "Only the assigned approver can decide on this proposal" });
+      }
+
+      const validationResult = pricingProposalDecisionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      const { decision, note } = validationResult.data;
+      if (!canTransitionProposal(proposal.status, decision)) {
+        return res.status(409).json({ message: `A ${proposal.status} proposal can't be ${decision}` });
+      }
+
+      const session = await storage.getAnalysisSession(proposal.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      if (decision === 'rejected') {
+        const rejected = await storage.updatePricingProposal(proposal.id, { status: 'rejected', decisionNote: note ?? null, decidedAt: new Date() });
+        console.log(`[PRICING_PROPOSALS] Proposal ${proposal.id} rejected by ${userId}`);
+        return res.json(await getPricingProposalDetail(rejected ?? proposal));
+      }
+
+      const approved = await storage.approvePricingProposal(proposal.id, note ?? null);
+      if (!approved) {
+        return res.status(409).json({ message: "The proposal is no longer awaiting approval" });
+      }
+      const detail = await getPricingProposalDetail(approved);
+      const annualImpact = detail.summary.totalMonthlyChange * 12;
+      console.log(`[PRICING_PROPOSALS] Proposal ${proposal.id} approved by ${userId}; applied to ${detail.units.length} units`);
+
+      await emitWebhookEvent('pricing.applied', session, {
+        sessionId: session.id,
         sessionName: session.name,
-        updatedUnits: updatedUnits.length,
-        affectedUnits,
-        totalAnnualImpact: totalIncrease
+        proposalId: detail.id,
+        approvedBy: userId,
+        proposedBy: detail.createdBy,
+        updatedUnits: detail.units.length,
+        affectedUnits: detail.units.filter(unit => parseFloat(unit.proposedRent) !== parseFloat(unit.currentRent)).length,
+        totalAnnualImpact: annualImpact,
+        units: detail.units.map(unit => ({
+          id: unit.propertyUnitId,
+          unitNumber: unit.unitNumber,
+          currentRent: unit.currentRent,
+          recommendedRent: unit.proposedRent,
+          reasonCode: unit.reasonCode
+        }))
       });
+
+      res.json(detail);
+    } catch (error) {
+      console.error("[PRICING_PROPOSALS] Error deciding proposal:", error);
+      res.status(500).json({ message: "Failed to record pricing proposal decision" });
+    }
+  });
+
+  // Delete a draft; submitted and decided proposals are kept as the record of pricing changes
+  app.delete("/api/pricing-proposals/:id", isAuthenticated, requireAccess('pricingProposal', 'write'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const proposal = await storage.getPricingProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Pricing proposal not found" });
+      }
+      if (proposal.createdBy !== userId) {
+        return res.status(403).json({ message: "Only the proposal's author can delete it" });
+      }
+      if (proposal.status !== 'draft') {
+        return res.status(409).json({ message: "Only draft proposals can be deleted" });
+      }
+
+      await storage.deletePricingProposal(proposal.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error applying session pricing changes:", error);
-      res.status(500).json({ message: "Failed to apply session pricing changes" });
+      console.error("[PRICING_PROPOSALS] Error deleting proposal:", error);
+      res.status(500).json({ message: "Failed to delete pricing proposal" });
     }
   });
 
   // Scrape unit-level data for selected competitor properties (automatically includes subject property)
-  app.post("/api/competitors/scrape-units", async (req, res) => {
+  app.post("/api/competitors/scrape-units", isAuthenticated, async (req: any, res) => {
     try {
-      const { competitorIds } = req.body;
+      const userId = getAuthenticatedUserId(req);
+      const { competitorIds, sessionId } = req.body;
       
       if (!Array.isArray(competitorIds) || competitorIds.length === 0) {
         return res.status(400).json({ message: "competitorIds must be a non-empty array" });
       }
+      if (sessionId !== undefined && typeof sessionId !== 'string') {
+        return res.status(400).json({ message: "sessionId must be a string" });
+      }
+
+      if (sessionId) {
+        const session = await storage.getAnalysisSession(sessionId);
+        if (!session) {
+          return res.status(404).json({ message: "Analysis session not found" });
+        }
+        if (!(await canAccessResource(userId, session, 'write'))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      // Competitors come from scrapes of the user's profiles or sessions, or from legacy property scrapes
+      for (const competitorId of competitorIds) {
+        const owner = await loadResourceOwner('scrapedProperty', competitorId);
+        if (owner && !(await canAccessResource(userId, owner, 'write', { allowUnowned: true }))) {
+          return res.status(403).json({ message: `Access denied to competitor ${competitorId}` });
+        }
+      }
 
       // Get selected competitor properties
       const selectedCompetitors = await storage.getSelectedScrapedProperties(competitorIds);
@@ -2156,9 +1878,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         return res.status(404).json({ message: "No competitor properties found" });
       }
 
-      // Get the subject property and prepend it to the list if it exists
-      const subjectProperty = await storage.getSubjectScrapedProperty();
-      console.log(`DEBUG: getSubjectScrapedProperty returned:`, subjectProperty);
+      // Get the caller's subject property and prepend it to the list if it exists
+      const subjectProperty = await resolveScrapeUnitsSubject(userId, selectedCompetitors, sessionId);
       
       const propertiesToProcess = [];
       
@@ -2166,7 +1887,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         propertiesToProcess.push(subjectProperty);
         console.log(`Including subject property: ${subjectProperty.name} in unit scraping batch`);
       } else {
-        console.log('No subject property found with isSubjectProperty === true');
+        console.log('No subject property found for the selected competitors');
       }
       
       // Add all selected competitors
@@ -2202,18 +1923,14 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             status: "processing"
           });
 
-          // Call Scrapezy API for unit-level data
-          const unitPrompt = `Extract detailed unit information from this apartments.com property page. For each available apartment unit, extract: 1) Unit number (actual unit identifier like "1-332", "A101", etc - if available), 2) Floor plan name (marketing name like "New York", "Portland", "Green Lodge - One Bedroom", etc - if available), 3) Unit type (e.g., "Studio", "1BR/1BA", "2BR/2BA"), 4) Number of bedrooms (as integer), 5) Number of bathrooms (as decimal like 1.0, 1.5, 2.0), 6) Square footage (as integer, if available), 7) Monthly rent price (as number, extract only the numerical value), 8) Availability date or status. IMPORTANT: Some properties show unit numbers while others show floor plan names instead. Capture whichever identifier is present. Return as JSON array with objects containing "unitNumber", "floorPlanName", "unitType", "bedrooms", "bathrooms", "squareFootage", "rent", "availabilityDate" fields.`;
-
-          const scrapezyResult = await callScrapezyScraping(property.url, unitPrompt);
-          
-          // Parse the scraped unit data
-          const unitData = parseUnitData(scrapezyResult);
+          // Scrape unit-level data with the configured scraper provider
+          const scrapeResult = await getPropertyScraper().scrapeProperty(property.url);
+          const unitData = scrapeResult.units.filter(unit => unit.unitType);
           
           console.log(`Found ${unitData.length} units for property: ${property.name}`);
           
           // Replace scraped units using write-path replacement (architect recommendation)
-          const unitsToInsert = unitData.map(unit => ({
+          const parsedUnits = unitData.map(unit => ({
             propertyId: property.id,
             unitNumber: unit.unitNumber,
             floorPlanName: unit.floorPlanName,
@@ -2223,10 +1940,30 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             squareFootage: unit.squareFootage,
             rent: unit.rent?.toString() || null,
             availabilityDate: unit.availabilityDate,
-            status: isCurrentlyAvailable(unit.availabilityDate) ? 'available' : 'occupied'
+            status: isCurrentlyAvailable(unit.availabilityDate) ? 'available' : 'occupied',
+            floor: unit.floor,
+            renovationTier: unit.renovationTier,
+            view: unit.view,
+            features: unit.features,
+            leaseTerms: unit.leaseTerms
           }));
           
+          const validation = await validateScrape(parsedUnits, { url: property.url, scrapedPropertyId: property.id });
+          const unitsToInsert = validation.accepted;
+          
           const savedUnits = await storage.replaceScrapedUnitsForProperty(property.id, unitsToInsert);
+          await storage.replaceQuarantinedUnitsForProperty(property.id, toQuarantinedUnits(validation.quarantined, scrapingJob.id));
+          await storage.updateScrapedProperty(property.id, {
+            parserName: scrapeResult.parser,
+            parserConfidence: scrapeResult.parserConfidence?.toString() ?? null
+          });
+          await recordScrapeSnapshot({
+            url: property.url,
+            scrapedPropertyId: property.id,
+            scrapingJobId: scrapingJob.id,
+            parserName: scrapeResult.parser,
+            parserConfidence: scrapeResult.parserConfidence
+          }, unitsToInsert);
 
           // Update scraping job status
           await storage.updateScrapingJob(scrapingJob.id, {
@@ -2242,6 +1979,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             isSubjectProperty: property.isSubjectProperty || false,
             scrapingJobId: scrapingJob.id,
             unitsFound: savedUnits.length,
+            unitsQuarantined: validation.quarantined.length,
             units: savedUnits
           });
 
@@ -2277,7 +2015,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Comprehensive vacancy summary API endpoint
-  app.get("/api/vacancy/summary", async (req, res) => {
+  app.get("/api/vacancy/summary", isAuthenticated, async (req: any, res) => {
     try {
       console.log('[VACANCY_SUMMARY] ===========================================');
       console.log('[VACANCY_SUMMARY] Starting vacancy summary generation');
@@ -2806,322 +2544,16 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     };
   }
 
-  // Helper function to generate city URL from address
-  function generateCityUrl(address: string): string {
-    const parts = address.split(',').map(p => p.trim());
-    
-    if (parts.length < 2) return '';
-    
-    // Expected formats:
-    // "Street Address, City, State ZIP" -> ["Street Address", "City", "State ZIP"]
-    // "Street Address, City State ZIP" -> ["Street Address", "City State ZIP"]
-    
-    if (parts.length >= 3) {
-      // Format: "Street, City, State ZIP"
-      const city = parts[1].toLowerCase().replace(/\s+/g, '-');
-      const stateWithZip = parts[2];
-      const stateZipParts = stateWithZip.split(' ');
-      const state = stateZipParts[0].toLowerCase();
-      const zip = stateZipParts[1] || '';
-      
-      return zip ? `apartments.com/${city}-${state}-${zip}/` : `apartments.com/${city}-${state}/`;
-    } else if (parts.length === 2) {
-      // Format: "Street, City State ZIP"
-      const cityStateZip = parts[1];
-      const cityStateZipParts = cityStateZip.split(' ');
-      
-      if (cityStateZipParts.length >= 2) {
-        const city = cityStateZipParts[0].toLowerCase();
-        const state = cityStateZipParts[1].toLowerCase();
-        const zip = cityStateZipParts[2] || '';
-        
-        return zip ? `apartments.com/${city}-${state}-${zip}/` : `apartments.com/${city}-${state}/`;
-      }
-    }
-    
-    return '';
-  }
-
-  // Helper function to extract city/state from address for job naming
-  function extractCityState(address: string): string {
-    const parts = address.split(',');
-    if (parts.length < 2) return 'Unknown Location';
-    
-    const city = parts[parts.length - 2].trim();
-    const state = parts[parts.length - 1].trim().split(' ')[0]; // Remove zip code if present
-    
-    return `${city}, ${state}`;
-  }
-
-
-  // Start scraping job for a property
+  // Legacy city-discovery scrape. Listing pages were only reachable through Scrapezy;
+  // competitor scraping now goes through property profiles and the PropertyScraper providers.
   app.post("/api/properties/:id/scrape", async (req, res) => {
-    try {
-      const propertyId = req.params.id;
-      const property = await storage.getProperty(propertyId);
-      
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
-      }
-
-      const cityUrl = generateCityUrl(property.address);
-      if (!cityUrl) {
-        return res.status(400).json({ message: "Unable to extract city from address" });
-      }
-
-      const cityState = extractCityState(property.address);
-
-      // Create scraping job
-      const scrapingJob = await storage.createScrapingJob({
-        propertyId,
-        stage: "city_discovery",
-        cityUrl: `https://www.${cityUrl}`,
-        status: "processing"
-      });
-
-      // Real Scrapezy API call for single-page city scraping
-      try {
-        const urls = [
-          `https://www.${cityUrl}`
-        ];
-
-        console.log(`Starting Scrapezy scraping for ${cityState}:`, urls);
-        
-        // Scrape single page
-        let allProperties = [];
-        const jobIds = [];
-        let scrapingSucceeded = false;
-        
-        for (const url of urls) {
-          try {
-            console.log(`Scraping: ${url}`);
-            const pageResult = await callScrapezyScraping(url);
-            
-            if (pageResult && pageResult.id) {
-              jobIds.push(pageResult.id);
-            }
-            
-            // Parse the results from this page
-            const pageProperties = parseUrls(pageResult);
-            console.log(`Found ${pageProperties.length} properties on ${url}`);
-            allProperties.push(...pageProperties);
-            scrapingSucceeded = true;
-            
-          } catch (pageError) {
-            console.error(`Error scraping ${url}:`, pageError);
-            // Check if it's an SSL handshake error
-            const errorMessage = pageError instanceof Error ? pageError.message : String(pageError);
-            if (errorMessage.includes('525') || errorMessage.includes('SSL handshake')) {
-              console.log('🚨 Cloudflare SSL error detected - scraping may fail');
-            }
-            // Continue with next page even if one fails
-          }
-        }
-
-        // If scraping completely failed, throw an error
-        if (!scrapingSucceeded || allProperties.length === 0) {
-          console.error('❌ Scraping failed or returned no results');
-          throw new Error('Unable to retrieve competitor data from apartments.com. The service may be temporarily unavailable due to anti-scraping protection. Please try again later.');
-        }
-
-        console.log(`Total properties found: ${allProperties.length}`);
-        
-        // Store scraped properties and try to match subject property
-        const scrapedProperties = [];
-        let subjectPropertyFound = false;
-        let bestMatch = { property: null as any, score: 0 };
-
-        for (const propertyData of allProperties) {
-          if (!propertyData.name || !propertyData.address || !propertyData.url) {
-            console.log('Skipping property with missing data:', propertyData);
-            continue;
-          }
-
-          // Advanced property matching with scoring and detailed logging
-          const matchResult = calculatePropertyMatch(property, propertyData);
-          const isSubjectProperty = matchResult.isMatch;
-          
-          // Log detailed matching information
-          console.log(`\n${'='.repeat(60)}`);
-          console.log(`[PROPERTY_MATCH_RESULT] Property #${scrapedProperties.length + 1}`);
-          console.log(`Subject: "${property.propertyName}" at "${property.address}"`);
-          console.log(`Scraped: "${propertyData.name}" at "${propertyData.address}"`);
-          console.log(`Match Score: ${matchResult.score}% (threshold: ${matchResult.matchDetails.threshold}%)`);
-          console.log(`Is Match: ${isSubjectProperty ? '✅ YES' : '❌ NO'}`);
-          console.log(`Component Scores:`, matchResult.matchDetails.componentScores);
-          console.log(`Reasons:`);
-          matchResult.reasons.forEach(reason => console.log(`  ${reason}`));
-          console.log(`${'='.repeat(60)}\n`);
-
-          if (isSubjectProperty) {
-            subjectPropertyFound = true;
-            console.log('🎯 FOUND SUBJECT PROPERTY MATCH:', propertyData.name, `(Score: ${matchResult.score}%)`);
-            console.log('URL:', propertyData.url);
-          }
-          
-          // Track best match for fallback
-          if (matchResult.score > bestMatch.score) {
-            bestMatch = { property: propertyData, score: matchResult.score };
-          }
-
-          const scrapedProperty = await storage.createScrapedProperty({
-            scrapingJobId: scrapingJob.id,
-            name: propertyData.name,
-            url: propertyData.url,
-            address: propertyData.address,
-            distance: null,
-            matchScore: matchResult.score.toString(),
-            isSubjectProperty
-          });
-          scrapedProperties.push(scrapedProperty);
-          
-        }
-        
-        // FALLBACK 1: If no subject property found but we have a decent match (>=40%), use it
-        if (!subjectPropertyFound && bestMatch.property && bestMatch.score >= 40) {
-          console.log('[SUBJECT_FALLBACK] No exact subject match found, using best match as fallback');
-          console.log('[SUBJECT_FALLBACK] Best match:', bestMatch.property.name);
-          console.log('[SUBJECT_FALLBACK] Match score:', bestMatch.score, '%');
-          console.log('[SUBJECT_FALLBACK] URL:', bestMatch.property.url);
-          
-          // Find and update the scraped property to mark it as subject
-          const fallbackProperty = scrapedProperties.find(p => p.url === bestMatch.property.url);
-          if (fallbackProperty) {
-            // Update the isSubjectProperty flag in storage
-            const updated = await storage.updateScrapedProperty(fallbackProperty.id, {
-              isSubjectProperty: true
-            });
-            
-            if (updated) {
-              // Also update the local object for consistency
-              fallbackProperty.isSubjectProperty = true;
-              subjectPropertyFound = true;
-              console.log('[SUBJECT_FALLBACK] ✅ Successfully marked fallback property as subject');
-            } else {
-              console.error('[SUBJECT_FALLBACK] ❌ Failed to update property in storage');
-            }
-          }
-        }
-        
-        // FALLBACK 2: If still no subject property (all matches < 40%), mark the BEST match regardless
-        if (!subjectPropertyFound && bestMatch.property && scrapedProperties.length > 0) {
-          console.log('[SUBJECT_FALLBACK_FORCED] No matches above 40%, forcing best match as subject');
-          console.log('[SUBJECT_FALLBACK_FORCED] Best match:', bestMatch.property.name);
-          console.log('[SUBJECT_FALLBACK_FORCED] Match score:', bestMatch.score, '% (below threshold)');
-          console.log('[SUBJECT_FALLBACK_FORCED] URL:', bestMatch.property.url);
-          console.log('[SUBJECT_FALLBACK_FORCED] ⚠️ This is a low-confidence match but ensuring we have a subject property');
-          
-          const forcedFallback = scrapedProperties.find(p => p.url === bestMatch.property.url);
-          if (forcedFallback) {
-            // Update the isSubjectProperty flag in storage
-            const updated = await storage.updateScrapedProperty(forcedFallback.id, {
-              isSubjectProperty: true
-            });
-            
-            if (updated) {
-              // Also update the local object for consistency
-              forcedFallback.isSubjectProperty = true;
-              subjectPropertyFound = true;
-              console.log('[SUBJECT_FALLBACK_FORCED] ✅ Forced property marked as subject');
-            } else {
-              console.error('[SUBJECT_FALLBACK_FORCED] ❌ Failed to update property in storage');
-            }
-          }
-        }
-        
-        // FALLBACK 3: If we somehow still don't have a subject (e.g., no properties scraped), mark first property
-        if (!subjectPropertyFound && scrapedProperties.length > 0) {
-          console.log('[SUBJECT_FALLBACK_FIRST] Emergency fallback: marking first scraped property as subject');
-          const firstProperty = scrapedProperties[0];
-          
-          const updated = await storage.updateScrapedProperty(firstProperty.id, {
-            isSubjectProperty: true
-          });
-          
-          if (updated) {
-            firstProperty.isSubjectProperty = true;
-            subjectPropertyFound = true;
-            console.log('[SUBJECT_FALLBACK_FIRST] ✅ First property marked as subject');
-            console.log('[SUBJECT_FALLBACK_FIRST] Property:', firstProperty.name);
-            console.log('[SUBJECT_FALLBACK_FIRST] URL:', firstProperty.url);
-          } else {
-            console.error('[SUBJECT_FALLBACK_FIRST] ❌ Failed to update first property in storage');
-          }
-        }
-
-        // Update job status to completed
-        await storage.updateScrapingJob(scrapingJob.id, {
-          status: "completed",
-          completedAt: new Date(),
-          results: { 
-            totalProperties: allProperties.length,
-            subjectPropertyFound,
-            urls: urls,
-            jobIds: jobIds
-          }
-        });
-
-        // Include match results in response for debugging
-        const matchResults = scrapedProperties.map(sp => ({
-          id: sp.id,
-          name: sp.name,
-          address: sp.address,
-          matchScore: sp.matchScore,
-          isSubjectProperty: sp.isSubjectProperty,
-          url: sp.url
-        }));
-        
-        res.json({ 
-          scrapingJob: { ...scrapingJob, status: "completed" },
-          message: `Successfully scraped ${allProperties.length} properties from ${cityState}`,
-          targetUrl: `https://www.${cityUrl}`,
-          scrapedProperties: scrapedProperties.length,
-          subjectPropertyFound,
-          jobIds,
-          matchResults,
-          subjectProperty: scrapedProperties.find(p => p.isSubjectProperty) || null,
-          debugInfo: {
-            totalScraped: allProperties.length,
-            totalStored: scrapedProperties.length,
-            matchThreshold: 50, // Updated threshold
-            fallbackUsed: bestMatch.score < 50 && subjectPropertyFound,
-            fallbackType: bestMatch.score >= 50 ? 'exact_match' : 
-                         bestMatch.score >= 40 ? 'good_match_fallback' :
-                         bestMatch.score > 0 ? 'forced_best_match' : 
-                         'first_property_fallback',
-            bestMatchScore: bestMatch.score,
-            subjectPropertyData: {
-              name: property.propertyName,
-              address: property.address
-            },
-            subjectPropertyMarked: subjectPropertyFound,
-            markedProperty: scrapedProperties.find(p => p.isSubjectProperty) || null
-          }
-        });
-
-      } catch (scrapingError) {
-        console.error("Scrapezy API error:", scrapingError);
-        
-        // Update job status to failed
-        await storage.updateScrapingJob(scrapingJob.id, {
-          status: "failed",
-          errorMessage: scrapingError instanceof Error ? scrapingError.message : "Unknown scraping error"
-        });
-
-        res.status(500).json({ 
-          message: "Scraping failed",
-          error: scrapingError instanceof Error ? scrapingError.message : "Unknown error",
-          details: scrapingError instanceof Error ? scrapingError.stack : undefined
-        });
-      }
-    } catch (error) {
-      console.error("Error starting scraping job:", error);
-      res.status(500).json({ message: "Failed to start scraping job" });
-    }
+    res.status(410).json({
+      message: "City discovery scraping has been retired. Scrape property profiles via /api/property-profiles/:id/scrape instead."
+    });
   });
 
   // Simulate scraping completion (in real implementation, this would be called by Scrapezy webhook)
-  app.post("/api/scraping/:jobId/complete", async (req, res) => {
+  app.post("/api/scraping/:jobId/complete", isAuthenticated, requireAccess('scrapingJob', 'write', { param: 'jobId', allowUnowned: true }), async (req, res) => {
     try {
       const jobId = req.params.jobId;
       const { properties } = req.body; // Array of scraped property data
@@ -3159,7 +2591,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get scraping job status and results
-  app.get("/api/scraping/:jobId", async (req, res) => {
+  app.get("/api/scraping/:jobId", isAuthenticated, requireAccess('scrapingJob', 'read', { param: 'jobId', allowUnowned: true }), async (req, res) => {
     try {
       const jobId = req.params.jobId;
       const job = await storage.getScrapingJob(jobId);
@@ -3178,7 +2610,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get scraped properties for a property (for UI display)
-  app.get("/api/properties/:id/scraped-properties", async (req, res) => {
+  app.get("/api/properties/:id/scraped-properties", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const jobs = await storage.getScrapingJobsByProperty(propertyId);
@@ -3219,7 +2651,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get all scraping jobs for a property
-  app.get("/api/properties/:id/scraping-jobs", async (req, res) => {
+  app.get("/api/properties/:id/scraping-jobs", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const jobs = await storage.getScrapingJobsByProperty(propertyId);
@@ -3232,7 +2664,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Manual subject property selection endpoint - mark a scraped property as the subject
-  app.post("/api/properties/:id/set-subject", async (req, res) => {
+  app.post("/api/properties/:id/set-subject", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const { scrapedPropertyId } = req.body;
@@ -3290,7 +2722,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
   
   // Match subject property with scraped data (legacy endpoint)
-  app.post("/api/properties/:id/match", async (req, res) => {
+  app.post("/api/properties/:id/match", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const { scrapedPropertyId } = req.body;
@@ -3314,7 +2746,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Workflow State Management
-  app.get("/api/workflow/:propertyId", async (req, res) => {
+  app.get("/api/workflow/:propertyId", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.propertyId;
       let state = await storage.getWorkflowState(propertyId);
@@ -3337,7 +2769,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     }
   });
 
-  app.put("/api/workflow/:propertyId", async (req, res) => {
+  app.put("/api/workflow/:propertyId", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.propertyId;
       const state = {
@@ -3357,7 +2789,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Session-based Workflow State Management
-  app.get("/api/analysis-sessions/:sessionId/workflow", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analysis-sessions/:sessionId/workflow", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const sessionId = req.params.sessionId;
       let state = await storage.getWorkflowStateBySession(sessionId);
@@ -3380,7 +2812,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     }
   });
 
-  app.put("/api/analysis-sessions/:sessionId/workflow", isAuthenticated, async (req: any, res) => {
+  app.put("/api/analysis-sessions/:sessionId/workflow", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const sessionId = req.params.sessionId;
       const state = {
@@ -3400,7 +2832,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Force sync units from scraped data with fuzzy matching fallback
-  app.post("/api/properties/:id/sync-units", async (req, res) => {
+  app.post("/api/properties/:id/sync-units", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const property = await storage.getProperty(propertyId);
@@ -3518,7 +2950,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Force-link endpoint to manually link a scraped property as subject
-  app.post("/api/properties/:id/force-link-subject", async (req, res) => {
+  app.post("/api/properties/:id/force-link-subject", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const { scrapedPropertyUrl, scrapedPropertyName } = req.body;
@@ -3614,7 +3046,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
   
   // Debug-matching endpoint to diagnose matching issues
-  app.get("/api/properties/:id/debug-matching", async (req, res) => {
+  app.get("/api/properties/:id/debug-matching", isAuthenticated, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
       const property = await storage.getProperty(propertyId);
@@ -3742,7 +3174,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         return res.status(401).json({ message: "User not authenticated" });
       }
       
-      const sessions = await storage.getAnalysisSessionsByUser(userId);
+      const sessions = await storage.getAnalysisSessionsByUser(userId, await getUserOrganizationIds(userId));
       res.json(sessions);
     } catch (error) {
       console.error("Error fetching analysis sessions:", error);
@@ -3751,23 +3183,13 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get specific analysis session
-  app.get("/api/analysis-sessions/:sessionId", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analysis-sessions/:sessionId", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
       const session = await storage.getAnalysisSession(req.params.sessionId);
       if (!session) {
         return res.status(404).json({ message: "Analysis session not found" });
       }
       
-      // Verify the session belongs to the user
-      if (session.userId && session.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       // Also get the property profiles in this session
       const propertyProfiles = await storage.getPropertyProfilesInSession(req.params.sessionId);
       res.json({ ...session, propertyProfiles });
@@ -3786,6 +3208,9 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
       }
       
       const sessionData = insertAnalysisSessionSchema.parse(req.body);
+      if (!(await canAssignOrganization(userId, null, sessionData.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
       const session = await storage.createAnalysisSession({
         ...sessionData,
         userId
@@ -3801,23 +3226,23 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Update analysis session
-  app.put("/api/analysis-sessions/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/analysis-sessions/:id", isAuthenticated, requireAccess('analysisSession', 'write'), async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
       
-      // First verify the session belongs to the user
+      // Load the session for the organization check
       const existingSession = await storage.getAnalysisSession(req.params.id);
       if (!existingSession) {
         return res.status(404).json({ message: "Analysis session not found" });
       }
-      if (existingSession.userId && existingSession.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
       
       const updateData = insertAnalysisSessionSchema.partial().parse(req.body);
+      if (!(await canAssignOrganization(userId, existingSession, updateData.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
       const session = await storage.updateAnalysisSession(req.params.id, updateData);
       res.json(session);
     } catch (error) {
@@ -3830,22 +3255,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Delete analysis session
-  app.delete("/api/analysis-sessions/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/analysis-sessions/:id", isAuthenticated, requireAccess('analysisSession', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
-      // First verify the session belongs to the user
-      const existingSession = await storage.getAnalysisSession(req.params.id);
-      if (!existingSession) {
-        return res.status(404).json({ message: "Analysis session not found" });
-      }
-      if (existingSession.userId && existingSession.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const deleted = await storage.deleteAnalysisSession(req.params.id);
       res.json({ success: true });
     } catch (error) {
@@ -3857,7 +3268,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   // Session Property Profiles endpoints
   
   // Add property profile to session
-  app.post("/api/analysis-sessions/:sessionId/properties", isAuthenticated, async (req: any, res) => {
+  app.post("/api/analysis-sessions/:sessionId/properties", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const { propertyProfileId } = req.body;
       
@@ -3887,7 +3298,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Remove property profile from session
-  app.delete("/api/analysis-sessions/:sessionId/properties/:propertyProfileId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/analysis-sessions/:sessionId/properties/:propertyProfileId", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const removed = await storage.removePropertyProfileFromSession(
         req.params.sessionId, 
@@ -3904,7 +3315,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get property profiles in session
-  app.get("/api/analysis-sessions/:sessionId/properties", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analysis-sessions/:sessionId/properties", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const propertyProfiles = await storage.getPropertyProfilesInSession(req.params.sessionId);
       res.json(propertyProfiles);
@@ -3935,13 +3346,16 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
       const { type } = req.query;
       console.log('[DEBUG] Query type parameter:', type);
       
+      // Include profiles shared with the user's organizations
+      const organizationIds = await getUserOrganizationIds(userId);
+      
       let profiles;
       if (type && (type === 'subject' || type === 'competitor')) {
         console.log(`[DEBUG] Fetching profiles for userId: ${userId} with type: ${type}`);
-        profiles = await storage.getPropertyProfilesByUserAndType(userId, type as 'subject' | 'competitor');
+        profiles = await storage.getPropertyProfilesByUserAndType(userId, type as 'subject' | 'competitor', organizationIds);
       } else {
         console.log(`[DEBUG] Fetching all profiles for userId: ${userId}`);
-        profiles = await storage.getPropertyProfilesByUser(userId);
+        profiles = await storage.getPropertyProfilesByUser(userId, organizationIds);
       }
       
       console.log(`[DEBUG] Found ${profiles.length} profiles for user ${userId}`);
@@ -3955,24 +3369,14 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get single property profile
-  app.get("/api/property-profiles/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:id", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
       const profile = await storage.getPropertyProfile(req.params.id);
       
       if (!profile) {
         return res.status(404).json({ message: "Property profile not found" });
       }
       
-      // Verify the profile belongs to the user
-      if (profile.userId && profile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       res.json(profile);
     } catch (error) {
       console.error("Error fetching property profile:", error);
@@ -3994,11 +3398,17 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
       rawData.amenities = normalizeAmenities(rawData.amenities);
       
       const profileData = insertPropertyProfileSchema.parse(rawData);
+      if (!(await canAssignOrganization(userId, null, profileData.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
       const profile = await storage.createPropertyProfile({
         ...profileData,
         userId
       });
       
+      // Geocode in the background; analysis geocodes any profile still missing coordinates
+      geocodePropertyProfile(profile);
+      
       res.status(201).json(profile);
     } catch (error) {
       console.error("Error creating property profile:", error);
@@ -4024,20 +3434,41 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Update property profile
-  app.put("/api/property-profiles/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/property-profiles/:id", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
     try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      
+      const existingProfile = await storage.getPropertyProfile(req.params.id);
+      if (!existingProfile) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      
       const rawData = req.body;
+      if (!(await canAssignOrganization(userId, existingProfile, rawData.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
       
       // Create a clean copy of the data
       const updateData: any = {};
       
-      // Copy all non-amenities fields
+      // Copy all non-amenities fields; coordinates are managed by the geocoder
       for (const [key, value] of Object.entries(rawData)) {
-        if (key !== 'amenities') {
+        if (!['amenities', 'latitude', 'longitude', 'geocodedAddress'].includes(key)) {
           updateData[key] = value;
         }
       }
       
+      if (rawData.poiDistances !== undefined && rawData.poiDistances !== null) {
+        const poiValidation = poiDistancesSchema.safeParse(rawData.poiDistances);
+        if (!poiValidation.success) {
+          return res.status(400).json({ message: "Validation failed", errors: poiValidation.error.issues });
+        }
+        updateData.poiDistances = poiValidation.data;
+      }
+      
       // Handle amenities separately with proper type conversion
       if (rawData.amenities) {
         const normalizedAmenities = normalizeAmenities(rawData.amenities);
@@ -4054,6 +3485,9 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         return res.status(404).json({ message: "Property profile not found" });
       }
       
+      // Re-geocode in the background if the address changed
+      geocodePropertyProfile(profile);
+      
       res.json(profile);
     } catch (error) {
       console.error("Error updating property profile:", error);
@@ -4163,22 +3597,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Delete property profile
-  app.delete("/api/property-profiles/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/property-profiles/:id", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
-      // First verify the profile belongs to the user
-      const profile = await storage.getPropertyProfile(req.params.id);
-      if (!profile) {
-        return res.status(404).json({ message: "Property profile not found" });
-      }
-      if (profile.userId && profile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const success = await storage.deletePropertyProfile(req.params.id);
       
       res.status(204).send(); // 204 No Content is more appropriate for successful DELETE operations
@@ -4191,7 +3611,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   // NEW: Property Profile Direct URL Scraping Endpoints
   
   // Scrape a single property profile by direct URL (NON-BLOCKING)
-  app.post("/api/property-profiles/:id/scrape", isAuthenticated, async (req: any, res) => {
+  app.post("/api/property-profiles/:id/scrape", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
     try {
       // Validate request body
       const validationResult = scrapePropertyProfileSchema.safeParse(req.body);
@@ -4224,10 +3644,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         status: "pending" // Start as pending, will be processed in background
       });
 
-      // Start background processing (fire-and-forget)
-      scrapingJobProcessor.processScrapingJob(scrapingJob.id).catch(error => {
-        console.error(`[PROPERTY_PROFILE_SCRAPE] Background processing failed for job ${scrapingJob.id}:`, error);
-      });
+      // Hand the job to the durable queue for background processing
+      scrapingJobQueue.wake();
 
       // Return immediately with job information
       res.status(202).json({
@@ -4250,7 +3668,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get scraping status for a single property profile
-  app.get("/api/property-profiles/:id/scraping-status", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:id/scraping-status", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
       const propertyProfileId = req.params.id;
       const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
@@ -4274,13 +3692,19 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         latestJob: scrapingJobs.length > 0 ? scrapingJobs.sort((a, b) => 
           new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
         )[0] : null,
+        deadLetterJobs: scrapingJobs.filter(job => job.status === 'dead_letter').length,
+        scrapeSchedule: await resolveProfileScrapeSchedule(propertyProfile),
+        lastScrapedAt: propertyProfile.lastScrapedAt,
+        nextScrapeAt: propertyProfile.nextScrapeAt,
         jobs: scrapingJobs.map(job => ({
           id: job.id,
           status: job.status,
           stage: job.stage,
+          trigger: job.trigger,
           createdAt: job.createdAt,
           completedAt: job.completedAt,
-          errorMessage: job.errorMessage
+          errorMessage: job.errorMessage,
+          ...describeScrapingJobAttempts(job)
         })).sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
       };
       
@@ -4292,192 +3716,439 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     }
   });
   
-  // Scrape all properties in an analysis session (NON-BLOCKING)
-  app.post("/api/analysis-sessions/:sessionId/scrape", isAuthenticated, async (req: any, res) => {
+  // Set or clear a property profile's automatic re-scrape schedule
+  // ("daily", "weekly" or a cron expression; null falls back to the portfolio schedule)
+  app.put("/api/property-profiles/:id/scrape-schedule", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
     try {
-      // Validate request body
-      const validationResult = scrapeAnalysisSessionSchema.safeParse(req.body);
-      if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: validationResult.error.issues
-        });
+      const profile = await storage.getPropertyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Property profile not found" });
       }
-
-      const sessionId = req.params.sessionId;
-      const session = await storage.getAnalysisSession(sessionId);
       
-      if (!session) {
-        return res.status(404).json({ message: "Analysis session not found" });
+      const validationResult = scrapeScheduleUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      const { scrapeSchedule } = validationResult.data;
+      if (scrapeSchedule && !isValidScrapeSchedule(scrapeSchedule)) {
+        return res.status(400).json({ message: "Invalid scrape schedule. Use \"daily\", \"weekly\" or a 5-field cron expression." });
       }
       
-      // Get all property profiles in this session
-      const propertyProfiles = await storage.getPropertyProfilesInSession(sessionId);
+      await storage.updatePropertyProfile(profile.id, { scrapeSchedule });
+      const updatedProfile = await scrapeScheduler.refreshProfileSchedule(profile.id);
       
-      if (propertyProfiles.length === 0) {
-        return res.status(400).json({ message: "No property profiles found in this analysis session" });
+      res.json({
+        propertyProfileId: profile.id,
+        scrapeSchedule,
+        effectiveSchedule: updatedProfile ? await resolveProfileScrapeSchedule(updatedProfile) : null,
+        lastScrapedAt: updatedProfile?.lastScrapedAt ?? null,
+        nextScrapeAt: updatedProfile?.nextScrapeAt ?? null
+      });
+    } catch (error) {
+      console.error("[SCRAPE_SCHEDULE] Error updating property profile schedule:", error);
+      res.status(500).json({ message: "Failed to update scrape schedule" });
+    }
+  });
+  
+  // Start competitor discovery for a subject property: scrape a listing search results
+  // page (searchUrl, or an apartments.com search of the subject's city) and score each listing
+  app.post("/api/property-profiles/:id/competitor-discovery", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
+    try {
+      const validationResult = competitorDiscoveryRequestSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
       }
       
-      const profilesToScrape = propertyProfiles.filter(profile => profile.url);
+      const subject = await storage.getPropertyProfile(req.params.id);
+      if (!subject) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      if (subject.profileType !== 'subject') {
+        return res.status(400).json({ message: "Competitor discovery runs for subject properties only" });
+      }
       
-      if (profilesToScrape.length === 0) {
-        return res.status(400).json({ message: "No property profiles with URLs found in this analysis session" });
+      const searchUrl = validationResult.data.searchUrl || getDefaultSearchUrl(subject);
+      if (!searchUrl) {
+        return res.status(400).json({ message: "Provide a searchUrl or set the subject's city and state" });
       }
       
-      console.log(`[SESSION_SCRAPE] Starting non-blocking scraping for ${profilesToScrape.length} properties in session: ${session.name}`);
+      const [latestJob] = await storage.getCompetitorDiscoveryJobsByProfile(subject.id);
+      if (latestJob && (latestJob.status === 'pending' || latestJob.status === 'processing')) {
+        return res.status(409).json({ message: "Competitor discovery is already running for this property", discoveryJob: latestJob });
+      }
       
-      // Start background processing for the entire session (fire-and-forget)
-      scrapingJobProcessor.processSessionScrapingJobs(sessionId).catch(error => {
-        console.error(`[SESSION_SCRAPE] Background processing failed for session ${sessionId}:`, error);
+      const discoveryJob = await storage.createScrapingJob({
+        propertyProfileId: subject.id,
+        stage: COMPETITOR_DISCOVERY_STAGE,
+        cityUrl: searchUrl,
+        status: "pending"
       });
-
-      // Return immediately with session information
+      scrapingJobQueue.wake();
+      
+      console.log(`[COMPETITOR_DISCOVERY] Queued discovery job ${discoveryJob.id} for ${subject.name} from ${searchUrl}`);
       res.status(202).json({
-        message: "Session scraping started successfully",
-        sessionId,
-        sessionName: session.name,
-        totalPropertiesToScrape: profilesToScrape.length,
-        propertiesToScrape: profilesToScrape.map(profile => ({
-          id: profile.id,
-          name: profile.name,
-          url: profile.url
-        })),
-        statusCheckUrl: `/api/analysis-sessions/${sessionId}/scraping-status`
+        message: "Competitor discovery started",
+        discoveryJob,
+        candidatesUrl: `/api/property-profiles/${subject.id}/competitor-candidates`
       });
-      
     } catch (error) {
-      console.error("[SESSION_SCRAPE] Error:", error);
-      res.status(500).json({ message: "Failed to start session scraping" });
+      console.error("[COMPETITOR_DISCOVERY] Error starting discovery:", error);
+      res.status(500).json({ message: "Failed to start competitor discovery" });
     }
   });
   
-  // Get scraping status for an analysis session
-  app.get("/api/analysis-sessions/:sessionId/scraping-status", async (req, res) => {
+  // Discovered competitor candidates, best match first, with the latest discovery job
+  // Optional ?status=pending|accepted|rejected
+  app.get("/api/property-profiles/:id/competitor-candidates", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
-      const sessionId = req.params.sessionId;
-      const session = await storage.getAnalysisSession(sessionId);
-      
-      if (!session) {
-        return res.status(404).json({ message: "Analysis session not found" });
+      const subject = await storage.getPropertyProfile(req.params.id);
+      if (!subject) {
+        return res.status(404).json({ message: "Property profile not found" });
       }
       
-      // Get all property profiles associated with this session
-      const propertyProfiles = await storage.getPropertyProfilesInSession(sessionId);
-      
-      // Build properties array with detailed scraping status
-      const properties = [];
-      let completedProperties = 0;
-      let failedProperties = 0;
-      let processingProperties = 0;
-      let pendingProperties = 0;
-      
-      for (const profile of propertyProfiles) {
-        // Get scraping jobs for this property profile
-        const scrapingJobs = await storage.getScrapingJobsByProfile(profile.id);
-        
-        // Determine property-level scraping status based on latest job
-        let scrapingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'none' = 'none';
-        let errorMessage: string | undefined = undefined;
-        let unitsFound = 0;
-        
-        if (scrapingJobs.length > 0) {
-          // Sort jobs by creation date to get the latest
-          const sortedJobs = scrapingJobs.sort((a, b) => {
-            const dateA = a.createdAt ? new Date(a.createdAt) : new Date(0);
-            const dateB = b.createdAt ? new Date(b.createdAt) : new Date(0);
-            return dateB.getTime() - dateA.getTime();
-          });
-          
-          const latestJob = sortedJobs[0];
-          scrapingStatus = (latestJob.status as 'pending' | 'processing' | 'completed' | 'failed') || 'pending';
-          
-          if (latestJob.status === 'failed' && latestJob.errorMessage) {
-            errorMessage = latestJob.errorMessage;
-          }
-          
-          // Get units count for completed jobs
-          if (latestJob.status === 'completed') {
-            const units = await storage.getPropertyUnitsByProfile(profile.id);
-            unitsFound = units.length;
-          }
-        }
-        
-        // Update counters
-        if (scrapingStatus === 'completed') completedProperties++;
-        else if (scrapingStatus === 'failed') failedProperties++;
-        else if (scrapingStatus === 'processing') processingProperties++;
-        else if (scrapingStatus === 'pending') pendingProperties++;
-        
-        // Build property entry
-        const propertyEntry: any = {
-          propertyId: profile.id,
-          propertyName: profile.name,
-          profileType: profile.profileType,
-          scrapingStatus,
-          unitsFound
-        };
-        
-        if (errorMessage) {
-          propertyEntry.errorMessage = errorMessage;
-        }
-        
-        properties.push(propertyEntry);
-      }
-      
-      // Calculate overall status
-      const totalProperties = properties.length;
-      let overallStatus: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
-      
-      if (processingProperties > 0) {
-        // If any property is still being scraped
-        overallStatus = 'processing';
-      } else if (completedProperties === totalProperties && totalProperties > 0) {
-        // All properties scraped successfully
-        overallStatus = 'completed';
-      } else if (failedProperties === totalProperties && totalProperties > 0) {
-        // All properties failed
-        overallStatus = 'failed';
-      } else if (completedProperties > 0 && failedProperties > 0) {
-        // Some completed and some failed
-        overallStatus = 'partial';
-      } else if (pendingProperties === totalProperties && totalProperties > 0) {
-        // All are pending
-        overallStatus = 'pending';
-      } else {
-        // Default to pending if no properties or unclear state
-        overallStatus = 'pending';
+      const status = req.query.status;
+      if (status !== undefined && !['pending', 'accepted', 'rejected'].includes(status)) {
+        return res.status(400).json({ message: "status must be pending, accepted or rejected" });
       }
       
-      // Build response
-      const response = {
-        sessionId,
-        overallStatus,
-        properties,
-        totalProperties,
-        completedProperties,
-        failedProperties,
-        processingProperties
-      };
-      
-      res.json(response);
-      
+      const [latestJob] = await storage.getCompetitorDiscoveryJobsByProfile(subject.id);
+      res.json({
+        propertyProfileId: subject.id,
+        discoveryJob: latestJob ?? null,
+        candidates: await storage.getCompetitorCandidatesBySubject(subject.id, status)
+      });
     } catch (error) {
-      console.error("[SESSION_SCRAPING_STATUS] Error:", error);
-      res.status(500).json({ message: "Failed to get session scraping status" });
+      console.error("[COMPETITOR_DISCOVERY] Error fetching candidates:", error);
+      res.status(500).json({ message: "Failed to fetch competitor candidates" });
     }
   });
-
-  // NEW: Get all scraped units grouped by property for a specific analysis session
-  app.get("/api/analysis-sessions/:sessionId/scraped-units", isAuthenticated, async (req: any, res) => {
+  
+  // Accept a candidate as a competitor profile (or link the user's existing profile for its URL)
+  app.post("/api/property-profiles/:id/competitor-candidates/:candidateId/accept", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
     try {
-      console.log('[SESSION_SCRAPED_UNITS] ===========================================');
-      console.log('[SESSION_SCRAPED_UNITS] Starting scraped units retrieval for session');
-      
-      const sessionId = req.params.sessionId;
-      console.log('[SESSION_SCRAPED_UNITS] Session ID:', sessionId);
+      const userId = getAuthenticatedUserId(req);
+      const subject = await storage.getPropertyProfile(req.params.id);
+      const candidate = await storage.getCompetitorCandidate(req.params.candidateId);
+      if (!subject || !candidate || candidate.subjectProfileId !== subject.id) {
+        return res.status(404).json({ message: "Competitor candidate not found" });
+      }
+      if (candidate.status === 'accepted') {
+        return res.status(409).json({ message: "Competitor candidate was already accepted" });
+      }
       
-      // Get the analysis session to verify it exists
-      const session = await storage.getAnalysisSession(sessionId);
+      const result = await acceptCompetitorCandidate(candidate, subject, userId, await getUserOrganizationIds(userId));
+      res.json(result);
+    } catch (error) {
+      console.error("[COMPETITOR_DISCOVERY] Error accepting candidate:", error);
+      res.status(500).json({ message: "Failed to accept competitor candidate" });
+    }
+  });
+  
+  // Reject a candidate; later discovery runs leave it out
+  app.post("/api/property-profiles/:id/competitor-candidates/:candidateId/reject", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
+    try {
+      const subject = await storage.getPropertyProfile(req.params.id);
+      const candidate = await storage.getCompetitorCandidate(req.params.candidateId);
+      if (!subject || !candidate || candidate.subjectProfileId !== subject.id) {
+        return res.status(404).json({ message: "Competitor candidate not found" });
+      }
+      if (candidate.status === 'accepted') {
+        return res.status(409).json({ message: "Accepted candidates can't be rejected; delete the competitor profile instead" });
+      }
+      
+      const updated = await storage.updateCompetitorCandidate(candidate.id, { status: 'rejected', reviewedAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      console.error("[COMPETITOR_DISCOVERY] Error rejecting candidate:", error);
+      res.status(500).json({ message: "Failed to reject competitor candidate" });
+    }
+  });
+  
+  // Rent trajectory for a property profile's listing across all scrape snapshots
+  // Optional ?days=N limits history to the last N days
+  app.get("/api/property-profiles/:id/rent-history", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
+    try {
+      const profile = await storage.getPropertyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      if (!profile.url) {
+        return res.status(400).json({ message: "Property profile has no listing URL" });
+      }
+      
+      const trajectory = await getRentTrajectory(profile.url, parseRentHistorySince(req.query.days));
+      
+      res.json({
+        propertyProfileId: profile.id,
+        propertyName: profile.name,
+        ...trajectory
+      });
+    } catch (error) {
+      console.error("[RENT_HISTORY] Error getting property profile rent history:", error);
+      res.status(500).json({ message: "Failed to get rent history" });
+    }
+  });
+  
+  // Rent trajectories for every property in an analysis session, for week-over-week comp charts
+  app.get("/api/analysis-sessions/:sessionId/rent-history", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const since = parseRentHistorySince(req.query.days);
+      const propertyProfiles = await storage.getPropertyProfilesInSession(session.id);
+      
+      const properties = [];
+      for (const profile of propertyProfiles) {
+        if (!profile.url) continue;
+        const trajectory = await getRentTrajectory(profile.url, since);
+        properties.push({
+          propertyProfileId: profile.id,
+          propertyName: profile.name,
+          profileType: profile.profileType,
+          ...trajectory
+        });
+      }
+      
+      res.json({ sessionId: session.id, properties });
+    } catch (error) {
+      console.error("[RENT_HISTORY] Error getting session rent history:", error);
+      res.status(500).json({ message: "Failed to get rent history" });
+    }
+  });
+  
+  // Current leases on the session's subject properties ending within ?days=N (default 90)
+  app.get("/api/analysis-sessions/:sessionId/expiring-leases", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const withinDays = parseExpiringWithinDays(req.query.days);
+      const subjectProfiles = (await storage.getPropertyProfilesInSession(session.id))
+        .filter(profile => profile.profileType === 'subject');
+      const leases = await getExpiringLeases(subjectProfiles, withinDays);
+      
+      res.json({ sessionId: session.id, withinDays, leases });
+    } catch (error) {
+      console.error("[LEASES] Error getting session expiring leases:", error);
+      res.status(500).json({ message: "Failed to get expiring leases" });
+    }
+  });
+  
+  // Renewal offers for leases expiring in the window, priced from loss-to-lease against the comps
+  app.post("/api/analysis-sessions/:sessionId/renewal-pricing", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const params = renewalPricingRequestSchema.parse(req.body ?? {});
+      const batch = await generateRenewalPricing(session.id, params);
+      res.json(batch);
+    } catch (error) {
+      console.error("[RENEWAL_PRICING] Error generating renewal pricing:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid renewal pricing parameters", details: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to generate renewal pricing", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+  
+  // Current leases on a property profile's units ending within ?days=N (default 90)
+  app.get("/api/property-profiles/:id/expiring-leases", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
+    try {
+      const profile = await storage.getPropertyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      
+      const withinDays = parseExpiringWithinDays(req.query.days);
+      const leases = await getExpiringLeases([profile], withinDays);
+      
+      res.json({ propertyProfileId: profile.id, withinDays, leases });
+    } catch (error) {
+      console.error("[LEASES] Error getting property expiring leases:", error);
+      res.status(500).json({ message: "Failed to get expiring leases" });
+    }
+  });
+  
+  // Lease expirations by month against the property's target distribution, with lease-term offers
+  app.get("/api/property-profiles/:id/lease-expirations", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
+    try {
+      const profile = await storage.getPropertyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      
+      res.json(await getLeaseExpirationProfile(profile));
+    } catch (error) {
+      console.error("[LEASE_EXPIRATION] Error getting property lease expirations:", error);
+      res.status(500).json({ message: "Failed to get lease expirations" });
+    }
+  });
+  
+  // Expiration profiles for each subject property in the session
+  app.get("/api/analysis-sessions/:sessionId/lease-expirations", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      const session = await storage.getAnalysisSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      const subjectProfiles = (await storage.getPropertyProfilesInSession(session.id))
+        .filter(profile => profile.profileType === 'subject');
+      const profiles = [];
+      for (const profile of subjectProfiles) {
+        profiles.push(await getLeaseExpirationProfile(profile));
+      }
+      
+      res.json({ sessionId: session.id, profiles });
+    } catch (error) {
+      console.error("[LEASE_EXPIRATION] Error getting session lease expirations:", error);
+      res.status(500).json({ message: "Failed to get lease expirations" });
+    }
+  });
+  
+  // Set the share of lease expirations targeted per calendar month (null spreads them evenly)
+  app.put("/api/property-profiles/:id/lease-expiration-targets", isAuthenticated, requireAccess('propertyProfile', 'write'), async (req: any, res) => {
+    try {
+      const profile = await storage.getPropertyProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Property profile not found" });
+      }
+      
+      const validationResult = leaseExpirationTargetsUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      
+      const updatedProfile = await storage.updatePropertyProfile(profile.id, validationResult.data);
+      res.json(await getLeaseExpirationProfile(updatedProfile ?? profile));
+    } catch (error) {
+      console.error("[LEASE_EXPIRATION] Error updating expiration targets:", error);
+      res.status(500).json({ message: "Failed to update lease expiration targets" });
+    }
+  });
+  
+  // Scrape all properties in an analysis session (NON-BLOCKING)
+  app.post("/api/analysis-sessions/:sessionId/scrape", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      // Validate request body
+      const validationResult = scrapeAnalysisSessionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: validationResult.error.issues
+        });
+      }
+
+      const sessionId = req.params.sessionId;
+      const session = await storage.getAnalysisSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      // Get all property profiles in this session
+      const propertyProfiles = await storage.getPropertyProfilesInSession(sessionId);
+      
+      if (propertyProfiles.length === 0) {
+        return res.status(400).json({ message: "No property profiles found in this analysis session" });
+      }
+      
+      const profilesToScrape = propertyProfiles.filter(profile => profile.url);
+      
+      if (profilesToScrape.length === 0) {
+        return res.status(400).json({ message: "No property profiles with URLs found in this analysis session" });
+      }
+      
+      console.log(`[SESSION_SCRAPE] Starting non-blocking scraping for ${profilesToScrape.length} properties in session: ${session.name}`);
+      
+      // Start background processing for the entire session (fire-and-forget)
+      scrapingJobProcessor.processSessionScrapingJobs(sessionId).catch(error => {
+        console.error(`[SESSION_SCRAPE] Background processing failed for session ${sessionId}:`, error);
+      });
+
+      // Return immediately with session information
+      res.status(202).json({
+        message: "Session scraping started successfully",
+        sessionId,
+        sessionName: session.name,
+        totalPropertiesToScrape: profilesToScrape.length,
+        propertiesToScrape: profilesToScrape.map(profile => ({
+          id: profile.id,
+          name: profile.name,
+          url: profile.url
+        })),
+        statusCheckUrl: `/api/analysis-sessions/${sessionId}/scraping-status`
+      });
+      
+    } catch (error) {
+      console.error("[SESSION_SCRAPE] Error:", error);
+      res.status(500).json({ message: "Failed to start session scraping" });
+    }
+  });
+  
+  // Get scraping status for an analysis session
+  app.get("/api/analysis-sessions/:sessionId/scraping-status", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
+    try {
+      const sessionId = req.params.sessionId;
+      const session = await storage.getAnalysisSession(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+      
+      res.json(await buildSessionScrapingStatus(sessionId));
+      
+    } catch (error) {
+      console.error("[SESSION_SCRAPING_STATUS] Error:", error);
+      res.status(500).json({ message: "Failed to get session scraping status" });
+    }
+  });
+
+  // Server-Sent Events stream of scraping status and optimization progress for a session.
+  // Starts with the current scraping status so clients don't need a separate fetch.
+  app.get("/api/analysis-sessions/:sessionId/events", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
+    try {
+      const sessionId = req.params.sessionId;
+      const session = await storage.getAnalysisSession(sessionId);
+
+      if (!session) {
+        return res.status(404).json({ message: "Analysis session not found" });
+      }
+
+      const scrapingStatus = await buildSessionScrapingStatus(sessionId);
+      sessionEvents.subscribe(sessionId, res);
+      sessionEvents.send(res, 'scraping-status', scrapingStatus);
+
+    } catch (error) {
+      console.error("[SESSION_EVENTS] Error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to open session event stream" });
+      }
+    }
+  });
+
+  // NEW: Get all scraped units grouped by property for a specific analysis session
+  app.get("/api/analysis-sessions/:sessionId/scraped-units", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
+    try {
+      console.log('[SESSION_SCRAPED_UNITS] ===========================================');
+      console.log('[SESSION_SCRAPED_UNITS] Starting scraped units retrieval for session');
+      
+      const sessionId = req.params.sessionId;
+      console.log('[SESSION_SCRAPED_UNITS] Session ID:', sessionId);
+      
+      // Get the analysis session to verify it exists
+      const session = await storage.getAnalysisSession(sessionId);
       if (!session) {
         return res.status(404).json({ message: "Analysis session not found" });
       }
@@ -4619,7 +4290,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   // SESSION-BASED MULTI-PROPERTY ENDPOINTS
 
   // Get session-based vacancy summary for multi-property analysis
-  app.get("/api/analysis-sessions/:sessionId/vacancy-summary", async (req, res) => {
+  app.get("/api/analysis-sessions/:sessionId/vacancy-summary", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
     try {
       console.log('[SESSION_VACANCY_SUMMARY] ===========================================');
       console.log('[SESSION_VACANCY_SUMMARY] Starting session-based vacancy summary generation');
@@ -4800,14 +4471,31 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
     throw new Error('Maximum retry attempts reached');
   }
   
+  // List registered pricing strategies for the optimize page
+  app.get("/api/pricing-strategies", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(listPricingStrategies());
+    } catch (error) {
+      console.error("Error listing pricing strategies:", error);
+      res.status(500).json({ message: "Failed to list pricing strategies" });
+    }
+  });
+
   // Session-based optimization for multi-property portfolio
-  app.post("/api/analysis-sessions/:sessionId/optimize", isAuthenticated, async (req: any, res) => {
+  app.post("/api/analysis-sessions/:sessionId/optimize", isAuthenticated, requireAccess('analysisSession', 'write', { param: 'sessionId' }), async (req: any, res) => {
+    let optimizationStage = 0;
     try {
       console.log('[SESSION_OPTIMIZE] ===========================================');
       console.log('[SESSION_OPTIMIZE] Starting session-based optimization');
       
       const sessionId = req.params.sessionId;
-      const { goal, targetOccupancy, riskTolerance } = req.body;
+      const { targetOccupancy, riskTolerance } = req.body;
+      // Stage progress is streamed to the session's event subscribers (the progress modal)
+      const publishOptimizationProgress = (progress: OptimizationProgress) => {
+        optimizationStage = progress.stage;
+        sessionEvents.publish(sessionId, 'optimization-progress', progress);
+      };
+      let { goal, strategyParams } = req.body;
       
       // Input validation
       if (!sessionId || typeof sessionId !== 'string') {
@@ -4817,10 +4505,11 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         });
       }
       
-      if (!goal || typeof goal !== 'string') {
+      // Goal may be omitted when the session's portfolio pins a default pricing strategy
+      if (goal !== undefined && (!goal || typeof goal !== 'string')) {
         return res.status(400).json({ 
           message: "Invalid optimization goal provided",
-          error: "Goal is required and must be a string"
+          error: "Goal must be a non-empty string"
         });
       }
       
@@ -4849,6 +4538,32 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         return res.status(404).json({ message: "Analysis session not found" });
       }
 
+      // Fall back to the portfolio's pinned pricing strategy and params
+      const portfolio = session.portfolioId ? await storage.getPortfolio(session.portfolioId) : undefined;
+      if (!goal && portfolio?.pricingStrategy) {
+        goal = portfolio.pricingStrategy;
+        console.log('[SESSION_OPTIMIZE] Using pricing strategy pinned on portfolio:', portfolio.id);
+      }
+      if (!goal) {
+        return res.status(400).json({ 
+          message: "Invalid optimization goal provided",
+          error: "Goal is required when the session's portfolio has no default pricing strategy"
+        });
+      }
+      if (strategyParams === undefined && portfolio && portfolio.pricingStrategy === goal) {
+        strategyParams = portfolio.pricingStrategyParams || undefined;
+      }
+
+      const strategyParamsResult = parsePricingStrategyParams(goal, strategyParams);
+      if (!strategyParamsResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid pricing strategy parameters",
+          error: strategyParamsResult.error
+        });
+      }
+
+      publishOptimizationProgress({ stage: 1, status: 'running', message: 'Preparing data' });
+
       // Get subject property profiles in the session
       const propertyProfiles = await storage.getPropertyProfilesInSession(sessionId);
       const subjectProfiles = propertyProfiles.filter(p => p.profileType === 'subject');
@@ -5021,21 +4736,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         });
       }
 
-      // Calculate market averages by bedroom type from competitor units
-      const marketAverages = new Map();
-      for (const unit of competitorUnits) {
-        if (!unit.bedrooms || !unit.rent) continue;
-        
-        const key = `${unit.bedrooms}BR`;
-        if (!marketAverages.has(key)) {
-          marketAverages.set(key, { total: 0, count: 0, sum: 0 });
-        }
-        
-        const stats = marketAverages.get(key);
-        stats.sum += parseFloat(unit.rent);
-        stats.count += 1;
-        stats.avg = Math.round(stats.sum / stats.count);
-      }
+      // Square-footage-normalized comparables from competitor units (used by the fallback path)
+      const competitorComparables = buildComparableUnits(competitorUnits);
       
       // Deduplicate units based on propertyProfileId + unitNumber combination
       // This prevents the same unit from appearing multiple times in the export
@@ -5112,17 +4814,21 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
       // Use the new storage method with pricing power scores instead of OpenAI
       let optimizationData;
       try {
-        optimizationData = await storage.generateOptimizationReport(sessionId, goal, targetOccupancy, riskTolerance);
+        optimizationData = await storage.generateOptimizationReport(sessionId, goal, targetOccupancy, riskTolerance, strategyParamsResult.params, (stage, message) => {
+          publishOptimizationProgress({ stage, status: 'running', message });
+        });
         console.log('[SESSION_OPTIMIZE] Successfully generated optimization with pricing power scores');
       } catch (error: any) {
         console.error('[SESSION_OPTIMIZE] Error generating optimization:', error);
         
         // Provide fallback response when storage method fails
+        const fallbackAdjustment = 75; // Fixed conservative increase so fallback output is reproducible
         const fallbackData = {
           unitRecommendations: allUnits.map(unit => {
             const currentRent = parseFloat(unit.currentRent) || 0;
-            const marketAdjustment = Math.floor(Math.random() * 100) + 50; // Conservative $50-150 increase
+            const marketAdjustment = fallbackAdjustment;
             const recommendedRent = currentRent + marketAdjustment;
+            const marketStats = getComparableStats(competitorComparables, unit.bedrooms ?? 1, unit.squareFootage);
             return {
               id: crypto.randomUUID(),
               propertyName: unit.propertyName,
@@ -5131,7 +4837,12 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
               tag: unit.tag,
               currentRent: currentRent,
               recommendedRent: recommendedRent,
-              marketAverage: currentRent * 1.05,
+              marketAverage: marketStats.count > 0 ? Math.round(marketStats.avg) : currentRent,
+              rentPerSqFt: calculateRentPerSqFt(currentRent, unit.squareFootage),
+              marketRentPerSqFt: marketStats.avgRentPerSqFt,
+              comparableMatch: marketStats.matchType,
+              comparableCount: marketStats.count,
+              comparableWeights: marketStats.appliedWeights,
               change: marketAdjustment,
               annualImpact: marketAdjustment * 12,
               pricingPowerScore: 50, // Default middle score
@@ -5141,9 +4852,9 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
               availabilityDate: unit.availabilityDate
             };
           }),
-          totalIncrease: allUnits.reduce((sum, unit) => sum + (Math.floor(Math.random() * 100) + 50), 0),
+          totalIncrease: allUnits.length * fallbackAdjustment,
           affectedUnits: allUnits.length,
-          avgIncrease: 75,
+          avgIncrease: fallbackAdjustment,
           riskLevel: "Low",
           marketInsights: {
             occupancyImpact: "Conservative approach to maintain occupancy",
@@ -5151,7 +4862,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             timeToLease: "Standard market timeframes expected",
             avgPricingPowerScore: 50,
             marketDataQuality: "Limited"
-          }
+          },
+          pricingModel: { version: 'fallback-flat-v1', goal, strategy: 'fallback', params: { adjustment: fallbackAdjustment } }
         };
         
         optimizationData = fallbackData;
@@ -5199,6 +4911,11 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             currentRent: recommendation.currentRent?.toString() || unit.currentRent,
             recommendedRent: recommendation.recommendedRent?.toString(),
             marketAverage: recommendation.marketAverage,
+            rentPerSqFt: recommendation.rentPerSqFt,
+            marketRentPerSqFt: recommendation.marketRentPerSqFt,
+            comparableMatch: recommendation.comparableMatch,
+            comparableCount: recommendation.comparableCount,
+            comparableWeights: recommendation.comparableWeights,
             change: recommendation.change,
             annualImpact: recommendation.annualImpact,
             // NEW: Include pricing power score and adjustment reason
@@ -5206,6 +4923,9 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
             adjustmentReason: recommendation.adjustmentReason,
             confidenceLevel: recommendation.confidenceLevel,
             reasoning: recommendation.reasoning,
+            adjustmentPercent: recommendation.adjustmentPercent,
+            pricingBand: recommendation.pricingBand,
+            pricingModelVersion: recommendation.pricingModelVersion,
             // Include additional unit fields for frontend display
             bedrooms: unit.bedrooms,
             bathrooms: unit.bathrooms,
@@ -5247,7 +4967,9 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
           occupancyImpact: "Expected to maintain target occupancy",
           competitivePosition: "Positioned competitively in market",
           timeToLease: "Standard market lease-up times"
-        }
+        },
+        // Record the pricing model version and parameters used for this run
+        pricingModel: optimizationData.pricingModel
       };
 
       // Cap avgIncrease to prevent database overflow (field limit: -999.99 to 999.99)
@@ -5256,6 +4978,8 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         console.log(`[SESSION_OPTIMIZE] Capping avgIncrease from ${portfolioSummary.avgIncrease} to ${cappedAvgIncrease} to fit database field`);
       }
 
+      publishOptimizationProgress({ stage: 5, status: 'running', message: 'Saving recommendations' });
+
       const optimizationReport = await storage.createOptimizationReport({
         sessionId,
         goal,
@@ -5270,6 +4994,19 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
         portfolioSummary: portfolioSummary as any
       });
 
+      await emitWebhookEvent('optimization.generated', session, {
+        optimizationReportId: optimizationReport.id,
+        sessionId,
+        sessionName: session.name,
+        goal,
+        totalIncrease: portfolioSummary.totalIncrease,
+        affectedUnits: portfolioSummary.affectedUnits,
+        avgIncrease: cappedAvgIncrease,
+        riskLevel: portfolioSummary.riskLevel
+      });
+
+      publishOptimizationProgress({ stage: 5, status: 'completed' });
+
       const response = {
         sessionId,
         sessionName: session.name,
@@ -5287,6 +5024,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
       console.error("[SESSION_OPTIMIZE] Error generating session optimization:", error);
       
       const errorMessage = error instanceof Error ? error.message : String(error);
+      sessionEvents.publish(req.params.sessionId, 'optimization-progress', { stage: optimizationStage, status: 'failed', message: errorMessage });
       const statusCode = error.status || 500;
       
       // Provide detailed error information for debugging
@@ -5310,7 +5048,7 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get session-based optimization report
-  app.get("/api/analysis-sessions/:sessionId/optimization", isAuthenticated, async (req: any, res) => {
+  app.get("/api/analysis-sessions/:sessionId/optimization", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req: any, res) => {
     try {
       const sessionId = req.params.sessionId;
       console.log('[GET_SESSION_OPTIMIZATION] Getting optimization report for session:', sessionId);
@@ -5419,13 +5157,22 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   // ==============================================
 
   // Get portfolio analytics overview
-  app.get("/api/portfolio/analytics", async (req, res) => {
+  app.get("/api/portfolio/analytics", isAuthenticated, async (req: any, res) => {
     try {
-      const subjectProperties = await storage.getPropertyProfilesByType('subject');
-      const allOptimizationReports = await storage.getAllOptimizationReports();
-      
-      // Calculate real metrics based on actual property units
-      let totalCurrentRevenue = 0;
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const portfolioId = typeof req.query.portfolioId === 'string' && req.query.portfolioId ? req.query.portfolioId : undefined;
+      const result = await getPortfolioAnalyticsScope(userId, portfolioId);
+      if (!('scope' in result)) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const { subjectProperties, optimizationReports: allOptimizationReports } = result.scope;
+      
+      // Calculate real metrics based on actual property units
+      let totalCurrentRevenue = 0;
       let totalUnitsCount = 0;
       let totalOccupiedUnits = 0;
       let totalPropertyValue = 0;
@@ -5503,10 +5250,19 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get consolidated financial reporting
-  app.get("/api/portfolio/financial-report", async (req, res) => {
+  app.get("/api/portfolio/financial-report", isAuthenticated, async (req: any, res) => {
     try {
-      const subjectProperties = await storage.getPropertyProfilesByType('subject');
-      const allOptimizationReports = await storage.getAllOptimizationReports();
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const portfolioId = typeof req.query.portfolioId === 'string' && req.query.portfolioId ? req.query.portfolioId : undefined;
+      const result = await getPortfolioAnalyticsScope(userId, portfolioId);
+      if (!('scope' in result)) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const { subjectProperties, optimizationReports: allOptimizationReports } = result.scope;
       
       // Calculate property-by-property performance with real data
       const propertyPerformance = await Promise.all(
@@ -5609,11 +5365,19 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Get performance analytics data
-  app.get("/api/portfolio/performance", async (req, res) => {
+  app.get("/api/portfolio/performance", isAuthenticated, async (req: any, res) => {
     try {
-      const subjectProperties = await storage.getPropertyProfilesByType('subject');
-      const competitorProperties = await storage.getPropertyProfilesByType('competitor');
-      const allOptimizationReports = await storage.getAllOptimizationReports();
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const portfolioId = typeof req.query.portfolioId === 'string' && req.query.portfolioId ? req.query.portfolioId : undefined;
+      const result = await getPortfolioAnalyticsScope(userId, portfolioId);
+      if (!('scope' in result)) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const { subjectProperties, competitorProperties, optimizationReports: allOptimizationReports } = result.scope;
       
       // Calculate real portfolio performance metrics
       let portfolioTotalRevenue = 0;
@@ -5739,11 +5503,19 @@ Based on this data, provide exactly 3 specific, actionable insights that would h
   });
 
   // Generate AI-powered portfolio insights
-  app.get("/api/portfolio/insights", async (req, res) => {
+  app.get("/api/portfolio/insights", isAuthenticated, async (req: any, res) => {
     try {
-      const subjectProperties = await storage.getPropertyProfilesByType('subject');
-      const competitorProperties = await storage.getPropertyProfilesByType('competitor');
-      const allOptimizationReports = await storage.getAllOptimizationReports();
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const portfolioId = typeof req.query.portfolioId === 'string' && req.query.portfolioId ? req.query.portfolioId : undefined;
+      const result = await getPortfolioAnalyticsScope(userId, portfolioId);
+      if (!('scope' in result)) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const { subjectProperties, competitorProperties, optimizationReports: allOptimizationReports } = result.scope;
       
       // Calculate real portfolio metrics for insights
       let portfolioTotalRevenue = 0;
@@ -5954,13 +5726,21 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // Export portfolio reports
-  app.post("/api/portfolio/export", async (req, res) => {
+  app.post("/api/portfolio/export", isAuthenticated, async (req: any, res) => {
     try {
-      const { reportType, format } = req.body;
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { reportType, format, portfolioId } = req.body;
       
-      // Get portfolio data
-      const subjectProperties = await storage.getPropertyProfilesByType('subject');
-      const allOptimizationReports = await storage.getAllOptimizationReports();
+      // Get portfolio data for the user (optionally a single saved portfolio)
+      const result = await getPortfolioAnalyticsScope(userId, typeof portfolioId === 'string' && portfolioId ? portfolioId : undefined);
+      if (!('scope' in result)) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const { subjectProperties, optimizationReports: allOptimizationReports } = result.scope;
       
       // Generate export data based on report type
       let exportData = {};
@@ -6043,7 +5823,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   }
 
   // Debug endpoint for data integrity verification
-  app.get("/api/analysis-sessions/:sessionId/debug-scrape-integrity", async (req, res) => {
+  app.get("/api/analysis-sessions/:sessionId/debug-scrape-integrity", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
     try {
       const { sessionId } = req.params;
       console.log(`🔍 [DEBUG_INTEGRITY] Starting data integrity verification for session: ${sessionId}`);
@@ -6083,6 +5863,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         scrapedData: {
           totalScrapedProperties: 0,
           totalScrapedUnits: 0,
+          totalQuarantinedUnits: 0,
           sampleUnits: [],
           dataValidation: {
             validRents: 0,
@@ -6131,13 +5912,15 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
           scrapingJobs: [],
           scrapedProperties: [],
           scrapedUnits: [],
+          quarantinedUnits: [],
           dataIntegrity: {
             hasUrl: !!profile.url,
             hasScrapingJob: false,
             scrapingJobStatus: null,
             hasScrapedData: false,
             scrapedUnitsCount: 0,
-            validUnitsCount: 0
+            validUnitsCount: 0,
+            quarantinedUnitsCount: 0
           }
         };
 
@@ -6179,6 +5962,20 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
             propertyDiagnostic.scrapedUnits.push(...scrapedUnits);
             diagnostics.scrapedData.totalScrapedUnits += scrapedUnits.length;
             
+            // Units that failed scrape validation never reached scrapedUnits - list them with their reasons
+            const quarantinedUnits = await storage.getQuarantinedUnitsByProperty(scrapedProperty.id);
+            propertyDiagnostic.quarantinedUnits.push(...quarantinedUnits);
+            diagnostics.scrapedData.totalQuarantinedUnits += quarantinedUnits.length;
+            quarantinedUnits.forEach(unit => {
+              diagnostics.inconsistencies.push({
+                type: "quarantined_unit",
+                propertyName: scrapedProperty.name,
+                unitId: unit.id,
+                reasons: unit.reasons,
+                message: `Unit ${unit.unitNumber || unit.unitType} quarantined: ${unit.reasons.map(reason => reason.message).join('; ')}`
+              });
+            });
+            
             // Validate unit data
             scrapedUnits.forEach(unit => {
               // Validate rent
@@ -6254,6 +6051,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
 
         propertyDiagnostic.dataIntegrity.hasScrapedData = propertyDiagnostic.scrapedProperties.length > 0;
         propertyDiagnostic.dataIntegrity.scrapedUnitsCount = propertyDiagnostic.scrapedUnits.length;
+        propertyDiagnostic.dataIntegrity.quarantinedUnitsCount = propertyDiagnostic.quarantinedUnits.length;
         propertyDiagnostic.dataIntegrity.validUnitsCount = propertyDiagnostic.scrapedUnits.filter((unit: ScrapedUnit) => {
           return normalizeRent(unit.rent) && unit.unitType && unit.unitType.trim();
         }).length;
@@ -6284,6 +6082,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         diagnostics.warnings.push(`${failedJobs} scraping job(s) failed - check error messages for details`);
       }
 
+      if (diagnostics.scrapedData.totalQuarantinedUnits > 0) {
+        diagnostics.warnings.push(`${diagnostics.scrapedData.totalQuarantinedUnits} scraped unit(s) failed validation and were quarantined - see quarantinedUnits for reasons`);
+      }
+
       const dataValidationRate = diagnostics.scrapedData.totalScrapedUnits > 0 ? 
         (diagnostics.scrapedData.dataValidation.validRents / diagnostics.scrapedData.totalScrapedUnits) * 100 : 0;
       
@@ -6325,6 +6127,383 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
+  // ORGANIZATION (TEAM WORKSPACE) ENDPOINTS
+
+  // List the organizations the user belongs to, with their role in each
+  app.get("/api/organizations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const organizations = await storage.getOrganizationsByUser(userId);
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ message: "Failed to fetch organizations" });
+    }
+  });
+
+  // Create an organization; the creator becomes its owner
+  app.post("/api/organizations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const organizationData = insertOrganizationSchema.parse({
+        ...req.body,
+        createdBy: userId
+      });
+
+      const organization = await storage.createOrganization(organizationData);
+      res.status(201).json({ ...organization, role: 'owner' });
+    } catch (error) {
+      console.error("Error creating organization:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid organization data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.get("/api/organizations/:id", isAuthenticated, requireAccess('organization', 'read'), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const members = await storage.getOrganizationMembers(organization.id);
+      res.json({ ...organization, members });
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+      res.status(500).json({ message: "Failed to fetch organization" });
+    }
+  });
+
+  app.put("/api/organizations/:id", isAuthenticated, requireAccess('organization', 'manage'), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { name } = insertOrganizationSchema.pick({ name: true }).parse(req.body);
+      const updatedOrganization = await storage.updateOrganization(organization.id, { name });
+      res.json(updatedOrganization);
+    } catch (error) {
+      console.error("Error updating organization:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid organization data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  // Add a registered user (by Clerk user ID) to the organization
+  app.post("/api/organizations/:id/members", isAuthenticated, requireAccess('organization', 'manage'), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const memberData = organizationMemberRequestSchema.parse(req.body);
+      const user = await storage.getUser(memberData.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (await storage.getOrganizationMember(organization.id, user.id)) {
+        return res.status(409).json({ message: "User is already a member of this organization" });
+      }
+
+      const member = await storage.addOrganizationMember({
+        organizationId: organization.id,
+        userId: user.id,
+        role: memberData.role
+      });
+      res.status(201).json(member);
+    } catch (error) {
+      console.error("Error adding organization member:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid member data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to add organization member" });
+    }
+  });
+
+  app.put("/api/organizations/:id/members/:userId", isAuthenticated, requireAccess('organization', 'manage'), async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { role } = organizationRoleUpdateSchema.parse(req.body);
+      if (role !== 'owner' && await isLastOrganizationOwner(organization.id, req.params.userId)) {
+        return res.status(400).json({ message: "An organization must keep at least one owner" });
+      }
+
+      const member = await storage.updateOrganizationMemberRole(organization.id, req.params.userId, role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error updating organization member:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid role", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to update organization member" });
+    }
+  });
+
+  // Remove a member; members can also remove themselves to leave the organization
+  app.delete("/api/organizations/:id/members/:userId", isAuthenticated, requireAccess('organization', 'read'), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (req.params.userId !== userId && !(await canAccessResource(userId, { userId: null, organizationId: organization.id }, 'manage'))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (await isLastOrganizationOwner(organization.id, req.params.userId)) {
+        return res.status(400).json({ message: "An organization must keep at least one owner" });
+      }
+
+      const removed = await storage.removeOrganizationMember(organization.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing organization member:", error);
+      res.status(500).json({ message: "Failed to remove organization member" });
+    }
+  });
+
+  // API KEYS (credentials for the /api/v1 public API)
+
+  app.get("/api/api-keys", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const apiKeys = await storage.getApiKeysByUser(userId);
+      res.json(apiKeys.map(toApiKeyResponse));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  // Create an API key; the plaintext key is only returned in this response
+  app.post("/api/api-keys", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const keyData = apiKeyCreateRequestSchema.parse(req.body);
+      if (keyData.organizationId && !(await canAccessOrganization(userId, keyData.organizationId, 'read'))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
+      if (keyData.expiresAt && keyData.expiresAt <= new Date()) {
+        return res.status(400).json({ message: "Expiration must be in the future" });
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId,
+        organizationId: keyData.organizationId ?? null,
+        name: keyData.name,
+        scopes: Array.from(new Set(keyData.scopes)),
+        rateLimitPerMinute: keyData.rateLimitPerMinute,
+        expiresAt: keyData.expiresAt ?? null,
+        keyPrefix,
+        keyHash
+      });
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid API key data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  // Revoke an API key; revoked keys stay listed for auditing
+  app.delete("/api/api-keys/:id", isAuthenticated, requireAccess('apiKey', 'manage'), async (req: any, res) => {
+    try {
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      if (!apiKey.revokedAt) {
+        await storage.updateApiKey(apiKey.id, { revokedAt: new Date() });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // WEBHOOKS (outbound event subscriptions and their delivery log)
+  // Personal subscriptions belong to their creator; organization subscriptions are managed by its owners
+
+  app.get("/api/webhooks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const subscriptions = await storage.getWebhookSubscriptionsByUser(userId, await getUserOrganizationIds(userId, 'manage'));
+      res.json(subscriptions.map(toWebhookSubscriptionResponse));
+    } catch (error) {
+      console.error("Error fetching webhook subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch webhook subscriptions" });
+    }
+  });
+
+  // Create a subscription; the signing secret is only returned in this response
+  app.post("/api/webhooks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const subscriptionData = webhookSubscriptionRequestSchema.parse(req.body);
+      if (subscriptionData.organizationId && !(await canAccessOrganization(userId, subscriptionData.organizationId, 'manage'))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
+      const urlError = await checkWebhookUrl(subscriptionData.url);
+      if (urlError) {
+        return res.status(400).json({ message: "Invalid webhook URL", details: urlError });
+      }
+
+      const subscription = await storage.createWebhookSubscription({
+        userId,
+        organizationId: subscriptionData.organizationId ?? null,
+        url: subscriptionData.url,
+        description: subscriptionData.description ?? null,
+        events: Array.from(new Set(subscriptionData.events)),
+        secret: generateWebhookSecret()
+      });
+      res.status(201).json({ ...toWebhookSubscriptionResponse(subscription), secret: subscription.secret });
+    } catch (error) {
+      console.error("Error creating webhook subscription:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid webhook data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to create webhook subscription" });
+    }
+  });
+
+  app.put("/api/webhooks/:id", isAuthenticated, requireAccess('webhookSubscription', 'manage'), async (req: any, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
+      }
+
+      const updates = webhookSubscriptionUpdateSchema.parse(req.body);
+      const urlError = updates.url ? await checkWebhookUrl(updates.url) : null;
+      if (urlError) {
+        return res.status(400).json({ message: "Invalid webhook URL", details: urlError });
+      }
+      const updatedSubscription = await storage.updateWebhookSubscription(subscription.id, {
+        ...updates,
+        ...(updates.events && { events: Array.from(new Set(updates.events)) })
+      });
+      res.json(updatedSubscription && toWebhookSubscriptionResponse(updatedSubscription));
+    } catch (error) {
+      console.error("Error updating webhook subscription:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid webhook data", details: error.message });
+      }
+      res.status(500).json({ message: "Failed to update webhook subscription" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", isAuthenticated, requireAccess('webhookSubscription', 'manage'), async (req: any, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
+      }
+
+      await storage.deleteWebhookSubscription(subscription.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting webhook subscription:", error);
+      res.status(500).json({ message: "Failed to delete webhook subscription" });
+    }
+  });
+
+  // Recent deliveries for a subscription, newest first
+  app.get("/api/webhooks/:id/deliveries", isAuthenticated, requireAccess('webhookSubscription', 'manage'), async (req: any, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+      const deliveries = await storage.getWebhookDeliveriesBySubscription(subscription.id, limit);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Queue a delivery to be sent again with a fresh set of attempts
+  app.post("/api/webhooks/:id/deliveries/:deliveryId/redeliver", isAuthenticated, requireAccess('webhookSubscription', 'manage'), async (req: any, res) => {
+    try {
+      const subscription = await storage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
+      }
+
+      const delivery = await storage.getWebhookDelivery(req.params.deliveryId);
+      if (!delivery || delivery.subscriptionId !== subscription.id) {
+        return res.status(404).json({ message: "Webhook delivery not found" });
+      }
+      if (delivery.status === 'pending') {
+        return res.status(409).json({ message: "Delivery is already queued" });
+      }
+
+      const updatedDelivery = await storage.updateWebhookDelivery(delivery.id, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: null,
+        errorMessage: null
+      });
+      webhookDispatcher.wake();
+      res.json(updatedDelivery);
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
+
   // NEW: PORTFOLIO MANAGEMENT API ENDPOINTS
 
   // GET/POST /api/portfolios (list and create portfolios for authenticated user)
@@ -6335,7 +6514,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const portfolios = await storage.getPortfoliosByUser(userId);
+      const portfolios = await storage.getPortfoliosByUser(userId, await getUserOrganizationIds(userId));
       res.json(portfolios);
     } catch (error) {
       console.error("Error fetching portfolios:", error);
@@ -6357,6 +6536,17 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         ...req.body,
         userId
       });
+      if (!(await canAssignOrganization(userId, null, portfolioData.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
+
+      if (portfolioData.pricingStrategy) {
+        const strategyParamsResult = parsePricingStrategyParams(portfolioData.pricingStrategy, portfolioData.pricingStrategyParams);
+        if (!strategyParamsResult.success) {
+          return res.status(400).json({ message: "Invalid pricing strategy", error: strategyParamsResult.error });
+        }
+        portfolioData.pricingStrategyParams = strategyParamsResult.params;
+      }
 
       const portfolio = await storage.createPortfolio(portfolioData);
       res.status(201).json(portfolio);
@@ -6370,23 +6560,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET/PUT/DELETE /api/portfolios/:id (get, update, delete specific portfolio)
-  app.get("/api/portfolios/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/portfolios/:id", isAuthenticated, requireAccess('portfolio', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       // Update last accessed timestamp
       await storage.updatePortfolioLastAccessed(req.params.id);
 
@@ -6400,7 +6580,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.put("/api/portfolios/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/portfolios/:id", isAuthenticated, requireAccess('portfolio', 'write'), async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
       if (!userId) {
@@ -6412,12 +6592,26 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const updates = insertSavedPortfolioSchema.partial().parse(req.body);
+      if (!(await canAssignOrganization(userId, portfolio, updates.organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
+
+      // Validate a newly pinned pricing strategy (or new params for the existing one); unpinning clears the params
+      const pinnedStrategy = updates.pricingStrategy !== undefined ? updates.pricingStrategy : portfolio.pricingStrategy;
+      if (updates.pricingStrategy === null) {
+        updates.pricingStrategyParams = null;
+      } else if (pinnedStrategy && (updates.pricingStrategy !== undefined || updates.pricingStrategyParams !== undefined)) {
+        const strategyParamsResult = parsePricingStrategyParams(
+          pinnedStrategy,
+          updates.pricingStrategyParams !== undefined ? updates.pricingStrategyParams : portfolio.pricingStrategyParams
+        );
+        if (!strategyParamsResult.success) {
+          return res.status(400).json({ message: "Invalid pricing strategy", error: strategyParamsResult.error });
+        }
+        updates.pricingStrategyParams = strategyParamsResult.params;
       }
 
-      const updates = insertSavedPortfolioSchema.partial().parse(req.body);
       const updatedPortfolio = await storage.updatePortfolio(req.params.id, updates);
 
       if (!updatedPortfolio) {
@@ -6434,21 +6628,41 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.delete("/api/portfolios/:id", isAuthenticated, async (req: any, res) => {
+  // Set or clear the default re-scrape schedule for a portfolio's properties
+  app.put("/api/portfolios/:id/scrape-schedule", isAuthenticated, requireAccess('portfolio', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const validationResult = scrapeScheduleUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      const { scrapeSchedule } = validationResult.data;
+      if (scrapeSchedule && !isValidScrapeSchedule(scrapeSchedule)) {
+        return res.status(400).json({ message: "Invalid scrape schedule. Use \"daily\", \"weekly\" or a 5-field cron expression." });
+      }
+
+      const updatedPortfolio = await storage.updatePortfolio(portfolio.id, { scrapeSchedule });
+      const profilesRescheduled = await scrapeScheduler.refreshPortfolioSchedule(portfolio.id);
+
+      res.json({ ...updatedPortfolio, profilesRescheduled });
+    } catch (error) {
+      console.error("Error updating portfolio scrape schedule:", error);
+      res.status(500).json({ 
+        message: "Failed to update portfolio scrape schedule", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  app.delete("/api/portfolios/:id", isAuthenticated, requireAccess('portfolio', 'write'), async (req: any, res) => {
+    try {
+      const portfolio = await storage.getPortfolio(req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
       }
 
       const deleted = await storage.deletePortfolio(req.params.id);
@@ -6467,23 +6681,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET/POST /api/portfolios/:id/property-profiles (list and add properties to portfolio)
-  app.get("/api/portfolios/:id/property-profiles", isAuthenticated, async (req: any, res) => {
+  app.get("/api/portfolios/:id/property-profiles", isAuthenticated, requireAccess('portfolio', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const propertyProfiles = await storage.getSavedPropertyProfilesByPortfolio(req.params.id);
       res.json(propertyProfiles);
     } catch (error) {
@@ -6495,23 +6699,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.post("/api/portfolios/:id/property-profiles", isAuthenticated, async (req: any, res) => {
+  app.post("/api/portfolios/:id/property-profiles", isAuthenticated, requireAccess('portfolio', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const propertyProfileData = insertSavedPropertyProfileSchema.parse({
         ...req.body,
         portfolioId: req.params.id
@@ -6529,23 +6723,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // PUT/DELETE for individual property profiles
-  app.put("/api/portfolios/:portfolioId/property-profiles/:profileId", isAuthenticated, async (req: any, res) => {
+  app.put("/api/portfolios/:portfolioId/property-profiles/:profileId", isAuthenticated, requireAccess('portfolio', 'write', { param: 'portfolioId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.portfolioId);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const updates = insertSavedPropertyProfileSchema.partial().parse(req.body);
       const updatedProfile = await storage.updateSavedPropertyProfile(req.params.profileId, updates);
 
@@ -6563,23 +6747,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.delete("/api/portfolios/:portfolioId/property-profiles/:profileId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/portfolios/:portfolioId/property-profiles/:profileId", isAuthenticated, requireAccess('portfolio', 'write', { param: 'portfolioId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.portfolioId);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const deleted = await storage.deleteSavedPropertyProfile(req.params.profileId);
       if (!deleted) {
         return res.status(404).json({ message: "Property profile not found" });
@@ -6596,23 +6770,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // POST /api/portfolios/:id/competitive-relationships (manage competitive relationships)
-  app.post("/api/portfolios/:id/competitive-relationships", isAuthenticated, async (req: any, res) => {
+  app.post("/api/portfolios/:id/competitive-relationships", isAuthenticated, requireAccess('portfolio', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const relationshipData = insertCompetitiveRelationshipSchema.parse({
         ...req.body,
         portfolioId: req.params.id
@@ -6629,23 +6793,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.get("/api/portfolios/:id/competitive-relationships", isAuthenticated, async (req: any, res) => {
+  app.get("/api/portfolios/:id/competitive-relationships", isAuthenticated, requireAccess('portfolio', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const relationships = await storage.getCompetitiveRelationshipsByPortfolio(req.params.id);
       res.json(relationships);
     } catch (error) {
@@ -6657,23 +6811,29 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.put("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId", isAuthenticated, async (req: any, res) => {
+  app.get("/api/portfolios/:id/map", isAuthenticated, requireAccess('portfolio', 'read'), async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
+      const portfolio = await storage.getPortfolio(req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
       }
 
+      const mapData = await getPortfolioMapData(req.params.id, userId, await getUserOrganizationIds(userId));
+      res.json(mapData);
+    } catch (error) {
+      console.error("[PROPERTY_MAP] Error fetching portfolio map:", error);
+      res.status(500).json({ message: "Failed to fetch portfolio map" });
+    }
+  });
+
+  app.put("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId", isAuthenticated, requireAccess('portfolio', 'write', { param: 'portfolioId' }), async (req: any, res) => {
+    try {
       const portfolio = await storage.getPortfolio(req.params.portfolioId);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const updates = insertCompetitiveRelationshipSchema.partial().parse(req.body);
       const updatedRelationship = await storage.updateCompetitiveRelationship(req.params.relationshipId, updates);
 
@@ -6691,23 +6851,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.post("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId/toggle", isAuthenticated, async (req: any, res) => {
+  app.post("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId/toggle", isAuthenticated, requireAccess('portfolio', 'write', { param: 'portfolioId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.portfolioId);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const toggledRelationship = await storage.toggleCompetitiveRelationship(req.params.relationshipId);
 
       if (!toggledRelationship) {
@@ -6724,23 +6874,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  app.delete("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/portfolios/:portfolioId/competitive-relationships/:relationshipId", isAuthenticated, requireAccess('portfolio', 'write', { param: 'portfolioId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const portfolio = await storage.getPortfolio(req.params.portfolioId);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
 
-      // Check if user owns this portfolio
-      if (portfolio.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const deleted = await storage.deleteCompetitiveRelationship(req.params.relationshipId);
       if (!deleted) {
         return res.status(404).json({ message: "Competitive relationship not found" });
@@ -6759,7 +6899,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   // Test endpoint for matching logic - can be removed in production if desired
 
   // API endpoint to test scraped units for session (with deduplication fix)
-  app.get("/api/scraped-units/session/:sessionId", async (req, res) => {
+  app.get("/api/scraped-units/session/:sessionId", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
     try {
       const { sessionId } = req.params;
       console.log('[API] Getting scraped units for session:', sessionId);
@@ -6778,7 +6918,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // API endpoint to test optimization by session  
-  app.get("/api/optimization/session/:sessionId", async (req, res) => {
+  app.get("/api/optimization/session/:sessionId", isAuthenticated, requireAccess('analysisSession', 'read', { param: 'sessionId' }), async (req, res) => {
     try {
       const { sessionId } = req.params;
       console.log('[API] Getting optimization reports for session:', sessionId);
@@ -6821,9 +6961,9 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       const { propertyProfileId } = req.query;
       
       if (propertyProfileId) {
-        // Verify user owns this property profile
+        // Verify user can access this property profile
         const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-        if (!propertyProfile || propertyProfile.userId !== userId) {
+        if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'read'))) {
           return res.status(403).json({ message: "Access denied to property profile" });
         }
         
@@ -6852,9 +6992,9 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
 
       const tagData = insertTagDefinitionSchema.parse(req.body);
       
-      // Verify user owns this property profile
+      // Verify user can access this property profile
       const propertyProfile = await storage.getPropertyProfile(tagData.propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
+      if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'write'))) {
         return res.status(403).json({ message: "Access denied to property profile" });
       }
 
@@ -6863,35 +7003,49 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     } catch (error) {
       console.error("Error creating tag definition:", error);
       res.status(500).json({ 
-        message: "Failed to create tag definition", 
+        message: "Failed to create tag definition", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // PUT /api/tag-definitions/reorder - Update display order (registered before /:id, which would match "reorder")
+  app.put("/api/tag-definitions/reorder", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { propertyProfileId, tags } = req.body;
+      
+      if (!propertyProfileId || !Array.isArray(tags)) {
+        return res.status(400).json({ message: "Invalid request body" });
+      }
+
+      // Verify user can access this property profile
+      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
+      if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'write'))) {
+        return res.status(403).json({ message: "Access denied to property profile" });
+      }
+
+      const updatedTags = await storage.updateTagDisplayOrder(propertyProfileId, tags);
+      res.json(updatedTags);
+    } catch (error) {
+      console.error("Error reordering tag definitions:", error);
+      res.status(500).json({ 
+        message: "Failed to reorder tag definitions", 
         error: error instanceof Error ? error.message : String(error) 
       });
     }
   });
 
   // PUT /api/tag-definitions/:id - Update tag definition
-  app.put("/api/tag-definitions/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/tag-definitions/:id", isAuthenticated, requireAccess('tagDefinition', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const tagId = req.params.id;
       const updates = req.body;
 
-      // Get existing tag to verify ownership
-      const existingTag = await storage.getTagDefinition(tagId);
-      if (!existingTag) {
-        return res.status(404).json({ message: "Tag definition not found" });
-      }
-
-      // Verify user owns the property profile
-      const propertyProfile = await storage.getPropertyProfile(existingTag.propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       const updatedTag = await storage.updateTagDefinition(tagId, updates);
       if (!updatedTag) {
         return res.status(404).json({ message: "Tag definition not found" });
@@ -6908,27 +7062,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // DELETE /api/tag-definitions/:id - Delete tag definition
-  app.delete("/api/tag-definitions/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/tag-definitions/:id", isAuthenticated, requireAccess('tagDefinition', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const tagId = req.params.id;
 
-      // Get existing tag to verify ownership
-      const existingTag = await storage.getTagDefinition(tagId);
-      if (!existingTag) {
-        return res.status(404).json({ message: "Tag definition not found" });
-      }
-
-      // Verify user owns the property profile
-      const propertyProfile = await storage.getPropertyProfile(existingTag.propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       const deleted = await storage.deleteTagDefinition(tagId);
       if (!deleted) {
         return res.status(404).json({ message: "Tag definition not found" });
@@ -6944,56 +7081,14 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
-  // PUT /api/tag-definitions/reorder - Update display order
-  app.put("/api/tag-definitions/reorder", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
-      const { propertyProfileId, tags } = req.body;
-      
-      if (!propertyProfileId || !Array.isArray(tags)) {
-        return res.status(400).json({ message: "Invalid request body" });
-      }
-
-      // Verify user owns this property profile
-      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
-      const updatedTags = await storage.updateTagDisplayOrder(propertyProfileId, tags);
-      res.json(updatedTags);
-    } catch (error) {
-      console.error("Error reordering tag definitions:", error);
-      res.status(500).json({ 
-        message: "Failed to reorder tag definitions", 
-        error: error instanceof Error ? error.message : String(error) 
-      });
-    }
-  });
-
   // ============ Unit CRUD Routes ============
 
   // GET /api/property-profiles/:id/units/test-large - Generate large test dataset for virtualization testing
-  app.get("/api/property-profiles/:id/units/test-large", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:id/units/test-large", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.id;
       const count = parseInt(req.query.count as string) || 3000; // Default to 3000 units
 
-      // Verify user owns this property profile
-      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       // Generate test units
       const testUnits: PropertyUnit[] = [];
       const tags = ["Moscow", "Portland.1", "Portland.2", "Atlas", "Breaker", "Highline", "Rochester", "Sterling", "Vault", "Wire"];
@@ -7026,43 +7121,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       }
       
       // Build hierarchy by bedrooms then tags
-      const hierarchy: { [bedroom: string]: { [tag: string]: PropertyUnit[] } } = {};
-      let totalUnits = 0;
-      const uniqueTags = new Set<string>();
-      const bedroomTypes = new Set<string>();
-      
-      testUnits.forEach((unit: PropertyUnit) => {
-        const bedroom = (unit.bedrooms || 0).toString();
-        const tagName = unit.tag || "Untagged";
-        
-        if (!hierarchy[bedroom]) {
-          hierarchy[bedroom] = {};
-          bedroomTypes.add(bedroom);
-        }
-        
-        if (!hierarchy[bedroom][tagName]) {
-          hierarchy[bedroom][tagName] = [];
-        }
-        
-        hierarchy[bedroom][tagName].push(unit);
-        uniqueTags.add(tagName);
-        totalUnits++;
-      });
-      
-      // Sort bedrooms numerically
-      const sortedHierarchy: typeof hierarchy = {};
-      Object.keys(hierarchy).sort((a, b) => parseInt(a) - parseInt(b)).forEach(key => {
-        sortedHierarchy[key] = hierarchy[key];
-      });
-      
-      res.json({
-        hierarchy: sortedHierarchy,
-        summary: {
-          totalUnits,
-          uniqueTags: uniqueTags.size,
-          bedroomTypes: bedroomTypes.size
-        }
-      });
+      res.json(buildUnitHierarchy(testUnits));
     } catch (error) {
       console.error("Error generating test units:", error);
       res.status(500).json({ 
@@ -7073,21 +7132,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/property-profiles/:id/units - List units for a property
-  app.get("/api/property-profiles/:id/units", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:id/units", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.id;
 
-      // Verify user owns this property profile
-      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       const units = await storage.getPropertyUnitsByProfile(propertyProfileId);
       
       // Debug logging for squareFootage verification
@@ -7114,21 +7162,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/property-profiles/:id/units/hierarchical - Get units organized by bedroom and tag hierarchy
-  app.get("/api/property-profiles/:id/units/hierarchical", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:id/units/hierarchical", isAuthenticated, requireAccess('propertyProfile', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.id;
 
-      // Verify user owns this property profile
-      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       const units = await storage.getPropertyUnitsByProfile(propertyProfileId);
       
       // Debug logging for squareFootage verification in hierarchical endpoint
@@ -7144,43 +7181,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       }
       
       // Build hierarchy by bedrooms then tags
-      const hierarchy: { [bedroom: string]: { [tag: string]: PropertyUnit[] } } = {};
-      let totalUnits = 0;
-      const uniqueTags = new Set<string>();
-      const bedroomTypes = new Set<string>();
-      
-      units.forEach((unit: PropertyUnit) => {
-        const bedroom = (unit.bedrooms || 0).toString();
-        const tag = unit.tag || "Untagged";
-        
-        if (!hierarchy[bedroom]) {
-          hierarchy[bedroom] = {};
-          bedroomTypes.add(bedroom);
-        }
-        
-        if (!hierarchy[bedroom][tag]) {
-          hierarchy[bedroom][tag] = [];
-        }
-        
-        hierarchy[bedroom][tag].push(unit);
-        uniqueTags.add(tag);
-        totalUnits++;
-      });
-      
-      // Sort bedrooms numerically
-      const sortedHierarchy: typeof hierarchy = {};
-      Object.keys(hierarchy).sort((a, b) => parseInt(a) - parseInt(b)).forEach(key => {
-        sortedHierarchy[key] = hierarchy[key];
-      });
-      
-      res.json({
-        hierarchy: sortedHierarchy,
-        summary: {
-          totalUnits,
-          uniqueTags: uniqueTags.size,
-          bedroomTypes: bedroomTypes.size
-        }
-      });
+      res.json(buildUnitHierarchy(units));
     } catch (error) {
       console.error("Error fetching unit hierarchy:", error);
       res.status(500).json({ 
@@ -7191,19 +7192,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/property-profiles/:propertyId/hierarchy - Get hierarchical unit data
-  app.get("/api/property-profiles/:propertyId/hierarchy", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:propertyId/hierarchy", isAuthenticated, requireAccess('propertyProfile', 'read', { param: 'propertyId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.propertyId;
 
-      // Verify user owns this property profile
       const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
+      if (!propertyProfile) {
+        return res.status(404).json({ message: "Property profile not found" });
       }
 
       // Get units and tags for the property
@@ -7244,12 +7239,17 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const unitData = insertPropertyUnitSchema.parse(req.body);
+      // Asking rents only change through approved pricing proposals
+      const validationResult = propertyUnitWriteSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
+      }
+      const unitData = validationResult.data;
 
-      // Verify user owns the property profile if specified
+      // Verify user can access the property profile if specified
       if (unitData.propertyProfileId) {
         const propertyProfile = await storage.getPropertyProfile(unitData.propertyProfileId);
-        if (!propertyProfile || propertyProfile.userId !== userId) {
+        if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'write'))) {
           return res.status(403).json({ message: "Access denied to property profile" });
         }
       }
@@ -7266,29 +7266,11 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // PUT /api/units/:id - Update unit
-  app.put("/api/units/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/units/:id", isAuthenticated, requireAccess('propertyUnit', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const unitId = req.params.id;
-      const updates = req.body;
-
-      // Get existing unit to verify ownership
-      const existingUnit = await storage.updatePropertyUnit(unitId, {});
-      if (!existingUnit) {
-        return res.status(404).json({ message: "Unit not found" });
-      }
-
-      // Verify user owns the property profile if it exists
-      if (existingUnit.propertyProfileId) {
-        const propertyProfile = await storage.getPropertyProfile(existingUnit.propertyProfileId);
-        if (!propertyProfile || propertyProfile.userId !== userId) {
-          return res.status(403).json({ message: "Access denied to property profile" });
-        }
-      }
+      // Asking rents only change through approved pricing proposals
+      const { recommendedRent, ...updates } = req.body;
 
       const updatedUnit = await storage.updatePropertyUnit(unitId, updates);
       if (!updatedUnit) {
@@ -7306,29 +7288,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // DELETE /api/units/:id - Delete unit
-  app.delete("/api/units/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/units/:id", isAuthenticated, requireAccess('propertyUnit', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const unitId = req.params.id;
 
-      // Get existing unit to verify ownership
-      const existingUnit = await storage.updatePropertyUnit(unitId, {});
-      if (!existingUnit) {
-        return res.status(404).json({ message: "Unit not found" });
-      }
-
-      // Verify user owns the property profile if it exists
-      if (existingUnit.propertyProfileId) {
-        const propertyProfile = await storage.getPropertyProfile(existingUnit.propertyProfileId);
-        if (!propertyProfile || propertyProfile.userId !== userId) {
-          return res.status(403).json({ message: "Access denied to property profile" });
-        }
-      }
-
       const deleted = await storage.deletePropertyUnit(unitId);
       if (!deleted) {
         return res.status(404).json({ message: "Unit not found" });
@@ -7344,6 +7307,94 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
+  // GET /api/units/:id/leases - Lease history for a unit, newest first
+  app.get("/api/units/:id/leases", isAuthenticated, requireAccess('propertyUnit', 'read'), async (req: any, res) => {
+    try {
+      const leases = await storage.getLeasesByUnit(req.params.id);
+      res.json(leases);
+    } catch (error) {
+      console.error("Error fetching leases:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch leases", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // PUT /api/units/:id/lease - Update the unit's current lease (created if the unit has none)
+  app.put("/api/units/:id/lease", isAuthenticated, requireAccess('propertyUnit', 'write'), async (req: any, res) => {
+    try {
+      const leaseData = leaseRequestSchema.parse(req.body);
+      const lease = await saveCurrentLease(req.params.id, leaseData);
+      res.json(lease);
+    } catch (error) {
+      console.error("Error saving lease:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid lease data", details: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to save lease", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // POST /api/units/:id/leases - Start a new lease on the unit (e.g. a signed renewal)
+  app.post("/api/units/:id/leases", isAuthenticated, requireAccess('propertyUnit', 'write'), async (req: any, res) => {
+    try {
+      const leaseData = leaseRequestSchema.parse(req.body);
+      const lease = await storage.createLease({ ...leaseData, propertyUnitId: req.params.id });
+      res.json(lease);
+    } catch (error) {
+      console.error("Error creating lease:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid lease data", details: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to create lease", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // PUT /api/leases/:id - Update a lease
+  app.put("/api/leases/:id", isAuthenticated, requireAccess('lease', 'write'), async (req: any, res) => {
+    try {
+      const updates = leaseRequestSchema.partial().parse(req.body);
+      const lease = await storage.updateLease(req.params.id, updates);
+      if (!lease) {
+        return res.status(404).json({ message: "Lease not found" });
+      }
+      res.json(lease);
+    } catch (error) {
+      console.error("Error updating lease:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid lease data", details: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to update lease", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // DELETE /api/leases/:id - Delete a lease
+  app.delete("/api/leases/:id", isAuthenticated, requireAccess('lease', 'write'), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteLease(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Lease not found" });
+      }
+      res.json({ message: "Lease deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting lease:", error);
+      res.status(500).json({ 
+        message: "Failed to delete lease", 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
   // POST /api/units/bulk-update - Bulk update units
   app.post("/api/units/bulk-update", isAuthenticated, async (req: any, res) => {
     try {
@@ -7352,20 +7403,18 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const { updates } = req.body;
-      
-      if (!Array.isArray(updates)) {
-        return res.status(400).json({ message: "Invalid request body - updates must be an array" });
+      // Asking rents only change through approved pricing proposals
+      const validationResult = propertyUnitBulkUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: validationResult.error.issues });
       }
+      const { updates } = validationResult.data;
 
       // Verify ownership for all units (could be optimized for larger batches)
       for (const update of updates) {
-        const existingUnit = await storage.updatePropertyUnit(update.id, {});
-        if (existingUnit && existingUnit.propertyProfileId) {
-          const propertyProfile = await storage.getPropertyProfile(existingUnit.propertyProfileId);
-          if (!propertyProfile || propertyProfile.userId !== userId) {
-            return res.status(403).json({ message: `Access denied to unit ${update.id}` });
-          }
+        const owner = await loadResourceOwner('propertyUnit', update.id);
+        if (owner && !(await canAccessResource(userId, owner, 'write'))) {
+          return res.status(403).json({ message: `Access denied to unit ${update.id}` });
         }
       }
 
@@ -7396,12 +7445,9 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
 
       // Verify ownership for all units (could be optimized for larger batches)
       for (const unitId of ids) {
-        const existingUnit = await storage.updatePropertyUnit(unitId, {});
-        if (existingUnit && existingUnit.propertyProfileId) {
-          const propertyProfile = await storage.getPropertyProfile(existingUnit.propertyProfileId);
-          if (!propertyProfile || propertyProfile.userId !== userId) {
-            return res.status(403).json({ message: `Access denied to unit ${unitId}` });
-          }
+        const owner = await loadResourceOwner('propertyUnit', unitId);
+        if (owner && !(await canAccessResource(userId, owner, 'write'))) {
+          return res.status(403).json({ message: `Access denied to unit ${unitId}` });
         }
       }
 
@@ -7420,21 +7466,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/property-profiles/:propertyId/market-comparison - Compare internal units with market data
-  app.get("/api/property-profiles/:propertyId/market-comparison", isAuthenticated, async (req: any, res) => {
+  app.get("/api/property-profiles/:propertyId/market-comparison", isAuthenticated, requireAccess('propertyProfile', 'read', { param: 'propertyId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.propertyId;
 
-      // Verify user owns this property profile
-      const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
-      }
-
       // Get internal units (user's managed data)
       const internalUnits = await storage.getPropertyUnitsByProfile(propertyProfileId);
       console.log(`[MARKET_COMPARISON] Found ${internalUnits.length} internal units for property ${propertyProfileId}`);
@@ -7577,9 +7612,9 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(400).json({ message: "Property profile ID is required" });
       }
 
-      // Verify user owns this property profile
+      // Verify user can access this property profile
       const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
+      if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'write'))) {
         return res.status(403).json({ message: "Access denied to property profile" });
       }
 
@@ -7593,6 +7628,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       }
 
       const units: any[] = [];
+      const leasesByUnitNumber = new Map<string, Partial<LeaseFields>>();
       let headerRow: string[] = [];
       
       worksheet.eachRow((row, rowNumber) => {
@@ -7606,6 +7642,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
           const unit: any = {
             propertyProfileId
           };
+          const lease: Partial<LeaseFields> = {};
           
           // Map Excel columns to unit fields
           headerRow.forEach((header, index) => {
@@ -7613,6 +7650,12 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
             if (value !== undefined && value !== null) {
               const headerLower = header?.toString().toLowerCase();
               
+              // Attribute and lease columns first - "Renovation Status" and "Renewal Status"
+              // must not be read as the unit status
+              if (header && (applyUnitAttributeColumn(header.toString(), value, unit) || applyLeaseColumn(header.toString(), value, lease))) {
+                return;
+              }
+              
               // Map common Excel headers to schema fields
               if (headerLower?.includes('unit') && headerLower?.includes('number')) {
                 unit.unitNumber = value.toString();
@@ -7621,7 +7664,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
               } else if (headerLower?.includes('current') && headerLower?.includes('rent')) {
                 unit.currentRent = value.toString();
               } else if (headerLower?.includes('recommended') && headerLower?.includes('rent')) {
-                unit.recommendedRent = value.toString();
+                // Ignored: recommended rents only change through approved pricing proposals
               } else if (headerLower?.includes('status')) {
                 unit.status = value.toString();
               } else if (headerLower?.includes('tag')) {
@@ -7638,10 +7681,16 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
               }
             }
           });
+          if (unit.floor === undefined || unit.floor === null) {
+            unit.floor = inferFloorFromUnitNumber(unit.unitNumber);
+          }
           
           // Validate required fields
           if (unit.unitNumber && unit.unitType && unit.currentRent) {
             units.push(unit);
+            if (hasLeaseData(lease)) {
+              leasesByUnitNumber.set(unit.unitNumber, lease);
+            }
           }
         }
       });
@@ -7652,10 +7701,20 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
 
       // Replace existing units with imported ones
       const importedUnits = await storage.replacePropertyUnitsByProfile(propertyProfileId, units);
+      const leasesImported = await saveImportedLeases(importedUnits, leasesByUnitNumber);
+
+      await emitWebhookEvent('unit.import.completed', propertyProfile, {
+        source: 'excel',
+        propertyProfileId,
+        propertyName: propertyProfile.name,
+        unitsImported: importedUnits.length,
+        leasesImported
+      });
       
       res.json({
         message: `Successfully imported ${importedUnits.length} units`,
         count: importedUnits.length,
+        leasesImported,
         units: importedUnits
       });
     } catch (error) {
@@ -7718,8 +7777,8 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       console.log(`📊 [EXCEL_IMPORT] Worksheet dimensions - Rows: ${worksheet.rowCount}, Columns: ${worksheet.columnCount}`);
       console.log(`📊 [EXCEL_IMPORT] Actual row count: ${worksheet.actualRowCount}, Actual column count: ${worksheet.actualColumnCount}`);
 
-      // Get user's property profiles
-      const userProperties = await storage.getPropertyProfilesByUser(userId);
+      // Get user's property profiles, plus organization profiles the user may edit
+      const userProperties = await storage.getPropertyProfilesByUser(userId, await getUserOrganizationIds(userId, 'write'));
       console.log(`📊 [EXCEL_IMPORT] User has ${userProperties.length} property profiles`);
       
       // Create a map for easy property name lookup (case-insensitive)
@@ -7732,6 +7791,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
 
       // Parse the Excel file
       const unitsByProperty = new Map<string, any[]>();
+      const leasesByProperty = new Map<string, Map<string, Partial<LeaseFields>>>();
       const unmatchedProperties = new Set<string>();
       let headerRow: string[] = [];
       let headerRowNumber = -1;
@@ -7788,6 +7848,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
           }
           
           const unit: any = {};
+          const lease: Partial<LeaseFields> = {};
           let propertyName = '';
           const rowDebug: any = { rowNumber, values: {} };
           
@@ -7801,6 +7862,12 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
               // Store for debugging
               rowDebug.values[header] = cleanValue;
               
+              // Attribute and lease columns first - "Renovation Status" and "Renewal Status"
+              // must not be read as the unit status
+              if (applyUnitAttributeColumn(header.toString(), value, unit) || applyLeaseColumn(header.toString(), value, lease)) {
+                return;
+              }
+              
               // More flexible column matching with multiple variations
               if (headerLower.includes('unit') && (headerLower.includes('number') || headerLower.includes('#') || headerLower === 'unit')) {
                 unit.unitNumber = cleanValue;
@@ -7825,12 +7892,15 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
               } else if (headerLower.includes('status')) {
                 unit.status = cleanValue;
               } else if (headerLower.includes('recommended')) {
-                unit.recommendedRent = cleanValue.replace(/[$,]/g, '');
+                // Ignored: recommended rents only change through approved pricing proposals
               } else if (headerLower.includes('priority')) {
                 unit.optimizationPriority = parseInt(cleanValue) || 0;
               }
             }
           });
+          if (unit.floor === undefined || unit.floor === null) {
+            unit.floor = inferFloorFromUnitNumber(unit.unitNumber);
+          }
           
           // Add debug info for first few rows
           if (debugInfo.length < 5) {
@@ -7872,6 +7942,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
               }
               unitsByProperty.get(propertyId)!.push(unit);
               totalUnitsRead++;
+
+              if (hasLeaseData(lease)) {
+                if (!leasesByProperty.has(propertyId)) {
+                  leasesByProperty.set(propertyId, new Map());
+                }
+                leasesByProperty.get(propertyId)!.set(unit.unitNumber, lease);
+              }
             } else {
               console.log(`📊 [EXCEL_IMPORT] Could not match property "${propertyName}"`);
               unmatchedProperties.add(propertyName);
@@ -7935,15 +8012,35 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       // Calculate total units imported
       const totalUnitsImported = importResult.propertyResults.reduce((sum, result) => sum + result.unitsImported, 0);
       
+      // Units were replaced, so leases are attached to the newly created units
+      let totalLeasesImported = 0;
+      for (const result of importResult.propertyResults) {
+        const propertyLeases = leasesByProperty.get(result.propertyProfileId);
+        if (!propertyLeases || result.errors.length > 0) continue;
+        const importedUnits = await storage.getPropertyUnitsByProfile(result.propertyProfileId);
+        totalLeasesImported += await saveImportedLeases(importedUnits, propertyLeases);
+      }
+      
       // Calculate success rate
       const successfulProperties = importResult.propertyResults.filter(r => r.errors.length === 0).length;
       const successRate = Math.round((successfulProperties / importResult.totalPropertiesProcessed) * 100);
+
+      // Portfolio imports span profiles, so they're reported to the importing user's subscriptions
+      await emitWebhookEvent('unit.import.completed', { userId, organizationId: null }, {
+        source: 'excel_portfolio',
+        totalPropertiesProcessed: importResult.totalPropertiesProcessed,
+        propertiesSuccessful: successfulProperties,
+        totalUnitsImported,
+        totalLeasesImported,
+        propertyResults: importResult.propertyResults
+      });
       
       res.json({
         success: successRate > 0,
         message: `Successfully imported ${totalUnitsImported} units across ${successfulProperties} properties`,
         totalPropertiesProcessed: importResult.totalPropertiesProcessed,
         totalUnitsImported,
+        totalLeasesImported,
         successRate: `${successRate}%`,
         propertyResults: importResult.propertyResults,
         unmatchedProperties: Array.from(unmatchedProperties),
@@ -7966,19 +8063,13 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/export-excel/:propertyId - Export units to Excel file
-  app.get("/api/export-excel/:propertyId", isAuthenticated, async (req: any, res) => {
+  app.get("/api/export-excel/:propertyId", isAuthenticated, requireAccess('propertyProfile', 'read', { param: 'propertyId' }), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const propertyProfileId = req.params.propertyId;
 
-      // Verify user owns this property profile
       const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-      if (!propertyProfile || propertyProfile.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to property profile" });
+      if (!propertyProfile) {
+        return res.status(404).json({ message: "Property profile not found" });
       }
 
       // Get units and tags for the property
@@ -8002,7 +8093,12 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         { header: 'Recommended Rent', key: 'recommendedRent', width: 15 },
         { header: 'Status', key: 'status', width: 15 },
         { header: 'TAG', key: 'tag', width: 20 },
-        { header: 'Optimization Priority', key: 'optimizationPriority', width: 20 }
+        { header: 'Optimization Priority', key: 'optimizationPriority', width: 20 },
+        { header: 'Floor', key: 'floor', width: 10 },
+        { header: 'Renovation', key: 'renovationTier', width: 18 },
+        { header: 'View', key: 'view', width: 12 },
+        { header: 'Features', key: 'features', width: 40 },
+        { header: 'Lease Terms Offered', key: 'leaseTerms', width: 30 }
       ];
 
       // Add data rows
@@ -8017,7 +8113,12 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
           recommendedRent: unit.recommendedRent,
           status: unit.status,
           tag: unit.tag,
-          optimizationPriority: unit.optimizationPriority
+          optimizationPriority: unit.optimizationPriority,
+          floor: unit.floor ?? '',
+          renovationTier: unit.renovationTier ?? '',
+          view: unit.view ?? '',
+          features: (unit.features ?? []).join(', '),
+          leaseTerms: (unit.leaseTerms ?? []).join(', ')
         });
       });
 
@@ -8057,7 +8158,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const templates = await storage.getSavedSelectionTemplatesByUser(userId);
+      const templates = await storage.getSavedSelectionTemplatesByUser(userId, await getUserOrganizationIds(userId));
       
       // Enrich each template with property counts
       const templatesWithCounts = await Promise.all(templates.map(async (template) => {
@@ -8094,13 +8195,8 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // GET /api/saved-selection-templates/:id - Get a specific template
-  app.get("/api/saved-selection-templates/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/saved-selection-templates/:id", isAuthenticated, requireAccess('template', 'read'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const templateId = req.params.id;
       const template = await storage.getSavedSelectionTemplate(templateId);
       
@@ -8108,11 +8204,6 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(404).json({ message: "Template not found" });
       }
       
-      // Verify user owns this template
-      if (template.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to template" });
-      }
-
       // Get the property profiles in this template
       const propertyProfiles = await storage.getPropertyProfilesInTemplate(templateId);
       
@@ -8137,15 +8228,20 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      const { name, description, icon, propertyProfileIds } = req.body;
+      const { name, description, icon, propertyProfileIds, organizationId } = req.body;
       
       if (!name) {
         return res.status(400).json({ message: "Template name is required" });
       }
       
+      if (!(await canAssignOrganization(userId, null, organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
+      
       // Create the template
       const template = await storage.createSavedSelectionTemplate({
         userId,
+        organizationId: organizationId ?? null,
         name,
         description,
         icon
@@ -8154,9 +8250,9 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       // Add property profiles to the template if provided
       if (propertyProfileIds && Array.isArray(propertyProfileIds)) {
         for (const { propertyProfileId, role } of propertyProfileIds) {
-          // Verify user owns each property profile
+          // Verify user can access each property profile
           const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
-          if (!propertyProfile || propertyProfile.userId !== userId) {
+          if (!propertyProfile || !(await canAccessResource(userId, propertyProfile, 'read'))) {
             // Rollback by deleting the template
             await storage.deleteSavedSelectionTemplate(template.id);
             return res.status(403).json({ 
@@ -8189,7 +8285,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // PUT /api/saved-selection-templates/:id - Update a template
-  app.put("/api/saved-selection-templates/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/saved-selection-templates/:id", isAuthenticated, requireAccess('template', 'write'), async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
       if (!userId) {
@@ -8203,18 +8299,18 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(404).json({ message: "Template not found" });
       }
       
-      // Verify user owns this template
-      if (template.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to template" });
-      }
+      const { name, description, icon, propertyProfileIds, organizationId } = req.body;
       
-      const { name, description, icon, propertyProfileIds } = req.body;
+      if (!(await canAssignOrganization(userId, template, organizationId))) {
+        return res.status(403).json({ message: "Access denied to organization" });
+      }
       
       // Update the template metadata
       const updatedTemplate = await storage.updateSavedSelectionTemplate(templateId, {
         name,
         description,
-        icon
+        icon,
+        organizationId
       });
       
       // Update property profiles if provided
@@ -8233,7 +8329,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         
         // Add all the new property profile relationships
         for (const { propertyProfileId, role } of propertyProfileIds) {
-          // Verify user owns each property profile
+          // Verify user can access each property profile
           const propertyProfile = await storage.getPropertyProfile(propertyProfileId);
           if (!propertyProfile) {
             console.error(`Property profile not found: ${propertyProfileId}`);
@@ -8242,7 +8338,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
             });
           }
           
-          if (propertyProfile.userId !== userId) {
+          if (!(await canAccessResource(userId, propertyProfile, 'read'))) {
             console.error(`Access denied to property profile: ${propertyProfileId}`);
             return res.status(403).json({ 
               message: `Access denied to property profile ${propertyProfileId}` 
@@ -8276,13 +8372,8 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // DELETE /api/saved-selection-templates/:id - Delete a template
-  app.delete("/api/saved-selection-templates/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/saved-selection-templates/:id", isAuthenticated, requireAccess('template', 'write'), async (req: any, res) => {
     try {
-      const userId = getAuthenticatedUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
       const templateId = req.params.id;
       const template = await storage.getSavedSelectionTemplate(templateId);
       
@@ -8290,11 +8381,6 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
         return res.status(404).json({ message: "Template not found" });
       }
       
-      // Verify user owns this template
-      if (template.userId !== userId) {
-        return res.status(403).json({ message: "Access denied to template" });
-      }
-      
       // Delete the template (will cascade delete relationships)
       const deleted = await storage.deleteSavedSelectionTemplate(templateId);
       
@@ -8313,7 +8399,7 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
   });
 
   // POST /api/saved-selection-templates/:id/apply - Create a new analysis session from a template
-  app.post("/api/saved-selection-templates/:id/apply", isAuthenticated, async (req: any, res) => {
+  app.post("/api/saved-selection-templates/:id/apply", isAuthenticated, requireAccess('template', 'write'), async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
       if (!userId) {
@@ -8321,6 +8407,10 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
       }
 
       const templateId = req.params.id;
+      const template = await storage.getSavedSelectionTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
       
       // Create a new session from the template
       const sessionId = await storage.createSessionFromTemplate(templateId, userId);
@@ -8370,6 +8460,11 @@ Provide exactly 3 strategic insights as a JSON array of strings. Each insight sh
     }
   });
 
+  // Reclaim scraping jobs orphaned by a previous process and start the durable queue
+  await scrapingJobQueue.start();
+  scrapeScheduler.start();
+  webhookDispatcher.start();
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { useMemoryStorage } from "./test-helpers";
+import { runPropertyScrape } from "./scrape-job";
+import type { MemStorageLegacy } from "./storage";
+
+// Recorded Firecrawl response in fixtures/scrapes
+const FIXTURE_URL = "https://www.maplecourtliving.com/floorplans/";
+
+describe("runPropertyScrape", () => {
+  let memory: MemStorageLegacy;
+
+  beforeEach(() => {
+    memory = useMemoryStorage();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("writes a fixture scrape through to scrapedUnits and quarantines invalid units", async () => {
+    const profile = await memory.createPropertyProfile({
+      name: "Maple Court",
+      address: "1200 Maple Court",
+      url: FIXTURE_URL,
+      profileType: "competitor"
+    });
+    const job = await memory.createScrapingJob({
+      propertyProfileId: profile.id,
+      stage: "session_direct_scraping",
+      cityUrl: FIXTURE_URL,
+      status: "processing"
+    });
+
+    const outcome = await runPropertyScrape(job);
+
+    assert.equal(outcome.status, "completed");
+    const scrapedProperty = (await memory.getScrapedPropertiesByJob(job.id))[0];
+    assert.ok(scrapedProperty);
+    assert.equal(scrapedProperty.parserName, "firecrawl_extract");
+
+    const units = await memory.getScrapedUnitsByProperty(scrapedProperty.id);
+    assert.deepEqual(units.map(unit => unit.unitNumber).sort(), ["104", "210", "318", "322"]);
+    const birch = units.find(unit => unit.unitNumber === "318");
+    assert.equal(birch?.floorPlanName, "The Birch");
+    assert.equal(birch?.squareFootage, 705);
+    assert.equal(parseFloat(birch?.rent ?? ""), 1180);
+
+    // The $15 listing fails the rent range check
+    const quarantined = await memory.getQuarantinedUnitsByProperty(scrapedProperty.id);
+    assert.deepEqual(quarantined.map(unit => unit.unitNumber), ["401"]);
+    assert.equal(quarantined[0].reasons[0].code, "rent_out_of_range");
+
+    const updatedProfile = await memory.getPropertyProfile(profile.id);
+    assert.equal(updatedProfile?.builtYear, 2004);
+    assert.equal(updatedProfile?.totalUnits, 120);
+    assert.ok(updatedProfile?.lastScrapedAt);
+  });
+
+  it("fails the job when the profile does not exist", async () => {
+    const job = await memory.createScrapingJob({
+      propertyProfileId: "missing-profile",
+      stage: "session_direct_scraping",
+      cityUrl: FIXTURE_URL,
+      status: "processing"
+    });
+
+    const outcome = await runPropertyScrape(job);
+
+    assert.equal(outcome.status, "failed");
+  });
+});
@@ -0,0 +1,136 @@
+import { storage } from "./storage";
+import { getPropertyScraper } from "./property-scraper";
+import { recordScrapeSnapshot } from "./rent-history";
+import { validateScrape, type QuarantinedUnit } from "./scrape-validation";
+import type { ScrapingJobOutcome } from "./scraping-job-queue";
+import type { ScrapingJob, UnitMix } from "@shared/schema";
+
+/**
+ * Property scrape jobs: scrape the profile's listing with the configured
+ * provider, update the profile's metadata and replace the property's
+ * scrapedUnits with the units that pass validation.
+ */
+
+// Rows for the quarantine table from validation results
+export function toQuarantinedUnits(quarantined: QuarantinedUnit[], scrapingJobId: string) {
+  return quarantined.map(({ unit, reasons }) => ({
+    propertyId: unit.propertyId,
+    scrapingJobId,
+    unitNumber: unit.unitNumber ?? null,
+    floorPlanName: unit.floorPlanName ?? null,
+    unitType: unit.unitType,
+    bedrooms: unit.bedrooms ?? null,
+    bathrooms: unit.bathrooms ?? null,
+    squareFootage: unit.squareFootage ?? null,
+    rent: unit.rent ?? null,
+    availabilityDate: unit.availabilityDate ?? null,
+    reasons
+  }));
+}
+
+/**
+ * Queue handler for a property profile's scraping job
+ */
+export async function runPropertyScrape(job: ScrapingJob): Promise<ScrapingJobOutcome> {
+  const jobId = job.id;
+  console.log(`[JOB_PROCESSOR] Processing job ${jobId} for property profile ${job.propertyProfileId}`);
+
+  // Get property profile
+  const propertyProfile = job.propertyProfileId ? await storage.getPropertyProfile(job.propertyProfileId) : undefined;
+  if (!propertyProfile || !propertyProfile.url) {
+    return { status: 'failed', errorMessage: 'Property profile not found or has no URL' };
+  }
+
+  // The configured scraper provider handles extraction, including the markdown fallback
+  // when structured parsing finds no units
+  const scraper = getPropertyScraper();
+  const parsedData = await scraper.scrapeProperty(propertyProfile.url);
+
+  console.log(`[JOB_PROCESSOR] ${scraper.name} scraper returned: ${parsedData.units.length} units via ${parsedData.parser || 'no parser'} (confidence ${parsedData.parserConfidence ?? 'n/a'}), ${parsedData.markdown.length} chars markdown`);
+
+  // IMPORTANT: Update property profile METADATA (amenities, builtYear, totalUnits, unitMix)
+  // This updates property-level information but NOT individual units
+  // The unit-level data goes to scrapedUnits table only
+  await storage.updatePropertyProfile(job.propertyProfileId!, {
+    amenities: parsedData.property.amenities.length > 0 ? parsedData.property.amenities : propertyProfile.amenities,
+    builtYear: parsedData.property.builtYear || propertyProfile.builtYear,
+    totalUnits: parsedData.property.totalUnits || propertyProfile.totalUnits,
+    unitMix: parsedData.property.unitMix || (propertyProfile.unitMix as UnitMix) || undefined,
+    lastScrapedAt: new Date()
+  });
+  console.log(`[JOB_PROCESSOR] Updated property profile metadata for ${job.propertyProfileId} (unitMix: ${JSON.stringify(parsedData.property.unitMix)})`);
+
+  // IMPORTANT: WE DO NOT UPDATE propertyUnits TABLE DURING SCRAPING
+  // The propertyUnits table contains user-managed internal data (TAGs, custom classifications)
+  // We only update the scrapedUnits table with external market data
+  console.log(`[JOB_PROCESSOR] Skipping propertyUnits update to preserve user's TAG data for profile ${job.propertyProfileId}`);
+
+  // Create scraped property record
+  const scrapedProperty = await storage.createScrapedProperty({
+    scrapingJobId: jobId,
+    name: parsedData.property.name,
+    url: propertyProfile.url,
+    address: parsedData.property.address,
+    isSubjectProperty: propertyProfile.profileType === 'subject',
+    parserName: parsedData.parser,
+    parserConfidence: parsedData.parserConfidence?.toString() ?? null
+  });
+
+  // CRITICAL: Update scrapedUnits table with latest market data
+  // This replaces all scraped units for this property with fresh data from the scraping
+  // The scrapedUnits table contains external market data (prices, availability, etc.)
+  const parsedUnits = parsedData.units
+    .filter(unitData => unitData.unitType)
+    .map(unitData => ({
+      propertyId: scrapedProperty.id,
+      unitNumber: unitData.unitNumber,
+      floorPlanName: unitData.floorPlanName,
+      unitType: unitData.unitType,
+      bedrooms: unitData.bedrooms,
+      bathrooms: unitData.bathrooms?.toString(),
+      squareFootage: unitData.squareFootage,
+      rent: unitData.rent?.toString(),
+      availabilityDate: unitData.availabilityDate,
+      floor: unitData.floor,
+      renovationTier: unitData.renovationTier,
+      view: unitData.view,
+      features: unitData.features,
+      leaseTerms: unitData.leaseTerms
+    }));
+
+  // Units failing validation are quarantined instead of skewing market averages
+  const validation = await validateScrape(parsedUnits, {
+    url: propertyProfile.url,
+    scrapedPropertyId: scrapedProperty.id,
+    sessionId: job.sessionId
+  });
+  const unitsToInsert = validation.accepted;
+
+  await storage.replaceScrapedUnitsForProperty(scrapedProperty.id, unitsToInsert);
+  await storage.replaceQuarantinedUnitsForProperty(scrapedProperty.id, toQuarantinedUnits(validation.quarantined, jobId));
+  console.log(`[JOB_PROCESSOR] Updated scrapedUnits table with ${unitsToInsert.length} units for property ${scrapedProperty.id} (${validation.quarantined.length} quarantined)`);
+
+  // Keep this run in the rent history - scrapedUnits only holds the latest scrape
+  await recordScrapeSnapshot({
+    url: propertyProfile.url,
+    propertyProfileId: propertyProfile.id,
+    scrapedPropertyId: scrapedProperty.id,
+    scrapingJobId: jobId,
+    parserName: parsedData.parser,
+    parserConfidence: parsedData.parserConfidence
+  }, unitsToInsert);
+
+  console.log(`[JOB_PROCESSOR] Job ${jobId} completed successfully (${unitsToInsert.length} units saved)`);
+
+  return {
+    status: 'completed',
+    results: {
+      propertyData: parsedData.property,
+      unitsCount: unitsToInsert.length,
+      quarantinedCount: validation.quarantined.length,
+      scrapedPropertyId: scrapedProperty.id,
+      parser: parsedData.parser,
+      parserConfidence: parsedData.parserConfidence
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { useMemoryStorage } from "./test-helpers";
+import { resolveProfileScrapeSchedule } from "./scrape-scheduler";
+import type { MemStorageLegacy } from "./storage";
+
+const LISTING_URL = "https://www.apartments.com/the-flats-omaha-ne/abc123/";
+
+describe("resolveProfileScrapeSchedule", () => {
+  let memory: MemStorageLegacy;
+
+  beforeEach(async () => {
+    memory = useMemoryStorage();
+    const portfolio = await memory.createPortfolio({ userId: "owner", name: "Omaha", organizationId: "org-1" });
+    await memory.updatePortfolio(portfolio.id, { scrapeSchedule: "daily" });
+    await memory.createSavedPropertyProfile({ portfolioId: portfolio.id, name: "The Flats", url: LISTING_URL, role: "competitor", address: "2100 Harney St" });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("uses the schedule of an organization portfolio owned by another member", async () => {
+    const profile = await memory.createPropertyProfile({
+      name: "The Flats",
+      address: "2100 Harney St",
+      url: LISTING_URL,
+      profileType: "competitor",
+      userId: "analyst",
+      organizationId: "org-1"
+    });
+
+    assert.equal(await resolveProfileScrapeSchedule(profile), "daily");
+  });
+
+  it("ignores portfolios outside the profile's organization", async () => {
+    const profile = await memory.createPropertyProfile({
+      name: "The Flats",
+      address: "2100 Harney St",
+      url: LISTING_URL,
+      profileType: "competitor",
+      userId: "analyst"
+    });
+
+    assert.equal(await resolveProfileScrapeSchedule(profile), null);
+  });
+});
@@ -0,0 +1,340 @@
+import { storage } from "./storage";
+import type { PropertyProfile } from "@shared/schema";
+
+/**
+ * In-process scheduler for automatic re-scraping.
+ *
+ * A property profile's effective schedule is its own `scrapeSchedule`, or else
+ * the most frequent schedule of any of the owner's portfolios that contains the
+ * profile's URL. Schedules are "daily", "weekly" or a 5-field cron expression
+ * (minute hour day-of-month month day-of-week, server local time).
+ *
+ * Each profile carries `nextScrapeAt`; on every tick the scheduler enqueues a
+ * normal `scrapingJobs` row (trigger "scheduled") for due profiles, unless the
+ * profile was scraped within the freshness window, already has a job in flight,
+ * or the hourly scheduled-job budget is spent. The durable queue runs the jobs.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Cron searches stop after this long without a match (e.g. "0 0 31 2 *")
+const MAX_CRON_LOOKAHEAD_MS = 366 * DAY_MS;
+
+export interface ScrapeSchedulerOptions {
+  tickIntervalMs: number;
+  portfolioSyncIntervalMs: number; // how often portfolio schedules are applied to matching profiles
+  freshnessWindowMs: number; // profiles scraped more recently than this are skipped
+  maxJobsPerTick: number;
+  maxJobsPerHour: number; // cap on scheduled jobs created per rolling hour
+}
+
+export const DEFAULT_SCRAPE_SCHEDULER_OPTIONS: ScrapeSchedulerOptions = {
+  tickIntervalMs: MINUTE_MS,
+  portfolioSyncIntervalMs: 15 * MINUTE_MS,
+  freshnessWindowMs: (parseFloat(process.env.SCRAPE_FRESHNESS_HOURS || '6') || 6) * HOUR_MS,
+  maxJobsPerTick: 10,
+  maxJobsPerHour: parseInt(process.env.SCRAPE_SCHEDULER_MAX_JOBS_PER_HOUR || '60', 10) || 60
+};
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+function parseCronField(field: string, min: number, max: number): CronField | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (isNaN(step) || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(value => parseInt(value, 10));
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field === '*' };
+}
+
+function parseCronExpression(expression: string): CronExpression | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minute = parseCronField(fields[0], 0, 59);
+  const hour = parseCronField(fields[1], 0, 23);
+  const dayOfMonth = parseCronField(fields[2], 1, 31);
+  const month = parseCronField(fields[3], 1, 12);
+  const dayOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minute || !hour || !dayOfMonth || !month || !dayOfWeek) return null;
+
+  // 7 is an alias for Sunday
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesCronDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonthMatch = cron.dayOfMonth.values.has(date.getDate());
+  const dayOfWeekMatch = cron.dayOfWeek.values.has(date.getDay());
+  // Standard cron: when both day fields are restricted, either may match
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) return dayOfMonthMatch || dayOfWeekMatch;
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+function getNextCronRun(cron: CronExpression, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + MAX_CRON_LOOKAHEAD_MS;
+
+  while (candidate.getTime() <= limit) {
+    if (!cron.month.values.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!matchesCronDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!cron.hour.values.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minute.values.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a schedule string is "daily", "weekly" or a valid 5-field cron expression
+ */
+export function isValidScrapeSchedule(schedule: string): boolean {
+  const normalized = schedule.trim().toLowerCase();
+  if (normalized === 'daily' || normalized === 'weekly') return true;
+  const cron = parseCronExpression(normalized);
+  return cron !== null && getNextCronRun(cron, new Date()) !== null;
+}
+
+/**
+ * Next run for a schedule. Daily/weekly are intervals from the last scrape
+ * (due immediately if never scraped or overdue); cron runs at its next match after now.
+ */
+export function getNextScheduledScrape(schedule: string, lastScrapedAt: Date | null, now: Date = new Date()): Date | null {
+  const normalized = schedule.trim().toLowerCase();
+
+  if (normalized === 'daily' || normalized === 'weekly') {
+    if (!lastScrapedAt) return now;
+    const next = new Date(lastScrapedAt.getTime() + (normalized === 'daily' ? DAY_MS : 7 * DAY_MS));
+    return next > now ? next : now;
+  }
+
+  const cron = parseCronExpression(normalized);
+  return cron ? getNextCronRun(cron, now) : null;
+}
+
+/**
+ * The schedule that applies to a profile: its own, or the portfolio schedule
+ * (among the owner's and the profile organization's portfolios containing the
+ * profile's URL) that runs soonest
+ */
+export async function resolveProfileScrapeSchedule(profile: PropertyProfile): Promise<string | null> {
+  if (profile.scrapeSchedule) return profile.scrapeSchedule;
+  if (!profile.userId || !profile.url) return null;
+
+  // Same portfolios syncPortfolioSchedules covers, so a synced profile always resolves a schedule
+  const organizationIds = profile.organizationId ? [profile.organizationId] : [];
+  const portfolios = (await storage.getPortfoliosByUser(profile.userId, organizationIds)).filter(portfolio => portfolio.scrapeSchedule);
+  let soonest: { schedule: string; nextRun: Date } | null = null;
+
+  for (const portfolio of portfolios) {
+    const savedProfiles = await storage.getSavedPropertyProfilesByPortfolio(portfolio.id);
+    if (!savedProfiles.some(savedProfile => savedProfile.url === profile.url)) continue;
+
+    const nextRun = getNextScheduledScrape(portfolio.scrapeSchedule!, profile.lastScrapedAt);
+    if (nextRun && (!soonest || nextRun < soonest.nextRun)) {
+      soonest = { schedule: portfolio.scrapeSchedule!, nextRun };
+    }
+  }
+
+  return soonest?.schedule ?? null;
+}
+
+export class ScrapeScheduler {
+  private readonly options: ScrapeSchedulerOptions;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private lastPortfolioSyncAt = 0;
+
+  constructor(private onJobsQueued: () => void, options: Partial<ScrapeSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCRAPE_SCHEDULER_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.tickTimer) return;
+
+    console.log(`[SCRAPE_SCHEDULER] Started (freshness window ${Math.round(this.options.freshnessWindowMs / MINUTE_MS)} min, max ${this.options.maxJobsPerHour} jobs/hour)`);
+    this.tickTimer = setInterval(() => this.runTick(), this.options.tickIntervalMs);
+    this.tickTimer.unref();
+    this.runTick();
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  /**
+   * Recompute a profile's next scheduled scrape after its schedule (or its portfolios') changed
+   */
+  async refreshProfileSchedule(profileId: string): Promise<PropertyProfile | undefined> {
+    const profile = await storage.getPropertyProfile(profileId);
+    if (!profile) return undefined;
+
+    const schedule = await resolveProfileScrapeSchedule(profile);
+    const nextScrapeAt = schedule ? getNextScheduledScrape(schedule, profile.lastScrapedAt) : null;
+    return storage.updatePropertyProfile(profile.id, { nextScrapeAt });
+  }
+
+  /**
+   * Recompute next scrapes for every profile of the portfolio owner (or its organization) that the portfolio contains
+   */
+  async refreshPortfolioSchedule(portfolioId: string): Promise<number> {
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio) return 0;
+
+    const savedProfiles = await storage.getSavedPropertyProfilesByPortfolio(portfolio.id);
+    const urls = new Set(savedProfiles.map(savedProfile => savedProfile.url));
+    const profiles = (await storage.getPropertyProfilesByUser(portfolio.userId, portfolio.organizationId ? [portfolio.organizationId] : [])).filter(profile => urls.has(profile.url));
+
+    for (const profile of profiles) {
+      await this.refreshProfileSchedule(profile.id);
+    }
+    return profiles.length;
+  }
+
+  private runTick(): void {
+    this.tick().catch(error => {
+      console.error('[SCRAPE_SCHEDULER] Tick failed:', error);
+    });
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+
+      if (now.getTime() - this.lastPortfolioSyncAt >= this.options.portfolioSyncIntervalMs) {
+        await this.syncPortfolioSchedules();
+        this.lastPortfolioSyncAt = now.getTime();
+      }
+
+      const scheduledLastHour = await storage.countScrapingJobsByTriggerSince('scheduled', new Date(now.getTime() - HOUR_MS));
+      const budget = Math.min(this.options.maxJobsPerTick, this.options.maxJobsPerHour - scheduledLastHour);
+      if (budget <= 0) {
+        console.log(`[SCRAPE_SCHEDULER] Hourly budget spent (${scheduledLastHour} scheduled jobs in the last hour), deferring`);
+        return;
+      }
+
+      const dueProfiles = await storage.getPropertyProfilesDueForScrape(now, budget);
+      let queued = 0;
+
+      for (const profile of dueProfiles) {
+        if (await this.scheduleProfile(profile, now)) queued++;
+      }
+
+      if (queued > 0) {
+        console.log(`[SCRAPE_SCHEDULER] Queued ${queued} scheduled scraping jobs`);
+        this.onJobsQueued();
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Handle one due profile: enqueue a job unless it is fresh or already in flight,
+   * then move its nextScrapeAt forward. Returns whether a job was created.
+   */
+  private async scheduleProfile(profile: PropertyProfile, now: Date): Promise<boolean> {
+    const schedule = await resolveProfileScrapeSchedule(profile);
+    if (!schedule) {
+      await storage.updatePropertyProfile(profile.id, { nextScrapeAt: null });
+      return false;
+    }
+
+    // Next run counts from now, so a skipped or failed run doesn't fire again every tick
+    const nextScrapeAt = getNextScheduledScrape(schedule, now, now);
+
+    if (profile.lastScrapedAt && now.getTime() - profile.lastScrapedAt.getTime() < this.options.freshnessWindowMs) {
+      console.log(`[SCRAPE_SCHEDULER] Skipping ${profile.name}: scraped ${profile.lastScrapedAt.toISOString()}, within freshness window`);
+      await storage.updatePropertyProfile(profile.id, { nextScrapeAt: getNextScheduledScrape(schedule, profile.lastScrapedAt, now) });
+      return false;
+    }
+
+    const jobs = await storage.getScrapingJobsByProfile(profile.id);
+    if (jobs.some(job => job.status === 'pending' || job.status === 'processing')) {
+      console.log(`[SCRAPE_SCHEDULER] Skipping ${profile.name}: a scraping job is already queued`);
+      await storage.updatePropertyProfile(profile.id, { nextScrapeAt });
+      return false;
+    }
+
+    await storage.createScrapingJob({
+      propertyProfileId: profile.id,
+      stage: "scheduled_refresh",
+      cityUrl: profile.url,
+      status: "pending",
+      trigger: "scheduled"
+    });
+    await storage.updatePropertyProfile(profile.id, { nextScrapeAt });
+    return true;
+  }
+
+  /**
+   * Give profiles covered by a portfolio schedule (and no schedule of their own) a next run
+   */
+  private async syncPortfolioSchedules(): Promise<void> {
+    const portfolios = await storage.getPortfoliosWithScrapeSchedule();
+
+    for (const portfolio of portfolios) {
+      const savedProfiles = await storage.getSavedPropertyProfilesByPortfolio(portfolio.id);
+      const urls = new Set(savedProfiles.map(savedProfile => savedProfile.url));
+      const profiles = (await storage.getPropertyProfilesByUser(portfolio.userId, portfolio.organizationId ? [portfolio.organizationId] : []))
+        .filter(profile => urls.has(profile.url) && !profile.scrapeSchedule && !profile.nextScrapeAt);
+
+      for (const profile of profiles) {
+        await storage.updatePropertyProfile(profile.id, {
+          nextScrapeAt: getNextScheduledScrape(portfolio.scrapeSchedule!, profile.lastScrapedAt)
+        });
+      }
+    }
+  }
+}
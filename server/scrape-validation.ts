@@ -0,0 +1,268 @@
+import { storage } from "./storage";
+import { getUnitKey } from "./rent-history";
+import { median } from "@shared/utils";
+import type { InsertScrapedUnit, ScrapeSnapshotUnit, ScrapeValidationIssue } from "@shared/schema";
+
+/**
+ * Data-quality gate between parsing a scrape and writing scrapedUnits.
+ *
+ * Units are checked against schema rules (plausible rent, size, bedroom and
+ * bathroom ranges, unit type consistent with bedrooms, unique unit numbers) and
+ * then against statistics: the same property's prior scrape and the bedroom-type
+ * market of the other properties in the session. Failing units are quarantined
+ * with their reasons instead of being written to scrapedUnits.
+ */
+
+// Schema limits for a single apartment unit
+const MIN_RENT = 200;
+const MAX_RENT = 25000;
+const MIN_SQUARE_FOOTAGE = 150;
+const MAX_SQUARE_FOOTAGE = 6000;
+const MAX_BEDROOMS = 6;
+const MIN_BATHROOMS = 0.5;
+const MAX_BATHROOMS = 6;
+
+// Asking rent rarely moves more than this between two scrapes of the same unit
+const MAX_PRIOR_RENT_CHANGE = 0.4;
+// Looser limit for units new since the prior scrape, compared with that scrape's median for the bedroom count
+const MAX_PRIOR_MEDIAN_DEVIATION = 0.6;
+
+// Modified z-score (median/MAD) above which a rent is a market outlier
+const MARKET_OUTLIER_Z = 3.5;
+const MIN_MARKET_SAMPLE = 5;
+// Fallback when the sample has no spread (MAD of 0): ratio to the median
+const MARKET_OUTLIER_RATIO = 2.5;
+
+export interface QuarantinedUnit {
+  unit: InsertScrapedUnit;
+  reasons: ScrapeValidationIssue[];
+}
+
+export interface ScrapeValidationResult {
+  accepted: InsertScrapedUnit[];
+  quarantined: QuarantinedUnit[];
+}
+
+export interface ScrapeValidationContext {
+  url: string;
+  scrapedPropertyId: string;
+  sessionId?: string | null;
+}
+
+type MarketUnit = Pick<InsertScrapedUnit, 'bedrooms' | 'unitType' | 'rent'>;
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function getBedroomCount(unit: Pick<InsertScrapedUnit, 'bedrooms' | 'unitType'>): number | null {
+  if (unit.bedrooms !== null && unit.bedrooms !== undefined) return unit.bedrooms;
+  if (/studio/i.test(unit.unitType)) return 0;
+  const match = unit.unitType.match(/(\d+)\s*(?:br|bed)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function formatRent(rent: number): string {
+  return `$${Math.round(rent).toLocaleString()}`;
+}
+
+/**
+ * Rules every unit must satisfy on its own
+ */
+export function checkUnitSchema(unit: InsertScrapedUnit): ScrapeValidationIssue[] {
+  const issues: ScrapeValidationIssue[] = [];
+  const rent = toNumber(unit.rent);
+  const bathrooms = toNumber(unit.bathrooms);
+  const squareFootage = toNumber(unit.squareFootage);
+  const bedrooms = unit.bedrooms ?? null;
+
+  if (rent !== null && (rent < MIN_RENT || rent > MAX_RENT)) {
+    issues.push({ code: 'rent_out_of_range', message: `Rent ${formatRent(rent)} is outside ${formatRent(MIN_RENT)}-${formatRent(MAX_RENT)}` });
+  }
+  if (squareFootage !== null && (squareFootage < MIN_SQUARE_FOOTAGE || squareFootage > MAX_SQUARE_FOOTAGE)) {
+    issues.push({ code: 'square_footage_out_of_range', message: `${squareFootage} sq ft is outside ${MIN_SQUARE_FOOTAGE}-${MAX_SQUARE_FOOTAGE}` });
+  }
+  if (bedrooms !== null && (bedrooms < 0 || bedrooms > MAX_BEDROOMS)) {
+    issues.push({ code: 'bedrooms_out_of_range', message: `${bedrooms} bedrooms is outside 0-${MAX_BEDROOMS}` });
+  }
+  if (bathrooms !== null && (bathrooms < MIN_BATHROOMS || bathrooms > MAX_BATHROOMS)) {
+    issues.push({ code: 'bathrooms_out_of_range', message: `${bathrooms} bathrooms is outside ${MIN_BATHROOMS}-${MAX_BATHROOMS}` });
+  }
+
+  // Unit type and bedroom count must agree, e.g. no 10-bedroom studios
+  if (bedrooms !== null) {
+    const isStudio = /studio/i.test(unit.unitType);
+    const typeBedrooms = unit.unitType.match(/(\d+)\s*(?:br|bed)/i);
+    if ((isStudio && bedrooms !== 0) || (typeBedrooms && parseInt(typeBedrooms[1], 10) !== bedrooms)) {
+      issues.push({ code: 'unit_type_mismatch', message: `Unit type "${unit.unitType}" does not match ${bedrooms} bedrooms` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flag repeated unit numbers (the first occurrence is kept). Floor-plan-only rows,
+ * whose unit number is the plan name, are not compared.
+ */
+function findDuplicateUnitNumbers(units: InsertScrapedUnit[]): Map<number, ScrapeValidationIssue> {
+  const firstSeen = new Map<string, InsertScrapedUnit>();
+  const duplicates = new Map<number, ScrapeValidationIssue>();
+
+  units.forEach((unit, index) => {
+    const unitNumber = unit.unitNumber?.trim().toLowerCase();
+    if (!unitNumber || unitNumber === unit.floorPlanName?.trim().toLowerCase()) return;
+
+    const first = firstSeen.get(unitNumber);
+    if (!first) {
+      firstSeen.set(unitNumber, unit);
+      return;
+    }
+    duplicates.set(index, {
+      code: 'duplicate_unit_number',
+      message: first.floorPlanName !== unit.floorPlanName
+        ? `Unit ${unit.unitNumber} is also listed under floor plan "${first.floorPlanName || 'unknown'}"`
+        : `Unit ${unit.unitNumber} is listed more than once`
+    });
+  });
+
+  return duplicates;
+}
+
+function checkPriorScrape(
+  unit: InsertScrapedUnit,
+  priorRentByKey: Map<string, number>,
+  priorMedianByBedrooms: Map<number, number>
+): ScrapeValidationIssue | null {
+  const rent = toNumber(unit.rent);
+  if (rent === null) return null;
+
+  const priorRent = priorRentByKey.get(getUnitKey(unit));
+  if (priorRent !== undefined) {
+    const change = (rent - priorRent) / priorRent;
+    if (Math.abs(change) > MAX_PRIOR_RENT_CHANGE) {
+      return {
+        code: 'rent_jump_vs_prior_scrape',
+        message: `Rent ${formatRent(rent)} moved ${Math.round(change * 100)}% from ${formatRent(priorRent)} in the prior scrape`
+      };
+    }
+    return null;
+  }
+
+  const bedrooms = getBedroomCount(unit);
+  const priorMedian = bedrooms !== null ? priorMedianByBedrooms.get(bedrooms) : undefined;
+  if (priorMedian !== undefined && Math.abs(rent - priorMedian) / priorMedian > MAX_PRIOR_MEDIAN_DEVIATION) {
+    return {
+      code: 'rent_outlier_vs_prior_scrape',
+      message: `Rent ${formatRent(rent)} is far from this property's prior ${bedrooms}BR median of ${formatRent(priorMedian)}`
+    };
+  }
+  return null;
+}
+
+function checkMarketOutlier(rent: number, bedrooms: number, sample: number[]): ScrapeValidationIssue | null {
+  if (sample.length < MIN_MARKET_SAMPLE) return null;
+
+  const marketMedian = median(sample);
+  const mad = median(sample.map(value => Math.abs(value - marketMedian)));
+  const isOutlier = mad > 0
+    ? Math.abs(0.6745 * (rent - marketMedian) / mad) > MARKET_OUTLIER_Z
+    : rent > marketMedian * MARKET_OUTLIER_RATIO || rent < marketMedian / MARKET_OUTLIER_RATIO;
+
+  if (!isOutlier) return null;
+  return {
+    code: 'rent_market_outlier',
+    message: `Rent ${formatRent(rent)} is an outlier against the ${bedrooms}BR market median of ${formatRent(marketMedian)} (${sample.length} units)`
+  };
+}
+
+/**
+ * Split units into accepted and quarantined. `priorUnits` are the property's
+ * previous scrape; `marketUnits` are current units of other properties.
+ */
+export function validateScrapedUnits(
+  units: InsertScrapedUnit[],
+  priorUnits: ScrapeSnapshotUnit[],
+  marketUnits: MarketUnit[]
+): ScrapeValidationResult {
+  const reasonsByIndex = new Map<number, ScrapeValidationIssue[]>();
+  const addReason = (index: number, issue: ScrapeValidationIssue) => {
+    reasonsByIndex.set(index, [...(reasonsByIndex.get(index) || []), issue]);
+  };
+
+  units.forEach((unit, index) => checkUnitSchema(unit).forEach(issue => addReason(index, issue)));
+  findDuplicateUnitNumbers(units).forEach((issue, index) => addReason(index, issue));
+
+  // Prior scrape of the same listing
+  const priorRentByKey = new Map<string, number>();
+  const priorRentsByBedrooms = new Map<number, number[]>();
+  for (const priorUnit of priorUnits) {
+    const rent = toNumber(priorUnit.rent);
+    if (rent === null || rent <= 0) continue;
+    priorRentByKey.set(priorUnit.unitKey, rent);
+    const bedrooms = getBedroomCount(priorUnit);
+    if (bedrooms !== null) priorRentsByBedrooms.set(bedrooms, [...(priorRentsByBedrooms.get(bedrooms) || []), rent]);
+  }
+  const priorMedianByBedrooms = new Map<number, number>();
+  priorRentsByBedrooms.forEach((rents, bedrooms) => priorMedianByBedrooms.set(bedrooms, median(rents)));
+
+  // Bedroom-type market: other properties plus this scrape's units that passed the schema rules
+  const marketRentsByBedrooms = new Map<number, number[]>();
+  const addMarketRent = (unit: MarketUnit) => {
+    const rent = toNumber(unit.rent);
+    const bedrooms = getBedroomCount(unit);
+    if (rent === null || rent <= 0 || bedrooms === null) return;
+    marketRentsByBedrooms.set(bedrooms, [...(marketRentsByBedrooms.get(bedrooms) || []), rent]);
+  };
+  marketUnits.forEach(addMarketRent);
+  units.forEach((unit, index) => {
+    if (!reasonsByIndex.has(index)) addMarketRent(unit);
+  });
+
+  units.forEach((unit, index) => {
+    if (reasonsByIndex.has(index)) return;
+
+    const priorIssue = checkPriorScrape(unit, priorRentByKey, priorMedianByBedrooms);
+    if (priorIssue) addReason(index, priorIssue);
+
+    const rent = toNumber(unit.rent);
+    const bedrooms = getBedroomCount(unit);
+    if (rent !== null && bedrooms !== null) {
+      const marketIssue = checkMarketOutlier(rent, bedrooms, marketRentsByBedrooms.get(bedrooms) || []);
+      if (marketIssue) addReason(index, marketIssue);
+    }
+  });
+
+  const result: ScrapeValidationResult = { accepted: [], quarantined: [] };
+  units.forEach((unit, index) => {
+    const reasons = reasonsByIndex.get(index);
+    if (reasons) {
+      result.quarantined.push({ unit, reasons });
+    } else {
+      result.accepted.push(unit);
+    }
+  });
+  return result;
+}
+
+/**
+ * Validate a scrape's units, loading the listing's prior snapshot and the
+ * session's market units for the statistical checks
+ */
+export async function validateScrape(units: InsertScrapedUnit[], context: ScrapeValidationContext): Promise<ScrapeValidationResult> {
+  const priorSnapshot = await storage.getLatestScrapeSnapshot(context.url);
+  const priorUnits = priorSnapshot ? await storage.getScrapeSnapshotUnits([priorSnapshot.id]) : [];
+
+  const marketUnits = context.sessionId
+    ? (await storage.getScrapedUnitsForSession(context.sessionId)).filter(unit => unit.propertyId !== context.scrapedPropertyId)
+    : [];
+
+  const result = validateScrapedUnits(units, priorUnits, marketUnits);
+  if (result.quarantined.length > 0) {
+    console.log(`[SCRAPE_VALIDATION] Quarantined ${result.quarantined.length}/${units.length} units for ${context.url}:`,
+      result.quarantined.map(({ unit, reasons }) => `${unit.unitNumber || unit.unitType} (${reasons.map(reason => reason.code).join(', ')})`).join('; '));
+  }
+  return result;
+}
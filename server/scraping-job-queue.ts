@@ -0,0 +1,241 @@
+import os from "os";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { ScrapingJob } from "@shared/schema";
+
+/**
+ * Durable, Postgres-backed scraping job queue.
+ *
+ * Jobs live in the `scraping_jobs` table. Workers lease due `pending` jobs,
+ * keep the lease alive with heartbeats while they run, and release the job as
+ * completed, failed, retrying (back to `pending` with a backoff) or dead-lettered.
+ * Leases that lapse - because a process crashed or was redeployed - are
+ * reclaimed on boot and on every poll, so no job is left stuck in `processing`.
+ */
+
+// Outcome of a handler run. Thrown errors are treated as retryable.
+export type ScrapingJobOutcome =
+  | { status: 'completed'; results: any }
+  | { status: 'failed'; errorMessage: string }; // permanent failure, not retried
+
+export type ScrapingJobHandler = (job: ScrapingJob) => Promise<ScrapingJobOutcome>;
+
+export interface ScrapingJobQueueListeners {
+  // Called once a job reaches a final status (completed, failed or dead_letter)
+  onSettled?: (job: ScrapingJob) => void;
+  // Called on every status change this worker makes: claimed, released for retry or settled
+  onTransition?: (job: ScrapingJob) => void;
+}
+
+export interface ScrapingJobQueueOptions {
+  concurrency: number; // max jobs this worker runs at once
+  leaseMs: number; // how long a claim is valid without a heartbeat
+  heartbeatMs: number;
+  pollIntervalMs: number;
+  retryBaseDelayMs: number; // delay before the first retry, doubled per attempt
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_SCRAPING_QUEUE_OPTIONS: ScrapingJobQueueOptions = {
+  concurrency: parseInt(process.env.SCRAPING_QUEUE_CONCURRENCY || '3', 10) || 3,
+  leaseMs: 2 * 60 * 1000,
+  heartbeatMs: 30 * 1000,
+  pollIntervalMs: 5 * 1000,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 15 * 60 * 1000
+};
+
+/**
+ * Exponential backoff for the retry after the given (1-based) attempt
+ */
+export function getRetryDelayMs(attempts: number, options: Pick<ScrapingJobQueueOptions, 'retryBaseDelayMs' | 'retryMaxDelayMs'>): number {
+  return Math.min(options.retryMaxDelayMs, options.retryBaseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+export class ScrapingJobQueue {
+  readonly workerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private readonly options: ScrapingJobQueueOptions;
+  // Heartbeat timers for jobs leased by this worker; the queue state itself is in Postgres
+  private heartbeats = new Map<string, NodeJS.Timeout>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollRequested = false;
+
+  constructor(
+    private handler: ScrapingJobHandler,
+    options: Partial<ScrapingJobQueueOptions> = {},
+    private listeners: ScrapingJobQueueListeners = {}
+  ) {
+    this.options = { ...DEFAULT_SCRAPING_QUEUE_OPTIONS, ...options };
+  }
+
+  get activeJobCount(): number {
+    return this.heartbeats.size;
+  }
+
+  /**
+   * Reclaim jobs orphaned by a previous process and start polling
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    try {
+      const { requeued, deadLettered } = await storage.reclaimExpiredScrapingJobs();
+      console.log(`[SCRAPING_QUEUE] Worker ${this.workerId} started (concurrency ${this.options.concurrency}); reclaimed ${requeued} orphaned jobs, dead-lettered ${deadLettered}`);
+    } catch (error) {
+      console.error('[SCRAPING_QUEUE] Failed to reclaim orphaned jobs on boot:', error);
+    }
+
+    this.pollTimer = setInterval(() => this.wake(), this.options.pollIntervalMs);
+    this.pollTimer.unref();
+    this.wake();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Check for due jobs now instead of waiting for the next poll
+   */
+  wake(): void {
+    this.poll().catch(error => {
+      console.error('[SCRAPING_QUEUE] Poll failed:', error);
+    });
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollRequested = true;
+      return;
+    }
+    this.polling = true;
+
+    try {
+      do {
+        this.pollRequested = false;
+
+        const { requeued, deadLettered } = await storage.reclaimExpiredScrapingJobs();
+        if (requeued > 0 || deadLettered > 0) {
+          console.log(`[SCRAPING_QUEUE] Reclaimed ${requeued} jobs with expired leases, dead-lettered ${deadLettered}`);
+        }
+
+        const capacity = this.options.concurrency - this.heartbeats.size;
+        if (capacity <= 0) break;
+
+        const jobs = await storage.claimScrapingJobs(this.workerId, capacity, this.options.leaseMs);
+        for (const job of jobs) {
+          this.notifyTransition(job);
+          this.runJob(job).catch(error => {
+            console.error(`[SCRAPING_QUEUE] Unexpected error running job ${job.id}:`, error);
+          });
+        }
+      } while (this.pollRequested);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(job: ScrapingJob): Promise<void> {
+    console.log(`[SCRAPING_QUEUE] Running job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const heartbeat = setInterval(() => {
+      storage.heartbeatScrapingJob(job.id, this.workerId, this.options.leaseMs)
+        .then(held => {
+          if (!held) console.warn(`[SCRAPING_QUEUE] Lost lease on job ${job.id}; its result will be discarded`);
+        })
+        .catch(error => console.error(`[SCRAPING_QUEUE] Heartbeat failed for job ${job.id}:`, error));
+    }, this.options.heartbeatMs);
+    heartbeat.unref();
+    this.heartbeats.set(job.id, heartbeat);
+
+    try {
+      const outcome = await this.handler(job);
+
+      if (outcome.status === 'completed') {
+        this.notifySettled(await storage.releaseScrapingJob(job.id, this.workerId, {
+          status: 'completed',
+          completedAt: new Date(),
+          results: outcome.results,
+          errorMessage: null,
+          nextRunAt: null
+        }));
+        console.log(`[SCRAPING_QUEUE] Job ${job.id} completed`);
+      } else {
+        this.notifySettled(await storage.releaseScrapingJob(job.id, this.workerId, {
+          status: 'failed',
+          completedAt: new Date(),
+          errorMessage: outcome.errorMessage,
+          nextRunAt: null
+        }));
+        console.log(`[SCRAPING_QUEUE] Job ${job.id} failed permanently: ${outcome.errorMessage}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        this.notifySettled(await storage.releaseScrapingJob(job.id, this.workerId, {
+          status: 'dead_letter',
+          completedAt: new Date(),
+          errorMessage,
+          nextRunAt: null
+        }));
+        console.error(`[SCRAPING_QUEUE] Job ${job.id} dead-lettered after ${job.attempts} attempts: ${errorMessage}`);
+      } else {
+        const nextRunAt = new Date(Date.now() + getRetryDelayMs(job.attempts, this.options));
+        const released = await storage.releaseScrapingJob(job.id, this.workerId, {
+          status: 'pending',
+          errorMessage,
+          nextRunAt
+        });
+        if (released) this.notifyTransition(released);
+        console.warn(`[SCRAPING_QUEUE] Job ${job.id} attempt ${job.attempts} failed, retrying at ${nextRunAt.toISOString()}: ${errorMessage}`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.heartbeats.delete(job.id);
+      // A slot just freed up - pick up any waiting work
+      this.wake();
+    }
+  }
+
+  // Released is undefined when the lease was lost, in which case another worker owns the outcome
+  private notifySettled(released: ScrapingJob | undefined): void {
+    if (!released) return;
+    this.notifyTransition(released);
+    try {
+      this.listeners.onSettled?.(released);
+    } catch (error) {
+      console.error(`[SCRAPING_QUEUE] Settled listener failed for job ${released.id}:`, error);
+    }
+  }
+
+  private notifyTransition(job: ScrapingJob): void {
+    try {
+      this.listeners.onTransition?.(job);
+    } catch (error) {
+      console.error(`[SCRAPING_QUEUE] Transition listener failed for job ${job.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Queue-facing summary of a job for status endpoints
+ */
+export function describeScrapingJobAttempts(job: ScrapingJob): {
+  attempts: number;
+  maxAttempts: number;
+  nextRetryAt: Date | null;
+  leaseExpiresAt: Date | null;
+} {
+  return {
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    // Only pending jobs that have already failed at least once are waiting on a retry
+    nextRetryAt: job.status === 'pending' && job.attempts > 0 ? job.nextRunAt : null,
+    leaseExpiresAt: job.status === 'processing' ? job.leaseExpiresAt : null
+  };
+}
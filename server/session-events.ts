@@ -0,0 +1,86 @@
+import type { Response } from "express";
+import type { SessionEventName } from "@shared/schema";
+
+/**
+ * Server-Sent Events streamed per analysis session.
+ *
+ * Progress modals subscribe to GET /api/analysis-sessions/:sessionId/events
+ * and receive scraping status snapshots as jobs change state and optimization
+ * stage progress as reports are generated. Subscribers live in this process,
+ * so they only hear events published by the instance they're connected to.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Tells EventSource-style clients how long to wait before reconnecting
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+export class SessionEventHub {
+  private subscribers = new Map<string, Set<Response>>();
+
+  /**
+   * Turn the response into an event stream for the session. The stream stays
+   * open until the client disconnects.
+   */
+  subscribe(sessionId: string, res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    let sessionSubscribers = this.subscribers.get(sessionId);
+    if (!sessionSubscribers) {
+      sessionSubscribers = new Set();
+      this.subscribers.set(sessionId, sessionSubscribers);
+    }
+    sessionSubscribers.add(res);
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      const remaining = this.subscribers.get(sessionId);
+      if (!remaining) return;
+      remaining.delete(res);
+      if (remaining.size === 0) this.subscribers.delete(sessionId);
+    });
+  }
+
+  hasSubscribers(sessionId: string): boolean {
+    return this.subscribers.has(sessionId);
+  }
+
+  /**
+   * Sessions with at least one open stream
+   */
+  getSubscribedSessionIds(): string[] {
+    return Array.from(this.subscribers.keys());
+  }
+
+  publish(sessionId: string, event: SessionEventName, data: unknown): void {
+    const sessionSubscribers = this.subscribers.get(sessionId);
+    if (!sessionSubscribers) return;
+
+    for (const res of Array.from(sessionSubscribers)) {
+      this.send(res, event, data);
+    }
+  }
+
+  /**
+   * Send an event to a single subscriber, e.g. the current state when it connects
+   */
+  send(res: Response, event: SessionEventName, data: unknown): void {
+    try {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      console.error(`[SESSION_EVENTS] Failed to write ${event} event:`, error);
+    }
+  }
+}
+
+export const sessionEvents = new SessionEventHub();
@@ -22,6 +22,12 @@ import {
   type InsertCompetitorProperty,
   type PropertyUnit,
   type InsertPropertyUnit,
+  type Lease,
+  type InsertLease,
+  type PricingProposal,
+  type InsertPricingProposal,
+  type PricingProposalUnit,
+  type InsertPricingProposalUnit,
   type OptimizationReport,
   type InsertOptimizationReport,
   type ScrapingJob,
@@ -30,6 +36,16 @@ import {
   type InsertScrapedProperty,
   type ScrapedUnit,
   type InsertScrapedUnit,
+  type QuarantinedScrapedUnit,
+  type InsertQuarantinedScrapedUnit,
+  type ScrapeValidationIssue,
+  type ScrapeSnapshot,
+  type InsertScrapeSnapshot,
+  type ScrapeSnapshotUnit,
+  type InsertScrapeSnapshotUnit,
+  type CompetitorCandidate,
+  type InsertCompetitorCandidate,
+  type CompetitorCandidateStatus,
   type FilterCriteria,
   type FilteredAnalysis,
   type UnitComparison,
@@ -40,6 +56,17 @@ import {
   // User authentication types
   type User,
   type UpsertUser,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type InsertOrganizationMember,
+  type OrganizationRole,
+  type ApiKey,
+  type InsertApiKey,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
   // Saved selection template types
   type SavedSelectionTemplate,
   type InsertSavedSelectionTemplate,
@@ -59,16 +86,44 @@ import {
   propertyAnalysis,
   competitorProperties,
   propertyUnits,
+  leases,
   tagDefinitions,
   optimizationReports,
+  pricingProposals,
+  pricingProposalUnits,
   scrapingJobs,
   scrapedProperties,
   scrapedUnits,
+  scrapeSnapshots,
+  scrapeSnapshotUnits,
+  quarantinedScrapedUnits,
+  competitorCandidates,
+  COMPETITOR_DISCOVERY_STAGE,
   users,
+  organizations,
+  organizationMembers,
+  apiKeys,
+  webhookSubscriptions,
+  webhookDeliveries,
   savedSelectionTemplates,
   templatePropertyProfiles
 } from "@shared/schema";
-import { eq, and, inArray, desc, asc, sql } from "drizzle-orm";
+import { eq, and, or, inArray, desc, asc, sql, isNull, isNotNull, lte, lt, gte, ne } from "drizzle-orm";
+import { type PricingModelParameters } from "./pricing-engine";
+import { resolvePricingStrategy } from "./pricing-strategies";
+import {
+  buildComparableUnits,
+  buildComparableSources,
+  buildRelationshipResolver,
+  getComparableStats,
+  calculateRentPerSqFt,
+  calculateWeightedPercentile,
+  type RelationshipResolver
+} from "./market-comparables";
+import { filterUnitsByAttributes, getTopFloors, hasAttributeFilters } from "./unit-attributes";
+import { compareAmenities, resolveAmenityWeights } from "./amenities";
+import { computeLocationScore } from "./location-score";
+import { normalizeAmenities } from "@shared/utils";
 
 // Workflow State interface (updated for property profiles)
 export interface WorkflowState {
@@ -89,8 +144,9 @@ export interface IStorage {
   getPropertyProfile(id: string): Promise<PropertyProfile | undefined>;
   getAllPropertyProfiles(): Promise<PropertyProfile[]>;
   getPropertyProfilesByType(profileType: 'subject' | 'competitor'): Promise<PropertyProfile[]>;
-  getPropertyProfilesByUser(userId: string): Promise<PropertyProfile[]>;
-  getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor'): Promise<PropertyProfile[]>;
+  // organizationIds widens the result to profiles shared with those organizations
+  getPropertyProfilesByUser(userId: string, organizationIds?: string[]): Promise<PropertyProfile[]>;
+  getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor', organizationIds?: string[]): Promise<PropertyProfile[]>;
   updatePropertyProfile(id: string, updates: Partial<PropertyProfile>): Promise<PropertyProfile | undefined>;
   deletePropertyProfile(id: string): Promise<boolean>;
   
@@ -98,7 +154,7 @@ export interface IStorage {
   createAnalysisSession(session: InsertAnalysisSession): Promise<AnalysisSession>;
   getAnalysisSession(id: string): Promise<AnalysisSession | undefined>;
   getAllAnalysisSessions(): Promise<AnalysisSession[]>;
-  getAnalysisSessionsByUser(userId: string): Promise<AnalysisSession[]>;
+  getAnalysisSessionsByUser(userId: string, organizationIds?: string[]): Promise<AnalysisSession[]>;
   updateAnalysisSession(id: string, updates: Partial<AnalysisSession>): Promise<AnalysisSession | undefined>;
   deleteAnalysisSession(id: string): Promise<boolean>;
   
@@ -131,6 +187,7 @@ export interface IStorage {
   
   // Property Units
   createPropertyUnit(unit: InsertPropertyUnit): Promise<PropertyUnit>;
+  getPropertyUnit(id: string): Promise<PropertyUnit | undefined>;
   getPropertyUnits(propertyId: string): Promise<PropertyUnit[]>;
   getPropertyUnitsByProfile(propertyProfileId: string): Promise<PropertyUnit[]>;
   updatePropertyUnit(id: string, updates: Partial<PropertyUnit>): Promise<PropertyUnit | undefined>;
@@ -152,6 +209,25 @@ export interface IStorage {
     }>;
   }>;
   
+  // Leases
+  createLease(lease: InsertLease): Promise<Lease>;
+  getLease(id: string): Promise<Lease | undefined>;
+  getLeasesByUnit(propertyUnitId: string): Promise<Lease[]>; // newest lease start first
+  getLeasesByProfile(propertyProfileId: string): Promise<Lease[]>;
+  updateLease(id: string, updates: Partial<InsertLease>): Promise<Lease | undefined>;
+  deleteLease(id: string): Promise<boolean>;
+  
+  // Pricing Proposals
+  createPricingProposal(proposal: InsertPricingProposal, units: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal>;
+  getPricingProposal(id: string): Promise<PricingProposal | undefined>;
+  getPricingProposalsBySession(sessionId: string): Promise<PricingProposal[]>; // newest first
+  getPricingProposalUnits(proposalId: string): Promise<PricingProposalUnit[]>;
+  // Replaces the proposal's units when units are given
+  updatePricingProposal(id: string, updates: Partial<InsertPricingProposal>, units?: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal | undefined>;
+  // Approves a submitted proposal and writes its proposed rents to the units' recommendedRent; undefined if it is no longer submitted
+  approvePricingProposal(id: string, decisionNote: string | null): Promise<PricingProposal | undefined>;
+  deletePricingProposal(id: string): Promise<boolean>;
+  
   // TAG Definitions
   createTagDefinition(tagDef: InsertTagDefinition): Promise<TagDefinition>;
   getTagDefinition(id: string): Promise<TagDefinition | undefined>;
@@ -164,13 +240,15 @@ export interface IStorage {
   createOptimizationReport(report: InsertOptimizationReport): Promise<OptimizationReport>;
   getOptimizationReport(propertyId: string): Promise<OptimizationReport | undefined>;
   getOptimizationReportsBySession(sessionId: string): Promise<OptimizationReport[]>;
-  generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number): Promise<{
+  // onProgress is called as the report moves through the optimization stages 2-4
+  generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number, strategyParams?: Record<string, any>, onProgress?: (stage: number, message: string) => void): Promise<{
     unitRecommendations: any[];
     totalIncrease: number;
     affectedUnits: number;
     avgIncrease: number;
     riskLevel: string;
     marketInsights: any;
+    pricingModel: PricingModelParameters;
   }>;
   
   // Scrapezy Integration
@@ -179,6 +257,17 @@ export interface IStorage {
   getScrapingJobsByProperty(propertyId: string): Promise<ScrapingJob[]>;
   updateScrapingJob(id: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob | undefined>;
   
+  // Durable scraping job queue
+  claimScrapingJobs(workerId: string, limit: number, leaseMs: number): Promise<ScrapingJob[]>;
+  heartbeatScrapingJob(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  releaseScrapingJob(id: string, workerId: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob | undefined>;
+  reclaimExpiredScrapingJobs(): Promise<{ requeued: number; deadLettered: number }>;
+  
+  // Scheduled re-scraping
+  getPropertyProfilesDueForScrape(now: Date, limit: number): Promise<PropertyProfile[]>;
+  getPortfoliosWithScrapeSchedule(): Promise<SavedPortfolio[]>;
+  countScrapingJobsByTriggerSince(trigger: string, since: Date): Promise<number>;
+  
   createScrapedProperty(property: InsertScrapedProperty): Promise<ScrapedProperty>;
   getScrapedPropertiesByJob(scrapingJobId: string): Promise<ScrapedProperty[]>;
   getAllScrapedCompetitors(): Promise<ScrapedProperty[]>;
@@ -190,6 +279,22 @@ export interface IStorage {
   clearScrapedUnitsForProperty(propertyId: string): Promise<void>;
   replaceScrapedUnitsForProperty(propertyId: string, units: InsertScrapedUnit[]): Promise<ScrapedUnit[]>;
   
+  // Units that failed scrape validation
+  replaceQuarantinedUnitsForProperty(propertyId: string, units: InsertQuarantinedScrapedUnit[]): Promise<QuarantinedScrapedUnit[]>;
+  getQuarantinedUnitsByProperty(propertyId: string): Promise<QuarantinedScrapedUnit[]>;
+  
+  // Scrape snapshots (rent history across scrape runs)
+  createScrapeSnapshot(snapshot: InsertScrapeSnapshot, units: Omit<InsertScrapeSnapshotUnit, 'snapshotId'>[]): Promise<ScrapeSnapshot>;
+  getScrapeSnapshotsByUrl(url: string, since?: Date): Promise<ScrapeSnapshot[]>;
+  getLatestScrapeSnapshot(url: string): Promise<ScrapeSnapshot | undefined>;
+  getScrapeSnapshotUnits(snapshotIds: string[]): Promise<ScrapeSnapshotUnit[]>;
+  
+  // Competitor discovery candidates (keyed by subject profile and listing URL)
+  upsertCompetitorCandidate(candidate: InsertCompetitorCandidate): Promise<CompetitorCandidate>;
+  getCompetitorCandidate(id: string): Promise<CompetitorCandidate | undefined>;
+  getCompetitorCandidatesBySubject(subjectProfileId: string, status?: CompetitorCandidateStatus): Promise<CompetitorCandidate[]>;
+  updateCompetitorCandidate(id: string, updates: Partial<CompetitorCandidate>): Promise<CompetitorCandidate | undefined>;
+  
   // Get subject property (marked as isSubjectProperty: true)
   getSubjectScrapedProperty(): Promise<ScrapedProperty | null>;
   
@@ -210,15 +315,19 @@ export interface IStorage {
   
   // NEW: Property Profile specific retrieval methods
   getPropertyUnitsByProfile(propertyProfileId: string): Promise<PropertyUnit[]>;
+  // Jobs that scraped the profile itself, newest first; competitor discovery jobs are listed separately
   getScrapingJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]>;
+  getCompetitorDiscoveryJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]>;
   getScrapingJobsBySession(sessionId: string): Promise<ScrapingJob[]>;
   getAllOptimizationReports(): Promise<OptimizationReport[]>;
+  // Reports for any of the given property profiles, newest first
+  getOptimizationReportsByProfiles(propertyProfileIds: string[]): Promise<OptimizationReport[]>;
   
   // NEW: Portfolio Management Operations
   // Portfolio CRUD operations
   createPortfolio(portfolio: InsertSavedPortfolio): Promise<SavedPortfolio>;
   getPortfolio(id: string): Promise<SavedPortfolio | undefined>;
-  getPortfoliosByUser(userId: string): Promise<SavedPortfolio[]>;
+  getPortfoliosByUser(userId: string, organizationIds?: string[]): Promise<SavedPortfolio[]>;
   updatePortfolio(id: string, updates: Partial<SavedPortfolio>): Promise<SavedPortfolio | undefined>;
   deletePortfolio(id: string): Promise<boolean>;
   updatePortfolioLastAccessed(id: string): Promise<void>;
@@ -241,7 +350,7 @@ export interface IStorage {
   // Saved Selection Template Operations
   createSavedSelectionTemplate(template: InsertSavedSelectionTemplate): Promise<SavedSelectionTemplate>;
   getSavedSelectionTemplate(id: string): Promise<SavedSelectionTemplate | undefined>;
-  getSavedSelectionTemplatesByUser(userId: string): Promise<SavedSelectionTemplate[]>;
+  getSavedSelectionTemplatesByUser(userId: string, organizationIds?: string[]): Promise<SavedSelectionTemplate[]>;
   updateSavedSelectionTemplate(id: string, updates: Partial<SavedSelectionTemplate>): Promise<SavedSelectionTemplate | undefined>;
   deleteSavedSelectionTemplate(id: string): Promise<boolean>;
   addPropertyProfileToTemplate(templatePropertyProfile: InsertTemplatePropertyProfile): Promise<TemplatePropertyProfile>;
@@ -255,6 +364,38 @@ export interface IStorage {
   getUsersByEmailAndAuthProvider(email: string, authProvider: string): Promise<User[]>;
   upsertUser(user: UpsertUser): Promise<User>;
   
+  // Organization operations (team workspaces and memberships)
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization | undefined>;
+  getOrganizationsByUser(userId: string): Promise<Array<Organization & { role: OrganizationRole }>>;
+  getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]>;
+  getOrganizationMembershipsByUser(userId: string): Promise<OrganizationMember[]>;
+  addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<boolean>;
+  
+  // API key operations (public REST API credentials)
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getApiKeysByUser(userId: string): Promise<ApiKey[]>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  
+  // Webhook operations (outbound event subscriptions and their delivery log)
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  getWebhookSubscriptionsByUser(userId: string, organizationIds?: string[]): Promise<WebhookSubscription[]>;
+  getActiveWebhookSubscriptionsForOwner(userId: string | null, organizationId: string | null): Promise<WebhookSubscription[]>;
+  updateWebhookSubscription(id: string, updates: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveriesBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  
   // Password reset token management
   setResetToken(userId: string, token: string, expires: Date): Promise<void>;
   getUserByResetToken(token: string): Promise<User | undefined>;
@@ -263,7 +404,7 @@ export interface IStorage {
   // Saved Selection Templates
   createSavedSelectionTemplate(template: InsertSavedSelectionTemplate): Promise<SavedSelectionTemplate>;
   getSavedSelectionTemplate(id: string): Promise<SavedSelectionTemplate | undefined>;
-  getSavedSelectionTemplatesByUser(userId: string): Promise<SavedSelectionTemplate[]>;
+  getSavedSelectionTemplatesByUser(userId: string, organizationIds?: string[]): Promise<SavedSelectionTemplate[]>;
   updateSavedSelectionTemplate(id: string, updates: Partial<SavedSelectionTemplate>): Promise<SavedSelectionTemplate | undefined>;
   deleteSavedSelectionTemplate(id: string): Promise<boolean>;
   
@@ -333,7 +474,7 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async getPropertyProfilesByUser(userId: string): Promise<PropertyProfile[]> {
+  async getPropertyProfilesByUser(userId: string, organizationIds: string[] = []): Promise<PropertyProfile[]> {
     try {
       console.log('[DEBUG DRIZZLE_STORAGE] getPropertyProfilesByUser called with userId:', userId);
       
@@ -342,7 +483,9 @@ export class DrizzleStorage implements IStorage {
       const query = db.select()
         .from(propertyProfiles)
         .where(and(
-          eq(propertyProfiles.userId, userId),
+          organizationIds.length > 0
+            ? or(eq(propertyProfiles.userId, userId), inArray(propertyProfiles.organizationId, organizationIds))
+            : eq(propertyProfiles.userId, userId),
           sql`${propertyProfiles.userId} IS NOT NULL`,
           sql`${propertyProfiles.userId} != ''`
         ))
@@ -361,7 +504,7 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor'): Promise<PropertyProfile[]> {
+  async getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor', organizationIds: string[] = []): Promise<PropertyProfile[]> {
     try {
       console.log('[DEBUG DRIZZLE_STORAGE] getPropertyProfilesByUserAndType called with userId:', userId, 'profileType:', profileType);
       
@@ -370,7 +513,9 @@ export class DrizzleStorage implements IStorage {
       const query = db.select()
         .from(propertyProfiles)
         .where(and(
-          eq(propertyProfiles.userId, userId),
+          organizationIds.length > 0
+            ? or(eq(propertyProfiles.userId, userId), inArray(propertyProfiles.organizationId, organizationIds))
+            : eq(propertyProfiles.userId, userId),
           eq(propertyProfiles.profileType, profileType),
           sql`${propertyProfiles.userId} IS NOT NULL`,
           sql`${propertyProfiles.userId} != ''`
@@ -426,6 +571,12 @@ export class DrizzleStorage implements IStorage {
       
       console.log('[DRIZZLE_STORAGE] Removed', scrapingJobsResult.rowCount || 0, 'scraping jobs for property profile:', id);
       
+      // Drop the profile's discovery candidates and unlink candidates accepted as this profile
+      await db.delete(competitorCandidates).where(eq(competitorCandidates.subjectProfileId, id));
+      await db.update(competitorCandidates)
+        .set({ competitorProfileId: null })
+        .where(eq(competitorCandidates.competitorProfileId, id));
+      
       // Then delete the property profile itself
       const result = await db.delete(propertyProfiles).where(eq(propertyProfiles.id, id));
       
@@ -470,11 +621,13 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async getAnalysisSessionsByUser(userId: string): Promise<AnalysisSession[]> {
+  async getAnalysisSessionsByUser(userId: string, organizationIds: string[] = []): Promise<AnalysisSession[]> {
     try {
       return await db.select()
         .from(analysisSessions)
-        .where(eq(analysisSessions.userId, userId))
+        .where(organizationIds.length > 0
+          ? or(eq(analysisSessions.userId, userId), inArray(analysisSessions.organizationId, organizationIds))
+          : eq(analysisSessions.userId, userId))
         .orderBy(desc(analysisSessions.createdAt));
     } catch (error) {
       console.error('[DRIZZLE_STORAGE] Error getting analysis sessions by user:', error);
@@ -562,6 +715,10 @@ export class DrizzleStorage implements IStorage {
         matchScore: propertyProfiles.matchScore,
         vacancyRate: propertyProfiles.vacancyRate,
         priceRange: propertyProfiles.priceRange,
+        latitude: propertyProfiles.latitude,
+        longitude: propertyProfiles.longitude,
+        geocodedAddress: propertyProfiles.geocodedAddress,
+        poiDistances: propertyProfiles.poiDistances,
         createdAt: propertyProfiles.createdAt,
         updatedAt: propertyProfiles.updatedAt
       })
@@ -620,11 +777,13 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async getPortfoliosByUser(userId: string): Promise<SavedPortfolio[]> {
+  async getPortfoliosByUser(userId: string, organizationIds: string[] = []): Promise<SavedPortfolio[]> {
     try {
       return await db.select()
         .from(savedPortfolios)
-        .where(eq(savedPortfolios.userId, userId))
+        .where(organizationIds.length > 0
+          ? or(eq(savedPortfolios.userId, userId), inArray(savedPortfolios.organizationId, organizationIds))
+          : eq(savedPortfolios.userId, userId))
         .orderBy(desc(savedPortfolios.lastAccessedAt));
     } catch (error) {
       console.error('[DRIZZLE_STORAGE] Error getting portfolios by user:', error);
@@ -667,6 +826,352 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
+  // Organization Operations
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    try {
+      // The creator becomes the organization's first owner
+      return await db.transaction(async (tx) => {
+        const [newOrganization] = await tx.insert(organizations).values(organization).returning();
+        await tx.insert(organizationMembers).values({
+          organizationId: newOrganization.id,
+          userId: organization.createdBy,
+          role: 'owner'
+        });
+        return newOrganization;
+      });
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating organization:', error);
+      throw new Error(`Failed to create organization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    try {
+      const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+      return organization;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting organization:', error);
+      throw new Error(`Failed to get organization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization | undefined> {
+    try {
+      const [updatedOrganization] = await db.update(organizations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(organizations.id, id))
+        .returning();
+      return updatedOrganization;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating organization:', error);
+      throw new Error(`Failed to update organization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOrganizationsByUser(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+    try {
+      const rows = await db.select({ organization: organizations, role: organizationMembers.role })
+        .from(organizationMembers)
+        .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+        .where(eq(organizationMembers.userId, userId))
+        .orderBy(asc(organizations.name));
+      return rows.map((row: { organization: Organization; role: string }) => ({ ...row.organization, role: row.role as OrganizationRole }));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting organizations by user:', error);
+      throw new Error(`Failed to get organizations by user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    try {
+      const [member] = await db.select()
+        .from(organizationMembers)
+        .where(and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        ));
+      return member;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting organization member:', error);
+      throw new Error(`Failed to get organization member: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    try {
+      return await db.select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, organizationId))
+        .orderBy(asc(organizationMembers.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting organization members:', error);
+      throw new Error(`Failed to get organization members: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOrganizationMembershipsByUser(userId: string): Promise<OrganizationMember[]> {
+    try {
+      return await db.select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, userId));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting organization memberships by user:', error);
+      throw new Error(`Failed to get organization memberships by user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    try {
+      const [newMember] = await db.insert(organizationMembers).values(member).returning();
+      return newMember;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error adding organization member:', error);
+      throw new Error(`Failed to add organization member: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    try {
+      const [updatedMember] = await db.update(organizationMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        ))
+        .returning();
+      return updatedMember;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating organization member role:', error);
+      throw new Error(`Failed to update organization member role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await db.delete(organizationMembers)
+        .where(and(
+          eq(organizationMembers.organizationId, organizationId),
+          eq(organizationMembers.userId, userId)
+        ))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error removing organization member:', error);
+      throw new Error(`Failed to remove organization member: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // API Key Operations
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    try {
+      const [newApiKey] = await db.insert(apiKeys).values(apiKey).returning();
+      return newApiKey;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating API key:', error);
+      throw new Error(`Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    try {
+      const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+      return apiKey;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting API key:', error);
+      throw new Error(`Failed to get API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    try {
+      const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+      return apiKey;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting API key by hash:', error);
+      throw new Error(`Failed to get API key by hash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    try {
+      return await db.select()
+        .from(apiKeys)
+        .where(eq(apiKeys.userId, userId))
+        .orderBy(desc(apiKeys.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting API keys by user:', error);
+      throw new Error(`Failed to get API keys by user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    try {
+      const [updatedApiKey] = await db.update(apiKeys)
+        .set(updates)
+        .where(eq(apiKeys.id, id))
+        .returning();
+      return updatedApiKey;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating API key:', error);
+      throw new Error(`Failed to update API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Webhook Operations
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    try {
+      const [newSubscription] = await db.insert(webhookSubscriptions).values(subscription).returning();
+      return newSubscription;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating webhook subscription:', error);
+      throw new Error(`Failed to create webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    try {
+      const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+      return subscription;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting webhook subscription:', error);
+      throw new Error(`Failed to get webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getWebhookSubscriptionsByUser(userId: string, organizationIds: string[] = []): Promise<WebhookSubscription[]> {
+    try {
+      return await db.select()
+        .from(webhookSubscriptions)
+        .where(organizationIds.length > 0
+          ? or(eq(webhookSubscriptions.userId, userId), inArray(webhookSubscriptions.organizationId, organizationIds))
+          : eq(webhookSubscriptions.userId, userId))
+        .orderBy(desc(webhookSubscriptions.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting webhook subscriptions by user:', error);
+      throw new Error(`Failed to get webhook subscriptions by user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getActiveWebhookSubscriptionsForOwner(userId: string | null, organizationId: string | null): Promise<WebhookSubscription[]> {
+    try {
+      // The owner's personal subscriptions plus those of the resource's organization
+      const conditions = [];
+      if (userId) {
+        conditions.push(and(eq(webhookSubscriptions.userId, userId), isNull(webhookSubscriptions.organizationId)));
+      }
+      if (organizationId) {
+        conditions.push(eq(webhookSubscriptions.organizationId, organizationId));
+      }
+      if (conditions.length === 0) return [];
+
+      return await db.select()
+        .from(webhookSubscriptions)
+        .where(and(eq(webhookSubscriptions.active, true), or(...conditions)));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting webhook subscriptions for owner:', error);
+      throw new Error(`Failed to get webhook subscriptions for owner: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    try {
+      const [updatedSubscription] = await db.update(webhookSubscriptions)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(webhookSubscriptions.id, id))
+        .returning();
+      return updatedSubscription;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating webhook subscription:', error);
+      throw new Error(`Failed to update webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    try {
+      const result = await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error deleting webhook subscription:', error);
+      throw new Error(`Failed to delete webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    try {
+      if (deliveries.length === 0) return [];
+      return await db.insert(webhookDeliveries).values(deliveries).returning();
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating webhook deliveries:', error);
+      throw new Error(`Failed to create webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    try {
+      const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+      return delivery;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting webhook delivery:', error);
+      throw new Error(`Failed to get webhook delivery: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getWebhookDeliveriesBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      return await db.select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting webhook deliveries by subscription:', error);
+      throw new Error(`Failed to get webhook deliveries by subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    try {
+      if (limit <= 0) return [];
+      const now = new Date();
+
+      const dueDeliveries = db.select({ id: webhookDeliveries.id }).from(webhookDeliveries)
+        .where(and(
+          eq(webhookDeliveries.status, 'pending'),
+          or(isNull(webhookDeliveries.nextAttemptAt), lte(webhookDeliveries.nextAttemptAt, now))
+        ))
+        .orderBy(asc(webhookDeliveries.createdAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      // Pushing nextAttemptAt out by the lease keeps other workers off the delivery;
+      // if this process dies mid-attempt it becomes due again when the lease lapses
+      return await db.update(webhookDeliveries)
+        .set({
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          lastAttemptAt: now,
+          nextAttemptAt: new Date(now.getTime() + leaseMs)
+        })
+        .where(and(inArray(webhookDeliveries.id, dueDeliveries), eq(webhookDeliveries.status, 'pending')))
+        .returning();
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error claiming webhook deliveries:', error);
+      throw new Error(`Failed to claim webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    try {
+      const [updatedDelivery] = await db.update(webhookDeliveries)
+        .set(updates)
+        .where(eq(webhookDeliveries.id, id))
+        .returning();
+      return updatedDelivery;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating webhook delivery:', error);
+      throw new Error(`Failed to update webhook delivery: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // User Management Operations
   async getUser(id: string): Promise<User | undefined> {
     try {
@@ -937,6 +1442,19 @@ export class DrizzleStorage implements IStorage {
         );
       }
       
+      // Filter by unit attributes (floor level, renovation, lease terms, amenities)
+      if (hasAttributeFilters(criteria)) {
+        console.log('[FILTER] Applying unit attribute filters');
+        filteredSubjectUnits = await this.filterScrapedUnitsByAttributes(filteredSubjectUnits, allUnits, criteria);
+        filteredCompetitorUnits = await this.filterScrapedUnitsByAttributes(filteredCompetitorUnits, allUnits, criteria);
+      }
+      
+      // Filter competitors by distance from the subject property
+      if (criteria.radiusMiles) {
+        console.log('[FILTER] Applying radius filter:', criteria.radiusMiles, 'miles');
+        filteredCompetitorUnits = await this.filterUnitsByRadius(filteredCompetitorUnits, criteria.radiusMiles);
+      }
+      
       // Filter by selected properties
       if (criteria.selectedProperties !== undefined) {
         // If selectedProperties is defined (even if empty), apply the filter
@@ -1086,6 +1604,12 @@ export class DrizzleStorage implements IStorage {
         return "Below Market";
       })();
       
+      const locationScore = await this.computeScrapedPropertyLocationScore(filteredSubjectUnits, filteredCompetitorUnits);
+      
+      // Score amenities against the competitors with the session's amenity weights
+      const session = await this.getAnalysisSession(sessionId);
+      const amenityComparison = await this.compareScrapedPropertyAmenities(filteredSubjectUnits, filteredCompetitorUnits, session?.amenityWeights);
+      
       // Generate competitive advantages based on calculated values
       const competitiveAdvantages = [];
       if (pricingPowerScore > 80) competitiveAdvantages.push("Dominant pricing power in market");
@@ -1094,6 +1618,7 @@ export class DrizzleStorage implements IStorage {
       else if (percentileRank > 60) competitiveAdvantages.push("Above-average market standing");
       
       if (subjectAvgRent < competitorAvgRent * 0.9) competitiveAdvantages.push("Value pricing attracts residents");
+      if (amenityComparison.edge.status === "advantage") competitiveAdvantages.push("Amenity package above market");
       if (competitiveAdvantages.length === 0) {
         if (percentileRank >= 50) competitiveAdvantages.push("Stable market position");
         else competitiveAdvantages.push("Competitive entry pricing");
@@ -1127,8 +1652,8 @@ export class DrizzleStorage implements IStorage {
             return sum + (isNaN(rent) ? 0 : rent);
           }, 0) / (filteredSubjectUnits.length + filteredCompetitorUnits.length) : 0,
         percentileRank: percentileRank,
-        locationScore: 85,
-        amenityScore: percentileRank, // Use percentile rank as proxy for amenity score
+        locationScore: locationScore,
+        amenityScore: amenityComparison.amenityScore,
         pricePerSqFt: (() => {
           const allUnits = [...filteredSubjectUnits, ...filteredCompetitorUnits];
           const validUnitsWithSqft = allUnits.filter(u => u.squareFootage && u.squareFootage > 0);
@@ -1225,19 +1750,7 @@ export class DrizzleStorage implements IStorage {
                 return "neutral" as const;
               })()
             },
-            amenities: {
-              edge: percentileRank,
-              label: (() => {
-                if (percentileRank > 66) return "Above market amenities";
-                if (percentileRank > 33) return "Market-standard amenities";
-                return "Basic amenities";
-              })(),
-              status: (() => {
-                if (percentileRank > 66) return "advantage" as const;
-                if (percentileRank < 33) return "disadvantage" as const;
-                return "neutral" as const;
-              })()
-            }
+            amenities: amenityComparison.edge
           };
         })(),
         aiInsights: (() => {
@@ -1494,6 +2007,16 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
+  async getPropertyUnit(id: string): Promise<PropertyUnit | undefined> {
+    try {
+      const [unit] = await db.select().from(propertyUnits).where(eq(propertyUnits.id, id));
+      return unit;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting property unit:', error);
+      throw new Error(`Failed to get property unit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getPropertyUnits(propertyId: string): Promise<PropertyUnit[]> {
     try {
       return await db.select().from(propertyUnits)
@@ -1737,104 +2260,279 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  // TAG Definition Methods
-  async createTagDefinition(tagDef: InsertTagDefinition): Promise<TagDefinition> {
+  // Lease Methods
+  async createLease(lease: InsertLease): Promise<Lease> {
     try {
-      const [created] = await db.insert(tagDefinitions).values(tagDef).returning();
+      const [created] = await db.insert(leases).values(lease).returning();
       return created;
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error creating tag definition:', error);
-      throw new Error(`Failed to create tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error creating lease:', error);
+      throw new Error(`Failed to create lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getTagDefinition(id: string): Promise<TagDefinition | undefined> {
+  async getLease(id: string): Promise<Lease | undefined> {
     try {
-      const [tag] = await db.select().from(tagDefinitions).where(eq(tagDefinitions.id, id));
-      return tag;
+      const [lease] = await db.select().from(leases).where(eq(leases.id, id));
+      return lease;
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error getting tag definition:', error);
-      throw new Error(`Failed to get tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error getting lease:', error);
+      throw new Error(`Failed to get lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getTagDefinitionsByProperty(propertyProfileId: string): Promise<TagDefinition[]> {
+  async getLeasesByUnit(propertyUnitId: string): Promise<Lease[]> {
     try {
       return await db.select()
-        .from(tagDefinitions)
-        .where(eq(tagDefinitions.propertyProfileId, propertyProfileId))
-        .orderBy(asc(tagDefinitions.displayOrder));
+        .from(leases)
+        .where(eq(leases.propertyUnitId, propertyUnitId))
+        .orderBy(sql`${leases.leaseStart} DESC NULLS LAST`, desc(leases.createdAt));
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error getting tag definitions by property:', error);
-      throw new Error(`Failed to get tag definitions by property: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error getting leases by unit:', error);
+      throw new Error(`Failed to get leases by unit: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updateTagDefinition(id: string, updates: Partial<TagDefinition>): Promise<TagDefinition | undefined> {
+  async getLeasesByProfile(propertyProfileId: string): Promise<Lease[]> {
     try {
-      const [updated] = await db.update(tagDefinitions)
-        .set(updates)
-        .where(eq(tagDefinitions.id, id))
+      const rows = await db.select({ lease: leases })
+        .from(leases)
+        .innerJoin(propertyUnits, eq(leases.propertyUnitId, propertyUnits.id))
+        .where(eq(propertyUnits.propertyProfileId, propertyProfileId))
+        .orderBy(sql`${leases.leaseStart} DESC NULLS LAST`, desc(leases.createdAt));
+      return rows.map((row: { lease: Lease }) => row.lease);
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting leases by profile:', error);
+      throw new Error(`Failed to get leases by profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateLease(id: string, updates: Partial<InsertLease>): Promise<Lease | undefined> {
+    try {
+      const [updated] = await db.update(leases)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(leases.id, id))
         .returning();
       return updated;
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error updating tag definition:', error);
-      throw new Error(`Failed to update tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error updating lease:', error);
+      throw new Error(`Failed to update lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async deleteTagDefinition(id: string): Promise<boolean> {
+  async deleteLease(id: string): Promise<boolean> {
     try {
-      const result = await db.delete(tagDefinitions).where(eq(tagDefinitions.id, id));
+      const result = await db.delete(leases).where(eq(leases.id, id));
       return result.rowCount > 0;
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error deleting tag definition:', error);
-      throw new Error(`Failed to delete tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error deleting lease:', error);
+      throw new Error(`Failed to delete lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updateTagDisplayOrder(propertyProfileId: string, tags: { id: string; displayOrder: number }[]): Promise<TagDefinition[]> {
+  // Pricing Proposal Methods
+  async createPricingProposal(proposal: InsertPricingProposal, units: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal> {
     try {
-      const results: TagDefinition[] = [];
-      for (const tag of tags) {
-        const [updated] = await db.update(tagDefinitions)
-          .set({ displayOrder: tag.displayOrder })
-          .where(and(
-            eq(tagDefinitions.id, tag.id),
-            eq(tagDefinitions.propertyProfileId, propertyProfileId)
-          ))
-          .returning();
-        if (updated) {
-          results.push(updated);
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(pricingProposals).values(proposal).returning();
+        if (units.length > 0) {
+          await tx.insert(pricingProposalUnits).values(units.map(unit => ({ ...unit, proposalId: created.id })));
         }
-      }
-      return results;
+        return created;
+      });
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error updating tag display order:', error);
-      throw new Error(`Failed to update tag display order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error creating pricing proposal:', error);
+      throw new Error(`Failed to create pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Optimization Reports Methods
-  async createOptimizationReport(report: InsertOptimizationReport): Promise<OptimizationReport> {
+  async getPricingProposal(id: string): Promise<PricingProposal | undefined> {
     try {
-      const [createdReport] = await db.insert(optimizationReports).values(report).returning();
-      
-      return createdReport;
+      const [proposal] = await db.select().from(pricingProposals).where(eq(pricingProposals.id, id));
+      return proposal;
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error creating optimization report:', error);
-      throw new Error(`Failed to create optimization report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('[DRIZZLE_STORAGE] Error getting pricing proposal:', error);
+      throw new Error(`Failed to get pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getOptimizationReport(propertyId: string): Promise<OptimizationReport | undefined> {
+  async getPricingProposalsBySession(sessionId: string): Promise<PricingProposal[]> {
     try {
-      const [report] = await db.select().from(optimizationReports)
-        .where(eq(optimizationReports.propertyId, propertyId))
-        .orderBy(desc(optimizationReports.createdAt));
-      return report;
+      return await db.select()
+        .from(pricingProposals)
+        .where(eq(pricingProposals.sessionId, sessionId))
+        .orderBy(desc(pricingProposals.createdAt));
     } catch (error) {
-      console.error('[DRIZZLE_STORAGE] Error getting optimization report:', error);
+      console.error('[DRIZZLE_STORAGE] Error getting pricing proposals by session:', error);
+      throw new Error(`Failed to get pricing proposals by session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPricingProposalUnits(proposalId: string): Promise<PricingProposalUnit[]> {
+    try {
+      return await db.select()
+        .from(pricingProposalUnits)
+        .where(eq(pricingProposalUnits.proposalId, proposalId))
+        .orderBy(asc(pricingProposalUnits.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting pricing proposal units:', error);
+      throw new Error(`Failed to get pricing proposal units: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updatePricingProposal(id: string, updates: Partial<InsertPricingProposal>, units?: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [updated] = await tx.update(pricingProposals)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(pricingProposals.id, id))
+          .returning();
+        if (updated && units) {
+          await tx.delete(pricingProposalUnits).where(eq(pricingProposalUnits.proposalId, id));
+          if (units.length > 0) {
+            await tx.insert(pricingProposalUnits).values(units.map(unit => ({ ...unit, proposalId: id })));
+          }
+        }
+        return updated;
+      });
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating pricing proposal:', error);
+      throw new Error(`Failed to update pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async approvePricingProposal(id: string, decisionNote: string | null): Promise<PricingProposal | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // The status condition keeps a proposal from being decided twice
+        const [approved] = await tx.update(pricingProposals)
+          .set({ status: 'approved', decisionNote, decidedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(pricingProposals.id, id), eq(pricingProposals.status, 'submitted')))
+          .returning();
+        if (!approved) return undefined;
+
+        const units = await tx.select().from(pricingProposalUnits).where(eq(pricingProposalUnits.proposalId, id));
+        for (const unit of units) {
+          await tx.update(propertyUnits)
+            .set({ recommendedRent: unit.proposedRent })
+            .where(eq(propertyUnits.id, unit.propertyUnitId));
+        }
+        return approved;
+      });
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error approving pricing proposal:', error);
+      throw new Error(`Failed to approve pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deletePricingProposal(id: string): Promise<boolean> {
+    try {
+      const result = await db.delete(pricingProposals).where(eq(pricingProposals.id, id));
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error deleting pricing proposal:', error);
+      throw new Error(`Failed to delete pricing proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // TAG Definition Methods
+  async createTagDefinition(tagDef: InsertTagDefinition): Promise<TagDefinition> {
+    try {
+      const [created] = await db.insert(tagDefinitions).values(tagDef).returning();
+      return created;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating tag definition:', error);
+      throw new Error(`Failed to create tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getTagDefinition(id: string): Promise<TagDefinition | undefined> {
+    try {
+      const [tag] = await db.select().from(tagDefinitions).where(eq(tagDefinitions.id, id));
+      return tag;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting tag definition:', error);
+      throw new Error(`Failed to get tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getTagDefinitionsByProperty(propertyProfileId: string): Promise<TagDefinition[]> {
+    try {
+      return await db.select()
+        .from(tagDefinitions)
+        .where(eq(tagDefinitions.propertyProfileId, propertyProfileId))
+        .orderBy(asc(tagDefinitions.displayOrder));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting tag definitions by property:', error);
+      throw new Error(`Failed to get tag definitions by property: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateTagDefinition(id: string, updates: Partial<TagDefinition>): Promise<TagDefinition | undefined> {
+    try {
+      const [updated] = await db.update(tagDefinitions)
+        .set(updates)
+        .where(eq(tagDefinitions.id, id))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating tag definition:', error);
+      throw new Error(`Failed to update tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteTagDefinition(id: string): Promise<boolean> {
+    try {
+      const result = await db.delete(tagDefinitions).where(eq(tagDefinitions.id, id));
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error deleting tag definition:', error);
+      throw new Error(`Failed to delete tag definition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateTagDisplayOrder(propertyProfileId: string, tags: { id: string; displayOrder: number }[]): Promise<TagDefinition[]> {
+    try {
+      const results: TagDefinition[] = [];
+      for (const tag of tags) {
+        const [updated] = await db.update(tagDefinitions)
+          .set({ displayOrder: tag.displayOrder })
+          .where(and(
+            eq(tagDefinitions.id, tag.id),
+            eq(tagDefinitions.propertyProfileId, propertyProfileId)
+          ))
+          .returning();
+        if (updated) {
+          results.push(updated);
+        }
+      }
+      return results;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating tag display order:', error);
+      throw new Error(`Failed to update tag display order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Optimization Reports Methods
+  async createOptimizationReport(report: InsertOptimizationReport): Promise<OptimizationReport> {
+    try {
+      const [createdReport] = await db.insert(optimizationReports).values(report).returning();
+      
+      return createdReport;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating optimization report:', error);
+      throw new Error(`Failed to create optimization report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getOptimizationReport(propertyId: string): Promise<OptimizationReport | undefined> {
+    try {
+      const [report] = await db.select().from(optimizationReports)
+        .where(eq(optimizationReports.propertyId, propertyId))
+        .orderBy(desc(optimizationReports.createdAt));
+      return report;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting optimization report:', error);
       throw new Error(`Failed to get optimization report: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -1851,6 +2549,18 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
+  async getOptimizationReportsByProfiles(propertyProfileIds: string[]): Promise<OptimizationReport[]> {
+    if (propertyProfileIds.length === 0) return [];
+    try {
+      return await db.select().from(optimizationReports)
+        .where(inArray(optimizationReports.propertyProfileId, propertyProfileIds))
+        .orderBy(desc(optimizationReports.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting optimization reports by profiles:', error);
+      throw new Error(`Failed to get optimization reports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getOptimizationReportsBySession(sessionId: string): Promise<OptimizationReport[]> {
     try {
       console.log('[DRIZZLE_STORAGE] Getting optimization reports for session:', sessionId);
@@ -1877,18 +2587,45 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number): Promise<{
+  /**
+   * Resolve competitive relationships from the session's portfolio, if it has one
+   */
+  private async getRelationshipResolverForSession(sessionId: string): Promise<RelationshipResolver | undefined> {
+    try {
+      const session = await this.getAnalysisSession(sessionId);
+      if (!session?.portfolioId) return undefined;
+
+      const [savedProfiles, relationships] = await Promise.all([
+        this.getSavedPropertyProfilesByPortfolio(session.portfolioId),
+        this.getCompetitiveRelationshipsByPortfolio(session.portfolioId)
+      ]);
+      return buildRelationshipResolver(savedProfiles, relationships);
+    } catch (error) {
+      // Weighting still works without relationships - competitors are treated as unclassified
+      console.warn('[DRIZZLE_STORAGE] Could not load competitive relationships for session:', sessionId, error);
+      return undefined;
+    }
+  }
+
+  async generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number, strategyParams?: Record<string, any>, onProgress?: (stage: number, message: string) => void): Promise<{
     unitRecommendations: any[];
     totalIncrease: number;
     affectedUnits: number;
     avgIncrease: number;
     riskLevel: string;
     marketInsights: any;
+    pricingModel: PricingModelParameters;
   }> {
     try {
       console.log('[DRIZZLE_STORAGE] Generating smart optimization report for session:', sessionId);
       console.log('[DRIZZLE_STORAGE] Goal:', goal, 'Target Occupancy:', targetOccupancy, 'Risk Tolerance:', riskTolerance);
       
+      // Resolve the pricing strategy up front so its version and params can be recorded with the result
+      const { strategy: pricingStrategy, model: pricingModel } = resolvePricingStrategy(goal, strategyParams);
+      console.log('[DRIZZLE_STORAGE] Pricing strategy:', pricingModel.strategy, pricingModel.version);
+      
+      onProgress?.(2, 'Analyzing market conditions');
+      
       // Get all scraped units for the session (both subject and competitor)
       const allScrapedUnits = await this.getScrapedUnitsForSession(sessionId);
       
@@ -1932,6 +2669,8 @@ export class DrizzleStorage implements IStorage {
       if (competitorUnits.length === 0) {
         console.log('[DRIZZLE_STORAGE] No competitor units available - returning 0% adjustments for all units');
         
+        onProgress?.(3, 'Generating recommendations');
+        
         // Generate 0% adjustment recommendations for all subject units
         const unitRecommendations = [];
         
@@ -1970,7 +2709,7 @@ export class DrizzleStorage implements IStorage {
           }
           
           // Use internal bedrooms if available, otherwise use scraped
-          const bedrooms = internalData?.bedrooms || unit.bedrooms || 1;
+          const bedrooms = internalData?.bedrooms ?? unit.bedrooms ?? 1;
           const unitType = `${bedrooms}BR`;
           
           unitRecommendations.push({
@@ -1983,12 +2722,14 @@ export class DrizzleStorage implements IStorage {
             currentRent: currentRent,
             recommendedRent: currentRent, // No change - same as current
             marketAverage: currentRent, // No market data available
+            rentPerSqFt: calculateRentPerSqFt(currentRent, internalData?.squareFootage || unit.squareFootage),
             change: 0, // No change
             annualImpact: 0, // No impact
             pricingPowerScore: 50, // Neutral score
             adjustmentReason: 'No market comparison data available - maintaining current pricing',
             confidenceLevel: 'Low',
             reasoning: 'Market comparison requires competitor data. Add competitor properties for pricing recommendations.',
+            pricingModelVersion: pricingModel.version,
             propertyName: unit.propertyName,
             propertyProfileId: matchingProfile?.id,
             status: unit.status,
@@ -2009,40 +2750,21 @@ export class DrizzleStorage implements IStorage {
             timeToLease: 'Standard market lease-up times',
             avgPricingPowerScore: 50,
             marketDataQuality: 'No competitor data available'
-          }
+          },
+          pricingModel
         };
       }
       
-      // Calculate market averages by unit type
-      const marketData = new Map<string, { sum: number; count: number; values: number[]; avg: number }>();
-      
       // Include both subject and competitor units for market analysis
       const allMarketUnits = [...subjectUnits, ...competitorUnits];
       
-      for (const unit of allMarketUnits) {
-        const rent = parseFloat(unit.rent || '0');
-        if (rent > 0) {
-          const bedrooms = unit.bedrooms || 1;
-          const key = `${bedrooms}BR`;
-          
-          if (!marketData.has(key)) {
-            marketData.set(key, { sum: 0, count: 0, values: [], avg: 0 });
-          }
-          
-          const stats = marketData.get(key)!;
-          stats.sum += rent;
-          stats.count += 1;
-          stats.values.push(rent);
-          stats.avg = stats.sum / stats.count;
-        }
-      }
-      
-      // Sort values for percentile calculation
-      for (const stats of marketData.values()) {
-        stats.values.sort((a, b) => a - b);
-      }
+      // Comparables are matched per unit by bedrooms and square-footage band, and weighted
+      // by their competitive relationship, distance and match score
+      const comparableSources = buildComparableSources(scrapedProperties, propertyProfiles, subjectPropertyUrls);
+      const comparables = buildComparableUnits(allMarketUnits, comparableSources);
+      const resolveRelationship = await this.getRelationshipResolverForSession(sessionId);
       
-      console.log('[DRIZZLE_STORAGE] Market data calculated for', marketData.size, 'unit types');
+      console.log('[DRIZZLE_STORAGE] Market comparables prepared:', comparables.length, 'units');
       
       // Get property units with internal data (tags, bedrooms, bathrooms)
       const propertyUnitsMap = new Map<string, Map<string, any>>();
@@ -2059,6 +2781,8 @@ export class DrizzleStorage implements IStorage {
         propertyUnitsMap.set(profile.id, unitMap);
       }
       
+      onProgress?.(3, 'Generating recommendations');
+      
       // Generate unit recommendations with pricing power scores
       const unitRecommendations = [];
       let totalIncrease = 0;
@@ -2084,25 +2808,19 @@ export class DrizzleStorage implements IStorage {
         }
         
         // Use internal bedrooms if available, otherwise use scraped
-        const bedrooms = internalData?.bedrooms || unit.bedrooms || 1;
+        const bedrooms = internalData?.bedrooms ?? unit.bedrooms ?? 1;
         const unitType = `${bedrooms}BR`;
-        const marketStats = marketData.get(unitType);
-        const marketAverage = marketStats?.avg || currentRent;
+        const squareFootage = internalData?.squareFootage || unit.squareFootage || null;
+        const marketStats = getComparableStats(comparables, bedrooms, squareFootage, {
+          subjectUrl: matchingProfile?.url ?? null,
+          resolveRelationship
+        });
+        const marketAverage = marketStats.count > 0 ? marketStats.avg : currentRent;
         
         // Calculate Unit Pricing Power Score components
         
-        // 1. Unit Percentile (40% weight) - where unit sits vs comparable units
-        let unitPercentile = 50; // default to middle if no data
-        if (marketStats && marketStats.values.length > 0) {
-          const index = marketStats.values.findIndex(v => v >= currentRent);
-          if (index === -1) {
-            unitPercentile = 100; // Higher than all units
-          } else if (index === 0) {
-            unitPercentile = 0; // Lower than all units
-          } else {
-            unitPercentile = (index / marketStats.values.length) * 100;
-          }
-        }
+        // 1. Unit Percentile (40% weight) - weighted share of comparable rents below this unit
+        const unitPercentile = calculateWeightedPercentile(marketStats, currentRent);
         
         // 2. Price Difference (30% weight) - how unit compares to market average
         let priceDifference = 50; // default to neutral
@@ -2123,65 +2841,17 @@ export class DrizzleStorage implements IStorage {
         
         console.log(`[DRIZZLE_STORAGE] Unit ${unit.unitNumber}: Power Score=${pricingPowerScore.toFixed(1)} (Percentile=${unitPercentile.toFixed(1)}, PriceDiff=${priceDifference.toFixed(1)}, Availability=${availabilityScore})`);
         
-        // Apply smart adjustments based on goal and power score
-        let recommendedRent = currentRent;
-        let adjustmentPercent = 0;
-        let adjustmentReason = '';
-        
-        if (goal === 'maximize-revenue') {
-          // Maximize Revenue logic
-          if (pricingPowerScore >= 80) {
-            adjustmentPercent = 1 + (Math.random() * 1); // +1-2%
-            adjustmentReason = 'Already premium positioned, minimal increase to maintain market position';
-          } else if (pricingPowerScore >= 60) {
-            adjustmentPercent = 3 + (Math.random() * 2); // +3-5%
-            adjustmentReason = 'Good market position, moderate increase to optimize revenue';
-          } else if (pricingPowerScore >= 40) {
-            adjustmentPercent = 5 + (Math.random() * 3); // +5-8%
-            adjustmentReason = 'Room for growth, strategic increase to capture market value';
-          } else {
-            adjustmentPercent = 8 + (Math.random() * 2); // +8-10%
-            adjustmentReason = 'Significantly underpriced, aggressive increase to reach market rates';
-          }
-          recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-          
-        } else if (goal === 'maximize-occupancy') {
-          // Maximize Occupancy logic - Never increase prices when trying to fill units
-          if (pricingPowerScore >= 80) {
-            adjustmentPercent = -(8 + Math.random() * 2); // -8 to -10%
-            adjustmentReason = 'Steep reduction from premium pricing to accelerate lease-up and maximize occupancy';
-          } else if (pricingPowerScore >= 60) {
-            adjustmentPercent = -(3 + Math.random() * 2); // -3 to -5%
-            adjustmentReason = 'Moderate price reduction to enhance competitiveness and attract tenants';
-          } else if (pricingPowerScore >= 40) {
-            adjustmentPercent = -(1 + Math.random() * 1); // -1 to -2%
-            adjustmentReason = 'Slight price reduction to maintain competitive edge, already well-positioned';
-          } else {
-            adjustmentPercent = 0; // 0% - NO CHANGE
-            adjustmentReason = 'Already priced below market - no reduction needed to maintain strong occupancy';
-          }
-          recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-          
-        } else if (goal === 'balanced') {
-          // Balanced approach - target 60-70 power score range
-          if (pricingPowerScore > 70) {
-            adjustmentPercent = -(1 + Math.random() * 2); // -1 to -3%
-            adjustmentReason = 'Adjusting down to optimal 60-70% market position';
-          } else if (pricingPowerScore < 60) {
-            adjustmentPercent = 2 + Math.random() * 3; // +2 to +5%
-            adjustmentReason = 'Adjusting up to reach optimal 60-70% market position';
-          } else {
-            adjustmentPercent = -0.5 + Math.random() * 1; // -0.5 to +0.5%
-            adjustmentReason = 'Already in optimal range, fine-tuning for market alignment';
-          }
-          recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-          
-        } else {
-          // Custom or unknown goal - use conservative approach
-          adjustmentPercent = 2;
-          recommendedRent = currentRent * 1.02;
-          adjustmentReason = 'Conservative market-based adjustment';
-        }
+        // Apply the selected pricing strategy to this unit's market context
+        const { adjustmentPercent, adjustmentReason, pricingBand } = pricingStrategy.price({
+          currentRent,
+          bedrooms,
+          status: unit.status,
+          pricingPowerScore,
+          unitPercentile,
+          marketAverage,
+          marketValues: marketStats.values
+        }, pricingModel.params);
+        let recommendedRent = currentRent * (1 + adjustmentPercent / 100);
         
         // Round to nearest $5
         recommendedRent = Math.round(recommendedRent / 5) * 5;
@@ -2195,9 +2865,9 @@ export class DrizzleStorage implements IStorage {
         
         // Determine confidence level based on market data availability
         let confidenceLevel = 'Medium';
-        if (marketStats && marketStats.count >= 10) {
+        if (marketStats.count >= 10) {
           confidenceLevel = 'High';
-        } else if (!marketStats || marketStats.count < 5) {
+        } else if (marketStats.count < 5) {
           confidenceLevel = 'Low';
         }
         
@@ -2207,16 +2877,24 @@ export class DrizzleStorage implements IStorage {
           tag: internalData?.tag || null,
           bedrooms: bedrooms,
           bathrooms: internalData?.bathrooms || unit.bathrooms || 1,
-          squareFootage: internalData?.squareFootage || unit.squareFootage || 0,
+          squareFootage: squareFootage || 0,
           currentRent: currentRent,
           recommendedRent: recommendedRent,
           marketAverage: Math.round(marketAverage),
+          rentPerSqFt: calculateRentPerSqFt(currentRent, squareFootage),
+          marketRentPerSqFt: marketStats.avgRentPerSqFt,
+          comparableMatch: marketStats.matchType,
+          comparableCount: marketStats.count,
+          comparableWeights: marketStats.appliedWeights,
           change: actualChange,
           annualImpact: annualImpact,
           pricingPowerScore: Math.round(pricingPowerScore),
           adjustmentReason: adjustmentReason,
           confidenceLevel: confidenceLevel,
           reasoning: `${adjustmentReason} (Power Score: ${Math.round(pricingPowerScore)}, Market Avg: $${Math.round(marketAverage)})`,
+          adjustmentPercent: adjustmentPercent,
+          pricingBand: pricingBand ?? null,
+          pricingModelVersion: pricingModel.version,
           propertyName: unit.propertyName,
           propertyProfileId: matchingProfile?.id,
           status: unit.status,
@@ -2224,6 +2902,8 @@ export class DrizzleStorage implements IStorage {
         });
       }
       
+      onProgress?.(4, 'Calculating pricing impacts');
+      
       const avgIncrease = affectedUnits > 0 ? totalIncrease / affectedUnits : 0;
       
       // Determine overall risk level
@@ -2264,7 +2944,8 @@ export class DrizzleStorage implements IStorage {
         affectedUnits,
         avgIncrease,
         riskLevel,
-        marketInsights
+        marketInsights,
+        pricingModel
       };
       
     } catch (error) {
@@ -2320,10 +3001,155 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
+  /**
+   * Lease up to `limit` due pending jobs to a worker. Uses SKIP LOCKED so concurrent
+   * workers never claim the same job.
+   */
+  async claimScrapingJobs(workerId: string, limit: number, leaseMs: number): Promise<ScrapingJob[]> {
+    try {
+      if (limit <= 0) return [];
+      const now = new Date();
+
+      const dueJobs = db.select({ id: scrapingJobs.id }).from(scrapingJobs)
+        .where(and(
+          eq(scrapingJobs.status, 'pending'),
+          or(isNull(scrapingJobs.nextRunAt), lte(scrapingJobs.nextRunAt, now))
+        ))
+        .orderBy(asc(scrapingJobs.createdAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      return await db.update(scrapingJobs)
+        .set({
+          status: 'processing',
+          attempts: sql`${scrapingJobs.attempts} + 1`,
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          heartbeatAt: now,
+          startedAt: now
+        })
+        .where(and(inArray(scrapingJobs.id, dueJobs), eq(scrapingJobs.status, 'pending')))
+        .returning();
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error claiming scraping jobs:', error);
+      throw new Error(`Failed to claim scraping jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async heartbeatScrapingJob(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    try {
+      const now = new Date();
+      const [job] = await db.update(scrapingJobs)
+        .set({ heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs) })
+        .where(and(
+          eq(scrapingJobs.id, id),
+          eq(scrapingJobs.status, 'processing'),
+          eq(scrapingJobs.leaseOwner, workerId)
+        ))
+        .returning({ id: scrapingJobs.id });
+      return !!job;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error heartbeating scraping job:', error);
+      throw new Error(`Failed to heartbeat scraping job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Finish a leased job. The update only applies while the worker still holds the lease,
+   * so a worker whose lease was reclaimed cannot overwrite the job's new state.
+   */
+  async releaseScrapingJob(id: string, workerId: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob | undefined> {
+    try {
+      const [job] = await db.update(scrapingJobs)
+        .set({ ...updates, leaseOwner: null, leaseExpiresAt: null })
+        .where(and(
+          eq(scrapingJobs.id, id),
+          eq(scrapingJobs.status, 'processing'),
+          eq(scrapingJobs.leaseOwner, workerId)
+        ))
+        .returning();
+      return job;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error releasing scraping job:', error);
+      throw new Error(`Failed to release scraping job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Return processing jobs whose lease has lapsed (or that were never leased) to the queue.
+   * Jobs that have used all their attempts are dead-lettered instead.
+   */
+  async reclaimExpiredScrapingJobs(): Promise<{ requeued: number; deadLettered: number }> {
+    try {
+      const now = new Date();
+      const orphaned = and(
+        eq(scrapingJobs.status, 'processing'),
+        or(isNull(scrapingJobs.leaseExpiresAt), lt(scrapingJobs.leaseExpiresAt, now))
+      );
+
+      const deadLettered = await db.update(scrapingJobs)
+        .set({
+          status: 'dead_letter',
+          errorMessage: 'Worker lease expired on the final attempt',
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          completedAt: now
+        })
+        .where(and(orphaned, sql`${scrapingJobs.attempts} >= ${scrapingJobs.maxAttempts}`))
+        .returning({ id: scrapingJobs.id });
+
+      const requeued = await db.update(scrapingJobs)
+        .set({ status: 'pending', nextRunAt: now, leaseOwner: null, leaseExpiresAt: null })
+        .where(orphaned)
+        .returning({ id: scrapingJobs.id });
+
+      return { requeued: requeued.length, deadLettered: deadLettered.length };
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error reclaiming scraping jobs:', error);
+      throw new Error(`Failed to reclaim scraping jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPropertyProfilesDueForScrape(now: Date, limit: number): Promise<PropertyProfile[]> {
+    try {
+      return await db.select().from(propertyProfiles)
+        .where(lte(propertyProfiles.nextScrapeAt, now))
+        .orderBy(asc(propertyProfiles.nextScrapeAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting property profiles due for scrape:', error);
+      throw new Error(`Failed to get property profiles due for scrape: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPortfoliosWithScrapeSchedule(): Promise<SavedPortfolio[]> {
+    try {
+      return await db.select().from(savedPortfolios)
+        .where(isNotNull(savedPortfolios.scrapeSchedule));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting scheduled portfolios:', error);
+      throw new Error(`Failed to get scheduled portfolios: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async countScrapingJobsByTriggerSince(trigger: string, since: Date): Promise<number> {
+    try {
+      const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(scrapingJobs)
+        .where(and(eq(scrapingJobs.trigger, trigger), gte(scrapingJobs.createdAt, since)));
+      return result?.count ?? 0;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error counting scraping jobs:', error);
+      throw new Error(`Failed to count scraping jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getScrapingJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]> {
     try {
       return await db.select().from(scrapingJobs)
-        .where(eq(scrapingJobs.propertyProfileId, propertyProfileId))
+        .where(and(
+          eq(scrapingJobs.propertyProfileId, propertyProfileId),
+          ne(scrapingJobs.stage, COMPETITOR_DISCOVERY_STAGE)
+        ))
         .orderBy(desc(scrapingJobs.createdAt));
     } catch (error) {
       console.error('[DRIZZLE_STORAGE] Error getting scraping jobs by profile:', error);
@@ -2331,6 +3157,20 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
+  async getCompetitorDiscoveryJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]> {
+    try {
+      return await db.select().from(scrapingJobs)
+        .where(and(
+          eq(scrapingJobs.propertyProfileId, propertyProfileId),
+          eq(scrapingJobs.stage, COMPETITOR_DISCOVERY_STAGE)
+        ))
+        .orderBy(desc(scrapingJobs.createdAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting competitor discovery jobs:', error);
+      throw new Error(`Failed to get competitor discovery jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getScrapingJobsBySession(sessionId: string): Promise<ScrapingJob[]> {
     try {
       return await db.select().from(scrapingJobs)
@@ -2459,13 +3299,160 @@ export class DrizzleStorage implements IStorage {
     try {
       return await db.select().from(scrapedUnits)
         .where(eq(scrapedUnits.propertyId, propertyId))
-        .orderBy(asc(scrapedUnits.unitType));
+        // Secondary keys keep ordering stable so optimization results are reproducible
+        .orderBy(asc(scrapedUnits.unitType), asc(scrapedUnits.unitNumber), asc(scrapedUnits.id));
     } catch (error) {
       console.error('[DRIZZLE_STORAGE] Error getting scraped units by property:', error);
       throw new Error(`Failed to get scraped units by property: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Quarantined Scraped Unit Methods
+  async replaceQuarantinedUnitsForProperty(propertyId: string, units: InsertQuarantinedScrapedUnit[]): Promise<QuarantinedScrapedUnit[]> {
+    try {
+      await db.delete(quarantinedScrapedUnits).where(eq(quarantinedScrapedUnits.propertyId, propertyId));
+      
+      if (units.length === 0) {
+        return [];
+      }
+      
+      const createdUnits = await db.insert(quarantinedScrapedUnits).values(units).returning();
+      console.log('[DRIZZLE_STORAGE] Quarantined', createdUnits.length, 'scraped units for property:', propertyId);
+      return createdUnits;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error replacing quarantined units for property:', error);
+      throw new Error(`Failed to replace quarantined units for property: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getQuarantinedUnitsByProperty(propertyId: string): Promise<QuarantinedScrapedUnit[]> {
+    try {
+      return await db.select().from(quarantinedScrapedUnits)
+        .where(eq(quarantinedScrapedUnits.propertyId, propertyId))
+        .orderBy(asc(quarantinedScrapedUnits.unitType), asc(quarantinedScrapedUnits.unitNumber));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting quarantined units by property:', error);
+      throw new Error(`Failed to get quarantined units by property: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Scrape Snapshot Methods
+  async createScrapeSnapshot(snapshot: InsertScrapeSnapshot, units: Omit<InsertScrapeSnapshotUnit, 'snapshotId'>[]): Promise<ScrapeSnapshot> {
+    try {
+      const [createdSnapshot] = await db.insert(scrapeSnapshots).values(snapshot).returning();
+      
+      if (units.length > 0) {
+        await db.insert(scrapeSnapshotUnits).values(units.map(unit => ({ ...unit, snapshotId: createdSnapshot.id })));
+      }
+      
+      console.log('[DRIZZLE_STORAGE] Recorded scrape snapshot', createdSnapshot.id, 'for', snapshot.url, 'with', units.length, 'units');
+      return createdSnapshot;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error creating scrape snapshot:', error);
+      throw new Error(`Failed to create scrape snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getScrapeSnapshotsByUrl(url: string, since?: Date): Promise<ScrapeSnapshot[]> {
+    try {
+      const conditions = [eq(scrapeSnapshots.url, url)];
+      if (since) {
+        conditions.push(gte(scrapeSnapshots.capturedAt, since));
+      }
+      
+      return await db.select().from(scrapeSnapshots)
+        .where(and(...conditions))
+        .orderBy(asc(scrapeSnapshots.capturedAt));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting scrape snapshots by url:', error);
+      throw new Error(`Failed to get scrape snapshots: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getLatestScrapeSnapshot(url: string): Promise<ScrapeSnapshot | undefined> {
+    try {
+      const [snapshot] = await db.select().from(scrapeSnapshots)
+        .where(eq(scrapeSnapshots.url, url))
+        .orderBy(desc(scrapeSnapshots.capturedAt))
+        .limit(1);
+      return snapshot;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting latest scrape snapshot:', error);
+      throw new Error(`Failed to get latest scrape snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getScrapeSnapshotUnits(snapshotIds: string[]): Promise<ScrapeSnapshotUnit[]> {
+    try {
+      if (snapshotIds.length === 0) return [];
+      
+      return await db.select().from(scrapeSnapshotUnits)
+        .where(inArray(scrapeSnapshotUnits.snapshotId, snapshotIds))
+        .orderBy(asc(scrapeSnapshotUnits.unitKey));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting scrape snapshot units:', error);
+      throw new Error(`Failed to get scrape snapshot units: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Competitor Candidate Methods
+  async upsertCompetitorCandidate(candidate: InsertCompetitorCandidate): Promise<CompetitorCandidate> {
+    try {
+      // A repeat discovery refreshes the listing's data and score but keeps its review status
+      const { subjectProfileId, url, status, competitorProfileId, ...listingData } = candidate;
+      const [upserted] = await db.insert(competitorCandidates)
+        .values(candidate)
+        .onConflictDoUpdate({
+          target: [competitorCandidates.subjectProfileId, competitorCandidates.url],
+          set: { ...listingData, updatedAt: new Date() }
+        })
+        .returning();
+      return upserted;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error upserting competitor candidate:', error);
+      throw new Error(`Failed to save competitor candidate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getCompetitorCandidate(id: string): Promise<CompetitorCandidate | undefined> {
+    try {
+      const [candidate] = await db.select().from(competitorCandidates).where(eq(competitorCandidates.id, id));
+      return candidate;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting competitor candidate:', error);
+      throw new Error(`Failed to get competitor candidate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getCompetitorCandidatesBySubject(subjectProfileId: string, status?: CompetitorCandidateStatus): Promise<CompetitorCandidate[]> {
+    try {
+      const conditions = [eq(competitorCandidates.subjectProfileId, subjectProfileId)];
+      if (status) {
+        conditions.push(eq(competitorCandidates.status, status));
+      }
+      
+      return await db.select().from(competitorCandidates)
+        .where(and(...conditions))
+        .orderBy(desc(competitorCandidates.matchScore), asc(competitorCandidates.name));
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error getting competitor candidates:', error);
+      throw new Error(`Failed to get competitor candidates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateCompetitorCandidate(id: string, updates: Partial<CompetitorCandidate>): Promise<CompetitorCandidate | undefined> {
+    try {
+      const [updated] = await db.update(competitorCandidates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(competitorCandidates.id, id))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('[DRIZZLE_STORAGE] Error updating competitor candidate:', error);
+      throw new Error(`Failed to update competitor candidate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Subject Property Methods
   async getSubjectScrapedProperty(): Promise<ScrapedProperty | null> {
     try {
@@ -2534,12 +3521,81 @@ export class DrizzleStorage implements IStorage {
   }
 
   // Filtered Analysis Methods
+  // Scraped properties with their property profile, found via the scraping job
+  private async getProfilesByScrapedProperty(propertyIds: string[]): Promise<Map<string, { scrapedProperty?: ScrapedProperty; profile?: PropertyProfile }>> {
+    const profilesByProperty = new Map<string, { scrapedProperty?: ScrapedProperty; profile?: PropertyProfile }>();
+    for (const propertyId of Array.from(new Set(propertyIds))) {
+      const scrapedProperty = await this.getScrapedProperty(propertyId);
+      const job = scrapedProperty ? await this.getScrapingJob(scrapedProperty.scrapingJobId) : undefined;
+      const profile = job?.propertyProfileId ? await this.getPropertyProfile(job.propertyProfileId) : undefined;
+      profilesByProperty.set(propertyId, { scrapedProperty, profile });
+    }
+    return profilesByProperty;
+  }
+
+  // Property amenities for scraped properties, via their property profile
+  private async getAmenitiesByScrapedProperty(propertyIds: string[]): Promise<Map<string, string[]>> {
+    const amenitiesByProperty = new Map<string, string[]>();
+    for (const [propertyId, { profile }] of Array.from(await this.getProfilesByScrapedProperty(propertyIds))) {
+      amenitiesByProperty.set(propertyId, normalizeAmenities(profile?.amenities));
+    }
+    return amenitiesByProperty;
+  }
+
+  // Miles from the subject: the profile's geocoded distance, else the distance the scrape reported
+  private async getDistancesByScrapedProperty(propertyIds: string[]): Promise<Map<string, number | null>> {
+    const distancesByProperty = new Map<string, number | null>();
+    for (const [propertyId, { scrapedProperty, profile }] of Array.from(await this.getProfilesByScrapedProperty(propertyIds))) {
+      const distance = parseFloat(profile?.distance ?? scrapedProperty?.distance ?? '');
+      distancesByProperty.set(propertyId, isNaN(distance) ? null : distance);
+    }
+    return distancesByProperty;
+  }
+
+  // Competitor units within the radius; units with no known distance are left out
+  private async filterUnitsByRadius<T extends ScrapedUnit>(units: T[], radiusMiles: number): Promise<T[]> {
+    const distancesByProperty = await this.getDistancesByScrapedProperty(units.map(unit => unit.propertyId));
+    return units.filter(unit => {
+      const distance = distancesByProperty.get(unit.propertyId);
+      return distance !== null && distance !== undefined && distance <= radiusMiles;
+    });
+  }
+
+  // Location score from the subject profiles' POI distances and the competitors' distances
+  private async computeScrapedPropertyLocationScore(subjectUnits: ScrapedUnit[], competitorUnits: ScrapedUnit[]): Promise<number> {
+    const subjectProfiles = await this.getProfilesByScrapedProperty(subjectUnits.map(unit => unit.propertyId));
+    const competitorDistances = await this.getDistancesByScrapedProperty(competitorUnits.map(unit => unit.propertyId));
+    return computeLocationScore(
+      Array.from(subjectProfiles.values()).map(({ profile }) => profile?.poiDistances),
+      Array.from(competitorDistances.values()).filter((distance): distance is number => distance !== null)
+    );
+  }
+
+  // Amenity, lease term, floor level and renovation filters; top floors come from every unit of the property
+  private async filterScrapedUnitsByAttributes<T extends ScrapedUnit>(units: T[], allUnits: ScrapedUnit[], criteria: FilterCriteria): Promise<T[]> {
+    if (!hasAttributeFilters(criteria)) return units;
+    const topFloors = getTopFloors(allUnits, unit => unit.propertyId);
+    const amenitiesByProperty = criteria.amenities?.length
+      ? await this.getAmenitiesByScrapedProperty(units.map(unit => unit.propertyId))
+      : undefined;
+    return filterUnitsByAttributes(units, criteria, unit => unit.propertyId, topFloors, amenitiesByProperty);
+  }
+
+  // Subject amenity score and amenities edge, one amenity list per property the units come from
+  private async compareScrapedPropertyAmenities(subjectUnits: ScrapedUnit[], competitorUnits: ScrapedUnit[], amenityWeights?: Record<string, number> | null) {
+    const amenitiesByProperty = await this.getAmenitiesByScrapedProperty([...subjectUnits, ...competitorUnits].map(unit => unit.propertyId));
+    const propertyAmenities = (units: ScrapedUnit[]) => Array.from(new Set(units.map(unit => unit.propertyId)))
+      .map(propertyId => amenitiesByProperty.get(propertyId) ?? []);
+    return compareAmenities(propertyAmenities(subjectUnits), propertyAmenities(competitorUnits), resolveAmenityWeights(amenityWeights));
+  }
+
   async getFilteredScrapedUnits(criteria: FilterCriteria): Promise<ScrapedUnit[]> {
     try {
       console.log('[STORAGE] Filtering scraped units with criteria:', JSON.stringify(criteria, null, 2));
       
       // Get all scraped units first
-      let allUnits = await db.select().from(scrapedUnits).orderBy(asc(scrapedUnits.rent));
+      const unfilteredUnits = await db.select().from(scrapedUnits).orderBy(asc(scrapedUnits.rent));
+      let allUnits = unfilteredUnits;
       console.log('[STORAGE] Total scraped units before filtering:', allUnits.length);
       
       // Filter by bedroom types if specified
@@ -2615,6 +3671,11 @@ export class DrizzleStorage implements IStorage {
         console.log('[STORAGE] After availability filter:', allUnits.length);
       }
       
+      if (hasAttributeFilters(criteria)) {
+        allUnits = await this.filterScrapedUnitsByAttributes(allUnits, unfilteredUnits, criteria);
+        console.log('[STORAGE] After unit attribute filters:', allUnits.length);
+      }
+      
       console.log('[STORAGE] Final filtered units count:', allUnits.length);
       return allUnits;
     } catch (error) {
@@ -2716,6 +3777,12 @@ export class DrizzleStorage implements IStorage {
         );
       }
       
+      // Filter competitors by distance from the subject property
+      if (criteria.radiusMiles) {
+        console.log('[FILTER] Applying radius filter:', criteria.radiusMiles, 'miles');
+        filteredCompetitorUnits = await this.filterUnitsByRadius(filteredCompetitorUnits, criteria.radiusMiles);
+      }
+      
       console.log('[FILTER] After filtering - Subject units:', filteredSubjectUnits.length, 'Competitor units:', filteredCompetitorUnits.length);
       
       // Calculate average rents for subject and competitor units
@@ -2800,6 +3867,11 @@ export class DrizzleStorage implements IStorage {
         return "Below Market";
       })();
       
+      const locationScore = await this.computeScrapedPropertyLocationScore(filteredSubjectUnits, filteredCompetitorUnits);
+      
+      // Score amenities against the competitors with the default amenity weights
+      const amenityComparison = await this.compareScrapedPropertyAmenities(filteredSubjectUnits, filteredCompetitorUnits);
+      
       // Generate competitive advantages based on calculated values
       const competitiveAdvantages = [];
       if (pricingPowerScore > 80) competitiveAdvantages.push("Dominant pricing power in market");
@@ -2808,6 +3880,7 @@ export class DrizzleStorage implements IStorage {
       else if (percentileRank > 60) competitiveAdvantages.push("Above-average market standing");
       
       if (subjectAvgRent < competitorAvgRent * 0.9) competitiveAdvantages.push("Value pricing attracts residents");
+      if (amenityComparison.edge.status === "advantage") competitiveAdvantages.push("Amenity package above market");
       if (competitiveAdvantages.length === 0) {
         if (percentileRank >= 50) competitiveAdvantages.push("Stable market position");
         else competitiveAdvantages.push("Competitive entry pricing");
@@ -2841,8 +3914,8 @@ export class DrizzleStorage implements IStorage {
             return sum + (isNaN(rent) ? 0 : rent);
           }, 0) / (filteredSubjectUnits.length + filteredCompetitorUnits.length) : 0,
         percentileRank: percentileRank,
-        locationScore: 85,
-        amenityScore: percentileRank, // Use percentile rank as proxy for amenity score
+        locationScore: locationScore,
+        amenityScore: amenityComparison.amenityScore,
         pricePerSqFt: (() => {
           const allUnits = [...filteredSubjectUnits, ...filteredCompetitorUnits];
           const validUnitsWithSqft = allUnits.filter(u => u.squareFootage && u.squareFootage > 0);
@@ -2939,19 +4012,7 @@ export class DrizzleStorage implements IStorage {
                 return "neutral" as const;
               })()
             },
-            amenities: {
-              edge: percentileRank,
-              label: (() => {
-                if (percentileRank > 66) return "Above market amenities";
-                if (percentileRank > 33) return "Market-standard amenities";
-                return "Basic amenities";
-              })(),
-              status: (() => {
-                if (percentileRank > 66) return "advantage" as const;
-                if (percentileRank < 33) return "disadvantage" as const;
-                return "neutral" as const;
-              })()
-            }
+            amenities: amenityComparison.edge
           };
         })(),
         aiInsights: (() => {
@@ -3189,10 +4250,12 @@ export class DrizzleStorage implements IStorage {
     }
   }
 
-  async getSavedSelectionTemplatesByUser(userId: string): Promise<SavedSelectionTemplate[]> {
+  async getSavedSelectionTemplatesByUser(userId: string, organizationIds: string[] = []): Promise<SavedSelectionTemplate[]> {
     try {
       return await db.select().from(savedSelectionTemplates)
-        .where(eq(savedSelectionTemplates.userId, userId))
+        .where(organizationIds.length > 0
+          ? or(eq(savedSelectionTemplates.userId, userId), inArray(savedSelectionTemplates.organizationId, organizationIds))
+          : eq(savedSelectionTemplates.userId, userId))
         .orderBy(desc(savedSelectionTemplates.createdAt));
     } catch (error) {
       console.error('[DRIZZLE_STORAGE] Error getting saved selection templates by user:', error);
@@ -3307,10 +4370,7 @@ export class DrizzleStorage implements IStorage {
         throw new Error('Template not found');
       }
       
-      // Verify template belongs to user
-      if (template.userId !== userId) {
-        throw new Error('Unauthorized: Template does not belong to user');
-      }
+      // Access to the template is checked by the route's authorization layer
       
       // Get all property profiles in the template
       const templatePropertyRelations = await db.select({
@@ -3332,7 +4392,8 @@ export class DrizzleStorage implements IStorage {
       const session = await this.createAnalysisSession({
         name: sessionName,
         description: `Created from template: ${template.name}`,
-        userId
+        userId,
+        organizationId: template.organizationId
       });
       
       // Add all property profiles to the new session with their roles
@@ -3369,14 +4430,26 @@ export class MemStorageLegacy implements IStorage {
   private propertyAnalyses: Map<string, PropertyAnalysis>;
   private competitorProperties: Map<string, CompetitorProperty>;
   private propertyUnits: Map<string, PropertyUnit>;
+  private leases: Map<string, Lease>;
+  private pricingProposals: Map<string, PricingProposal>;
+  private pricingProposalUnits: Map<string, PricingProposalUnit>;
   private optimizationReports: Map<string, OptimizationReport>;
   private scrapingJobs: Map<string, ScrapingJob>;
   private scrapedProperties: Map<string, ScrapedProperty>;
   private scrapedUnits: Map<string, ScrapedUnit>;
+  private quarantinedScrapedUnits: Map<string, QuarantinedScrapedUnit>;
+  private scrapeSnapshots: Map<string, ScrapeSnapshot>;
+  private scrapeSnapshotUnits: Map<string, ScrapeSnapshotUnit>;
+  private competitorCandidates: Map<string, CompetitorCandidate>;
   private workflowStates: Map<string, WorkflowState>;
   
   // User authentication
   private users: Map<string, User>;
+  private organizations: Map<string, Organization>;
+  private organizationMembers: Map<string, OrganizationMember>;
+  private apiKeys: Map<string, ApiKey>;
+  private webhookSubscriptions: Map<string, WebhookSubscription>;
+  private webhookDeliveries: Map<string, WebhookDelivery>;
 
   constructor() {
     // Initialize new property profiles system
@@ -3394,14 +4467,26 @@ export class MemStorageLegacy implements IStorage {
     this.propertyAnalyses = new Map();
     this.competitorProperties = new Map();
     this.propertyUnits = new Map();
+    this.leases = new Map();
+    this.pricingProposals = new Map();
+    this.pricingProposalUnits = new Map();
     this.optimizationReports = new Map();
     this.scrapingJobs = new Map();
     this.scrapedProperties = new Map();
     this.scrapedUnits = new Map();
+    this.quarantinedScrapedUnits = new Map();
+    this.scrapeSnapshots = new Map();
+    this.scrapeSnapshotUnits = new Map();
+    this.competitorCandidates = new Map();
     this.workflowStates = new Map();
     
     // Initialize user authentication
     this.users = new Map();
+    this.organizations = new Map();
+    this.organizationMembers = new Map();
+    this.apiKeys = new Map();
+    this.webhookSubscriptions = new Map();
+    this.webhookDeliveries = new Map();
     // Removed seedData() - only use real data from Scrapezy
   }
 
@@ -3413,6 +4498,7 @@ export class MemStorageLegacy implements IStorage {
       ...insertProfile,
       id,
       userId: insertProfile.userId ?? null,
+      organizationId: insertProfile.organizationId ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
       city: insertProfile.city ?? null,
@@ -3427,7 +4513,15 @@ export class MemStorageLegacy implements IStorage {
       distance: insertProfile.distance ?? null,
       matchScore: insertProfile.matchScore ?? null,
       vacancyRate: insertProfile.vacancyRate ?? null,
-      priceRange: insertProfile.priceRange ?? null
+      priceRange: insertProfile.priceRange ?? null,
+      latitude: null,
+      longitude: null,
+      geocodedAddress: null,
+      poiDistances: insertProfile.poiDistances ?? null,
+      scrapeSchedule: null,
+      lastScrapedAt: null,
+      nextScrapeAt: null,
+      leaseExpirationTargets: null
     };
     this.propertyProfiles.set(id, profile);
     return profile;
@@ -3447,15 +4541,15 @@ export class MemStorageLegacy implements IStorage {
     );
   }
 
-  async getPropertyProfilesByUser(userId: string): Promise<PropertyProfile[]> {
+  async getPropertyProfilesByUser(userId: string, organizationIds: string[] = []): Promise<PropertyProfile[]> {
     return Array.from(this.propertyProfiles.values()).filter(
-      profile => profile.userId === userId
+      profile => profile.userId === userId || (profile.organizationId !== null && organizationIds.includes(profile.organizationId))
     );
   }
 
-  async getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor'): Promise<PropertyProfile[]> {
-    return Array.from(this.propertyProfiles.values()).filter(
-      profile => profile.userId === userId && profile.profileType === profileType
+  async getPropertyProfilesByUserAndType(userId: string, profileType: 'subject' | 'competitor', organizationIds: string[] = []): Promise<PropertyProfile[]> {
+    return (await this.getPropertyProfilesByUser(userId, organizationIds)).filter(
+      profile => profile.profileType === profileType
     );
   }
 
@@ -3486,6 +4580,13 @@ export class MemStorageLegacy implements IStorage {
   }
 
   async deletePropertyProfile(id: string): Promise<boolean> {
+    for (const candidate of Array.from(this.competitorCandidates.values())) {
+      if (candidate.subjectProfileId === id) {
+        this.competitorCandidates.delete(candidate.id);
+      } else if (candidate.competitorProfileId === id) {
+        this.competitorCandidates.set(candidate.id, { ...candidate, competitorProfileId: null });
+      }
+    }
     return this.propertyProfiles.delete(id);
   }
 
@@ -3500,7 +4601,9 @@ export class MemStorageLegacy implements IStorage {
       updatedAt: new Date(),
       description: insertSession.description ?? null,
       userId: insertSession.userId ?? null,
-      portfolioId: insertSession.portfolioId ?? null
+      organizationId: insertSession.organizationId ?? null,
+      portfolioId: insertSession.portfolioId ?? null,
+      amenityWeights: null
     };
     this.analysisSessions.set(id, session);
     return session;
@@ -3514,9 +4617,9 @@ export class MemStorageLegacy implements IStorage {
     return Array.from(this.analysisSessions.values());
   }
 
-  async getAnalysisSessionsByUser(userId: string): Promise<AnalysisSession[]> {
+  async getAnalysisSessionsByUser(userId: string, organizationIds: string[] = []): Promise<AnalysisSession[]> {
     return Array.from(this.analysisSessions.values()).filter(
-      session => session.userId === userId
+      session => session.userId === userId || (session.organizationId !== null && organizationIds.includes(session.organizationId))
     );
   }
 
@@ -3763,12 +4866,21 @@ export class MemStorageLegacy implements IStorage {
       rent: null, // PropertyUnit has rent but InsertPropertyUnit uses currentRent
       availabilityDate: null, // Not in InsertPropertyUnit
       marketRentPercentile: insertUnit.marketRentPercentile ?? null,
-      optimizationPriority: insertUnit.optimizationPriority ?? null
+      optimizationPriority: insertUnit.optimizationPriority ?? null,
+      floor: insertUnit.floor ?? null,
+      renovationTier: insertUnit.renovationTier ?? null,
+      view: insertUnit.view ?? null,
+      features: insertUnit.features ?? null,
+      leaseTerms: insertUnit.leaseTerms ?? null
     };
     this.propertyUnits.set(id, unit);
     return unit;
   }
 
+  async getPropertyUnit(id: string): Promise<PropertyUnit | undefined> {
+    return this.propertyUnits.get(id);
+  }
+
   async getPropertyUnits(propertyId: string): Promise<PropertyUnit[]> {
     return Array.from(this.propertyUnits.values()).filter(
       unit => unit.propertyId === propertyId
@@ -3918,6 +5030,151 @@ export class MemStorageLegacy implements IStorage {
     };
   }
 
+  // Leases
+  async createLease(lease: InsertLease): Promise<Lease> {
+    const newLease: Lease = {
+      id: randomUUID(),
+      propertyUnitId: lease.propertyUnitId,
+      leaseTermMonths: lease.leaseTermMonths ?? null,
+      leaseStart: lease.leaseStart ?? null,
+      leaseEnd: lease.leaseEnd ?? null,
+      moveInDate: lease.moveInDate ?? null,
+      effectiveRent: lease.effectiveRent ?? null,
+      concessionAmount: lease.concessionAmount ?? null,
+      concessionDescription: lease.concessionDescription ?? null,
+      renewalStatus: lease.renewalStatus ?? "pending",
+      renewalOfferDate: lease.renewalOfferDate ?? null,
+      renewalDecisionDate: lease.renewalDecisionDate ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.leases.set(newLease.id, newLease);
+    return newLease;
+  }
+
+  async getLease(id: string): Promise<Lease | undefined> {
+    return this.leases.get(id);
+  }
+
+  // Newest lease start first, undated leases last - matching the Postgres ordering
+  private sortLeases(leases: Lease[]): Lease[] {
+    return leases.sort((a, b) => {
+      if (a.leaseStart !== b.leaseStart) {
+        if (!a.leaseStart) return 1;
+        if (!b.leaseStart) return -1;
+        return b.leaseStart.localeCompare(a.leaseStart);
+      }
+      return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+    });
+  }
+
+  async getLeasesByUnit(propertyUnitId: string): Promise<Lease[]> {
+    return this.sortLeases(Array.from(this.leases.values()).filter(lease => lease.propertyUnitId === propertyUnitId));
+  }
+
+  async getLeasesByProfile(propertyProfileId: string): Promise<Lease[]> {
+    // Leases of deleted units are skipped, as the database cascade would remove them
+    return this.sortLeases(Array.from(this.leases.values()).filter(lease =>
+      this.propertyUnits.get(lease.propertyUnitId)?.propertyProfileId === propertyProfileId
+    ));
+  }
+
+  async updateLease(id: string, updates: Partial<InsertLease>): Promise<Lease | undefined> {
+    const lease = this.leases.get(id);
+    if (!lease) return undefined;
+
+    const updatedLease: Lease = { ...lease, ...updates, updatedAt: new Date() };
+    this.leases.set(id, updatedLease);
+    return updatedLease;
+  }
+
+  async deleteLease(id: string): Promise<boolean> {
+    return this.leases.delete(id);
+  }
+
+  // Pricing Proposals
+  private setPricingProposalUnits(proposalId: string, units: Omit<InsertPricingProposalUnit, 'proposalId'>[]): void {
+    for (const [unitId, unit] of Array.from(this.pricingProposalUnits.entries())) {
+      if (unit.proposalId === proposalId) this.pricingProposalUnits.delete(unitId);
+    }
+    for (const unit of units) {
+      const newUnit: PricingProposalUnit = {
+        id: randomUUID(),
+        proposalId,
+        propertyUnitId: unit.propertyUnitId,
+        currentRent: unit.currentRent,
+        recommendedRent: unit.recommendedRent ?? null,
+        proposedRent: unit.proposedRent,
+        reasonCode: unit.reasonCode ?? null,
+        note: unit.note ?? null,
+        createdAt: new Date()
+      };
+      this.pricingProposalUnits.set(newUnit.id, newUnit);
+    }
+  }
+
+  async createPricingProposal(proposal: InsertPricingProposal, units: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal> {
+    const newProposal: PricingProposal = {
+      id: randomUUID(),
+      sessionId: proposal.sessionId,
+      optimizationReportId: proposal.optimizationReportId ?? null,
+      title: proposal.title ?? null,
+      notes: proposal.notes ?? null,
+      status: proposal.status ?? 'draft',
+      createdBy: proposal.createdBy,
+      approverId: proposal.approverId ?? null,
+      decisionNote: proposal.decisionNote ?? null,
+      submittedAt: proposal.submittedAt ?? null,
+      decidedAt: proposal.decidedAt ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.pricingProposals.set(newProposal.id, newProposal);
+    this.setPricingProposalUnits(newProposal.id, units);
+    return newProposal;
+  }
+
+  async getPricingProposal(id: string): Promise<PricingProposal | undefined> {
+    return this.pricingProposals.get(id);
+  }
+
+  async getPricingProposalsBySession(sessionId: string): Promise<PricingProposal[]> {
+    return Array.from(this.pricingProposals.values())
+      .filter(proposal => proposal.sessionId === sessionId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getPricingProposalUnits(proposalId: string): Promise<PricingProposalUnit[]> {
+    return Array.from(this.pricingProposalUnits.values()).filter(unit => unit.proposalId === proposalId);
+  }
+
+  async updatePricingProposal(id: string, updates: Partial<InsertPricingProposal>, units?: Omit<InsertPricingProposalUnit, 'proposalId'>[]): Promise<PricingProposal | undefined> {
+    const proposal = this.pricingProposals.get(id);
+    if (!proposal) return undefined;
+
+    const updatedProposal: PricingProposal = { ...proposal, ...updates, updatedAt: new Date() };
+    this.pricingProposals.set(id, updatedProposal);
+    if (units) this.setPricingProposalUnits(id, units);
+    return updatedProposal;
+  }
+
+  async approvePricingProposal(id: string, decisionNote: string | null): Promise<PricingProposal | undefined> {
+    const proposal = this.pricingProposals.get(id);
+    if (!proposal || proposal.status !== 'submitted') return undefined;
+
+    const approved: PricingProposal = { ...proposal, status: 'approved', decisionNote, decidedAt: new Date(), updatedAt: new Date() };
+    this.pricingProposals.set(id, approved);
+    for (const unit of await this.getPricingProposalUnits(id)) {
+      await this.updatePropertyUnit(unit.propertyUnitId, { recommendedRent: unit.proposedRent });
+    }
+    return approved;
+  }
+
+  async deletePricingProposal(id: string): Promise<boolean> {
+    this.setPricingProposalUnits(id, []);
+    return this.pricingProposals.delete(id);
+  }
+
   async createOptimizationReport(insertReport: InsertOptimizationReport): Promise<OptimizationReport> {
     const id = randomUUID();
     const report: OptimizationReport = { 
@@ -3953,9 +5210,17 @@ export class MemStorageLegacy implements IStorage {
       propertyProfileId: insertJob.propertyProfileId ?? null,
       propertyId: insertJob.propertyId ?? null,
       scrapezyJobId: insertJob.scrapezyJobId ?? null,
+      trigger: insertJob.trigger ?? "manual",
       status: insertJob.status || "pending",
       results: insertJob.results ?? null,
-      errorMessage: insertJob.errorMessage ?? null
+      errorMessage: insertJob.errorMessage ?? null,
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      nextRunAt: insertJob.nextRunAt ?? null,
+      leaseOwner: insertJob.leaseOwner ?? null,
+      leaseExpiresAt: insertJob.leaseExpiresAt ?? null,
+      heartbeatAt: insertJob.heartbeatAt ?? null,
+      startedAt: insertJob.startedAt ?? null
     };
     this.scrapingJobs.set(id, job);
     return job;
@@ -3980,6 +5245,90 @@ export class MemStorageLegacy implements IStorage {
     return updatedJob;
   }
 
+  async claimScrapingJobs(workerId: string, limit: number, leaseMs: number): Promise<ScrapingJob[]> {
+    const now = new Date();
+    const dueJobs = Array.from(this.scrapingJobs.values())
+      .filter(job => job.status === 'pending' && (!job.nextRunAt || job.nextRunAt <= now))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .slice(0, Math.max(0, limit));
+
+    return dueJobs.map(job => {
+      const claimedJob: ScrapingJob = {
+        ...job,
+        status: 'processing',
+        attempts: job.attempts + 1,
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        heartbeatAt: now,
+        startedAt: now
+      };
+      this.scrapingJobs.set(job.id, claimedJob);
+      return claimedJob;
+    });
+  }
+
+  async heartbeatScrapingJob(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.scrapingJobs.get(id);
+    if (!job || job.status !== 'processing' || job.leaseOwner !== workerId) return false;
+
+    const now = new Date();
+    this.scrapingJobs.set(id, { ...job, heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs) });
+    return true;
+  }
+
+  async releaseScrapingJob(id: string, workerId: string, updates: Partial<ScrapingJob>): Promise<ScrapingJob | undefined> {
+    const job = this.scrapingJobs.get(id);
+    if (!job || job.status !== 'processing' || job.leaseOwner !== workerId) return undefined;
+
+    const releasedJob = { ...job, ...updates, leaseOwner: null, leaseExpiresAt: null };
+    this.scrapingJobs.set(id, releasedJob);
+    return releasedJob;
+  }
+
+  async reclaimExpiredScrapingJobs(): Promise<{ requeued: number; deadLettered: number }> {
+    const now = new Date();
+    let requeued = 0;
+    let deadLettered = 0;
+
+    for (const job of Array.from(this.scrapingJobs.values())) {
+      if (job.status !== 'processing' || (job.leaseExpiresAt && job.leaseExpiresAt >= now)) continue;
+
+      if (job.attempts >= job.maxAttempts) {
+        this.scrapingJobs.set(job.id, {
+          ...job,
+          status: 'dead_letter',
+          errorMessage: 'Worker lease expired on the final attempt',
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          completedAt: now
+        });
+        deadLettered++;
+      } else {
+        this.scrapingJobs.set(job.id, { ...job, status: 'pending', nextRunAt: now, leaseOwner: null, leaseExpiresAt: null });
+        requeued++;
+      }
+    }
+
+    return { requeued, deadLettered };
+  }
+
+  async getPropertyProfilesDueForScrape(now: Date, limit: number): Promise<PropertyProfile[]> {
+    return Array.from(this.propertyProfiles.values())
+      .filter(profile => profile.nextScrapeAt && profile.nextScrapeAt <= now)
+      .sort((a, b) => a.nextScrapeAt!.getTime() - b.nextScrapeAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getPortfoliosWithScrapeSchedule(): Promise<SavedPortfolio[]> {
+    return Array.from(this.savedPortfolios.values()).filter(portfolio => portfolio.scrapeSchedule);
+  }
+
+  async countScrapingJobsByTriggerSince(trigger: string, since: Date): Promise<number> {
+    return Array.from(this.scrapingJobs.values())
+      .filter(job => job.trigger === trigger && job.createdAt && job.createdAt >= since)
+      .length;
+  }
+
   async createScrapedProperty(insertProperty: InsertScrapedProperty): Promise<ScrapedProperty> {
     const id = randomUUID();
     const property: ScrapedProperty = { 
@@ -3988,7 +5337,9 @@ export class MemStorageLegacy implements IStorage {
       createdAt: new Date(),
       distance: insertProperty.distance ?? null,
       isSubjectProperty: insertProperty.isSubjectProperty ?? null,
-      matchScore: insertProperty.matchScore ?? null
+      matchScore: insertProperty.matchScore ?? null,
+      parserName: insertProperty.parserName ?? null,
+      parserConfidence: insertProperty.parserConfidence ?? null
     };
     this.scrapedProperties.set(id, property);
     return property;
@@ -4041,7 +5392,12 @@ export class MemStorageLegacy implements IStorage {
       bedrooms: insertUnit.bedrooms ?? null,
       bathrooms: insertUnit.bathrooms ?? null,
       rent: insertUnit.rent ?? null,
-      availabilityDate: insertUnit.availabilityDate ?? null
+      availabilityDate: insertUnit.availabilityDate ?? null,
+      floor: insertUnit.floor ?? null,
+      renovationTier: insertUnit.renovationTier ?? null,
+      view: insertUnit.view ?? null,
+      features: insertUnit.features ?? null,
+      leaseTerms: insertUnit.leaseTerms ?? null
     };
     this.scrapedUnits.set(id, unit);
     return unit;
@@ -4080,6 +5436,140 @@ export class MemStorageLegacy implements IStorage {
     return insertedUnits;
   }
 
+  async replaceQuarantinedUnitsForProperty(propertyId: string, units: InsertQuarantinedScrapedUnit[]): Promise<QuarantinedScrapedUnit[]> {
+    Array.from(this.quarantinedScrapedUnits.entries())
+      .filter(([_, unit]) => unit.propertyId === propertyId)
+      .forEach(([id, _]) => this.quarantinedScrapedUnits.delete(id));
+    
+    const insertedUnits: QuarantinedScrapedUnit[] = [];
+    for (const insertUnit of units) {
+      const id = randomUUID();
+      const unit: QuarantinedScrapedUnit = {
+        ...insertUnit,
+        id,
+        createdAt: new Date(),
+        scrapingJobId: insertUnit.scrapingJobId ?? null,
+        unitNumber: insertUnit.unitNumber ?? null,
+        floorPlanName: insertUnit.floorPlanName ?? null,
+        bedrooms: insertUnit.bedrooms ?? null,
+        bathrooms: insertUnit.bathrooms ?? null,
+        squareFootage: insertUnit.squareFootage ?? null,
+        rent: insertUnit.rent ?? null,
+        availabilityDate: insertUnit.availabilityDate ?? null,
+        reasons: insertUnit.reasons as ScrapeValidationIssue[]
+      };
+      this.quarantinedScrapedUnits.set(id, unit);
+      insertedUnits.push(unit);
+    }
+    return insertedUnits;
+  }
+
+  async getQuarantinedUnitsByProperty(propertyId: string): Promise<QuarantinedScrapedUnit[]> {
+    return Array.from(this.quarantinedScrapedUnits.values()).filter(
+      unit => unit.propertyId === propertyId
+    );
+  }
+
+  async createScrapeSnapshot(insertSnapshot: InsertScrapeSnapshot, units: Omit<InsertScrapeSnapshotUnit, 'snapshotId'>[]): Promise<ScrapeSnapshot> {
+    const id = randomUUID();
+    const snapshot: ScrapeSnapshot = {
+      ...insertSnapshot,
+      id,
+      capturedAt: new Date(),
+      propertyProfileId: insertSnapshot.propertyProfileId ?? null,
+      scrapedPropertyId: insertSnapshot.scrapedPropertyId ?? null,
+      scrapingJobId: insertSnapshot.scrapingJobId ?? null,
+      unitCount: insertSnapshot.unitCount ?? units.length,
+      parserName: insertSnapshot.parserName ?? null,
+      parserConfidence: insertSnapshot.parserConfidence ?? null
+    };
+    this.scrapeSnapshots.set(id, snapshot);
+    
+    for (const unit of units) {
+      const unitId = randomUUID();
+      this.scrapeSnapshotUnits.set(unitId, {
+        ...unit,
+        id: unitId,
+        snapshotId: id,
+        unitNumber: unit.unitNumber ?? null,
+        floorPlanName: unit.floorPlanName ?? null,
+        bedrooms: unit.bedrooms ?? null,
+        bathrooms: unit.bathrooms ?? null,
+        squareFootage: unit.squareFootage ?? null,
+        rent: unit.rent ?? null,
+        availabilityDate: unit.availabilityDate ?? null,
+        status: unit.status ?? null
+      });
+    }
+    
+    return snapshot;
+  }
+
+  async getScrapeSnapshotsByUrl(url: string, since?: Date): Promise<ScrapeSnapshot[]> {
+    return Array.from(this.scrapeSnapshots.values())
+      .filter(snapshot => snapshot.url === url && (!since || snapshot.capturedAt >= since))
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  }
+
+  async getLatestScrapeSnapshot(url: string): Promise<ScrapeSnapshot | undefined> {
+    const snapshots = await this.getScrapeSnapshotsByUrl(url);
+    return snapshots[snapshots.length - 1];
+  }
+
+  async getScrapeSnapshotUnits(snapshotIds: string[]): Promise<ScrapeSnapshotUnit[]> {
+    const ids = new Set(snapshotIds);
+    return Array.from(this.scrapeSnapshotUnits.values())
+      .filter(unit => ids.has(unit.snapshotId))
+      .sort((a, b) => a.unitKey.localeCompare(b.unitKey));
+  }
+
+  async upsertCompetitorCandidate(insertCandidate: InsertCompetitorCandidate): Promise<CompetitorCandidate> {
+    const existing = Array.from(this.competitorCandidates.values()).find(
+      candidate => candidate.subjectProfileId === insertCandidate.subjectProfileId && candidate.url === insertCandidate.url
+    );
+    const candidate: CompetitorCandidate = {
+      ...insertCandidate,
+      id: existing?.id ?? randomUUID(),
+      builtYear: insertCandidate.builtYear ?? null,
+      totalUnits: insertCandidate.totalUnits ?? null,
+      unitMix: insertCandidate.unitMix ?? null,
+      amenities: insertCandidate.amenities ? insertCandidate.amenities.filter((item): item is string => typeof item === 'string') : [],
+      avgSquareFootage: insertCandidate.avgSquareFootage ?? null,
+      avgRent: insertCandidate.avgRent ?? null,
+      latitude: insertCandidate.latitude ?? null,
+      longitude: insertCandidate.longitude ?? null,
+      distance: insertCandidate.distance ?? null,
+      similarity: insertCandidate.similarity as CompetitorCandidate['similarity'],
+      // A repeat discovery keeps the candidate's review status
+      status: existing?.status ?? insertCandidate.status ?? 'pending',
+      competitorProfileId: existing?.competitorProfileId ?? insertCandidate.competitorProfileId ?? null,
+      reviewedAt: existing?.reviewedAt ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    };
+    this.competitorCandidates.set(candidate.id, candidate);
+    return candidate;
+  }
+
+  async getCompetitorCandidate(id: string): Promise<CompetitorCandidate | undefined> {
+    return this.competitorCandidates.get(id);
+  }
+
+  async getCompetitorCandidatesBySubject(subjectProfileId: string, status?: CompetitorCandidateStatus): Promise<CompetitorCandidate[]> {
+    return Array.from(this.competitorCandidates.values())
+      .filter(candidate => candidate.subjectProfileId === subjectProfileId && (!status || candidate.status === status))
+      .sort((a, b) => parseFloat(b.matchScore) - parseFloat(a.matchScore) || a.name.localeCompare(b.name));
+  }
+
+  async updateCompetitorCandidate(id: string, updates: Partial<CompetitorCandidate>): Promise<CompetitorCandidate | undefined> {
+    const candidate = this.competitorCandidates.get(id);
+    if (!candidate) return undefined;
+    
+    const updated = { ...candidate, ...updates, updatedAt: new Date() };
+    this.competitorCandidates.set(id, updated);
+    return updated;
+  }
+
   async getSubjectScrapedProperty(): Promise<ScrapedProperty | null> {
     const allProperties = Array.from(this.scrapedProperties.values());
     console.log('[STORAGE] getSubjectScrapedProperty: Total scraped properties:', allProperties.length);
@@ -4129,8 +5619,77 @@ export class MemStorageLegacy implements IStorage {
     return scrapingJob.propertyId;
   }
 
+  // Scraped properties with their property profile, found via the scraping job
+  private async getProfilesByScrapedProperty(propertyIds: string[]): Promise<Map<string, { scrapedProperty?: ScrapedProperty; profile?: PropertyProfile }>> {
+    const profilesByProperty = new Map<string, { scrapedProperty?: ScrapedProperty; profile?: PropertyProfile }>();
+    for (const propertyId of Array.from(new Set(propertyIds))) {
+      const scrapedProperty = await this.getScrapedProperty(propertyId);
+      const job = scrapedProperty ? await this.getScrapingJob(scrapedProperty.scrapingJobId) : undefined;
+      const profile = job?.propertyProfileId ? await this.getPropertyProfile(job.propertyProfileId) : undefined;
+      profilesByProperty.set(propertyId, { scrapedProperty, profile });
+    }
+    return profilesByProperty;
+  }
+
+  // Property amenities for scraped properties, via their property profile
+  private async getAmenitiesByScrapedProperty(propertyIds: string[]): Promise<Map<string, string[]>> {
+    const amenitiesByProperty = new Map<string, string[]>();
+    for (const [propertyId, { profile }] of Array.from(await this.getProfilesByScrapedProperty(propertyIds))) {
+      amenitiesByProperty.set(propertyId, normalizeAmenities(profile?.amenities));
+    }
+    return amenitiesByProperty;
+  }
+
+  // Miles from the subject: the profile's geocoded distance, else the distance the scrape reported
+  private async getDistancesByScrapedProperty(propertyIds: string[]): Promise<Map<string, number | null>> {
+    const distancesByProperty = new Map<string, number | null>();
+    for (const [propertyId, { scrapedProperty, profile }] of Array.from(await this.getProfilesByScrapedProperty(propertyIds))) {
+      const distance = parseFloat(profile?.distance ?? scrapedProperty?.distance ?? '');
+      distancesByProperty.set(propertyId, isNaN(distance) ? null : distance);
+    }
+    return distancesByProperty;
+  }
+
+  // Competitor units within the radius; units with no known distance are left out
+  private async filterUnitsByRadius<T extends ScrapedUnit>(units: T[], radiusMiles: number): Promise<T[]> {
+    const distancesByProperty = await this.getDistancesByScrapedProperty(units.map(unit => unit.propertyId));
+    return units.filter(unit => {
+      const distance = distancesByProperty.get(unit.propertyId);
+      return distance !== null && distance !== undefined && distance <= radiusMiles;
+    });
+  }
+
+  // Location score from the subject profiles' POI distances and the competitors' distances
+  private async computeScrapedPropertyLocationScore(subjectUnits: ScrapedUnit[], competitorUnits: ScrapedUnit[]): Promise<number> {
+    const subjectProfiles = await this.getProfilesByScrapedProperty(subjectUnits.map(unit => unit.propertyId));
+    const competitorDistances = await this.getDistancesByScrapedProperty(competitorUnits.map(unit => unit.propertyId));
+    return computeLocationScore(
+      Array.from(subjectProfiles.values()).map(({ profile }) => profile?.poiDistances),
+      Array.from(competitorDistances.values()).filter((distance): distance is number => distance !== null)
+    );
+  }
+
+  // Amenity, lease term, floor level and renovation filters; top floors come from every unit of the property
+  private async filterScrapedUnitsByAttributes<T extends ScrapedUnit>(units: T[], allUnits: ScrapedUnit[], criteria: FilterCriteria): Promise<T[]> {
+    if (!hasAttributeFilters(criteria)) return units;
+    const topFloors = getTopFloors(allUnits, unit => unit.propertyId);
+    const amenitiesByProperty = criteria.amenities?.length
+      ? await this.getAmenitiesByScrapedProperty(units.map(unit => unit.propertyId))
+      : undefined;
+    return filterUnitsByAttributes(units, criteria, unit => unit.propertyId, topFloors, amenitiesByProperty);
+  }
+
+  // Subject amenity score and amenities edge, one amenity list per property the units come from
+  private async compareScrapedPropertyAmenities(subjectUnits: ScrapedUnit[], competitorUnits: ScrapedUnit[], amenityWeights?: Record<string, number> | null) {
+    const amenitiesByProperty = await this.getAmenitiesByScrapedProperty([...subjectUnits, ...competitorUnits].map(unit => unit.propertyId));
+    const propertyAmenities = (units: ScrapedUnit[]) => Array.from(new Set(units.map(unit => unit.propertyId)))
+      .map(propertyId => amenitiesByProperty.get(propertyId) ?? []);
+    return compareAmenities(propertyAmenities(subjectUnits), propertyAmenities(competitorUnits), resolveAmenityWeights(amenityWeights));
+  }
+
   async getFilteredScrapedUnits(criteria: FilterCriteria): Promise<ScrapedUnit[]> {
-    let units = Array.from(this.scrapedUnits.values());
+    const allUnits = Array.from(this.scrapedUnits.values());
+    let units = allUnits;
     console.log('[FILTER] Starting with', units.length, 'total units');
     
     // Log sample unit data for debugging
@@ -4291,57 +5850,11 @@ export class MemStorageLegacy implements IStorage {
       }
     }
 
-    // Advanced filters (simplified implementation since scraped data may not have all details)
-    
-    // Filter by amenities - would need property-level amenities data
-    if (criteria.amenities && criteria.amenities.length > 0) {
-      // For demo: simulate by filtering based on price ranges (higher price = more amenities)
-      // In production, you'd match against actual property amenities
-      const avgRent = units.reduce((sum, u) => sum + (u.rent ? parseFloat(u.rent.toString()) : 0), 0) / units.length || 0;
-      if (criteria.amenities.includes("gym") || criteria.amenities.includes("pool")) {
-        // Premium amenities typically in higher-priced units
-        units = units.filter(unit => {
-          const rent = unit.rent ? parseFloat(unit.rent.toString()) : 0;
-          return rent >= avgRent * 0.9; // Keep units in upper price tier
-        });
-      }
-    }
-
-    // Filter by lease terms - would need actual lease data
-    if (criteria.leaseTerms && criteria.leaseTerms.length > 0) {
-      // Simplified: month-to-month typically has higher rent
-      if (criteria.leaseTerms.includes("month_to_month")) {
-        // Keep all units for now - in production would filter by actual lease terms
-      }
-    }
-
-    // Filter by floor level - would need actual floor data
-    if (criteria.floorLevel) {
-      // Simplified: top floors typically have higher rent
-      if (criteria.floorLevel === "top") {
-        const sortedByRent = [...units].sort((a, b) => {
-          const rentA = a.rent ? parseFloat(a.rent.toString()) : 0;
-          const rentB = b.rent ? parseFloat(b.rent.toString()) : 0;
-          return rentB - rentA;
-        });
-        // Keep top 70% by price as proxy for upper floors
-        const cutoff = Math.floor(sortedByRent.length * 0.3);
-        if (cutoff > 0) {
-          units = sortedByRent.slice(0, -cutoff);
-        }
-      }
-    }
-
-    // Filter by renovation status - would need actual renovation data
-    if (criteria.renovationStatus) {
-      // Simplified: newly renovated units typically have higher rent
-      if (criteria.renovationStatus === "newly_renovated") {
-        const avgRent = units.reduce((sum, u) => sum + (u.rent ? parseFloat(u.rent.toString()) : 0), 0) / units.length || 0;
-        units = units.filter(unit => {
-          const rent = unit.rent ? parseFloat(unit.rent.toString()) : 0;
-          return rent >= avgRent * 1.1; // Keep units 10% above average
-        });
-      }
+    // Advanced filters match the units' recorded attributes
+    if (hasAttributeFilters(criteria)) {
+      const beforeAttributeCount = units.length;
+      units = await this.filterScrapedUnitsByAttributes(units, allUnits, criteria);
+      console.log('[FILTER] After unit attribute filters:', units.length, 'units (filtered out', beforeAttributeCount - units.length, ')');
     }
 
     return units;
@@ -4393,7 +5906,12 @@ export class MemStorageLegacy implements IStorage {
     
     // Separate subject and competitor units
     const subjectUnits = allFilteredUnits.filter(unit => unit.propertyId === subjectProperty.id);
-    const competitorUnits = allFilteredUnits.filter(unit => unit.propertyId !== subjectProperty.id);
+    let competitorUnits = allFilteredUnits.filter(unit => unit.propertyId !== subjectProperty.id);
+    
+    // Filter competitors by distance from the subject property
+    if (criteria.radiusMiles) {
+      competitorUnits = await this.filterUnitsByRadius(competitorUnits, criteria.radiusMiles);
+    }
     
     // Get property details for unit comparisons
     const propertyMap = new Map<string, ScrapedProperty>();
@@ -4484,8 +6002,12 @@ export class MemStorageLegacy implements IStorage {
     // REMOVED complex scoring functions - keeping it simple and transparent
     // We only care about real data, not derived scores
     
-    // Simple amenity score based on percentile rank only
-    const amenityScore = percentileRank;
+    // Location score from POI proximity and competitor distances
+    const locationScore = await this.computeScrapedPropertyLocationScore(subjectUnits, competitorUnits);
+    
+    // Amenity score against the competitors with the default amenity weights
+    const amenityComparison = await this.compareScrapedPropertyAmenities(subjectUnits, competitorUnits);
+    const amenityScore = amenityComparison.amenityScore;
     
     // SIMPLIFIED competitive edges with transparent thresholds
     const competitiveEdges: CompetitiveEdges = {
@@ -4534,20 +6056,7 @@ export class MemStorageLegacy implements IStorage {
           return "neutral" as const;
         })()
       },
-      amenities: {
-        edge: amenityScore,
-        label: (() => {
-          if (amenityScore > 66) return "Above market amenities";
-          if (amenityScore > 33) return "Market-standard amenities";
-          return "Basic amenities";
-        })(),
-        status: (() => {
-          // Simple threshold based on percentile
-          if (amenityScore > 66) return "advantage" as const;
-          if (amenityScore < 33) return "disadvantage" as const;
-          return "neutral" as const;
-        })()
-      }
+      amenities: amenityComparison.edge
     };
     
     // SIMPLIFIED pricing power score with transparent weights
@@ -4714,7 +6223,7 @@ export class MemStorageLegacy implements IStorage {
       unitCount: subjectUnitsFormatted.length,
       avgRent: Math.round(subjectAvgRent),
       percentileRank,
-      locationScore: Math.min(100, Math.max(0, percentileRank + 5)),
+      locationScore,
       amenityScore: Math.min(100, Math.max(0, amenityScore)),
       pricePerSqFt: (() => {
         const validUnitsWithSqft = subjectUnitsFormatted.filter(u => u.squareFootage && u.squareFootage > 0);
@@ -4768,10 +6277,16 @@ export class MemStorageLegacy implements IStorage {
 
   async getScrapingJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]> {
     return Array.from(this.scrapingJobs.values()).filter(
-      job => job.propertyProfileId === propertyProfileId
+      job => job.propertyProfileId === propertyProfileId && job.stage !== COMPETITOR_DISCOVERY_STAGE
     );
   }
 
+  async getCompetitorDiscoveryJobsByProfile(propertyProfileId: string): Promise<ScrapingJob[]> {
+    return Array.from(this.scrapingJobs.values())
+      .filter(job => job.propertyProfileId === propertyProfileId && job.stage === COMPETITOR_DISCOVERY_STAGE)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
   async getScrapingJobsBySession(sessionId: string): Promise<ScrapingJob[]> {
     return Array.from(this.scrapingJobs.values()).filter(
       job => job.sessionId === sessionId
@@ -4782,23 +6297,42 @@ export class MemStorageLegacy implements IStorage {
     return Array.from(this.optimizationReports.values());
   }
 
+  async getOptimizationReportsByProfiles(propertyProfileIds: string[]): Promise<OptimizationReport[]> {
+    const profileIds = new Set(propertyProfileIds);
+    return Array.from(this.optimizationReports.values())
+      .filter(report => report.propertyProfileId !== null && profileIds.has(report.propertyProfileId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
   async getOptimizationReportsBySession(sessionId: string): Promise<OptimizationReport[]> {
     return Array.from(this.optimizationReports.values()).filter(report => 
       report.sessionId === sessionId
     );
   }
 
-  async generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number): Promise<{
+  private async getRelationshipResolverForSession(sessionId: string): Promise<RelationshipResolver | undefined> {
+    const session = this.analysisSessions.get(sessionId);
+    if (!session?.portfolioId) return undefined;
+
+    const savedProfiles = await this.getSavedPropertyProfilesByPortfolio(session.portfolioId);
+    const relationships = await this.getCompetitiveRelationshipsByPortfolio(session.portfolioId);
+    return buildRelationshipResolver(savedProfiles, relationships);
+  }
+
+  async generateOptimizationReport(sessionId: string, goal: string, targetOccupancy: number, riskTolerance: number, strategyParams?: Record<string, any>, onProgress?: (stage: number, message: string) => void): Promise<{
     unitRecommendations: any[];
     totalIncrease: number;
     affectedUnits: number;
     avgIncrease: number;
     riskLevel: string;
     marketInsights: any;
+    pricingModel: PricingModelParameters;
   }> {
     // For MemStorage, implement a similar logic but using in-memory data
     console.log('[MEM_STORAGE] Generating smart optimization report for session:', sessionId);
     
+    const { strategy: pricingStrategy, model: pricingModel } = resolvePricingStrategy(goal, strategyParams);
+    
     // Get session property profiles
     const sessionPropertyProfiles = Array.from(this.sessionPropertyProfiles.values())
       .filter(spp => spp.sessionId === sessionId);
@@ -4813,6 +6347,8 @@ export class MemStorageLegacy implements IStorage {
       throw new Error('No subject properties found in session');
     }
     
+    onProgress?.(2, 'Analyzing market conditions');
+    
     // Get all scraped units
     const allScrapedUnits = await this.getScrapedUnitsForSession(sessionId);
     
@@ -4841,32 +6377,14 @@ export class MemStorageLegacy implements IStorage {
       }
     }
     
-    // Calculate market averages
-    const marketData = new Map<string, { sum: number; count: number; values: number[]; avg: number }>();
+    // Comparables are matched per unit by bedrooms and square-footage band, and weighted
+    // by their competitive relationship, distance and match score
     const allMarketUnits = [...subjectUnits, ...competitorUnits];
+    const comparableSources = buildComparableSources(scrapedProperties, propertyProfiles, subjectPropertyUrls);
+    const comparables = buildComparableUnits(allMarketUnits, comparableSources);
+    const resolveRelationship = await this.getRelationshipResolverForSession(sessionId);
     
-    for (const unit of allMarketUnits) {
-      const rent = parseFloat(unit.rent || '0');
-      if (rent > 0) {
-        const bedrooms = unit.bedrooms || 1;
-        const key = `${bedrooms}BR`;
-        
-        if (!marketData.has(key)) {
-          marketData.set(key, { sum: 0, count: 0, values: [], avg: 0 });
-        }
-        
-        const stats = marketData.get(key)!;
-        stats.sum += rent;
-        stats.count += 1;
-        stats.values.push(rent);
-        stats.avg = stats.sum / stats.count;
-      }
-    }
-    
-    // Sort for percentile calculation
-    for (const stats of marketData.values()) {
-      stats.values.sort((a, b) => a - b);
-    }
+    onProgress?.(3, 'Generating recommendations');
     
     // Generate recommendations with pricing power scores
     const unitRecommendations = [];
@@ -4877,23 +6395,17 @@ export class MemStorageLegacy implements IStorage {
       const currentRent = parseFloat(unit.rent || '0');
       if (currentRent <= 0) continue;
       
-      const bedrooms = unit.bedrooms || 1;
+      const bedrooms = unit.bedrooms ?? 1;
       const unitType = `${bedrooms}BR`;
-      const marketStats = marketData.get(unitType);
-      const marketAverage = marketStats?.avg || currentRent;
+      const squareFootage = unit.squareFootage || null;
+      const marketStats = getComparableStats(comparables, bedrooms, squareFootage, {
+        subjectUrl: scrapedProperties.get(unit.propertyId)?.url ?? null,
+        resolveRelationship
+      });
+      const marketAverage = marketStats.count > 0 ? marketStats.avg : currentRent;
       
       // Calculate Pricing Power Score
-      let unitPercentile = 50;
-      if (marketStats && marketStats.values.length > 0) {
-        const index = marketStats.values.findIndex(v => v >= currentRent);
-        if (index === -1) {
-          unitPercentile = 100;
-        } else if (index === 0) {
-          unitPercentile = 0;
-        } else {
-          unitPercentile = (index / marketStats.values.length) * 100;
-        }
-      }
+      const unitPercentile = calculateWeightedPercentile(marketStats, currentRent);
       
       let priceDifference = 50;
       if (marketAverage > 0) {
@@ -4904,58 +6416,17 @@ export class MemStorageLegacy implements IStorage {
       const availabilityScore = (unit.status === 'occupied') ? 100 : 0;
       const pricingPowerScore = (unitPercentile * 0.4) + (priceDifference * 0.3) + (availabilityScore * 0.3);
       
-      // Apply smart adjustments
-      let recommendedRent = currentRent;
-      let adjustmentPercent = 0;
-      let adjustmentReason = '';
-      
-      if (goal === 'maximize-revenue') {
-        if (pricingPowerScore >= 80) {
-          adjustmentPercent = 1 + (Math.random() * 1);
-          adjustmentReason = 'Already premium positioned, minimal increase to maintain market position';
-        } else if (pricingPowerScore >= 60) {
-          adjustmentPercent = 3 + (Math.random() * 2);
-          adjustmentReason = 'Good market position, moderate increase to optimize revenue';
-        } else if (pricingPowerScore >= 40) {
-          adjustmentPercent = 5 + (Math.random() * 3);
-          adjustmentReason = 'Room for growth, strategic increase to capture market value';
-        } else {
-          adjustmentPercent = 8 + (Math.random() * 2);
-          adjustmentReason = 'Significantly underpriced, aggressive increase to reach market rates';
-        }
-        recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-      } else if (goal === 'maximize-occupancy') {
-        if (pricingPowerScore >= 80) {
-          adjustmentPercent = -(5 + Math.random() * 3);
-          adjustmentReason = 'Premium pricing reduced to improve occupancy rate';
-        } else if (pricingPowerScore >= 60) {
-          adjustmentPercent = -(2 + Math.random() * 1);
-          adjustmentReason = 'Slight adjustment to enhance competitiveness';
-        } else if (pricingPowerScore >= 40) {
-          adjustmentPercent = Math.random() * 1;
-          adjustmentReason = 'Already competitive, minimal adjustment maintains market position';
-        } else {
-          adjustmentPercent = 2 + Math.random() * 1;
-          adjustmentReason = 'Below market, slight increase still maintains affordability';
-        }
-        recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-      } else if (goal === 'balanced') {
-        if (pricingPowerScore > 70) {
-          adjustmentPercent = -(1 + Math.random() * 2);
-          adjustmentReason = 'Adjusting down to optimal 60-70% market position';
-        } else if (pricingPowerScore < 60) {
-          adjustmentPercent = 2 + Math.random() * 3;
-          adjustmentReason = 'Adjusting up to reach optimal 60-70% market position';
-        } else {
-          adjustmentPercent = -0.5 + Math.random() * 1;
-          adjustmentReason = 'Already in optimal range, fine-tuning for market alignment';
-        }
-        recommendedRent = currentRent * (1 + adjustmentPercent / 100);
-      } else {
-        adjustmentPercent = 2;
-        recommendedRent = currentRent * 1.02;
-        adjustmentReason = 'Conservative market-based adjustment';
-      }
+      // Apply the selected pricing strategy
+      const { adjustmentPercent, adjustmentReason, pricingBand } = pricingStrategy.price({
+        currentRent,
+        bedrooms,
+        status: unit.status,
+        pricingPowerScore,
+        unitPercentile,
+        marketAverage,
+        marketValues: marketStats.values
+      }, pricingModel.params);
+      let recommendedRent = currentRent * (1 + adjustmentPercent / 100);
       
       recommendedRent = Math.round(recommendedRent / 5) * 5;
       const actualChange = recommendedRent - currentRent;
@@ -4972,16 +6443,26 @@ export class MemStorageLegacy implements IStorage {
         currentRent: currentRent,
         recommendedRent: recommendedRent,
         marketAverage: Math.round(marketAverage),
+        rentPerSqFt: calculateRentPerSqFt(currentRent, squareFootage),
+        marketRentPerSqFt: marketStats.avgRentPerSqFt,
+        comparableMatch: marketStats.matchType,
+        comparableCount: marketStats.count,
+        comparableWeights: marketStats.appliedWeights,
         change: actualChange,
         annualImpact: annualImpact,
         pricingPowerScore: Math.round(pricingPowerScore),
         adjustmentReason: adjustmentReason,
-        confidenceLevel: marketStats && marketStats.count >= 10 ? 'High' : marketStats && marketStats.count >= 5 ? 'Medium' : 'Low',
+        confidenceLevel: marketStats.count >= 10 ? 'High' : marketStats.count >= 5 ? 'Medium' : 'Low',
         reasoning: `${adjustmentReason} (Power Score: ${Math.round(pricingPowerScore)}, Market Avg: $${Math.round(marketAverage)})`,
+        adjustmentPercent: adjustmentPercent,
+        pricingBand: pricingBand ?? null,
+        pricingModelVersion: pricingModel.version,
         propertyName: unit.propertyName
       });
     }
     
+    onProgress?.(4, 'Calculating pricing impacts');
+    
     const avgIncrease = affectedUnits > 0 ? totalIncrease / affectedUnits : 0;
     
     let riskLevel = 'Medium';
@@ -5017,7 +6498,8 @@ export class MemStorageLegacy implements IStorage {
       affectedUnits,
       avgIncrease,
       riskLevel,
-      marketInsights
+      marketInsights,
+      pricingModel
     };
   }
 
@@ -5083,7 +6565,11 @@ export class MemStorageLegacy implements IStorage {
       createdAt: new Date(),
       updatedAt: new Date(),
       lastAccessedAt: new Date(),
-      description: insertPortfolio.description ?? null
+      description: insertPortfolio.description ?? null,
+      organizationId: insertPortfolio.organizationId ?? null,
+      pricingStrategy: insertPortfolio.pricingStrategy ?? null,
+      pricingStrategyParams: insertPortfolio.pricingStrategyParams ?? null,
+      scrapeSchedule: null
     };
     this.savedPortfolios.set(id, portfolio);
     return portfolio;
@@ -5093,9 +6579,9 @@ export class MemStorageLegacy implements IStorage {
     return this.savedPortfolios.get(id);
   }
 
-  async getPortfoliosByUser(userId: string): Promise<SavedPortfolio[]> {
+  async getPortfoliosByUser(userId: string, organizationIds: string[] = []): Promise<SavedPortfolio[]> {
     return Array.from(this.savedPortfolios.values()).filter(
-      portfolio => portfolio.userId === userId
+      portfolio => portfolio.userId === userId || (portfolio.organizationId !== null && organizationIds.includes(portfolio.organizationId))
     );
   }
 
@@ -5224,6 +6710,241 @@ export class MemStorageLegacy implements IStorage {
     return this.competitiveRelationships.delete(id);
   }
 
+  // ORGANIZATION OPERATIONS
+
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const now = new Date();
+    const newOrganization: Organization = {
+      ...organization,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.organizations.set(newOrganization.id, newOrganization);
+    await this.addOrganizationMember({ organizationId: newOrganization.id, userId: organization.createdBy, role: 'owner' });
+    return newOrganization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization | undefined> {
+    const organization = this.organizations.get(id);
+    if (!organization) return undefined;
+
+    const updatedOrganization = { ...organization, ...updates, updatedAt: new Date() };
+    this.organizations.set(id, updatedOrganization);
+    return updatedOrganization;
+  }
+
+  async getOrganizationsByUser(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+    const memberships = await this.getOrganizationMembershipsByUser(userId);
+    return memberships
+      .filter(member => this.organizations.has(member.organizationId))
+      .map(member => ({ ...this.organizations.get(member.organizationId)!, role: member.role as OrganizationRole }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembers.values()).find(
+      member => member.organizationId === organizationId && member.userId === userId
+    );
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    return Array.from(this.organizationMembers.values()).filter(
+      member => member.organizationId === organizationId
+    );
+  }
+
+  async getOrganizationMembershipsByUser(userId: string): Promise<OrganizationMember[]> {
+    return Array.from(this.organizationMembers.values()).filter(
+      member => member.userId === userId
+    );
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    const now = new Date();
+    const newMember: OrganizationMember = {
+      ...member,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.organizationMembers.set(newMember.id, newMember);
+    return newMember;
+  }
+
+  async updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const member = await this.getOrganizationMember(organizationId, userId);
+    if (!member) return undefined;
+
+    const updatedMember = { ...member, role, updatedAt: new Date() };
+    this.organizationMembers.set(member.id, updatedMember);
+    return updatedMember;
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+    const member = await this.getOrganizationMember(organizationId, userId);
+    return member ? this.organizationMembers.delete(member.id) : false;
+  }
+
+  // API KEY OPERATIONS
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const newApiKey: ApiKey = {
+      ...apiKey,
+      id: randomUUID(),
+      organizationId: apiKey.organizationId ?? null,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute ?? 60,
+      expiresAt: apiKey.expiresAt ?? null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.apiKeys.set(newApiKey.id, newApiKey);
+    return newApiKey;
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async getApiKeysByUser(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) return undefined;
+
+    const updatedApiKey = { ...apiKey, ...updates };
+    this.apiKeys.set(id, updatedApiKey);
+    return updatedApiKey;
+  }
+
+  // WEBHOOK OPERATIONS
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const now = new Date();
+    const newSubscription: WebhookSubscription = {
+      ...subscription,
+      id: randomUUID(),
+      organizationId: subscription.organizationId ?? null,
+      description: subscription.description ?? null,
+      active: subscription.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.webhookSubscriptions.set(newSubscription.id, newSubscription);
+    return newSubscription;
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptions.get(id);
+  }
+
+  async getWebhookSubscriptionsByUser(userId: string, organizationIds: string[] = []): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values())
+      .filter(subscription => subscription.userId === userId || (subscription.organizationId !== null && organizationIds.includes(subscription.organizationId)))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getActiveWebhookSubscriptionsForOwner(userId: string | null, organizationId: string | null): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values()).filter(subscription =>
+      subscription.active && (
+        (!!userId && subscription.userId === userId && subscription.organizationId === null) ||
+        (!!organizationId && subscription.organizationId === organizationId)
+      )
+    );
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const subscription = this.webhookSubscriptions.get(id);
+    if (!subscription) return undefined;
+
+    const updatedSubscription = { ...subscription, ...updates, updatedAt: new Date() };
+    this.webhookSubscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    const deleted = this.webhookSubscriptions.delete(id);
+    if (deleted) {
+      Array.from(this.webhookDeliveries.values())
+        .filter(delivery => delivery.subscriptionId === id)
+        .forEach(delivery => this.webhookDeliveries.delete(delivery.id));
+    }
+    return deleted;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    return deliveries.map(delivery => {
+      const newDelivery: WebhookDelivery = {
+        ...delivery,
+        id: randomUUID(),
+        status: delivery.status ?? 'pending',
+        attempts: delivery.attempts ?? 0,
+        maxAttempts: delivery.maxAttempts ?? 6,
+        nextAttemptAt: delivery.nextAttemptAt ?? null,
+        lastAttemptAt: delivery.lastAttemptAt ?? null,
+        responseStatus: delivery.responseStatus ?? null,
+        responseBody: delivery.responseBody ?? null,
+        errorMessage: delivery.errorMessage ?? null,
+        deliveredAt: delivery.deliveredAt ?? null,
+        createdAt: new Date()
+      };
+      this.webhookDeliveries.set(newDelivery.id, newDelivery);
+      return newDelivery;
+    });
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveriesBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.subscriptionId === subscriptionId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const dueDeliveries = Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === 'pending' && (!delivery.nextAttemptAt || delivery.nextAttemptAt <= now))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .slice(0, Math.max(0, limit));
+
+    return dueDeliveries.map(delivery => {
+      const claimedDelivery: WebhookDelivery = {
+        ...delivery,
+        attempts: delivery.attempts + 1,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + leaseMs)
+      };
+      this.webhookDeliveries.set(delivery.id, claimedDelivery);
+      return claimedDelivery;
+    });
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updatedDelivery = { ...delivery, ...updates };
+    this.webhookDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
   // USER AUTHENTICATION OPERATIONS - MANDATORY for Replit Auth
   
   async getUser(id: string): Promise<User | undefined> {
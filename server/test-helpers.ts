@@ -0,0 +1,17 @@
+import { mock } from "node:test";
+import { storage, MemStorageLegacy } from "./storage";
+
+/**
+ * Back the shared storage instance with a fresh in-memory store, so modules
+ * that import `storage` run without a database. Call mock.restoreAll() (e.g. in
+ * afterEach) to undo it.
+ */
+export function useMemoryStorage(): MemStorageLegacy {
+  const memory = new MemStorageLegacy();
+  for (const name of Object.getOwnPropertyNames(MemStorageLegacy.prototype)) {
+    const method = (memory as any)[name];
+    if (name === 'constructor' || typeof method !== 'function' || typeof (storage as any)[name] !== 'function') continue;
+    mock.method(storage as any, name, method.bind(memory));
+  }
+  return memory;
+}
@@ -0,0 +1,275 @@
+import { normalizeAmenities } from "@shared/utils";
+import { normalizeAmenityKeys } from "./amenities";
+import {
+  renovationTiers,
+  unitFeatures,
+  unitViews,
+  type AmenityKey,
+  type FilterCriteria,
+  type RenovationTier,
+  type UnitFeature,
+  type UnitView
+} from "@shared/schema";
+
+/**
+ * Unit attributes: floor, renovation tier, view, unit-level features and the
+ * lease terms a unit is offered on.
+ *
+ * Listing pages, LLM extraction and rent-roll spreadsheets describe these in
+ * free text ("Renovated 2023", "W/D in unit", "6-15 month leases"). The
+ * parsers here map that text to the canonical values stored on property and
+ * scraped units, and the analysis filters match against the stored values.
+ * Units with an unknown attribute never match a filter on that attribute.
+ */
+
+export interface UnitAttributes {
+  floor: number | null;
+  renovationTier: RenovationTier | null;
+  view: UnitView | null;
+  features: UnitFeature[];
+  leaseTerms: string[] | null;
+}
+
+export type AttributeFilterCriteria = Pick<FilterCriteria, 'amenities' | 'leaseTerms' | 'floorLevel' | 'renovationStatus'>;
+
+type AttributedUnit = {
+  floor: number | null;
+  renovationTier: string | null;
+  features: string[] | null;
+  leaseTerms: string[] | null;
+};
+
+// Longest lease term recognised when expanding ranges such as "6-15 months"
+const MAX_LEASE_TERM_MONTHS = 24;
+
+// Checked in order, so "not renovated" is read before "renovated"
+const RENOVATION_PATTERNS: Array<[RenovationTier, RegExp]> = [
+  ['original', /original|classic|unrenovated|not renovated|standard/i],
+  ['newly_renovated', /(newly|fully|recently|just)[- ]?(renovated|remodel)|brand[- ]new|new renovation|premium|platinum/i],
+  ['updated', /renovat|updated|upgraded|remodel|refresh|partial/i]
+];
+
+const VIEW_PATTERNS: Array<[UnitView, RegExp]> = [
+  ['water', /water|ocean|lake|river|bay|harbou?r|sea\b|marina/i],
+  ['mountain', /mountain|hill/i],
+  ['park', /park|garden|green|tree/i],
+  ['city', /city|skyline|downtown|urban/i],
+  ['pool', /pool/i],
+  ['courtyard', /courtyard/i],
+  ['street', /street|road/i]
+];
+
+function isCanonical<T extends string>(values: readonly T[], value: string): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+function toKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function toFloor(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 ? value : null;
+  }
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  if (/^(ground|g|lobby|street level)\b/.test(text)) return 1;
+  const match = text.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Floor from a unit number such as "305", "Apt 1204" or "#210B": the digits
+ * before the last two. Shorter numbers don't encode a floor.
+ */
+export function inferFloorFromUnitNumber(unitNumber: unknown): number | null {
+  const match = String(unitNumber ?? '').trim().match(/^(?:unit|apt\.?|apartment)?\s*#?\s*[a-z]?-?(\d{3,4})[a-z]?$/i);
+  if (!match) return null;
+  const floor = parseInt(match[1].slice(0, -2), 10);
+  return floor >= 1 ? floor : null;
+}
+
+export function toRenovationTier(value: unknown): RenovationTier | null {
+  if (value === true) return 'updated';
+  if (value === false) return 'original';
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  if (isCanonical(renovationTiers, toKey(text))) return toKey(text) as RenovationTier;
+  return RENOVATION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+export function toUnitView(value: unknown): UnitView | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  if (isCanonical(unitViews, toKey(text))) return toKey(text) as UnitView;
+  return VIEW_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+/**
+ * Unit-level features from a list or comma-separated text, using the amenity
+ * taxonomy. Text that doesn't map to a unit-level feature is dropped.
+ */
+export function normalizeUnitFeatures(value: unknown): UnitFeature[] {
+  return normalizeAmenityKeys(value).filter((key): key is UnitFeature => isCanonical(unitFeatures, key));
+}
+
+/**
+ * Offered lease terms from a list or text such as "6-15 months, month-to-month".
+ * Ranges expand to every whole-month term in between; null when no term is found.
+ */
+export function toLeaseTerms(value: unknown): string[] | null {
+  const entries = typeof value === 'number' ? [String(value)] : normalizeAmenities(
+    typeof value === 'string' ? value.replace(/[;|]/g, ',') : value
+  );
+  const terms = new Set<string>();
+
+  for (const entry of entries) {
+    const text = entry.toLowerCase();
+    if (/^(month_to_month|\d{1,2}_month)$/.test(text)) {
+      terms.add(text);
+      continue;
+    }
+    if (/month[\s-]*to[\s-]*month|\bmtm\b|\bm2m\b/.test(text)) {
+      terms.add('month_to_month');
+    }
+
+    const range = text.match(/(\d+)\s*(?:-|to|–)\s*(\d+)\s*(?:mo|month)?/);
+    if (range) {
+      const low = parseInt(range[1], 10);
+      const high = Math.min(parseInt(range[2], 10), MAX_LEASE_TERM_MONTHS);
+      for (let months = Math.max(1, low); months <= high; months++) {
+        terms.add(`${months}_month`);
+      }
+      continue;
+    }
+
+    const years = text.match(/(\d+)\s*(?:yr|year)/);
+    if (years) {
+      terms.add(`${parseInt(years[1], 10) * 12}_month`);
+      continue;
+    }
+    const months = text.match(/^(\d+)\s*(?:mo|month|$)/) ?? text.match(/(\d+)\s*(?:mo|month)/);
+    if (months && parseInt(months[1], 10) >= 1 && parseInt(months[1], 10) <= MAX_LEASE_TERM_MONTHS) {
+      terms.add(`${parseInt(months[1], 10)}_month`);
+    }
+  }
+
+  if (terms.size === 0) return null;
+  return Array.from(terms).sort((a, b) => (parseInt(a, 10) || 0) - (parseInt(b, 10) || 0));
+}
+
+/**
+ * Attributes from a unit as extracted by Firecrawl or the LLM fallback. The
+ * floor falls back to the unit number when the listing doesn't state it.
+ */
+export function parseUnitAttributes(raw: any): UnitAttributes {
+  return {
+    floor: toFloor(raw?.floor) ?? inferFloorFromUnitNumber(raw?.unitNumber),
+    renovationTier: toRenovationTier(raw?.renovationTier ?? raw?.renovationStatus),
+    view: toUnitView(raw?.view),
+    features: normalizeUnitFeatures(raw?.features),
+    leaseTerms: toLeaseTerms(raw?.leaseTerms)
+  };
+}
+
+/**
+ * Map an Excel column onto unit attributes. Returns false when the header isn't
+ * an attribute column. Importers check these before unit and lease columns, since
+ * "Renovation Status", "View Type" and "Lease Terms Offered" would otherwise be
+ * read as the unit's status, type and lease term.
+ */
+export function applyUnitAttributeColumn(header: string, value: unknown, attributes: Partial<UnitAttributes>): boolean {
+  const headerLower = header.toLowerCase().trim();
+
+  if (headerLower.includes('floor') && !headerLower.includes('plan') && !headerLower.includes('flooring')) {
+    attributes.floor = toFloor(value);
+    return true;
+  }
+  if (headerLower.includes('renovat') || headerLower.includes('finish') || headerLower.includes('interior')) {
+    attributes.renovationTier = toRenovationTier(value);
+    return true;
+  }
+  if (headerLower.includes('view')) {
+    attributes.view = toUnitView(value);
+    return true;
+  }
+  if (headerLower.includes('feature')) {
+    attributes.features = normalizeUnitFeatures(value);
+    return true;
+  }
+  if (headerLower.includes('term') && (headerLower.includes('offer') || headerLower.includes('available') || headerLower.includes('allowed'))) {
+    attributes.leaseTerms = toLeaseTerms(value);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Highest known floor per property, which is what "top floor" means for its units
+ */
+export function getTopFloors<T extends Pick<AttributedUnit, 'floor'>>(units: T[], getPropertyKey: (unit: T) => string): Map<string, number> {
+  const topFloors = new Map<string, number>();
+  for (const unit of units) {
+    if (unit.floor === null) continue;
+    const key = getPropertyKey(unit);
+    topFloors.set(key, Math.max(topFloors.get(key) ?? 0, unit.floor));
+  }
+  return topFloors;
+}
+
+function matchesFloorLevel(floor: number | null, topFloor: number | undefined, level: NonNullable<FilterCriteria['floorLevel']>): boolean {
+  if (floor === null) return false;
+  if (level === 'ground') return floor <= 1;
+  // A single-storey building only has ground-floor units
+  if (topFloor === undefined || topFloor <= 1) return false;
+  return level === 'top' ? floor === topFloor : floor > 1 && floor < topFloor;
+}
+
+// Amenity filters match the unit's own features or its property's amenities
+function matchesAmenity(amenity: AmenityKey, features: string[], propertyAmenities: AmenityKey[]): boolean {
+  return features.includes(amenity) || propertyAmenities.includes(amenity);
+}
+
+export function hasAttributeFilters(criteria: AttributeFilterCriteria): boolean {
+  return !!(criteria.amenities?.length || criteria.leaseTerms?.length || criteria.floorLevel || criteria.renovationStatus);
+}
+
+/**
+ * Apply the amenity, lease term, floor level and renovation filters. Top floors
+ * should come from the property's full unit list, not the already-filtered units.
+ * Property amenities are raw text and are normalized once per property.
+ */
+export function filterUnitsByAttributes<T extends AttributedUnit>(
+  units: T[],
+  criteria: AttributeFilterCriteria,
+  getPropertyKey: (unit: T) => string,
+  topFloors: Map<string, number>,
+  amenitiesByProperty: Map<string, string[]> = new Map()
+): T[] {
+  const amenityKeysByProperty = new Map<string, AmenityKey[]>();
+  const getPropertyAmenities = (propertyKey: string): AmenityKey[] => {
+    if (!amenityKeysByProperty.has(propertyKey)) {
+      amenityKeysByProperty.set(propertyKey, normalizeAmenityKeys(amenitiesByProperty.get(propertyKey)));
+    }
+    return amenityKeysByProperty.get(propertyKey) ?? [];
+  };
+
+  return units.filter(unit => {
+    if (criteria.floorLevel && !matchesFloorLevel(unit.floor, topFloors.get(getPropertyKey(unit)), criteria.floorLevel)) {
+      return false;
+    }
+    if (criteria.renovationStatus && unit.renovationTier !== criteria.renovationStatus) {
+      return false;
+    }
+    if (criteria.leaseTerms?.length && !criteria.leaseTerms.some(term => unit.leaseTerms?.includes(term))) {
+      return false;
+    }
+    if (criteria.amenities?.length) {
+      const propertyAmenities = getPropertyAmenities(getPropertyKey(unit));
+      if (!criteria.amenities.every(amenity => matchesAmenity(amenity, unit.features ?? [], propertyAmenities))) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
@@ -0,0 +1,49 @@
+import type { PropertyUnit } from "@shared/schema";
+
+/**
+ * Units grouped by bedroom count, then TAG. Bedroom keys are sorted
+ * numerically and units without a TAG are grouped as "Untagged".
+ */
+
+export type UnitHierarchy<T extends Pick<PropertyUnit, 'bedrooms' | 'tag'> = PropertyUnit> = {
+  [bedroom: string]: { [tag: string]: T[] };
+};
+
+export const UNTAGGED = "Untagged";
+
+export function buildUnitHierarchy<T extends Pick<PropertyUnit, 'bedrooms' | 'tag'>>(units: T[]): {
+  hierarchy: UnitHierarchy<T>;
+  summary: { totalUnits: number; uniqueTags: number; bedroomTypes: number };
+} {
+  const hierarchy: UnitHierarchy<T> = {};
+  const uniqueTags = new Set<string>();
+
+  for (const unit of units) {
+    const bedroom = (unit.bedrooms || 0).toString();
+    const tag = unit.tag || UNTAGGED;
+
+    if (!hierarchy[bedroom]) {
+      hierarchy[bedroom] = {};
+    }
+    if (!hierarchy[bedroom][tag]) {
+      hierarchy[bedroom][tag] = [];
+    }
+    hierarchy[bedroom][tag].push(unit);
+    uniqueTags.add(tag);
+  }
+
+  // Sort bedrooms numerically
+  const sortedHierarchy: UnitHierarchy<T> = {};
+  Object.keys(hierarchy).sort((a, b) => parseInt(a) - parseInt(b)).forEach(key => {
+    sortedHierarchy[key] = hierarchy[key];
+  });
+
+  return {
+    hierarchy: sortedHierarchy,
+    summary: {
+      totalUnits: units.length,
+      uniqueTags: uniqueTags.size,
+      bedroomTypes: Object.keys(hierarchy).length
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { useMemoryStorage } from "./test-helpers";
+import { WebhookDispatcher } from "./webhooks";
+import type { MemStorageLegacy } from "./storage";
+
+describe("WebhookDispatcher", () => {
+  let memory: MemStorageLegacy;
+  let server: http.Server;
+  let requestCount: number;
+
+  beforeEach(async () => {
+    memory = useMemoryStorage();
+    mock.method(console, "warn", () => undefined);
+    requestCount = 0;
+    server = http.createServer((req, res) => {
+      requestCount++;
+      res.end("ok");
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("refuses to deliver to a subscription that resolves to a loopback address", async () => {
+    const { port } = server.address() as AddressInfo;
+    const subscription = await memory.createWebhookSubscription({
+      userId: "owner",
+      url: `http://127.0.0.1:${port}/hooks`,
+      events: ["scrape.completed"],
+      secret: "secret"
+    });
+    const [delivery] = await memory.createWebhookDeliveries([
+      { subscriptionId: subscription.id, eventId: "event-1", event: "scrape.completed", payload: {} }
+    ]);
+
+    await (new WebhookDispatcher() as any).poll();
+
+    const attempted = await memory.getWebhookDelivery(delivery.id);
+    assert.equal(requestCount, 0);
+    assert.equal(attempted?.status, "pending");
+    assert.equal(attempted?.attempts, 1);
+    assert.match(attempted?.errorMessage ?? "", /private or reserved/);
+  });
+});
@@ -0,0 +1,235 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getRetryDelayMs } from "./scraping-job-queue";
+import { assertPublicUrl } from "./outbound-url";
+import type { OwnedResource } from "./authorization";
+import type { WebhookDelivery, WebhookEvent, WebhookSubscription } from "@shared/schema";
+
+/**
+ * Outbound webhooks.
+ *
+ * Emitting an event records one delivery per matching subscription - the
+ * resource owner's personal subscriptions plus its organization's. The
+ * dispatcher posts due deliveries with an HMAC-SHA256 signature and retries
+ * failures with exponential backoff; every attempt's outcome is kept on the
+ * delivery row, which doubles as the delivery log shown in the app.
+ */
+
+export interface WebhookDispatcherOptions {
+  batchSize: number; // deliveries claimed per poll
+  leaseMs: number; // how long a claimed delivery is held before it's due again
+  pollIntervalMs: number;
+  requestTimeoutMs: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_WEBHOOK_DISPATCHER_OPTIONS: WebhookDispatcherOptions = {
+  batchSize: 10,
+  leaseMs: 2 * 60 * 1000,
+  pollIntervalMs: 10 * 1000,
+  requestTimeoutMs: 10 * 1000,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 60 * 60 * 1000
+};
+
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signature sent in the X-Webhook-Signature header as "t=<unix seconds>,v1=<hex>".
+ * Receivers recompute HMAC-SHA256(secret, "<t>.<raw body>") and compare.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Subscription details safe to return to clients (never the signing secret)
+ */
+export function toWebhookSubscriptionResponse(subscription: WebhookSubscription) {
+  const { secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * Why a subscription URL can't be delivered to (it must resolve only to public
+ * addresses), or null when it can
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  try {
+    await assertPublicUrl(url, { anyHost: true });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export class WebhookDispatcher {
+  private readonly options: WebhookDispatcherOptions;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollRequested = false;
+
+  constructor(options: Partial<WebhookDispatcherOptions> = {}) {
+    this.options = { ...DEFAULT_WEBHOOK_DISPATCHER_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => this.wake(), this.options.pollIntervalMs);
+    this.pollTimer.unref();
+    console.log('[WEBHOOKS] Dispatcher started');
+    this.wake();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Send due deliveries now instead of waiting for the next poll
+   */
+  wake(): void {
+    this.poll().catch(error => {
+      console.error('[WEBHOOKS] Poll failed:', error);
+    });
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollRequested = true;
+      return;
+    }
+    this.polling = true;
+
+    try {
+      do {
+        this.pollRequested = false;
+        const deliveries = await storage.claimDueWebhookDeliveries(this.options.batchSize, this.options.leaseMs);
+        await Promise.all(deliveries.map(delivery => this.attemptDelivery(delivery)));
+        // A full batch may mean more are waiting
+        if (deliveries.length === this.options.batchSize) this.pollRequested = true;
+      } while (this.pollRequested);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    try {
+      const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+      if (!subscription || !subscription.active) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: 'failed',
+          nextAttemptAt: null,
+          errorMessage: "Subscription was disabled or deleted"
+        });
+        return;
+      }
+
+      const body = JSON.stringify(delivery.payload);
+      let responseStatus: number | null = null;
+      let responseBody: string | null = null;
+      let errorMessage: string | null = null;
+
+      try {
+        // Re-checked on every attempt, since the host's DNS can change after the subscription was saved
+        await assertPublicUrl(subscription.url, { anyHost: true });
+        const response = await fetch(subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'RentAI-Webhooks/1.0',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery.id,
+            'X-Webhook-Signature': signWebhookPayload(subscription.secret, Math.floor(Date.now() / 1000), body)
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.options.requestTimeoutMs)
+        });
+        responseStatus = response.status;
+        if (response.ok) {
+          responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+        } else {
+          // Redirects aren't followed, and error bodies aren't kept, so an endpoint can't relay other hosts' responses into the delivery log
+          await response.body?.cancel();
+          errorMessage = response.status >= 300 && response.status < 400
+            ? `Endpoint redirected with HTTP ${response.status}`
+            : `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!errorMessage) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: 'succeeded',
+          nextAttemptAt: null,
+          deliveredAt: new Date(),
+          responseStatus,
+          responseBody,
+          errorMessage: null
+        });
+        console.log(`[WEBHOOKS] Delivered ${delivery.event} (${delivery.id}) to ${subscription.url}`);
+      } else if (delivery.attempts >= delivery.maxAttempts) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: 'failed',
+          nextAttemptAt: null,
+          responseStatus,
+          responseBody,
+          errorMessage
+        });
+        console.error(`[WEBHOOKS] Delivery ${delivery.id} failed after ${delivery.attempts} attempts: ${errorMessage}`);
+      } else {
+        const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(delivery.attempts, this.options));
+        await storage.updateWebhookDelivery(delivery.id, {
+          nextAttemptAt,
+          responseStatus,
+          responseBody,
+          errorMessage
+        });
+        console.warn(`[WEBHOOKS] Delivery ${delivery.id} attempt ${delivery.attempts} failed, retrying at ${nextAttemptAt.toISOString()}: ${errorMessage}`);
+      }
+    } catch (error) {
+      // The claim lease brings the delivery back around if recording the outcome failed
+      console.error(`[WEBHOOKS] Error attempting delivery ${delivery.id}:`, error);
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
+
+/**
+ * Queue an event for every active subscription of the resource's owner and
+ * organization. Webhooks are secondary to the work that raised the event, so
+ * failures are logged rather than thrown.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, owner: OwnedResource, data: Record<string, any>): Promise<void> {
+  try {
+    const subscriptions = (await storage.getActiveWebhookSubscriptionsForOwner(owner.userId, owner.organizationId))
+      .filter(subscription => subscription.events.includes(event));
+    if (subscriptions.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    const payload = { id: eventId, event, createdAt: new Date().toISOString(), data };
+    await storage.createWebhookDeliveries(subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      eventId,
+      event,
+      payload
+    })));
+    webhookDispatcher.wake();
+  } catch (error) {
+    console.error(`[WEBHOOKS] Failed to queue ${event} event:`, error);
+  }
+}
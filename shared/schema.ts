@@ -1,6 +1,6 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, json, timestamp, index, unique, check } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, varchar, integer, decimal, boolean, json, timestamp, date, index, unique, check } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Define unit mix type for property profiles
@@ -18,6 +18,7 @@ export type UnitMix = z.infer<typeof unitMixSchema>;
 export const propertyProfiles = pgTable("property_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id), // User ownership
+  organizationId: varchar("organization_id").references(() => organizations.id), // Shared with the organization's members when set
   name: text("name").notNull(),
   address: text("address").notNull(),
   url: text("url").notNull(), // Direct URL - key requirement
@@ -36,11 +37,25 @@ export const propertyProfiles = pgTable("property_profiles", {
   matchScore: decimal("match_score", { precision: 5, scale: 2 }), // similarity score
   vacancyRate: decimal("vacancy_rate", { precision: 5, scale: 2 }),
   priceRange: text("price_range"), // for competitors
+  // Coordinates from the geocoder (see server/geocoding.ts) and the address they were resolved from
+  latitude: decimal("latitude", { precision: 9, scale: 6 }),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }),
+  geocodedAddress: text("geocoded_address"),
+  // Miles to the nearest point of interest per category, entered by the user; feeds the location score
+  poiDistances: json("poi_distances").$type<PoiDistances>(),
+  // Automatic re-scraping: "daily" | "weekly" | 5-field cron expression; null falls back to the portfolio schedule
+  scrapeSchedule: text("scrape_schedule"),
+  lastScrapedAt: timestamp("last_scraped_at"),
+  nextScrapeAt: timestamp("next_scrape_at"), // set by the scrape scheduler from the effective schedule
+  // Target share of lease expirations per calendar month (12 percentages, January first); null spreads them evenly
+  leaseExpirationTargets: json("lease_expiration_targets").$type<number[]>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 }, (table) => ({
   // Indexes for performance
   userIdIdx: index("property_profiles_user_id_idx").on(table.userId),
+  organizationIdIdx: index("property_profiles_organization_id_idx").on(table.organizationId),
+  nextScrapeAtIdx: index("property_profiles_next_scrape_at_idx").on(table.nextScrapeAt),
   profileTypeIdx: index("property_profiles_profile_type_idx").on(table.profileType),
   urlIdx: index("property_profiles_url_idx").on(table.url),
   locationIdx: index("property_profiles_location_idx").on(table.city, table.state),
@@ -58,7 +73,10 @@ export const analysisSessions = pgTable("analysis_sessions", {
   description: text("description"),
   // NEW: Link to users and portfolios
   userId: varchar("user_id").references(() => users.id),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   portfolioId: varchar("portfolio_id").references(() => savedPortfolios.id),
+  // Amenity value weights overriding the defaults, keyed by canonical amenity (see server/amenities.ts)
+  amenityWeights: json("amenity_weights").$type<Record<string, number>>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 }, (table) => ({
@@ -66,6 +84,7 @@ export const analysisSessions = pgTable("analysis_sessions", {
   nameIdx: index("analysis_sessions_name_idx").on(table.name),
   createdAtIdx: index("analysis_sessions_created_at_idx").on(table.createdAt),
   userIdIdx: index("analysis_sessions_user_id_idx").on(table.userId),
+  organizationIdIdx: index("analysis_sessions_organization_id_idx").on(table.organizationId),
   portfolioIdIdx: index("analysis_sessions_portfolio_id_idx").on(table.portfolioId)
 }));
 
@@ -91,6 +110,7 @@ export const sessionPropertyProfiles = pgTable("session_property_profiles", {
 export const savedSelectionTemplates = pgTable("saved_selection_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   name: text("name").notNull(), // e.g., "Downtown Portfolio", "Class A Competition Set"
   description: text("description"),
   icon: text("icon"), // Optional icon name for visual distinction
@@ -99,6 +119,7 @@ export const savedSelectionTemplates = pgTable("saved_selection_templates", {
 }, (table) => ({
   // Indexes for performance
   userIdIdx: index("saved_selection_templates_user_id_idx").on(table.userId),
+  organizationIdIdx: index("saved_selection_templates_organization_id_idx").on(table.organizationId),
   nameIdx: index("saved_selection_templates_name_idx").on(table.name),
   createdAtIdx: index("saved_selection_templates_created_at_idx").on(table.createdAt),
   // Unique constraint to prevent duplicate template names per user
@@ -185,6 +206,12 @@ export const propertyUnits = pgTable("property_units", {
   bathrooms: decimal("bathrooms", { precision: 3, scale: 1 }), // for bathroom count
   squareFootage: integer("square_footage"), // square footage of the unit
   optimizationPriority: integer("optimization_priority").default(0), // priority for optimization
+  // Unit attributes - see server/unit-attributes.ts for the accepted values
+  floor: integer("floor"),
+  renovationTier: text("renovation_tier"), // newly_renovated, updated, original
+  view: text("view"),
+  features: json("features").$type<string[]>(),
+  leaseTerms: json("lease_terms").$type<string[]>(), // offered terms, e.g. "12_month", "month_to_month"
   createdAt: timestamp("created_at").defaultNow()
 }, (table) => ({
   // Indexes for performance
@@ -200,6 +227,28 @@ export const propertyUnits = pgTable("property_units", {
   hierarchyIdx: index("property_units_hierarchy_idx").on(table.propertyProfileId, table.tag, table.bedrooms, table.bathrooms)
 }));
 
+// Leases on property units. A unit keeps its lease history; the lease with the
+// latest start date is the current one. Dates are stored as "YYYY-MM-DD".
+export const leases = pgTable("leases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyUnitId: varchar("property_unit_id").references(() => propertyUnits.id, { onDelete: "cascade" }).notNull(),
+  leaseTermMonths: integer("lease_term_months"),
+  leaseStart: date("lease_start", { mode: "string" }),
+  leaseEnd: date("lease_end", { mode: "string" }),
+  moveInDate: date("move_in_date", { mode: "string" }),
+  effectiveRent: decimal("effective_rent", { precision: 10, scale: 2 }), // monthly rent net of concessions
+  concessionAmount: decimal("concession_amount", { precision: 10, scale: 2 }), // total value over the term
+  concessionDescription: text("concession_description"), // e.g. "1 month free"
+  renewalStatus: text("renewal_status").notNull().default("pending"), // pending, offered, renewed, declined, month_to_month
+  renewalOfferDate: date("renewal_offer_date", { mode: "string" }),
+  renewalDecisionDate: date("renewal_decision_date", { mode: "string" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  propertyUnitIdIdx: index("leases_property_unit_id_idx").on(table.propertyUnitId),
+  leaseEndIdx: index("leases_lease_end_idx").on(table.leaseEnd)
+}));
+
 // TAG definitions table for managing TAG display order
 export const tagDefinitions = pgTable("tag_definitions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -241,6 +290,46 @@ export const optimizationReports = pgTable("optimization_reports", {
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Reviewed changes to unit asking rents. A proposal moves from draft to
+// submitted to approved or rejected; approving it is the only way a unit's
+// recommendedRent changes outside of the optimizer.
+export const pricingProposals = pgTable("pricing_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => analysisSessions.id, { onDelete: "cascade" }).notNull(),
+  optimizationReportId: varchar("optimization_report_id").references(() => optimizationReports.id, { onDelete: "set null" }), // report the recommended rents came from
+  title: text("title"),
+  notes: text("notes"),
+  status: text("status").notNull().default("draft"), // draft, submitted, approved, rejected
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  approverId: varchar("approver_id").references(() => users.id),
+  decisionNote: text("decision_note"),
+  submittedAt: timestamp("submitted_at"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  sessionIdIdx: index("pricing_proposals_session_id_idx").on(table.sessionId),
+  approverStatusIdx: index("pricing_proposals_approver_status_idx").on(table.approverId, table.status),
+  statusCheck: check("pricing_proposals_status_check", sql`${table.status} IN ('draft', 'submitted', 'approved', 'rejected')`)
+}));
+
+// Proposed rent for one unit. Rents that differ from the optimizer's
+// recommendation are overrides and carry a reason code.
+export const pricingProposalUnits = pgTable("pricing_proposal_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").references(() => pricingProposals.id, { onDelete: "cascade" }).notNull(),
+  propertyUnitId: varchar("property_unit_id").references(() => propertyUnits.id, { onDelete: "cascade" }).notNull(),
+  currentRent: decimal("current_rent", { precision: 10, scale: 2 }).notNull(), // unit's rent when the proposal was drafted
+  recommendedRent: decimal("recommended_rent", { precision: 10, scale: 2 }), // optimizer recommendation, if any
+  proposedRent: decimal("proposed_rent", { precision: 10, scale: 2 }).notNull(),
+  reasonCode: text("reason_code"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  proposalIdIdx: index("pricing_proposal_units_proposal_id_idx").on(table.proposalId),
+  proposalUnitUnique: unique("pricing_proposal_units_proposal_unit_unique").on(table.proposalId, table.propertyUnitId)
+}));
+
 // Scrapezy scraping jobs and cached data
 export const scrapingJobs = pgTable("scraping_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -250,15 +339,28 @@ export const scrapingJobs = pgTable("scraping_jobs", {
   propertyProfileId: varchar("property_profile_id").references(() => propertyProfiles.id),
   // Analysis session reference for multi-property scraping
   sessionId: varchar("session_id").references(() => analysisSessions.id),
-  stage: text("stage").notNull(), // "city_discovery" or "unit_details"
+  stage: text("stage").notNull(), // e.g. "session_direct_scraping", "scheduled_refresh" or COMPETITOR_DISCOVERY_STAGE
   cityUrl: text("city_url").notNull(),
   scrapezyJobId: text("scrapezy_job_id"),
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  trigger: text("trigger").notNull().default("manual"), // manual | scheduled
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed, dead_letter
   results: json("results").$type<any>(),
   errorMessage: text("error_message"),
+  // Durable queue bookkeeping
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  nextRunAt: timestamp("next_run_at"), // earliest time a pending job may be claimed (null = immediately)
+  leaseOwner: text("lease_owner"), // worker currently holding the job
+  leaseExpiresAt: timestamp("lease_expires_at"), // processing jobs past this time are reclaimed
+  heartbeatAt: timestamp("heartbeat_at"),
+  startedAt: timestamp("started_at"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at")
-});
+}, (table) => ({
+  // Indexes for queue polling and lease reclamation
+  statusNextRunIdx: index("scraping_jobs_status_next_run_idx").on(table.status, table.nextRunAt),
+  leaseExpiresIdx: index("scraping_jobs_lease_expires_idx").on(table.leaseExpiresAt)
+}));
 
 export const scrapedProperties = pgTable("scraped_properties", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -269,6 +371,8 @@ export const scrapedProperties = pgTable("scraped_properties", {
   distance: decimal("distance", { precision: 5, scale: 2 }),
   isSubjectProperty: boolean("is_subject_property").default(false),
   matchScore: decimal("match_score", { precision: 5, scale: 2 }),
+  parserName: text("parser_name"), // site parser (e.g. apartments.com) or firecrawl_extract / llm_markdown
+  parserConfidence: decimal("parser_confidence", { precision: 4, scale: 3 }), // 0-1, only set by deterministic site parsers
   createdAt: timestamp("created_at").defaultNow()
 });
 
@@ -284,9 +388,114 @@ export const scrapedUnits = pgTable("scraped_units", {
   rent: decimal("rent", { precision: 10, scale: 2 }),
   availabilityDate: text("availability_date"),
   status: text("status").default("available"), // available, occupied, pending
+  floor: integer("floor"),
+  renovationTier: text("renovation_tier"), // newly_renovated, updated, original
+  view: text("view"),
+  features: json("features").$type<string[]>(),
+  leaseTerms: json("lease_terms").$type<string[]>(), // offered terms, e.g. "12_month", "month_to_month"
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// A reason a scraped unit failed validation
+export type ScrapeValidationIssue = {
+  code: string; // e.g. "rent_out_of_range", "duplicate_unit_number", "rent_market_outlier"
+  message: string;
+};
+
+// Scraped units that failed validation. They are kept out of scrapedUnits (and so out of
+// market averages) and listed by the debug-scrape-integrity endpoint for review.
+export const quarantinedScrapedUnits = pgTable("quarantined_scraped_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => scrapedProperties.id).notNull(),
+  scrapingJobId: varchar("scraping_job_id").references(() => scrapingJobs.id),
+  unitNumber: text("unit_number"),
+  floorPlanName: text("floor_plan_name"),
+  unitType: text("unit_type").notNull(),
+  bedrooms: integer("bedrooms"),
+  bathrooms: decimal("bathrooms", { precision: 3, scale: 1 }),
+  squareFootage: integer("square_footage"),
+  rent: decimal("rent", { precision: 10, scale: 2 }),
+  availabilityDate: text("availability_date"),
+  reasons: json("reasons").$type<ScrapeValidationIssue[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  propertyIdIdx: index("quarantined_scraped_units_property_id_idx").on(table.propertyId)
+}));
+
+// Scraping jobs in this stage search a listing-site results page (cityUrl) for competitors of
+// the job's subject profile instead of scraping the profile itself
+export const COMPETITOR_DISCOVERY_STAGE = "competitor_discovery";
+
+// Similarity factors behind a competitor candidate's matchScore
+export const candidateSimilarityFactors = ["unitMix", "vintage", "size", "amenities", "distance"] as const;
+export type CandidateSimilarityFactor = typeof candidateSimilarityFactors[number];
+// 0-100 per factor; factors without data on either side are missing
+export type CandidateSimilarity = Partial<Record<CandidateSimilarityFactor, number>>;
+
+// Competitors found by discovery for a subject profile, waiting for review. Accepting one
+// creates (or links) a competitor profile; rejected candidates stay hidden on later runs.
+export const competitorCandidates = pgTable("competitor_candidates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectProfileId: varchar("subject_profile_id").references(() => propertyProfiles.id).notNull(),
+  url: text("url").notNull(), // listing URL
+  name: text("name").notNull(),
+  address: text("address").notNull(),
+  builtYear: integer("built_year"),
+  totalUnits: integer("total_units"),
+  unitMix: json("unit_mix").$type<UnitMix>(),
+  amenities: json("amenities").$type<string[]>().default([]),
+  avgSquareFootage: integer("avg_square_footage"),
+  avgRent: decimal("avg_rent", { precision: 10, scale: 2 }),
+  latitude: decimal("latitude", { precision: 9, scale: 6 }),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }),
+  distance: decimal("distance", { precision: 5, scale: 2 }), // miles from the subject
+  matchScore: decimal("match_score", { precision: 5, scale: 2 }).notNull(),
+  similarity: json("similarity").$type<CandidateSimilarity>().notNull(),
+  status: text("status").notNull().default("pending"), // pending | accepted | rejected
+  competitorProfileId: varchar("competitor_profile_id").references(() => propertyProfiles.id), // set on accept
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  subjectStatusIdx: index("competitor_candidates_subject_status_idx").on(table.subjectProfileId, table.status),
+  subjectUrlUnique: unique("competitor_candidates_subject_url_unique").on(table.subjectProfileId, table.url),
+  statusCheck: check("competitor_candidates_status_check", sql`${table.status} IN ('pending', 'accepted', 'rejected')`)
+}));
+
+// Scrape snapshots - one row per scrape run of a listing URL. scrapedUnits only holds the
+// latest scrape for a scraped property; snapshots keep every run for rent history.
+export const scrapeSnapshots = pgTable("scrape_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(), // listing URL - the identity of a comp across scrape runs
+  propertyProfileId: varchar("property_profile_id").references(() => propertyProfiles.id),
+  scrapedPropertyId: varchar("scraped_property_id").references(() => scrapedProperties.id),
+  scrapingJobId: varchar("scraping_job_id").references(() => scrapingJobs.id),
+  unitCount: integer("unit_count").notNull().default(0),
+  parserName: text("parser_name"),
+  parserConfidence: decimal("parser_confidence", { precision: 4, scale: 3 }),
+  capturedAt: timestamp("captured_at").defaultNow().notNull()
+}, (table) => ({
+  urlCapturedAtIdx: index("scrape_snapshots_url_captured_at_idx").on(table.url, table.capturedAt)
+}));
+
+export const scrapeSnapshotUnits = pgTable("scrape_snapshot_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: varchar("snapshot_id").references(() => scrapeSnapshots.id).notNull(),
+  unitKey: text("unit_key").notNull(), // stable identity of the unit across snapshots
+  unitNumber: text("unit_number"),
+  floorPlanName: text("floor_plan_name"),
+  unitType: text("unit_type").notNull(),
+  bedrooms: integer("bedrooms"),
+  bathrooms: decimal("bathrooms", { precision: 3, scale: 1 }),
+  squareFootage: integer("square_footage"),
+  rent: decimal("rent", { precision: 10, scale: 2 }),
+  availabilityDate: text("availability_date"),
+  status: text("status")
+}, (table) => ({
+  snapshotIdIdx: index("scrape_snapshot_units_snapshot_id_idx").on(table.snapshotId),
+  unitKeyIdx: index("scrape_snapshot_units_unit_key_idx").on(table.unitKey)
+}));
+
 // Session storage table - MANDATORY for Replit Auth
 export const sessions = pgTable(
   "sessions",
@@ -315,20 +524,113 @@ export const users = pgTable("users", {
   emailLowerIdx: index("users_email_lower_idx").on(sql`lower(${table.email})`),
 }));
 
+// Organizations (team workspaces) whose members share profiles, portfolios, templates and sessions
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  nameIdx: index("organizations_name_idx").on(table.name)
+}));
+
+// Clerk users' memberships in organizations
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  role: text("role").notNull(), // "owner" | "analyst" | "viewer"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  organizationIdIdx: index("organization_members_organization_id_idx").on(table.organizationId),
+  userIdIdx: index("organization_members_user_id_idx").on(table.userId),
+  organizationUserUnique: unique("organization_members_organization_user_unique").on(table.organizationId, table.userId),
+  roleCheck: check("organization_members_role_check", sql`${table.role} IN ('owner', 'analyst', 'viewer')`)
+}));
+
+// API keys for programmatic access to the /api/v1 REST API. Only a hash of the
+// key is stored; the plaintext is shown once at creation.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(), // Key creator; requests act with their access
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Org-scoped keys only reach the organization's resources
+  name: text("name").notNull(),
+  keyPrefix: varchar("key_prefix", { length: 32 }).notNull(), // Identifies the key in listings without revealing it
+  keyHash: varchar("key_hash", { length: 64 }).notNull(), // SHA-256 of the full key
+  scopes: json("scopes").$type<string[]>().notNull().default([]),
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  keyHashUnique: unique("api_keys_key_hash_unique").on(table.keyHash),
+  userIdIdx: index("api_keys_user_id_idx").on(table.userId),
+  organizationIdIdx: index("api_keys_organization_id_idx").on(table.organizationId)
+}));
+
+// Outbound webhook subscriptions, owned by a user or shared by an organization
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Org subscriptions receive events for the organization's resources
+  url: text("url").notNull(),
+  description: text("description"),
+  events: json("events").$type<string[]>().notNull().default([]),
+  secret: varchar("secret", { length: 128 }).notNull(), // HMAC-SHA256 signing secret
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  userIdIdx: index("webhook_subscriptions_user_id_idx").on(table.userId),
+  organizationIdIdx: index("webhook_subscriptions_organization_id_idx").on(table.organizationId)
+}));
+
+// One delivery of an event to a subscription, retried with backoff until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").references(() => webhookSubscriptions.id, { onDelete: "cascade" }).notNull(),
+  eventId: varchar("event_id").notNull(), // shared by every delivery of the same event
+  event: text("event").notNull(),
+  payload: json("payload").$type<Record<string, any>>().notNull(),
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(6),
+  nextAttemptAt: timestamp("next_attempt_at"), // claimed deliveries are pushed out by the claim lease
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // truncated
+  errorMessage: text("error_message"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  subscriptionCreatedAtIdx: index("webhook_deliveries_subscription_created_at_idx").on(table.subscriptionId, table.createdAt)
+}));
+
 // NEW: Portfolio Management Tables
 
 // Saved portfolios for users
 export const savedPortfolios = pgTable("saved_portfolios", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id),
   name: text("name").notNull(),
   description: text("description"),
+  // Default pricing strategy pinned for optimizations run against this portfolio
+  pricingStrategy: text("pricing_strategy"),
+  pricingStrategyParams: json("pricing_strategy_params").$type<Record<string, any>>(),
+  // Default re-scrape schedule for the portfolio's properties ("daily" | "weekly" | cron expression)
+  scrapeSchedule: text("scrape_schedule"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   lastAccessedAt: timestamp("last_accessed_at").defaultNow()
 }, (table) => ({
   // Indexes for performance
   userIdIdx: index("saved_portfolios_user_id_idx").on(table.userId),
+  organizationIdIdx: index("saved_portfolios_organization_id_idx").on(table.organizationId),
   nameIdx: index("saved_portfolios_name_idx").on(table.name),
   createdAtIdx: index("saved_portfolios_created_at_idx").on(table.createdAt),
   lastAccessedIdx: index("saved_portfolios_last_accessed_idx").on(table.lastAccessedAt)
@@ -380,17 +682,45 @@ export const competitiveRelationships = pgTable("competitive_relationships", {
 
 // Insert schemas for new property profiles system
 // Custom schema to handle decimal fields properly (they can be strings or numbers)
+// Point-of-interest categories the location score weighs
+export const poiCategories = ["transit", "grocery", "employment", "school", "park", "dining"] as const;
+export const poiDistancesSchema = z.record(z.enum(poiCategories), z.number().min(0).max(50));
+
 export const insertPropertyProfileSchema = createInsertSchema(propertyProfiles)
-  .omit({ id: true, createdAt: true, updatedAt: true })
+  // Scrape schedule fields are managed through the scrape-schedule endpoints and the scheduler,
+  // expiration targets through the lease-expiration-targets endpoint, coordinates by the geocoder
+  .omit({
+    id: true, createdAt: true, updatedAt: true, scrapeSchedule: true, lastScrapedAt: true, nextScrapeAt: true, leaseExpirationTargets: true,
+    latitude: true, longitude: true, geocodedAddress: true
+  })
   .extend({
     // Allow decimal fields to accept both strings and numbers, then transform to string
     distance: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
     matchScore: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
     vacancyRate: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
+    poiDistances: poiDistancesSchema.optional().nullable(),
   });
-export const insertAnalysisSessionSchema = createInsertSchema(analysisSessions).omit({ id: true, createdAt: true, updatedAt: true });
+// Amenity weights are managed through the amenity-weights endpoint
+export const insertAnalysisSessionSchema = createInsertSchema(analysisSessions).omit({ id: true, createdAt: true, updatedAt: true, amenityWeights: true });
 export const insertSessionPropertyProfileSchema = createInsertSchema(sessionPropertyProfiles).omit({ id: true, createdAt: true });
 
+// Unit attributes shared by property units and scraped units
+export const renovationTiers = ["newly_renovated", "updated", "original"] as const;
+export const unitViews = ["city", "water", "park", "mountain", "courtyard", "pool", "street"] as const;
+export const unitFeatures = [
+  "in_unit_laundry", "balcony", "fireplace", "walk_in_closet", "hardwood_floors",
+  "stainless_appliances", "dishwasher", "private_entrance", "corner_unit", "high_ceilings"
+] as const;
+// Offered lease terms are "month_to_month" or a length in months such as "12_month"
+export const unitLeaseTermSchema = z.string().regex(/^(month_to_month|\d{1,2}_month)$/, 'Lease terms must be "month_to_month" or "<months>_month"');
+const unitAttributeFields = {
+  floor: z.number().int().min(0).optional().nullable(),
+  renovationTier: z.enum(renovationTiers).optional().nullable(),
+  view: z.enum(unitViews).optional().nullable(),
+  features: z.array(z.enum(unitFeatures)).optional().nullable(),
+  leaseTerms: z.array(unitLeaseTermSchema).optional().nullable(),
+};
+
 // Legacy insert schemas (maintained for backward compatibility)
 export const insertPropertySchema = createInsertSchema(properties).omit({ id: true, createdAt: true });
 export const insertPropertyAnalysisSchema = createInsertSchema(propertyAnalysis).omit({ id: true, createdAt: true });
@@ -401,18 +731,133 @@ export const insertPropertyUnitSchema = createInsertSchema(propertyUnits).omit({
     currentRent: z.union([z.string(), z.number()]).transform(val => val?.toString()),
     recommendedRent: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
     bathrooms: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
+    ...unitAttributeFields,
+  });
+// Unit writes from the app; asking rents only change through approved pricing proposals
+export const propertyUnitWriteSchema = insertPropertyUnitSchema.omit({ recommendedRent: true });
+export const propertyUnitBulkUpdateSchema = z.object({
+  updates: z.array(z.object({
+    id: z.string(),
+    updates: propertyUnitWriteSchema.omit({ propertyProfileId: true }).partial()
+  }))
+});
+export const leaseRenewalStatuses = ["pending", "offered", "renewed", "declined", "month_to_month"] as const;
+export const leaseRenewalStatusSchema = z.enum(leaseRenewalStatuses);
+const leaseDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+export const insertLeaseSchema = createInsertSchema(leases).omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    leaseTermMonths: z.number().int().min(1).max(120).optional().nullable(),
+    leaseStart: leaseDateSchema.optional().nullable(),
+    leaseEnd: leaseDateSchema.optional().nullable(),
+    moveInDate: leaseDateSchema.optional().nullable(),
+    effectiveRent: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
+    concessionAmount: z.union([z.string(), z.number()]).transform(val => val?.toString()).optional().nullable(),
+    renewalStatus: leaseRenewalStatusSchema.optional(),
+    renewalOfferDate: leaseDateSchema.optional().nullable(),
+    renewalDecisionDate: leaseDateSchema.optional().nullable()
   });
+// Body of PUT /api/units/:id/lease - the unit comes from the URL
+export const leaseRequestSchema = insertLeaseSchema.omit({ propertyUnitId: true });
+// Renewal pricing for leases expiring within the window
+export const renewalPricingRequestSchema = z.object({
+  withinDays: z.number().int().min(1).max(365).default(90),
+  // Share of the gap between the lease rent and the comp market recovered at renewal
+  lossToLeaseCapturePercent: z.number().min(0).max(100).default(50),
+  maxIncreasePercent: z.number().min(0).max(25).default(5),
+  // Floor applied even when a unit is already at or above market
+  minIncreasePercent: z.number().min(0).max(25).default(0)
+}).refine(params => params.minIncreasePercent <= params.maxIncreasePercent, {
+  message: "minIncreasePercent cannot exceed maxIncreasePercent",
+  path: ["minIncreasePercent"]
+});
 export const insertTagDefinitionSchema = createInsertSchema(tagDefinitions).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertOptimizationReportSchema = createInsertSchema(optimizationReports).omit({ id: true, createdAt: true });
+export const pricingProposalStatuses = ["draft", "submitted", "approved", "rejected"] as const;
+export const pricingProposalStatusSchema = z.enum(pricingProposalStatuses);
+export const pricingOverrideReasonCodes = [
+  "market_conditions", "competitor_pricing", "concession_offset", "renovation", "retention", "seasonality", "other"
+] as const;
+export const pricingOverrideReasonCodeSchema = z.enum(pricingOverrideReasonCodes);
+export const insertPricingProposalSchema = createInsertSchema(pricingProposals).omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({ status: pricingProposalStatusSchema.optional() });
+export const insertPricingProposalUnitSchema = createInsertSchema(pricingProposalUnits).omit({ id: true, createdAt: true });
+// Units in a proposal request, named the way the optimizer reports them
+export const pricingProposalUnitRequestSchema = z.object({
+  propertyProfileId: z.string().min(1),
+  unitNumber: z.string().min(1),
+  proposedRent: z.number().positive(),
+  reasonCode: pricingOverrideReasonCodeSchema.optional().nullable(),
+  note: z.string().max(500).optional().nullable()
+});
+// Body of POST /api/analysis-sessions/:sessionId/pricing-proposals and PUT /api/pricing-proposals/:id
+export const pricingProposalRequestSchema = z.object({
+  title: z.string().max(200).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+  approverId: z.string().min(1).optional().nullable(),
+  units: z.array(pricingProposalUnitRequestSchema).min(1, "A proposal needs at least one unit")
+});
+export const pricingProposalSubmitSchema = z.object({
+  approverId: z.string().min(1)
+});
+export const pricingProposalDecisionSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().max(2000).optional().nullable()
+}).refine(body => body.decision === "approved" || !!body.note?.trim(), {
+  message: "A note is required when rejecting a proposal",
+  path: ["note"]
+});
 export const insertScrapingJobSchema = createInsertSchema(scrapingJobs).omit({ id: true, createdAt: true, completedAt: true });
 export const insertScrapedPropertySchema = createInsertSchema(scrapedProperties).omit({ id: true, createdAt: true });
-export const insertScrapedUnitSchema = createInsertSchema(scrapedUnits).omit({ id: true, createdAt: true });
+export const insertScrapedUnitSchema = createInsertSchema(scrapedUnits).omit({ id: true, createdAt: true }).extend(unitAttributeFields);
+export const insertQuarantinedScrapedUnitSchema = createInsertSchema(quarantinedScrapedUnits).omit({ id: true, createdAt: true });
+export const insertScrapeSnapshotSchema = createInsertSchema(scrapeSnapshots).omit({ id: true, capturedAt: true });
+export const insertScrapeSnapshotUnitSchema = createInsertSchema(scrapeSnapshotUnits).omit({ id: true });
+export const insertCompetitorCandidateSchema = createInsertSchema(competitorCandidates).omit({ id: true, createdAt: true, updatedAt: true, reviewedAt: true });
+
+// Body of POST /api/property-profiles/:id/competitor-discovery. Without a searchUrl the
+// subject's city and state are searched on apartments.com.
+export const competitorDiscoveryRequestSchema = z.object({
+  searchUrl: z.string().url().optional()
+});
 
 // User authentication schemas
 export const insertUserSchema = createInsertSchema(users).omit({ createdAt: true, updatedAt: true });
 
+// Organization schemas
+export const organizationRoles = ["owner", "analyst", "viewer"] as const;
+export const organizationRoleSchema = z.enum(organizationRoles);
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  role: organizationRoleSchema
+});
+
+// Adding a member by Clerk user ID, and changing a member's role
+export const organizationMemberRequestSchema = z.object({
+  userId: z.string().trim().min(1),
+  role: organizationRoleSchema.default("analyst")
+});
+export const organizationRoleUpdateSchema = z.object({
+  role: organizationRoleSchema
+});
+
+// API key schemas
+export const apiKeyScopes = ["read:profiles", "read:units", "write:units", "read:comps", "read:optimization"] as const;
+export const apiKeyScopeSchema = z.enum(apiKeyScopes);
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, createdAt: true, lastUsedAt: true, revokedAt: true }).extend({
+  scopes: z.array(apiKeyScopeSchema).min(1)
+});
+
+// Creating an API key from the app; the key itself is generated server-side
+export const apiKeyCreateRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  organizationId: z.string().min(1).nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+  expiresAt: z.coerce.date().nullable().optional()
+});
+
 // NEW: Portfolio management insert schemas
-export const insertSavedPortfolioSchema = createInsertSchema(savedPortfolios).omit({ id: true, createdAt: true, updatedAt: true, lastAccessedAt: true });
+export const insertSavedPortfolioSchema = createInsertSchema(savedPortfolios).omit({ id: true, createdAt: true, updatedAt: true, lastAccessedAt: true, scrapeSchedule: true });
 export const insertSavedPropertyProfileSchema = createInsertSchema(savedPropertyProfiles).omit({ id: true, createdAt: true });
 export const insertCompetitiveRelationshipSchema = createInsertSchema(competitiveRelationships).omit({ id: true, createdAt: true });
 
@@ -433,16 +878,318 @@ export type CompetitorProperty = typeof competitorProperties.$inferSelect;
 export type InsertCompetitorProperty = z.infer<typeof insertCompetitorPropertySchema>;
 export type PropertyUnit = typeof propertyUnits.$inferSelect;
 export type InsertPropertyUnit = z.infer<typeof insertPropertyUnitSchema>;
+export type RenovationTier = typeof renovationTiers[number];
+export type UnitView = typeof unitViews[number];
+export type UnitFeature = typeof unitFeatures[number];
+export type Lease = typeof leases.$inferSelect;
+export type InsertLease = z.infer<typeof insertLeaseSchema>;
+export type LeaseRenewalStatus = z.infer<typeof leaseRenewalStatusSchema>;
+// A unit's current lease ending within the requested window (negative days = already ended)
+export type ExpiringLease = {
+  propertyProfileId: string;
+  propertyName: string;
+  unit: Pick<PropertyUnit, 'id' | 'unitNumber' | 'unitType' | 'bedrooms' | 'squareFootage' | 'currentRent' | 'status'>;
+  lease: Lease;
+  daysUntilExpiration: number;
+};
+export type RenewalPricingParams = z.infer<typeof renewalPricingRequestSchema>;
+// One renewal offer (a row in the renewal letter batch)
+export type RenewalRecommendation = {
+  propertyProfileId: string;
+  propertyName: string;
+  unitId: string;
+  unitNumber: string;
+  unitType: string;
+  bedrooms: number | null;
+  leaseId: string;
+  leaseEnd: string;
+  daysUntilExpiration: number;
+  renewalTermMonths: number;
+  currentRent: number; // lease effective rent, or the unit's rent when the lease has none
+  marketRent: number | null; // weighted comp market rent, null without comparables
+  comparableCount: number;
+  lossToLease: number; // market minus current, negative when above market
+  lossToLeasePercent: number | null;
+  recommendedRent: number;
+  increase: number;
+  increasePercent: number;
+  capped: boolean; // the loss-to-lease target was held back by maxIncreasePercent
+  offerEffectiveDate: string; // first day after the current lease ends
+  reasoning: string;
+};
+export type RenewalPricingBatch = {
+  sessionId: string;
+  generatedAt: string;
+  params: RenewalPricingParams;
+  recommendations: RenewalRecommendation[];
+  summary: {
+    units: number;
+    cappedUnits: number;
+    totalLossToLease: number;
+    totalMonthlyIncrease: number;
+    avgIncreasePercent: number;
+  };
+};
+// Lease expirations in one calendar month of the profile horizon
+export type LeaseExpirationMonth = {
+  month: string; // "YYYY-MM"
+  expiring: number;
+  target: number; // expected expirations under the target distribution
+  variance: number; // expiring minus target
+  status: 'over' | 'under' | 'on_target';
+};
+// Expirations per month for one bedroom/TAG group of the unit hierarchy
+export type LeaseExpirationGroup = {
+  bedrooms: string;
+  tag: string;
+  units: number;
+  expiringByMonth: number[]; // aligned with LeaseExpirationProfile.months
+};
+export type LeaseTermOption = {
+  termMonths: number;
+  expirationMonth: string; // "YYYY-MM" the new lease would end in
+  premiumPercent: number;
+  rent: number;
+};
+// Lease-term offer for a unit whose lease ends within the horizon
+export type LeaseTermRecommendation = {
+  unitId: string;
+  unitNumber: string;
+  bedrooms: number | null;
+  tag: string | null;
+  leaseEnd: string;
+  currentExpirationMonth: string;
+  baseRent: number;
+  recommendedTermMonths: number;
+  recommendedExpirationMonth: string;
+  options: LeaseTermOption[];
+  reasoning: string;
+};
+export type LeaseExpirationProfile = {
+  propertyProfileId: string;
+  propertyName: string;
+  targets: number[]; // percent per calendar month, January first
+  occupiedUnits: number;
+  unitsWithLeases: number;
+  holdover: number; // current leases already past their end date
+  months: LeaseExpirationMonth[];
+  groups: LeaseExpirationGroup[];
+  termRecommendations: LeaseTermRecommendation[];
+};
+export type AmenityKey = typeof amenityKeys[number];
+export type PoiCategory = typeof poiCategories[number];
+export type PoiDistances = Partial<Record<PoiCategory, number>>;
+// An amenity with the weight in effect for a session
+export type AmenityTaxonomyEntry = {
+  key: AmenityKey;
+  label: string;
+  defaultWeight: number;
+  weight: number;
+};
 export type TagDefinition = typeof tagDefinitions.$inferSelect;
 export type InsertTagDefinition = z.infer<typeof insertTagDefinitionSchema>;
 export type OptimizationReport = typeof optimizationReports.$inferSelect;
 export type InsertOptimizationReport = z.infer<typeof insertOptimizationReportSchema>;
+export type PricingProposal = typeof pricingProposals.$inferSelect;
+export type InsertPricingProposal = z.infer<typeof insertPricingProposalSchema>;
+export type PricingProposalUnit = typeof pricingProposalUnits.$inferSelect;
+export type InsertPricingProposalUnit = z.infer<typeof insertPricingProposalUnitSchema>;
+export type PricingProposalStatus = z.infer<typeof pricingProposalStatusSchema>;
+export type PricingOverrideReasonCode = z.infer<typeof pricingOverrideReasonCodeSchema>;
+export type PricingProposalRequest = z.infer<typeof pricingProposalRequestSchema>;
+
+// A proposal with its units, as returned by the pricing proposal routes
+export interface PricingProposalDetail extends PricingProposal {
+  units: Array<PricingProposalUnit & {
+    unitNumber: string;
+    propertyProfileId: string | null;
+    isOverride: boolean; // proposed rent differs from the optimizer's recommendation
+  }>;
+  summary: {
+    units: number;
+    overrides: number;
+    totalMonthlyChange: number; // proposed minus current rent, summed
+  };
+}
+
+// Users who can be assigned to review a session's proposals
+export interface PricingApprover {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// A property pin on the competitive-set map
+export interface PropertyMapPin {
+  id: string; // property profile ID, or the saved profile ID for portfolio properties without one
+  propertyProfileId: string | null;
+  name: string;
+  address: string;
+  role: 'subject' | 'competitor';
+  latitude: number;
+  longitude: number;
+  distance: number | null; // miles to the nearest subject property
+  relationshipType: string | null; // competitive relationship to a subject, from the portfolio
+  avgRent: number | null;
+  pricingPosition: 'above' | 'at' | 'below' | null; // average rent against the subject average
+}
+
+export interface PropertyMapData {
+  pins: PropertyMapPin[];
+  candidates: PropertyMapPin[]; // competitor profiles outside the session, selectable on the map
+  unlocated: Array<{ id: string; name: string; address: string }>; // properties that could not be geocoded
+}
 export type ScrapingJob = typeof scrapingJobs.$inferSelect;
 export type InsertScrapingJob = z.infer<typeof insertScrapingJobSchema>;
 export type ScrapedProperty = typeof scrapedProperties.$inferSelect;
 export type InsertScrapedProperty = z.infer<typeof insertScrapedPropertySchema>;
 export type ScrapedUnit = typeof scrapedUnits.$inferSelect;
 export type InsertScrapedUnit = z.infer<typeof insertScrapedUnitSchema>;
+export type QuarantinedScrapedUnit = typeof quarantinedScrapedUnits.$inferSelect;
+export type InsertQuarantinedScrapedUnit = z.infer<typeof insertQuarantinedScrapedUnitSchema>;
+export type ScrapeSnapshot = typeof scrapeSnapshots.$inferSelect;
+export type InsertScrapeSnapshot = z.infer<typeof insertScrapeSnapshotSchema>;
+export type ScrapeSnapshotUnit = typeof scrapeSnapshotUnits.$inferSelect;
+export type InsertScrapeSnapshotUnit = z.infer<typeof insertScrapeSnapshotUnitSchema>;
+export type CompetitorCandidate = typeof competitorCandidates.$inferSelect;
+export type InsertCompetitorCandidate = z.infer<typeof insertCompetitorCandidateSchema>;
+export type CompetitorCandidateStatus = "pending" | "accepted" | "rejected";
+
+// Organization types
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+
+// Webhook schemas
+export const webhookEvents = ["scrape.completed", "scrape.failed", "optimization.generated", "pricing.applied", "unit.import.completed"] as const;
+export const webhookEventSchema = z.enum(webhookEvents);
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  url: z.string().url(),
+  events: z.array(webhookEventSchema).min(1)
+});
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true }).extend({
+  payload: z.record(z.any())
+});
+
+// Creating and editing subscriptions from the app; the signing secret is generated server-side
+export const webhookSubscriptionRequestSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), "Webhook URL must use http or https"),
+  description: z.string().trim().max(200).nullable().optional(),
+  events: z.array(webhookEventSchema).min(1),
+  organizationId: z.string().min(1).nullable().optional()
+});
+export const webhookSubscriptionUpdateSchema = webhookSubscriptionRequestSchema.omit({ organizationId: true }).partial().extend({
+  active: z.boolean().optional()
+});
+
+// Public REST API (v1) response schemas. Responses are parsed through these, so
+// the documented fields stay stable as columns are added to the tables.
+export const apiPropertyProfileSchema = createSelectSchema(propertyProfiles, {
+  amenities: z.array(z.string()).nullable(),
+  unitMix: unitMixSchema.nullable()
+}).pick({
+  id: true, organizationId: true, name: true, address: true, url: true, profileType: true, city: true, state: true,
+  propertyType: true, totalUnits: true, builtYear: true, squareFootage: true, parkingSpaces: true, amenities: true,
+  unitMix: true, distance: true, matchScore: true, vacancyRate: true, priceRange: true, latitude: true, longitude: true,
+  lastScrapedAt: true, createdAt: true, updatedAt: true
+});
+const apiUnitAttributeColumns = {
+  features: z.array(z.string()).nullable(),
+  leaseTerms: z.array(z.string()).nullable()
+};
+export const apiPropertyUnitSchema = createSelectSchema(propertyUnits, apiUnitAttributeColumns).pick({
+  id: true, propertyProfileId: true, unitNumber: true, unitType: true, currentRent: true, recommendedRent: true,
+  status: true, tag: true, bedrooms: true, bathrooms: true, squareFootage: true,
+  floor: true, renovationTier: true, view: true, features: true, leaseTerms: true, createdAt: true
+});
+export const apiScrapedUnitSchema = createSelectSchema(scrapedUnits, apiUnitAttributeColumns).pick({
+  id: true, unitNumber: true, floorPlanName: true, unitType: true, bedrooms: true, bathrooms: true,
+  squareFootage: true, rent: true, availabilityDate: true, status: true,
+  floor: true, renovationTier: true, view: true, features: true, leaseTerms: true, createdAt: true
+});
+export const apiScrapedCompSchema = createSelectSchema(scrapedProperties).pick({
+  id: true, name: true, address: true, url: true, distance: true, isSubjectProperty: true, matchScore: true, createdAt: true
+}).extend({
+  units: z.array(apiScrapedUnitSchema)
+});
+export const apiScrapedCompsSchema = z.object({
+  propertyProfileId: z.string(),
+  scrapedAt: z.date().nullable(), // completion time of the scrape the comps come from
+  comps: z.array(apiScrapedCompSchema)
+});
+export const apiAnalysisSessionSchema = createSelectSchema(analysisSessions).pick({
+  id: true, organizationId: true, portfolioId: true, name: true, description: true, createdAt: true, updatedAt: true
+});
+export const apiOptimizationReportSchema = createSelectSchema(optimizationReports, {
+  optimizedUnits: z.array(z.record(z.any())).nullable(),
+  portfolioSummary: z.record(z.any()).nullable()
+}).pick({
+  id: true, propertyProfileId: true, sessionId: true, goal: true, riskTolerance: true, timeline: true,
+  totalIncrease: true, affectedUnits: true, avgIncrease: true, riskLevel: true, optimizedUnits: true,
+  portfolioSummary: true, createdAt: true
+});
+export const apiErrorSchema = z.object({
+  message: z.string(),
+  details: z.string().optional()
+});
+
+// Units created or updated through the public API. Asking rents are read-only
+// here; they change through approved pricing proposals.
+export const apiPropertyUnitWriteSchema = insertPropertyUnitSchema.pick({
+  unitNumber: true, unitType: true, currentRent: true, status: true, tag: true,
+  bedrooms: true, bathrooms: true, squareFootage: true,
+  floor: true, renovationTier: true, view: true, features: true, leaseTerms: true
+});
+
+// Webhook types
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+// Session event stream types (GET /api/analysis-sessions/:sessionId/events)
+export type SessionEventName = 'scraping-status' | 'optimization-progress';
+
+export type PropertyScrapingStatus = {
+  propertyId: string;
+  propertyName: string;
+  profileType: string; // "subject" | "competitor"
+  scrapingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'none';
+  unitsFound: number;
+  errorMessage?: string;
+  attempts: number;
+  maxAttempts: number | null;
+  nextRetryAt: Date | string | null;
+  deadLetter: boolean;
+};
+
+// Also the response of GET /api/analysis-sessions/:sessionId/scraping-status
+export type SessionScrapingStatus = {
+  sessionId: string;
+  overallStatus: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
+  properties: PropertyScrapingStatus[];
+  totalProperties: number;
+  completedProperties: number;
+  failedProperties: number;
+  processingProperties: number;
+};
+
+// Stages 1-5: preparing data, analyzing market, generating recommendations,
+// calculating pricing impacts, finalizing. Failed events carry the stage that was running.
+export type OptimizationProgress = {
+  stage: number;
+  status: 'running' | 'completed' | 'failed';
+  message?: string;
+};
+
+// API key types
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 
 // NEW: Portfolio management types
 export type SavedPortfolio = typeof savedPortfolios.$inferSelect;
@@ -452,6 +1199,34 @@ export type InsertSavedPropertyProfile = z.infer<typeof insertSavedPropertyProfi
 export type CompetitiveRelationship = typeof competitiveRelationships.$inferSelect;
 export type InsertCompetitiveRelationship = z.infer<typeof insertCompetitiveRelationshipSchema>;
 
+// Lease expiration target distribution for a property profile (null resets to an even spread)
+export const leaseExpirationTargetsUpdateSchema = z.object({
+  leaseExpirationTargets: z.array(z.number().min(0).max(100)).length(12)
+    .refine(targets => Math.abs(targets.reduce((sum, target) => sum + target, 0) - 100) < 0.5, {
+      message: "Monthly targets must add up to 100%"
+    })
+    .nullable()
+});
+
+// Canonical amenities scraped amenity text is normalized to
+export const amenityKeys = [
+  "in_unit_laundry", "laundry_facility", "dishwasher", "air_conditioning", "balcony", "fireplace",
+  "walk_in_closet", "hardwood_floors", "stainless_appliances", "high_ceilings", "private_entrance", "corner_unit",
+  "gym", "pool", "parking", "ev_charging", "pet_friendly", "dog_park", "clubhouse", "rooftop",
+  "business_center", "concierge", "controlled_access", "elevator", "storage", "package_lockers",
+  "bike_storage", "playground", "outdoor_grills"
+] as const;
+
+// Amenity weight overrides for an analysis session (null restores the defaults)
+export const amenityWeightsUpdateSchema = z.object({
+  amenityWeights: z.record(z.enum(amenityKeys), z.number().min(0).max(10)).nullable()
+});
+
+// Re-scrape schedule updates for property profiles and portfolios (null clears the schedule)
+export const scrapeScheduleUpdateSchema = z.object({
+  scrapeSchedule: z.string().trim().min(1).nullable()
+});
+
 // Filter criteria and analysis schemas
 export const filterCriteriaSchema = z.object({
   bedroomTypes: z.array(z.enum(["Studio", "1BR", "2BR", "3BR"])).default([]),
@@ -465,10 +1240,12 @@ export const filterCriteriaSchema = z.object({
     max: z.number().min(0)
   }),
   // Advanced filters
-  amenities: z.array(z.enum(["in_unit_laundry", "parking", "gym", "pool", "pet_friendly"])).optional(),
+  amenities: z.array(z.enum(amenityKeys)).optional(),
   leaseTerms: z.array(z.enum(["6_month", "12_month", "month_to_month"])).optional(),
   floorLevel: z.enum(["ground", "mid", "top"]).optional(),
-  renovationStatus: z.enum(["newly_renovated", "updated", "original"]).optional(),
+  renovationStatus: z.enum(renovationTiers).optional(),
+  // Competitors further than this from the subject property (miles) are left out
+  radiusMiles: z.number().positive().max(100).optional(),
   // Property filtering
   selectedProperties: z.array(z.string()).optional(), // Array of property profile IDs
   // Competitive set filters
@@ -575,6 +1352,40 @@ export const filteredAnalysisSchema = z.object({
   comparisonNote: z.string()
 });
 
+// Pricing band parameters for the deterministic pricing engine
+export const pricingBandSchema = z.object({
+  minScore: z.number().min(0).max(100), // inclusive lower bound of the pricing power score
+  maxScore: z.number().min(0).max(100), // exclusive upper bound (inclusive for the top band)
+  adjustmentAtMin: z.number().min(-50).max(50), // percent adjustment applied at minScore
+  adjustmentAtMax: z.number().min(-50).max(50), // percent adjustment applied at maxScore
+  reason: z.string()
+}).refine(band => band.maxScore >= band.minScore, { message: "maxScore must be >= minScore" });
+
+export type PricingBand = z.infer<typeof pricingBandSchema>;
+
+// Rule table row for the user-defined (custom) pricing strategy
+export const pricingRuleSchema = z.object({
+  minScore: z.number().min(0).max(100).default(0),
+  maxScore: z.number().min(0).max(100).default(100),
+  status: z.string().optional(), // only match units with this status, e.g. "vacant"
+  bedrooms: z.number().int().min(0).optional(), // only match units with this bedroom count
+  adjustmentPercent: z.number().min(-50).max(50),
+  reason: z.string().default("Custom pricing rule")
+});
+
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+
+// Public description of a registered pricing strategy (served to the optimize page)
+export type PricingStrategyDescriptor = {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  badge: string; // short label shown next to the strategy, e.g. "85% • High Risk"
+  preset?: { occupancy: number; risk: number }; // slider presets; strategies without one are user-tuned
+  defaultParams: Record<string, any>;
+};
+
 export type FilterCriteria = z.infer<typeof filterCriteriaSchema>;
 export type UnitComparison = z.infer<typeof unitComparisonSchema>;
 export type CompetitiveEdges = z.infer<typeof competitiveEdgesSchema>;
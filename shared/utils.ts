@@ -42,4 +42,36 @@ export function normalizeAmenities(amenities: any): string[] {
 
   // Fallback for unknown types
   return [];
-}
\ No newline at end of file
+}
+
+/**
+ * Mean of the values, or null when there are none
+ */
+export function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Middle value of a non-empty list (the mean of the two middle values for an even count)
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 1 up to fullCredit, falling linearly to 0 at zeroCredit (e.g. miles from a point of interest)
+ */
+export function linearCredit(value: number, fullCredit: number, zeroCredit: number): number {
+  if (value <= fullCredit) return 1;
+  if (value >= zeroCredit) return 0;
+  return (zeroCredit - value) / (zeroCredit - fullCredit);
+}
+
+/**
+ * Rounds a rent to the nearest $5
+ */
+export function roundToFive(value: number): number {
+  return Math.round(value / 5) * 5;
+}